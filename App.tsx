@@ -1,7 +1,7 @@
 import React, { useState, Suspense } from "react";
 import Layout from "./components/Layout";
-import { Member, Donation, ChurchSettings, ViewState } from "./types";
-import { Loader2, ShieldCheck } from "lucide-react";
+import { Member, Donation, DonationSummary, ChurchSettings, ViewState } from "./types";
+import { Loader2, ClipboardList, X } from "lucide-react";
 
 // Lazy load components for performance
 const Login = React.lazy(() => import("./components/Login"));
@@ -22,6 +22,10 @@ const StewardshipPortal = React.lazy(
 );
 const MemberDashboard = React.lazy(() => import("./components/MemberDashboard"));
 const Register = React.lazy(() => import("./components/Register"));
+const AuditLog = React.lazy(() => import("./components/AuditLog"));
+const MyTasks = React.lazy(() => import("./components/MyTasks"));
+const ReportInbox = React.lazy(() => import("./components/ReportInbox"));
+const DisbursementLedger = React.lazy(() => import("./components/DisbursementLedger"));
 
 import {
   fetchMembers,
@@ -31,8 +35,17 @@ import {
   fetchDonationSummary,
   fetchSettings,
   updateSettings,
+  fetchTasks,
+  fetchReportInbox,
+  mapMember,
+  mapDonation,
 } from "./src/lib/api";
 import { SocketProvider, useSocket } from "./src/contexts/SocketContext";
+import { useLiveEvents, useChangeHighlights } from "./src/hooks/useLiveUpdates";
+import { isRecordChange, mergeRecord, applyDonationChange, applyMemberChange } from "./src/lib/liveUpdates";
+import { useOfflineQueue } from "./src/hooks/useOfflineQueue";
+import { clearMemberLookup } from "./src/lib/offlineStore";
+import { readSessionUser, hasPermission } from "./src/lib/session";
 
 // Inner component to handle socket events (must be inside SocketProvider)
 const AppContent: React.FC<{
@@ -43,9 +56,11 @@ const AppContent: React.FC<{
   const [showPasswordChange, setShowPasswordChange] = useState<boolean>(false);
   const [view, setView] = useState<ViewState>("DASHBOARD");
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+  // Parsed once per session; UI permissions come from the flags the server sent at login
+  const currentUser = React.useMemo(() => (token ? readSessionUser() : null), [token]);
   const [members, setMembers] = useState<Member[]>([]);
   const [donations, setDonations] = useState<Donation[]>([]);
-  const [donationSummary, setDonationSummary] = useState({
+  const [donationSummary, setDonationSummary] = useState<DonationSummary>({
     totalDonations: 0,
     donationCount: 0,
     avgDonation: 0,
@@ -57,7 +72,7 @@ const AppContent: React.FC<{
     currentYearDonations: 0,
     avgRecent: 0,
     avgPrevious: 0,
-    fundDistribution: [] as {name: string; value: number}[],
+    fundDistribution: [],
   });
 
   const [loading, setLoading] = useState(!!token);
@@ -90,6 +105,32 @@ const AppContent: React.FC<{
     }
   }, [token]);
 
+  // Single member and donation changes are merged into the shared lists
+  // and dashboard totals; bulk changes (imports, merges) and reconnects
+  // reload everything from the API
+  const { highlights: liveChanges, highlight: markLiveChange } = useChangeHighlights();
+
+  useLiveEvents(
+    {
+      "member:update": (event) => {
+        if (!isRecordChange(event)) return void loadData();
+        const member = event.type === "DELETE" ? null : (mapMember(event.data) as Member);
+        setMembers((prev) => mergeRecord(prev, event.type, String(event.id ?? member?.id), member, { insert: "end" }));
+        setDonationSummary((prev) => applyMemberChange(prev, event.type));
+        markLiveChange("member", event.by);
+      },
+      "donation:update": (event) => {
+        if (!isRecordChange(event)) return void loadData();
+        const donation = event.type === "DELETE" ? null : (mapDonation(event.data) as Donation);
+        const previous = event.previous ? (mapDonation(event.previous) as Donation) : null;
+        setDonations((prev) => mergeRecord(prev, event.type, String(event.id ?? donation?.id), donation, { limit: 50 }));
+        setDonationSummary((prev) => applyDonationChange(prev, previous, donation));
+        markLiveChange("donation", event.by);
+      },
+    },
+    loadData,
+  );
+
   // Listen for global data update events
   React.useEffect(() => {
     if (!socket) return;
@@ -100,16 +141,14 @@ const AppContent: React.FC<{
       loadData();
     };
 
-    socket.on("member:update", handleDataUpdate);
-    socket.on("donation:update", handleDataUpdate);
     socket.on("settings:update", handleDataUpdate); // Might not need full reload for settings but consistency is good
     socket.on("user:update", handleDataUpdate); // Relevant for admins
+    socket.on("fund:update", handleDataUpdate); // Renames change the fund shown on donations
 
     return () => {
-      socket.off("member:update", handleDataUpdate);
-      socket.off("donation:update", handleDataUpdate);
       socket.off("settings:update", handleDataUpdate);
       socket.off("user:update", handleDataUpdate);
+      socket.off("fund:update", handleDataUpdate);
     };
   }, [socket, loadData]);
 
@@ -117,6 +156,86 @@ const AppContent: React.FC<{
     loadData();
   }, [loadData, token]);
 
+  // Gifts entered offline sync from any view once the connection returns
+  const offlineQueue = useOfflineQueue();
+
+  // Open follow-up tasks assigned to the signed-in user, shown in the nav
+  const [openTaskCount, setOpenTaskCount] = useState(0);
+  const [taskNotice, setTaskNotice] = useState<string | null>(null);
+
+  const loadOpenTaskCount = React.useCallback(async () => {
+    if (!token || !hasPermission(currentUser, "tasks:read")) return;
+    try {
+      const result = await fetchTasks(1, 1, { assignedTo: "me", status: "active" });
+      setOpenTaskCount(result.pagination.total);
+    } catch (error) {
+      console.error("Failed to load task count:", error);
+    }
+  }, [token, currentUser]);
+
+  React.useEffect(() => {
+    loadOpenTaskCount();
+  }, [loadOpenTaskCount]);
+
+  // Task events go to every client; only tasks handed to this user by
+  // someone else (or created automatically) raise a notice
+  React.useEffect(() => {
+    if (!socket) return;
+
+    const handleTaskUpdate = (event: any) => {
+      loadOpenTaskCount();
+      if (!currentUser || !event.data || event.data.assignedTo !== currentUser.id || event.by === currentUser.username) return;
+      if (event.type === "CREATE" || event.type === "ASSIGN") {
+        setTaskNotice(`New task: ${event.data.title}`);
+      } else if (event.type === "BULK_CREATE") {
+        setTaskNotice(`${event.data.created} new follow-up task${event.data.created === 1 ? "" : "s"} assigned to you`);
+      }
+    };
+
+    socket.on("task:update", handleTaskUpdate);
+    return () => {
+      socket.off("task:update", handleTaskUpdate);
+    };
+  }, [socket, loadOpenTaskCount, currentUser]);
+
+  // Unread scheduled reports in the signed-in user's Report Inbox
+  const [unreadReportCount, setUnreadReportCount] = useState(0);
+
+  const loadUnreadReportCount = React.useCallback(async () => {
+    if (!token || !hasPermission(currentUser, "reports:read")) return;
+    try {
+      const result = await fetchReportInbox(1, 1, true);
+      setUnreadReportCount(result.unread);
+    } catch (error) {
+      console.error("Failed to load report inbox count:", error);
+    }
+  }, [token, currentUser]);
+
+  React.useEffect(() => {
+    loadUnreadReportCount();
+  }, [loadUnreadReportCount]);
+
+  React.useEffect(() => {
+    if (!socket) return;
+
+    const handleReportUpdate = (event: any) => {
+      if (event.type === "INBOX" && currentUser && event.data?.userIds?.includes(currentUser.id)) {
+        loadUnreadReportCount();
+      }
+    };
+
+    socket.on("report:update", handleReportUpdate);
+    return () => {
+      socket.off("report:update", handleReportUpdate);
+    };
+  }, [socket, loadUnreadReportCount, currentUser]);
+
+  React.useEffect(() => {
+    if (!taskNotice) return;
+    const timer = setTimeout(() => setTaskNotice(null), 8000);
+    return () => clearTimeout(timer);
+  }, [taskNotice]);
+
   // Background refresh when switching to Dashboard to ensure real-time data
   React.useEffect(() => {
     if (view === "DASHBOARD" && token) {
@@ -126,16 +245,10 @@ const AppContent: React.FC<{
 
   // Set initial view based on role if logged in
   React.useEffect(() => {
-    if (token) {
-      const userStr = localStorage.getItem("user");
-      if (userStr) {
-        const user = JSON.parse(userStr);
-        if (user.role === 'viewer') {
-          setView('MEMBER_DASHBOARD');
-        }
-      }
+    if (currentUser?.role === 'viewer') {
+      setView('MEMBER_DASHBOARD');
     }
-  }, [token]);
+  }, [currentUser]);
 
   const [churchSettings, setChurchSettings] = useState<ChurchSettings>({
     name: "GraceGiver",
@@ -171,9 +284,8 @@ const AppContent: React.FC<{
 
   const handleLoginSuccess = (passwordChangeRequired: boolean = false) => {
     setToken(localStorage.getItem("token"));
-    const userStr = localStorage.getItem("user");
-    if (userStr) {
-      const user = JSON.parse(userStr);
+    const user = readSessionUser();
+    if (user) {
       if (user.role === 'viewer') {
         setView("MEMBER_DASHBOARD");
       } else {
@@ -215,6 +327,8 @@ const AppContent: React.FC<{
   const handleLogout = () => {
     localStorage.removeItem("token");
     localStorage.removeItem("user");
+    // Queued gifts stay for their author's next session; the member copy does not
+    clearMemberLookup().catch((error) => console.error("Failed to clear offline members:", error));
     setToken(null);
     setMustChangePassword(false);
     setView("DASHBOARD");
@@ -222,20 +336,16 @@ const AppContent: React.FC<{
 
   // Ensure viewer role is redirected if they somehow land on admin views
   React.useEffect(() => {
-    if (token) {
-      const userStr = localStorage.getItem("user");
-      if (userStr) {
-        const user = JSON.parse(userStr);
-        if (user.role === 'viewer' && view !== 'MEMBER_DASHBOARD' && view !== 'SETTINGS') {
-          // Viewers only allowed on MEMBER_DASHBOARD or SETTINGS (for password change)
-          setView('MEMBER_DASHBOARD');
-        } else if (user.role !== 'viewer' && view === 'MEMBER_DASHBOARD') {
-          // Admins shouldn't be on MEMBER_DASHBOARD
-          setView('DASHBOARD');
-        }
+    if (currentUser) {
+      if (currentUser.role === 'viewer' && view !== 'MEMBER_DASHBOARD' && view !== 'SETTINGS') {
+        // Viewers only allowed on MEMBER_DASHBOARD or SETTINGS (for password change)
+        setView('MEMBER_DASHBOARD');
+      } else if (currentUser.role !== 'viewer' && view === 'MEMBER_DASHBOARD') {
+        // Admins shouldn't be on MEMBER_DASHBOARD
+        setView('DASHBOARD');
       }
     }
-  }, [token, view]);
+  }, [currentUser, view]);
 
   const renderView = () => {
     return (
@@ -255,6 +365,9 @@ const AppContent: React.FC<{
                   donations={donations}
                   churchSettings={churchSettings}
                   summary={donationSummary}
+                  liveChanges={liveChanges}
+                  canFollowUp={hasPermission(currentUser, "tasks:create")}
+                  canExportRisk={!!currentUser?.canExportData}
                 />
               );
             case "MEMBER_DASHBOARD":
@@ -289,6 +402,29 @@ const AppContent: React.FC<{
                   members={members}
                   donations={donations}
                   churchSettings={churchSettings}
+                  canCreateTasks={hasPermission(currentUser, "tasks:create")}
+                  canEmailStatements={!!currentUser?.canEmailStatements}
+                  canSendEmail={hasPermission(currentUser, "email:send")}
+                  canScheduleReports={!!currentUser?.canScheduleReports}
+                  canManageReports={!!currentUser?.canManageReports}
+                  currentUserId={currentUser?.id ?? null}
+                />
+              );
+            case "REPORT_INBOX":
+              return (
+                <ReportInbox
+                  currentUserId={currentUser?.id ?? null}
+                  onUnreadChange={setUnreadReportCount}
+                />
+              );
+            case "DISBURSEMENTS":
+              return (
+                <DisbursementLedger
+                  currentUserId={currentUser?.id ?? null}
+                  canRequest={hasPermission(currentUser, "disbursements:create")}
+                  canApprove={!!currentUser?.canApproveDisbursements}
+                  canDelete={hasPermission(currentUser, "disbursements:delete")}
+                  canExport={!!currentUser?.canExportData}
                 />
               );
             case "SETTINGS":
@@ -297,44 +433,34 @@ const AppContent: React.FC<{
                   settings={churchSettings}
                   onUpdate={handleUpdateSettings}
                   onChangePassword={handleOpenPasswordChange}
+                  canManageFunds={!!currentUser?.canManageSettings}
+                  canManageBudgets={!!currentUser?.canManageBudgets}
+                  canManageGlAccounts={!!currentUser?.canManageSettings}
+                  canManageEmail={!!currentUser?.canManageEmail}
+                  canManageLocks={!!currentUser?.canReleaseLocks}
                 />
               );
             case "AUDIT":
-              return (
-                <div className="animate-in fade-in duration-500">
-                  <h1 className="text-3xl font-bold text-slate-900 tracking-tight mb-6">
-                    Security Audit Logs
-                  </h1>
-                  <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden p-8">
-                    <div className="flex flex-col items-center justify-center py-12 text-slate-400">
-                      <div className="p-4 bg-slate-50 rounded-full mb-4">
-                        <ShieldCheck size={48} />
-                      </div>
-                      <p className="text-lg font-medium">
-                        Audit logs are restricted to Super-Admin roles.
-                      </p>
-                      <p className="text-sm">
-                        Contact your system administrator for access.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              );
+              return <AuditLog />;
             case "USERS":
               return (
                 <UserManagement
-                  currentUserId={
-                    JSON.parse(localStorage.getItem("user") || "{}").id
-                  }
-                  currentUserRole={
-                    JSON.parse(localStorage.getItem("user") || "{}").role
-                  }
+                  currentUserId={currentUser?.id ?? 0}
+                  currentUserRole={currentUser?.role ?? ""}
                 />
               );
             case "VOLUNTEER":
               return <VolunteerMatching />;
             case "STEWARDSHIP":
               return <StewardshipPortal />;
+            case "TASKS":
+              return (
+                <MyTasks
+                  currentUserId={currentUser?.id ?? null}
+                  canCreate={hasPermission(currentUser, "tasks:create")}
+                  canDelete={hasPermission(currentUser, "tasks:delete")}
+                />
+              );
             default:
               return (
                 <Dashboard
@@ -412,8 +538,28 @@ const AppContent: React.FC<{
       setView={setView}
       churchName={churchSettings.name}
       onLogout={handleLogout}
+      openTaskCount={openTaskCount}
+      unreadReportCount={unreadReportCount}
+      pendingSyncCount={offlineQueue.queued.length}
     >
       {renderView()}
+      {taskNotice && (
+        <div className="fixed bottom-6 right-6 z-[70] flex items-center gap-3 bg-indigo-900 text-white pl-4 pr-2 py-3 rounded-2xl shadow-2xl animate-in slide-in-from-bottom-4 duration-300">
+          <ClipboardList size={20} className="text-indigo-300 shrink-0" />
+          <button
+            onClick={() => {
+              setView("TASKS");
+              setTaskNotice(null);
+            }}
+            className="text-sm font-medium text-left hover:underline"
+          >
+            {taskNotice}
+          </button>
+          <button onClick={() => setTaskNotice(null)} className="p-1 text-indigo-300 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, Unlock, AlertCircle, RefreshCw } from 'lucide-react';
+import { RecordLock, LockResourceType } from '../types';
+import { fetchRecordLocks, forceReleaseRecordLock } from '../src/lib/api';
+
+const RESOURCE_LABELS: Record<LockResourceType, string> = {
+  member: 'Member',
+  donation: 'Donation',
+  settings: 'Settings',
+  user: 'User account',
+};
+
+// Leases are short, so the list is refreshed while it is on screen
+const REFRESH_MS = 15 * 1000;
+
+const formatAge = (since: number) => {
+  const minutes = Math.floor((Date.now() - since) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min ago`;
+};
+
+const ActiveLocks: React.FC = () => {
+  const [locks, setLocks] = useState<RecordLock[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [releasing, setReleasing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLocks(await fetchRecordLocks());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load locks.');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const handleRelease = async (lock: RecordLock) => {
+    if (!confirm(`Release ${lock.lockedBy}'s lock? Any unsaved changes they are making will no longer be protected.`)) return;
+    const key = `${lock.resourceType}:${lock.resourceId}`;
+    setReleasing(key);
+    try {
+      await forceReleaseRecordLock(lock.resourceType, lock.resourceId);
+    } catch (err: any) {
+      // Already gone (expired or released meanwhile) is fine
+      if (err.message !== 'Lock not found') setError(err.message || 'Failed to release lock.');
+    } finally {
+      setReleasing(null);
+      load();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Lock size={20} className="text-indigo-600" />
+          <h2 className="font-bold text-slate-800">Active Edit Locks</h2>
+        </div>
+        <button onClick={load} title="Refresh" className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg">
+          <RefreshCw size={16} />
+        </button>
+      </div>
+
+      <div className="p-8 space-y-4">
+        <p className="text-sm text-slate-500">
+          Records open for editing are locked for everyone else. Locks lapse on their own when an editor goes idle or closes the page; release one here if someone is blocked.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        {locks.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No records are locked right now.</p>
+        ) : (
+          <div className="border border-slate-100 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left">Record</th>
+                  <th className="px-4 py-3 text-left">Locked By</th>
+                  <th className="px-4 py-3 text-left">Since</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {locks.map(lock => {
+                  const key = `${lock.resourceType}:${lock.resourceId}`;
+                  return (
+                    <tr key={key}>
+                      <td className="px-4 py-3">
+                        <div className="font-bold text-slate-900">{RESOURCE_LABELS[lock.resourceType] || lock.resourceType}</div>
+                        {lock.resourceType !== 'settings' && <div className="text-xs text-slate-500">ID: {lock.resourceId}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-slate-700">{lock.lockedBy}</td>
+                      <td className="px-4 py-3 text-slate-500">{formatAge(lock.acquiredAt)}</td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleRelease(lock)}
+                          disabled={releasing === key}
+                          className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-rose-600 border border-rose-200 rounded-lg hover:bg-rose-50 disabled:opacity-50"
+                        >
+                          <Unlock size={14} /> Release
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActiveLocks;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, Filter, Loader2, AlertCircle, ChevronDown, ChevronRight, ArrowRight } from 'lucide-react';
+import { AuditLog as AuditEvent } from '../types';
+import { fetchAuditEvents, AuditFilters } from '../src/lib/api';
+
+const ENTITY_TYPES = [
+  { value: '', label: 'All Records' },
+  { value: 'member', label: 'Members' },
+  { value: 'donation', label: 'Donations' },
+  { value: 'user', label: 'Users' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'batch', label: 'Deposit Batches' },
+  { value: 'campaign', label: 'Campaigns' },
+  { value: 'pledge', label: 'Pledges' },
+  { value: 'household', label: 'Households' },
+  { value: 'opportunity', label: 'Opportunities' },
+];
+
+const ACTIONS = ['', 'CREATE', 'UPDATE', 'DELETE', 'REGISTER', 'UNLOCK', 'RESET_PASSWORD', 'CLOSE', 'REOPEN', 'MERGE', 'SEND', 'RELEASE', 'ATTACH', 'APPROVE', 'REJECT', 'VOID'];
+
+const ACTION_COLORS: Record<string, string> = {
+  CREATE: 'bg-emerald-100 text-emerald-700',
+  REGISTER: 'bg-emerald-100 text-emerald-700',
+  UPDATE: 'bg-indigo-100 text-indigo-700',
+  DELETE: 'bg-red-100 text-red-700',
+  UNLOCK: 'bg-amber-100 text-amber-700',
+  RESET_PASSWORD: 'bg-amber-100 text-amber-700',
+  CLOSE: 'bg-slate-200 text-slate-700',
+  REOPEN: 'bg-amber-100 text-amber-700',
+  APPROVE: 'bg-emerald-100 text-emerald-700',
+  REJECT: 'bg-red-100 text-red-700',
+  VOID: 'bg-slate-200 text-slate-700',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLog: React.FC = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({
+    entityType: '',
+    entityId: '',
+    action: '',
+    actor: '',
+    startDate: '',
+    endDate: '',
+  });
+
+  const loadEvents = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchAuditEvents(page, 25, filters);
+      setEvents(result.data);
+      setTotalPages(result.pagination.totalPages);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, [page]);
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      loadEvents();
+    } else {
+      setPage(1);
+    }
+  };
+
+  if (error === 'Insufficient permissions') {
+    return (
+      <div className="animate-in fade-in duration-500">
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight mb-6">
+          Security Audit Logs
+        </h1>
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden p-8">
+          <div className="flex flex-col items-center justify-center py-12 text-slate-400">
+            <div className="p-4 bg-slate-50 rounded-full mb-4">
+              <ShieldCheck size={48} />
+            </div>
+            <p className="text-lg font-medium">
+              Audit logs are restricted to administrators and auditors.
+            </p>
+            <p className="text-sm">
+              Contact your system administrator for access.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <header>
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Security Audit Logs</h1>
+        <p className="text-slate-500 mt-1">Who changed what, and when — with before/after values.</p>
+      </header>
+
+      <form onSubmit={handleApplyFilters} className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Record Type</label>
+          <select
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+            value={filters.entityType}
+            onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+          >
+            {ENTITY_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Record ID</label>
+          <input
+            type="text"
+            placeholder="e.g. 1043"
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+            value={filters.entityId}
+            onChange={(e) => setFilters({ ...filters, entityId: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Action</label>
+          <select
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          >
+            {ACTIONS.map(a => <option key={a} value={a}>{a ? a.replace('_', ' ') : 'All Actions'}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Changed By</label>
+          <input
+            type="text"
+            placeholder="Username"
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+            value={filters.actor}
+            onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">From</label>
+            <input
+              type="date"
+              className="w-full px-2 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">To</label>
+            <input
+              type="date"
+              className="w-full px-2 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="flex items-center justify-center gap-2 px-5 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 transition-all text-sm"
+        >
+          <Filter size={16} />
+          Apply
+        </button>
+      </form>
+
+      <div className="flex justify-end gap-2">
+        <button
+          disabled={page === 1}
+          onClick={() => setPage(p => p - 1)}
+          className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-xs font-bold disabled:opacity-50 hover:bg-slate-50 transition-colors"
+        >
+          Prev
+        </button>
+        <span className="px-3 py-1 text-xs font-bold text-slate-500 flex items-center">
+          Page {page} of {Math.max(1, totalPages)}
+        </span>
+        <button
+          disabled={page >= totalPages}
+          onClick={() => setPage(p => p + 1)}
+          className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-xs font-bold disabled:opacity-50 hover:bg-slate-50 transition-colors"
+        >
+          Next
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50/50 border-b border-slate-100">
+            <tr>
+              <th className="px-6 py-4 w-8"></th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">When</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Who</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Action</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Record</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Fields Changed</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr><td colSpan={6} className="text-center py-16 text-slate-500"><Loader2 className="mx-auto animate-spin" /></td></tr>
+            ) : error ? (
+              <tr>
+                <td colSpan={6} className="text-center py-16 text-red-500">
+                  <AlertCircle className="mx-auto mb-2" size={32} />
+                  {error}
+                </td>
+              </tr>
+            ) : events.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center py-16 text-slate-500">
+                  <AlertCircle className="mx-auto mb-2" size={32} />
+                  No audit events match these filters.
+                </td>
+              </tr>
+            ) : (
+              events.map(event => {
+                const changedFields = Object.keys(event.changes || {});
+                const isExpanded = expandedId === event.id;
+                return (
+                  <React.Fragment key={event.id}>
+                    <tr
+                      className="hover:bg-slate-50/50 transition-colors cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                    >
+                      <td className="px-6 py-4 text-slate-400">
+                        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="font-bold text-slate-900 text-sm">{event.actorUsername || 'system'}</div>
+                        {event.actorRole && <div className="text-xs text-slate-400">{event.actorRole.replace('_', ' ')}</div>}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded text-xs font-bold uppercase ${ACTION_COLORS[event.action] || 'bg-slate-100 text-slate-600'}`}>
+                          {event.action.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-700">
+                        <span className="font-semibold capitalize">{event.entityType}</span>
+                        {event.entityId && <span className="text-slate-400"> #{event.entityId}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-xs text-slate-500">
+                        {changedFields.length > 0 ? changedFields.join(', ') : '—'}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-slate-50/70">
+                        <td></td>
+                        <td colSpan={5} className="px-6 py-4">
+                          {changedFields.length === 0 ? (
+                            <p className="text-sm text-slate-500 italic">
+                              No field changes recorded{event.metadata && Object.keys(event.metadata).length > 0 ? ` (${JSON.stringify(event.metadata)})` : ''}.
+                            </p>
+                          ) : (
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                                  <th className="py-1 pr-4 text-left">Field</th>
+                                  <th className="py-1 pr-4 text-left">Before</th>
+                                  <th className="py-1 w-6"></th>
+                                  <th className="py-1 text-left">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changedFields.map(field => (
+                                  <tr key={field} className="border-t border-slate-200/60">
+                                    <td className="py-2 pr-4 font-mono text-xs text-slate-600">{field}</td>
+                                    <td className="py-2 pr-4 text-red-600 line-through decoration-red-300 break-all">{formatValue(event.changes[field].from)}</td>
+                                    <td className="py-2 text-slate-300"><ArrowRight size={14} /></td>
+                                    <td className="py-2 text-emerald-700 font-medium break-all">{formatValue(event.changes[field].to)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
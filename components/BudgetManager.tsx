@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { Target, Plus, Edit2, Trash2, X, Save, AlertCircle } from 'lucide-react';
+import { FundBudget, BudgetDistribution } from '../types';
+import { fetchBudgets, createBudget, updateBudget, deleteBudget, BudgetInput } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DISTRIBUTIONS: { value: BudgetDistribution; label: string }[] = [
+  { value: 'even', label: 'Even (1/12 each month)' },
+  { value: 'seasonal', label: "Seasonal (last year's pattern)" },
+  { value: 'custom', label: 'Custom monthly amounts' },
+];
+
+const emptyForm = {
+  fund: '',
+  annualAmount: '',
+  distribution: 'even' as BudgetDistribution,
+  monthlyAmounts: new Array(12).fill(''),
+  notes: '',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const errorMessage = (err: any) => {
+  if (err.message === 'DUPLICATE_BUDGET') return 'That fund already has a budget for this year.';
+  if (err.message === 'VALIDATION_FAILED') return 'Check the budget. Custom monthly amounts must add up to the annual amount.';
+  return err.message || 'Failed to save budget.';
+};
+
+const BudgetManager: React.FC = () => {
+  // Archived funds stay listed so an existing line for one can still be edited
+  const { funds } = useFunds(true);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [budgets, setBudgets] = useState<FundBudget[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  // null = form closed, '' = adding, otherwise the id of the budget being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      setBudgets(await fetchBudgets(year));
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [year]);
+
+  const openForm = (budget?: FundBudget) => {
+    setError(null);
+    setEditingId(budget ? budget.id : '');
+    setForm(budget ? {
+      fund: budget.fund,
+      annualAmount: String(budget.annualAmount),
+      distribution: budget.distribution,
+      monthlyAmounts: budget.monthlyAmounts.map(String),
+      notes: budget.notes || '',
+    } : emptyForm);
+  };
+
+  const monthlyTotal = form.monthlyAmounts.reduce((sum, month) => sum + (parseFloat(month) || 0), 0);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    const input: BudgetInput = {
+      fund: form.fund,
+      year,
+      annualAmount: parseFloat(form.annualAmount),
+      distribution: form.distribution,
+      notes: form.notes || null,
+    };
+    if (form.distribution === 'custom') {
+      input.monthlyAmounts = form.monthlyAmounts.map(month => parseFloat(month) || 0);
+    }
+    try {
+      if (editingId) {
+        await updateBudget(editingId, input);
+      } else {
+        await createBudget(input);
+      }
+      setEditingId(null);
+      load();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: FundBudget) => {
+    if (!window.confirm(`Delete the ${year} budget for ${budget.fund}?`)) return;
+    setError(null);
+    try {
+      await deleteBudget(budget.id);
+      load();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Target size={20} className="text-indigo-600" />
+          <h2 className="font-bold text-slate-800">Fund Budgets</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            value={year}
+            onChange={e => { setYear(parseInt(e.target.value)); setEditingId(null); }}
+          >
+            {[-1, 0, 1].map(offset => {
+              const option = new Date().getFullYear() + offset;
+              return <option key={option} value={option}>{option}</option>;
+            })}
+          </select>
+          {editingId === null && (
+            <button
+              type="button"
+              onClick={() => openForm()}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700"
+            >
+              <Plus size={16} /> Add Budget
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <p className="text-sm text-slate-500">
+          Enter the annual budget the council approved for each fund. The dashboard and the Budget vs. Actual report compare giving with it month by month.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        {editingId !== null && (
+          <form onSubmit={handleSave} className="p-6 bg-slate-50 rounded-xl space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Fund</label>
+                <select required className={inputClass} value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+                  <option value="">Choose a fund</option>
+                  {funds.filter(f => f.isActive || f.name === form.fund).map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Annual Amount</label>
+                <input required type="number" min="0" step="0.01" className={inputClass} value={form.annualAmount} onChange={e => setForm({ ...form, annualAmount: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Distribution</label>
+                <select className={inputClass} value={form.distribution} onChange={e => setForm({ ...form, distribution: e.target.value as BudgetDistribution })}>
+                  {DISTRIBUTIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {form.distribution === 'custom' && (
+              <div>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                  {MONTHS.map((month, i) => (
+                    <div key={month}>
+                      <label className={labelClass}>{month}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className={inputClass}
+                        value={form.monthlyAmounts[i]}
+                        onChange={e => {
+                          const monthlyAmounts = [...form.monthlyAmounts];
+                          monthlyAmounts[i] = e.target.value;
+                          setForm({ ...form, monthlyAmounts });
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className={`text-xs mt-2 ${Math.abs(monthlyTotal - (parseFloat(form.annualAmount) || 0)) < 0.005 ? 'text-slate-500' : 'text-rose-600'}`}>
+                  Months add up to ${monthlyTotal.toFixed(2)}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Notes</label>
+              <input type="text" maxLength={1000} className={inputClass} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setEditingId(null)} className="flex items-center gap-2 px-4 py-2 text-slate-600 font-medium hover:text-slate-900">
+                <X size={16} /> Cancel
+              </button>
+              <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50">
+                <Save size={16} /> Save Budget
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="border border-slate-100 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3 text-left">Fund</th>
+                <th className="px-4 py-3 text-right">Annual</th>
+                <th className="px-4 py-3 text-left">Distribution</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {budgets.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">No budgets for {year} yet.</td>
+                </tr>
+              ) : budgets.map(budget => (
+                <tr key={budget.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-bold text-slate-900">{budget.fund}</div>
+                    {budget.notes && <div className="text-xs text-slate-500">{budget.notes}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">${budget.annualAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</td>
+                  <td className="px-4 py-3 text-slate-600">{DISTRIBUTIONS.find(d => d.value === budget.distribution)?.label}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button type="button" title="Edit" onClick={() => openForm(budget)} className="p-2 text-slate-400 hover:text-indigo-600">
+                        <Edit2 size={16} />
+                      </button>
+                      <button type="button" title="Delete" onClick={() => handleDelete(budget)} className="p-2 text-slate-400 hover:text-rose-600">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetManager;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { GitMerge, X, AlertTriangle } from 'lucide-react';
+import { FieldDifference, MergeChoice } from '../src/lib/conflicts';
+
+interface ConflictMergeDialogProps {
+  // How the record is named mid-sentence, e.g. "this member"
+  subject: string;
+  differences: FieldDifference[];
+  labels: Record<string, string>;
+  formatValue?: (key: string, value: unknown) => string;
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}
+
+const defaultFormat = (_key: string, value: unknown) =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value ?? '');
+
+/**
+ * Shown when a save is refused because someone else changed the record
+ * since it was opened. Each differing field keeps whichever side changed
+ * it; fields both sides changed are flagged for the editor to pick.
+ */
+const ConflictMergeDialog: React.FC<ConflictMergeDialogProps> = ({
+  subject,
+  differences,
+  labels,
+  formatValue = defaultFormat,
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(differences.map(diff => [diff.key, diff.choice])),
+  );
+  const conflictCount = differences.filter(diff => diff.conflict).length;
+
+  const option = (diff: FieldDifference, side: MergeChoice) => {
+    const value = formatValue(diff.key, side === 'mine' ? diff.mine : diff.theirs);
+    const isChosen = choices[diff.key] === side;
+    return (
+      <td className="px-4 py-2">
+        <label className={`flex items-center gap-2 px-2 py-1 rounded-lg cursor-pointer ${isChosen ? 'bg-indigo-50 text-indigo-900 font-medium' : 'text-slate-500'}`}>
+          <input
+            type="radio"
+            name={`conflict-${diff.key}`}
+            checked={isChosen}
+            onChange={() => setChoices({ ...choices, [diff.key]: side })}
+          />
+          {value || <span className="italic text-slate-300">blank</span>}
+        </label>
+      </td>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <GitMerge size={22} />
+            Someone Else Saved First
+          </h2>
+          <button onClick={onCancel} className="hover:opacity-75 transition-opacity">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-slate-500">
+            {subject.charAt(0).toUpperCase() + subject.slice(1)} was changed while you were editing. Pick which value each field should keep, then save again.
+          </p>
+          {conflictCount > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800 flex gap-2">
+              <AlertTriangle size={18} className="shrink-0" />
+              {conflictCount === 1 ? '1 field was' : `${conflictCount} fields were`} changed by both of you.
+            </div>
+          )}
+          {differences.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-6">Their changes match yours; nothing needs choosing.</p>
+          ) : (
+            <div className="border border-slate-100 rounded-xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3 text-left w-32">Field</th>
+                    <th className="px-4 py-3 text-left">Your Value</th>
+                    <th className="px-4 py-3 text-left">Current Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {differences.map(diff => (
+                    <tr key={diff.key} className={diff.conflict ? 'bg-amber-50/50' : ''}>
+                      <td className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        {labels[diff.key] || diff.key}
+                        {diff.conflict && <div className="normal-case font-medium text-amber-600">Both changed</div>}
+                      </td>
+                      {option(diff, 'mine')}
+                      {option(diff, 'theirs')}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-6 py-2 text-slate-600 font-bold hover:bg-slate-50 rounded-lg">
+            Keep Editing
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700"
+          >
+            <GitMerge size={16} />
+            Save Merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictMergeDialog;
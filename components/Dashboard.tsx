@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { Member, Donation, FundType, ChurchSettings } from "../types";
+import { Member, Donation, ChurchSettings, RecurringGiftInstallment, AtRiskDonor, DonorContact, DonorRiskLevel, TaskAssignee, BudgetVsActual } from "../types";
 import {
   TrendingUp,
   Users,
@@ -9,9 +9,14 @@ import {
   Sparkles,
   Loader2,
   AlertCircle,
-  ChevronRight,
   Activity,
   AlertTriangle,
+  Repeat,
+  Download,
+  PhoneCall,
+  ClipboardList,
+  Target,
+  X,
 } from "lucide-react";
 import {
   BarChart,
@@ -28,6 +33,18 @@ import {
 import CustomTooltip from "./CustomTooltip";
 
 import { graceAIService, AIInsightData } from "../src/lib/GraceAIService";
+import {
+  fetchRecurringInstallments,
+  updateRecurringInstallment,
+  fetchAtRiskDonors,
+  exportAtRiskDonors,
+  fetchDonorContacts,
+  recordDonorContact,
+  createTask,
+  fetchTaskAssignees,
+  getBudgetVsActual,
+} from "../src/lib/api";
+import { useSocket } from "../src/contexts/SocketContext";
 
 interface DashboardProps {
   members: Member[];
@@ -46,6 +63,10 @@ interface DashboardProps {
     avgPrevious: number;
     fundDistribution?: {name: string; value: number}[];
   };
+  // "member" / "donation" → username of whoever just changed them
+  liveChanges?: Record<string, string>;
+  canFollowUp?: boolean;
+  canExportRisk?: boolean;
 }
 
 const COLORS = ["#6366f1", "#8b5cf6", "#ec4899", "#f43f5e", "#f59e0b"];
@@ -55,6 +76,9 @@ const Dashboard: React.FC<DashboardProps> = ({
   donations,
   churchSettings,
   summary: propSummary,
+  liveChanges = {},
+  canFollowUp,
+  canExportRisk,
 }) => {
   const summary = propSummary || (() => {
     const totalDonations = donations.reduce((sum, d) => sum + (Number(d.amount) || 0), 0);
@@ -77,38 +101,186 @@ const Dashboard: React.FC<DashboardProps> = ({
   })();
   const [aiInsight, setAiInsight] = useState<AIInsightData | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
-  const [atRiskDonors, setAtRiskDonors] = useState<any[]>([]);
+  const [atRiskDonors, setAtRiskDonors] = useState<AtRiskDonor[]>([]);
   const [loadingForecast, setLoadingForecast] = useState(false);
+  const [riskPage, setRiskPage] = useState(1);
+  const [riskTotalPages, setRiskTotalPages] = useState(1);
+  const [riskLevel, setRiskLevel] = useState<DonorRiskLevel | "">("");
+  const [showContacted, setShowContacted] = useState(false);
+  const [contactDonor, setContactDonor] = useState<AtRiskDonor | null>(null);
+  const [contactHistory, setContactHistory] = useState<DonorContact[]>([]);
+  const [contactNote, setContactNote] = useState("");
+  const [savingContact, setSavingContact] = useState(false);
+
+  const loadForecast = async () => {
+    setLoadingForecast(true);
+    try {
+      const result = await fetchAtRiskDonors(riskPage, 9, {
+        level: riskLevel || undefined,
+        includeContacted: showContacted,
+      });
+      setAtRiskDonors(result.data);
+      setRiskTotalPages(result.pagination.totalPages || 1);
+    } catch (error) {
+      console.error("Failed to fetch forecast:", error);
+    } finally {
+      setLoadingForecast(false);
+    }
+  };
 
   useEffect(() => {
-    const fetchForecast = async () => {
-      setLoadingForecast(true);
-      try {
-        const token = localStorage.getItem("token");
-        const response = await fetch(
-          `${
-            import.meta.env.VITE_API_URL || "http://localhost:3001"
-          }/api/forecast/at-risk`,
-          {
-            headers: { Authorization: `Bearer ${token}` },
-          }
-        );
-        if (response.ok) {
-          const data = await response.json();
-          setAtRiskDonors(data);
-        }
-      } catch (error) {
-        console.error("Failed to fetch forecast:", error);
-      } finally {
-        setLoadingForecast(false);
-      }
+    loadForecast();
+  }, [riskPage, riskLevel, showContacted]);
+
+  const handleExportRisk = async () => {
+    try {
+      const blob = await exportAtRiskDonors(riskLevel || undefined);
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, "_blank");
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message);
+    }
+  };
+
+  const openContact = async (donor: AtRiskDonor) => {
+    setContactDonor(donor);
+    setContactNote("");
+    setContactHistory([]);
+    try {
+      setContactHistory(await fetchDonorContacts(donor.memberId));
+    } catch (error) {
+      console.error("Failed to fetch donor contacts:", error);
+    }
+  };
+
+  const handleSaveContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contactDonor) return;
+    setSavingContact(true);
+    try {
+      await recordDonorContact(contactDonor.memberId, contactNote);
+      setContactDonor(null);
+      loadForecast();
+    } catch (error) {
+      console.error("Failed to record contact:", error);
+      alert("Failed to record contact");
+    } finally {
+      setSavingContact(false);
+    }
+  };
+
+  // Hand a flagged donor to someone as a follow-up task
+  const [taskDonor, setTaskDonor] = useState<AtRiskDonor | null>(null);
+  const [taskAssignees, setTaskAssignees] = useState<TaskAssignee[]>([]);
+  const [taskForm, setTaskForm] = useState({ assignedTo: "", dueDate: "" });
+  const [taskError, setTaskError] = useState<string | null>(null);
+  const [savingTask, setSavingTask] = useState(false);
+
+  const openTask = async (donor: AtRiskDonor) => {
+    setTaskDonor(donor);
+    setTaskForm({ assignedTo: String(JSON.parse(localStorage.getItem("user") || "{}").id ?? ""), dueDate: "" });
+    setTaskError(null);
+    try {
+      setTaskAssignees(await fetchTaskAssignees());
+    } catch (error) {
+      console.error("Failed to fetch assignees:", error);
+    }
+  };
+
+  const handleSaveTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!taskDonor) return;
+    setSavingTask(true);
+    setTaskError(null);
+    try {
+      await createTask({
+        memberId: taskDonor.memberId,
+        origin: "at_risk",
+        title: `Check in with ${taskDonor.name}`,
+        description: taskDonor.explanation,
+        assignedTo: taskForm.assignedTo ? Number(taskForm.assignedTo) : null,
+        dueDate: taskForm.dueDate || null,
+      });
+      setTaskDonor(null);
+    } catch (error: any) {
+      console.error("Failed to create task:", error);
+      setTaskError(error.message === "TASK_EXISTS"
+        ? `${taskDonor.name} already has an open at-risk follow-up task.`
+        : "Failed to create task.");
+    } finally {
+      setSavingTask(false);
+    }
+  };
+
+  // Recurring gifts that went unmatched in the last 60 days
+  const [missedInstallments, setMissedInstallments] = useState<RecurringGiftInstallment[]>([]);
+  const { socket } = useSocket();
+
+  const loadMissedInstallments = async () => {
+    const from = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+    try {
+      const result = await fetchRecurringInstallments({ status: "missed", from, limit: 12 });
+      setMissedInstallments(result.data);
+    } catch (error) {
+      console.error("Failed to fetch missed recurring gifts:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadMissedInstallments();
+    if (!socket) return;
+    socket.on("recurring:update", loadMissedInstallments);
+    return () => {
+      socket.off("recurring:update", loadMissedInstallments);
     };
-    fetchForecast();
-  }, []);
+  }, [socket]);
+
+  // Someone else marking a donor as contacted takes them off the list
+  useEffect(() => {
+    if (!socket) return;
+    socket.on("forecast:update", loadForecast);
+    return () => {
+      socket.off("forecast:update", loadForecast);
+    };
+  }, [socket, riskPage, riskLevel, showContacted]);
+
+  // This year's budget lines with how far giving has come against them
+  const [budget, setBudget] = useState<BudgetVsActual | null>(null);
+
+  const loadBudget = async () => {
+    try {
+      setBudget(await getBudgetVsActual(new Date().getFullYear()));
+    } catch (error) {
+      console.error("Failed to fetch budget vs actual:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadBudget();
+    if (!socket) return;
+    socket.on("budget:update", loadBudget);
+    socket.on("donation:update", loadBudget);
+    return () => {
+      socket.off("budget:update", loadBudget);
+      socket.off("donation:update", loadBudget);
+    };
+  }, [socket]);
+
+  const handleSkipInstallment = async (installment: RecurringGiftInstallment) => {
+    if (!confirm(`Mark ${installment.memberName}'s ${installment.dueDate} gift as skipped? It will no longer count as missed.`)) return;
+    try {
+      await updateRecurringInstallment(installment.id, "skipped");
+      loadMissedInstallments();
+    } catch (error) {
+      console.error("Failed to skip installment:", error);
+      alert("Failed to skip installment");
+    }
+  };
 
 
   // Data for Charts
-  const fundData = summary.fundDistribution || Object.values(FundType)
+  const fundData = summary.fundDistribution || Array.from(new Set(donations.map((d) => d.fund)))
     .map((fund) => ({
       name: fund,
       value: donations
@@ -177,6 +349,7 @@ const Dashboard: React.FC<DashboardProps> = ({
       icon: TrendingUp,
       color: "bg-emerald-50 text-emerald-600",
       trend: givingGrowth,
+      live: "donation",
     },
     {
       label: "Total Members",
@@ -185,6 +358,7 @@ const Dashboard: React.FC<DashboardProps> = ({
       icon: Users,
       color: "bg-blue-50 text-blue-600",
       trend: summary.newMembersThisWeek > 0 ? 1 : 0,
+      live: "member",
     },
     {
       label: "Active Donors",
@@ -198,6 +372,7 @@ const Dashboard: React.FC<DashboardProps> = ({
       icon: HeartHandshake,
       color: "bg-purple-50 text-purple-600",
       trend: 0,
+      live: "donation",
     },
     {
       label: "Avg. Donation",
@@ -213,6 +388,7 @@ const Dashboard: React.FC<DashboardProps> = ({
       icon: ArrowUpRight,
       color: "bg-amber-50 text-amber-600",
       trend: avgDonationGrowth,
+      live: "donation",
     },
   ];
 
@@ -248,7 +424,9 @@ const Dashboard: React.FC<DashboardProps> = ({
         {stats.map((stat, i) => (
           <div
             key={i}
-            className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-shadow"
+            className={`bg-white p-6 rounded-2xl shadow-sm border hover:shadow-md transition-all ${
+              liveChanges[stat.live] ? "border-indigo-300 ring-2 ring-indigo-100" : "border-slate-100"
+            }`}
           >
             <div className="flex justify-between items-start mb-4">
               <div className={`p-3 rounded-xl ${stat.color}`}>
@@ -276,6 +454,9 @@ const Dashboard: React.FC<DashboardProps> = ({
               {stat.value}
             </p>
             <p className="text-slate-400 text-xs mt-2">{stat.sub}</p>
+            {liveChanges[stat.live] && (
+              <p className="text-indigo-500 text-xs mt-1">Updated by {liveChanges[stat.live]}</p>
+            )}
           </div>
         ))}
       </div>
@@ -349,16 +530,88 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       )}
 
+      {/* Budget Pacing */}
+      {budget && budget.funds.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+            <div className="flex items-center gap-2 text-slate-900 font-bold text-lg">
+              <Target size={20} className="text-emerald-600" />
+              <span>{budget.year} Budget vs. Actual</span>
+            </div>
+            <span className="text-xs font-semibold text-slate-500">
+              ${budget.totals.ytdActual.toLocaleString()} of ${budget.totals.ytdBudget.toLocaleString()} expected to date
+              {budget.totals.pacePercent !== null && ` · ${budget.totals.pacePercent.toFixed(0)}% pace`}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            {budget.funds.map((line) => {
+              const actualWidth = line.annualBudget > 0 ? Math.min((line.ytdActual / line.annualBudget) * 100, 100) : 0;
+              const expectedAt = line.annualBudget > 0 ? Math.min((line.ytdBudget / line.annualBudget) * 100, 100) : 0;
+              const behind = line.variance < 0;
+              return (
+                <div key={line.budgetId}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-bold text-slate-800">{line.fund}</span>
+                    <span className={`text-xs font-bold ${behind ? "text-rose-600" : "text-emerald-600"}`}>
+                      {behind ? "-" : "+"}${Math.abs(line.variance).toLocaleString()} vs plan
+                    </span>
+                  </div>
+                  <div className="relative w-full bg-slate-100 rounded-full h-2.5">
+                    <div
+                      className={`h-full rounded-full ${behind ? "bg-amber-500" : "bg-emerald-500"}`}
+                      style={{ width: `${actualWidth}%` }}
+                    />
+                    <div
+                      className="absolute -top-1 h-4 w-0.5 bg-slate-500"
+                      style={{ left: `${expectedAt}%` }}
+                      title="Expected to date"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    ${line.ytdActual.toLocaleString()} of ${line.annualBudget.toLocaleString()} budgeted
+                    {line.pacePercent !== null && ` · ${line.pacePercent.toFixed(0)}% pace`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* GraceForecast Integration */}
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
-        <div className="flex items-center justify-between mb-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
           <div className="flex items-center gap-2 text-slate-900 font-bold text-lg">
             <TrendingUp size={20} className="text-indigo-600" />
             <span>GraceForecast Retention Watchlist</span>
           </div>
-          <span className="text-xs font-semibold bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full border border-indigo-100">
-            PREDICTIVE ANALYSIS
-          </span>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={riskLevel}
+              onChange={(e) => { setRiskLevel(e.target.value as DonorRiskLevel | ""); setRiskPage(1); }}
+              className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">All Flagged</option>
+              <option value="at_risk">At Risk</option>
+              <option value="watch">Watch</option>
+            </select>
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+              <input
+                type="checkbox"
+                checked={showContacted}
+                onChange={(e) => { setShowContacted(e.target.checked); setRiskPage(1); }}
+              />
+              Show contacted
+            </label>
+            {canExportRisk && (
+              <button
+                onClick={handleExportRisk}
+                className="flex items-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-700 px-3 py-1.5 rounded-lg border border-indigo-100 hover:bg-indigo-100"
+              >
+                <Download size={12} /> EXPORT CSV
+              </button>
+            )}
+          </div>
         </div>
 
         {loadingForecast ? (
@@ -367,28 +620,61 @@ const Dashboard: React.FC<DashboardProps> = ({
           </div>
         ) : atRiskDonors.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {atRiskDonors.map((donor, idx) => (
+            {atRiskDonors.map((donor) => (
               <div
-                key={idx}
-                className="p-4 rounded-xl border border-rose-100 bg-rose-50/30 hover:shadow-md transition-shadow group"
+                key={donor.memberId}
+                className={`p-4 rounded-xl border hover:shadow-md transition-shadow group ${
+                  donor.level === "at_risk" ? "border-rose-100 bg-rose-50/30" : "border-amber-100 bg-amber-50/30"
+                }`}
               >
                 <div className="flex justify-between items-start mb-2">
                   <h4 className="font-bold text-slate-900 group-hover:text-indigo-700 transition-colors">
                     {donor.name}
                   </h4>
-                  <div className="flex items-center gap-1 text-rose-600 bg-rose-50 px-2 py-0.5 rounded text-[10px] font-bold">
+                  <div
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold ${
+                      donor.level === "at_risk" ? "text-rose-600 bg-rose-50" : "text-amber-700 bg-amber-50"
+                    }`}
+                  >
                     <AlertCircle size={10} />
-                    {donor.status.toUpperCase()}
+                    {donor.level === "at_risk" ? "AT RISK" : "WATCH"} · {donor.score}
                   </div>
                 </div>
-                <p className="text-slate-600 text-xs mb-3 italic">
-                  "{donor.recommendation}"
+                <p className="text-slate-600 text-xs mb-1 italic">
+                  "{donor.explanation}"
                 </p>
+                <p className="text-[10px] text-slate-400 mb-3 uppercase tracking-wider">
+                  {donor.basis === "schedule" ? "Recurring schedule" : `${donor.cadence} giver`}
+                </p>
+                {donor.lastContact && (
+                  <p className="text-[11px] text-emerald-700 bg-emerald-50 rounded px-2 py-1 mb-3">
+                    Contacted {new Date(donor.lastContact.contactedAt).toLocaleDateString()}
+                    {donor.lastContact.contactedBy ? ` by ${donor.lastContact.contactedBy}` : ""}
+                    {donor.lastContact.note ? `: ${donor.lastContact.note}` : ""}
+                  </p>
+                )}
                 <div className="flex items-center justify-between text-[10px] font-bold text-slate-400 border-t border-rose-100/50 pt-2">
-                  <span>LAST GIFT: ${donor.history[0].amount.toFixed(0)}</span>
-                  <button className="flex items-center gap-1 text-indigo-600 hover:text-indigo-700">
-                    DETAILS <ChevronRight size={10} />
-                  </button>
+                  <span>
+                    {donor.lastGiftAmount !== null
+                      ? `LAST GIFT: $${donor.lastGiftAmount.toFixed(0)} ON ${donor.lastGiftDate}`
+                      : "NO RECENT GIFTS"}
+                  </span>
+                  {canFollowUp && (
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => openTask(donor)}
+                        className="flex items-center gap-1 text-indigo-600 hover:text-indigo-700"
+                      >
+                        <ClipboardList size={10} /> ASSIGN
+                      </button>
+                      <button
+                        onClick={() => openContact(donor)}
+                        className="flex items-center gap-1 text-indigo-600 hover:text-indigo-700"
+                      >
+                        <PhoneCall size={10} /> MARK CONTACTED
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -400,8 +686,151 @@ const Dashboard: React.FC<DashboardProps> = ({
             </p>
           </div>
         )}
+
+        {riskTotalPages > 1 && (
+          <div className="pt-4 mt-4 border-t border-slate-100 flex justify-between items-center text-sm">
+            <button disabled={riskPage === 1} onClick={() => setRiskPage((p) => p - 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Previous</button>
+            <span className="text-slate-500">Page {riskPage} of {riskTotalPages}</span>
+            <button disabled={riskPage >= riskTotalPages} onClick={() => setRiskPage((p) => p + 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Next</button>
+          </div>
+        )}
       </div>
 
+      {contactDonor && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+              <h2 className="text-xl font-bold">Contacted {contactDonor.name}</h2>
+              <button onClick={() => setContactDonor(null)} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleSaveContact} className="p-6 space-y-4">
+              <p className="text-sm text-slate-600">{contactDonor.explanation}</p>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Follow-Up Note</label>
+                <textarea
+                  rows={3}
+                  maxLength={2000}
+                  placeholder="Called after service; family has been traveling..."
+                  className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
+                  value={contactNote}
+                  onChange={(e) => setContactNote(e.target.value)}
+                />
+              </div>
+              {contactHistory.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Earlier Contacts</p>
+                  <ul className="max-h-32 overflow-y-auto divide-y divide-slate-100 text-xs text-slate-600">
+                    {contactHistory.map((contact) => (
+                      <li key={contact.id} className="py-1">
+                        <span className="font-bold">{new Date(contact.contactedAt).toLocaleDateString()}</span>
+                        {contact.contactedBy ? ` · ${contact.contactedBy}` : ""}
+                        {contact.note ? ` — ${contact.note}` : ""}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="pt-2 flex gap-3">
+                <button type="button" onClick={() => setContactDonor(null)} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" disabled={savingContact} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                  {savingContact ? <Loader2 size={18} className="animate-spin" /> : <PhoneCall size={18} />}
+                  Mark Contacted
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {taskDonor && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+              <h2 className="text-xl font-bold">Follow Up with {taskDonor.name}</h2>
+              <button onClick={() => setTaskDonor(null)} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleSaveTask} className="p-6 space-y-4">
+              {taskError && (
+                <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm">{taskError}</div>
+              )}
+              <p className="text-sm text-slate-600">{taskDonor.explanation}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Assign To</label>
+                  <select
+                    className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
+                    value={taskForm.assignedTo}
+                    onChange={(e) => setTaskForm({ ...taskForm, assignedTo: e.target.value })}
+                  >
+                    <option value="">Unassigned</option>
+                    {taskAssignees.map((a) => (
+                      <option key={a.id} value={a.id}>{a.username}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Due Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
+                    value={taskForm.dueDate}
+                    onChange={(e) => setTaskForm({ ...taskForm, dueDate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="pt-2 flex gap-3">
+                <button type="button" onClick={() => setTaskDonor(null)} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" disabled={savingTask} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                  {savingTask ? <Loader2 size={18} className="animate-spin" /> : <ClipboardList size={18} />}
+                  Create Task
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Missed Recurring Gifts */}
+      {missedInstallments.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2 text-slate-900 font-bold text-lg">
+              <Repeat size={20} className="text-rose-600" />
+              <span>Missed Recurring Gifts</span>
+            </div>
+            <span className="text-xs font-semibold bg-rose-50 text-rose-700 px-3 py-1 rounded-full border border-rose-100">
+              LAST 60 DAYS
+            </span>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {missedInstallments.map((installment) => (
+              <div key={installment.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-bold text-slate-900">{installment.memberName}</p>
+                  <p className="text-xs text-slate-500">
+                    ${installment.amount.toLocaleString()} to {installment.fund} · due {installment.dueDate}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleSkipInstallment(installment)}
+                  className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors"
+                >
+                  SKIP
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Charts Section */}
       <div className="flex flex-col lg:flex-row gap-8">
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
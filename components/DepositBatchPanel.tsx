@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react';
+import { Layers, Plus, Lock, Unlock, Printer, X, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { DepositBatch } from '../types';
+import { fetchBatches, fetchBatch, createBatch, closeBatch, reopenBatch, downloadDepositSlip } from '../src/lib/api';
+
+interface DepositBatchPanelProps {
+  activeBatchId: string | null;
+  onSelectBatch: (batchId: string | null) => void;
+  // Bumped by the parent after each save so the running totals refresh
+  refreshKey: number;
+}
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const emptyForm = () => ({
+  batchDate: todayString(),
+  description: '',
+  expectedCashTotal: '',
+  expectedCashCount: '',
+  expectedCheckTotal: '',
+  expectedCheckCount: '',
+});
+
+const DepositBatchPanel: React.FC<DepositBatchPanelProps> = ({ activeBatchId, onSelectBatch, refreshKey }) => {
+  const [openBatches, setOpenBatches] = useState<DepositBatch[]>([]);
+  const [batch, setBatch] = useState<DepositBatch | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canApprove = !!JSON.parse(localStorage.getItem('user') || '{}').canApproveBatches;
+
+  const loadOpenBatches = async () => {
+    try {
+      const result = await fetchBatches(1, 20, 'open');
+      setOpenBatches(result.data);
+    } catch (err) {
+      console.error('Failed to load deposit batches:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadOpenBatches();
+  }, []);
+
+  useEffect(() => {
+    if (!activeBatchId) {
+      setBatch(null);
+      return;
+    }
+    const loadBatch = async () => {
+      setLoading(true);
+      try {
+        setBatch(await fetchBatch(activeBatchId));
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadBatch();
+  }, [activeBatchId, refreshKey]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const created = await createBatch({
+        batchDate: form.batchDate,
+        description: form.description || undefined,
+        expectedCashTotal: parseFloat(form.expectedCashTotal) || 0,
+        expectedCashCount: parseInt(form.expectedCashCount) || 0,
+        expectedCheckTotal: parseFloat(form.expectedCheckTotal) || 0,
+        expectedCheckCount: parseInt(form.expectedCheckCount) || 0,
+      });
+      setIsCreating(false);
+      setForm(emptyForm());
+      await loadOpenBatches();
+      onSelectBatch(created.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!batch) return;
+    let acknowledgeVariance = false;
+    if (!batch.isBalanced) {
+      const proceed = confirm(
+        `This batch is off by $${batch.variance.toFixed(2)} (${batch.countVariance} items). Close it anyway?`
+      );
+      if (!proceed) return;
+      acknowledgeVariance = true;
+    } else if (!confirm('Close and lock this batch? Later changes will need a manager.')) {
+      return;
+    }
+
+    setError(null);
+    try {
+      setBatch({ ...batch, ...(await closeBatch(batch.id, acknowledgeVariance)) });
+      loadOpenBatches();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!batch) return;
+    const reason = prompt('Reason for reopening this batch:');
+    if (!reason) return;
+
+    setError(null);
+    try {
+      setBatch({ ...batch, ...(await reopenBatch(batch.id, reason)) });
+      loadOpenBatches();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!batch) return;
+    try {
+      const blob = await downloadDepositSlip(batch.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `deposit-slip-${batch.id}.pdf`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900 text-sm';
+  const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="font-bold text-slate-800 text-lg flex items-center gap-2">
+          <Layers size={18} className="text-indigo-500" />
+          Deposit Batch
+        </h2>
+        {activeBatchId ? (
+          <button
+            onClick={() => onSelectBatch(null)}
+            className="text-xs font-bold text-slate-400 hover:text-slate-600 flex items-center gap-1"
+          >
+            <X size={14} /> DONE
+          </button>
+        ) : !isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="text-xs font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+          >
+            <Plus size={14} /> OPEN BATCH
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-600 rounded-lg text-sm font-medium">{error}</div>
+      )}
+
+      {isCreating && !activeBatchId ? (
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Date</label>
+              <input type="date" required className={inputClass} value={form.batchDate} onChange={e => setForm({ ...form, batchDate: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Label</label>
+              <input type="text" placeholder="e.g. 11am Service" className={inputClass} value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Cash ($)</label>
+              <input type="number" step="0.01" min="0" placeholder="0.00" className={inputClass} value={form.expectedCashTotal} onChange={e => setForm({ ...form, expectedCashTotal: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}># Cash Gifts</label>
+              <input type="number" step="1" min="0" placeholder="0" className={inputClass} value={form.expectedCashCount} onChange={e => setForm({ ...form, expectedCashCount: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Checks ($)</label>
+              <input type="number" step="0.01" min="0" placeholder="0.00" className={inputClass} value={form.expectedCheckTotal} onChange={e => setForm({ ...form, expectedCheckTotal: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}># Checks</label>
+              <input type="number" step="1" min="0" placeholder="0" className={inputClass} value={form.expectedCheckCount} onChange={e => setForm({ ...form, expectedCheckCount: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button type="button" onClick={() => setIsCreating(false)} className="flex-1 py-2 border border-slate-200 text-slate-600 rounded-lg font-bold text-sm hover:bg-slate-50 transition-colors">
+              Cancel
+            </button>
+            <button type="submit" className="flex-1 py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm hover:bg-indigo-700 transition-colors">
+              Open Batch
+            </button>
+          </div>
+        </form>
+      ) : !activeBatchId ? (
+        <div>
+          <select
+            className={inputClass}
+            value=""
+            onChange={e => e.target.value && onSelectBatch(e.target.value)}
+          >
+            <option value="">{openBatches.length > 0 ? 'Attach gifts to an open batch...' : 'No open batches'}</option>
+            {openBatches.map(b => (
+              <option key={b.id} value={b.id}>
+                #{b.id} · {new Date(b.batchDate).toLocaleDateString()}{b.description ? ` · ${b.description}` : ''}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-400 mt-2">Gifts saved while a batch is selected are attached to it.</p>
+        </div>
+      ) : loading && !batch ? (
+        <div className="py-6 text-center"><Loader2 className="mx-auto animate-spin text-slate-400" /></div>
+      ) : batch && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-bold text-slate-900 text-sm">
+                Batch #{batch.id}{batch.description ? ` · ${batch.description}` : ''}
+              </div>
+              <div className="text-xs text-slate-400">{new Date(batch.batchDate).toLocaleDateString()}</div>
+            </div>
+            <span className={`px-2 py-1 rounded text-xs font-bold uppercase flex items-center gap-1 ${batch.status === 'closed' ? 'bg-slate-200 text-slate-700' : 'bg-emerald-100 text-emerald-700'}`}>
+              {batch.status === 'closed' ? <Lock size={12} /> : <Unlock size={12} />}
+              {batch.status}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-3 bg-slate-50 rounded-xl">
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Expected</div>
+              <div className="font-bold text-slate-900">${batch.expectedTotal.toFixed(2)}</div>
+              <div className="text-xs text-slate-400">{batch.expectedCount} items</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-xl">
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Recorded</div>
+              <div className="font-bold text-slate-900">${batch.actualTotal.toFixed(2)}</div>
+              <div className="text-xs text-slate-400">{batch.actualCount} items</div>
+            </div>
+            <div className={`p-3 rounded-xl ${batch.isBalanced ? 'bg-emerald-50' : 'bg-amber-50'}`}>
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Variance</div>
+              <div className={`font-bold ${batch.isBalanced ? 'text-emerald-600' : 'text-amber-600'}`}>
+                {batch.variance > 0 ? '+' : ''}${batch.variance.toFixed(2)}
+              </div>
+              <div className="text-xs text-slate-400">{batch.countVariance > 0 ? '+' : ''}{batch.countVariance} items</div>
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-500 flex justify-between">
+            <span className={batch.cashVariance !== 0 ? 'text-amber-600' : ''}>
+              Cash: ${batch.actualCashTotal.toFixed(2)} / ${batch.expectedCashTotal.toFixed(2)} ({batch.actualCashCount}/{batch.expectedCashCount})
+            </span>
+            <span className={batch.checkVariance !== 0 ? 'text-amber-600' : ''}>
+              Checks: ${batch.actualCheckTotal.toFixed(2)} / ${batch.expectedCheckTotal.toFixed(2)} ({batch.actualCheckCount}/{batch.expectedCheckCount})
+            </span>
+          </div>
+
+          {batch.status === 'open' ? (
+            <button
+              onClick={handleClose}
+              className={`w-full flex items-center justify-center gap-2 py-2 rounded-lg font-bold text-sm transition-colors ${batch.isBalanced ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-white border border-amber-300 text-amber-700 hover:bg-amber-50'}`}
+            >
+              {batch.isBalanced ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+              Close & Lock Batch
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">
+                Closed by {batch.closedBy}{batch.closedAt ? ` on ${new Date(batch.closedAt).toLocaleString()}` : ''}.
+                {!canApprove && ' Changes to its gifts need a manager.'}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePrint}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm hover:bg-indigo-700 transition-colors"
+                >
+                  <Printer size={16} /> Deposit Slip
+                </button>
+                {canApprove && (
+                  <button
+                    onClick={handleReopen}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 border border-slate-200 text-slate-600 rounded-lg font-bold text-sm hover:bg-slate-50 transition-colors"
+                  >
+                    <Unlock size={16} /> Reopen
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepositBatchPanel;
@@ -0,0 +1,444 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet, Plus, X, Loader2, Save, AlertCircle, Check, Ban, Edit2, Trash2, Paperclip, FileDown } from 'lucide-react';
+import { Disbursement, DisbursementDecision, DisbursementStatus, FundBalance } from '../types';
+import {
+  fetchDisbursements,
+  createDisbursement,
+  updateDisbursement,
+  decideDisbursement,
+  deleteDisbursement,
+  uploadDisbursementAttachment,
+  downloadDisbursementAttachment,
+  fetchFundBalances,
+  downloadFundActivityStatement,
+} from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+import { useSocket } from '../src/contexts/SocketContext';
+
+const STATUS_STYLES: Record<DisbursementStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-rose-100 text-rose-700',
+  void: 'bg-slate-100 text-slate-500',
+};
+
+const STATUS_TABS: [DisbursementStatus | '', string][] = [
+  ['pending', 'Awaiting Approval'],
+  ['approved', 'Approved'],
+  ['rejected', 'Rejected'],
+  ['void', 'Void'],
+  ['', 'All'],
+];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = {
+  payee: '',
+  amount: '',
+  fund: '',
+  date: today(),
+  memo: '',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const errorMessage = (err: any) => {
+  if (err.message === 'SELF_APPROVAL') return 'Someone other than the requester must approve a disbursement.';
+  if (err.message === 'INVALID_STATUS') return 'This disbursement has already been decided. Reload to see its status.';
+  if (err.message === 'VALIDATION_FAILED') return 'Check the payee, amount, fund and date.';
+  return err.message || 'Something went wrong.';
+};
+
+interface DisbursementLedgerProps {
+  currentUserId: number | null;
+  canRequest: boolean;
+  canApprove: boolean;
+  canDelete: boolean;
+  canExport: boolean;
+}
+
+const DisbursementLedger: React.FC<DisbursementLedgerProps> = ({ currentUserId, canRequest, canApprove, canDelete, canExport }) => {
+  const { funds } = useFunds();
+  const [disbursements, setDisbursements] = useState<Disbursement[]>([]);
+  const [balances, setBalances] = useState<FundBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<DisbursementStatus | ''>('pending');
+  const [fundFilter, setFundFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const [period, setPeriod] = useState({ startDate: `${new Date().getFullYear()}-01-01`, endDate: today() });
+
+  // null = form closed, '' = new request, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { socket } = useSocket();
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [result, fundBalances] = await Promise.all([
+        fetchDisbursements(page, 20, { status: statusFilter || undefined, fund: fundFilter || undefined }),
+        fetchFundBalances(),
+      ]);
+      setDisbursements(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+      setBalances(fundBalances);
+    } catch (err: any) {
+      setError(errorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [page, statusFilter, fundFilter]);
+
+  // Requests and approvals come from other staff; gifts change the balances
+  useEffect(() => {
+    if (!socket) return;
+    socket.on('disbursement:update', load);
+    socket.on('donation:update', load);
+    return () => {
+      socket.off('disbursement:update', load);
+      socket.off('donation:update', load);
+    };
+  }, [socket, page, statusFilter, fundFilter]);
+
+  const isMine = (disbursement: Disbursement) => disbursement.requestedById === currentUserId;
+  const canChange = (disbursement: Disbursement) => canRequest && (isMine(disbursement) || canApprove);
+
+  const openForm = (disbursement?: Disbursement) => {
+    setFormError(null);
+    setFile(null);
+    setEditingId(disbursement ? disbursement.id : '');
+    setForm(disbursement ? {
+      payee: disbursement.payee,
+      amount: String(disbursement.amount),
+      fund: disbursement.fund,
+      date: disbursement.date,
+      memo: disbursement.memo || '',
+    } : { ...emptyForm, date: today() });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormError(null);
+    const input = {
+      payee: form.payee,
+      amount: parseFloat(form.amount),
+      fund: form.fund,
+      date: form.date,
+      memo: form.memo || null,
+    };
+    try {
+      const saved = editingId ? await updateDisbursement(editingId, input) : await createDisbursement(input);
+      if (file) {
+        await uploadDisbursementAttachment(saved.id, file);
+      }
+      setEditingId(null);
+      load();
+    } catch (err: any) {
+      setFormError(errorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecision = async (disbursement: Disbursement, decision: DisbursementDecision) => {
+    let note: string | undefined;
+    if (decision === 'approve') {
+      if (!confirm(`Approve ${formatCurrency(disbursement.amount)} to ${disbursement.payee} from ${disbursement.fund}?`)) return;
+    } else {
+      const reason = prompt(decision === 'void' ? 'Why is this disbursement being voided?' : 'Why is this request being rejected?');
+      if (!reason || !reason.trim()) return;
+      note = reason.trim();
+    }
+    setError(null);
+    try {
+      await decideDisbursement(disbursement.id, decision, note);
+      load();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleDelete = async (disbursement: Disbursement) => {
+    if (!confirm(`Delete the ${disbursement.status} request to pay ${disbursement.payee}?`)) return;
+    setError(null);
+    try {
+      await deleteDisbursement(disbursement.id);
+      load();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const openBlob = async (getBlob: () => Promise<Blob>) => {
+    setError(null);
+    try {
+      const blob = await getBlob();
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, '_blank');
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Disbursements</h1>
+          <p className="text-slate-500 mt-1">Money paid out of each fund. Requests count against a fund once someone other than the requester approves them.</p>
+        </div>
+        {canRequest && editingId === null && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium text-sm"
+          >
+            <Plus size={16} />
+            New Disbursement
+          </button>
+        )}
+      </header>
+
+      {error && (
+        <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+          <AlertCircle size={18} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Wallet size={20} className="text-indigo-600" />
+            <h2 className="font-bold text-slate-800">Fund Balances</h2>
+          </div>
+          {canExport && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-500">Statement period</span>
+              <input type="date" className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm" value={period.startDate} onChange={e => setPeriod({ ...period, startDate: e.target.value })} />
+              <span className="text-slate-400">to</span>
+              <input type="date" className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm" value={period.endDate} onChange={e => setPeriod({ ...period, endDate: e.target.value })} />
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50/50">
+              <tr>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Fund</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Receipts</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Disbursed</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Balance</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Pending</th>
+                {canExport && <th className="px-6 py-4" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {balances.map(balance => (
+                <tr key={balance.fund}>
+                  <td className="px-6 py-4 font-bold text-slate-800">
+                    {balance.fund}
+                    {!balance.isActive && <span className="ml-2 text-[10px] uppercase tracking-wider text-slate-400">Archived</span>}
+                  </td>
+                  <td className="px-6 py-4 text-right font-mono text-sm text-slate-600">{formatCurrency(balance.receipts)}</td>
+                  <td className="px-6 py-4 text-right font-mono text-sm text-slate-600">{formatCurrency(balance.disbursed)}</td>
+                  <td className={`px-6 py-4 text-right font-mono text-sm font-bold ${balance.balance < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCurrency(balance.balance)}</td>
+                  <td className="px-6 py-4 text-right font-mono text-sm text-amber-600">{balance.pending > 0 ? formatCurrency(balance.pending) : '—'}</td>
+                  {canExport && (
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        title="Fund activity statement"
+                        onClick={() => openBlob(() => downloadFundActivityStatement(balance.fund, period.startDate, period.endDate))}
+                        className="p-2 text-slate-400 hover:text-indigo-600"
+                      >
+                        <FileDown size={16} />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 p-6 space-y-4">
+          <h2 className="font-bold text-slate-800">{editingId ? 'Edit Request' : 'New Disbursement Request'}</h2>
+          {formError && (
+            <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm flex items-center gap-2">
+              <AlertCircle size={16} />
+              {formError}
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className={labelClass}>Payee</label>
+              <input required maxLength={200} className={inputClass} value={form.payee} onChange={e => setForm({ ...form, payee: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Amount</label>
+              <input required type="number" min="0.01" step="0.01" className={inputClass} value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Date</label>
+              <input required type="date" className={inputClass} value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Fund</label>
+              <select required className={inputClass} value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+                <option value="">Choose a fund</option>
+                {funds.map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Memo</label>
+              <input maxLength={1000} className={inputClass} value={form.memo} onChange={e => setForm({ ...form, memo: e.target.value })} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Receipt or Invoice (PDF, PNG or JPEG, up to 5 MB)</label>
+            <input type="file" accept="application/pdf,image/png,image/jpeg" className="text-sm text-slate-600" onChange={e => setFile(e.target.files?.[0] || null)} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setEditingId(null)} className="flex items-center gap-2 px-4 py-2 text-slate-600 font-medium hover:text-slate-900">
+              <X size={16} /> Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50">
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+              {editingId ? 'Save Changes' : 'Submit for Approval'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <section className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {STATUS_TABS.map(([value, label]) => (
+              <button
+                key={value || 'all'}
+                onClick={() => { setStatusFilter(value); setPage(1); }}
+                className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${statusFilter === value ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={fundFilter}
+            onChange={e => { setFundFilter(e.target.value); setPage(1); }}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">All Funds</option>
+            {balances.map(balance => <option key={balance.fund} value={balance.fund}>{balance.fund}</option>)}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50/50">
+              <tr>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Payee</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Fund</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Amount</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center">
+                    <Loader2 className="animate-spin text-indigo-500 mx-auto" size={24} />
+                  </td>
+                </tr>
+              ) : disbursements.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-slate-400 italic">No disbursements.</td>
+                </tr>
+              ) : disbursements.map(disbursement => (
+                <tr key={disbursement.id} className="hover:bg-slate-50/50 transition-colors">
+                  <td className="px-6 py-4 text-sm text-slate-600">{disbursement.date}</td>
+                  <td className="px-6 py-4">
+                    <div className="font-bold text-slate-800">{disbursement.payee}</div>
+                    {disbursement.memo && <div className="text-xs text-slate-500">{disbursement.memo}</div>}
+                    <div className="text-xs text-slate-400">
+                      Requested by {disbursement.requestedBy || 'unknown'}
+                      {disbursement.decidedBy && ` · ${disbursement.status} by ${disbursement.decidedBy}`}
+                      {disbursement.decisionNote && ` · ${disbursement.decisionNote}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">{disbursement.fund}</td>
+                  <td className="px-6 py-4 text-right font-mono text-sm text-slate-900">{formatCurrency(disbursement.amount)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[disbursement.status]}`}>
+                      {disbursement.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex justify-end gap-1">
+                      {disbursement.attachmentName && (
+                        <button title={disbursement.attachmentName} onClick={() => openBlob(() => downloadDisbursementAttachment(disbursement.id))} className="p-2 text-slate-400 hover:text-indigo-600">
+                          <Paperclip size={16} />
+                        </button>
+                      )}
+                      {disbursement.status === 'pending' && canChange(disbursement) && (
+                        <button title="Edit" onClick={() => openForm(disbursement)} className="p-2 text-slate-400 hover:text-indigo-600">
+                          <Edit2 size={16} />
+                        </button>
+                      )}
+                      {disbursement.status === 'pending' && canApprove && !isMine(disbursement) && (
+                        <>
+                          <button title="Approve" onClick={() => handleDecision(disbursement, 'approve')} className="p-2 text-slate-400 hover:text-emerald-600">
+                            <Check size={16} />
+                          </button>
+                          <button title="Reject" onClick={() => handleDecision(disbursement, 'reject')} className="p-2 text-slate-400 hover:text-rose-600">
+                            <X size={16} />
+                          </button>
+                        </>
+                      )}
+                      {disbursement.status === 'approved' && canApprove && (
+                        <button title="Void" onClick={() => handleDecision(disbursement, 'void')} className="p-2 text-slate-400 hover:text-rose-600">
+                          <Ban size={16} />
+                        </button>
+                      )}
+                      {canDelete && ['pending', 'rejected'].includes(disbursement.status) && (
+                        <button title="Delete" onClick={() => handleDelete(disbursement)} className="p-2 text-slate-400 hover:text-rose-600">
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="p-4 border-t border-slate-50 flex justify-between items-center text-sm">
+            <button disabled={page === 1} onClick={() => setPage(p => p - 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Previous</button>
+            <span className="text-slate-500">Page {page} of {totalPages}</span>
+            <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Next</button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default DisbursementLedger;
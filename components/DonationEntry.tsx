@@ -1,8 +1,21 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Member, FundType, Donation } from '../types';
-import { Save, Search, History, CheckCircle2, AlertCircle, Trash2, Edit2, X, Filter, Loader2 } from 'lucide-react';
-import { createDonation, fetchDonations, updateDonation, deleteDonation, fetchMembers, getMember } from '../src/lib/api';
+import { Member, Donation, PaymentMethod, PAYMENT_METHODS, DONATION_IMPORT_PROVIDERS } from '../types';
+import { Save, Search, History, CheckCircle2, AlertCircle, Trash2, Edit2, X, Filter, Loader2, Upload, Mail } from 'lucide-react';
+import { createDonation, fetchDonations, updateDonation, deleteDonation, fetchMembers, getMember, emailReceipt, mapDonation } from '../src/lib/api';
+import { useLiveEvents, useChangeHighlights } from '../src/hooks/useLiveUpdates';
+import { isRecordChange, mergeRecord } from '../src/lib/liveUpdates';
+import { useFunds } from '../src/hooks/useFunds';
+import { useRecordLock } from '../src/hooks/useRecordLock';
+import RecordLockBanner from './RecordLockBanner';
+import DonationImportWizard from './DonationImportWizard';
+import DepositBatchPanel from './DepositBatchPanel';
+import ConflictMergeDialog from './ConflictMergeDialog';
+import OfflineQueuePanel from './OfflineQueuePanel';
+import { useOfflineQueue } from '../src/hooks/useOfflineQueue';
+import { newClientId, refreshMemberLookup, searchMemberLookup } from '../src/lib/offlineStore';
+import { isNetworkError } from '../src/lib/offlineSync';
+import { diffFields, mergeFields, FieldDifference, MergeChoice } from '../src/lib/conflicts';
 
 interface DonationEntryProps {
   members: Member[]; // Still passed for initial render or fallback, but we'll rely on async search
@@ -11,6 +24,47 @@ interface DonationEntryProps {
   memberId?: string;
 }
 
+const BATCH_LOCKED_MESSAGE = 'This gift belongs to a closed deposit batch. Ask a manager to approve the change or reopen the batch.';
+
+const toDateInput = (value: string) => {
+  const d = new Date(value);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+type DonationForm = ReturnType<typeof toFormValues>;
+
+const toFormValues = (donation: Donation) => ({
+  amount: donation.amount.toString(),
+  fund: donation.fund,
+  notes: donation.notes || '',
+  paymentMethod: (donation.paymentMethod || 'cash') as PaymentMethod,
+  checkNumber: donation.checkNumber || '',
+  paymentReference: donation.paymentReference || '',
+  goodsProvided: !!donation.goodsServicesProvided,
+  goodsValue: donation.goodsServicesProvided ? String(donation.goodsServicesValue ?? '') : '',
+  goodsDescription: donation.goodsServicesDescription || '',
+  date: donation.date || donation.timestamp ? toDateInput(donation.date || donation.timestamp) : '',
+});
+
+const FORM_LABELS: Record<keyof DonationForm, string> = {
+  amount: 'Amount',
+  fund: 'Fund',
+  notes: 'Notes',
+  paymentMethod: 'Payment Method',
+  checkNumber: 'Check #',
+  paymentReference: 'Reference',
+  goodsProvided: 'Goods/Services',
+  goodsValue: 'Goods Value',
+  goodsDescription: 'Goods Description',
+  date: 'Date',
+};
+
+const formatPaymentMethod = (donation: Donation) => {
+  if (!donation.paymentMethod) return null;
+  if (donation.paymentMethod === 'check' && donation.checkNumber) return `Check #${donation.checkNumber}`;
+  return PAYMENT_METHODS.find(m => m.value === donation.paymentMethod)?.label || donation.paymentMethod;
+};
+
 const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: initialMembers, memberId: preselectedMemberId }) => {
   // Form State
   const [memberSearch, setMemberSearch] = useState('');
@@ -19,7 +73,14 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
 
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
   const [amount, setAmount] = useState('');
-  const [fund, setFund] = useState<FundType>(FundType.TITHES);
+  const { funds } = useFunds();
+  const [fund, setFund] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [checkNumber, setCheckNumber] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [goodsProvided, setGoodsProvided] = useState(false);
+  const [goodsValue, setGoodsValue] = useState('');
+  const [goodsDescription, setGoodsDescription] = useState('');
   
   // Initialize with local date string (YYYY-MM-DD) to prevent UTC day-shifts
   const [date, setDate] = useState(() => {
@@ -28,8 +89,19 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
   });
   
   const [notes, setNotes] = useState('');
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<'saved' | 'queued' | false>(false);
   const [isEditing, setIsEditing] = useState<string | null>(null);
+  // The gift as it was loaded into the form; its version guards the save
+  const [editingDonation, setEditingDonation] = useState<Donation | null>(null);
+  const [conflict, setConflict] = useState<{
+    current: Donation;
+    mine: DonationForm;
+    differences: FieldDifference[];
+  } | null>(null);
+
+  // Deposit Batch State
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [batchRefreshKey, setBatchRefreshKey] = useState(0);
 
   // History State
   const [historyDonations, setHistoryDonations] = useState<Donation[]>([]);
@@ -38,11 +110,21 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
   const [loadingHistory, setLoadingHistory] = useState(false);
   const [donorFilter, setDonorFilter] = useState<'all' | 'guest' | 'members'>('all');
   // Cache for members resolved from history to avoid repeated fetches
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [resolvedMembers, setResolvedMembers] = useState<Record<string, Member>>({});
+  const [emailingId, setEmailingId] = useState<string | null>(null);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const amountInputRef = useRef<HTMLInputElement>(null);
 
+  const offlineQueue = useOfflineQueue();
+
+  // Keep the device's copy of the member list fresh for offline lookups
+  useEffect(() => {
+    if (!offlineQueue.online) return;
+    refreshMemberLookup().catch(error => console.error('Failed to cache members for offline use:', error));
+  }, [offlineQueue.online]);
+
   useEffect(() => {
     if (preselectedMemberId) {
       const fetchPreselectedMember = async () => {
@@ -57,6 +139,11 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
     }
   }, [preselectedMemberId]);
 
+  // Default to the first fund in the catalog once it loads
+  useEffect(() => {
+    if (!fund && funds.length > 0) setFund(funds[0].name);
+  }, [funds, fund]);
+
   // Async Member Search with Debounce
   useEffect(() => {
     const timer = setTimeout(async () => {
@@ -67,11 +154,19 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
 
       setIsSearchingMember(true);
       try {
-        // Search API
-        const result = await fetchMembers(1, 10, memberSearch);
-        setSearchedMembers(result.data);
+        // Search API, or the cached member list without a connection
+        if (navigator.onLine) {
+          const result = await fetchMembers(1, 10, memberSearch);
+          setSearchedMembers(result.data);
+        } else {
+          setSearchedMembers(await searchMemberLookup(memberSearch));
+        }
       } catch (error) {
-        console.error('Failed to search members:', error);
+        if (isNetworkError(error)) {
+          setSearchedMembers(await searchMemberLookup(memberSearch).catch(() => []));
+        } else {
+          console.error('Failed to search members:', error);
+        }
       } finally {
         setIsSearchingMember(false);
       }
@@ -118,43 +213,150 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
     loadHistory();
   }, [page, donorFilter]);
 
+  // Merge other counters' entries into the visible history page. New gifts
+  // only appear on the first page, and gifts that no longer match the donor
+  // filter drop out.
+  const { highlights, highlight } = useChangeHighlights();
+  useLiveEvents(
+    {
+      'donation:update': (event) => {
+        if (!isRecordChange(event)) return void loadHistory();
+        const donation = event.type === 'DELETE' ? null : (mapDonation(event.data) as Donation);
+        const id = String(event.id ?? donation?.id);
+        const matchesFilter = donation && (
+          donorFilter === 'all' || (donorFilter === 'guest' ? !donation.memberId : !!donation.memberId)
+        );
+        setHistoryDonations(prev => mergeRecord(prev, matchesFilter ? event.type : 'DELETE', id, donation, {
+          insert: page === 1 ? 'start' : 'none',
+          limit: 10,
+        }));
+        if (!donation || !matchesFilter) return;
+        highlight(id, event.by);
+
+        const memberId = donation.memberId;
+        if (memberId && !resolvedMembers[memberId] && !initialMembers.some(m => m.id === memberId)) {
+          getMember(memberId)
+            .then(member => setResolvedMembers(prev => ({ ...prev, [memberId]: member })))
+            .catch(e => console.error(`Failed to resolve member ${memberId}`, e));
+        }
+      },
+    },
+    loadHistory,
+  );
+
   const handleDonorFilterChange = (filter: 'all' | 'guest' | 'members') => {
     setDonorFilter(filter);
     setPage(1);
   };
 
+  const applyFormValues = (values: DonationForm) => {
+    setAmount(values.amount);
+    setFund(values.fund);
+    setNotes(values.notes);
+    setPaymentMethod(values.paymentMethod);
+    setCheckNumber(values.checkNumber);
+    setPaymentReference(values.paymentReference);
+    setGoodsProvided(values.goodsProvided);
+    setGoodsValue(values.goodsValue);
+    setGoodsDescription(values.goodsDescription);
+    if (values.date) setDate(values.date);
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedMember || !amount) return;
+    await saveDonation({
+      amount, fund, notes, paymentMethod, checkNumber, paymentReference,
+      goodsProvided, goodsValue, goodsDescription, date,
+    }, isEditing ? editingDonation : null);
+  };
 
-    try {
-      if (isEditing) {
-        await updateDonation(isEditing, {
-          amount: parseFloat(amount),
-          fund,
-          notes,
+  // Saves the form as a new gift, or as an edit of `target`, the copy (and
+  // version) the form was loaded from
+  const saveDonation = async (values: DonationForm, target: Donation | null) => {
+    if (!selectedMember) return;
+
+    const payment = {
+      paymentMethod: values.paymentMethod,
+      checkNumber: values.paymentMethod === 'check' ? values.checkNumber.trim() : null,
+      paymentReference: values.paymentMethod === 'cash' ? null : values.paymentReference.trim() || null
+    };
+    // Quid-pro-quo gifts: the statement deducts the value received
+    const goodsServices = {
+      goodsServicesProvided: values.goodsProvided,
+      goodsServicesValue: values.goodsProvided ? parseFloat(values.goodsValue) || 0 : 0,
+      goodsServicesDescription: values.goodsProvided ? values.goodsDescription.trim() : null
+    };
+
+    // New gifts carry an ID from the start so a retry can never post them twice
+    const clientId = newClientId();
+    let queuedOffline = false;
+
+    const submit = async (allowDuplicateCheck = false) => {
+      if (target) {
+        await updateDonation(target.id, {
+          amount: parseFloat(values.amount),
+          fund: values.fund,
+          notes: values.notes,
+          ...payment,
+          ...goodsServices,
+          allowDuplicateCheck,
           enteredBy: 'Admin',
           // Send as ISO string including the target time (noon local) to ensure server stores it correctly
-          donationDate: new Date(date + 'T12:00:00').toISOString()
-        });
+          donationDate: new Date(values.date + 'T12:00:00').toISOString()
+        }, target.version);
         setIsEditing(null);
+        setEditingDonation(null);
       } else {
-        await createDonation({
+        const payload = {
           memberId: selectedMember.id === 'guest' ? null : selectedMember.id,
-          amount: parseFloat(amount),
-          fund,
-          notes,
+          amount: parseFloat(values.amount),
+          fund: values.fund,
+          notes: values.notes,
+          ...payment,
+          ...goodsServices,
+          allowDuplicateCheck,
           enteredBy: 'Admin',
-          donationDate: new Date(date + 'T12:00:00').toISOString()
-        });
+          donationDate: new Date(values.date + 'T12:00:00').toISOString(),
+          batchId: activeBatchId || undefined
+        };
+        const donorName = `${selectedMember.firstName} ${selectedMember.lastName}`;
+        // Gifts saved offline are still being sent: this one goes behind them
+        if (offlineQueue.pending.length > 0) {
+          await offlineQueue.enqueue(payload, donorName, clientId);
+          queuedOffline = true;
+          offlineQueue.sync();
+          return;
+        }
+        try {
+          await createDonation(payload, clientId);
+        } catch (error) {
+          // No connection: keep the gift on this device until it can be posted
+          if (!isNetworkError(error)) throw error;
+          await offlineQueue.enqueue(payload, donorName, clientId);
+          queuedOffline = true;
+        }
+      }
+    };
+
+    try {
+      try {
+        await submit();
+      } catch (error: any) {
+        if (error.message !== 'DUPLICATE_CHECK_NUMBER') throw error;
+        if (!confirm(`Check #${payment.checkNumber} has already been recorded for this member. Save it anyway?`)) return;
+        await submit(true);
       }
 
-      setSuccess(true);
+      setSuccess(queuedOffline ? 'queued' : 'saved');
       setTimeout(() => setSuccess(false), 3000);
-      loadHistory();
-      
-      // Notify parent to refresh global state (Dashboard)
-      onAddDonation({} as any);
+      if (!queuedOffline) {
+        loadHistory();
+        setBatchRefreshKey(k => k + 1);
+
+        // Notify parent to refresh global state (Dashboard)
+        onAddDonation({} as any);
+      }
 
       // Reset Form
       if (!isEditing) {
@@ -162,6 +364,11 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
         setMemberSearch('');
         setAmount('');
         setNotes('');
+        setCheckNumber('');
+        setPaymentReference('');
+        setGoodsProvided(false);
+        setGoodsValue('');
+        setGoodsDescription('');
         setSearchedMembers([]);
         searchInputRef.current?.focus();
       } else {
@@ -169,15 +376,55 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
         setMemberSearch('');
         setAmount('');
         setNotes('');
+        setCheckNumber('');
+        setPaymentReference('');
+        setGoodsProvided(false);
+        setGoodsValue('');
+        setGoodsDescription('');
         setSearchedMembers([]);
         setIsEditing(null);
       }
-    } catch (error) {
+    } catch (error: any) {
+      if (target && error.message === 'VERSION_CONFLICT') {
+        const current = mapDonation(error.response.current) as Donation;
+        setConflict({
+          current,
+          mine: values,
+          differences: diffFields(toFormValues(target), values, toFormValues(current), Object.keys(FORM_LABELS) as (keyof DonationForm)[]),
+        });
+        return;
+      }
       console.error('Failed to save donation:', error);
-      alert('Failed to save donation');
+      if (target && isNetworkError(error)) {
+        alert('Changes to recorded gifts need a connection. New gifts can still be entered offline.');
+        return;
+      }
+      alert(error.message === 'BATCH_LOCKED' ? BATCH_LOCKED_MESSAGE : 'Failed to save donation');
     }
   };
 
+  // Saves the merged values against the copy that won the race
+  const handleResolveConflict = async (choices: Record<string, MergeChoice>) => {
+    if (!conflict) return;
+    const merged = mergeFields(conflict.mine, toFormValues(conflict.current), choices);
+    setConflict(null);
+    setEditingDonation(conflict.current);
+    applyFormValues(merged);
+    await saveDonation(merged, conflict.current);
+  };
+
+  // Lock the gift being edited so two counters can't change it at once
+  const lock = useRecordLock('donation', isEditing);
+  const { isReadOnly, acquireLock, releaseLock } = lock;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    acquireLock();
+    return () => {
+      releaseLock();
+    };
+  }, [isEditing, acquireLock, releaseLock]);
+
   const handleEditClick = async (donation: Donation) => {
     // Try to find member in resolved cache, or fetch it
     if (!donation.memberId) {
@@ -204,39 +451,67 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
       }
       if (member) setSelectedMember(member);
     }
-    setAmount(donation.amount.toString());
-    setFund(donation.fund);
-    setNotes(donation.notes || '');
-    // Populate the date field from the donation's date or timestamp
-    const donationDate = donation.date || donation.timestamp;
-    if (donationDate) {
-      const d = new Date(donationDate);
-      setDate(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`);
-    }
+    // The date field is filled from the donation's date or timestamp
+    applyFormValues(toFormValues(donation));
+    setEditingDonation(donation);
     setIsEditing(donation.id);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleEmailReceipt = async (donation: Donation) => {
+    const donor = donation.memberId ? resolvedMembers[donation.memberId] || initialMembers.find(m => m.id === donation.memberId) : null;
+    let to: string | undefined;
+    if (donor?.email) {
+      if (!confirm(`Email a receipt for this gift to ${donor.email}?`)) return;
+    } else {
+      const entered = prompt('This donor has no email address on file. Send the receipt to:');
+      if (!entered || !entered.trim()) return;
+      to = entered.trim();
+    }
+
+    setEmailingId(donation.id);
+    try {
+      const message = await emailReceipt(donation.id, to);
+      if (message.status === 'sent') {
+        alert(`Receipt sent to ${message.recipientEmail}.`);
+      } else {
+        alert(`The receipt could not be sent: ${message.lastError || 'unknown error'}. It can be retried from the email log in Reports.`);
+      }
+    } catch (error: any) {
+      console.error('Failed to email receipt:', error);
+      alert(error.message === 'VALIDATION_FAILED' ? 'Please enter a valid email address.' : 'Failed to email receipt');
+    } finally {
+      setEmailingId(null);
+    }
+  };
+
   const handleDeleteClick = async (id: string) => {
     if (confirm('Are you sure you want to void this transaction?')) {
       try {
         await deleteDonation(id);
         loadHistory();
+        setBatchRefreshKey(k => k + 1);
         // Notify parent to refresh global state (Dashboard)
         onAddDonation({} as any); // Trigger refresh even without full data
-      } catch (error) {
+      } catch (error: any) {
         console.error('Failed to delete donation:', error);
-        alert('Failed to delete donation');
+        alert(error.message === 'BATCH_LOCKED' ? BATCH_LOCKED_MESSAGE : 'Failed to delete donation');
       }
     }
   };
 
   const handleCancelEdit = () => {
     setIsEditing(null);
+    setEditingDonation(null);
     setSelectedMember(null);
     setMemberSearch('');
     setAmount('');
     setNotes('');
+    setCheckNumber('');
+    setPaymentReference('');
+    setGoodsProvided(false);
+    setGoodsValue('');
+    setGoodsDescription('');
     setSearchedMembers([]);
   };
 
@@ -248,6 +523,14 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
           <p className="text-slate-500 mt-1">Record and manage donations.</p>
         </header>
 
+        <OfflineQueuePanel queue={offlineQueue} />
+
+        <DepositBatchPanel
+          activeBatchId={activeBatchId}
+          onSelectBatch={setActiveBatchId}
+          refreshKey={batchRefreshKey}
+        />
+
         <div className={`bg-white rounded-2xl shadow-sm border ${isEditing ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-slate-100'} p-6 transition-all`}>
           <div className="flex justify-between items-center mb-6">
             <h2 className="font-bold text-slate-800 text-lg">{isEditing ? 'Edit Transaction' : 'New Transaction'}</h2>
@@ -258,7 +541,9 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
             )}
           </div>
 
-          <form onSubmit={handleSave} className="space-y-6">
+          {isEditing && <RecordLockBanner lock={lock} subject="this gift" className="-mx-6 -mt-2 mb-6 border-t" />}
+
+          <form onSubmit={handleSave} className={`space-y-6 ${isEditing && isReadOnly ? 'opacity-50 pointer-events-none' : ''}`}>
             <div className="relative">
               <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">1. Select Member</label>
               {isEditing ? (
@@ -368,16 +653,53 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
               <select
                 className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium appearance-none text-slate-900 shadow-sm"
                 value={fund}
-                onChange={(e) => setFund(e.target.value as FundType)}
+                onChange={(e) => setFund(e.target.value)}
+              >
+                {funds.map(f => (
+                  <option key={f.id} value={f.name}>{f.name}</option>
+                ))}
+                {fund && !funds.some(f => f.name === fund) && (
+                  <option value={fund}>{fund} (archived)</option>
+                )}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">4. Payment Method</label>
+              <select
+                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium appearance-none text-slate-900 shadow-sm"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
               >
-                {Object.values(FundType).map(f => (
-                  <option key={f} value={f}>{f}</option>
+                {PAYMENT_METHODS.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
                 ))}
               </select>
+              {paymentMethod === 'check' && (
+                <input
+                  type="text"
+                  required
+                  maxLength={20}
+                  placeholder="Check number"
+                  className="mt-3 w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium text-slate-900 shadow-sm"
+                  value={checkNumber}
+                  onChange={(e) => setCheckNumber(e.target.value)}
+                />
+              )}
+              {paymentMethod !== 'cash' && (
+                <input
+                  type="text"
+                  maxLength={100}
+                  placeholder="Reference (optional)"
+                  className="mt-3 w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium text-slate-900 shadow-sm"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                />
+              )}
             </div>
 
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">4. Date</label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">5. Date</label>
               <input
                 type="date"
                 className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium text-slate-900 shadow-sm"
@@ -387,7 +709,7 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
             </div>
 
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">5. Notes</label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">6. Notes</label>
               <input
                 type="text"
                 placeholder="Optional notes..."
@@ -395,6 +717,39 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
                 value={notes}
                 onChange={(e) => setNotes(e.target.value)}
               />
+              <label className="mt-3 flex items-center gap-2 text-sm font-medium text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={goodsProvided}
+                  onChange={(e) => setGoodsProvided(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Donor received goods or services (e.g. a banquet ticket)
+              </label>
+              {goodsProvided && (
+                <div className="mt-3 grid grid-cols-3 gap-3">
+                  <input
+                    type="number"
+                    required
+                    min="0"
+                    step="0.01"
+                    max={amount || undefined}
+                    placeholder="Value ($)"
+                    className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium text-slate-900 shadow-sm"
+                    value={goodsValue}
+                    onChange={(e) => setGoodsValue(e.target.value)}
+                  />
+                  <input
+                    type="text"
+                    required
+                    maxLength={200}
+                    placeholder="What was provided"
+                    className="col-span-2 w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all font-medium text-slate-900 shadow-sm"
+                    value={goodsDescription}
+                    onChange={(e) => setGoodsDescription(e.target.value)}
+                  />
+                </div>
+              )}
             </div>
 
             <div className="pt-2">
@@ -411,12 +766,18 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
                 <Save size={20} />
                 {isEditing ? 'Update Transaction' : 'Save Transaction'}
               </button>
-              {success && (
+              {success === 'saved' && (
                 <div className="flex items-center justify-center gap-2 text-emerald-600 font-bold mt-3 animate-in fade-in slide-in-from-bottom-2">
                   <CheckCircle2 size={18} />
                   Saved!
                 </div>
               )}
+              {success === 'queued' && (
+                <div className="flex items-center justify-center gap-2 text-amber-600 font-bold mt-3 animate-in fade-in slide-in-from-bottom-2">
+                  <CheckCircle2 size={18} />
+                  Saved on this device. It will sync when you're back online.
+                </div>
+              )}
             </div>
           </form>
         </div>
@@ -429,6 +790,15 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
               <History size={20} className="text-slate-400" />
               Transaction History
             </h3>
+
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors shadow-sm"
+            >
+              <Upload size={14} />
+              Import
+            </button>
             
             <div className="inline-flex p-1 bg-slate-100 rounded-xl text-xs font-semibold">
               <button
@@ -503,7 +873,7 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
                 historyDonations.map(donation => {
                   const donor = resolvedMembers[donation.memberId] || initialMembers.find(m => m.id === donation.memberId);
                   return (
-                    <tr key={donation.id} className="hover:bg-slate-50/50 transition-colors group">
+                    <tr key={donation.id} className={`hover:bg-slate-50/50 transition-colors group ${highlights[donation.id] ? 'bg-indigo-50/60' : ''}`}>
                       <td className="px-6 py-4 text-sm text-slate-600">
                          {(() => {
                            const d = new Date(donation.timestamp || donation.date);
@@ -522,9 +892,21 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
                           }
                         </div>
                         {donation.memberId && <div className="text-xs text-slate-400">ID: {donation.memberId}</div>}
+                        {highlights[donation.id] && <div className="text-xs text-indigo-500">Updated by {highlights[donation.id]}</div>}
                       </td>
                       <td className="px-6 py-4">
                         <span className="px-2 py-1 bg-slate-100 text-slate-600 rounded text-xs font-bold uppercase">{donation.fund}</span>
+                        {formatPaymentMethod(donation) && (
+                          <div className="text-xs text-slate-500 mt-1">{formatPaymentMethod(donation)}</div>
+                        )}
+                        {donation.batchId && (
+                          <div className="text-xs text-slate-400 mt-1">Batch #{donation.batchId}</div>
+                        )}
+                        {donation.source && donation.source !== 'manual' && (
+                          <div className="text-xs text-indigo-500 mt-1">
+                            Imported · {DONATION_IMPORT_PROVIDERS.find(p => p.value === donation.source)?.label || donation.source}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 font-mono font-bold text-slate-700">
                         ${donation.amount.toFixed(2)}
@@ -537,6 +919,14 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
                           >
                             <Edit2 size={14} />
                           </button>
+                          <button
+                            onClick={() => handleEmailReceipt(donation)}
+                            disabled={emailingId === donation.id}
+                            title="Email receipt"
+                            className="p-1.5 text-slate-400 hover:text-emerald-600 transition-colors bg-white border border-slate-200 rounded-lg shadow-sm disabled:opacity-50"
+                          >
+                            {emailingId === donation.id ? <Loader2 size={14} className="animate-spin" /> : <Mail size={14} />}
+                          </button>
                           <button
                             onClick={() => handleDeleteClick(donation.id)}
                             className="p-1.5 text-slate-400 hover:text-red-600 transition-colors bg-white border border-slate-200 rounded-lg shadow-sm"
@@ -553,6 +943,28 @@ const DonationEntry: React.FC<DonationEntryProps> = ({ onAddDonation, members: i
           </table>
         </div>
       </div>
+
+      {isImportOpen && (
+        <DonationImportWizard
+          onClose={() => setIsImportOpen(false)}
+          onImported={loadHistory}
+        />
+      )}
+
+      {conflict && (
+        <ConflictMergeDialog
+          subject="this gift"
+          differences={conflict.differences}
+          labels={FORM_LABELS}
+          formatValue={(key, value) => {
+            if (key === 'paymentMethod') return PAYMENT_METHODS.find(m => m.value === value)?.label || String(value ?? '');
+            if (key === 'goodsProvided') return value ? 'Yes' : 'No';
+            return String(value ?? '');
+          }}
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Search, UserCheck, UserX, SkipForward, CheckCircle2, AlertCircle } from 'lucide-react';
+import { DonationImport, DonationImportRow, Fund, Member, DONATION_IMPORT_PROVIDERS } from '../types';
+import { fetchDonationImports, getDonationImport, resolveDonationImportRow, fetchMembers } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+
+interface DonationImportReviewProps {
+  initialImportId?: string | null;
+  onResolved: () => void;
+}
+
+const providerLabel = (provider: string) =>
+  DONATION_IMPORT_PROVIDERS.find(p => p.value === provider)?.label || provider;
+
+interface RowResolverProps {
+  row: DonationImportRow;
+  funds: Fund[];
+  onResolve: (input: { action: 'import' | 'skip'; memberId?: string | null; fund?: string; saveFundRule?: boolean }) => Promise<void>;
+}
+
+const RowResolver: React.FC<RowResolverProps> = ({ row, funds, onResolve }) => {
+  const [memberSearch, setMemberSearch] = useState('');
+  const [memberResults, setMemberResults] = useState<Member[]>([]);
+  const [selected, setSelected] = useState<{ id: string | null; name: string } | null>(
+    row.memberId ? { id: row.memberId, name: row.memberName || row.memberId } : null
+  );
+  const [fund, setFund] = useState(row.fund || '');
+  const [saveFundRule, setSaveFundRule] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (memberSearch.length < 2) {
+      setMemberResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchMembers(1, 8, memberSearch);
+        setMemberResults(result.data);
+      } catch (err) {
+        console.error('Failed to search members:', err);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [memberSearch]);
+
+  const submit = async (action: 'import' | 'skip') => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onResolve(
+        action === 'skip'
+          ? { action }
+          : {
+              action,
+              memberId: selected ? selected.id : undefined,
+              fund: fund || undefined,
+              saveFundRule: saveFundRule && !!row.sourceFund && fund !== row.fund,
+            }
+      );
+    } catch (err: any) {
+      setError(err.details && err.details.length > 0 ? err.details.join(' ') : err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const needsMember = row.reviewReasons.includes('member');
+  const needsFund = row.reviewReasons.includes('fund');
+
+  return (
+    <div className="p-4 border border-slate-100 rounded-xl space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <div className="font-bold text-slate-900">{row.payerName || 'Unknown payer'}</div>
+          <div className="text-xs text-slate-500">
+            {[row.payerEmail, row.date ? new Date(row.date).toLocaleDateString() : null, row.externalId && `#${row.externalId}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="font-mono font-bold text-slate-800">${(row.amount ?? 0).toFixed(2)}</div>
+          <div className="text-xs text-slate-400">Line {row.line}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+            Member {needsMember && <span className="text-amber-600">· unmatched</span>}
+          </label>
+          {selected ? (
+            <div className="flex items-center justify-between px-3 py-2 bg-indigo-50 border border-indigo-100 rounded-lg text-sm">
+              <span className="font-medium text-indigo-900">{selected.id ? selected.name : 'Guest / Non-Member'}</span>
+              <button type="button" onClick={() => setSelected(null)} className="text-xs font-bold text-indigo-600">
+                Change
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Search members..."
+                  className="w-full pl-8 pr-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={memberSearch}
+                  onChange={e => setMemberSearch(e.target.value)}
+                />
+                {memberResults.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                    {memberResults.map(m => (
+                      <button
+                        key={m.id}
+                        type="button"
+                        onClick={() => {
+                          setSelected({ id: m.id, name: `${m.firstName} ${m.lastName}` });
+                          setMemberSearch('');
+                        }}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-indigo-50"
+                      >
+                        {m.firstName} {m.lastName}
+                        {m.email && <span className="text-xs text-slate-400 ml-2">{m.email}</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => setSelected({ id: null, name: 'Guest / Non-Member' })}
+                className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-slate-700"
+              >
+                <UserX size={14} /> Record as guest
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+            Fund {row.sourceFund && <span className="normal-case font-normal">(file: "{row.sourceFund}")</span>}
+            {needsFund && <span className="text-amber-600"> · unmapped</span>}
+          </label>
+          <select
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            value={fund}
+            onChange={e => setFund(e.target.value)}
+          >
+            <option value="">Choose a fund...</option>
+            {Array.from(new Set([...funds.map(f => f.name), ...(row.fund ? [row.fund] : [])])).map(f => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+          {row.sourceFund && fund && fund !== row.fund && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-slate-500">
+              <input type="checkbox" checked={saveFundRule} onChange={e => setSaveFundRule(e.target.checked)} />
+              Always map "{row.sourceFund}" to {fund}
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-rose-600">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => submit('skip')}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-slate-500 hover:bg-slate-50 rounded-lg"
+        >
+          <SkipForward size={14} /> Skip
+        </button>
+        <button
+          type="button"
+          onClick={() => submit('import')}
+          disabled={isSaving || !selected || !fund}
+          className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={14} className="animate-spin" /> : <UserCheck size={14} />}
+          Import Gift
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const DonationImportReview: React.FC<DonationImportReviewProps> = ({ initialImportId, onResolved }) => {
+  const [imports, setImports] = useState<DonationImport[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialImportId || null);
+  const [selectedImport, setSelectedImport] = useState<DonationImport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { funds } = useFunds();
+
+  const loadImports = async () => {
+    try {
+      const result = await fetchDonationImports('review', 1, 50);
+      setImports(result.data);
+      if (!selectedId && result.data.length > 0) setSelectedId(result.data[0].id);
+    } catch (error) {
+      console.error('Failed to load imports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSelected = async (id: string) => {
+    try {
+      setSelectedImport(await getDonationImport(id, 'pending'));
+    } catch (error) {
+      console.error('Failed to load import:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadImports();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadSelected(selectedId);
+  }, [selectedId]);
+
+  const handleResolve = async (row: DonationImportRow, input: Parameters<RowResolverProps['onResolve']>[0]) => {
+    await resolveDonationImportRow(row.importId, row.id, input);
+    onResolved();
+    await Promise.all([loadImports(), loadSelected(row.importId)]);
+  };
+
+  if (loading) {
+    return <div className="py-16 text-center"><Loader2 className="mx-auto animate-spin text-slate-400" /></div>;
+  }
+
+  if (imports.length === 0 && !selectedImport) {
+    return (
+      <div className="py-16 text-center text-slate-500">
+        <CheckCircle2 className="mx-auto mb-2 text-emerald-500" size={32} />
+        Nothing waiting for review.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        {imports.map(item => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setSelectedId(item.id)}
+            className={`w-full text-left p-3 rounded-xl border transition-all ${selectedId === item.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-100 hover:bg-slate-50'}`}
+          >
+            <div className="font-bold text-sm text-slate-900 truncate">{item.fileName || `Import #${item.id}`}</div>
+            <div className="text-xs text-slate-500">
+              {providerLabel(item.provider)} · {new Date(item.createdAt).toLocaleDateString()}
+            </div>
+            <div className="text-xs font-bold text-amber-600 mt-1">{item.counts.pending} to review</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="md:col-span-2 space-y-3">
+        {selectedImport && (
+          <>
+            <div className="text-xs text-slate-500">
+              {selectedImport.counts.imported} imported · {selectedImport.counts.duplicate} duplicates · {selectedImport.counts.skipped} skipped · {selectedImport.counts.error} rejected
+            </div>
+            {selectedImport.status === 'completed' || (selectedImport.rows || []).length === 0 ? (
+              <div className="p-6 bg-emerald-50 rounded-xl text-emerald-700 text-sm flex items-center gap-2">
+                <CheckCircle2 size={18} /> Every row in this import has been reviewed.
+              </div>
+            ) : (
+              (selectedImport.rows || []).map(row => (
+                <RowResolver
+                  key={row.id}
+                  row={row}
+                  funds={funds}
+                  onResolve={input => handleResolve(row, input)}
+                />
+              ))
+            )}
+          </>
+        )}
+        {!selectedImport && (
+          <div className="p-6 text-sm text-slate-500 flex items-center gap-2">
+            <AlertCircle size={18} /> Select an import to review.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DonationImportReview;
@@ -0,0 +1,475 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, X, Loader2, FileSpreadsheet, Download, AlertCircle, ArrowLeft, Trash2, Plus } from 'lucide-react';
+import {
+  DonationImportPreview,
+  DonationImportPreviewRow,
+  DonationImportProvider,
+  DONATION_IMPORT_PROVIDERS,
+  FundMappingRule,
+} from '../types';
+import {
+  previewDonationImport,
+  commitDonationImport,
+  fetchFundRules,
+  createFundRule,
+  deleteFundRule,
+} from '../src/lib/api';
+import { downloadCsv } from '../src/lib/utils';
+import { useFunds } from '../src/hooks/useFunds';
+import DonationImportReview from './DonationImportReview';
+
+interface DonationImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Tab = 'import' | 'review' | 'rules';
+type Step = 'upload' | 'mapping' | 'preview';
+
+const FIELDS: { key: string; label: string; required?: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'amount', label: 'Amount', required: true },
+  { key: 'externalId', label: 'Transaction ID' },
+  { key: 'payerName', label: 'Payer Name' },
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'fund', label: 'Fund / Designation' },
+  { key: 'paymentMethod', label: 'Payment Method' },
+  { key: 'notes', label: 'Memo' },
+];
+
+const STATUS_STYLES: Record<DonationImportPreviewRow['status'], string> = {
+  ready: 'bg-emerald-50 text-emerald-700',
+  pending: 'bg-amber-50 text-amber-700',
+  duplicate: 'bg-slate-100 text-slate-600',
+  error: 'bg-rose-50 text-rose-700',
+};
+
+const STATUS_LABELS: Record<DonationImportPreviewRow['status'], string> = {
+  ready: 'Ready',
+  pending: 'Needs Review',
+  duplicate: 'Duplicate',
+  error: 'Rejected',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const errorText = (error: string) => error.split(': ').slice(1).join(': ') || error;
+
+const describeRow = (row: DonationImportPreviewRow) => {
+  if (row.status === 'error') return row.errors.map(errorText).join(' ');
+  if (row.status === 'duplicate') {
+    return row.duplicateOf === 'imported' ? 'Transaction already imported' : `Repeats line ${row.duplicateOf}`;
+  }
+  const notes = [];
+  if (row.matchType) notes.push(`Matched by ${row.matchType}`);
+  if (row.reviewReasons.includes('member')) {
+    notes.push(row.candidates.length > 1 ? `${row.candidates.length} members share this name` : 'No matching member');
+  }
+  if (row.reviewReasons.includes('fund')) notes.push(row.sourceFund ? `Unmapped fund "${row.sourceFund}"` : 'No fund');
+  return notes.join(' · ');
+};
+
+const FundRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<FundMappingRule[]>([]);
+  const [form, setForm] = useState<{ provider: DonationImportProvider | ''; matchValue: string; fund: string }>({
+    provider: '',
+    matchValue: '',
+    fund: '',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const { funds } = useFunds();
+
+  const loadRules = async () => {
+    try {
+      setRules(await fetchFundRules());
+    } catch (err) {
+      console.error('Failed to load fund rules:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await createFundRule({ provider: form.provider || null, matchValue: form.matchValue, fund: form.fund });
+      setForm({ ...form, matchValue: '' });
+      loadRules();
+    } catch (err: any) {
+      setError(err.message === 'DUPLICATE_RULE' ? 'A rule for that text already exists.' : (err.details || [err.message]).join(' '));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteFundRule(id);
+      loadRules();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-500">
+        Rules translate a provider's fund or designation text into one of our funds. Gifts whose fund text has no rule and doesn't match a fund wait in the review queue.
+      </p>
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <select
+            className={inputClass}
+            value={form.provider}
+            onChange={e => setForm({ ...form, provider: e.target.value as DonationImportProvider | '' })}
+          >
+            <option value="">All providers</option>
+            {DONATION_IMPORT_PROVIDERS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>File Says</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="General Giving"
+            value={form.matchValue}
+            onChange={e => setForm({ ...form, matchValue: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Record As</label>
+          <select className={inputClass} value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+            <option value="">Choose a fund...</option>
+            {funds.map(f => (
+              <option key={f.id} value={f.name}>{f.name}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={!form.matchValue.trim() || !form.fund}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Plus size={16} /> Add Rule
+        </button>
+      </form>
+      {error && <div className="text-sm text-rose-600">{error}</div>}
+
+      <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+        {rules.length === 0 ? (
+          <div className="p-6 text-center text-sm text-slate-500">No fund rules yet.</div>
+        ) : (
+          rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <div>
+                <span className="font-medium text-slate-900">"{rule.matchValue}"</span>
+                <span className="text-slate-400 mx-2">→</span>
+                <span className="font-bold text-indigo-700">{rule.fund}</span>
+                <span className="text-xs text-slate-400 ml-3">
+                  {rule.provider ? DONATION_IMPORT_PROVIDERS.find(p => p.value === rule.provider)?.label : 'All providers'}
+                </span>
+              </div>
+              <button onClick={() => handleDelete(rule.id)} className="p-1.5 text-slate-400 hover:text-red-600">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DonationImportWizard: React.FC<DonationImportWizardProps> = ({ onClose, onImported }) => {
+  const [tab, setTab] = useState<Tab>('import');
+  const [step, setStep] = useState<Step>('upload');
+  const [provider, setProvider] = useState<DonationImportProvider>('generic');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<DonationImportPreview | null>(null);
+  const [reviewImportId, setReviewImportId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const showError = (error: any) => {
+    setErrors(error.details && error.details.length > 0 ? error.details : [error.message]);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+      setCsv(text);
+      // The provider profile suggests the mapping
+      const data = await previewDonationImport({ csv: text, provider });
+      setHeaders(data.headers);
+      setMapping(data.mapping);
+    } catch (error: any) {
+      if (error.headers) {
+        setHeaders(error.headers);
+        setMapping(error.suggestedMapping || {});
+      } else {
+        showError(error);
+        return;
+      }
+    } finally {
+      setIsWorking(false);
+    }
+    setStep('mapping');
+  };
+
+  const handlePreview = async () => {
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      setPreview(await previewDonationImport({ csv, provider, mapping }));
+      setStep('preview');
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      const result = await commitDonationImport({ csv, provider, mapping, fileName });
+      onImported();
+      setCsv('');
+      setPreview(null);
+      setStep('upload');
+      setReviewImportId(result.id);
+      setTab('review');
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!preview) return;
+    downloadCsv(`${fileName.replace(/\.csv$/i, '') || 'donations'}_errors.csv`, [
+      ['Line', ...headers, 'Errors'],
+      ...preview.rows
+        .filter(row => row.status === 'error')
+        .map(row => [row.line, ...headers.map(h => row.record?.[h] ?? ''), row.errors.map(errorText).join('; ')]),
+    ]);
+  };
+
+  const mappingFields = (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {FIELDS.map(field => (
+        <div key={field.key}>
+          <label className={labelClass}>
+            {field.label}{field.required && ' *'}
+          </label>
+          <select
+            className={inputClass}
+            value={mapping[field.key] || ''}
+            onChange={e => {
+              const next = { ...mapping };
+              if (e.target.value) next[field.key] = e.target.value;
+              else delete next[field.key];
+              setMapping(next);
+            }}
+          >
+            <option value="">— Don't import —</option>
+            {headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <FileSpreadsheet size={22} />
+            Import Donations
+          </h2>
+          <button onClick={onClose} className="hover:opacity-75 transition-opacity">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 border-b border-slate-100 flex gap-6 text-sm font-bold">
+          {([
+            ['import', 'New Import'],
+            ['review', 'Review Queue'],
+            ['rules', 'Fund Rules'],
+          ] as [Tab, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`pb-3 border-b-2 transition-all ${tab === key ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-800'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {errors.length > 0 && tab === 'import' && (
+            <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <ul className="space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {tab === 'import' && step === 'upload' && (
+            <div className="space-y-6">
+              <div className="max-w-xs">
+                <label className={labelClass}>Export From</label>
+                <select
+                  className={inputClass}
+                  value={provider}
+                  onChange={e => setProvider(e.target.value as DonationImportProvider)}
+                >
+                  {DONATION_IMPORT_PROVIDERS.map(p => (
+                    <option key={p.value} value={p.value}>{p.label}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex flex-col items-center justify-center gap-3 p-12 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-indigo-300 hover:bg-indigo-50/30 transition-all">
+                {isWorking ? <Loader2 size={32} className="animate-spin text-indigo-600" /> : <Upload size={32} className="text-indigo-600" />}
+                <span className="font-bold text-slate-800">Choose a CSV export</span>
+                <span className="text-sm text-slate-500 text-center max-w-md">
+                  Gifts are matched to members by email, then by name. Anything that can't be matched goes to the review queue, and transactions already imported are skipped.
+                </span>
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={isWorking} />
+              </label>
+            </div>
+          )}
+
+          {tab === 'import' && step === 'mapping' && (
+            <>
+              <p className="text-sm text-slate-500">
+                Match each field to a column in <span className="font-medium text-slate-700">{fileName}</span>. Map either Payer Name or First/Last Name so gifts can be matched to members.
+              </p>
+              {mappingFields}
+            </>
+          )}
+
+          {tab === 'import' && step === 'preview' && preview && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['ready', 'pending', 'duplicate', 'error'] as DonationImportPreviewRow['status'][]).map(status => (
+                  <div key={status} className={`p-4 rounded-xl ${STATUS_STYLES[status]}`}>
+                    <div className="text-xs font-bold uppercase tracking-wider">{STATUS_LABELS[status]}</div>
+                    <div className="text-2xl font-extrabold">{preview.summary[status]}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="border border-slate-100 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Line</th>
+                      <th className="px-4 py-2 text-left">Date</th>
+                      <th className="px-4 py-2 text-left">Payer</th>
+                      <th className="px-4 py-2 text-left">Fund</th>
+                      <th className="px-4 py-2 text-right">Amount</th>
+                      <th className="px-4 py-2 text-left">Status</th>
+                      <th className="px-4 py-2 text-left">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.rows.map(row => (
+                      <tr key={row.line}>
+                        <td className="px-4 py-2 text-slate-400">{row.line}</td>
+                        <td className="px-4 py-2 text-slate-600">{row.date || '—'}</td>
+                        <td className="px-4 py-2 font-medium text-slate-900">{row.payerName || row.email || '—'}</td>
+                        <td className="px-4 py-2 text-slate-600">{row.fund || row.sourceFund || '—'}</td>
+                        <td className="px-4 py-2 text-right font-mono">{row.amount !== null ? `$${row.amount.toFixed(2)}` : '—'}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 rounded-lg text-xs font-bold ${STATUS_STYLES[row.status]}`}>
+                            {STATUS_LABELS[row.status]}
+                          </span>
+                        </td>
+                        <td className={`px-4 py-2 text-xs ${row.status === 'error' ? 'text-rose-600' : 'text-slate-500'}`}>
+                          {describeRow(row)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {tab === 'review' && (
+            <DonationImportReview initialImportId={reviewImportId} onResolved={onImported} />
+          )}
+
+          {tab === 'rules' && <FundRulesPanel />}
+        </div>
+
+        {tab === 'import' && step !== 'upload' && (
+          <div className="p-6 border-t border-slate-100 flex justify-between items-center gap-3">
+            <button
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+              className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg font-medium"
+            >
+              <ArrowLeft size={16} /> {step === 'preview' ? 'Edit Mapping' : 'Choose Another File'}
+            </button>
+            <div className="flex gap-3">
+              {step === 'preview' && preview && preview.summary.error > 0 && (
+                <button
+                  onClick={downloadErrorReport}
+                  className="flex items-center gap-2 px-4 py-2 bg-rose-50 text-rose-700 border border-rose-100 rounded-lg font-bold hover:bg-rose-100"
+                >
+                  <Download size={16} /> Error Report
+                </button>
+              )}
+              {step === 'mapping' && (
+                <button
+                  onClick={handlePreview}
+                  disabled={isWorking || !mapping.date || !mapping.amount}
+                  className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isWorking && <Loader2 size={16} className="animate-spin" />}
+                  Preview Import
+                </button>
+              )}
+              {step === 'preview' && preview && (
+                <button
+                  onClick={handleCommit}
+                  disabled={isWorking || preview.summary.ready + preview.summary.pending === 0}
+                  className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isWorking && <Loader2 size={16} className="animate-spin" />}
+                  Import {preview.summary.ready} &amp; Queue {preview.summary.pending}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DonationImportWizard;
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, X, Loader2, RefreshCw, AlertCircle } from 'lucide-react';
+import { EmailJob, EmailMessage, EmailStatus } from '../types';
+import { fetchEmailJobs, fetchEmailMessages, retryEmailJob, retryEmailMessage } from '../src/lib/api';
+import { useSocket } from '../src/contexts/SocketContext';
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  sending: 'bg-indigo-100 text-indigo-700',
+  sent: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+};
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  statement: 'Statement',
+  receipt: 'Receipt',
+  acknowledgment: 'Acknowledgment',
+  acknowledgment_digest: 'Weekly Digest',
+  report: 'Scheduled Report',
+};
+
+interface EmailLogProps {
+  onClose: () => void;
+  canRetry: boolean;
+  initialJobId?: string | null;
+}
+
+const EmailLog: React.FC<EmailLogProps> = ({ onClose, canRetry, initialJobId = null }) => {
+  const [jobs, setJobs] = useState<EmailJob[]>([]);
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [jobId, setJobId] = useState<string | null>(initialJobId);
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | ''>('');
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const { socket } = useSocket();
+
+  const loadJobs = async () => {
+    try {
+      const result = await fetchEmailJobs(1, 10);
+      setJobs(result.data);
+    } catch (error) {
+      console.error('Failed to load email jobs:', error);
+    }
+  };
+
+  const loadMessages = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchEmailMessages(page, 15, {
+        jobId: jobId || undefined,
+        status: statusFilter || undefined,
+      });
+      setMessages(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Failed to load email log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  useEffect(() => {
+    loadMessages();
+  }, [page, jobId, statusFilter]);
+
+  // Batches are sent in the background; refresh as each message goes out
+  useEffect(() => {
+    if (!socket) return;
+    const handleUpdate = () => {
+      loadJobs();
+      loadMessages();
+    };
+    socket.on('email:update', handleUpdate);
+    return () => {
+      socket.off('email:update', handleUpdate);
+    };
+  }, [socket, page, jobId, statusFilter]);
+
+  const handleRetryMessage = async (message: EmailMessage) => {
+    setRetrying(message.id);
+    try {
+      await retryEmailMessage(message.id);
+      loadMessages();
+      loadJobs();
+    } catch (error) {
+      console.error('Failed to retry email:', error);
+      alert('Failed to retry email');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const handleRetryJob = async (job: EmailJob) => {
+    setRetrying(`job-${job.id}`);
+    try {
+      const { requeued } = await retryEmailJob(job.id);
+      if (requeued === 0) alert('There are no failed emails in this batch.');
+      loadJobs();
+      loadMessages();
+    } catch (error) {
+      console.error('Failed to retry batch:', error);
+      alert('Failed to retry batch');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 bg-indigo-900 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Mail size={22} />
+            <div>
+              <h2 className="text-xl font-bold">Email Log</h2>
+              <p className="text-xs text-indigo-200">Delivery status of every statement, receipt and acknowledgment sent by email.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          {jobs.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Batch Sends</h3>
+              <div className="space-y-2">
+                {jobs.map(job => (
+                  <div
+                    key={job.id}
+                    className={`flex items-center justify-between p-3 rounded-xl border transition-colors ${jobId === job.id ? 'border-indigo-300 bg-indigo-50' : 'border-slate-100 bg-slate-50'}`}
+                  >
+                    <button
+                      onClick={() => { setJobId(jobId === job.id ? null : job.id); setPage(1); }}
+                      className="text-left flex-1"
+                    >
+                      <div className="text-sm font-bold text-slate-800">
+                        {job.taxYear} {TEMPLATE_LABELS[job.templateKey]}s · {new Date(job.createdAt).toLocaleString()}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {job.counts.sent} of {job.counts.total} sent
+                        {job.counts.failed > 0 && <span className="text-rose-600 font-bold"> · {job.counts.failed} failed</span>}
+                        {!job.complete && <span className="text-indigo-600"> · sending…</span>}
+                        {job.createdBy && <> · by {job.createdBy}</>}
+                      </div>
+                    </button>
+                    {canRetry && job.counts.failed > 0 && (
+                      <button
+                        onClick={() => handleRetryJob(job)}
+                        disabled={retrying === `job-${job.id}`}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-rose-700 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 disabled:opacity-50"
+                      >
+                        <RefreshCw size={12} className={retrying === `job-${job.id}` ? 'animate-spin' : ''} />
+                        Retry Failed
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                {jobId ? `Messages in Batch #${jobId}` : 'All Messages'}
+              </h3>
+              <select
+                value={statusFilter}
+                onChange={e => { setStatusFilter(e.target.value as EmailStatus | ''); setPage(1); }}
+                className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">All Statuses</option>
+                <option value="queued">Queued</option>
+                <option value="sending">Sending</option>
+                <option value="sent">Sent</option>
+                <option value="failed">Failed</option>
+              </select>
+            </div>
+
+            <div className="border border-slate-100 rounded-xl overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="bg-slate-50/50">
+                  <tr>
+                    <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {loading ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-10 text-center">
+                        <Loader2 className="animate-spin text-indigo-500 mx-auto" size={24} />
+                      </td>
+                    </tr>
+                  ) : messages.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-10 text-center text-slate-400 italic">No emails have been sent yet.</td>
+                    </tr>
+                  ) : messages.map(message => (
+                    <tr key={message.id}>
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-bold text-slate-800">{message.memberName || 'Guest'}</div>
+                        <div className="text-xs text-slate-500">{message.recipientEmail}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-600">{TEMPLATE_LABELS[message.templateKey]}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[message.status]}`}>
+                          {message.status}
+                        </span>
+                        {message.lastError && (
+                          <div className="flex items-start gap-1 text-xs text-rose-600 mt-1 max-w-xs">
+                            <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                            {message.lastError}
+                          </div>
+                        )}
+                        {message.sentAt && (
+                          <div className="text-xs text-slate-400 mt-1">{new Date(message.sentAt).toLocaleString()}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-600">{message.attempts}</td>
+                      <td className="px-4 py-3 text-right">
+                        {canRetry && message.status === 'failed' && (
+                          <button
+                            onClick={() => handleRetryMessage(message)}
+                            disabled={retrying === message.id}
+                            className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50 ml-auto"
+                          >
+                            <RefreshCw size={12} className={retrying === message.id ? 'animate-spin' : ''} />
+                            Retry
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 mt-3">
+                <button
+                  disabled={page === 1}
+                  onClick={() => setPage(p => p - 1)}
+                  className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-sm font-medium disabled:opacity-50 hover:bg-slate-50"
+                >
+                  Prev
+                </button>
+                <span className="text-sm text-slate-500">Page {page} of {totalPages}</span>
+                <button
+                  disabled={page === totalPages}
+                  onClick={() => setPage(p => p + 1)}
+                  className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-sm font-medium disabled:opacity-50 hover:bg-slate-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailLog;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Save, RotateCcw, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { EmailTemplate, EmailTemplateKey } from '../types';
+import { fetchEmailTemplates, updateEmailTemplate, resetEmailTemplate } from '../src/lib/api';
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const TEMPLATE_LABELS: Record<EmailTemplateKey, string> = {
+  statement: 'Year-End Statement',
+  receipt: 'Gift Receipt',
+  acknowledgment: 'Acknowledgment',
+  acknowledgment_digest: 'Weekly Digest',
+  report: 'Scheduled Report',
+};
+
+const EmailTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>('statement');
+  const [form, setForm] = useState({ subject: '', body: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = templates.find(t => t.key === selectedKey);
+
+  useEffect(() => {
+    fetchEmailTemplates()
+      .then(setTemplates)
+      .catch(err => console.error('Failed to load email templates:', err));
+  }, []);
+
+  useEffect(() => {
+    if (selected) setForm({ subject: selected.subject, body: selected.body });
+  }, [selectedKey, templates]);
+
+  const replaceTemplate = (template: EmailTemplate) => {
+    setTemplates(prev => prev.map(t => (t.key === template.key ? template : t)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      replaceTemplate(await updateEmailTemplate(selectedKey, form));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED' ? 'A subject and message are required.' : 'Failed to save template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm(`Restore the default ${TEMPLATE_LABELS[selectedKey].toLowerCase()} email?`)) return;
+    setError(null);
+    try {
+      replaceTemplate(await resetEmailTemplate(selectedKey));
+    } catch (err: any) {
+      setError('Failed to restore the default template.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
+        <Mail size={20} className="text-indigo-600" />
+        <h2 className="font-bold text-slate-800">Email Templates</h2>
+      </div>
+
+      <form onSubmit={handleSave} className="p-8 space-y-4">
+        <p className="text-sm text-slate-500">
+          The message sent with each emailed statement, receipt, gift acknowledgment or scheduled report. The file is attached automatically.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="flex bg-slate-100 rounded-xl p-1 w-fit">
+          {(Object.keys(TEMPLATE_LABELS) as EmailTemplateKey[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setSelectedKey(key)}
+              className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${selectedKey === key ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {TEMPLATE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <label className={labelClass}>Subject</label>
+          <input required type="text" maxLength={200} className={inputClass} value={form.subject} onChange={e => setForm({ ...form, subject: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Message</label>
+          <textarea required rows={7} maxLength={10000} className={inputClass} value={form.body} onChange={e => setForm({ ...form, body: e.target.value })} />
+          {selected && (
+            <p className="text-xs text-slate-400 mt-1">
+              Merge fields: {selected.mergeFields.map(f => `{${f}}`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400 italic">
+            {selected && !selected.isDefault && selected.updatedBy ? `Last edited by ${selected.updatedBy}` : 'Using the default template'}
+          </span>
+          <div className="flex items-center gap-3">
+            {saved && (
+              <span className="flex items-center gap-1 text-sm text-emerald-600 font-bold">
+                <CheckCircle2 size={16} /> Saved
+              </span>
+            )}
+            {selected && !selected.isDefault && (
+              <button
+                type="button"
+                onClick={handleReset}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50"
+              >
+                <RotateCcw size={16} /> Restore Default
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving || !selected}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Save size={16} /> Save Template
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default EmailTemplateManager;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Wallet, Plus, Edit2, Trash2, Archive, ArchiveRestore, X, Save, AlertCircle } from 'lucide-react';
+import { Fund } from '../types';
+import { createFund, updateFund, deleteFund, FundInput } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+
+const emptyForm = {
+  code: '',
+  name: '',
+  description: '',
+  parentId: '',
+  sortOrder: '0',
+  taxDeductible: true,
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const errorMessage = (err: any) => {
+  if (err.message === 'DUPLICATE_FUND') return 'Another fund already uses that code or name.';
+  if (err.message === 'VALIDATION_FAILED') return 'Check the fund details. Codes may only use letters, numbers and underscores.';
+  return err.message || 'Failed to save fund.';
+};
+
+const FundManager: React.FC = () => {
+  const { funds, reload } = useFunds(true);
+  const [form, setForm] = useState(emptyForm);
+  // null = form closed, '' = adding, otherwise the id of the fund being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = (fund?: Fund) => {
+    setError(null);
+    setEditingId(fund ? fund.id : '');
+    setForm(fund ? {
+      code: fund.code,
+      name: fund.name,
+      description: fund.description || '',
+      parentId: fund.parentId || '',
+      sortOrder: String(fund.sortOrder),
+      taxDeductible: fund.taxDeductible,
+    } : emptyForm);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    const input: FundInput = {
+      code: form.code,
+      name: form.name,
+      description: form.description || null,
+      parentId: form.parentId || null,
+      sortOrder: parseInt(form.sortOrder) || 0,
+      taxDeductible: form.taxDeductible,
+    };
+    try {
+      if (editingId) {
+        await updateFund(editingId, input);
+      } else {
+        await createFund(input);
+      }
+      setEditingId(null);
+      reload();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setActive = async (fund: Fund, isActive: boolean) => {
+    setError(null);
+    try {
+      await updateFund(fund.id, { isActive });
+      reload();
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleDelete = async (fund: Fund) => {
+    if (!window.confirm(`Delete the ${fund.name} fund?`)) return;
+    setError(null);
+    try {
+      await deleteFund(fund.id);
+      reload();
+    } catch (err: any) {
+      if (err.message === 'FUND_IN_USE') {
+        if (fund.isActive && window.confirm(`${fund.name} has gifts or pledges recorded against it and can't be deleted. Archive it instead?`)) {
+          setActive(fund, false);
+        }
+        return;
+      }
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Wallet size={20} className="text-indigo-600" />
+          <h2 className="font-bold text-slate-800">Funds</h2>
+        </div>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700"
+          >
+            <Plus size={16} /> Add Fund
+          </button>
+        )}
+      </div>
+
+      <div className="p-8 space-y-6">
+        <p className="text-sm text-slate-500">
+          Renaming a fund updates every gift recorded to it. Archived funds keep their history but can't take new gifts.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        {editingId !== null && (
+          <form onSubmit={handleSave} className="p-6 bg-slate-50 rounded-xl space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Code</label>
+                <input required type="text" maxLength={20} placeholder="BUILDING" className={`${inputClass} uppercase`} value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} />
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>Name</label>
+                <input required type="text" maxLength={100} placeholder="Building Fund" className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="md:col-span-3">
+                <label className={labelClass}>Description</label>
+                <input type="text" maxLength={500} className={inputClass} value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Parent Fund</label>
+                <select className={inputClass} value={form.parentId} onChange={e => setForm({ ...form, parentId: e.target.value })}>
+                  <option value="">None</option>
+                  {funds.filter(f => f.id !== editingId).map(f => (
+                    <option key={f.id} value={f.id}>{f.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Sort Order</label>
+                <input type="number" min="0" step="1" className={inputClass} value={form.sortOrder} onChange={e => setForm({ ...form, sortOrder: e.target.value })} />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700 md:pt-6">
+                <input type="checkbox" checked={form.taxDeductible} onChange={e => setForm({ ...form, taxDeductible: e.target.checked })} />
+                Tax-deductible
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setEditingId(null)} className="flex items-center gap-2 px-4 py-2 text-slate-600 font-medium hover:text-slate-900">
+                <X size={16} /> Cancel
+              </button>
+              <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50">
+                <Save size={16} /> Save Fund
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="border border-slate-100 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3 text-left">Fund</th>
+                <th className="px-4 py-3 text-left">Code</th>
+                <th className="px-4 py-3 text-left">Parent</th>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {funds.map(fund => (
+                <tr key={fund.id} className={fund.isActive ? '' : 'text-slate-400'}>
+                  <td className="px-4 py-3">
+                    <div className="font-bold text-slate-900">{fund.name}</div>
+                    {fund.description && <div className="text-xs text-slate-500">{fund.description}</div>}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{fund.code}</td>
+                  <td className="px-4 py-3">{fund.parentName || '—'}</td>
+                  <td className="px-4 py-3 space-x-1">
+                    {!fund.isActive && <span className="px-2 py-1 bg-slate-100 text-slate-500 rounded text-xs font-bold">Archived</span>}
+                    {!fund.taxDeductible && <span className="px-2 py-1 bg-amber-50 text-amber-700 rounded text-xs font-bold">Not deductible</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button type="button" title="Edit" onClick={() => openForm(fund)} className="p-2 text-slate-400 hover:text-indigo-600">
+                        <Edit2 size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        title={fund.isActive ? 'Archive' : 'Restore'}
+                        onClick={() => setActive(fund, !fund.isActive)}
+                        className="p-2 text-slate-400 hover:text-amber-600"
+                      >
+                        {fund.isActive ? <Archive size={16} /> : <ArchiveRestore size={16} />}
+                      </button>
+                      <button type="button" title="Delete" onClick={() => handleDelete(fund)} className="p-2 text-slate-400 hover:text-rose-600">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FundManager;
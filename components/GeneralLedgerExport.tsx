@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, Eye, AlertCircle, AlertTriangle } from 'lucide-react';
+import { GlExportFormat, GlGrouping, GlJournalPreview } from '../types';
+import { previewGlExport, exportGeneralLedger } from '../src/lib/api';
+
+const FORMATS: { value: GlExportFormat; label: string }[] = [
+  { value: 'iif', label: 'QuickBooks (IIF)' },
+  { value: 'csv', label: 'General Ledger CSV' },
+  { value: 'ofx', label: 'OFX Statement' },
+];
+
+const selectClass = 'w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2';
+
+const formatCurrency = (amount: number) => `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const firstOfLastMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() - 1, 1).toLocaleDateString('en-CA');
+};
+
+const endOfLastMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 0).toLocaleDateString('en-CA');
+};
+
+const GeneralLedgerExport: React.FC = () => {
+  const [startDate, setStartDate] = useState(firstOfLastMonth());
+  const [endDate, setEndDate] = useState(endOfLastMonth());
+  const [grouping, setGrouping] = useState<GlGrouping>('daily');
+  const [format, setFormat] = useState<GlExportFormat>('iif');
+  const [preview, setPreview] = useState<GlJournalPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadPreview = async () => {
+    const result = await previewGlExport(startDate, endDate, grouping);
+    setPreview(result);
+    return result;
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await loadPreview();
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED' ? 'Choose a start date on or before the end date.' : err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Always checks the period first so a repeat export is confirmed knowingly
+  const handleExport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const current = await loadPreview();
+      if (current.unmappedFunds.length > 0) {
+        setError(`Map ${current.unmappedFunds.join(', ')} to a GL account in Settings first.`);
+        return;
+      }
+      const confirmOverlap = current.previousExports.length > 0;
+      if (confirmOverlap && !confirm(
+        `Part of this period has already been exported:\n\n${current.previousExports
+          .map(log => `${log.startDate} to ${log.endDate} by ${log.exportedBy || 'a deleted user'} on ${new Date(log.exportedAt).toLocaleDateString()}`)
+          .join('\n')}\n\nImporting it again will double-count that giving. Export anyway?`
+      )) return;
+      await exportGeneralLedger(startDate, endDate, grouping, format, confirmOverlap);
+      await loadPreview();
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED' ? 'Choose a start date on or before the end date.' : err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <h3 className="font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <BookOpen size={18} className="text-indigo-600" />
+        General Ledger Export
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">Summarized journal entries for your bookkeeping system, using the GL accounts mapped in Settings.</p>
+      <div className="space-y-4">
+        <div className="flex gap-4">
+          <div className="flex-1">
+            <label className={labelClass}>Start Date</label>
+            <input type="date" value={startDate} onChange={e => { setStartDate(e.target.value); setPreview(null); }} className={selectClass} />
+          </div>
+          <div className="flex-1">
+            <label className={labelClass}>End Date</label>
+            <input type="date" value={endDate} onChange={e => { setEndDate(e.target.value); setPreview(null); }} className={selectClass} />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>One Entry Per</label>
+          <select value={grouping} onChange={e => { setGrouping(e.target.value as GlGrouping); setPreview(null); }} className={selectClass}>
+            <option value="daily">Day</option>
+            <option value="batch">Deposit Batch</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Format</label>
+          <select value={format} onChange={e => setFormat(e.target.value as GlExportFormat)} className={selectClass}>
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm flex items-center gap-2">
+            <AlertCircle size={16} className="shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {preview && (
+          <div className="p-4 bg-slate-50 rounded-xl text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-slate-500">{preview.entries.length} journal entr{preview.entries.length === 1 ? 'y' : 'ies'} · {preview.totals.gifts} gifts</span>
+              <span className="font-mono font-bold text-slate-900">{formatCurrency(preview.totals.debit)}</span>
+            </div>
+            {preview.unmappedFunds.length > 0 && (
+              <p className="text-rose-600">No GL account for {preview.unmappedFunds.join(', ')}.</p>
+            )}
+            {preview.previousExports.length > 0 && (
+              <p className="text-amber-700 flex gap-2">
+                <AlertTriangle size={16} className="shrink-0" />
+                Overlaps {preview.previousExports.length} earlier export{preview.previousExports.length === 1 ? '' : 's'}, the latest {preview.previousExports[0].startDate} to {preview.previousExports[0].endDate}.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={handlePreview} disabled={isWorking} className="flex-1 flex items-center justify-center gap-2 py-3 border border-indigo-200 text-indigo-700 rounded-xl font-bold hover:bg-indigo-50 transition-all disabled:opacity-50">
+            <Eye size={16} />
+            Preview
+          </button>
+          <button onClick={handleExport} disabled={isWorking} className="flex-1 flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all disabled:opacity-50">
+            <Download size={16} />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeneralLedgerExport;
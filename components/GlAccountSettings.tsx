@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Save, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { GlSettings } from '../types';
+import { fetchGlSettings, updateGlSettings } from '../src/lib/api';
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const GlAccountSettings: React.FC = () => {
+  const [depositAccount, setDepositAccount] = useState('');
+  const [funds, setFunds] = useState<GlSettings['funds']>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const apply = (settings: GlSettings) => {
+    setDepositAccount(settings.depositAccount || '');
+    setFunds(settings.funds);
+  };
+
+  useEffect(() => {
+    fetchGlSettings().then(apply).catch(err => setError(err.message || 'Failed to load GL accounts.'));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      apply(await updateGlSettings({
+        depositAccount,
+        accounts: funds.map(f => ({ fund: f.fund, account: f.account })),
+      }));
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED'
+        ? 'Account names are required for the deposit account and cannot contain tabs or line breaks.'
+        : err.message || 'Failed to save GL accounts.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+      <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
+        <BookOpen size={20} className="text-indigo-600" />
+        <h2 className="font-bold text-slate-800">General Ledger Accounts</h2>
+      </div>
+
+      <form onSubmit={handleSave} className="p-8 space-y-6">
+        <p className="text-sm text-slate-500">
+          Name the accounts exactly as they appear in your bookkeeping system's chart of accounts. The general ledger export debits the deposit account and credits each fund's income account.
+        </p>
+
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="max-w-md">
+          <label className={labelClass}>Deposit Account</label>
+          <input required maxLength={100} className={inputClass} value={depositAccount} onChange={e => setDepositAccount(e.target.value)} />
+        </div>
+
+        <div className="border border-slate-100 rounded-xl overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3 text-left">Fund</th>
+                <th className="px-4 py-3 text-left">Income Account</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {funds.map((fund, i) => (
+                <tr key={fund.fund}>
+                  <td className="px-4 py-3">
+                    <div className="font-bold text-slate-900">{fund.fund}</div>
+                    <div className="text-xs text-slate-500">{fund.code}{!fund.isActive && ' · Archived'}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      maxLength={100}
+                      placeholder="Not mapped"
+                      className={inputClass}
+                      value={fund.account || ''}
+                      onChange={e => {
+                        const next = [...funds];
+                        next[i] = { ...fund, account: e.target.value || null };
+                        setFunds(next);
+                      }}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-emerald-600 font-medium">
+              <CheckCircle2 size={16} /> Saved
+            </span>
+          )}
+          <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50">
+            <Save size={16} /> Save Accounts
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default GlAccountSettings;
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import { Home, Plus, Search, X, Loader2, Trash2, Crown, Edit2 } from 'lucide-react';
+import { Member, Household, HouseholdMember } from '../types';
+import {
+  fetchHouseholds,
+  getHousehold,
+  createHousehold,
+  updateHousehold,
+  deleteHousehold,
+  fetchMembers,
+} from '../src/lib/api';
+import { cleanInput } from '../src/lib/utils';
+
+interface HouseholdManagerProps {
+  onClose: () => void;
+  onHouseholdsChanged: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  salutation: '',
+  address: '',
+  city: '',
+  state: '',
+  zip: '',
+  jointStatements: true,
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const HouseholdManager: React.FC<HouseholdManagerProps> = ({ onClose, onHouseholdsChanged }) => {
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [householdMembers, setHouseholdMembers] = useState<HouseholdMember[]>([]);
+  const [headMemberId, setHeadMemberId] = useState<string | null>(null);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [memberResults, setMemberResults] = useState<Member[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadHouseholds = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchHouseholds(1, 100, search);
+      setHouseholds(result.data);
+    } catch (error) {
+      console.error('Failed to load households:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(loadHouseholds, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    if (!memberSearch.trim()) {
+      setMemberResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchMembers(1, 8, memberSearch);
+        setMemberResults(result.data);
+      } catch (error) {
+        console.error('Failed to search members:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [memberSearch]);
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setHouseholdMembers([]);
+    setHeadMemberId(null);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = async (id: string) => {
+    try {
+      const household = await getHousehold(id);
+      setEditingId(household.id);
+      setForm({
+        name: household.name,
+        salutation: household.salutation || '',
+        address: household.address || '',
+        city: household.city || '',
+        state: household.state || '',
+        zip: household.zip || '',
+        jointStatements: household.jointStatements,
+      });
+      setHouseholdMembers(household.members || []);
+      setHeadMemberId(household.headMemberId || null);
+      setFormError(null);
+      setIsFormOpen(true);
+    } catch (error) {
+      console.error('Failed to load household:', error);
+      alert('Failed to load household');
+    }
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setMemberSearch('');
+    setFormError(null);
+  };
+
+  const addMember = (member: Member) => {
+    if (!householdMembers.some(m => m.id === member.id)) {
+      setHouseholdMembers([...householdMembers, { id: member.id, firstName: member.firstName, lastName: member.lastName, email: member.email }]);
+      if (!headMemberId) setHeadMemberId(member.id);
+    }
+    setMemberSearch('');
+  };
+
+  const removeMember = (id: string) => {
+    setHouseholdMembers(householdMembers.filter(m => m.id !== id));
+    if (headMemberId === id) setHeadMemberId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setFormError(null);
+    const payload = {
+      ...form,
+      headMemberId,
+      memberIds: householdMembers.map(m => m.id),
+    };
+    try {
+      if (editingId) {
+        await updateHousehold(editingId, payload);
+      } else {
+        await createHousehold(payload);
+      }
+      closeForm();
+      loadHouseholds();
+      onHouseholdsChanged();
+    } catch (error: any) {
+      console.error('Failed to save household:', error);
+      setFormError(error.message === 'VALIDATION_FAILED'
+        ? 'Check the household details. State must be a 2-letter code and ZIP 5 digits.'
+        : 'Failed to save household.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (household: Household) => {
+    if (!confirm(`Delete ${household.name}? Its members will be kept but no longer grouped.`)) return;
+    try {
+      await deleteHousehold(household.id);
+      loadHouseholds();
+      onHouseholdsChanged();
+    } catch (error) {
+      console.error('Failed to delete household:', error);
+      alert('Failed to delete household');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Home size={22} />
+            {isFormOpen ? (editingId ? 'Edit Household' : 'New Household') : 'Households'}
+          </h2>
+          <button onClick={isFormOpen ? closeForm : onClose} className="hover:opacity-75 transition-opacity">
+            <X size={24} />
+          </button>
+        </div>
+
+        {!isFormOpen ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex gap-3">
+              <div className="relative flex-1">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Search households..."
+                  className={`${inputClass} pl-9`}
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                />
+              </div>
+              <button
+                onClick={openNew}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium text-sm"
+              >
+                <Plus size={16} />
+                New Household
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="py-10 text-center">
+                <Loader2 className="animate-spin text-indigo-500 mx-auto" size={24} />
+              </div>
+            ) : households.length === 0 ? (
+              <div className="py-10 text-center text-slate-400 italic">No households found.</div>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                {households.map(household => (
+                  <div key={household.id} className="p-4 flex justify-between items-center hover:bg-slate-50/50">
+                    <div>
+                      <div className="font-bold text-slate-900">{household.name}</div>
+                      <div className="text-xs text-slate-500">
+                        {household.memberCount} member{household.memberCount === 1 ? '' : 's'}
+                        {household.headName && ` · Head: ${household.headName}`}
+                        {!household.jointStatements && ' · Separate statements'}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openEdit(household.id)}
+                        className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                        title="Edit Household"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(household)}
+                        className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                        title="Delete Household"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="flex-1 overflow-y-auto p-6 space-y-4">
+            {formError && (
+              <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm">{formError}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Household Name</label>
+                <input required type="text" placeholder="Smith Household" className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Salutation</label>
+                <input type="text" placeholder="Mr. & Mrs. John Smith" className={inputClass} value={form.salutation} onChange={e => setForm({ ...form, salutation: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="relative">
+              <label className={labelClass}>Members</label>
+              <div className="space-y-2 mb-2">
+                {householdMembers.length === 0 && (
+                  <p className="text-sm text-slate-400 italic">No members yet.</p>
+                )}
+                {householdMembers.map(member => (
+                  <div key={member.id} className="flex items-center justify-between px-4 py-2 bg-slate-50 border border-slate-100 rounded-lg">
+                    <span className="font-medium text-slate-800">{member.firstName} {member.lastName}</span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setHeadMemberId(member.id)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${headMemberId === member.id ? 'bg-amber-100 text-amber-700' : 'text-slate-400 hover:bg-slate-100'}`}
+                        title="Set as head of household"
+                      >
+                        <Crown size={12} />
+                        Head
+                      </button>
+                      <button type="button" onClick={() => removeMember(member.id)} className="text-slate-400 hover:text-red-600" title="Remove from household">
+                        <X size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                  type="text"
+                  placeholder="Add a member by name..."
+                  className={`${inputClass} pl-9`}
+                  value={memberSearch}
+                  onChange={e => setMemberSearch(e.target.value)}
+                />
+              </div>
+              {memberResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                  {memberResults.map(member => (
+                    <button
+                      key={member.id}
+                      type="button"
+                      onClick={() => addMember(member)}
+                      className="w-full text-left px-4 py-2 hover:bg-indigo-50 text-sm text-slate-700"
+                    >
+                      {member.firstName} {member.lastName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className={labelClass}>Mailing Address</label>
+              <input type="text" placeholder="Leave blank to use the head of household's address" className={inputClass} value={form.address} onChange={e => setForm({ ...form, address: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>City</label>
+                <input type="text" className={inputClass} value={form.city} onChange={e => setForm({ ...form, city: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>State</label>
+                <input type="text" placeholder="MS" className={inputClass} value={form.state} onChange={e => setForm({ ...form, state: cleanInput('state', e.target.value) })} />
+              </div>
+              <div>
+                <label className={labelClass}>ZIP</label>
+                <input type="text" placeholder="38930" className={inputClass} value={form.zip} onChange={e => setForm({ ...form, zip: cleanInput('zip', e.target.value) })} />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={form.jointStatements}
+                onChange={e => setForm({ ...form, jointStatements: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Send one joint contribution statement for this household
+            </label>
+
+            <div className="pt-4 flex gap-3">
+              <button type="button" onClick={closeForm} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                Back
+              </button>
+              <button type="submit" disabled={isSaving} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Home size={18} />}
+                Save Household
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdManager;
@@ -11,7 +11,11 @@ import {
   Menu,
   X,
   Settings,
-  Target
+  Target,
+  History,
+  ClipboardList,
+  Inbox,
+  Wallet
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -20,19 +24,27 @@ interface LayoutProps {
   setView: (view: ViewState) => void;
   churchName: string;
   onLogout: () => void;
+  openTaskCount?: number;
+  unreadReportCount?: number;
+  // Gifts saved on this device that have not reached the server
+  pendingSyncCount?: number;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, churchName, onLogout }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, churchName, onLogout, openTaskCount = 0, unreadReportCount = 0, pendingSyncCount = 0 }) => {
   const [isSidebarOpen, setIsSidebarOpen] = React.useState(false);
 
   const navItems = [
     { id: 'DASHBOARD' as ViewState, label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'TASKS' as ViewState, label: 'My Tasks', icon: ClipboardList },
     { id: 'MEMBERS' as ViewState, label: 'Members', icon: Users },
     { id: 'VOLUNTEER' as ViewState, label: 'Volunteers', icon: ShieldCheck },
     { id: 'STEWARDSHIP' as ViewState, label: 'Stewardship', icon: Target },
     { id: 'ENTRY' as ViewState, label: 'Donation Entry', icon: HandCoins },
     { id: 'REPORTS' as ViewState, label: 'Reports', icon: FileText },
+    { id: 'REPORT_INBOX' as ViewState, label: 'Report Inbox', icon: Inbox },
+    { id: 'DISBURSEMENTS' as ViewState, label: 'Disbursements', icon: Wallet },
     { id: 'USERS' as ViewState, label: 'User Management', icon: ShieldCheck },
+    { id: 'AUDIT' as ViewState, label: 'Audit Log', icon: History },
     { id: 'SETTINGS' as ViewState, label: 'Settings', icon: Settings },
   ];
 
@@ -78,6 +90,21 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, setView, churchNa
               >
                 <item.icon size={20} />
                 <span className="font-medium">{item.label}</span>
+                {item.id === 'TASKS' && openTaskCount > 0 && (
+                  <span className="ml-auto min-w-[1.5rem] px-2 py-0.5 rounded-full bg-amber-400 text-indigo-950 text-xs font-bold text-center">
+                    {openTaskCount}
+                  </span>
+                )}
+                {item.id === 'ENTRY' && pendingSyncCount > 0 && (
+                  <span title="Waiting to sync" className="ml-auto min-w-[1.5rem] px-2 py-0.5 rounded-full bg-rose-400 text-indigo-950 text-xs font-bold text-center">
+                    {pendingSyncCount}
+                  </span>
+                )}
+                {item.id === 'REPORT_INBOX' && unreadReportCount > 0 && (
+                  <span className="ml-auto min-w-[1.5rem] px-2 py-0.5 rounded-full bg-amber-400 text-indigo-950 text-xs font-bold text-center">
+                    {unreadReportCount}
+                  </span>
+                )}
               </button>
             ))}
           </nav>
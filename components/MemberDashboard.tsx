@@ -16,14 +16,16 @@ import {
   Clock,
   HeartHandshake,
   Shield,
-  Edit2
+  Edit2,
+  Target
 } from 'lucide-react';
-import { Member, Donation, ChurchSettings } from '../types';
+import { Member, Donation, ChurchSettings, Pledge, PLEDGE_FREQUENCIES } from '../types';
 import { 
   fetchSelfProfile, 
   fetchSelfDonations, 
   fetchSelfStatements,
   fetchSelfOpportunities,
+  fetchSelfPledges,
   updateMember,
   updateMemberSkills,
   downloadMemberStatement,
@@ -45,6 +47,7 @@ interface Campaign {
   description: string;
   goal_amount: number;
   current_amount: number;
+  pledged_amount?: number;
   end_date?: string;
   is_active: boolean;
 }
@@ -69,6 +72,7 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
   const [statements, setStatements] = useState<number[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [pledges, setPledges] = useState<Pledge[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -87,7 +91,8 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
     state: "",
     zip: "",
     skills: [] as string[],
-    interests: [] as string[]
+    interests: [] as string[],
+    acknowledgmentOptOut: false
   });
   const [formErrors, setErrors] = useState<Record<string, string>>({});
 
@@ -97,7 +102,7 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
       const token = localStorage.getItem("token");
       const apiUrl = import.meta.env.VITE_API_URL || ""; // Using relative via proxy is best
       
-      const [profileRes, donationsRes, statementsRes, campaignsRes, opportunitiesRes, fetchDonationSummaryRes] = await Promise.all([
+      const [profileRes, donationsRes, statementsRes, campaignsRes, opportunitiesRes, fetchDonationSummaryRes, pledgesRes] = await Promise.all([
         fetchSelfProfile(),
         fetchSelfDonations(),
         fetchSelfStatements(),
@@ -105,7 +110,8 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
           headers: { Authorization: `Bearer ${token}` }
         }).then(res => res.json()),
         fetchSelfOpportunities(),
-        fetchDonationSummary()
+        fetchDonationSummary(),
+        fetchSelfPledges()
       ]);
       
       setProfile(profileRes);
@@ -113,6 +119,7 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
       setStatements(statementsRes || []);
       setCampaigns(campaignsRes || []);
       setOpportunities(opportunitiesRes || []);
+      setPledges(pledgesRes || []);
       setSummary(fetchDonationSummaryRes || { currentYearDonations: 0, fundDistribution: [] });
 
       // Set initial form data
@@ -126,7 +133,8 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
         state: profileRes.state || "",
         zip: profileRes.zip || "",
         skills: profileRes.skills || [],
-        interests: profileRes.interests || []
+        interests: profileRes.interests || [],
+        acknowledgmentOptOut: profileRes.acknowledgmentOptOut === true
       });
       setError(null);
     } catch (err: any) {
@@ -178,7 +186,8 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
         state: formData.state,
         zip: formData.zip,
         familyId: profile.familyId,
-        joinedAt: profile.joinedAt
+        joinedAt: profile.joinedAt,
+        acknowledgmentOptOut: formData.acknowledgmentOptOut
       });
 
       await updateMemberSkills(profile.id, formData.skills, formData.interests);
@@ -356,6 +365,9 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
                       <div>
                         <h4 className="font-bold text-slate-800">{campaign.title}</h4>
                         <p className="text-xs text-slate-500 font-medium">Total Raised: ${stats.totalAmount.toLocaleString()} / ${stats.goal.toLocaleString()}</p>
+                        {Number(campaign.pledged_amount) > 0 && (
+                          <p className="text-xs text-slate-400 font-medium">Pledged: ${Number(campaign.pledged_amount).toLocaleString()}</p>
+                        )}
                       </div>
                       <span className="text-sm font-black text-emerald-600">{stats.percent.toFixed(1)}%</span>
                     </div>
@@ -377,6 +389,44 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
           </section>
         )}
 
+        {pledges.length > 0 && (
+          <section className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100">
+            <div className="flex items-center gap-2 mb-6">
+              <Target size={20} className="text-indigo-600" />
+              <h3 className="font-bold text-slate-900 text-lg">My Pledges</h3>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {pledges.map(pledge => (
+                <div key={pledge.id} className="space-y-3">
+                  <div className="flex justify-between items-end">
+                    <div>
+                      <h4 className="font-bold text-slate-800">{pledge.campaignTitle || `${pledge.fund} Fund`}</h4>
+                      <p className="text-xs text-slate-500 font-medium">
+                        Given ${pledge.received.toLocaleString()} of ${pledge.amount.toLocaleString()} pledged
+                        {' '}({PLEDGE_FREQUENCIES.find(f => f.value === pledge.frequency)?.label})
+                      </p>
+                    </div>
+                    <span className="text-sm font-black text-indigo-600">{pledge.percentFulfilled.toFixed(1)}%</span>
+                  </div>
+                  <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-500 rounded-full transition-all duration-1000"
+                      style={{ width: `${Math.min(100, pledge.percentFulfilled)}%` }}
+                    />
+                  </div>
+                  {pledge.fulfillmentStatus === 'fulfilled' ? (
+                    <p className="text-[10px] font-bold text-emerald-600 uppercase tracking-wider">Pledge fulfilled - thank you!</p>
+                  ) : pledge.nextDueDate && (
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                      Next installment ${pledge.installmentAmount.toLocaleString()} on {new Date(pledge.nextDueDate + 'T12:00:00').toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-1 space-y-8">
             <section className="bg-white rounded-3xl shadow-sm border border-slate-100 overflow-hidden">
@@ -651,6 +701,22 @@ const MemberDashboard: React.FC<MemberDashboardProps> = ({ churchSettings, onLog
                 </div>
               </div>
 
+              <div className="space-y-4 pt-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-50 pb-2">Gift Acknowledgments</h3>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    checked={!formData.acknowledgmentOptOut}
+                    onChange={(e) => setFormData({ ...formData, acknowledgmentOptOut: !e.target.checked })}
+                  />
+                  <span className="text-sm text-slate-700">
+                    Email me a thank-you and receipt when my gifts are received
+                    <span className="block text-xs text-slate-400">Your year-end statement is sent either way.</span>
+                  </span>
+                </label>
+              </div>
+
               <div className="space-y-4 pt-4">
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-50 pb-2">Skills & Interests</h3>
                 <div className="flex flex-wrap gap-2 mb-2">
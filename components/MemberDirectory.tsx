@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from "react";
-import { Member } from "../types";
+import { Member, Household } from "../types";
 import {
   fetchMembers,
   updateMember,
   deleteMember,
   createMember,
+  fetchHouseholds,
+  mapMember,
 } from "../src/lib/api";
 import {
   Search,
@@ -19,11 +21,22 @@ import {
   Receipt,
   ClipboardList,
   DollarSign,
+  Home,
+  Upload,
+  GitMerge,
 } from "lucide-react";
 import MemberReportModal from "./MemberReportModal";
 import MemberStatementModal from "./MemberStatementModal";
+import HouseholdManager from "./HouseholdManager";
+import MemberImportWizard from "./MemberImportWizard";
+import MemberMergeTool from "./MemberMergeTool";
 import { formatPhoneNumber, cleanInput } from "../src/lib/utils";
 import { useRecordLock } from "../src/hooks/useRecordLock";
+import RecordLockBanner from "./RecordLockBanner";
+import ConflictMergeDialog from "./ConflictMergeDialog";
+import { diffFields, mergeFields, FieldDifference, MergeChoice } from "../src/lib/conflicts";
+import { useLiveEvents, useChangeHighlights } from "../src/hooks/useLiveUpdates";
+import { isRecordChange, mergeRecord } from "../src/lib/liveUpdates";
 
 const REGEX = {
   EMAIL: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
@@ -34,6 +47,36 @@ const REGEX = {
 
 import { ViewState } from "../types";
 
+type MemberForm = ReturnType<typeof toFormData>;
+
+const toFormData = (member: Member) => ({
+  firstName: member.firstName || "",
+  lastName: member.lastName || "",
+  email: member.email || "",
+  telephone: member.telephone || "",
+  address: member.address || "",
+  city: member.city || "",
+  state: member.state || "",
+  zip: member.zip || "",
+  joinedAt: member.joinedAt
+    ? new Date(member.joinedAt).toISOString().split("T")[0]
+    : "",
+  familyId: member.familyId || "",
+});
+
+const FORM_LABELS: Record<keyof MemberForm, string> = {
+  firstName: "First Name",
+  lastName: "Last Name",
+  email: "Email",
+  telephone: "Phone",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zip: "Zip",
+  joinedAt: "Joined",
+  familyId: "Household",
+};
+
 interface MemberDirectoryProps {
   members: Member[];
   onAddMember: (member: Omit<Member, "id" | "createdAt">) => void;
@@ -55,6 +98,10 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
   const [editingMember, setEditingMember] = useState<Member | null>(null);
   const [reportMemberId, setReportMemberId] = useState<string | null>(null);
   const [statementMemberId, setStatementMemberId] = useState<string | null>(null);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [isHouseholdManagerOpen, setIsHouseholdManagerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
 
   const [formData, setFormData] = useState({
     firstName: "",
@@ -66,19 +113,63 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
     state: "",
     zip: "",
     joinedAt: "",
+    familyId: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when a save was refused because someone else changed the member first
+  const [conflict, setConflict] = useState<{
+    current: Member;
+    mine: MemberForm;
+    differences: FieldDifference[];
+  } | null>(null);
 
   // Locking Logic
-  const { isLockedByOther, lockedBy, acquireLock, releaseLock } = useRecordLock(
-    "member",
-    editingMember ? editingMember.id : null
+  const lock = useRecordLock("member", editingMember ? editingMember.id : null);
+  const { isReadOnly, acquireLock, releaseLock } = lock;
+
+  const reloadMembers = async () => {
+    try {
+      const result = await fetchMembers(page, 50, searchTerm);
+      setMembers(result.data);
+      setTotalPages(result.pagination.totalPages);
+    } catch (error) {
+      console.error("Failed to load members:", error);
+    }
+  };
+
+  // Merge other users' edits and deletes into the visible page. A new member
+  // refetches the page instead, so the server's search, sort and page size
+  // decide whether it belongs here
+  const { highlights, highlight } = useChangeHighlights();
+  useLiveEvents(
+    {
+      "member:update": (event) => {
+        if (!isRecordChange(event)) return void reloadMembers();
+        const member = event.type === "DELETE" ? null : (mapMember(event.data) as Member);
+        const id = String(event.id ?? member?.id);
+        if (event.type === "CREATE") {
+          reloadMembers();
+        } else {
+          setMembers((prev) => mergeRecord(prev, event.type, id, member, { insert: "none" }));
+        }
+        if (member) highlight(id, event.by);
+      },
+    },
+    reloadMembers,
   );
 
-  // Sync state with props
+  const loadHouseholds = async () => {
+    try {
+      const result = await fetchHouseholds(1, 100);
+      setHouseholds(result.data);
+    } catch (error) {
+      console.error("Failed to load households:", error);
+    }
+  };
+
   useEffect(() => {
-    setMembers(initialMembers);
-  }, [initialMembers]);
+    loadHouseholds();
+  }, []);
 
   // Debounced search
   useEffect(() => {
@@ -134,19 +225,7 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
 
   const handleEditClick = async (member: Member) => {
     setEditingMember(member);
-    setFormData({
-      firstName: member.firstName,
-      lastName: member.lastName,
-      email: member.email,
-      telephone: member.telephone || "",
-      address: member.address,
-      city: member.city,
-      state: member.state,
-      zip: member.zip,
-      joinedAt: member.joinedAt
-        ? new Date(member.joinedAt).toISOString().split("T")[0]
-        : "",
-    });
+    setFormData(toFormData(member));
     setIsModalOpen(true);
   };
 
@@ -194,36 +273,37 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
       state: "",
       zip: "",
       joinedAt: "",
+      familyId: "",
     });
     setIsModalOpen(true);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!validate()) return;
-
+  // Saves the form as an edit of `target`, the copy (and version) it was made against
+  const saveMember = async (values: MemberForm, target: Member | null) => {
     try {
-      if (editingMember) {
-        const updated = await updateMember(editingMember.id, {
-          ...formData,
-          familyId: editingMember.familyId,
-        });
+      if (target) {
+        const updated = await updateMember(
+          target.id,
+          { ...values, familyId: values.familyId || null },
+          target.version,
+        );
         setMembers(
-          members.map((m) => (m.id === editingMember.id ? updated : m))
+          members.map((m) => (m.id === target.id ? updated : m))
         );
         // Notify parent to refresh global state
         onAddMember(updated);
       } else {
         const created = await createMember({
-          ...formData,
-          familyId: "f" + Date.now(),
-        }); // Mock familyId
+          ...values,
+          familyId: values.familyId || null,
+        });
         setMembers([...members, created]);
         // Notify parent to refresh global state
         onAddMember(created);
       }
       setIsModalOpen(false);
       setErrors({});
+      loadHouseholds();
       setFormData({
         firstName: "",
         lastName: "",
@@ -234,13 +314,42 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
         state: "",
         zip: "",
         joinedAt: "",
+        familyId: "",
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (target && error.message === "VERSION_CONFLICT") {
+        const current = mapMember(error.response.current) as Member;
+        setConflict({
+          current,
+          mine: values,
+          differences: diffFields(toFormData(target), values, toFormData(current), Object.keys(FORM_LABELS) as (keyof MemberForm)[]),
+        });
+        return;
+      }
       console.error("Failed to save member:", error);
       alert("Failed to save member");
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+    await saveMember(formData, editingMember);
+  };
+
+  // Saves the merged values against the copy that won the race
+  const handleResolveConflict = async (choices: Record<string, MergeChoice>) => {
+    if (!conflict) return;
+    const merged = mergeFields(conflict.mine, toFormData(conflict.current), choices);
+    setConflict(null);
+    setEditingMember(conflict.current);
+    setFormData(merged);
+    await saveMember(merged, conflict.current);
+  };
+
+  const householdName = (member: Member) =>
+    households.find((h) => h.id === member.familyId)?.name;
+
   const handleDonationClick = (member: Member) => {
     setSelectedMemberId(member.id);
     setView("ENTRY");
@@ -257,13 +366,36 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
             Manage family records and contact information.
           </p>
         </div>
-        <button
-          onClick={handleOpenModal}
-          className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium"
-        >
-          <UserPlus size={18} />
-          New Member
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setIsHouseholdManagerOpen(true)}
+            className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-all shadow-sm font-medium"
+          >
+            <Home size={18} />
+            Households
+          </button>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-all shadow-sm font-medium"
+          >
+            <Upload size={18} />
+            Import
+          </button>
+          <button
+            onClick={() => setIsMergeOpen(true)}
+            className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-all shadow-sm font-medium"
+          >
+            <GitMerge size={18} />
+            Duplicates
+          </button>
+          <button
+            onClick={handleOpenModal}
+            className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium"
+          >
+            <UserPlus size={18} />
+            New Member
+          </button>
+        </div>
       </header>
 
       {/* Search and Filters */}
@@ -346,7 +478,7 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
               members.map((member) => (
                 <tr
                   key={member.id}
-                  className="hover:bg-slate-50/50 transition-colors group"
+                  className={`hover:bg-slate-50/50 transition-colors group ${highlights[member.id] ? "bg-indigo-50/60" : ""}`}
                 >
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-3">
@@ -361,6 +493,17 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
                         <div className="text-xs text-slate-500">
                           ID: {member.id}
                         </div>
+                        {highlights[member.id] && (
+                          <div className="text-xs text-indigo-500">
+                            Updated by {highlights[member.id]}
+                          </div>
+                        )}
+                        {householdName(member) && (
+                          <div className="flex items-center gap-1 text-xs text-indigo-600 font-medium">
+                            <Home size={12} />
+                            {householdName(member)}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -450,7 +593,7 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
         {members.map((member) => (
           <div
             key={member.id}
-            className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100"
+            className={`bg-white p-5 rounded-2xl shadow-sm border transition-colors ${highlights[member.id] ? "border-indigo-300" : "border-slate-100"}`}
           >
             <div className="flex justify-between items-start mb-4">
               <div className="flex items-center gap-3">
@@ -465,6 +608,11 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
                   <p className="text-xs text-slate-500">
                     Joined {new Date(member.createdAt).toLocaleDateString()}
                   </p>
+                  {highlights[member.id] && (
+                    <p className="text-xs text-indigo-500">
+                      Updated by {highlights[member.id]}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -545,6 +693,40 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
         />
       )}
 
+      {/* Household Manager */}
+      {isHouseholdManagerOpen && (
+        <HouseholdManager
+          onClose={() => setIsHouseholdManagerOpen(false)}
+          onHouseholdsChanged={() => {
+            loadHouseholds();
+            onAddMember({} as any);
+          }}
+        />
+      )}
+
+      {/* CSV Import */}
+      {isImportOpen && (
+        <MemberImportWizard
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            // Refetch directly rather than waiting on the socket event, which may be down
+            reloadMembers();
+            onAddMember({} as any);
+          }}
+        />
+      )}
+
+      {/* Duplicate finder & merge */}
+      {isMergeOpen && (
+        <MemberMergeTool
+          onClose={() => setIsMergeOpen(false)}
+          onMerged={() => {
+            reloadMembers();
+            onAddMember({} as any);
+          }}
+        />
+      )}
+
       {/* Add/Edit Member Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
@@ -558,16 +740,9 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
               </button>
             </div>
 
-            {isLockedByOther && (
-              <div className="bg-amber-50 border-b border-amber-100 p-4 flex items-center gap-3">
-                <AlertCircle className="text-amber-600" size={20} />
-                <div className="text-sm text-amber-800">
-                  <span className="font-bold">Record Locked:</span> This member is currently being edited by <span className="font-bold">{lockedBy}</span>. You cannot make changes until they finish.
-                </div>
-              </div>
-            )}
+            {editingMember && <RecordLockBanner lock={lock} subject="this member" />}
 
-            <form onSubmit={handleSubmit} className={`p-6 space-y-4 bg-white ${isLockedByOther ? 'opacity-50 pointer-events-none' : ''}`}>
+            <form onSubmit={handleSubmit} className={`p-6 space-y-4 bg-white ${isReadOnly ? 'opacity-50 pointer-events-none' : ''}`}>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
@@ -665,18 +840,39 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
                   )}
                 </div>
               </div>
-              <div>
-                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
-                  Date Joined
-                </label>
-                <input
-                  type="date"
-                  className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
-                  value={formData.joinedAt}
-                  onChange={(e) =>
-                    setFormData({ ...formData, joinedAt: e.target.value })
-                  }
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+                    Date Joined
+                  </label>
+                  <input
+                    type="date"
+                    className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
+                    value={formData.joinedAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, joinedAt: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+                    Household
+                  </label>
+                  <select
+                    className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900"
+                    value={formData.familyId}
+                    onChange={(e) =>
+                      setFormData({ ...formData, familyId: e.target.value })
+                    }
+                  >
+                    <option value="">No household</option>
+                    {households.map((h) => (
+                      <option key={h.id} value={h.id}>
+                        {h.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               <div>
                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
@@ -781,6 +977,21 @@ const MemberDirectory: React.FC<MemberDirectoryProps> = ({
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictMergeDialog
+          subject="this member"
+          differences={conflict.differences}
+          labels={FORM_LABELS}
+          formatValue={(key, value) =>
+            key === "familyId"
+              ? households.find((h) => h.id === value)?.name || String(value ?? "")
+              : String(value ?? "")
+          }
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
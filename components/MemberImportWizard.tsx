@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { Upload, X, Loader2, FileSpreadsheet, Download, CheckCircle2, AlertCircle, ArrowLeft } from 'lucide-react';
+import { MemberImportPreview, MemberImportResult, MemberImportRow, ImportAction } from '../types';
+import {
+  previewMemberImport,
+  commitMemberImport,
+  MemberImportField,
+  ImportResolution,
+} from '../src/lib/api';
+import { downloadCsv } from '../src/lib/utils';
+
+interface MemberImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const FIELDS: { key: MemberImportField; label: string; required?: boolean }[] = [
+  { key: 'firstName', label: 'First Name', required: true },
+  { key: 'lastName', label: 'Last Name', required: true },
+  { key: 'email', label: 'Email' },
+  { key: 'telephone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zip', label: 'Zip' },
+  { key: 'joinedAt', label: 'Joined' },
+  { key: 'id', label: 'Member ID (updates)' },
+];
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-emerald-50 text-emerald-700',
+  update: 'bg-indigo-50 text-indigo-700',
+  duplicate: 'bg-amber-50 text-amber-700',
+  error: 'bg-rose-50 text-rose-700',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const MemberImportWizard: React.FC<MemberImportWizardProps> = ({ onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<MemberImportField, string>>>({});
+  const [preview, setPreview] = useState<MemberImportPreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, ImportResolution>>({});
+  const [result, setResult] = useState<MemberImportResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const showError = (error: any) => {
+    setErrors(error.details && error.details.length > 0 ? error.details : [error.message]);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+      setCsv(text);
+      // Let the server suggest a mapping from the headers
+      const data = await previewMemberImport({ csv: text });
+      setHeaders(data.headers);
+      setMapping(data.mapping);
+    } catch (error: any) {
+      if (error.headers) {
+        setHeaders(error.headers);
+        setMapping(error.suggestedMapping || {});
+      } else {
+        showError(error);
+        return;
+      }
+    } finally {
+      setIsWorking(false);
+    }
+    setStep('mapping');
+  };
+
+  const handlePreview = async () => {
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      const data = await previewMemberImport({ csv, mapping });
+      setPreview(data);
+      setResolutions({});
+      setStep('preview');
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    setErrors([]);
+    setIsWorking(true);
+    try {
+      const data = await commitMemberImport({ csv, mapping, resolutions });
+      setResult(data);
+      setStep('done');
+      onImported();
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrorReport = (rows: MemberImportRow[]) => {
+    const rejected = rows.filter(row => row.action === 'error');
+    downloadCsv(
+      `${fileName.replace(/\.csv$/i, '') || 'members'}_errors.csv`,
+      [
+        ['Line', ...headers, 'Errors'],
+        ...rejected.map(row => [
+          row.line,
+          ...headers.map(h => row.record?.[h] ?? ''),
+          row.errors.map(e => e.split(': ').slice(1).join(': ') || e).join('; '),
+        ]),
+      ]
+    );
+  };
+
+  const describeRow = (row: MemberImportRow) => {
+    if (row.action === 'error') return row.errors.map(e => e.split(': ').slice(1).join(': ') || e).join(' ');
+    if (row.action === 'update') return 'Updates existing member by ID';
+    if (row.match?.memberId) return `Matches ${row.match.name} (${row.match.matchedOn})`;
+    if (row.match?.line) return `Repeats line ${row.match.line} (${row.match.matchedOn})`;
+    return '';
+  };
+
+  const committedCount = preview
+    ? preview.rows.filter(row => {
+        if (row.action === 'create' || row.action === 'update') return true;
+        if (row.action !== 'duplicate') return false;
+        const choice = resolutions[row.line];
+        return choice === 'create' || (choice === 'update' && !!row.match?.memberId);
+      }).length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <FileSpreadsheet size={22} />
+            Import Members
+            {fileName && <span className="text-indigo-200 text-sm font-normal ml-2">{fileName}</span>}
+          </h2>
+          <button onClick={onClose} className="hover:opacity-75 transition-opacity">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {errors.length > 0 && (
+            <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <ul className="space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 p-12 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-indigo-300 hover:bg-indigo-50/30 transition-all">
+              {isWorking ? <Loader2 size={32} className="animate-spin text-indigo-600" /> : <Upload size={32} className="text-indigo-600" />}
+              <span className="font-bold text-slate-800">Choose a CSV file</span>
+              <span className="text-sm text-slate-500 text-center max-w-md">
+                The first row must contain column headers. You'll map the columns and review every row before anything is saved.
+              </span>
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={isWorking} />
+            </label>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              <p className="text-sm text-slate-500">
+                Match each member field to a column in your file. Rows that include an existing Member ID update that member instead of creating a new one.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className={labelClass}>
+                      {field.label}{field.required && ' *'}
+                    </label>
+                    <select
+                      className={inputClass}
+                      value={mapping[field.key] || ''}
+                      onChange={e => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+                    >
+                      <option value="">— Don't import —</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && preview && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['create', 'update', 'duplicate', 'error'] as ImportAction[]).map(action => (
+                  <div key={action} className={`p-4 rounded-xl ${ACTION_STYLES[action]}`}>
+                    <div className="text-xs font-bold uppercase tracking-wider">
+                      {action === 'error' ? 'Rejected' : action === 'duplicate' ? 'Likely Duplicates' : `${action}s`}
+                    </div>
+                    <div className="text-2xl font-extrabold">{preview.summary[action]}</div>
+                  </div>
+                ))}
+              </div>
+
+              {preview.summary.duplicate > 0 && (
+                <p className="text-sm text-slate-500">
+                  Likely duplicates share a name and email or phone with an existing member or an earlier row. They are skipped unless you choose otherwise.
+                </p>
+              )}
+
+              <div className="border border-slate-100 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Line</th>
+                      <th className="px-4 py-2 text-left">Name</th>
+                      <th className="px-4 py-2 text-left">Contact</th>
+                      <th className="px-4 py-2 text-left">Result</th>
+                      <th className="px-4 py-2 text-left">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.rows.map(row => (
+                      <tr key={row.line}>
+                        <td className="px-4 py-2 text-slate-400">{row.line}</td>
+                        <td className="px-4 py-2 font-medium text-slate-900">
+                          {[row.member.firstName, row.member.lastName].filter(Boolean).join(' ') || '—'}
+                        </td>
+                        <td className="px-4 py-2 text-slate-500">{row.member.email || row.member.telephone || '—'}</td>
+                        <td className="px-4 py-2">
+                          {row.action === 'duplicate' ? (
+                            <select
+                              className="px-2 py-1 border border-amber-200 bg-amber-50 text-amber-800 rounded-lg text-xs font-bold"
+                              value={resolutions[row.line] || 'skip'}
+                              onChange={e => setResolutions({ ...resolutions, [row.line]: e.target.value as ImportResolution })}
+                            >
+                              <option value="skip">Skip</option>
+                              {row.match?.memberId && <option value="update">Update match</option>}
+                              <option value="create">Create anyway</option>
+                            </select>
+                          ) : (
+                            <span className={`px-2 py-1 rounded-lg text-xs font-bold capitalize ${ACTION_STYLES[row.action]}`}>
+                              {row.action === 'error' ? 'Rejected' : row.action}
+                            </span>
+                          )}
+                        </td>
+                        <td className={`px-4 py-2 text-xs ${row.action === 'error' ? 'text-rose-600' : 'text-slate-500'}`}>
+                          {describeRow(row)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="text-center space-y-4 py-6">
+              <CheckCircle2 size={48} className="mx-auto text-emerald-500" />
+              <h3 className="text-xl font-bold text-slate-900">Import Complete</h3>
+              <p className="text-slate-500">
+                {result.summary.created} created, {result.summary.updated} updated, {result.summary.skipped} skipped, {result.summary.rejected} rejected.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-between items-center gap-3">
+          <div>
+            {step === 'mapping' && (
+              <button
+                onClick={() => setStep('upload')}
+                className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg font-medium"
+              >
+                <ArrowLeft size={16} /> Choose Another File
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={() => setStep('mapping')}
+                className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg font-medium"
+              >
+                <ArrowLeft size={16} /> Edit Mapping
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            {((step === 'preview' && preview && preview.summary.error > 0) ||
+              (step === 'done' && result && result.summary.rejected > 0)) && (
+              <button
+                onClick={() => downloadErrorReport(step === 'done' && result ? result.rejected : preview!.rows)}
+                className="flex items-center gap-2 px-4 py-2 bg-rose-50 text-rose-700 border border-rose-100 rounded-lg font-bold hover:bg-rose-100"
+              >
+                <Download size={16} /> Error Report
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                onClick={handlePreview}
+                disabled={isWorking || !mapping.firstName || !mapping.lastName}
+                className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isWorking && <Loader2 size={16} className="animate-spin" />}
+                Preview Import
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleCommit}
+                disabled={isWorking || committedCount === 0}
+                className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isWorking && <Loader2 size={16} className="animate-spin" />}
+                Import {committedCount} {committedCount === 1 ? 'Member' : 'Members'}
+              </button>
+            )}
+            {step === 'done' && (
+              <button
+                onClick={onClose}
+                className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemberImportWizard;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, GitMerge, ArrowLeft, CheckCircle2, AlertCircle, ArrowLeftRight } from 'lucide-react';
+import { DuplicateMember, MemberDuplicateCandidate, MergeFieldChoice, MemberMergeResult } from '../types';
+import { fetchMemberDuplicates, mergeMembers } from '../src/lib/api';
+import { formatPhoneNumber } from '../src/lib/utils';
+
+interface MemberMergeToolProps {
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+type MergeField = 'firstName' | 'lastName' | 'email' | 'telephone' | 'address' | 'city' | 'state' | 'zip' | 'familyId' | 'joinedAt';
+
+const FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'telephone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zip', label: 'Zip' },
+  { key: 'familyId', label: 'Household' },
+  { key: 'joinedAt', label: 'Joined' },
+];
+
+const REASON_LABELS: Record<string, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+};
+
+const displayValue = (member: DuplicateMember, field: MergeField) => {
+  const value = member[field];
+  if (!value) return '';
+  if (field === 'telephone') return formatPhoneNumber(value);
+  if (field === 'joinedAt') return new Date(value).toLocaleDateString();
+  return value;
+};
+
+const scoreStyle = (score: number) =>
+  score >= 80 ? 'bg-rose-50 text-rose-700' : score >= 65 ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-600';
+
+const MemberMergeTool: React.FC<MemberMergeToolProps> = ({ onClose, onMerged }) => {
+  const [candidates, setCandidates] = useState<MemberDuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<MemberDuplicateCandidate | null>(null);
+  // Index into selected.members of the record that is kept
+  const [survivorIndex, setSurvivorIndex] = useState(0);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeFieldChoice>>>({});
+  const [isMerging, setIsMerging] = useState(false);
+  const [result, setResult] = useState<MemberMergeResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCandidates = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchMemberDuplicates();
+      setCandidates(response.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCandidates();
+  }, []);
+
+  const openPair = (candidate: MemberDuplicateCandidate) => {
+    // Keep the record with more giving history by default
+    const [a, b] = candidate.members;
+    setSurvivorIndex(b.donationCount > a.donationCount ? 1 : 0);
+    setChoices({});
+    setResult(null);
+    setError(null);
+    setSelected(candidate);
+  };
+
+  if (!selected) {
+    return renderShell(
+      <>
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+        {loading ? (
+          <div className="py-16 text-center"><Loader2 className="mx-auto animate-spin text-slate-400" /></div>
+        ) : candidates.length === 0 ? (
+          <div className="py-16 text-center text-slate-500">
+            <CheckCircle2 className="mx-auto mb-2 text-emerald-500" size={32} />
+            No likely duplicates found.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-500">
+              Records with similar names that also share an email, phone or address rank highest. Review each pair before merging.
+            </p>
+            {candidates.map(candidate => (
+              <button
+                key={candidate.members.map(m => m.id).join('|')}
+                onClick={() => openPair(candidate)}
+                className="w-full flex items-center justify-between gap-4 p-4 border border-slate-100 rounded-xl hover:bg-slate-50 text-left transition-all"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {candidate.members.map((m, i) => (
+                    <React.Fragment key={m.id}>
+                      {i > 0 && <ArrowLeftRight size={14} className="text-slate-300 shrink-0" />}
+                      <div className="min-w-0">
+                        <div className="font-bold text-slate-900 truncate">{m.firstName} {m.lastName}</div>
+                        <div className="text-xs text-slate-500 truncate">{m.email || formatPhoneNumber(m.telephone) || `ID: ${m.id}`}</div>
+                      </div>
+                    </React.Fragment>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-xs text-slate-400">
+                    {candidate.reasons.map(r => REASON_LABELS[r]).join(' · ')}
+                  </span>
+                  <span className={`px-2 py-1 rounded-lg text-xs font-bold ${scoreStyle(candidate.score)}`}>
+                    {candidate.score}%
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  const survivor = selected.members[survivorIndex];
+  const duplicate = selected.members[1 - survivorIndex];
+
+  // Value the merged record will have, mirroring the server's defaults
+  const chosenSide = (field: MergeField): MergeFieldChoice => {
+    if (choices[field]) return choices[field]!;
+    if (!survivor[field] && duplicate[field]) return 'duplicate';
+    if (field === 'joinedAt' && survivor.joinedAt && duplicate.joinedAt) {
+      return new Date(duplicate.joinedAt) < new Date(survivor.joinedAt) ? 'duplicate' : 'survivor';
+    }
+    return 'survivor';
+  };
+
+  const handleMerge = async () => {
+    if (!window.confirm(
+      `Merge ${duplicate.firstName} ${duplicate.lastName} into ${survivor.firstName} ${survivor.lastName}? ` +
+      `The duplicate record will be deleted and its giving history moved. This cannot be undone.`
+    )) return;
+
+    setError(null);
+    setIsMerging(true);
+    try {
+      const fields: Record<string, MergeFieldChoice> = {};
+      FIELDS.forEach(f => { fields[f.key] = chosenSide(f.key); });
+      const merged = await mergeMembers({ survivorId: survivor.id, duplicateId: duplicate.id, fields });
+      setResult(merged);
+      onMerged();
+      setCandidates(candidates.filter(c => !c.members.some(m => m.id === duplicate.id)));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const columnHeader = (member: DuplicateMember, index: number) => (
+    <th key={member.id} className="px-4 py-3 text-left align-top">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="survivor"
+          className="mt-1"
+          checked={survivorIndex === index}
+          onChange={() => {
+            setSurvivorIndex(index);
+            setChoices({});
+          }}
+          disabled={!!result}
+        />
+        <div>
+          <div className="text-sm font-bold text-slate-900 normal-case tracking-normal">
+            {survivorIndex === index ? 'Keep this record' : 'Merge into the other'}
+          </div>
+          <div className="text-xs font-normal text-slate-500 normal-case tracking-normal">
+            ID {member.id} · {member.donationCount} gifts (${member.donationTotal.toFixed(2)})
+          </div>
+        </div>
+      </label>
+    </th>
+  );
+
+  return renderShell(
+    <>
+      <button
+        onClick={() => setSelected(null)}
+        className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+      >
+        <ArrowLeft size={16} /> All possible duplicates
+      </button>
+
+      {error && (
+        <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+          <AlertCircle size={18} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {result ? (
+        <div className="p-6 bg-emerald-50 border border-emerald-100 rounded-xl text-emerald-800 space-y-2">
+          <div className="font-bold flex items-center gap-2">
+            <CheckCircle2 size={18} /> Records merged
+          </div>
+          <p className="text-sm">
+            Moved {result.moved.donations} donations and {result.moved.pledges} pledges
+            {result.moved.users > 0 && `, and re-linked ${result.moved.users} login${result.moved.users === 1 ? '' : 's'}`}.
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-slate-500">
+            Choose the record to keep, then pick which value each field should keep. Donations, pledges, skills and any linked login move to the kept record.
+          </p>
+          <div className="border border-slate-100 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left w-32">Field</th>
+                  {selected.members.map(columnHeader)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {FIELDS.map(field => (
+                  <tr key={field.key}>
+                    <td className="px-4 py-2 text-xs font-bold text-slate-500 uppercase tracking-wider">{field.label}</td>
+                    {selected.members.map((member, index) => {
+                      const side: MergeFieldChoice = index === survivorIndex ? 'survivor' : 'duplicate';
+                      const value = displayValue(member, field.key);
+                      const isChosen = chosenSide(field.key) === side;
+                      return (
+                        <td key={member.id} className="px-4 py-2">
+                          <label className={`flex items-center gap-2 px-2 py-1 rounded-lg cursor-pointer ${isChosen ? 'bg-indigo-50 text-indigo-900 font-medium' : 'text-slate-500'}`}>
+                            <input
+                              type="radio"
+                              name={`field-${field.key}`}
+                              checked={isChosen}
+                              onChange={() => setChoices({ ...choices, [field.key]: side })}
+                            />
+                            {value || <span className="italic text-slate-300">blank</span>}
+                          </label>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </>,
+    !result && (
+      <button
+        onClick={handleMerge}
+        disabled={isMerging}
+        className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {isMerging ? <Loader2 size={16} className="animate-spin" /> : <GitMerge size={16} />}
+        Merge Records
+      </button>
+    )
+  );
+
+  function renderShell(body: React.ReactNode, footer?: React.ReactNode) {
+    return (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+          <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <GitMerge size={22} />
+              Duplicate Members
+            </h2>
+            <button onClick={onClose} className="hover:opacity-75 transition-opacity">
+              <X size={24} />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">{body}</div>
+          {footer && <div className="p-6 border-t border-slate-100 flex justify-end">{footer}</div>}
+        </div>
+      </div>
+    );
+  }
+};
+
+export default MemberMergeTool;
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { Download, X, Calendar, DollarSign, User, FileText, RefreshCw, Sparkles } from 'lucide-react';
+import { Download, X, Calendar, DollarSign, User, FileText, RefreshCw, Sparkles, Mail } from 'lucide-react';
 import * as api from '../src/lib/api';
 import { graceAIService } from '../src/lib/GraceAIService';
 
@@ -14,6 +14,7 @@ interface StatementData {
     id: string;
     firstName: string;
     lastName: string;
+    displayName?: string;
     address: string;
     city: string;
     state: string;
@@ -25,9 +26,19 @@ interface StatementData {
     amount: number;
     fund: string;
     notes: string;
+    memberName?: string;
+    goodsServicesProvided?: boolean;
+    goodsServicesDescription?: string | null;
+    deductibleAmount?: number;
   }[];
+  household?: {
+    id: string;
+    name: string;
+  };
   summary: {
     totalAmount: number;
+    goodsServicesValue?: number;
+    deductibleAmount?: number;
     year: number;
   };
 }
@@ -39,6 +50,8 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
   const [loadingNarrative, setLoadingNarrative] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [year, setYear] = useState(new Date().getFullYear().toString());
+  const [combineHousehold, setCombineHousehold] = useState(false);
+  const [emailing, setEmailing] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -51,7 +64,7 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
         await graceAIService.reset();
         await graceAIService.initialize();
 
-        const result = await api.fetchMemberStatement(memberId, year);
+        const result = await api.fetchMemberStatement(memberId, year, combineHousehold);
         if (cancelled) return;
         setData(result);
 
@@ -74,7 +87,7 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
       cancelled = true;
       controller.abort();
     };
-  }, [memberId, year]);
+  }, [memberId, year, combineHousehold]);
 
   const fetchNarrative = async (signal?: AbortSignal) => {
     setLoadingNarrative(true);
@@ -94,11 +107,11 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
 
   const handleDownload = async () => {
     try {
-      const blob = await api.downloadMemberStatement(memberId, year);
+      const blob = await api.downloadMemberStatement(memberId, year, combineHousehold);
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.setAttribute('download', `statement-${year}-${data?.member.lastName}.pdf`);
+      link.setAttribute('download', `statement-${year}-${data?.household?.name || data?.member.lastName}.pdf`);
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -108,6 +121,32 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
     }
   };
 
+  const handleEmail = async () => {
+    setEmailing(true);
+    try {
+      let message;
+      try {
+        message = await api.emailMemberStatement(memberId, year, combineHousehold);
+      } catch (err: any) {
+        // No address on file: ask for one and send there
+        if (err.message !== 'VALIDATION_FAILED') throw err;
+        const to = prompt('This member has no email address on file. Send the statement to:');
+        if (!to || !to.trim()) return;
+        message = await api.emailMemberStatement(memberId, year, combineHousehold, to.trim());
+      }
+      if (message.status === 'sent') {
+        alert(`Statement sent to ${message.recipientEmail}.`);
+      } else {
+        alert(`The statement could not be sent: ${message.lastError || 'unknown error'}. It can be retried from the email log in Reports.`);
+      }
+    } catch (err: any) {
+      console.error('Email failed', err);
+      alert(err.message === 'VALIDATION_FAILED' ? 'Please enter a valid email address.' : 'Failed to email statement');
+    } finally {
+      setEmailing(false);
+    }
+  };
+
   if (loading && !data) return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[70] backdrop-blur-sm">
       <div className="bg-white p-8 rounded-xl shadow-xl">
@@ -131,8 +170,17 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
             <div className="flex items-center gap-4 mt-2">
               <div className="flex items-center gap-2 text-slate-500 text-sm">
                 <User size={14} />
-                {data ? `${data.member.firstName} ${data.member.lastName}` : 'Loading...'}
+                {data ? data.member.displayName || `${data.member.firstName} ${data.member.lastName}` : 'Loading...'}
               </div>
+              <label className="flex items-center gap-2 text-sm font-bold text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={combineHousehold}
+                  onChange={(e) => setCombineHousehold(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Combine Household
+              </label>
               <div className="flex items-center gap-2">
                 <label htmlFor="year-select" className="text-sm font-bold text-slate-600">Tax Year:</label>
                 <select
@@ -171,6 +219,11 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
                     <div className="text-4xl font-extrabold">
                       ${data.summary.totalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                     </div>
+                    {!!data.summary.goodsServicesValue && (
+                      <div className="text-indigo-100 text-sm mt-1">
+                        Deductible: ${(data.summary.deductibleAmount ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
                     <div className="text-indigo-100 text-sm font-medium uppercase tracking-wide mb-1">Tax Year</div>
@@ -226,6 +279,7 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
                     <thead className="bg-slate-50 text-slate-500 font-bold border-b border-slate-100">
                       <tr>
                         <th className="px-4 py-3">Date</th>
+                        {data.household && <th className="px-4 py-3">Donor</th>}
                         <th className="px-4 py-3">Fund</th>
                         <th className="px-4 py-3">Notes</th>
                         <th className="px-4 py-3 text-right">Amount</th>
@@ -234,20 +288,28 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
                     <tbody className="divide-y divide-slate-50">
                       {data.donations.length === 0 ? (
                         <tr>
-                          <td colSpan={4} className="px-4 py-8 text-center text-slate-400">No donations found for this year.</td>
+                          <td colSpan={data.household ? 5 : 4} className="px-4 py-8 text-center text-slate-400">No donations found for this year.</td>
                         </tr>
                       ) : (
                         data.donations.map((d) => (
                           <tr key={d.id} className="hover:bg-slate-50/50">
                             <td className="px-4 py-3 text-slate-700">{new Date(d.date).toLocaleDateString()}</td>
+                            {data.household && <td className="px-4 py-3 text-slate-600">{d.memberName}</td>}
                             <td className="px-4 py-3 text-slate-600">
                               <span className="px-2 py-1 bg-slate-100 rounded text-xs font-medium text-slate-600">
                                 {d.fund}
                               </span>
                             </td>
-                            <td className="px-4 py-3 text-slate-500 italic max-w-xs truncate">{d.notes}</td>
+                            <td className="px-4 py-3 text-slate-500 italic max-w-xs truncate">
+                              {d.goodsServicesProvided ? `Received: ${d.goodsServicesDescription}` : d.notes}
+                            </td>
                             <td className="px-4 py-3 text-right font-medium text-slate-900">
                               ${d.amount.toFixed(2)}
+                              {d.goodsServicesProvided && d.deductibleAmount !== undefined && (
+                                <div className="text-xs font-normal text-slate-400">
+                                  ${d.deductibleAmount.toFixed(2)} deductible
+                                </div>
+                              )}
                             </td>
                           </tr>
                         ))
@@ -268,6 +330,14 @@ const MemberStatementModal: React.FC<MemberStatementModalProps> = ({ memberId, o
           >
             Close
           </button>
+          <button
+            onClick={handleEmail}
+            disabled={!data || loading || emailing}
+            className="px-5 py-2.5 bg-white border border-indigo-200 text-indigo-700 font-bold rounded-xl hover:bg-indigo-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {emailing ? <RefreshCw size={18} className="animate-spin" /> : <Mail size={18} />}
+            Email Statement
+          </button>
           <button
             onClick={handleDownload}
             disabled={!data || loading}
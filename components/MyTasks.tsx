@@ -0,0 +1,535 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Plus, Search, X, Loader2, Send, Trash2, AlertCircle, Save } from 'lucide-react';
+import { Member, FollowUpTask, TaskAssignee, TaskOrigin, TaskStatus, TASK_ORIGINS, TASK_STATUSES } from '../types';
+import { fetchTasks, getTask, createTask, updateTask, deleteTask, addTaskNote, fetchTaskAssignees, fetchMembers } from '../src/lib/api';
+import { useSocket } from '../src/contexts/SocketContext';
+
+type TaskScope = 'mine' | 'unassigned' | 'all';
+
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  open: 'bg-indigo-100 text-indigo-700',
+  in_progress: 'bg-amber-100 text-amber-700',
+  done: 'bg-emerald-100 text-emerald-700',
+  cancelled: 'bg-slate-100 text-slate-500',
+};
+
+const ORIGIN_STYLES: Record<TaskOrigin, string> = {
+  manual: 'bg-slate-100 text-slate-600',
+  at_risk: 'bg-rose-100 text-rose-700',
+  new_member: 'bg-sky-100 text-sky-700',
+  new_donor: 'bg-emerald-100 text-emerald-700',
+  missing_email: 'bg-amber-100 text-amber-700',
+};
+
+const statusLabel = (status: TaskStatus) => TASK_STATUSES.find(s => s.value === status)?.label;
+const originLabel = (origin: TaskOrigin) => TASK_ORIGINS.find(o => o.value === origin)?.label;
+
+const emptyForm = {
+  title: '',
+  description: '',
+  dueDate: '',
+  assignedTo: '',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+interface MyTasksProps {
+  currentUserId: number | null;
+  canCreate: boolean;
+  canDelete: boolean;
+}
+
+const MyTasks: React.FC<MyTasksProps> = ({ currentUserId, canCreate, canDelete }) => {
+  const [tasks, setTasks] = useState<FollowUpTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [scope, setScope] = useState<TaskScope>('mine');
+  const [statusFilter, setStatusFilter] = useState<TaskStatus | 'active' | ''>('active');
+  const [originFilter, setOriginFilter] = useState<TaskOrigin | ''>('');
+  const [assignees, setAssignees] = useState<TaskAssignee[]>([]);
+
+  const [selected, setSelected] = useState<FollowUpTask | null>(null);
+  const [edit, setEdit] = useState({ status: 'open' as TaskStatus, assignedTo: '', dueDate: '' });
+  const [noteText, setNoteText] = useState('');
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [isSavingDetail, setIsSavingDetail] = useState(false);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [memberResults, setMemberResults] = useState<Member[]>([]);
+  const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { socket } = useSocket();
+
+  const loadTasks = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchTasks(page, 15, {
+        assignedTo: scope === 'mine' ? 'me' : undefined,
+        unassigned: scope === 'unassigned',
+        status: statusFilter || undefined,
+        origin: originFilter || undefined,
+      });
+      setTasks(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTask = async (id: string) => {
+    try {
+      const task = await getTask(id);
+      setSelected(task);
+      setEdit({
+        status: task.status,
+        assignedTo: task.assignedTo !== null ? String(task.assignedTo) : '',
+        dueDate: task.dueDate || '',
+      });
+      setDetailError(null);
+    } catch (error) {
+      console.error('Failed to load task:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadTasks();
+  }, [page, scope, statusFilter, originFilter]);
+
+  useEffect(() => {
+    fetchTaskAssignees().then(setAssignees).catch(error => console.error('Failed to load assignees:', error));
+  }, []);
+
+  // Tasks are assigned and discussed by other staff too
+  useEffect(() => {
+    if (!socket) return;
+    const handleUpdate = (event: { type: string; id?: string; data?: { id?: string; taskId?: string } }) => {
+      loadTasks();
+      const taskId = event.type === 'NOTE' ? event.id : event.data?.id;
+      if (selected && taskId === selected.id) {
+        openTask(selected.id);
+      }
+      if (selected && event.type === 'DELETE' && event.id === selected.id) {
+        setSelected(null);
+      }
+    };
+    socket.on('task:update', handleUpdate);
+    return () => {
+      socket.off('task:update', handleUpdate);
+    };
+  }, [socket, page, scope, statusFilter, originFilter, selected]);
+
+  useEffect(() => {
+    if (!memberSearch.trim() || selectedMember) {
+      setMemberResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchMembers(1, 8, memberSearch);
+        setMemberResults(result.data);
+      } catch (error) {
+        console.error('Failed to search members:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [memberSearch, selectedMember]);
+
+  const openModal = () => {
+    setForm({ ...emptyForm, assignedTo: currentUserId !== null ? String(currentUserId) : '' });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setForm(emptyForm);
+    setSelectedMember(null);
+    setMemberSearch('');
+    setFormError(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMember) {
+      setFormError('Select the member to follow up with.');
+      return;
+    }
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await createTask({
+        memberId: selectedMember.id,
+        title: form.title,
+        description: form.description || null,
+        dueDate: form.dueDate || null,
+        assignedTo: form.assignedTo ? Number(form.assignedTo) : null,
+      });
+      closeModal();
+      loadTasks();
+    } catch (error: any) {
+      console.error('Failed to create task:', error);
+      setFormError(error.message === 'VALIDATION_FAILED'
+        ? 'Check the task details. A title is required.'
+        : 'Failed to save task.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDetail = async () => {
+    if (!selected) return;
+    setIsSavingDetail(true);
+    setDetailError(null);
+    try {
+      await updateTask(selected.id, {
+        status: edit.status,
+        assignedTo: edit.assignedTo ? Number(edit.assignedTo) : null,
+        dueDate: edit.dueDate || null,
+      });
+      await openTask(selected.id);
+      loadTasks();
+    } catch (error: any) {
+      console.error('Failed to update task:', error);
+      setDetailError(error.message === 'TASK_EXISTS'
+        ? 'This member already has an open task for the same reason.'
+        : 'Failed to update task.');
+    } finally {
+      setIsSavingDetail(false);
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !noteText.trim()) return;
+    try {
+      await addTaskNote(selected.id, noteText.trim());
+      setNoteText('');
+      await openTask(selected.id);
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      setDetailError('Failed to add note.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete the task "${selected.title}"?`)) return;
+    try {
+      await deleteTask(selected.id);
+      setSelected(null);
+      loadTasks();
+    } catch (error) {
+      console.error('Failed to delete task:', error);
+      alert('Failed to delete task');
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">My Tasks</h1>
+          <p className="text-slate-500 mt-1">Pastoral follow-ups for new members, first-time donors, at-risk givers and missing contact details.</p>
+        </div>
+        {canCreate && (
+          <button
+            onClick={openModal}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium text-sm"
+          >
+            <Plus size={16} />
+            New Task
+          </button>
+        )}
+      </header>
+
+      <section className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {([['mine', 'Assigned to Me'], ['unassigned', 'Unassigned'], ['all', 'All Tasks']] as [TaskScope, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => { setScope(value); setPage(1); }}
+                className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${scope === value ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={originFilter}
+              onChange={e => { setOriginFilter(e.target.value as TaskOrigin | ''); setPage(1); }}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">All Reasons</option>
+              {TASK_ORIGINS.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={e => { setStatusFilter(e.target.value as TaskStatus | 'active' | ''); setPage(1); }}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="active">Open & In Progress</option>
+              {TASK_STATUSES.map(s => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+              <option value="">All Statuses</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50/50">
+              <tr>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Task</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Member</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Reason</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Assignee</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Due</th>
+                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center">
+                    <Loader2 className="animate-spin text-indigo-500 mx-auto" size={24} />
+                  </td>
+                </tr>
+              ) : tasks.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-10 text-center text-slate-400 italic">No tasks.</td>
+                </tr>
+              ) : tasks.map(task => (
+                <tr key={task.id} onClick={() => openTask(task.id)} className="hover:bg-slate-50/50 transition-colors cursor-pointer">
+                  <td className="px-6 py-4">
+                    <div className="font-bold text-slate-800">{task.title}</div>
+                    {task.noteCount > 0 && (
+                      <div className="text-xs text-slate-400">{task.noteCount} note{task.noteCount === 1 ? '' : 's'}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-slate-700">{task.memberName}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${ORIGIN_STYLES[task.origin]}`}>
+                      {originLabel(task.origin)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">{task.assignedToName || <span className="text-slate-400 italic">Unassigned</span>}</td>
+                  <td className={`px-6 py-4 text-sm ${task.overdue ? 'text-rose-600 font-bold' : 'text-slate-600'}`}>
+                    {task.dueDate || '—'}
+                    {task.overdue && <div className="text-[10px] uppercase tracking-wider">Overdue</div>}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[task.status]}`}>
+                      {statusLabel(task.status)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="p-4 border-t border-slate-50 flex justify-between items-center text-sm">
+            <button disabled={page === 1} onClick={() => setPage(p => p - 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Previous</button>
+            <span className="text-slate-500">Page {page} of {totalPages}</span>
+            <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Next</button>
+          </div>
+        )}
+      </section>
+
+      {selected && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-indigo-900 text-white flex justify-between items-start gap-4">
+              <div>
+                <h2 className="text-xl font-bold">{selected.title}</h2>
+                <p className="text-indigo-200 text-sm mt-1">
+                  {selected.memberName} · {originLabel(selected.origin)} · created {new Date(selected.createdAt).toLocaleDateString()}
+                  {selected.createdBy ? ` by ${selected.createdBy}` : ' automatically'}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <div className="p-6 space-y-5 overflow-y-auto">
+              {detailError && (
+                <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm flex items-center gap-2">
+                  <AlertCircle size={16} />
+                  {detailError}
+                </div>
+              )}
+              {selected.description && (
+                <p className="text-sm text-slate-600 whitespace-pre-line">{selected.description}</p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className={labelClass}>Status</label>
+                  <select className={inputClass} value={edit.status} onChange={e => setEdit({ ...edit, status: e.target.value as TaskStatus })}>
+                    {TASK_STATUSES.map(s => (
+                      <option key={s.value} value={s.value}>{s.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Assignee</label>
+                  <select className={inputClass} value={edit.assignedTo} onChange={e => setEdit({ ...edit, assignedTo: e.target.value })}>
+                    <option value="">Unassigned</option>
+                    {assignees.map(a => (
+                      <option key={a.id} value={a.id}>{a.username}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Due Date</label>
+                  <input type="date" className={inputClass} value={edit.dueDate} onChange={e => setEdit({ ...edit, dueDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex justify-between">
+                {canDelete ? (
+                  <button onClick={handleDelete} className="flex items-center gap-2 px-4 py-2 text-rose-600 hover:bg-rose-50 rounded-xl text-sm font-bold transition-colors">
+                    <Trash2 size={16} />
+                    Delete
+                  </button>
+                ) : <span />}
+                <button
+                  onClick={handleSaveDetail}
+                  disabled={isSavingDetail}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 text-sm font-bold transition-all disabled:opacity-50"
+                >
+                  {isSavingDetail ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Save Changes
+                </button>
+              </div>
+
+              <div className="border-t border-slate-100 pt-5">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Notes</h3>
+                <div className="space-y-3">
+                  {(selected.notes || []).length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">No notes yet.</p>
+                  ) : selected.notes!.map(note => (
+                    <div key={note.id} className="p-3 bg-slate-50 rounded-xl">
+                      <p className="text-sm text-slate-700 whitespace-pre-line">{note.body}</p>
+                      <p className="text-xs text-slate-400 mt-1">{note.author || 'Unknown'} · {new Date(note.createdAt).toLocaleString()}</p>
+                    </div>
+                  ))}
+                </div>
+                <form onSubmit={handleAddNote} className="mt-3 flex gap-2">
+                  <input
+                    type="text"
+                    maxLength={2000}
+                    placeholder="Add a note..."
+                    className={inputClass}
+                    value={noteText}
+                    onChange={e => setNoteText(e.target.value)}
+                  />
+                  <button type="submit" disabled={!noteText.trim()} className="px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40">
+                    <Send size={16} />
+                  </button>
+                </form>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-indigo-900 text-white flex justify-between items-center">
+              <h2 className="text-xl font-bold">New Follow-Up Task</h2>
+              <button onClick={closeModal} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreate} className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm">{formError}</div>
+              )}
+              <div className="relative">
+                <label className={labelClass}>Member</label>
+                {selectedMember ? (
+                  <div className="flex items-center justify-between px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-lg">
+                    <span className="font-bold text-indigo-800">{selectedMember.firstName} {selectedMember.lastName}</span>
+                    <button type="button" onClick={() => { setSelectedMember(null); setMemberSearch(''); }} className="text-indigo-700 hover:opacity-75">
+                      <X size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="relative">
+                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input
+                      type="text"
+                      placeholder="Search by name..."
+                      className={`${inputClass} pl-9`}
+                      value={memberSearch}
+                      onChange={e => setMemberSearch(e.target.value)}
+                    />
+                  </div>
+                )}
+                {memberResults.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                    {memberResults.map(member => (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => setSelectedMember(member)}
+                        className="w-full text-left px-4 py-2 hover:bg-indigo-50 text-sm text-slate-700"
+                      >
+                        {member.firstName} {member.lastName}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className={labelClass}>Title</label>
+                <input required type="text" maxLength={200} placeholder="e.g. Visit after surgery" className={inputClass} value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Details</label>
+                <textarea rows={3} maxLength={2000} placeholder="Optional details..." className={inputClass} value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Assignee</label>
+                  <select className={inputClass} value={form.assignedTo} onChange={e => setForm({ ...form, assignedTo: e.target.value })}>
+                    <option value="">Unassigned</option>
+                    {assignees.map(a => (
+                      <option key={a.id} value={a.id}>{a.username}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Due Date</label>
+                  <input type="date" className={inputClass} value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="pt-4 flex gap-3">
+                <button type="button" onClick={closeModal} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                  {isSaving ? <Loader2 size={18} className="animate-spin" /> : <ClipboardList size={18} />}
+                  Create Task
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyTasks;
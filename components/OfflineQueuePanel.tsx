@@ -0,0 +1,102 @@
+import React from 'react';
+import { WifiOff, RefreshCw, CloudUpload, AlertCircle, Trash2 } from 'lucide-react';
+import { QueuedDonation } from '../types';
+import { useOfflineQueue } from '../src/hooks/useOfflineQueue';
+
+interface OfflineQueuePanelProps {
+  queue: ReturnType<typeof useOfflineQueue>;
+}
+
+const errorMessage = (entry: QueuedDonation) => {
+  switch (entry.lastError) {
+    case 'DUPLICATE_CHECK_NUMBER': return `Check #${entry.payload.checkNumber} has already been recorded for this member.`;
+    case 'BATCH_LOCKED': return 'Its deposit batch was closed before the gift synced.';
+    case 'VALIDATION_FAILED': return 'The server did not accept the gift details.';
+    case 'SERVER_ERROR': return 'The server failed each time it tried to record the gift.';
+    default: return `The server refused the gift (${entry.lastError}).`;
+  }
+};
+
+/**
+ * Connection status and the gifts saved on this device that have not
+ * reached the server yet, with retry/discard for any it refused.
+ */
+const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({ queue }) => {
+  const { online, queued, syncing, retry, discard, sync } = queue;
+  if (online && queued.length === 0) return null;
+
+  const handleRetry = (entry: QueuedDonation) => {
+    if (entry.lastError === 'DUPLICATE_CHECK_NUMBER') {
+      if (!confirm(`${errorMessage(entry)} Save it anyway?`)) return;
+      retry(entry, { allowDuplicateCheck: true });
+    } else {
+      retry(entry);
+    }
+  };
+
+  const handleDiscard = (entry: QueuedDonation) => {
+    if (confirm(`Discard the $${Number(entry.payload.amount).toFixed(2)} gift from ${entry.donorName}? It has not been recorded.`)) {
+      discard(entry.clientId);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-amber-200 overflow-hidden">
+      <div className="p-4 bg-amber-50 border-b border-amber-100 flex items-center gap-3 text-sm text-amber-800">
+        {online ? <CloudUpload size={18} className="text-amber-600 shrink-0" /> : <WifiOff size={18} className="text-amber-600 shrink-0" />}
+        <div className="flex-1">
+          {online
+            ? syncing ? 'Syncing gifts saved offline…' : `${queued.length} gift${queued.length === 1 ? '' : 's'} waiting to sync.`
+            : 'Offline. New gifts are saved on this device and sync when the connection returns.'}
+        </div>
+        {online && !syncing && (
+          <button type="button" onClick={sync} title="Sync now" className="p-1.5 text-amber-600 hover:bg-amber-100 rounded-lg">
+            <RefreshCw size={16} />
+          </button>
+        )}
+      </div>
+
+      {queued.length > 0 && (
+        <ul className="divide-y divide-slate-100 text-sm">
+          {queued.map(entry => (
+            <li key={entry.clientId} className="px-4 py-3 flex items-start gap-3">
+              <div className="flex-1">
+                <div className="font-bold text-slate-900">
+                  ${Number(entry.payload.amount).toFixed(2)} <span className="font-normal text-slate-500">· {entry.payload.fund} · {entry.donorName}</span>
+                </div>
+                <div className="text-xs text-slate-400">Saved {new Date(entry.queuedAt).toLocaleTimeString()}</div>
+                {entry.lastError && (
+                  <div className="mt-1 text-xs text-rose-600 flex gap-1">
+                    <AlertCircle size={14} className="shrink-0" /> {errorMessage(entry)}
+                  </div>
+                )}
+              </div>
+              {entry.lastError && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(entry)}
+                    disabled={!online}
+                    className="px-3 py-1.5 text-xs font-bold text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDiscard(entry)}
+                    title="Discard"
+                    className="p-1.5 text-slate-400 hover:text-red-600 border border-slate-200 rounded-lg"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueuePanel;
@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import { HandCoins, Plus, Search, X, Loader2, Ban } from 'lucide-react';
+import { Member, Pledge, PledgeFrequency, PLEDGE_FREQUENCIES } from '../types';
+import { fetchPledges, createPledge, updatePledge, fetchMembers } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+
+interface CampaignOption {
+  id: number;
+  fund_name: string;
+  title: string;
+}
+
+interface PledgeTrackerProps {
+  campaigns: CampaignOption[];
+  onPledgesChanged: () => void;
+}
+
+const STATUS_STYLES: Record<Pledge['fulfillmentStatus'], string> = {
+  on_track: 'bg-emerald-100 text-emerald-700',
+  behind: 'bg-amber-100 text-amber-700',
+  fulfilled: 'bg-indigo-100 text-indigo-700',
+  cancelled: 'bg-slate-100 text-slate-500',
+};
+
+const STATUS_LABELS: Record<Pledge['fulfillmentStatus'], string> = {
+  on_track: 'On Track',
+  behind: 'Behind',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+};
+
+const emptyForm = {
+  campaignId: '',
+  fund: '',
+  amount: '',
+  frequency: 'monthly' as PledgeFrequency,
+  startDate: '',
+  endDate: '',
+  notes: '',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const PledgeTracker: React.FC<PledgeTrackerProps> = ({ campaigns, onPledgesChanged }) => {
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [campaignFilter, setCampaignFilter] = useState('');
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [memberResults, setMemberResults] = useState<Member[]>([]);
+  const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { funds } = useFunds();
+
+  const loadPledges = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchPledges(page, 10, { campaignId: campaignFilter || undefined, status: 'active' });
+      setPledges(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Failed to load pledges:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPledges();
+  }, [page, campaignFilter]);
+
+  useEffect(() => {
+    if (!memberSearch.trim() || selectedMember) {
+      setMemberResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchMembers(1, 8, memberSearch);
+        setMemberResults(result.data);
+      } catch (error) {
+        console.error('Failed to search members:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [memberSearch, selectedMember]);
+
+  // A campaign's fund wins over the one picked by hand
+  const selectedFund = form.campaignId
+    ? campaigns.find(c => String(c.id) === form.campaignId)?.fund_name || ''
+    : form.fund;
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setForm(emptyForm);
+    setSelectedMember(null);
+    setMemberSearch('');
+    setFormError(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMember) {
+      setFormError('Select the member making this pledge.');
+      return;
+    }
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await createPledge({
+        memberId: selectedMember.id,
+        campaignId: form.campaignId || null,
+        fund: form.campaignId ? undefined : form.fund,
+        amount: parseFloat(form.amount),
+        frequency: form.frequency,
+        startDate: form.startDate || undefined,
+        endDate: form.endDate || null,
+        notes: form.notes || undefined,
+      });
+      closeModal();
+      loadPledges();
+      onPledgesChanged();
+    } catch (error: any) {
+      console.error('Failed to create pledge:', error);
+      setFormError(error.message === 'VALIDATION_FAILED'
+        ? 'Check the pledge details. Recurring pledges need an end date.'
+        : 'Failed to save pledge.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelPledge = async (pledge: Pledge) => {
+    if (!confirm(`Cancel ${pledge.memberName}'s pledge of $${pledge.amount.toLocaleString()}?`)) return;
+    try {
+      await updatePledge(pledge.id, { status: 'cancelled' });
+      loadPledges();
+      onPledgesChanged();
+    } catch (error) {
+      console.error('Failed to cancel pledge:', error);
+      alert('Failed to cancel pledge');
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <HandCoins size={22} className="text-emerald-500" />
+            Pledges vs. Given
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">Gifts count toward a pledge when they match its member and fund within the pledge dates.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={campaignFilter}
+            onChange={e => { setCampaignFilter(e.target.value); setPage(1); }}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">All Campaigns</option>
+            {campaigns.map(c => (
+              <option key={c.id} value={c.id}>{c.title}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-all shadow-sm font-medium text-sm"
+          >
+            <Plus size={16} />
+            Record Pledge
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50">
+            <tr>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Member</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Toward</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Schedule</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Pledged</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Given</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-10 text-center">
+                  <Loader2 className="animate-spin text-emerald-500 mx-auto" size={24} />
+                </td>
+              </tr>
+            ) : pledges.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-10 text-center text-slate-400 italic">No active pledges.</td>
+              </tr>
+            ) : pledges.map(pledge => (
+              <tr key={pledge.id} className="hover:bg-slate-50/50 transition-colors">
+                <td className="px-6 py-4 font-bold text-slate-800">{pledge.memberName}</td>
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-slate-700">{pledge.campaignTitle || pledge.fund}</div>
+                  {pledge.campaignTitle && <div className="text-xs text-slate-400">{pledge.fund} Fund</div>}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-600">
+                  {PLEDGE_FREQUENCIES.find(f => f.value === pledge.frequency)?.label}
+                  {pledge.installmentCount > 1 && (
+                    <div className="text-xs text-slate-400">
+                      {pledge.installmentCount} x ${pledge.installmentAmount.toLocaleString()}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-right font-bold text-slate-900">${pledge.amount.toLocaleString()}</td>
+                <td className="px-6 py-4 text-right">
+                  <div className="font-bold text-slate-900">${pledge.received.toLocaleString()}</div>
+                  <div className="text-xs text-slate-400">{pledge.percentFulfilled.toFixed(1)}% · expected ${pledge.expectedToDate.toLocaleString()}</div>
+                </td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[pledge.fulfillmentStatus]}`}>
+                    {STATUS_LABELS[pledge.fulfillmentStatus]}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <button
+                    onClick={() => handleCancelPledge(pledge)}
+                    title="Cancel pledge"
+                    className="p-2 text-slate-400 hover:text-rose-600 transition-colors"
+                  >
+                    <Ban size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="p-4 border-t border-slate-50 flex justify-between items-center text-sm">
+          <button disabled={page === 1} onClick={() => setPage(p => p - 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Previous</button>
+          <span className="text-slate-500">Page {page} of {totalPages}</span>
+          <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Next</button>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-emerald-900 text-white flex justify-between items-center">
+              <h2 className="text-xl font-bold">Record Pledge</h2>
+              <button onClick={closeModal} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreate} className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm">{formError}</div>
+              )}
+              <div className="relative">
+                <label className={labelClass}>Member</label>
+                {selectedMember ? (
+                  <div className="flex items-center justify-between px-4 py-2 bg-emerald-50 border border-emerald-100 rounded-lg">
+                    <span className="font-bold text-emerald-800">{selectedMember.firstName} {selectedMember.lastName}</span>
+                    <button type="button" onClick={() => { setSelectedMember(null); setMemberSearch(''); }} className="text-emerald-700 hover:opacity-75">
+                      <X size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="relative">
+                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input
+                      type="text"
+                      placeholder="Search by name..."
+                      className={`${inputClass} pl-9`}
+                      value={memberSearch}
+                      onChange={e => setMemberSearch(e.target.value)}
+                    />
+                  </div>
+                )}
+                {memberResults.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                    {memberResults.map(member => (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => setSelectedMember(member)}
+                        className="w-full text-left px-4 py-2 hover:bg-emerald-50 text-sm text-slate-700"
+                      >
+                        {member.firstName} {member.lastName}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Campaign</label>
+                  <select className={inputClass} value={form.campaignId} onChange={e => setForm({ ...form, campaignId: e.target.value })}>
+                    <option value="">None</option>
+                    {campaigns.map(c => (
+                      <option key={c.id} value={c.id}>{c.title}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Fund</label>
+                  <select
+                    required={!form.campaignId}
+                    className={inputClass}
+                    disabled={!!form.campaignId}
+                    value={selectedFund}
+                    onChange={e => setForm({ ...form, fund: e.target.value })}
+                  >
+                    <option value="">Choose a fund...</option>
+                    {funds.map(f => (
+                      <option key={f.id} value={f.name}>{f.name}</option>
+                    ))}
+                    {selectedFund && !funds.some(f => f.name === selectedFund) && (
+                      <option value={selectedFund}>{selectedFund}</option>
+                    )}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Total Pledged ($)</label>
+                  <input required type="number" min="0.01" step="0.01" placeholder="2400" className={inputClass} value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Frequency</label>
+                  <select className={inputClass} value={form.frequency} onChange={e => setForm({ ...form, frequency: e.target.value as PledgeFrequency })}>
+                    {PLEDGE_FREQUENCIES.map(f => (
+                      <option key={f.value} value={f.value}>{f.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Start Date</label>
+                  <input type="date" className={inputClass} value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>End Date{form.frequency === 'one_time' ? ' (Optional)' : ''}</label>
+                  <input type="date" required={form.frequency !== 'one_time'} className={inputClass} value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Notes</label>
+                <input type="text" placeholder="Optional notes..." className={inputClass} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+              </div>
+              <div className="pt-4 flex gap-3">
+                <button type="button" onClick={closeModal} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                  {isSaving ? <Loader2 size={18} className="animate-spin" /> : <HandCoins size={18} />}
+                  Save Pledge
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PledgeTracker;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Lock, Clock, UserCheck, AlertCircle } from 'lucide-react';
+import { useRecordLock, LockLoss } from '../src/hooks/useRecordLock';
+
+interface RecordLockBannerProps {
+  lock: ReturnType<typeof useRecordLock>;
+  // How the record is named mid-sentence, e.g. "this member"
+  subject: string;
+  className?: string;
+}
+
+const lostMessage = ({ reason, by }: LockLoss) => {
+  switch (reason) {
+    case 'expired': return 'Your edit lock expired while the connection was down.';
+    case 'idle': return 'Your edit lock was released after a period of inactivity.';
+    case 'released': return `${by || 'An administrator'} released your edit lock.`;
+    case 'yielded': return 'You handed editing over.';
+  }
+};
+
+const buttonClass = 'shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50';
+
+/**
+ * Shows who holds a record's edit lock and the actions around it: asking
+ * the holder for access, the idle countdown, handing over to someone who
+ * asked, and resuming after the lock was lost.
+ */
+const RecordLockBanner: React.FC<RecordLockBannerProps> = ({ lock, subject, className = '' }) => {
+  const row = `p-4 flex items-center gap-3 text-sm ${className}`;
+
+  if (lock.isLockedByOther) {
+    return (
+      <div className={`bg-amber-50 border-b border-amber-100 text-amber-800 ${row}`}>
+        <Lock className="text-amber-600 shrink-0" size={20} />
+        <div className="flex-1">
+          <span className="font-bold">Locked:</span> {subject.charAt(0).toUpperCase() + subject.slice(1)} is being edited by <span className="font-bold">{lock.lockedBy}</span>.
+          {lock.accessRequested ? ' They have been asked to finish up.' : ' You can make changes once they finish.'}
+        </div>
+        {!lock.accessRequested && (
+          <button type="button" onClick={lock.requestAccess} className={`${buttonClass} bg-amber-600 text-white hover:bg-amber-700`}>
+            Request edit access
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (lock.lockLost) {
+    return (
+      <div className={`bg-rose-50 border-b border-rose-100 text-rose-800 ${row}`}>
+        <AlertCircle className="text-rose-600 shrink-0" size={20} />
+        <div className="flex-1">
+          {lostMessage(lock.lockLost)} Changes are disabled until you resume.
+        </div>
+        <button type="button" onClick={lock.acquireLock} className={`${buttonClass} bg-rose-600 text-white hover:bg-rose-700`}>
+          Resume editing
+        </button>
+      </div>
+    );
+  }
+
+  if (lock.accessRequestedBy) {
+    return (
+      <div className={`bg-indigo-50 border-b border-indigo-100 text-indigo-800 ${row}`}>
+        <UserCheck className="text-indigo-600 shrink-0" size={20} />
+        <div className="flex-1">
+          <span className="font-bold">{lock.accessRequestedBy}</span> would like to edit {subject}. Save your changes, then hand it over.
+        </div>
+        <button type="button" onClick={lock.dismissAccessRequest} className={`${buttonClass} text-indigo-700 hover:bg-indigo-100`}>
+          Dismiss
+        </button>
+        <button type="button" onClick={lock.yieldLock} className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-700`}>
+          Hand over
+        </button>
+      </div>
+    );
+  }
+
+  if (lock.idleSecondsLeft !== null) {
+    return (
+      <div className={`bg-amber-50 border-b border-amber-100 text-amber-800 ${row}`}>
+        <Clock className="text-amber-600 shrink-0" size={20} />
+        <div className="flex-1">
+          Still there? Your edit lock will be released in <span className="font-bold">{lock.idleSecondsLeft}s</span>.
+        </div>
+        <button type="button" onClick={lock.keepEditing} className={`${buttonClass} bg-amber-600 text-white hover:bg-amber-700`}>
+          Keep editing
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default RecordLockBanner;
@@ -0,0 +1,370 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat, Plus, Search, X, Loader2, Ban, Pause, Play } from 'lucide-react';
+import { Member, RecurringGift, RecurringFrequency, RecurringGiftStatus, RECURRING_FREQUENCIES, PAYMENT_METHODS } from '../types';
+import { fetchRecurringGifts, createRecurringGift, updateRecurringGift, fetchMembers } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+import { useSocket } from '../src/contexts/SocketContext';
+
+const STATUS_STYLES: Record<RecurringGiftStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  paused: 'bg-amber-100 text-amber-700',
+  cancelled: 'bg-slate-100 text-slate-500',
+};
+
+const emptyForm = {
+  fund: '',
+  amount: '',
+  frequency: 'monthly' as RecurringFrequency,
+  startDate: '',
+  endDate: '',
+  paymentMethod: 'ach',
+  notes: '',
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const RecurringGiftTracker: React.FC = () => {
+  const [gifts, setGifts] = useState<RecurringGift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<RecurringGiftStatus | ''>('active');
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [memberResults, setMemberResults] = useState<Member[]>([]);
+  const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { funds } = useFunds();
+  const { socket } = useSocket();
+
+  const loadGifts = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchRecurringGifts(page, 10, { status: statusFilter || undefined });
+      setGifts(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Failed to load recurring gifts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGifts();
+  }, [page, statusFilter]);
+
+  // Matching runs on the server, so counts change as gifts are entered
+  useEffect(() => {
+    if (!socket) return;
+    const handleUpdate = () => loadGifts();
+    socket.on('recurring:update', handleUpdate);
+    return () => {
+      socket.off('recurring:update', handleUpdate);
+    };
+  }, [socket, page, statusFilter]);
+
+  useEffect(() => {
+    if (!memberSearch.trim() || selectedMember) {
+      setMemberResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchMembers(1, 8, memberSearch);
+        setMemberResults(result.data);
+      } catch (error) {
+        console.error('Failed to search members:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [memberSearch, selectedMember]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setForm(emptyForm);
+    setSelectedMember(null);
+    setMemberSearch('');
+    setFormError(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMember) {
+      setFormError('Select the member who gives this gift.');
+      return;
+    }
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await createRecurringGift({
+        memberId: selectedMember.id,
+        fund: form.fund,
+        amount: parseFloat(form.amount),
+        frequency: form.frequency,
+        startDate: form.startDate || undefined,
+        endDate: form.endDate || null,
+        paymentMethod: form.paymentMethod || null,
+        notes: form.notes || undefined,
+      });
+      closeModal();
+      loadGifts();
+    } catch (error: any) {
+      console.error('Failed to create recurring gift:', error);
+      setFormError(error.message === 'VALIDATION_FAILED'
+        ? 'Check the schedule details. The end date must be after the start date.'
+        : 'Failed to save recurring gift.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeStatus = async (gift: RecurringGift, status: RecurringGiftStatus) => {
+    if (status === 'cancelled' && !confirm(`Cancel ${gift.memberName}'s recurring gift of $${gift.amount.toLocaleString()}?`)) return;
+    try {
+      await updateRecurringGift(gift.id, { status });
+      loadGifts();
+    } catch (error) {
+      console.error('Failed to update recurring gift:', error);
+      alert('Failed to update recurring gift');
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <Repeat size={22} className="text-emerald-500" />
+            Recurring Gifts
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">Each due date expects a gift to the same fund. Unmatched installments are marked missed after a grace period.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={e => { setStatusFilter(e.target.value as RecurringGiftStatus | ''); setPage(1); }}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="active">Active</option>
+            <option value="paused">Paused</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="">All Schedules</option>
+          </select>
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-all shadow-sm font-medium text-sm"
+          >
+            <Plus size={16} />
+            Set Up Recurring Gift
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50">
+            <tr>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Member</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Fund</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Schedule</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Amount</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Next Due</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Received / Missed</th>
+              <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-6 py-10 text-center">
+                  <Loader2 className="animate-spin text-emerald-500 mx-auto" size={24} />
+                </td>
+              </tr>
+            ) : gifts.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-6 py-10 text-center text-slate-400 italic">No recurring gifts.</td>
+              </tr>
+            ) : gifts.map(gift => (
+              <tr key={gift.id} className="hover:bg-slate-50/50 transition-colors">
+                <td className="px-6 py-4 font-bold text-slate-800">{gift.memberName}</td>
+                <td className="px-6 py-4 text-sm font-medium text-slate-700">{gift.fund}</td>
+                <td className="px-6 py-4 text-sm text-slate-600">
+                  {RECURRING_FREQUENCIES.find(f => f.value === gift.frequency)?.label}
+                  <div className="text-xs text-slate-400">
+                    from {gift.startDate}{gift.endDate ? ` to ${gift.endDate}` : ''}
+                  </div>
+                </td>
+                <td className="px-6 py-4 text-right font-bold text-slate-900">${gift.amount.toLocaleString()}</td>
+                <td className="px-6 py-4 text-sm text-slate-600">{gift.nextDueDate || '—'}</td>
+                <td className="px-6 py-4 text-right">
+                  <div className="font-bold text-slate-900">{gift.receivedCount} / <span className={gift.missedCount > 0 ? 'text-rose-600' : ''}>{gift.missedCount}</span></div>
+                  <div className="text-xs text-slate-400">${gift.receivedAmount.toLocaleString()} received</div>
+                </td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[gift.status]}`}>
+                    {gift.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  {gift.status === 'active' && (
+                    <button
+                      onClick={() => changeStatus(gift, 'paused')}
+                      title="Pause schedule"
+                      className="p-2 text-slate-400 hover:text-amber-600 transition-colors"
+                    >
+                      <Pause size={16} />
+                    </button>
+                  )}
+                  {gift.status === 'paused' && (
+                    <button
+                      onClick={() => changeStatus(gift, 'active')}
+                      title="Resume schedule"
+                      className="p-2 text-slate-400 hover:text-emerald-600 transition-colors"
+                    >
+                      <Play size={16} />
+                    </button>
+                  )}
+                  {gift.status !== 'cancelled' && (
+                    <button
+                      onClick={() => changeStatus(gift, 'cancelled')}
+                      title="Cancel schedule"
+                      className="p-2 text-slate-400 hover:text-rose-600 transition-colors"
+                    >
+                      <Ban size={16} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="p-4 border-t border-slate-50 flex justify-between items-center text-sm">
+          <button disabled={page === 1} onClick={() => setPage(p => p - 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Previous</button>
+          <span className="text-slate-500">Page {page} of {totalPages}</span>
+          <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-3 py-1 rounded-lg border border-slate-200 disabled:opacity-40">Next</button>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+            <div className="p-6 bg-emerald-900 text-white flex justify-between items-center">
+              <h2 className="text-xl font-bold">Set Up Recurring Gift</h2>
+              <button onClick={closeModal} className="hover:opacity-75 transition-opacity">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreate} className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-lg text-sm">{formError}</div>
+              )}
+              <div className="relative">
+                <label className={labelClass}>Member</label>
+                {selectedMember ? (
+                  <div className="flex items-center justify-between px-4 py-2 bg-emerald-50 border border-emerald-100 rounded-lg">
+                    <span className="font-bold text-emerald-800">{selectedMember.firstName} {selectedMember.lastName}</span>
+                    <button type="button" onClick={() => { setSelectedMember(null); setMemberSearch(''); }} className="text-emerald-700 hover:opacity-75">
+                      <X size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="relative">
+                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input
+                      type="text"
+                      placeholder="Search by name..."
+                      className={`${inputClass} pl-9`}
+                      value={memberSearch}
+                      onChange={e => setMemberSearch(e.target.value)}
+                    />
+                  </div>
+                )}
+                {memberResults.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+                    {memberResults.map(member => (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => setSelectedMember(member)}
+                        className="w-full text-left px-4 py-2 hover:bg-emerald-50 text-sm text-slate-700"
+                      >
+                        {member.firstName} {member.lastName}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Fund</label>
+                  <select required className={inputClass} value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+                    <option value="">Choose a fund...</option>
+                    {funds.map(f => (
+                      <option key={f.id} value={f.name}>{f.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Payment Method</label>
+                  <select className={inputClass} value={form.paymentMethod} onChange={e => setForm({ ...form, paymentMethod: e.target.value })}>
+                    {PAYMENT_METHODS.map(m => (
+                      <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Amount Per Gift ($)</label>
+                  <input required type="number" min="0.01" step="0.01" placeholder="200" className={inputClass} value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Frequency</label>
+                  <select className={inputClass} value={form.frequency} onChange={e => setForm({ ...form, frequency: e.target.value as RecurringFrequency })}>
+                    {RECURRING_FREQUENCIES.map(f => (
+                      <option key={f.value} value={f.value}>{f.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>First Gift Date</label>
+                  <input type="date" className={inputClass} value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>End Date (Optional)</label>
+                  <input type="date" className={inputClass} value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Notes</label>
+                <input type="text" placeholder="Optional notes..." className={inputClass} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+              </div>
+              <div className="pt-4 flex gap-3">
+                <button type="button" onClick={closeModal} className="flex-1 py-3 border border-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-50 transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+                  {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Repeat size={18} />}
+                  Save Schedule
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RecurringGiftTracker;
@@ -0,0 +1,420 @@
+import React, { useState, useEffect } from 'react';
+import { Table2, Play, Save, Trash2, Loader2, AlertCircle, X } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import {
+  ReportDefinition,
+  ReportDimension,
+  ReportMeasure,
+  ReportChart,
+  ReportResult,
+  SavedReport,
+  PaymentMethod,
+  REPORT_DIMENSIONS,
+  REPORT_MEASURES,
+  PAYMENT_METHODS,
+} from '../types';
+import { runCustomReport, fetchSavedReports, createSavedReport, updateSavedReport, deleteSavedReport } from '../src/lib/api';
+
+const COLORS = ['#4f46e5', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#14b8a6', '#f97316', '#6366f1'];
+
+// Roles a saved report can be shared with; super admins see every report
+const SHARE_ROLES = [
+  { value: 'admin', label: 'Admins' },
+  { value: 'manager', label: 'Managers' },
+  { value: 'auditor', label: 'Auditors' },
+  { value: 'viewer', label: 'Members (own giving only)' },
+];
+
+const CHARTS: { value: ReportChart; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'line', label: 'Line' },
+  { value: 'pie', label: 'Pie' },
+  { value: 'table', label: 'Table Only' },
+];
+
+const emptyDefinition: ReportDefinition = {
+  dimensions: ['fund'],
+  measures: ['sum'],
+  filters: {},
+  startDate: null,
+  endDate: null,
+  chart: 'bar',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-sm text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+const formatValue = (value: string | number, type: string) => {
+  if (type === 'currency') return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  if (type === 'number') return Number(value).toLocaleString();
+  return String(value);
+};
+
+interface ReportBuilderProps {
+  funds: string[];
+  currentUserId: number | null;
+  canManageAll: boolean;
+}
+
+const ReportBuilder: React.FC<ReportBuilderProps> = ({ funds, currentUserId, canManageAll }) => {
+  const [definition, setDefinition] = useState<ReportDefinition>(emptyDefinition);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [selected, setSelected] = useState<SavedReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [saveForm, setSaveForm] = useState({ name: '', description: '', sharedRoles: [] as string[] });
+
+  const loadSavedReports = async () => {
+    try {
+      setSavedReports(await fetchSavedReports());
+    } catch (err) {
+      console.error('Failed to load saved reports:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadSavedReports();
+  }, []);
+
+  const setFilter = (key: keyof ReportDefinition['filters'], value: any) => {
+    setDefinition(prev => {
+      const filters = { ...prev.filters, [key]: value };
+      if (value === undefined) delete filters[key];
+      return { ...prev, filters };
+    });
+  };
+
+  const setDimension = (index: number, value: string) => {
+    const dimensions = [...definition.dimensions];
+    if (value) dimensions[index] = value as ReportDimension;
+    else dimensions.splice(index, 1);
+    setDefinition({ ...definition, dimensions: dimensions.filter(Boolean), sort: null });
+  };
+
+  const toggleMeasure = (measure: ReportMeasure) => {
+    const measures = definition.measures.includes(measure)
+      ? definition.measures.filter(m => m !== measure)
+      : [...definition.measures, measure];
+    setDefinition({ ...definition, measures, sort: null });
+  };
+
+  const run = async (toRun: ReportDefinition) => {
+    setRunning(true);
+    setError(null);
+    try {
+      setResult(await runCustomReport(toRun));
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED' ? 'Check the measures, filters and dates.' : err.message || 'Failed to run report.');
+      setResult(null);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSelectSaved = (id: string) => {
+    const report = savedReports.find(r => r.id === id) || null;
+    setSelected(report);
+    if (report) {
+      setDefinition(report.definition);
+      run(report.definition);
+    } else {
+      setDefinition(emptyDefinition);
+      setResult(null);
+    }
+  };
+
+  const openSave = () => {
+    setSaveForm(selected && canEdit(selected)
+      ? { name: selected.name, description: selected.description || '', sharedRoles: selected.sharedRoles }
+      : { name: '', description: '', sharedRoles: [] });
+    setSaveOpen(true);
+  };
+
+  const canEdit = (report: SavedReport) => canManageAll || report.ownerId === currentUserId;
+
+  const handleSave = async (e: React.FormEvent, asNew: boolean) => {
+    e.preventDefault();
+    setError(null);
+    const payload = { ...saveForm, definition };
+    try {
+      const saved = !asNew && selected && canEdit(selected)
+        ? await updateSavedReport(selected.id, payload)
+        : await createSavedReport(payload);
+      setSelected(saved);
+      setSaveOpen(false);
+      loadSavedReports();
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED' ? 'A name is required and the report must be valid.' : err.message || 'Failed to save report.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the saved report "${selected.name}"?`)) return;
+    try {
+      await deleteSavedReport(selected.id);
+      setSelected(null);
+      loadSavedReports();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete report.');
+    }
+  };
+
+  // Charts plot the first measure against the dimensions joined into one label
+  const dimensionKeys = result ? result.columns.filter(c => c.type === 'text').map(c => c.key) : [];
+  const measureColumns = result ? result.columns.filter(c => c.type !== 'text') : [];
+  const chartData = result
+    ? result.rows.map(row => ({ ...row, label: dimensionKeys.map(key => row[key]).join(' · ') || 'All gifts' }))
+    : [];
+  const chart = definition.chart || 'bar';
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <Table2 size={20} className="text-indigo-600" />
+          Report Builder
+        </h2>
+        <div className="flex items-center gap-2">
+          <select className={inputClass} value={selected?.id || ''} onChange={e => handleSelectSaved(e.target.value)}>
+            <option value="">New report…</option>
+            {savedReports.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          {selected && canEdit(selected) && (
+            <button onClick={handleDelete} className="p-2 text-slate-400 hover:text-rose-600 rounded-lg hover:bg-rose-50" title="Delete saved report">
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selected?.description && <p className="text-sm text-slate-500 mb-4">{selected.description}</p>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Group By</label>
+          <select className={inputClass} value={definition.dimensions[0] || ''} onChange={e => setDimension(0, e.target.value)}>
+            <option value="">Nothing (grand total)</option>
+            {REPORT_DIMENSIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Then By</label>
+          <select
+            className={inputClass}
+            value={definition.dimensions[1] || ''}
+            disabled={definition.dimensions.length === 0}
+            onChange={e => setDimension(1, e.target.value)}
+          >
+            <option value="">Nothing</option>
+            {REPORT_DIMENSIONS.filter(d => d.value !== definition.dimensions[0]).map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Chart</label>
+          <select className={inputClass} value={chart} onChange={e => setDefinition({ ...definition, chart: e.target.value as ReportChart })}>
+            {CHARTS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label className={labelClass}>Measures</label>
+        <div className="flex flex-wrap gap-2">
+          {REPORT_MEASURES.map(m => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => toggleMeasure(m.value)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${definition.measures.includes(m.value) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mt-4">
+        <div>
+          <label className={labelClass}>From</label>
+          <input type="date" className={inputClass} value={definition.startDate || ''} onChange={e => setDefinition({ ...definition, startDate: e.target.value || null })} />
+        </div>
+        <div>
+          <label className={labelClass}>To</label>
+          <input type="date" className={inputClass} value={definition.endDate || ''} onChange={e => setDefinition({ ...definition, endDate: e.target.value || null })} />
+        </div>
+        <div>
+          <label className={labelClass}>Fund</label>
+          <select className={inputClass} value={definition.filters.funds?.[0] || ''} onChange={e => setFilter('funds', e.target.value ? [e.target.value] : undefined)}>
+            <option value="">All Funds</option>
+            {funds.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Method</label>
+          <select
+            className={inputClass}
+            value={definition.filters.paymentMethods?.[0] || ''}
+            onChange={e => setFilter('paymentMethods', e.target.value ? [e.target.value as PaymentMethod] : undefined)}
+          >
+            <option value="">All Methods</option>
+            {PAYMENT_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Min Gift</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className={inputClass}
+            value={definition.filters.minAmount ?? ''}
+            onChange={e => setFilter('minAmount', e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-3 mt-6">
+        <button
+          onClick={openSave}
+          disabled={definition.measures.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 disabled:opacity-50"
+        >
+          <Save size={16} /> Save
+        </button>
+        <button
+          onClick={() => run(definition)}
+          disabled={running || definition.measures.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {running ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />} Run Report
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+          <AlertCircle size={18} className="shrink-0" /> {error}
+        </div>
+      )}
+
+      {saveOpen && (
+        <form onSubmit={e => handleSave(e, false)} className="mt-6 p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-slate-800">Save Report</h3>
+            <button type="button" onClick={() => setSaveOpen(false)} className="p-1 text-slate-400 hover:text-slate-600">
+              <X size={16} />
+            </button>
+          </div>
+          <input required type="text" maxLength={200} className={inputClass} placeholder="Name" value={saveForm.name} onChange={e => setSaveForm({ ...saveForm, name: e.target.value })} />
+          <input type="text" maxLength={2000} className={inputClass} placeholder="Description (optional)" value={saveForm.description} onChange={e => setSaveForm({ ...saveForm, description: e.target.value })} />
+          <div>
+            <label className={labelClass}>Share With</label>
+            <div className="flex flex-wrap gap-4">
+              {SHARE_ROLES.map(role => (
+                <label key={role.value} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={saveForm.sharedRoles.includes(role.value)}
+                    onChange={e => setSaveForm({
+                      ...saveForm,
+                      sharedRoles: e.target.checked
+                        ? [...saveForm.sharedRoles, role.value]
+                        : saveForm.sharedRoles.filter(r => r !== role.value),
+                    })}
+                    className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {role.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {selected && canEdit(selected) && (
+              <button type="button" onClick={e => handleSave(e, true)} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50">
+                Save as New
+              </button>
+            )}
+            <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700">
+              {selected && canEdit(selected) ? 'Update Report' : 'Save Report'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-4">
+          {chart !== 'table' && chartData.length > 0 && measureColumns.length > 0 && (
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                {chart === 'pie' ? (
+                  <PieChart>
+                    <Pie data={chartData} dataKey={measureColumns[0].key} nameKey="label" outerRadius={100} label>
+                      {chartData.map((_, i) => <Cell key={i} fill={COLORS[i % COLORS.length]} />)}
+                    </Pie>
+                    <Tooltip formatter={(value: any) => formatValue(value, measureColumns[0].type)} />
+                    <Legend />
+                  </PieChart>
+                ) : chart === 'line' ? (
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {measureColumns.map((m, i) => (
+                      <Line key={m.key} type="monotone" dataKey={m.key} name={m.label} stroke={COLORS[i % COLORS.length]} strokeWidth={2} />
+                    ))}
+                  </LineChart>
+                ) : (
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {measureColumns.map((m, i) => (
+                      <Bar key={m.key} dataKey={m.key} name={m.label} fill={COLORS[i % COLORS.length]} />
+                    ))}
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="border border-slate-100 rounded-xl overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50/50">
+                <tr>
+                  {result.columns.map(c => (
+                    <th key={c.key} className={`px-4 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider ${c.type !== 'text' ? 'text-right' : ''}`}>{c.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {result.rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={result.columns.length} className="px-4 py-8 text-center text-slate-400 italic">No gifts match this report.</td>
+                  </tr>
+                ) : result.rows.map((row, i) => (
+                  <tr key={i}>
+                    {result.columns.map(c => (
+                      <td key={c.key} className={`px-4 py-2 text-sm ${c.type !== 'text' ? 'text-right font-mono text-slate-700' : 'text-slate-800'}`}>
+                        {formatValue(row[c.key], c.type)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {result.truncated && (
+            <p className="text-xs text-slate-400 italic">Showing the first {result.rows.length} rows. Narrow the filters to see the rest.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportBuilder;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { Inbox, Download, Trash2, Loader2, FileText, FileSpreadsheet } from 'lucide-react';
+import { ReportInboxItem } from '../types';
+import { fetchReportInbox, downloadReportInboxItem, deleteReportInboxItem } from '../src/lib/api';
+import { useSocket } from '../src/contexts/SocketContext';
+
+interface ReportInboxProps {
+  currentUserId: number | null;
+  onUnreadChange?: (count: number) => void;
+}
+
+const ReportInbox: React.FC<ReportInboxProps> = ({ currentUserId, onUnreadChange }) => {
+  const [items, setItems] = useState<ReportInboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const { socket } = useSocket();
+
+  const loadInbox = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchReportInbox(page, 20, unreadOnly);
+      setItems(result.data);
+      setTotalPages(result.pagination.totalPages || 1);
+      onUnreadChange?.(result.unread);
+    } catch (error) {
+      console.error('Failed to load report inbox:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInbox();
+  }, [page, unreadOnly]);
+
+  // Scheduled reports arrive in the background
+  useEffect(() => {
+    if (!socket) return;
+    const handleUpdate = (event: any) => {
+      if (event.type === 'INBOX' && event.data?.userIds?.includes(currentUserId)) loadInbox();
+    };
+    socket.on('report:update', handleUpdate);
+    return () => {
+      socket.off('report:update', handleUpdate);
+    };
+  }, [socket, currentUserId, page, unreadOnly]);
+
+  const handleDownload = async (item: ReportInboxItem) => {
+    try {
+      const blob = await downloadReportInboxItem(item.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', item.filename);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+      if (!item.readAt) loadInbox();
+    } catch (error: any) {
+      console.error('Failed to download report:', error);
+      alert(error.message);
+    }
+  };
+
+  const handleDelete = async (item: ReportInboxItem) => {
+    if (!window.confirm(`Remove "${item.title}" from your inbox?`)) return;
+    try {
+      await deleteReportInboxItem(item.id);
+      loadInbox();
+    } catch (error: any) {
+      console.error('Failed to remove report:', error);
+      alert(error.message);
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">Report Inbox</h1>
+          <p className="text-slate-500 mt-1">Scheduled reports delivered to you. Ask a manager to add you to a report subscription.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={e => { setUnreadOnly(e.target.checked); setPage(1); }}
+            className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Unread only
+        </label>
+      </header>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <Loader2 className="animate-spin text-indigo-500" size={28} />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-12 text-center text-slate-400">
+            <Inbox size={36} className="mx-auto mb-3 text-slate-300" />
+            <p className="italic">{unreadOnly ? 'No unread reports.' : 'No reports have been delivered to you yet.'}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-slate-50">
+            {items.map(item => (
+              <li key={item.id} className={`flex items-center gap-4 px-6 py-4 ${item.readAt ? '' : 'bg-indigo-50/40'}`}>
+                <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+                  {item.format === 'csv' ? <FileSpreadsheet size={20} /> : <FileText size={20} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm truncate ${item.readAt ? 'font-medium text-slate-700' : 'font-bold text-slate-900'}`}>
+                    {item.title}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {item.period && <>{item.period} · </>}
+                    {item.format.toUpperCase()} · delivered {new Date(item.createdAt).toLocaleString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDownload(item)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-50"
+                >
+                  <Download size={12} />
+                  Download
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="p-2 text-slate-400 hover:text-rose-600 rounded-lg hover:bg-rose-50"
+                  title="Remove from inbox"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <button
+            disabled={page === 1}
+            onClick={() => setPage(p => p - 1)}
+            className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-sm font-medium disabled:opacity-50 hover:bg-slate-50"
+          >
+            Prev
+          </button>
+          <span className="text-sm text-slate-500">Page {page} of {totalPages}</span>
+          <button
+            disabled={page === totalPages}
+            onClick={() => setPage(p => p + 1)}
+            className="px-3 py-1 bg-white border border-slate-200 rounded-lg text-sm font-medium disabled:opacity-50 hover:bg-slate-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportInbox;
@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, X, Plus, Loader2, Play, Trash2, Edit2, AlertCircle, Save } from 'lucide-react';
+import { ReportSubscription, ReportRecipient, ReportType, ReportFormat, ReportCadence, ReportChannel } from '../types';
+import {
+  fetchReportSubscriptions,
+  fetchReportRecipients,
+  createReportSubscription,
+  updateReportSubscription,
+  deleteReportSubscription,
+  runReportSubscription,
+} from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+
+const REPORT_OPTIONS: { value: ReportType; label: string; params: ('year' | 'fund')[] }[] = [
+  { value: 'quarterly_progress', label: 'Quarterly Progress Summary', params: ['year', 'fund'] },
+  { value: 'fund_distribution', label: 'Top 10 Fund Distributions', params: ['year'] },
+  { value: 'trend_analysis', label: 'Trend Analysis (3 Year)', params: ['fund'] },
+  { value: 'new_donors', label: 'New Donor List', params: [] },
+];
+
+const CADENCE_LABELS: Record<ReportCadence, string> = {
+  weekly: 'Weekly (Mondays)',
+  monthly: 'Monthly (1st)',
+  quarterly: 'Quarterly (1st of the quarter)',
+};
+
+const emptyForm = {
+  name: '',
+  reportType: 'quarterly_progress' as ReportType,
+  year: '',
+  fund: '',
+  format: 'pdf' as ReportFormat,
+  cadence: 'quarterly' as ReportCadence,
+  channel: 'inbox' as ReportChannel,
+  recipientUserIds: [] as number[],
+  recipientEmails: '',
+  isActive: true,
+};
+
+const inputClass = 'w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 text-slate-900';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1';
+
+interface ReportSubscriptionsProps {
+  onClose: () => void;
+}
+
+const ReportSubscriptions: React.FC<ReportSubscriptionsProps> = ({ onClose }) => {
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>([]);
+  const [recipients, setRecipients] = useState<ReportRecipient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ReportSubscription | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { funds } = useFunds(true);
+
+  const reportOption = REPORT_OPTIONS.find(r => r.value === form.reportType)!;
+  const recipientName = (id: number) => recipients.find(r => r.id === id)?.username || `User ${id}`;
+
+  const loadSubscriptions = async () => {
+    try {
+      setSubscriptions(await fetchReportSubscriptions());
+    } catch (err) {
+      console.error('Failed to load report subscriptions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSubscriptions();
+    fetchReportRecipients()
+      .then(setRecipients)
+      .catch(err => console.error('Failed to load report recipients:', err));
+  }, []);
+
+  const openForm = (subscription: ReportSubscription | null) => {
+    setError(null);
+    setNotice(null);
+    setEditing(subscription || 'new');
+    setForm(subscription ? {
+      name: subscription.name,
+      reportType: subscription.reportType,
+      year: subscription.params.year ? String(subscription.params.year) : '',
+      fund: subscription.params.fund || '',
+      format: subscription.format,
+      cadence: subscription.cadence,
+      channel: subscription.channel,
+      recipientUserIds: subscription.recipientUserIds,
+      recipientEmails: subscription.recipientEmails.join(', '),
+      isActive: subscription.isActive,
+    } : emptyForm);
+  };
+
+  const toggleRecipient = (id: number) => {
+    setForm(prev => ({
+      ...prev,
+      recipientUserIds: prev.recipientUserIds.includes(id)
+        ? prev.recipientUserIds.filter(r => r !== id)
+        : [...prev.recipientUserIds, id],
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy('save');
+    setError(null);
+    const params: { year?: number; fund?: string } = {};
+    if (reportOption.params.includes('year') && form.year) params.year = parseInt(form.year);
+    if (reportOption.params.includes('fund') && form.fund) params.fund = form.fund;
+    const input = {
+      name: form.name,
+      reportType: form.reportType,
+      params,
+      format: form.format,
+      cadence: form.cadence,
+      channel: form.channel,
+      recipientUserIds: form.recipientUserIds,
+      recipientEmails: form.channel === 'email'
+        ? form.recipientEmails.split(/[,\s]+/).map(s => s.trim()).filter(Boolean)
+        : [],
+      isActive: form.isActive,
+    };
+    try {
+      if (editing === 'new') {
+        await createReportSubscription(input);
+      } else if (editing) {
+        await updateReportSubscription(editing.id, input);
+      }
+      setEditing(null);
+      loadSubscriptions();
+    } catch (err: any) {
+      setError(err.message === 'VALIDATION_FAILED'
+        ? 'Check the name, recipients and email addresses.'
+        : err.message || 'Failed to save subscription.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRun = async (subscription: ReportSubscription) => {
+    setBusy(`run-${subscription.id}`);
+    setNotice(null);
+    try {
+      const { recipients: count } = await runReportSubscription(subscription.id);
+      setNotice(`Sent "${subscription.name}" to ${count} recipient${count === 1 ? '' : 's'}.`);
+      loadSubscriptions();
+    } catch (err: any) {
+      console.error('Failed to run report subscription:', err);
+      alert(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (subscription: ReportSubscription) => {
+    if (!window.confirm(`Delete the "${subscription.name}" subscription? Reports already delivered stay in recipients' inboxes.`)) return;
+    try {
+      await deleteReportSubscription(subscription.id);
+      loadSubscriptions();
+    } catch (err: any) {
+      console.error('Failed to delete report subscription:', err);
+      alert(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 bg-indigo-900 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <CalendarClock size={22} />
+            <div>
+              <h2 className="text-xl font-bold">Scheduled Reports</h2>
+              <p className="text-xs text-indigo-200">Reports rendered on a schedule and delivered by email or to recipients' Report Inbox.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          {editing ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              {error && (
+                <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-700 flex gap-2">
+                  <AlertCircle size={18} className="shrink-0" /> {error}
+                </div>
+              )}
+              <div>
+                <label className={labelClass}>Name</label>
+                <input required type="text" maxLength={200} className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Finance committee quarterly" />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Report</label>
+                  <select className={inputClass} value={form.reportType} onChange={e => setForm({ ...form, reportType: e.target.value as ReportType })}>
+                    {REPORT_OPTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Format</label>
+                  <select className={inputClass} value={form.format} onChange={e => setForm({ ...form, format: e.target.value as ReportFormat })}>
+                    <option value="pdf">PDF</option>
+                    <option value="csv">CSV</option>
+                  </select>
+                </div>
+                {reportOption.params.includes('year') && (
+                  <div>
+                    <label className={labelClass}>Year</label>
+                    <input type="number" min={2000} max={2100} className={inputClass} value={form.year} onChange={e => setForm({ ...form, year: e.target.value })} placeholder="Year of each run" />
+                  </div>
+                )}
+                {reportOption.params.includes('fund') && (
+                  <div>
+                    <label className={labelClass}>Fund</label>
+                    <select className={inputClass} value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+                      <option value="">All Funds</option>
+                      {funds.map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className={labelClass}>Cadence</label>
+                  <select className={inputClass} value={form.cadence} onChange={e => setForm({ ...form, cadence: e.target.value as ReportCadence })}>
+                    {(Object.keys(CADENCE_LABELS) as ReportCadence[]).map(c => <option key={c} value={c}>{CADENCE_LABELS[c]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Deliver To</label>
+                  <select className={inputClass} value={form.channel} onChange={e => setForm({ ...form, channel: e.target.value as ReportChannel })}>
+                    <option value="inbox">Report Inbox</option>
+                    <option value="email">Email</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Recipients</label>
+                <div className="flex flex-wrap gap-2">
+                  {recipients.map(r => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      onClick={() => toggleRecipient(r.id)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${form.recipientUserIds.includes(r.id) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                      title={form.channel === 'email' && !r.email ? 'No email address on file' : r.role}
+                    >
+                      {r.username}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {form.channel === 'email' && (
+                <div>
+                  <label className={labelClass}>Other Email Addresses</label>
+                  <input type="text" className={inputClass} value={form.recipientEmails} onChange={e => setForm({ ...form, recipientEmails: e.target.value })} placeholder="treasurer@example.org, chair@example.org" />
+                </div>
+              )}
+
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={e => setForm({ ...form, isActive: e.target.checked })}
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50">
+                  Cancel
+                </button>
+                <button type="submit" disabled={busy === 'save'} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">
+                  <Save size={16} /> Save Subscription
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-slate-500">{notice}</span>
+                <button
+                  onClick={() => openForm(null)}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all shadow-sm font-medium text-sm"
+                >
+                  <Plus size={16} />
+                  New Subscription
+                </button>
+              </div>
+
+              {loading ? (
+                <div className="py-10 flex justify-center">
+                  <Loader2 className="animate-spin text-indigo-500" size={24} />
+                </div>
+              ) : subscriptions.length === 0 ? (
+                <p className="py-10 text-center text-slate-400 italic">No reports are scheduled yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {subscriptions.map(s => (
+                    <div key={s.id} className="flex items-center gap-4 p-4 rounded-xl border border-slate-100 bg-slate-50">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                          {s.name}
+                          {!s.isActive && (
+                            <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider bg-slate-200 text-slate-600">Paused</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {s.reportName}{s.params.fund && <> · {s.params.fund}</>} · {s.format.toUpperCase()} · {s.cadence} · {s.channel === 'email' ? 'email' : 'inbox'} to{' '}
+                          {[...s.recipientUserIds.map(recipientName), ...s.recipientEmails].join(', ')}
+                        </div>
+                        <div className="text-xs text-slate-400">
+                          {s.isActive && <>Next {new Date(s.nextRunAt).toLocaleString()}</>}
+                          {s.lastRunAt && <> · Last sent {new Date(s.lastRunAt).toLocaleString()}</>}
+                        </div>
+                        {s.lastError && (
+                          <div className="flex items-start gap-1 text-xs text-rose-600 mt-1">
+                            <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                            {s.lastError}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRun(s)}
+                        disabled={busy === `run-${s.id}`}
+                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+                        title="Send the report for the period just ended"
+                      >
+                        <Play size={12} />
+                        Send Now
+                      </button>
+                      <button onClick={() => openForm(s)} className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg hover:bg-white">
+                        <Edit2 size={16} />
+                      </button>
+                      <button onClick={() => handleDelete(s)} className="p-2 text-slate-400 hover:text-rose-600 rounded-lg hover:bg-white">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportSubscriptions;
@@ -1,44 +1,65 @@
 
 import React, { useState } from 'react';
-import { Member, Donation, ChurchSettings } from '../types';
-import { FileText, Download, Send, Printer, Calendar, CheckCircle2, X, Mail, UserPlus, Edit2, Save, PieChart, TrendingUp, BarChart3 } from 'lucide-react';
+import { Member, Donation, ChurchSettings, PAYMENT_METHODS } from '../types';
+import { FileText, Download, Send, Printer, Calendar, CheckCircle2, X, Mail, UserPlus, Edit2, Save, PieChart, TrendingUp, BarChart3, ClipboardList, CalendarClock, Target } from 'lucide-react';
 import { PieChart as RechartsPie, Pie, Cell, ResponsiveContainer, Legend, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid, BarChart, Bar } from 'recharts';
 import * as api from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+import EmailLog from './EmailLog';
+import ReportSubscriptions from './ReportSubscriptions';
+import ReportBuilder from './ReportBuilder';
+import GeneralLedgerExport from './GeneralLedgerExport';
 
 interface ReportsProps {
   members: Member[];
   donations: Donation[];
   churchSettings: ChurchSettings;
+  canCreateTasks?: boolean;
+  canEmailStatements?: boolean;
+  canSendEmail?: boolean;
+  canScheduleReports?: boolean;
+  canManageReports?: boolean;
+  currentUserId?: number | null;
 }
 
-const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings }) => {
+const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings, canCreateTasks, canEmailStatements, canSendEmail, canScheduleReports, canManageReports, currentUserId }) => {
   const currentYear = new Date().getFullYear();
   const [year, setYear] = useState(currentYear.toString());
   const [isGenerating, setIsGenerating] = useState(false);
   const [done, setDone] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [combineHouseholds, setCombineHouseholds] = useState(false);
+  const [isEmailing, setIsEmailing] = useState(false);
+  const [emailNotice, setEmailNotice] = useState<string | null>(null);
+  const [emailLogOpen, setEmailLogOpen] = useState(false);
+  const [emailLogJobId, setEmailLogJobId] = useState<string | null>(null);
+  const [subscriptionsOpen, setSubscriptionsOpen] = useState(false);
   
   // Phase 2 + 3: Modal state
   const [modalOpen, setModalOpen] = useState(false);
-  const [modalType, setModalType] = useState<'missing-emails' | 'new-donors' | 'fund-distribution' | 'quarterly-progress' | 'trend-analysis' | null>(null);
+  const [modalType, setModalType] = useState<'missing-emails' | 'new-donors' | 'fund-distribution' | 'quarterly-progress' | 'trend-analysis' | 'budget-vs-actual' | null>(null);
   const [modalData, setModalData] = useState<any[]>([]);
   const [modalLoading, setModalLoading] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editEmail, setEditEmail] = useState('');
+  const [taskResult, setTaskResult] = useState<string | null>(null);
   const [exportType, setExportType] = useState<'donations' | 'members'>('donations');
   const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
   const [exportStartDate, setExportStartDate] = useState('');
   const [exportEndDate, setExportEndDate] = useState('');
   const [isExporting, setIsExporting] = useState(false);
   const [exportFund, setExportFund] = useState('');
+  const [exportPaymentMethod, setExportPaymentMethod] = useState('');
 
   // Chart colors for Recharts
   const COLORS = ['#4f46e5', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#14b8a6', '#f97316', '#6366f1'];
 
+  // Archived funds stay in the list so their history can still be exported
+  const { funds } = useFunds(true);
+
   const getUniqueFunds = () => {
-    const funds = new Set(donations.map(d => d.fund));
-    return Array.from(funds);
+    return Array.from(new Set([...funds.map(f => f.name), ...donations.map(d => d.fund)]));
   };
 
   // Generate range from 2022 to the current year
@@ -52,7 +73,7 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
     setDone(false);
     setError(null);
     try {
-      const blob = await api.downloadBatchStatement(year);
+      const blob = await api.downloadBatchStatement(year, combineHouseholds);
       
       if (blob.size === 0) {
         throw new Error('Received empty PDF file');
@@ -72,6 +93,43 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
     }
   };
   
+  // Queues the year's statements for every member with an email; delivery
+  // continues in the background and shows up in the email log
+  const handleEmailStatements = async () => {
+    if (!confirm(`Email ${year} contribution statements to every member with an email address on file?`)) return;
+    setIsEmailing(true);
+    setError(null);
+    setEmailNotice(null);
+    try {
+      const { job, queued } = await api.emailBatchStatements(year);
+      if (!job) {
+        setEmailNotice(`No members with an email address gave in ${year}.`);
+        return;
+      }
+      setEmailNotice(`Sending ${queued} statement${queued === 1 ? '' : 's'} by email.`);
+      setEmailLogJobId(job.id);
+      setEmailLogOpen(true);
+    } catch (err: any) {
+      console.error('Statement email error:', err);
+      setError(err.message || 'Failed to email statements');
+    } finally {
+      setIsEmailing(false);
+    }
+  };
+
+  // One task per member without an email, skipping members who already have one
+  const handleCreateEmailTasks = async () => {
+    try {
+      const { created } = await api.createMissingEmailTasks();
+      setTaskResult(created === 0
+        ? 'Every member listed already has an open task.'
+        : `Created ${created} follow-up task${created === 1 ? '' : 's'}.`);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
   const handleExport = async (reportName: string) => {
     if (reportName === 'Full Transaction Log') {
       try {
@@ -164,15 +222,41 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
       } finally {
         setModalLoading(false);
       }
+    } else if (reportName === 'Budget vs. Actual') {
+      try {
+        setModalLoading(true);
+        setModalType('budget-vs-actual');
+        setModalOpen(true);
+        const data = await api.getBudgetVsActual(year);
+        // One row per budgeted fund, then the total
+        setModalData(data.funds.length > 0 ? [...data.funds, { ...data.totals, budgetId: 'total' }] : []);
+      } catch(e: any) {
+        console.error(e);
+        alert(e.message);
+        setModalOpen(false);
+      } finally {
+        setModalLoading(false);
+      }
     } else {
       alert(`${reportName} is not yet implemented.`);
     }
   };
 
+  const handleBudgetExport = async (format: 'pdf' | 'csv') => {
+    try {
+      const blob = await api.exportBudgetVsActual(year, format);
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, '_blank');
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
   const handleDataExport = async () => {
     setIsExporting(true);
     try {
-      await api.exportData(exportType, exportFormat, exportStartDate, exportEndDate, exportFund);
+      await api.exportData(exportType, exportFormat, exportStartDate, exportEndDate, exportFund, exportPaymentMethod);
     } catch (err: any) {
       console.error('Export error:', err);
       alert(err.message || 'Failed to export data');
@@ -236,6 +320,16 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                 </div>
               </div>
 
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={combineHouseholds}
+                  onChange={(e) => setCombineHouseholds(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Combine household giving into joint statements
+              </label>
+
               <div className="bg-slate-50 rounded-xl p-6 border border-slate-100 flex items-start gap-4">
                 <div className="p-3 bg-white rounded-lg shadow-sm">
                   <FileText className="text-indigo-600" size={24} />
@@ -261,9 +355,30 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                     </>
                   )}
                 </button>
-                <button className="flex-1 flex items-center justify-center gap-3 py-4 bg-white border border-slate-200 text-slate-700 rounded-2xl font-bold text-lg hover:bg-slate-50 shadow-sm transition-all">
-                  <Send size={20} />
-                  Email to Members
+                {canEmailStatements && (
+                  <button
+                    onClick={handleEmailStatements}
+                    disabled={isEmailing}
+                    className="flex-1 flex items-center justify-center gap-3 py-4 bg-white border border-slate-200 text-slate-700 rounded-2xl font-bold text-lg hover:bg-slate-50 shadow-sm transition-all disabled:opacity-50"
+                  >
+                    {isEmailing ? 'Queuing...' : (
+                      <>
+                        <Send size={20} />
+                        Email to Members
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-500">{emailNotice}</span>
+                <button
+                  onClick={() => { setEmailLogJobId(null); setEmailLogOpen(true); }}
+                  className="flex items-center gap-2 font-bold text-indigo-600 hover:text-indigo-800"
+                >
+                  <Mail size={16} />
+                  View Email Log
                 </button>
               </div>
 
@@ -291,6 +406,8 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
               )}
             </div>
           </div>
+
+          <ReportBuilder funds={getUniqueFunds()} currentUserId={currentUserId ?? null} canManageAll={!!canManageReports} />
         </div>
 
         <div className="space-y-6">
@@ -301,6 +418,7 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                 'Full Transaction Log', 
                 'Top 10 Fund Distributions',
                 'Quarterly Progress Summary',
+                'Budget vs. Actual',
                 'Missing Email Report',
                 'New Donor List',
                 'Trend Analysis (3 Year)'
@@ -311,6 +429,15 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                 </button>
               ))}
             </div>
+            {canScheduleReports && (
+              <button
+                onClick={() => setSubscriptionsOpen(true)}
+                className="w-full mt-4 flex items-center justify-center gap-2 p-3 border border-indigo-200 text-indigo-700 rounded-xl text-sm font-bold hover:bg-indigo-50 transition-colors"
+              >
+                <CalendarClock size={16} />
+                Scheduled Reports
+              </button>
+            )}
           </div>
 
           <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
@@ -339,6 +466,15 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Payment Method</label>
+                <select value={exportPaymentMethod} onChange={(e) => setExportPaymentMethod(e.target.value)} disabled={exportType === 'members'} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900">
+                  <option value="">All Methods</option>
+                  {PAYMENT_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex gap-4">
                 <div className="flex-1">
                   <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Start Date</label>
@@ -360,6 +496,8 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
             </div>
           </div>
 
+          <GeneralLedgerExport />
+
           <div className="bg-indigo-900 rounded-2xl p-6 text-white shadow-xl">
             <h3 className="font-bold text-lg mb-2">Compliance Alert</h3>
             <p className="text-xs text-indigo-200 leading-relaxed mb-4">
@@ -372,6 +510,16 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
         </div>
       </div>
 
+      {emailLogOpen && (
+        <EmailLog
+          onClose={() => setEmailLogOpen(false)}
+          canRetry={!!canSendEmail}
+          initialJobId={emailLogJobId}
+        />
+      )}
+
+      {subscriptionsOpen && <ReportSubscriptions onClose={() => setSubscriptionsOpen(false)} />}
+
       {/* Phase 2: Report Modal */}
       {modalOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -384,16 +532,18 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                 {modalType === 'fund-distribution' && <PieChart className="text-indigo-500" size={24} />}
                 {modalType === 'quarterly-progress' && <TrendingUp className="text-blue-500" size={24} />}
                 {modalType === 'trend-analysis' && <BarChart3 className="text-purple-500" size={24} />}
+                {modalType === 'budget-vs-actual' && <Target className="text-emerald-500" size={24} />}
                 <h2 className="text-xl font-bold text-slate-800">
                   {modalType === 'missing-emails' && 'Missing Email Report'}
                   {modalType === 'new-donors' && 'New Donors (Last 30 Days)'}
                   {modalType === 'fund-distribution' && `Fund Distribution (${year})`}
                   {modalType === 'quarterly-progress' && `Quarterly Progress vs ${parseInt(year) - 1}`}
                   {modalType === 'trend-analysis' && 'Trend Analysis (3 Year)'}
+                  {modalType === 'budget-vs-actual' && `Budget vs. Actual (${year})`}
                 </h2>
               </div>
               <button 
-                onClick={() => { setModalOpen(false); setModalData([]); setEditingId(null); }}
+                onClick={() => { setModalOpen(false); setModalData([]); setEditingId(null); setTaskResult(null); }}
                 className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
               >
                 <X size={20} className="text-slate-400" />
@@ -409,6 +559,7 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                   {modalType === 'missing-emails' && '🎉 All members have email addresses!'}
                   {modalType === 'new-donors' && 'No new donors in the last 30 days.'}
                   {(modalType === 'fund-distribution' || modalType === 'quarterly-progress' || modalType === 'trend-analysis') && 'No donation data available for this period.'}
+                  {modalType === 'budget-vs-actual' && 'No budgets have been set for this year.'}
                 </div>
               ) : modalType === 'fund-distribution' ? (
                 <div className="h-80">
@@ -447,6 +598,43 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
+              ) : modalType === 'budget-vs-actual' ? (
+                <div className="space-y-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                        <th className="pb-3">Fund</th>
+                        <th className="pb-3 text-right">Annual</th>
+                        <th className="pb-3 text-right">YTD Budget</th>
+                        <th className="pb-3 text-right">YTD Actual</th>
+                        <th className="pb-3 text-right">Variance</th>
+                        <th className="pb-3 text-right">Pace</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {modalData.map((row) => (
+                        <tr key={row.budgetId} className={row.budgetId === 'total' ? 'font-bold text-slate-900' : 'text-slate-700'}>
+                          <td className="py-3">{row.fund}</td>
+                          <td className="py-3 text-right font-mono">${row.annualBudget.toFixed(2)}</td>
+                          <td className="py-3 text-right font-mono">${row.ytdBudget.toFixed(2)}</td>
+                          <td className="py-3 text-right font-mono">${row.ytdActual.toFixed(2)}</td>
+                          <td className={`py-3 text-right font-mono ${row.variance < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                            {row.variance < 0 ? '-' : '+'}${Math.abs(row.variance).toFixed(2)}
+                          </td>
+                          <td className="py-3 text-right">{row.pacePercent === null ? '—' : `${row.pacePercent.toFixed(1)}%`}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => handleBudgetExport('csv')} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50">
+                      <Download size={16} /> CSV
+                    </button>
+                    <button onClick={() => handleBudgetExport('pdf')} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700">
+                      <Download size={16} /> PDF
+                    </button>
+                  </div>
+                </div>
               ) : modalType === 'trend-analysis' ? (
                 <div className="h-80">
                   <ResponsiveContainer width="100%" height="100%">
@@ -533,10 +721,23 @@ const Reports: React.FC<ReportsProps> = ({ members, donations, churchSettings })
             </div>
 
             {/* Modal Footer */}
-            <div className="p-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+            <div className="p-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl flex items-center justify-between gap-4">
               <div className="text-sm text-slate-500">
                 {modalData.length} {modalData.length === 1 ? 'record' : 'records'} found
               </div>
+              {modalType === 'missing-emails' && canCreateTasks && modalData.length > 0 && (
+                taskResult ? (
+                  <span className="text-sm font-medium text-emerald-700">{taskResult}</span>
+                ) : (
+                  <button
+                    onClick={handleCreateEmailTasks}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 text-sm font-medium transition-colors"
+                  >
+                    <ClipboardList size={16} />
+                    Create Follow-Up Tasks
+                  </button>
+                )
+              )}
             </div>
           </div>
         </div>
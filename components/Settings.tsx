@@ -1,21 +1,50 @@
 
 import React, { useState, useEffect } from 'react';
-import { ChurchSettings } from '../types';
-import { Settings as SettingsIcon, Save, Building2, Phone, Mail, FileCheck, CheckCircle2, KeyRound, Shield, Lock } from 'lucide-react';
+import { ChurchSettings, TaskAssignee, AcknowledgmentMode } from '../types';
+import { Settings as SettingsIcon, Save, Building2, Phone, Mail, FileCheck, CheckCircle2, KeyRound, Shield, ScrollText, TrendingUp, ClipboardList, HeartHandshake } from 'lucide-react';
 import { formatPhoneNumber, cleanInput } from '../src/lib/utils';
+import { fetchTaskAssignees } from '../src/lib/api';
 import { useRecordLock } from '../src/hooks/useRecordLock';
+import RecordLockBanner from './RecordLockBanner';
+import FundManager from './FundManager';
+import BudgetManager from './BudgetManager';
+import GlAccountSettings from './GlAccountSettings';
+import ActiveLocks from './ActiveLocks';
+import EmailTemplateManager from './EmailTemplateManager';
 
 interface SettingsProps {
   settings: ChurchSettings;
   onUpdate: (settings: ChurchSettings) => void;
   onChangePassword?: () => void;
+  canManageFunds?: boolean;
+  canManageBudgets?: boolean;
+  canManageGlAccounts?: boolean;
+  canManageLocks?: boolean;
+  canManageEmail?: boolean;
 }
 
-const Settings: React.FC<SettingsProps> = ({ settings, onUpdate, onChangePassword }) => {
+type RiskField = 'riskWatchScore' | 'riskAlertScore' | 'riskMinGifts' | 'riskLookbackMonths' | 'riskDropPercent' | 'riskContactSnoozeDays';
+
+const RISK_FIELDS: { key: RiskField; label: string; min: number; max: number; help: string }[] = [
+  { key: 'riskWatchScore', label: 'Watch Score', min: 1, max: 100, help: 'Donors at or above this score are listed.' },
+  { key: 'riskAlertScore', label: 'At-Risk Score', min: 1, max: 100, help: 'Donors at or above this score are marked at risk.' },
+  { key: 'riskDropPercent', label: 'Amount Drop (%)', min: 1, max: 100, help: 'How far recent gifts must fall below usual to count.' },
+  { key: 'riskMinGifts', label: 'Minimum Gifts', min: 2, max: 52, help: 'Gifts needed before a cadence is learned.' },
+  { key: 'riskLookbackMonths', label: 'History (Months)', min: 3, max: 60, help: 'How much giving history is read.' },
+  { key: 'riskContactSnoozeDays', label: 'Snooze After Contact (Days)', min: 0, max: 365, help: 'Contacted donors leave the watchlist this long.' },
+];
+
+const Settings: React.FC<SettingsProps> = ({ settings, onUpdate, onChangePassword, canManageFunds, canManageBudgets, canManageGlAccounts, canManageLocks, canManageEmail }) => {
   const [formData, setFormData] = useState<ChurchSettings>(settings);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [assignees, setAssignees] = useState<TaskAssignee[]>([]);
+
+  useEffect(() => {
+    fetchTaskAssignees().then(setAssignees).catch(error => console.error('Failed to load assignees:', error));
+  }, []);
 
-  const { isLockedByOther, lockedBy, acquireLock, releaseLock } = useRecordLock("settings", "singleton");
+  const lock = useRecordLock("settings", "singleton");
+  const { isReadOnly, acquireLock, releaseLock } = lock;
 
   useEffect(() => {
     acquireLock();
@@ -38,18 +67,10 @@ const Settings: React.FC<SettingsProps> = ({ settings, onUpdate, onChangePasswor
         <p className="text-slate-500 mt-1">Configure your church identity and application preferences.</p>
       </header>
 
-      {isLockedByOther && (
-        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-center gap-3 animate-in slide-in-from-top-2">
-          <Lock className="text-amber-600" size={24} />
-          <div>
-            <h3 className="font-bold text-amber-800">Settings Locked</h3>
-            <p className="text-sm text-amber-700">These settings are currently being edited by <span className="font-bold">{lockedBy}</span>. Read-only mode active.</p>
-          </div>
-        </div>
-      )}
+      <RecordLockBanner lock={lock} subject="these settings" className="border rounded-xl animate-in slide-in-from-top-2" />
 
       {/* Church Information Card */}
-      <div className={`bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden ${isLockedByOther ? 'opacity-75 pointer-events-none' : ''}`}>
+      <div className={`bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden ${isReadOnly ? 'opacity-75 pointer-events-none' : ''}`}>
         <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
           <Building2 size={20} className="text-indigo-600" />
           <h2 className="font-bold text-slate-800">Church Information</h2>
@@ -114,6 +135,150 @@ const Settings: React.FC<SettingsProps> = ({ settings, onUpdate, onChangePasswor
             </div>
           </div>
 
+          <div className="pt-6 border-t border-slate-100 space-y-6">
+            <div className="flex items-center gap-2">
+              <ScrollText size={18} className="text-indigo-600" />
+              <h3 className="font-bold text-slate-800">Contribution Statement Template</h3>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Intro Letter (Optional)</label>
+              <textarea
+                rows={4}
+                placeholder="Dear {name}, thank you for your faithful giving in {year}..."
+                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                value={formData.statementIntro || ''}
+                onChange={(e) => setFormData({...formData, statementIntro: e.target.value})}
+              />
+              <p className="text-xs text-slate-400 mt-1">{'{name}'} and {'{year}'} are replaced on each statement.</p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Disclosure Text</label>
+              <textarea
+                rows={3}
+                placeholder="No goods or services were provided in exchange for these contributions other than intangible religious benefits, except as itemized above."
+                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                value={formData.statementDisclosure || ''}
+                onChange={(e) => setFormData({...formData, statementDisclosure: e.target.value})}
+              />
+              <p className="text-xs text-slate-400 mt-1">Leave blank to use the standard IRS substantiation language.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Signed By</label>
+                <input
+                  type="text"
+                  placeholder="Jane Doe"
+                  className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                  value={formData.statementSignerName || ''}
+                  onChange={(e) => setFormData({...formData, statementSignerName: e.target.value})}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Signer Title</label>
+                <input
+                  type="text"
+                  placeholder="Treasurer"
+                  className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                  value={formData.statementSignerTitle || ''}
+                  onChange={(e) => setFormData({...formData, statementSignerTitle: e.target.value})}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-6 border-t border-slate-100 space-y-6">
+            <div className="flex items-center gap-2">
+              <TrendingUp size={18} className="text-indigo-600" />
+              <h3 className="font-bold text-slate-800">At-Risk Donor Thresholds</h3>
+            </div>
+            <p className="text-sm text-slate-500">
+              Each donor's cadence is learned from their giving history. Scores run from 0 to 100 and rise with skipped gifts, consecutive misses and drops in amount.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {RISK_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{field.label}</label>
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step="1"
+                    className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                    value={formData[field.key] ?? ''}
+                    onChange={(e) => setFormData({...formData, [field.key]: e.target.value === '' ? undefined : parseInt(e.target.value)})}
+                  />
+                  <p className="text-xs text-slate-400 mt-1">{field.help}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-6 border-t border-slate-100 space-y-6">
+            <div className="flex items-center gap-2">
+              <ClipboardList size={18} className="text-indigo-600" />
+              <h3 className="font-bold text-slate-800">Follow-Up Tasks</h3>
+            </div>
+            <p className="text-sm text-slate-500">
+              Tasks are created automatically when someone registers online, gives for the first time, or when the missing email report is turned into tasks.
+            </p>
+
+            <div className="md:w-1/2">
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Default Assignee</label>
+              <select
+                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                value={formData.followUpAssigneeId ?? ''}
+                onChange={(e) => setFormData({...formData, followUpAssigneeId: e.target.value === '' ? null : parseInt(e.target.value)})}
+              >
+                <option value="">Leave unassigned</option>
+                {assignees.map(a => (
+                  <option key={a.id} value={a.id}>{a.username}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-400 mt-1">Automatic tasks go to this person.</p>
+            </div>
+          </div>
+
+          <div className="pt-6 border-t border-slate-100 space-y-6">
+            <div className="flex items-center gap-2">
+              <HeartHandshake size={18} className="text-indigo-600" />
+              <h3 className="font-bold text-slate-800">Gift Acknowledgments</h3>
+            </div>
+            <p className="text-sm text-slate-500">
+              Thank donors by email with a receipt attached, using the acknowledgment templates below. Members without an email address or who opted out from their profile are skipped.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">When to Send</label>
+                <select
+                  className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                  value={formData.acknowledgmentMode || 'off'}
+                  onChange={(e) => setFormData({...formData, acknowledgmentMode: e.target.value as AcknowledgmentMode})}
+                >
+                  <option value="off">Don't send acknowledgments</option>
+                  <option value="immediate">As each gift is entered</option>
+                  <option value="weekly">Weekly digest per donor</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Minimum Gift ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-full px-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-slate-900 shadow-sm"
+                  value={formData.acknowledgmentThreshold ?? ''}
+                  onChange={(e) => setFormData({...formData, acknowledgmentThreshold: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                />
+                <p className="text-xs text-slate-400 mt-1">Set to 250 to send receipts only for gifts that need written substantiation.</p>
+              </div>
+            </div>
+          </div>
+
           <div className="pt-6 border-t border-slate-100 flex items-center justify-between">
             <p className="text-xs text-slate-400 italic">These details will appear on all generated contribution statements.</p>
             <div className="flex items-center gap-4">
@@ -135,6 +300,16 @@ const Settings: React.FC<SettingsProps> = ({ settings, onUpdate, onChangePasswor
         </form>
       </div>
 
+      {canManageFunds && <FundManager />}
+
+      {canManageBudgets && <BudgetManager />}
+
+      {canManageGlAccounts && <GlAccountSettings />}
+
+      {canManageEmail && <EmailTemplateManager />}
+
+      {canManageLocks && <ActiveLocks />}
+
       {/* Security Settings Card */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center gap-2">
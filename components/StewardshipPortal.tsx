@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Target, TrendingUp, Info, History, Calendar, CheckCircle2, LayoutDashboard, FileText, ArrowUpRight } from 'lucide-react';
 import { fetchCampaigns, createCampaign } from '../src/lib/api';
+import { useFunds } from '../src/hooks/useFunds';
+import PledgeTracker from './PledgeTracker';
+import RecurringGiftTracker from './RecurringGiftTracker';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
 
 interface Campaign {
@@ -10,6 +13,7 @@ interface Campaign {
   description: string;
   goal_amount: number;
   current_amount: number;
+  pledged_amount: number;
   end_date?: string;
   is_active: boolean;
 }
@@ -18,8 +22,9 @@ const StewardshipPortal: React.FC = () => {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const { funds } = useFunds();
   const [newCampaign, setNewCampaign] = useState({
-    fundName: 'Offering',
+    fundName: '',
     title: '',
     description: '',
     goalAmount: '',
@@ -50,7 +55,7 @@ const StewardshipPortal: React.FC = () => {
         goalAmount: parseFloat(newCampaign.goalAmount)
       });
       setIsModalOpen(false);
-      setNewCampaign({ fundName: 'Offering', title: '', description: '', goalAmount: '', endDate: '' });
+      setNewCampaign({ fundName: '', title: '', description: '', goalAmount: '', endDate: '' });
       loadCampaigns();
     } catch (error) {
       console.error('Failed to create campaign:', error);
@@ -89,6 +94,7 @@ const StewardshipPortal: React.FC = () => {
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
           {campaigns.map(campaign => {
             const progress = (campaign.current_amount / campaign.goal_amount) * 100;
+            const pledgedProgress = (campaign.pledged_amount / campaign.goal_amount) * 100;
             const remaining = Math.max(0, campaign.goal_amount - campaign.current_amount);
             
             const chartData = [
@@ -124,6 +130,9 @@ const StewardshipPortal: React.FC = () => {
                           <span className="text-4xl font-black text-slate-900">${parseFloat(campaign.current_amount.toString()).toLocaleString()}</span>
                           <span className="text-slate-400 text-sm mb-1">/ ${parseFloat(campaign.goal_amount.toString()).toLocaleString()}</span>
                         </div>
+                        <div className="text-sm text-slate-500 mt-1">
+                          <span className="font-bold text-emerald-700">${parseFloat(campaign.pledged_amount.toString()).toLocaleString()}</span> pledged
+                        </div>
                       </div>
 
                       <div className="space-y-4">
@@ -132,12 +141,21 @@ const StewardshipPortal: React.FC = () => {
                             <span className="text-slate-500">Progress</span>
                             <span className="text-emerald-600 font-black">{progress.toFixed(1)}%</span>
                           </div>
-                          <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="relative h-3 bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                              className="absolute inset-y-0 left-0 bg-emerald-200 rounded-full transition-all duration-1000"
+                              style={{ width: `${Math.min(100, pledgedProgress)}%` }}
+                              title="Pledged"
+                            />
                             <div 
-                              className="h-full bg-emerald-500 rounded-full transition-all duration-1000" 
+                              className="relative h-full bg-emerald-500 rounded-full transition-all duration-1000" 
                               style={{ width: `${Math.min(100, progress)}%` }}
                             />
                           </div>
+                          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2">
+                            <span>Received</span>
+                            <span>Pledged {pledgedProgress.toFixed(1)}%</span>
+                          </div>
                         </div>
                         
                         <div className="flex items-center gap-4 text-xs font-medium text-slate-500 bg-slate-50 p-3 rounded-xl border border-slate-100">
@@ -185,6 +203,10 @@ const StewardshipPortal: React.FC = () => {
         </div>
       )}
 
+      <PledgeTracker campaigns={campaigns} onPledgesChanged={loadCampaigns} />
+
+      <RecurringGiftTracker />
+
       {/* New Campaign Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm">
@@ -212,20 +234,15 @@ const StewardshipPortal: React.FC = () => {
                 <div>
                   <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Target Fund</label>
                   <select 
+                    required
                     className="w-full px-4 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500 text-slate-900"
                     value={newCampaign.fundName}
                     onChange={e => setNewCampaign({...newCampaign, fundName: e.target.value})}
                   >
-                    <option value="Benevolence">Benevolence</option>
-                    <option value="Church School">Church School</option>
-                    <option value="Lay">Lay</option>
-                    <option value="Offering">Offering</option>
-                    <option value="Other">Other</option>
-                    <option value="Revival">Revival</option>
-                    <option value="Tithes">Tithes</option>
-                    <option value="Upkeep">Upkeep</option>
-                    <option value="WMS">WMS</option>
-                    <option value="YPD">YPD</option>
+                    <option value="">Choose a fund...</option>
+                    {funds.map(f => (
+                      <option key={f.id} value={f.name}>{f.name}</option>
+                    ))}
                   </select>
                 </div>
                 <div>
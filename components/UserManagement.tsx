@@ -4,6 +4,7 @@ import {
   Edit2, X, Check, AlertCircle, Loader2, Mail, Calendar 
 } from 'lucide-react';
 import { useRecordLock } from '../src/hooks/useRecordLock';
+import RecordLockBanner from './RecordLockBanner';
 
 interface User {
   id: number;
@@ -119,10 +120,8 @@ const UserManagement: React.FC<UserManagementProps> = ({ currentUserId, currentU
     setShowEditModal(true);
   };
 
-  const { isLockedByOther, lockedBy, acquireLock, releaseLock } = useRecordLock(
-    "user",
-    editingUser ? String(editingUser.id) : null
-  );
+  const lock = useRecordLock("user", editingUser ? String(editingUser.id) : null);
+  const { isReadOnly, acquireLock, releaseLock } = lock;
 
   useEffect(() => {
     if (showEditModal && editingUser) {
@@ -487,16 +486,9 @@ const UserManagement: React.FC<UserManagementProps> = ({ currentUserId, currentU
               </button>
             </div>
 
-            {isLockedByOther && (
-              <div className="bg-amber-50 border-b border-amber-100 p-4 flex items-center gap-3">
-                <Lock className="text-amber-600" size={20} />
-                <div className="text-sm text-amber-800">
-                  <span className="font-bold">Locked:</span> Edited by <span className="font-bold">{lockedBy}</span>.
-                </div>
-              </div>
-            )}
+            <RecordLockBanner lock={lock} subject="this user" />
 
-            <form onSubmit={handleUpdateUser} className={`p-6 space-y-4 ${isLockedByOther ? 'opacity-50 pointer-events-none' : ''}`}>
+            <form onSubmit={handleUpdateUser} className={`p-6 space-y-4 ${isReadOnly ? 'opacity-50 pointer-events-none' : ''}`}>
               <div>
                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Username</label>
                 <input
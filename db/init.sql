@@ -23,9 +23,39 @@ CREATE TABLE IF NOT EXISTS members (
     skills TEXT[] DEFAULT '{}',
     interests TEXT[] DEFAULT '{}',
     joined_at TIMESTAMP WITH TIME ZONE,
+    acknowledgment_opt_out BOOLEAN NOT NULL DEFAULT false, -- no per-gift thank-you emails
+    version INTEGER NOT NULL DEFAULT 1, -- incremented on every edit (If-Match checks)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- -----------------------------------------------------------------------------
+-- Households Table (family giving units)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS households (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,                 -- e.g. "Smith Household"
+    salutation TEXT,                    -- e.g. "Mr. & Mrs. John Smith"
+    head_member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    address TEXT,
+    city TEXT,
+    state TEXT,
+    zip TEXT,
+    joint_statements BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'members_family_id_fkey'
+    ) THEN
+        ALTER TABLE members
+        ADD CONSTRAINT members_family_id_fkey
+        FOREIGN KEY (family_id) REFERENCES households(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
 -- -----------------------------------------------------------------------------
 -- Users Table (Enhanced for Security)
 -- -----------------------------------------------------------------------------
@@ -85,6 +115,74 @@ CREATE TABLE IF NOT EXISTS ministry_opportunities (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- -----------------------------------------------------------------------------
+-- Deposit Batches Table (Offering Reconciliation)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS deposit_batches (
+    id SERIAL PRIMARY KEY,
+    batch_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    description TEXT,
+    expected_cash_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    expected_cash_count INTEGER NOT NULL DEFAULT 0,
+    expected_check_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    expected_check_count INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed'
+    created_by TEXT,
+    closed_by TEXT,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT deposit_batches_status_check CHECK (status IN ('open', 'closed'))
+);
+
+-- -----------------------------------------------------------------------------
+-- Donation Imports Table (bank / online giving exports)
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS donation_imports (
+    id SERIAL PRIMARY KEY,
+    provider TEXT NOT NULL, -- 'generic', 'tithely', 'pushpay', 'bank'
+    file_name TEXT,
+    status TEXT NOT NULL DEFAULT 'review', -- 'review' while rows are pending, then 'completed'
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT donation_imports_status_check CHECK (status IN ('review', 'completed'))
+);
+
+-- -----------------------------------------------------------------------------
+-- Funds Table (fund catalog)
+-- -----------------------------------------------------------------------------
+-- Tables that record a fund store its name as a foreign key with
+-- ON UPDATE CASCADE, so renaming a fund carries its history with it.
+CREATE TABLE IF NOT EXISTS funds (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE, -- short accounting code, e.g. 'TITHES'
+    name TEXT NOT NULL UNIQUE, -- display name stored on donations
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true, -- false = archived, kept for history
+    tax_deductible BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    parent_id INTEGER REFERENCES funds(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT funds_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+INSERT INTO funds (code, name, description, sort_order) VALUES
+('TITHES', 'Tithes', NULL, 10),
+('OFFERING', 'Offering', NULL, 20),
+('GENERAL', 'General', 'Default fund for gifts recorded without one', 30),
+('BENEVOLENCE', 'Benevolence', NULL, 40),
+('CHURCH_SCHOOL', 'Church School', NULL, 50),
+('LAY', 'Lay', 'Lay Organization', 60),
+('REVIVAL', 'Revival', NULL, 70),
+('UPKEEP', 'Upkeep', 'Building and grounds', 80),
+('WMS', 'WMS', 'Women''s Missionary Society', 90),
+('YPD', 'YPD', 'Young People''s Division', 100),
+('OTHER', 'Other', NULL, 110)
+ON CONFLICT DO NOTHING;
+
 -- -----------------------------------------------------------------------------
 -- Donations Table
 -- -----------------------------------------------------------------------------
@@ -92,10 +190,29 @@ CREATE TABLE IF NOT EXISTS donations (
     id SERIAL PRIMARY KEY,
     member_id TEXT REFERENCES members(id) ON DELETE CASCADE,
     amount DECIMAL(12, 2) NOT NULL,
-    fund TEXT NOT NULL,
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
     notes TEXT,
     entered_by TEXT,
-    donation_date TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    donation_date TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    batch_id INTEGER REFERENCES deposit_batches(id) ON DELETE SET NULL,
+    payment_method TEXT DEFAULT 'cash', -- NULL for legacy rows recorded before methods were tracked
+    check_number TEXT,
+    payment_reference TEXT,
+    -- Quid-pro-quo: goods or services received; deductible = amount - value
+    goods_services_provided BOOLEAN NOT NULL DEFAULT false,
+    goods_services_value DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    goods_services_description TEXT,
+    -- 'manual' for hand-entered gifts, otherwise the import provider
+    source TEXT NOT NULL DEFAULT 'manual',
+    external_id TEXT,
+    import_id INTEGER REFERENCES donation_imports(id) ON DELETE SET NULL,
+    acknowledged_at TIMESTAMP WITH TIME ZONE, -- thank-you email queued
+    version INTEGER NOT NULL DEFAULT 1, -- incremented on every edit (If-Match checks)
+    idempotency_key TEXT, -- client-generated key; a retried post replays the recorded gift
+    CONSTRAINT donations_payment_method_check
+        CHECK (payment_method IN ('cash', 'check', 'card', 'ach', 'online', 'in_kind', 'stock')),
+    CONSTRAINT donations_goods_services_value_check
+        CHECK (goods_services_value >= 0 AND goods_services_value <= amount)
 );
 
 -- -----------------------------------------------------------------------------
@@ -103,7 +220,7 @@ CREATE TABLE IF NOT EXISTS donations (
 -- -----------------------------------------------------------------------------
 CREATE TABLE IF NOT EXISTS fund_campaigns (
     id SERIAL PRIMARY KEY,
-    fund_name TEXT NOT NULL, -- Ties to the 'fund' column in donations
+    fund_name TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE, -- Ties to the 'fund' column in donations
     title TEXT NOT NULL,
     description TEXT,
     goal_amount DECIMAL(12,2) NOT NULL,
@@ -120,6 +237,71 @@ INSERT INTO fund_campaigns (fund_name, title, description, goal_amount) VALUES
 ('Church School', 'Youth Mission Trip 2024', 'Supporting our youth program outreach.', 5000.00)
 ON CONFLICT (id) DO NOTHING;
 
+-- -----------------------------------------------------------------------------
+-- Pledges Table
+-- -----------------------------------------------------------------------------
+-- Fulfillment is computed from matching donations (same member and fund,
+-- within the pledge window) rather than stored.
+CREATE TABLE IF NOT EXISTS pledges (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    campaign_id INTEGER REFERENCES fund_campaigns(id) ON DELETE SET NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'one_time', -- 'one_time', 'weekly', 'monthly', 'quarterly', 'annually'
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    end_date DATE,
+    status TEXT NOT NULL DEFAULT 'active', -- 'active', 'cancelled'
+    notes TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT pledges_amount_check CHECK (amount > 0),
+    CONSTRAINT pledges_frequency_check CHECK (frequency IN ('one_time', 'weekly', 'monthly', 'quarterly', 'annually')),
+    CONSTRAINT pledges_status_check CHECK (status IN ('active', 'cancelled')),
+    CONSTRAINT pledges_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- -----------------------------------------------------------------------------
+-- Recurring Gift Tables
+-- -----------------------------------------------------------------------------
+-- The recurring gift job creates one expected installment per due date and
+-- links received donations to them.
+CREATE TABLE IF NOT EXISTS recurring_gifts (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    amount DECIMAL(12, 2) NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'monthly', -- 'weekly', 'biweekly', 'monthly', 'quarterly', 'annually'
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    end_date DATE, -- NULL = open-ended
+    payment_method TEXT,
+    status TEXT NOT NULL DEFAULT 'active', -- 'active', 'paused', 'cancelled'
+    notes TEXT,
+    generated_through DATE, -- last day the job has created installments for
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT recurring_gifts_amount_check CHECK (amount > 0),
+    CONSTRAINT recurring_gifts_frequency_check CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'annually')),
+    CONSTRAINT recurring_gifts_status_check CHECK (status IN ('active', 'paused', 'cancelled')),
+    CONSTRAINT recurring_gifts_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- One expected gift per schedule and due date
+CREATE TABLE IF NOT EXISTS recurring_gift_installments (
+    id SERIAL PRIMARY KEY,
+    recurring_gift_id INTEGER NOT NULL REFERENCES recurring_gifts(id) ON DELETE CASCADE,
+    due_date DATE NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'expected', -- 'expected', 'received', 'missed', 'skipped'
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    matched_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT recurring_gift_installments_status_check CHECK (status IN ('expected', 'received', 'missed', 'skipped')),
+    CONSTRAINT recurring_gift_installments_due_unique UNIQUE (recurring_gift_id, due_date)
+);
+
 -- -----------------------------------------------------------------------------
 -- Indexes for Performance
 -- -----------------------------------------------------------------------------
@@ -129,12 +311,28 @@ CREATE INDEX IF NOT EXISTS idx_users_member_id ON users(member_id);
 CREATE INDEX IF NOT EXISTS idx_members_last_name ON members(last_name);
 CREATE INDEX IF NOT EXISTS idx_members_email ON members(email);
 CREATE INDEX IF NOT EXISTS idx_members_created_at ON members(created_at);
+CREATE INDEX IF NOT EXISTS idx_members_family_id ON members(family_id);
 CREATE INDEX IF NOT EXISTS idx_members_skills ON members USING GIN (skills);
 CREATE INDEX IF NOT EXISTS idx_members_interests ON members USING GIN (interests);
 CREATE INDEX IF NOT EXISTS idx_donations_member_id ON donations(member_id);
 CREATE INDEX IF NOT EXISTS idx_donations_donation_date ON donations(donation_date);
+CREATE INDEX IF NOT EXISTS idx_donations_unacknowledged ON donations(donation_date) WHERE acknowledged_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_donations_fund ON donations(fund);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_source_external_id
+    ON donations(source, external_id) WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_batch_id ON donations(batch_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_idempotency_key ON donations(idempotency_key) WHERE idempotency_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_member_check_number ON donations(member_id, check_number) WHERE check_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_payment_method ON donations(payment_method);
+CREATE INDEX IF NOT EXISTS idx_deposit_batches_status ON deposit_batches(status, batch_date);
 CREATE INDEX IF NOT EXISTS idx_fund_campaigns_fund ON fund_campaigns (fund_name);
+CREATE INDEX IF NOT EXISTS idx_pledges_member_fund ON pledges(member_id, fund);
+CREATE INDEX IF NOT EXISTS idx_pledges_campaign_id ON pledges(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_funds_active_sort ON funds(is_active, sort_order, name);
+CREATE INDEX IF NOT EXISTS idx_recurring_gifts_member_fund ON recurring_gifts(member_id, fund);
+CREATE INDEX IF NOT EXISTS idx_recurring_gift_installments_status ON recurring_gift_installments(status, due_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurring_gift_installments_donation
+    ON recurring_gift_installments(donation_id) WHERE donation_id IS NOT NULL;
 
 -- -----------------------------------------------------------------------------
 -- Settings Table
@@ -146,9 +344,30 @@ CREATE TABLE IF NOT EXISTS settings (
     phone TEXT,
     email TEXT,
     tax_id TEXT,
+    -- Contribution statement template (NULL disclosure uses the default text)
+    statement_intro TEXT,
+    statement_disclosure TEXT,
+    statement_signer_name TEXT,
+    statement_signer_title TEXT,
+    -- At-risk donor model thresholds
+    risk_watch_score INTEGER NOT NULL DEFAULT 40,
+    risk_alert_score INTEGER NOT NULL DEFAULT 70,
+    risk_min_gifts INTEGER NOT NULL DEFAULT 4,
+    risk_lookback_months INTEGER NOT NULL DEFAULT 24,
+    risk_drop_percent INTEGER NOT NULL DEFAULT 50,
+    risk_contact_snooze_days INTEGER NOT NULL DEFAULT 30,
+    -- Staff user automatic follow-up tasks are assigned to
+    follow_up_assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    -- Per-gift acknowledgments: 'off', 'immediate' or 'weekly' digest
+    acknowledgment_mode TEXT NOT NULL DEFAULT 'off',
+    acknowledgment_threshold DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    acknowledgment_digest_sent_at TIMESTAMP WITH TIME ZONE,
+    -- General ledger export: account debited for each day's or batch's giving
+    gl_deposit_account TEXT NOT NULL DEFAULT 'Undeposited Funds',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT single_row CHECK (singleton_id)
+    CONSTRAINT single_row CHECK (singleton_id),
+    CONSTRAINT settings_acknowledgment_mode_check CHECK (acknowledgment_mode IN ('off', 'immediate', 'weekly'))
 );
 
 -- Seed initial settings
@@ -156,6 +375,304 @@ INSERT INTO settings (name, address, phone, email, tax_id)
 VALUES ('Mt. Herman A.M.E. Church', '123 Main St, Anytown, ST 12345', '(555) 123-4567', 'office@mthermaname.org', '12-3456789')
 ON CONFLICT (singleton_id) DO NOTHING;
 
+-- -----------------------------------------------------------------------------
+-- Statement Issues Table
+-- -----------------------------------------------------------------------------
+-- One row per generated statement PDF; regenerating for the same recipient
+-- and year records a reissue pointing at the previous statement.
+CREATE TABLE IF NOT EXISTS statement_issues (
+    id SERIAL PRIMARY KEY,
+    statement_number TEXT NOT NULL UNIQUE, -- e.g. 2026-000042
+    tax_year INTEGER NOT NULL,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    household_id TEXT REFERENCES households(id) ON DELETE SET NULL,
+    total_amount DECIMAL(12, 2) NOT NULL,
+    deductible_amount DECIMAL(12, 2) NOT NULL,
+    reissue_of INTEGER REFERENCES statement_issues(id) ON DELETE SET NULL,
+    issued_by TEXT,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_issues_recipient
+    ON statement_issues(tax_year, member_id, household_id);
+
+-- -----------------------------------------------------------------------------
+-- Donor Contacts Table
+-- -----------------------------------------------------------------------------
+-- One row each time someone reaches out to a donor flagged as at risk.
+CREATE TABLE IF NOT EXISTS donor_contacts (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    note TEXT,
+    contacted_by TEXT,
+    contacted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_contacts_member ON donor_contacts(member_id, contacted_at DESC);
+
+-- -----------------------------------------------------------------------------
+-- Follow-Up Tasks Table
+-- -----------------------------------------------------------------------------
+-- Pastoral follow-ups assigned to a staff user, created by hand or
+-- automatically (new registration, first gift, at-risk flag, missing email).
+CREATE TABLE IF NOT EXISTS follow_up_tasks (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    origin TEXT NOT NULL DEFAULT 'manual', -- 'manual', 'at_risk', 'new_member', 'new_donor', 'missing_email'
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'in_progress', 'done', 'cancelled'
+    due_date DATE,
+    created_by TEXT, -- NULL for automatic tasks
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT follow_up_tasks_origin_check CHECK (origin IN ('manual', 'at_risk', 'new_member', 'new_donor', 'missing_email')),
+    CONSTRAINT follow_up_tasks_status_check CHECK (status IN ('open', 'in_progress', 'done', 'cancelled'))
+);
+
+CREATE TABLE IF NOT EXISTS follow_up_task_notes (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL REFERENCES follow_up_tasks(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    author TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_tasks_assignee ON follow_up_tasks(assigned_to, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_follow_up_tasks_member ON follow_up_tasks(member_id);
+CREATE INDEX IF NOT EXISTS idx_follow_up_task_notes_task ON follow_up_task_notes(task_id, created_at);
+-- At most one open automatic task per member and reason
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_tasks_open_origin
+    ON follow_up_tasks(member_id, origin)
+    WHERE origin <> 'manual' AND status IN ('open', 'in_progress');
+
+-- -----------------------------------------------------------------------------
+-- Email Delivery Tables
+-- -----------------------------------------------------------------------------
+-- Statements and receipts sent by email. email_messages is the send log,
+-- one row per recipient; batch sends are grouped under an email_jobs row.
+CREATE TABLE IF NOT EXISTS email_templates (
+    template_key TEXT PRIMARY KEY, -- 'statement', 'receipt', 'acknowledgment', 'acknowledgment_digest', 'report'
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS email_jobs (
+    id SERIAL PRIMARY KEY,
+    template_key TEXT NOT NULL,
+    tax_year INTEGER,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS email_messages (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER REFERENCES email_jobs(id) ON DELETE CASCADE,
+    template_key TEXT NOT NULL,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    recipient_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    attachment JSONB, -- how to rebuild the PDF, e.g. {"type": "statement", "memberId": "...", "year": 2025}
+    status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'sending', 'sent', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    transport_message_id TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT email_messages_status_check CHECK (status IN ('queued', 'sending', 'sent', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_job ON email_messages(job_id, status);
+CREATE INDEX IF NOT EXISTS idx_email_messages_member ON email_messages(member_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_donation ON email_messages(donation_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_status ON email_messages(status, created_at);
+
+-- -----------------------------------------------------------------------------
+-- Report Subscription Tables
+-- -----------------------------------------------------------------------------
+-- Standard reports rendered on a schedule and delivered by email or to each
+-- recipient's Report Inbox. report_deliveries keeps each rendered file.
+CREATE TABLE IF NOT EXISTS report_subscriptions (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    report_type TEXT NOT NULL, -- 'fund_distribution', 'quarterly_progress', 'trend_analysis', 'new_donors'
+    params JSONB NOT NULL DEFAULT '{}', -- e.g. {"year": 2026, "fund": "Building"}
+    format TEXT NOT NULL DEFAULT 'pdf', -- 'pdf', 'csv'
+    cadence TEXT NOT NULL, -- 'weekly', 'monthly', 'quarterly'
+    channel TEXT NOT NULL DEFAULT 'inbox', -- 'inbox', 'email'
+    recipient_user_ids INTEGER[] NOT NULL DEFAULT '{}',
+    recipient_emails TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT report_subscriptions_report_type_check
+        CHECK (report_type IN ('fund_distribution', 'quarterly_progress', 'trend_analysis', 'new_donors')),
+    CONSTRAINT report_subscriptions_format_check CHECK (format IN ('pdf', 'csv')),
+    CONSTRAINT report_subscriptions_cadence_check CHECK (cadence IN ('weekly', 'monthly', 'quarterly')),
+    CONSTRAINT report_subscriptions_channel_check CHECK (channel IN ('inbox', 'email'))
+);
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+    id SERIAL PRIMARY KEY,
+    subscription_id INTEGER REFERENCES report_subscriptions(id) ON DELETE SET NULL,
+    report_type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    period TEXT,
+    format TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    content BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS report_inbox_items (
+    id SERIAL PRIMARY KEY,
+    delivery_id INTEGER NOT NULL REFERENCES report_deliveries(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT report_inbox_items_unique UNIQUE (delivery_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_due ON report_subscriptions(next_run_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_subscription ON report_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_inbox_items_user ON report_inbox_items(user_id, id DESC);
+
+-- -----------------------------------------------------------------------------
+-- Report Definitions Table
+-- -----------------------------------------------------------------------------
+-- Custom reports saved from the report builder, shared with roles.
+CREATE TABLE IF NOT EXISTS report_definitions (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL, -- {"dimensions": ["fund"], "measures": ["sum"], "filters": {...}, ...}
+    shared_roles TEXT[] NOT NULL DEFAULT '{}', -- roles that can run it besides the owner
+    owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_definitions_owner ON report_definitions(owner_id);
+
+-- -----------------------------------------------------------------------------
+-- Fund Budgets Table
+-- -----------------------------------------------------------------------------
+-- Annual budget per fund, spread over the months it is expected to come in.
+CREATE TABLE IF NOT EXISTS fund_budgets (
+    id SERIAL PRIMARY KEY,
+    fund_name TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    budget_year INTEGER NOT NULL,
+    annual_amount DECIMAL(12, 2) NOT NULL CHECK (annual_amount >= 0),
+    distribution TEXT NOT NULL DEFAULT 'even', -- 'even', 'seasonal' (last year's pattern) or 'custom'
+    monthly_amounts DECIMAL(12, 2)[] NOT NULL, -- January..December, summing to annual_amount
+    notes TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fund_budgets_fund_year_unique UNIQUE (fund_name, budget_year),
+    CONSTRAINT fund_budgets_months_check CHECK (array_length(monthly_amounts, 1) = 12)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_budgets_year ON fund_budgets(budget_year);
+
+-- -----------------------------------------------------------------------------
+-- Disbursements Tables
+-- -----------------------------------------------------------------------------
+-- Money paid out of a fund; only approved disbursements reduce its balance.
+CREATE TABLE IF NOT EXISTS disbursements (
+    id SERIAL PRIMARY KEY,
+    payee TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    disbursement_date DATE NOT NULL,
+    memo TEXT,
+    status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'approved', 'rejected' or 'void'
+    requested_by TEXT,
+    requested_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    decided_by TEXT, -- who approved, rejected or voided it
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT, -- rejection or void reason
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT disbursements_status_check CHECK (status IN ('pending', 'approved', 'rejected', 'void'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_disbursements_fund_date ON disbursements(fund, disbursement_date);
+CREATE INDEX IF NOT EXISTS idx_disbursements_status ON disbursements(status);
+
+-- One receipt or invoice per disbursement, kept out of the ledger rows
+CREATE TABLE IF NOT EXISTS disbursement_attachments (
+    disbursement_id INTEGER PRIMARY KEY REFERENCES disbursements(id) ON DELETE CASCADE,
+    filename TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    content BYTEA NOT NULL,
+    uploaded_by TEXT,
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- -----------------------------------------------------------------------------
+-- Donation Import Rows Table (review queue)
+-- -----------------------------------------------------------------------------
+-- Every line of an import. Rows that could not be matched to a member or
+-- fund wait here with status 'pending' until someone resolves them.
+CREATE TABLE IF NOT EXISTS donation_import_rows (
+    id SERIAL PRIMARY KEY,
+    import_id INTEGER NOT NULL REFERENCES donation_imports(id) ON DELETE CASCADE,
+    line INTEGER NOT NULL,
+    status TEXT NOT NULL, -- 'imported', 'pending', 'duplicate', 'skipped', 'error'
+    external_id TEXT,
+    payer_name TEXT,
+    payer_email TEXT,
+    amount DECIMAL(12, 2),
+    donation_date DATE,
+    source_fund TEXT,
+    fund TEXT REFERENCES funds(name) ON UPDATE CASCADE ON DELETE SET NULL,
+    payment_method TEXT,
+    notes TEXT,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    match_type TEXT, -- 'email', 'name', 'manual', 'guest'
+    review_reasons TEXT[] NOT NULL DEFAULT '{}', -- 'member', 'fund'
+    errors TEXT[] NOT NULL DEFAULT '{}',
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    raw JSONB,
+    resolved_by TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT donation_import_rows_status_check
+        CHECK (status IN ('imported', 'pending', 'duplicate', 'skipped', 'error'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_import_rows_import ON donation_import_rows(import_id, status);
+
+-- -----------------------------------------------------------------------------
+-- Fund Mapping Rules Table
+-- -----------------------------------------------------------------------------
+-- Maps a provider's fund/designation text to one of our funds. A NULL
+-- provider applies to every provider.
+CREATE TABLE IF NOT EXISTS fund_mapping_rules (
+    id SERIAL PRIMARY KEY,
+    provider TEXT,
+    match_value TEXT NOT NULL,
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fund_mapping_rules_match
+    ON fund_mapping_rules(COALESCE(provider, ''), lower(match_value));
+
 -- -----------------------------------------------------------------------------
 -- Export Logs Table
 -- -----------------------------------------------------------------------------
@@ -164,8 +681,47 @@ CREATE TABLE IF NOT EXISTS export_logs (
     user_id INTEGER REFERENCES users(id),
     export_type TEXT NOT NULL,
     filters JSONB,
+    period_start DATE, -- exact range of a general ledger export
+    period_end DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_logs_period
+    ON export_logs(export_type, period_start, period_end);
+
+-- -----------------------------------------------------------------------------
+-- GL Account Mappings Table
+-- -----------------------------------------------------------------------------
+-- Income account each fund is credited to in the general ledger export.
+CREATE TABLE IF NOT EXISTS gl_account_mappings (
+    fund_name TEXT PRIMARY KEY REFERENCES funds(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    account TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- -----------------------------------------------------------------------------
+-- Audit Events Table
+-- -----------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS audit_events (
+    id BIGSERIAL PRIMARY KEY,
+    actor_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    actor_username TEXT,
+    actor_role TEXT,
+    action TEXT NOT NULL, -- 'CREATE', 'UPDATE', 'DELETE', 'UNLOCK', 'RESET_PASSWORD', 'REGISTER', 'CLOSE', 'REOPEN'
+    entity_type TEXT NOT NULL, -- 'member', 'donation', 'user', 'settings', 'campaign', 'opportunity', 'batch'
+    entity_id TEXT,
+    before_data JSONB,
+    after_data JSONB,
+    changes JSONB NOT NULL DEFAULT '{}',
+    metadata JSONB NOT NULL DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events (created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events (actor_username);
+
 -- -----------------------------------------------------------------------------
 -- NOTE: Initial Admin User
 -- -----------------------------------------------------------------------------
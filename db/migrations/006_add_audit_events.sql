@@ -0,0 +1,22 @@
+-- Migration: Add persistent audit trail
+-- Replaces the console-only "[AUDIT]" log lines with a queryable table that
+-- records who changed which record, including before/after snapshots.
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id BIGSERIAL PRIMARY KEY,
+    actor_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    actor_username TEXT,
+    actor_role TEXT,
+    action TEXT NOT NULL, -- 'CREATE', 'UPDATE', 'DELETE', 'UNLOCK', 'RESET_PASSWORD', 'REGISTER'
+    entity_type TEXT NOT NULL, -- 'member', 'donation', 'user', 'settings', 'campaign', 'opportunity'
+    entity_id TEXT,
+    before_data JSONB,
+    after_data JSONB,
+    changes JSONB NOT NULL DEFAULT '{}',
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events (created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events (actor_username);
@@ -0,0 +1,27 @@
+-- Migration: Add deposit batches for offering reconciliation
+-- The counting team opens a batch with expected cash/check totals, donations
+-- are attached as they are entered, and the batch is closed (locked) once it
+-- balances. Edits to donations in a closed batch require a manager.
+
+CREATE TABLE IF NOT EXISTS deposit_batches (
+    id SERIAL PRIMARY KEY,
+    batch_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    description TEXT,
+    expected_cash_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    expected_cash_count INTEGER NOT NULL DEFAULT 0,
+    expected_check_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    expected_check_count INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed'
+    created_by TEXT,
+    closed_by TEXT,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT deposit_batches_status_check CHECK (status IN ('open', 'closed'))
+);
+
+ALTER TABLE donations
+ADD COLUMN IF NOT EXISTS batch_id INTEGER REFERENCES deposit_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_batch_id ON donations(batch_id);
+CREATE INDEX IF NOT EXISTS idx_deposit_batches_status ON deposit_batches(status, batch_date);
@@ -0,0 +1,18 @@
+-- Migration: Add payment method, check number and reference to donations
+-- Counters previously typed "Check #1043" into notes. Existing rows keep a
+-- NULL payment_method (unknown); new rows default to 'cash'.
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS payment_method TEXT;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS check_number TEXT;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS payment_reference TEXT;
+
+ALTER TABLE donations ALTER COLUMN payment_method SET DEFAULT 'cash';
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_payment_method_check;
+ALTER TABLE donations ADD CONSTRAINT donations_payment_method_check
+    CHECK (payment_method IN ('cash', 'check', 'card', 'ach', 'online', 'in_kind', 'stock'));
+
+-- Duplicate check detection looks up (member_id, check_number)
+CREATE INDEX IF NOT EXISTS idx_donations_member_check_number
+    ON donations(member_id, check_number) WHERE check_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_payment_method ON donations(payment_method);
@@ -0,0 +1,28 @@
+-- Migration: Add pledge commitments
+-- A pledge records a member's promise to give a total amount to a fund
+-- (optionally toward a campaign) on a schedule. Fulfillment is not stored;
+-- it is computed from the member's donations to the same fund within the
+-- pledge window.
+
+CREATE TABLE IF NOT EXISTS pledges (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    fund TEXT NOT NULL,
+    campaign_id INTEGER REFERENCES fund_campaigns(id) ON DELETE SET NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'one_time', -- 'one_time', 'weekly', 'monthly', 'quarterly', 'annually'
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    end_date DATE,
+    status TEXT NOT NULL DEFAULT 'active', -- 'active', 'cancelled'
+    notes TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT pledges_amount_check CHECK (amount > 0),
+    CONSTRAINT pledges_frequency_check CHECK (frequency IN ('one_time', 'weekly', 'monthly', 'quarterly', 'annually')),
+    CONSTRAINT pledges_status_check CHECK (status IN ('active', 'cancelled')),
+    CONSTRAINT pledges_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pledges_member_fund ON pledges(member_id, fund);
+CREATE INDEX IF NOT EXISTS idx_pledges_campaign_id ON pledges(campaign_id);
@@ -0,0 +1,41 @@
+-- Migration: Add households (family giving units)
+-- members.family_id existed without a parent table. Households give it one,
+-- with a head of household, a mailing address and a statement salutation,
+-- so couples can receive a single joint contribution statement.
+
+CREATE TABLE IF NOT EXISTS households (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,                 -- e.g. "Smith Household"
+    salutation TEXT,                    -- e.g. "Mr. & Mrs. John Smith"
+    head_member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    address TEXT,
+    city TEXT,
+    state TEXT,
+    zip TEXT,
+    joint_statements BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Adopt any family IDs already on member records, using the earliest
+-- member of each family for the name and address.
+INSERT INTO households (id, name, head_member_id, address, city, state, zip)
+SELECT DISTINCT ON (family_id)
+    family_id, last_name || ' Household', id, address, city, state, zip
+FROM members
+WHERE family_id IS NOT NULL
+ORDER BY family_id, created_at
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'members_family_id_fkey'
+    ) THEN
+        ALTER TABLE members
+        ADD CONSTRAINT members_family_id_fkey
+        FOREIGN KEY (family_id) REFERENCES households(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_members_family_id ON members(family_id);
@@ -0,0 +1,37 @@
+-- Migration: IRS-compliant contribution statements
+-- Adds the statement template (intro letter, disclosure, signature block) to
+-- settings, quid-pro-quo details to donations, and a register of issued
+-- statements so every PDF carries a traceable statement number.
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS statement_intro TEXT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS statement_disclosure TEXT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS statement_signer_name TEXT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS statement_signer_title TEXT;
+
+-- Goods or services the donor received in exchange for a gift. The
+-- deductible amount is amount - goods_services_value.
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS goods_services_provided BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS goods_services_value DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS goods_services_description TEXT;
+
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_goods_services_value_check;
+ALTER TABLE donations ADD CONSTRAINT donations_goods_services_value_check
+    CHECK (goods_services_value >= 0 AND goods_services_value <= amount);
+
+-- One row per generated statement PDF. Regenerating a statement for the same
+-- recipient and year records a reissue pointing at the previous number.
+CREATE TABLE IF NOT EXISTS statement_issues (
+    id SERIAL PRIMARY KEY,
+    statement_number TEXT NOT NULL UNIQUE, -- e.g. 2026-000042
+    tax_year INTEGER NOT NULL,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    household_id TEXT REFERENCES households(id) ON DELETE SET NULL,
+    total_amount DECIMAL(12, 2) NOT NULL,
+    deductible_amount DECIMAL(12, 2) NOT NULL,
+    reissue_of INTEGER REFERENCES statement_issues(id) ON DELETE SET NULL,
+    issued_by TEXT,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_issues_recipient
+    ON statement_issues(tax_year, member_id, household_id);
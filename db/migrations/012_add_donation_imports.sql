@@ -0,0 +1,69 @@
+-- Migration: Donation imports from bank and online giving exports
+-- Tags every donation with its source, stores the provider's transaction ID
+-- for dedupe, and adds the staging tables behind the import review queue
+-- plus reusable fund mapping rules.
+
+-- One row per uploaded file
+CREATE TABLE IF NOT EXISTS donation_imports (
+    id SERIAL PRIMARY KEY,
+    provider TEXT NOT NULL, -- 'generic', 'tithely', 'pushpay', 'bank'
+    file_name TEXT,
+    status TEXT NOT NULL DEFAULT 'review', -- 'review' while rows are pending, then 'completed'
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT donation_imports_status_check CHECK (status IN ('review', 'completed'))
+);
+
+-- 'manual' for gifts typed into DonationEntry, otherwise the import provider
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS import_id INTEGER REFERENCES donation_imports(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_source_external_id
+    ON donations(source, external_id) WHERE external_id IS NOT NULL;
+
+-- Every line of an import. Rows that could not be matched to a member or
+-- fund wait here with status 'pending' until someone resolves them.
+CREATE TABLE IF NOT EXISTS donation_import_rows (
+    id SERIAL PRIMARY KEY,
+    import_id INTEGER NOT NULL REFERENCES donation_imports(id) ON DELETE CASCADE,
+    line INTEGER NOT NULL,
+    status TEXT NOT NULL, -- 'imported', 'pending', 'duplicate', 'skipped', 'error'
+    external_id TEXT,
+    payer_name TEXT,
+    payer_email TEXT,
+    amount DECIMAL(12, 2),
+    donation_date DATE,
+    source_fund TEXT,
+    fund TEXT,
+    payment_method TEXT,
+    notes TEXT,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    match_type TEXT, -- 'email', 'name', 'manual', 'guest'
+    review_reasons TEXT[] NOT NULL DEFAULT '{}', -- 'member', 'fund'
+    errors TEXT[] NOT NULL DEFAULT '{}',
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    raw JSONB,
+    resolved_by TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT donation_import_rows_status_check
+        CHECK (status IN ('imported', 'pending', 'duplicate', 'skipped', 'error'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_import_rows_import ON donation_import_rows(import_id, status);
+
+-- Maps a provider's fund/designation text to one of our funds. A NULL
+-- provider applies to every provider.
+CREATE TABLE IF NOT EXISTS fund_mapping_rules (
+    id SERIAL PRIMARY KEY,
+    provider TEXT,
+    match_value TEXT NOT NULL,
+    fund TEXT NOT NULL,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fund_mapping_rules_match
+    ON fund_mapping_rules(COALESCE(provider, ''), lower(match_value));
@@ -0,0 +1,86 @@
+-- Migration: Fund catalog
+-- Replaces the hardcoded FundType list with a funds table. Donations,
+-- pledges, campaigns and import rules keep storing the fund name, now as a
+-- foreign key that follows renames (ON UPDATE CASCADE), so renaming a fund
+-- carries its history with it. Funds in use are archived, not deleted.
+
+CREATE TABLE IF NOT EXISTS funds (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE, -- short accounting code, e.g. 'TITHES'
+    name TEXT NOT NULL UNIQUE, -- display name stored on donations
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true, -- false = archived, kept for history
+    tax_deductible BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    parent_id INTEGER REFERENCES funds(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT funds_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_funds_active_sort ON funds(is_active, sort_order, name);
+
+-- The funds that used to be the FundType enum, plus the server's default
+INSERT INTO funds (code, name, description, sort_order) VALUES
+('TITHES', 'Tithes', NULL, 10),
+('OFFERING', 'Offering', NULL, 20),
+('GENERAL', 'General', 'Default fund for gifts recorded without one', 30),
+('BENEVOLENCE', 'Benevolence', NULL, 40),
+('CHURCH_SCHOOL', 'Church School', NULL, 50),
+('LAY', 'Lay', 'Lay Organization', 60),
+('REVIVAL', 'Revival', NULL, 70),
+('UPKEEP', 'Upkeep', 'Building and grounds', 80),
+('WMS', 'WMS', 'Women''s Missionary Society', 90),
+('YPD', 'YPD', 'Young People''s Division', 100),
+('OTHER', 'Other', NULL, 110)
+ON CONFLICT DO NOTHING;
+
+-- Any other fund already used becomes a catalog entry so no history is lost
+INSERT INTO funds (code, name, sort_order)
+SELECT upper(regexp_replace(trim(name), '[^A-Za-z0-9]+', '_', 'g')), name, 1000
+FROM (
+    SELECT fund AS name FROM donations
+    UNION SELECT fund FROM pledges
+    UNION SELECT fund_name FROM fund_campaigns
+    UNION SELECT fund FROM fund_mapping_rules
+    UNION SELECT fund FROM donation_import_rows WHERE fund IS NOT NULL
+) used
+WHERE name NOT IN (SELECT name FROM funds)
+ON CONFLICT DO NOTHING;
+
+-- Names whose derived code was already taken get a hash suffix
+INSERT INTO funds (code, name, sort_order)
+SELECT upper(regexp_replace(trim(name), '[^A-Za-z0-9]+', '_', 'g')) || '_' || upper(substr(md5(name), 1, 4)), name, 1000
+FROM (
+    SELECT fund AS name FROM donations
+    UNION SELECT fund FROM pledges
+    UNION SELECT fund_name FROM fund_campaigns
+    UNION SELECT fund FROM fund_mapping_rules
+    UNION SELECT fund FROM donation_import_rows WHERE fund IS NOT NULL
+) used
+WHERE name NOT IN (SELECT name FROM funds)
+ON CONFLICT DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'donations_fund_fkey') THEN
+        ALTER TABLE donations ADD CONSTRAINT donations_fund_fkey
+            FOREIGN KEY (fund) REFERENCES funds(name) ON UPDATE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'pledges_fund_fkey') THEN
+        ALTER TABLE pledges ADD CONSTRAINT pledges_fund_fkey
+            FOREIGN KEY (fund) REFERENCES funds(name) ON UPDATE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fund_campaigns_fund_name_fkey') THEN
+        ALTER TABLE fund_campaigns ADD CONSTRAINT fund_campaigns_fund_name_fkey
+            FOREIGN KEY (fund_name) REFERENCES funds(name) ON UPDATE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fund_mapping_rules_fund_fkey') THEN
+        ALTER TABLE fund_mapping_rules ADD CONSTRAINT fund_mapping_rules_fund_fkey
+            FOREIGN KEY (fund) REFERENCES funds(name) ON UPDATE CASCADE ON DELETE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'donation_import_rows_fund_fkey') THEN
+        ALTER TABLE donation_import_rows ADD CONSTRAINT donation_import_rows_fund_fkey
+            FOREIGN KEY (fund) REFERENCES funds(name) ON UPDATE CASCADE ON DELETE SET NULL;
+    END IF;
+END $$;
@@ -0,0 +1,46 @@
+-- Migration: Recurring gift schedules
+-- A recurring gift records that a member gives a fixed amount to a fund on
+-- a schedule (e.g. a monthly bank draft). The recurring gift job turns each
+-- schedule into one "expected" installment per due date, links received
+-- donations to them and marks unmatched installments as missed.
+
+CREATE TABLE IF NOT EXISTS recurring_gifts (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    amount DECIMAL(12, 2) NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'monthly', -- 'weekly', 'biweekly', 'monthly', 'quarterly', 'annually'
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    end_date DATE, -- NULL = open-ended
+    payment_method TEXT,
+    status TEXT NOT NULL DEFAULT 'active', -- 'active', 'paused', 'cancelled'
+    notes TEXT,
+    generated_through DATE, -- last day the job has created installments for
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT recurring_gifts_amount_check CHECK (amount > 0),
+    CONSTRAINT recurring_gifts_frequency_check CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'annually')),
+    CONSTRAINT recurring_gifts_status_check CHECK (status IN ('active', 'paused', 'cancelled')),
+    CONSTRAINT recurring_gifts_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- One expected gift per schedule and due date
+CREATE TABLE IF NOT EXISTS recurring_gift_installments (
+    id SERIAL PRIMARY KEY,
+    recurring_gift_id INTEGER NOT NULL REFERENCES recurring_gifts(id) ON DELETE CASCADE,
+    due_date DATE NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'expected', -- 'expected', 'received', 'missed', 'skipped'
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    matched_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT recurring_gift_installments_status_check CHECK (status IN ('expected', 'received', 'missed', 'skipped')),
+    CONSTRAINT recurring_gift_installments_due_unique UNIQUE (recurring_gift_id, due_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_gifts_member_fund ON recurring_gifts(member_id, fund);
+CREATE INDEX IF NOT EXISTS idx_recurring_gift_installments_status ON recurring_gift_installments(status, due_date);
+-- A donation satisfies at most one installment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurring_gift_installments_donation
+    ON recurring_gift_installments(donation_id) WHERE donation_id IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Migration: Gap-aware at-risk donor model
+-- Adds the at-risk thresholds to settings and a log of pastoral contacts
+-- made with donors flagged by the model.
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_watch_score INTEGER NOT NULL DEFAULT 40;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_alert_score INTEGER NOT NULL DEFAULT 70;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_min_gifts INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_lookback_months INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_drop_percent INTEGER NOT NULL DEFAULT 50;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS risk_contact_snooze_days INTEGER NOT NULL DEFAULT 30;
+
+-- One row each time someone reaches out to a flagged donor
+CREATE TABLE IF NOT EXISTS donor_contacts (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    note TEXT,
+    contacted_by TEXT,
+    contacted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_contacts_member ON donor_contacts(member_id, contacted_at DESC);
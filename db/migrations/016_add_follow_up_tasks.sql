@@ -0,0 +1,41 @@
+-- Migration: Pastoral follow-up tasks
+-- A follow-up task asks a staff user to reach out to a member by a due
+-- date. Tasks are created by hand or automatically when a member registers,
+-- gives for the first time, is flagged as at risk or has no email address.
+
+-- Staff user automatic tasks are assigned to (NULL = left unassigned)
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS follow_up_assignee_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS follow_up_tasks (
+    id SERIAL PRIMARY KEY,
+    member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+    assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    origin TEXT NOT NULL DEFAULT 'manual', -- 'manual', 'at_risk', 'new_member', 'new_donor', 'missing_email'
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'in_progress', 'done', 'cancelled'
+    due_date DATE,
+    created_by TEXT, -- NULL for automatic tasks
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT follow_up_tasks_origin_check CHECK (origin IN ('manual', 'at_risk', 'new_member', 'new_donor', 'missing_email')),
+    CONSTRAINT follow_up_tasks_status_check CHECK (status IN ('open', 'in_progress', 'done', 'cancelled'))
+);
+
+-- Notes thread on a task
+CREATE TABLE IF NOT EXISTS follow_up_task_notes (
+    id SERIAL PRIMARY KEY,
+    task_id INTEGER NOT NULL REFERENCES follow_up_tasks(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    author TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_tasks_assignee ON follow_up_tasks(assigned_to, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_follow_up_tasks_member ON follow_up_tasks(member_id);
+CREATE INDEX IF NOT EXISTS idx_follow_up_task_notes_task ON follow_up_task_notes(task_id, created_at);
+-- At most one open automatic task per member and reason
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_tasks_open_origin
+    ON follow_up_tasks(member_id, origin)
+    WHERE origin <> 'manual' AND status IN ('open', 'in_progress');
@@ -0,0 +1,48 @@
+-- Migration: Email delivery of statements and receipts
+-- Outgoing email is logged per recipient with its delivery status so failed
+-- messages can be retried. Batch sends (year-end statements) are grouped
+-- under a job.
+
+-- Edited subject and body per template; missing rows use the built-in default
+CREATE TABLE IF NOT EXISTS email_templates (
+    template_key TEXT PRIMARY KEY, -- 'statement', 'receipt'
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS email_jobs (
+    id SERIAL PRIMARY KEY,
+    template_key TEXT NOT NULL,
+    tax_year INTEGER,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Send log: one row per recipient
+CREATE TABLE IF NOT EXISTS email_messages (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER REFERENCES email_jobs(id) ON DELETE CASCADE,
+    template_key TEXT NOT NULL,
+    member_id TEXT REFERENCES members(id) ON DELETE SET NULL,
+    donation_id INTEGER REFERENCES donations(id) ON DELETE SET NULL,
+    recipient_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    attachment JSONB, -- how to rebuild the PDF, e.g. {"type": "statement", "memberId": "...", "year": 2025}
+    status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'sending', 'sent', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    transport_message_id TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT email_messages_status_check CHECK (status IN ('queued', 'sending', 'sent', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_job ON email_messages(job_id, status);
+CREATE INDEX IF NOT EXISTS idx_email_messages_member ON email_messages(member_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_donation ON email_messages(donation_id);
+CREATE INDEX IF NOT EXISTS idx_email_messages_status ON email_messages(status, created_at);
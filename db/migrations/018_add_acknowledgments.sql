@@ -0,0 +1,19 @@
+-- Migration: Per-gift acknowledgments
+-- Thank-you emails with a receipt, sent as each gift is entered or in a
+-- weekly digest per donor. Gifts are stamped when acknowledged so none is
+-- thanked twice; members can opt out from their profile.
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS acknowledgment_mode TEXT NOT NULL DEFAULT 'off';
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS acknowledgment_threshold DECIMAL(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS acknowledgment_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE settings DROP CONSTRAINT IF EXISTS settings_acknowledgment_mode_check;
+ALTER TABLE settings ADD CONSTRAINT settings_acknowledgment_mode_check
+    CHECK (acknowledgment_mode IN ('off', 'immediate', 'weekly'));
+
+ALTER TABLE members ADD COLUMN IF NOT EXISTS acknowledgment_opt_out BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_donations_unacknowledged
+    ON donations(donation_date) WHERE acknowledged_at IS NULL;
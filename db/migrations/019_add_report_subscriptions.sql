@@ -0,0 +1,53 @@
+-- Migration: Scheduled report subscriptions
+-- A standard report rendered weekly, monthly or quarterly and delivered by
+-- email or to each recipient's Report Inbox. Each rendered report is stored
+-- once in report_deliveries and shared by its inbox items and emails.
+
+CREATE TABLE IF NOT EXISTS report_subscriptions (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    report_type TEXT NOT NULL, -- 'fund_distribution', 'quarterly_progress', 'trend_analysis', 'new_donors'
+    params JSONB NOT NULL DEFAULT '{}', -- e.g. {"year": 2026, "fund": "Building"}
+    format TEXT NOT NULL DEFAULT 'pdf', -- 'pdf', 'csv'
+    cadence TEXT NOT NULL, -- 'weekly', 'monthly', 'quarterly'
+    channel TEXT NOT NULL DEFAULT 'inbox', -- 'inbox', 'email'
+    recipient_user_ids INTEGER[] NOT NULL DEFAULT '{}',
+    recipient_emails TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT report_subscriptions_report_type_check
+        CHECK (report_type IN ('fund_distribution', 'quarterly_progress', 'trend_analysis', 'new_donors')),
+    CONSTRAINT report_subscriptions_format_check CHECK (format IN ('pdf', 'csv')),
+    CONSTRAINT report_subscriptions_cadence_check CHECK (cadence IN ('weekly', 'monthly', 'quarterly')),
+    CONSTRAINT report_subscriptions_channel_check CHECK (channel IN ('inbox', 'email'))
+);
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+    id SERIAL PRIMARY KEY,
+    subscription_id INTEGER REFERENCES report_subscriptions(id) ON DELETE SET NULL,
+    report_type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    period TEXT,
+    format TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    content BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS report_inbox_items (
+    id SERIAL PRIMARY KEY,
+    delivery_id INTEGER NOT NULL REFERENCES report_deliveries(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT report_inbox_items_unique UNIQUE (delivery_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_due ON report_subscriptions(next_run_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_subscription ON report_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_inbox_items_user ON report_inbox_items(user_id, id DESC);
@@ -0,0 +1,17 @@
+-- Migration: Saved custom reports
+-- Report builder definitions (dimensions, measures, filters and date
+-- range, never SQL) saved by a user and optionally shared with roles.
+
+CREATE TABLE IF NOT EXISTS report_definitions (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL, -- {"dimensions": ["fund"], "measures": ["sum"], "filters": {...}, ...}
+    shared_roles TEXT[] NOT NULL DEFAULT '{}', -- roles that can run it besides the owner
+    owner_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_definitions_owner ON report_definitions(owner_id);
@@ -0,0 +1,21 @@
+-- Migration: Annual fund budgets
+-- One budget line per fund per year as approved by the council, spread
+-- over the months it is expected to come in. The budget-vs-actual report
+-- compares each month with what was given to the fund.
+
+CREATE TABLE IF NOT EXISTS fund_budgets (
+    id SERIAL PRIMARY KEY,
+    fund_name TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    budget_year INTEGER NOT NULL,
+    annual_amount DECIMAL(12, 2) NOT NULL CHECK (annual_amount >= 0),
+    distribution TEXT NOT NULL DEFAULT 'even', -- 'even', 'seasonal' (last year's pattern) or 'custom'
+    monthly_amounts DECIMAL(12, 2)[] NOT NULL, -- January..December, summing to annual_amount
+    notes TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fund_budgets_fund_year_unique UNIQUE (fund_name, budget_year),
+    CONSTRAINT fund_budgets_months_check CHECK (array_length(monthly_amounts, 1) = 12)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_budgets_year ON fund_budgets(budget_year);
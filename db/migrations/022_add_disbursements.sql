@@ -0,0 +1,36 @@
+-- Migration: Disbursements ledger
+-- Money paid out of a fund. A disbursement is requested as 'pending' and
+-- only counts against the fund's balance once someone holding
+-- 'disbursements:approve' approves it. Approved disbursements are voided,
+-- never deleted, so the fund activity statement can always be reproduced.
+
+CREATE TABLE IF NOT EXISTS disbursements (
+    id SERIAL PRIMARY KEY,
+    payee TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    fund TEXT NOT NULL REFERENCES funds(name) ON UPDATE CASCADE,
+    disbursement_date DATE NOT NULL,
+    memo TEXT,
+    status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'approved', 'rejected' or 'void'
+    requested_by TEXT,
+    requested_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    decided_by TEXT, -- who approved, rejected or voided it
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT, -- rejection or void reason
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT disbursements_status_check CHECK (status IN ('pending', 'approved', 'rejected', 'void'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_disbursements_fund_date ON disbursements(fund, disbursement_date);
+CREATE INDEX IF NOT EXISTS idx_disbursements_status ON disbursements(status);
+
+-- One receipt or invoice per disbursement, kept out of the ledger rows
+CREATE TABLE IF NOT EXISTS disbursement_attachments (
+    disbursement_id INTEGER PRIMARY KEY REFERENCES disbursements(id) ON DELETE CASCADE,
+    filename TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    content BYTEA NOT NULL,
+    uploaded_by TEXT,
+    uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
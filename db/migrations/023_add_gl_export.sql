@@ -0,0 +1,20 @@
+-- Migration: General ledger export
+-- Giving is exported to the bookkeeping system as summarized journal
+-- entries: the deposit account is debited and each fund's income account
+-- credited. Exports record their date range so a period is not booked twice
+-- without a warning.
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS gl_deposit_account TEXT NOT NULL DEFAULT 'Undeposited Funds';
+
+CREATE TABLE IF NOT EXISTS gl_account_mappings (
+    fund_name TEXT PRIMARY KEY REFERENCES funds(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    account TEXT NOT NULL, -- income account credited, as named in the chart of accounts
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE export_logs ADD COLUMN IF NOT EXISTS period_start DATE;
+ALTER TABLE export_logs ADD COLUMN IF NOT EXISTS period_end DATE;
+
+CREATE INDEX IF NOT EXISTS idx_export_logs_period
+    ON export_logs(export_type, period_start, period_end);
@@ -0,0 +1,7 @@
+-- Migration: Row versions for members and donations
+-- Every edit increments `version`. Updates sent with an If-Match header
+-- naming an older version are refused with a conflict instead of silently
+-- overwriting a change made by someone else in the meantime.
+
+ALTER TABLE members ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,10 @@
+-- Migration: Idempotency keys for donation entry
+-- Gifts entered offline are queued on the device and posted once the
+-- connection returns. Each post carries a client-generated key so a retry
+-- after a dropped response replays the recorded gift instead of adding it
+-- twice.
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donations_idempotency_key
+    ON donations(idempotency_key) WHERE idempotency_key IS NOT NULL;
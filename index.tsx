@@ -1,6 +1,7 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { registerSW } from 'virtual:pwa-register';
 import App from './App';
 
 const rootElement = document.getElementById('root');
@@ -15,18 +16,6 @@ root.render(
   </React.StrictMode>
 );
 
-// Unregister any legacy Service Worker and clear PWA cache to prevent stale assets
-if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.getRegistrations().then((registrations) => {
-    for (const registration of registrations) {
-      registration.unregister();
-    }
-  });
-}
-if ('caches' in window) {
-  caches.keys().then((names) => {
-    for (const name of names) {
-      caches.delete(name);
-    }
-  });
-}
+// Service worker caches the app shell for offline donation entry and
+// swaps in new builds automatically
+registerSW({ immediate: true });
@@ -1,5 +1,5 @@
 
-import { Member, Donation, FundType, AuditLog } from './types';
+import { Member, Donation, AuditLog } from './types';
 
 export const INITIAL_MEMBERS: Member[] = [
   { id: '1', firstName: 'John', lastName: 'Doe', email: 'john@example.com', address: '123 Grace Ln', city: 'Faithville', state: 'TX', zip: '75001', createdAt: '2023-01-15' },
@@ -9,14 +9,14 @@ export const INITIAL_MEMBERS: Member[] = [
 ];
 
 export const INITIAL_DONATIONS: Donation[] = [
-  { id: 'd1', memberId: '1', amount: 500, fund: FundType.TITHES, date: '2024-05-01', timestamp: '2024-05-01T10:00:00Z', enteredBy: 'Admin' },
-  { id: 'd2', memberId: '2', amount: 250, fund: FundType.UPKEEP, date: '2024-05-02', timestamp: '2024-05-02T11:30:00Z', enteredBy: 'Admin' },
-  { id: 'd3', memberId: '1', amount: 100, fund: FundType.BENEVOLENCE, date: '2024-05-15', timestamp: '2024-05-15T09:15:00Z', enteredBy: 'Admin' },
-  { id: 'd4', memberId: '3', amount: 1000, fund: FundType.TITHES, date: '2024-05-20', timestamp: '2024-05-20T14:45:00Z', enteredBy: 'Admin' },
-  { id: 'd5', memberId: '4', amount: 50, fund: FundType.CHURCH_SCHOOL, date: '2024-05-25', timestamp: '2024-05-25T16:20:00Z', enteredBy: 'Admin' },
+  { id: 'd1', memberId: '1', amount: 500, fund: 'Tithes', date: '2024-05-01', timestamp: '2024-05-01T10:00:00Z', enteredBy: 'Admin' },
+  { id: 'd2', memberId: '2', amount: 250, fund: 'Upkeep', date: '2024-05-02', timestamp: '2024-05-02T11:30:00Z', enteredBy: 'Admin' },
+  { id: 'd3', memberId: '1', amount: 100, fund: 'Benevolence', date: '2024-05-15', timestamp: '2024-05-15T09:15:00Z', enteredBy: 'Admin' },
+  { id: 'd4', memberId: '3', amount: 1000, fund: 'Tithes', date: '2024-05-20', timestamp: '2024-05-20T14:45:00Z', enteredBy: 'Admin' },
+  { id: 'd5', memberId: '4', amount: 50, fund: 'Church School', date: '2024-05-25', timestamp: '2024-05-25T16:20:00Z', enteredBy: 'Admin' },
 ];
 
 export const INITIAL_AUDIT_LOGS: AuditLog[] = [
-  { id: 'a1', action: 'CREATE', entity: 'MEMBER', description: 'Added John Doe', user: 'Admin', timestamp: '2023-01-15T08:00:00Z' },
-  { id: 'a2', action: 'CREATE', entity: 'DONATION', description: 'Added $500 donation for John Doe', user: 'Admin', timestamp: '2024-05-01T10:00:00Z' },
+  { id: 'a1', action: 'CREATE', entityType: 'member', entityId: '1', actorUsername: 'Admin', changes: { first_name: { from: null, to: 'John' }, last_name: { from: null, to: 'Doe' } }, createdAt: '2023-01-15T08:00:00Z' },
+  { id: 'a2', action: 'CREATE', entityType: 'donation', entityId: 'd1', actorUsername: 'Admin', changes: { amount: { from: null, to: '500.00' } }, createdAt: '2024-05-01T10:00:00Z' },
 ];
@@ -0,0 +1,201 @@
+/**
+ * Gift Acknowledgment Utilities for GraceGiver
+ *
+ * Donors can be thanked for each gift as it comes in rather than only at
+ * year end. The church chooses a mode in settings:
+ *
+ *   off       - No acknowledgments (the default).
+ *   immediate - A thank-you email with the gift's receipt as it is entered.
+ *   weekly    - One digest per donor each week covering that week's gifts.
+ *
+ * Only gifts of at least the threshold are acknowledged, and never for
+ * members who opted out or have no email address. Each gift is stamped
+ * with acknowledged_at when its email is queued so it is thanked once; the
+ * emails themselves go through the email send log.
+ */
+
+const { getEmailTemplate, queueEmailMessages, receiptFields, digestFields } = require('./email');
+
+const ACKNOWLEDGMENT_MODES = ['off', 'immediate', 'weekly'];
+
+// Unacknowledged gifts older than this are left alone, so turning
+// acknowledgments on does not thank donors for their whole history
+const LOOKBACK_DAYS = 14;
+// Days between weekly digests
+const DIGEST_INTERVAL_DAYS = 7;
+
+/**
+ * Validates acknowledgment changes from the settings form. Only the fields
+ * present are checked.
+ * @param {Object} input - { acknowledgmentMode, acknowledgmentThreshold }
+ * @returns {{ isValid: boolean, errors: string[] }}
+ */
+function validateAcknowledgmentSettings(input) {
+  const errors = [];
+
+  if (input.acknowledgmentMode !== undefined && !ACKNOWLEDGMENT_MODES.includes(input.acknowledgmentMode)) {
+    errors.push(`INVALID_ACKNOWLEDGMENT_MODE: acknowledgmentMode must be one of ${ACKNOWLEDGMENT_MODES.join(', ')}.`);
+  }
+  const threshold = input.acknowledgmentThreshold;
+  if (threshold !== undefined && threshold !== null && threshold !== '') {
+    const value = Number(threshold);
+    if (!Number.isFinite(value) || value < 0 || value > 999999999.99) {
+      errors.push('INVALID_ACKNOWLEDGMENT_THRESHOLD: acknowledgmentThreshold must be an amount of 0 or more.');
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Maps a settings row to the acknowledgment settings.
+ * @param {Object} [row] - settings row
+ * @returns {{ acknowledgmentMode: string, acknowledgmentThreshold: number }}
+ */
+function mapAcknowledgmentSettings(row = {}) {
+  return {
+    acknowledgmentMode: row.acknowledgment_mode || 'off',
+    acknowledgmentThreshold: parseFloat(row.acknowledgment_threshold) || 0
+  };
+}
+
+/**
+ * Starts a weekly digest run if one is due, recording it so no other run
+ * sends the same week's digest.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<boolean>} whether a digest is due
+ */
+async function claimDigestRun(db) {
+  const result = await db.query(
+    `UPDATE settings SET acknowledgment_digest_sent_at = NOW()
+     WHERE singleton_id = true AND acknowledgment_mode = 'weekly'
+       AND (acknowledgment_digest_sent_at IS NULL
+            OR acknowledgment_digest_sent_at <= NOW() - make_interval(days => $1))
+     RETURNING acknowledgment_digest_sent_at`,
+    [DIGEST_INTERVAL_DAYS]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Stamps gifts that are due a thank-you and returns them with their donor.
+ * Given donationIds, only those gifts are considered; otherwise every
+ * unacknowledged gift from the last LOOKBACK_DAYS days.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} options - { threshold, donationIds }
+ * @returns {Promise<Array>} donation rows with first_name, last_name, email
+ */
+async function claimUnacknowledgedGifts(db, { threshold = 0, donationIds = null }) {
+  const params = [threshold];
+  let scope;
+  if (donationIds) {
+    params.push(donationIds.map(id => parseInt(id)));
+    scope = `d.id = ANY($${params.length}::int[])`;
+  } else {
+    params.push(LOOKBACK_DAYS);
+    scope = `d.donation_date >= CURRENT_DATE - $${params.length}::int`;
+  }
+
+  const result = await db.query(
+    `UPDATE donations d SET acknowledged_at = NOW()
+     FROM members m
+     WHERE m.id = d.member_id
+       AND d.acknowledged_at IS NULL
+       AND d.amount >= $1
+       AND m.acknowledgment_opt_out = false
+       AND m.email IS NOT NULL AND m.email <> ''
+       AND ${scope}
+     RETURNING d.id, d.member_id, d.donation_date, d.amount, d.fund, m.first_name, m.last_name, m.email`,
+    params
+  );
+  return result.rows.sort((a, b) => new Date(a.donation_date) - new Date(b.donation_date) || a.id - b.id);
+}
+
+/**
+ * Builds the messages for claimed gifts: one per gift, or in a digest one
+ * per donor with a receipt page for each gift.
+ * @param {Array} rows - From claimUnacknowledgedGifts.
+ * @param {boolean} digest
+ * @param {string} churchName
+ * @returns {Array} recipients for queueEmailMessages
+ */
+function buildAcknowledgments(rows, digest, churchName) {
+  const toGift = (row) => ({ id: row.id, date: row.donation_date, amount: parseFloat(row.amount), fund: row.fund });
+  const toMember = (row) => ({ id: row.member_id, firstName: row.first_name, lastName: row.last_name });
+
+  if (!digest) {
+    return rows.map(row => ({
+      email: row.email,
+      fields: receiptFields(toGift(row), toMember(row), churchName),
+      memberId: row.member_id,
+      donationId: row.id,
+      attachment: { type: 'receipt', donationId: row.id }
+    }));
+  }
+
+  const byMember = new Map();
+  rows.forEach(row => {
+    if (!byMember.has(row.member_id)) byMember.set(row.member_id, []);
+    byMember.get(row.member_id).push(row);
+  });
+  return [...byMember.values()].map(memberRows => ({
+    email: memberRows[0].email,
+    fields: digestFields(memberRows.map(toGift), toMember(memberRows[0]), churchName),
+    memberId: memberRows[0].member_id,
+    donationId: memberRows.length === 1 ? memberRows[0].id : null,
+    attachment: { type: 'receipts', donationIds: memberRows.map(row => row.id) }
+  }));
+}
+
+/**
+ * Queues the acknowledgments that are due. With donationIds (a gift just
+ * entered) only those gifts are thanked, and only in immediate mode. Without
+ * them this is the hourly sweep: in immediate mode it catches imported or
+ * missed gifts, in weekly mode it sends the digest once it is due.
+ * @param {Object} pool - pg Pool
+ * @param {Object} [options] - { donationIds }
+ * @returns {Promise<Array>} queued email_messages rows, to be sent by the caller
+ */
+async function runAcknowledgmentJob(pool, { donationIds = null } = {}) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const settingsResult = await client.query(
+      'SELECT name, acknowledgment_mode, acknowledgment_threshold FROM settings WHERE singleton_id = true'
+    );
+    const settings = settingsResult.rows[0] || {};
+    const { acknowledgmentMode: mode, acknowledgmentThreshold: threshold } = mapAcknowledgmentSettings(settings);
+
+    const digest = mode === 'weekly';
+    if (mode === 'off' || (digest && (donationIds || !(await claimDigestRun(client))))) {
+      await client.query('ROLLBACK');
+      return [];
+    }
+
+    const rows = await claimUnacknowledgedGifts(client, { threshold, donationIds });
+    const template = await getEmailTemplate(client, digest ? 'acknowledgment_digest' : 'acknowledgment');
+    const queued = await queueEmailMessages(client, {
+      template,
+      recipients: buildAcknowledgments(rows, digest, settings.name)
+    });
+    await client.query('COMMIT');
+    return queued;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+module.exports = {
+  ACKNOWLEDGMENT_MODES,
+  LOOKBACK_DAYS,
+  DIGEST_INTERVAL_DAYS,
+  validateAcknowledgmentSettings,
+  mapAcknowledgmentSettings,
+  claimDigestRun,
+  claimUnacknowledgedGifts,
+  buildAcknowledgments,
+  runAcknowledgmentJob
+};
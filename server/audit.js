@@ -0,0 +1,248 @@
+/**
+ * Audit Trail Utilities for GraceGiver
+ *
+ * Persists who changed what (with before/after snapshots) to the
+ * audit_events table and provides the filtered, paginated read side
+ * used by GET /api/audit.
+ */
+
+// Columns that must never be copied into an audit snapshot
+const REDACTED_FIELDS = ['password_hash', 'password_history'];
+
+// Bookkeeping columns that change on every write and add noise to diffs
+const IGNORED_DIFF_FIELDS = ['updated_at'];
+
+const AUDIT_ACTIONS = [
+  'CREATE',
+  'UPDATE',
+  'DELETE',
+  'UNLOCK',
+  'RESET_PASSWORD',
+  'REGISTER',
+  'CLOSE',
+  'REOPEN',
+  'MERGE',
+  'SEND',
+  'RELEASE',
+  'ATTACH',
+  'APPROVE',
+  'REJECT',
+  'VOID'
+];
+
+/**
+ * Removes sensitive columns from a row before it is stored.
+ * @param {Object|null} record - Raw database row or request payload.
+ * @returns {Object|null} A shallow copy without redacted fields.
+ */
+function sanitizeSnapshot(record) {
+  if (!record || typeof record !== 'object') return null;
+
+  const snapshot = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (REDACTED_FIELDS.includes(key)) continue;
+    snapshot[key] = value;
+  }
+  return snapshot;
+}
+
+const normalizeValue = (value) => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+};
+
+/**
+ * Computes a field-level diff between two snapshots.
+ * @param {Object|null} before - Record state before the change.
+ * @param {Object|null} after - Record state after the change.
+ * @returns {Object} Map of field -> { from, to } for every changed field.
+ */
+function diffRecords(before, after) {
+  const changes = {};
+  const from = sanitizeSnapshot(before) || {};
+  const to = sanitizeSnapshot(after) || {};
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  for (const field of fields) {
+    if (IGNORED_DIFF_FIELDS.includes(field)) continue;
+
+    const oldValue = normalizeValue(from[field]);
+    const newValue = normalizeValue(to[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { from: oldValue, to: newValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Writes an audit event. Failures are logged but never thrown so that an
+ * audit outage cannot roll back the change the user just made. A checked-out
+ * client is assumed to be inside a transaction, so the insert runs under a
+ * savepoint: a failed write then drops only the audit row instead of
+ * aborting the transaction and turning the caller's COMMIT into a rollback.
+ *
+ * @param {Object} db - pg Pool or checked-out client (for transactions).
+ * @param {Object} event
+ * @param {Object} [event.actor] - req.user ({ id, username, role }).
+ * @param {string} event.action - One of AUDIT_ACTIONS.
+ * @param {string} event.entityType - 'member', 'donation', 'user', ...
+ * @param {string|number} [event.entityId]
+ * @param {Object} [event.before] - Row before the change.
+ * @param {Object} [event.after] - Row after the change.
+ * @param {Object} [event.metadata] - Extra context (e.g. request source).
+ * @returns {Promise<Object|null>} The inserted row, or null on failure.
+ */
+async function recordAuditEvent(db, event) {
+  const { actor, action, entityType, entityId, before, after, metadata } = event;
+  const beforeSnapshot = sanitizeSnapshot(before);
+  const afterSnapshot = sanitizeSnapshot(after);
+  const changes = diffRecords(beforeSnapshot, afterSnapshot);
+
+  console.log(
+    `[AUDIT] ${action} ${entityType}${entityId !== undefined && entityId !== null ? ` ${entityId}` : ''} by ${actor ? actor.username : 'system'}`
+  );
+
+  // Pools have no release(); only checked-out clients need the savepoint
+  const inTransaction = typeof db.release === 'function';
+
+  try {
+    if (inTransaction) await db.query('SAVEPOINT audit_event');
+    const result = await db.query(
+      `INSERT INTO audit_events
+         (actor_user_id, actor_username, actor_role, action, entity_type, entity_id, before_data, after_data, changes, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        actor ? actor.id || null : null,
+        actor ? actor.username || null : null,
+        actor ? actor.role || null : null,
+        action,
+        entityType,
+        entityId !== undefined && entityId !== null ? String(entityId) : null,
+        beforeSnapshot,
+        afterSnapshot,
+        changes,
+        metadata || {}
+      ]
+    );
+    if (inTransaction) await db.query('RELEASE SAVEPOINT audit_event');
+    return result.rows[0];
+  } catch (err) {
+    console.error('Audit event write failed:', err);
+    if (inTransaction) {
+      try {
+        await db.query('ROLLBACK TO SAVEPOINT audit_event');
+      } catch (rollbackErr) {
+        console.error('Audit savepoint rollback failed:', rollbackErr);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Maps an audit_events row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapAuditEvent(row) {
+  return {
+    id: row.id.toString(),
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    actorUserId: row.actor_user_id,
+    actorUsername: row.actor_username,
+    actorRole: row.actor_role,
+    before: row.before_data,
+    after: row.after_data,
+    changes: row.changes || {},
+    metadata: row.metadata || {},
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Builds the WHERE clause for an audit query from request filters.
+ * @param {Object} filters - { entityType, entityId, action, actor, startDate, endDate }
+ * @returns {{ where: string, params: Array }}
+ */
+function buildAuditFilter(filters = {}) {
+  const clauses = [];
+  const params = [];
+
+  if (filters.entityType) {
+    clauses.push(`entity_type = $${params.length + 1}`);
+    params.push(filters.entityType);
+  }
+  if (filters.entityId) {
+    clauses.push(`entity_id = $${params.length + 1}`);
+    params.push(String(filters.entityId));
+  }
+  if (filters.action) {
+    clauses.push(`action = $${params.length + 1}`);
+    params.push(String(filters.action).toUpperCase());
+  }
+  if (filters.actor) {
+    clauses.push(`actor_username ILIKE $${params.length + 1}`);
+    params.push(`%${filters.actor}%`);
+  }
+  if (filters.startDate) {
+    clauses.push(`created_at >= $${params.length + 1}`);
+    params.push(filters.startDate);
+  }
+  if (filters.endDate) {
+    clauses.push(`created_at < ($${params.length + 1}::date + INTERVAL '1 day')`);
+    params.push(filters.endDate);
+  }
+
+  return {
+    where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '',
+    params
+  };
+}
+
+/**
+ * Lists audit events newest-first with pagination.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - See buildAuditFilter plus { page, limit }.
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listAuditEvents(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(200, Math.max(1, parseInt(filters.limit) || 50));
+  const offset = (page - 1) * limit;
+  const { where, params } = buildAuditFilter(filters);
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM audit_events${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `SELECT * FROM audit_events${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapAuditEvent),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+module.exports = {
+  recordAuditEvent,
+  listAuditEvents,
+  buildAuditFilter,
+  diffRecords,
+  sanitizeSnapshot,
+  mapAuditEvent,
+  AUDIT_ACTIONS,
+  REDACTED_FIELDS
+};
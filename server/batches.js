@@ -0,0 +1,241 @@
+/**
+ * Deposit Batch Utilities for GraceGiver
+ *
+ * A deposit batch mirrors how the counting team reconciles a Sunday
+ * offering: open a batch with the counted cash/check totals, attach
+ * donations as they are entered, watch the variance, then close it.
+ * Closed batches are locked — changing their donations requires a user
+ * holding 'batches:approve' (managers and admins).
+ */
+
+const { hasPermission } = require('./rbac');
+
+const BATCH_STATUSES = ['open', 'closed'];
+
+// Aggregates attached donations alongside each batch row
+const BATCH_SELECT = `
+  SELECT b.*,
+    COALESCE(SUM(d.amount), 0) AS actual_total,
+    COUNT(d.id) AS actual_count,
+    COALESCE(SUM(d.amount) FILTER (WHERE d.payment_method = 'cash'), 0) AS actual_cash_total,
+    COUNT(d.id) FILTER (WHERE d.payment_method = 'cash') AS actual_cash_count,
+    COALESCE(SUM(d.amount) FILTER (WHERE d.payment_method = 'check'), 0) AS actual_check_total,
+    COUNT(d.id) FILTER (WHERE d.payment_method = 'check') AS actual_check_count
+  FROM deposit_batches b
+  LEFT JOIN donations d ON d.batch_id = b.id
+`;
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+/**
+ * Validates the expected totals supplied when opening or editing a batch.
+ * @param {Object} input - Request body.
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateBatch(input) {
+  const errors = [];
+
+  ['expectedCashTotal', 'expectedCheckTotal'].forEach(field => {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') return;
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      errors.push(`INVALID_AMOUNT: ${field} must be a non-negative number.`);
+    }
+  });
+
+  ['expectedCashCount', 'expectedCheckCount'].forEach(field => {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') return;
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`INVALID_COUNT: ${field} must be a non-negative whole number.`);
+    }
+  });
+
+  if (input.batchDate && isNaN(new Date(input.batchDate).getTime())) {
+    errors.push('INVALID_DATE: batchDate must be a valid date.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a deposit_batches row (optionally with actual_total/actual_count
+ * aggregates) to the API response shape, including the running variance.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapBatch(row) {
+  const expectedCashCents = toCents(row.expected_cash_total);
+  const expectedCheckCents = toCents(row.expected_check_total);
+  const expectedTotalCents = expectedCashCents + expectedCheckCents;
+  const actualTotalCents = toCents(row.actual_total);
+  const actualCashCents = toCents(row.actual_cash_total);
+  const actualCheckCents = toCents(row.actual_check_total);
+
+  const expectedCount = (parseInt(row.expected_cash_count) || 0) + (parseInt(row.expected_check_count) || 0);
+  const actualCount = parseInt(row.actual_count) || 0;
+
+  return {
+    id: row.id.toString(),
+    batchDate: row.batch_date,
+    description: row.description,
+    status: row.status,
+    expectedCashTotal: fromCents(expectedCashCents),
+    expectedCashCount: parseInt(row.expected_cash_count) || 0,
+    expectedCheckTotal: fromCents(expectedCheckCents),
+    expectedCheckCount: parseInt(row.expected_check_count) || 0,
+    expectedTotal: fromCents(expectedTotalCents),
+    expectedCount,
+    actualTotal: fromCents(actualTotalCents),
+    actualCount,
+    actualCashTotal: fromCents(actualCashCents),
+    actualCashCount: parseInt(row.actual_cash_count) || 0,
+    actualCheckTotal: fromCents(actualCheckCents),
+    actualCheckCount: parseInt(row.actual_check_count) || 0,
+    cashVariance: fromCents(actualCashCents - expectedCashCents),
+    checkVariance: fromCents(actualCheckCents - expectedCheckCents),
+    variance: fromCents(actualTotalCents - expectedTotalCents),
+    countVariance: actualCount - expectedCount,
+    isBalanced: actualTotalCents === expectedTotalCents && actualCount === expectedCount,
+    createdBy: row.created_by,
+    closedBy: row.closed_by,
+    closedAt: row.closed_at,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Lists batches newest-first with their running totals.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { status, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listBatches(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const params = [];
+  let where = '';
+
+  if (filters.status && BATCH_STATUSES.includes(filters.status)) {
+    where = ' WHERE b.status = $1';
+    params.push(filters.status);
+  }
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM deposit_batches b${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${BATCH_SELECT}${where} GROUP BY b.id ORDER BY b.batch_date DESC, b.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapBatch),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single batch with its running totals.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>} The mapped batch, or null if not found.
+ */
+async function getBatch(db, id) {
+  const result = await db.query(`${BATCH_SELECT} WHERE b.id = $1 GROUP BY b.id`, [id]);
+  return result.rows.length > 0 ? mapBatch(result.rows[0]) : null;
+}
+
+/**
+ * Fetches the donations attached to a batch with donor names.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} batchId
+ * @returns {Promise<Array>}
+ */
+async function getBatchDonations(db, batchId) {
+  const result = await db.query(
+    `SELECT d.*,
+       COALESCE(m.first_name, 'Guest') AS first_name,
+       COALESCE(m.last_name, 'Non-Member') AS last_name
+     FROM donations d
+     LEFT JOIN members m ON d.member_id = m.id
+     WHERE d.batch_id = $1
+     ORDER BY d.id ASC`,
+    [batchId]
+  );
+  return result.rows;
+}
+
+/**
+ * Decides whether a user may add, change or remove donations in a batch.
+ * @param {Object|null} batch - Raw deposit_batches row or mapped batch.
+ * @param {string} role - The acting user's role.
+ * @returns {Object|null} { status, body } error to send, or null if allowed.
+ */
+function checkBatchWritable(batch, role) {
+  if (!batch) {
+    return {
+      status: 400,
+      body: { error: 'VALIDATION_FAILED', details: ['Deposit batch not found'] }
+    };
+  }
+  if (batch.status === 'closed' && !hasPermission(role, 'batches:approve')) {
+    return {
+      status: 423,
+      body: {
+        error: 'BATCH_LOCKED',
+        details: [`Deposit batch ${batch.id} is closed. A manager must approve changes to its donations.`]
+      }
+    };
+  }
+  return null;
+}
+
+/**
+ * Loads each referenced batch and applies checkBatchWritable. Used by the
+ * donation routes for both the batch a donation is in and the one it is
+ * being moved to.
+ * @param {Object} db - pg Pool or client
+ * @param {Array} batchIds - Batch IDs (null/undefined entries are skipped).
+ * @param {string} role - The acting user's role.
+ * @returns {Promise<Object|null>} { status, body } error, or null if allowed.
+ */
+async function checkBatchesWritable(db, batchIds, role) {
+  const ids = [...new Set(
+    batchIds.filter(id => id !== null && id !== undefined && id !== '').map(String)
+  )];
+
+  for (const id of ids) {
+    if (!/^\d+$/.test(id)) {
+      return {
+        status: 400,
+        body: { error: 'VALIDATION_FAILED', details: ['batchId must be a numeric batch ID'] }
+      };
+    }
+    const result = await db.query('SELECT id, status FROM deposit_batches WHERE id = $1', [id]);
+    const error = checkBatchWritable(result.rows[0], role);
+    if (error) return error;
+  }
+  return null;
+}
+
+module.exports = {
+  validateBatch,
+  mapBatch,
+  listBatches,
+  getBatch,
+  getBatchDonations,
+  checkBatchWritable,
+  checkBatchesWritable,
+  BATCH_STATUSES
+};
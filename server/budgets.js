@@ -0,0 +1,288 @@
+/**
+ * Fund Budget Utilities for GraceGiver
+ *
+ * A budget line is the amount the council expects a fund to receive in a
+ * year, spread over the twelve months it should come in. The spread is
+ * stored so the report never has to re-derive it: 'even' splits the year
+ * equally, 'seasonal' follows the fund's giving pattern from the year
+ * before and 'custom' takes the twelve amounts as entered. Actuals are
+ * always read from donations, so edits and voids show up immediately.
+ */
+
+const BUDGET_DISTRIBUTIONS = ['even', 'seasonal', 'custom'];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MAX_NOTES_LENGTH = 1000;
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+const isAmount = (value) => value !== null && value !== '' && !isNaN(parseFloat(value)) && isFinite(value) && parseFloat(value) >= 0;
+
+/**
+ * Validates a budget line. Updates are validated against the stored line
+ * merged with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateBudget(input) {
+  const errors = [];
+
+  if (!input.fund || typeof input.fund !== 'string' || !input.fund.trim()) {
+    errors.push('REQUIRED_FUND: Fund is required.');
+  }
+  if (!/^\d{4}$/.test(String(input.year ?? ''))) {
+    errors.push('INVALID_YEAR: year must be a four-digit year.');
+  }
+  if (!isAmount(input.annualAmount)) {
+    errors.push('INVALID_AMOUNT: annualAmount must be an amount of 0 or more.');
+  }
+
+  const distribution = input.distribution || 'even';
+  if (!BUDGET_DISTRIBUTIONS.includes(distribution)) {
+    errors.push(`INVALID_DISTRIBUTION: distribution must be one of ${BUDGET_DISTRIBUTIONS.join(', ')}.`);
+  } else if (distribution === 'custom') {
+    const months = input.monthlyAmounts;
+    if (!Array.isArray(months) || months.length !== 12 || !months.every(isAmount)) {
+      errors.push('INVALID_MONTHLY_AMOUNTS: A custom distribution needs 12 monthly amounts of 0 or more.');
+    } else if (isAmount(input.annualAmount)
+      && months.reduce((sum, month) => sum + toCents(month), 0) !== toCents(input.annualAmount)) {
+      errors.push('INVALID_MONTHLY_AMOUNTS: Monthly amounts must add up to the annual amount.');
+    }
+  }
+
+  if (input.notes && String(input.notes).length > MAX_NOTES_LENGTH) {
+    errors.push(`INVALID_NOTES_LENGTH: Notes cannot exceed ${MAX_NOTES_LENGTH} characters.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Spreads an annual amount over twelve months in proportion to weights.
+ * Without any weight the year is split evenly. December absorbs rounding
+ * so the months always add up to the annual amount.
+ * @param {number|string} annualAmount
+ * @param {Array<number>} [weights] - Twelve non-negative weights.
+ * @returns {Array<number>} Twelve monthly amounts.
+ */
+function spreadAnnualAmount(annualAmount, weights = null) {
+  const totalCents = toCents(annualAmount);
+  const totalWeight = weights ? weights.reduce((sum, weight) => sum + (Number(weight) || 0), 0) : 0;
+  const share = totalWeight > 0
+    ? (i) => Math.floor((totalCents * (Number(weights[i]) || 0)) / totalWeight)
+    : () => Math.floor(totalCents / 12);
+
+  const cents = MONTH_LABELS.map((_, i) => share(i));
+  cents[11] += totalCents - cents.reduce((sum, value) => sum + value, 0);
+  return cents.map(fromCents);
+}
+
+/**
+ * Works out the stored monthly amounts for a validated budget line. A
+ * seasonal line with no giving in the year before falls back to even.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} budget - { fund, year, annualAmount, distribution, monthlyAmounts }
+ * @returns {Promise<Array<number>>}
+ */
+async function resolveMonthlyAmounts(db, budget) {
+  if (budget.distribution === 'custom') {
+    return budget.monthlyAmounts.map(month => fromCents(toCents(month)));
+  }
+  if (budget.distribution !== 'seasonal') {
+    return spreadAnnualAmount(budget.annualAmount);
+  }
+
+  const result = await db.query(
+    `SELECT EXTRACT(MONTH FROM donation_date)::int AS month, SUM(amount) AS total
+     FROM donations
+     WHERE fund = $1 AND EXTRACT(YEAR FROM donation_date) = $2::int - 1
+     GROUP BY month`,
+    [budget.fund, budget.year]
+  );
+  const weights = new Array(12).fill(0);
+  for (const row of result.rows) {
+    weights[row.month - 1] = parseFloat(row.total) || 0;
+  }
+  return spreadAnnualAmount(budget.annualAmount, weights);
+}
+
+/**
+ * Maps a fund_budgets row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapBudget(row) {
+  return {
+    id: String(row.id),
+    fund: row.fund_name,
+    year: parseInt(row.budget_year),
+    annualAmount: parseFloat(row.annual_amount),
+    distribution: row.distribution,
+    monthlyAmounts: (row.monthly_amounts || []).map(month => parseFloat(month)),
+    notes: row.notes || null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Lists the budget lines for a year in fund display order.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} year
+ * @param {Object} [filters] - { fund }
+ * @returns {Promise<Array>}
+ */
+async function listBudgets(db, year, { fund = null } = {}) {
+  const result = await db.query(
+    `SELECT b.*
+     FROM fund_budgets b
+     LEFT JOIN funds f ON f.name = b.fund_name
+     WHERE b.budget_year = $1 AND ($2::text IS NULL OR b.fund_name = $2)
+     ORDER BY f.sort_order, b.fund_name`,
+    [year, fund]
+  );
+  return result.rows.map(mapBudget);
+}
+
+/**
+ * How much of a year has been reached by a day, month by month: 1 for
+ * months that are over, the share of days elapsed in the current month
+ * and 0 for months still to come.
+ * @param {number} year
+ * @param {Date} asOf
+ * @returns {Array<number>} Twelve fractions.
+ */
+function elapsedMonths(year, asOf) {
+  const asOfYear = asOf.getUTCFullYear();
+  if (year < asOfYear) return new Array(12).fill(1);
+  if (year > asOfYear) return new Array(12).fill(0);
+
+  const month = asOf.getUTCMonth();
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return MONTH_LABELS.map((_, i) => {
+    if (i < month) return 1;
+    if (i > month) return 0;
+    return asOf.getUTCDate() / daysInMonth;
+  });
+}
+
+/**
+ * Compares each budget line for a year with what its fund received.
+ * Year-to-date budget counts finished months in full and the current
+ * month in proportion to the days gone; pace is actual against that.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} year
+ * @param {Object} [options] - { fund, asOf }
+ * @returns {Promise<Object>} { year, asOf, funds, totals }
+ */
+async function getBudgetVsActual(db, year, { fund = null, asOf = new Date() } = {}) {
+  const budgetYear = parseInt(year);
+  const budgets = await listBudgets(db, budgetYear, { fund });
+
+  const actuals = await db.query(
+    `SELECT fund, EXTRACT(MONTH FROM donation_date)::int AS month, SUM(amount) AS total
+     FROM donations
+     WHERE EXTRACT(YEAR FROM donation_date) = $1 AND fund = ANY($2::text[])
+     GROUP BY fund, month`,
+    [budgetYear, budgets.map(budget => budget.fund)]
+  );
+  const actualCents = new Map();
+  for (const row of actuals.rows) {
+    if (!actualCents.has(row.fund)) actualCents.set(row.fund, new Array(12).fill(0));
+    actualCents.get(row.fund)[row.month - 1] = toCents(row.total);
+  }
+
+  const elapsed = elapsedMonths(budgetYear, asOf);
+  const summarize = (name, budgetCents, receivedCents, annualCents) => {
+    const ytdBudgetCents = Math.round(budgetCents.reduce((sum, cents, i) => sum + cents * elapsed[i], 0));
+    const ytdActualCents = receivedCents.reduce((sum, cents) => sum + cents, 0);
+    const pacePercent = ytdBudgetCents > 0 ? Math.round((ytdActualCents / ytdBudgetCents) * 1000) / 10 : null;
+    return {
+      fund: name,
+      annualBudget: fromCents(annualCents),
+      ytdBudget: fromCents(ytdBudgetCents),
+      ytdActual: fromCents(ytdActualCents),
+      variance: fromCents(ytdActualCents - ytdBudgetCents),
+      pacePercent,
+      projected: pacePercent === null ? null : fromCents(Math.round((annualCents * pacePercent) / 100)),
+      remaining: fromCents(annualCents - ytdActualCents),
+      months: MONTH_LABELS.map((label, i) => ({
+        month: i + 1,
+        label,
+        budget: fromCents(budgetCents[i]),
+        actual: fromCents(receivedCents[i]),
+        variance: fromCents(receivedCents[i] - budgetCents[i])
+      }))
+    };
+  };
+
+  const totalBudget = new Array(12).fill(0);
+  const totalActual = new Array(12).fill(0);
+  let totalAnnual = 0;
+  const funds = budgets.map(budget => {
+    const budgetCents = budget.monthlyAmounts.map(toCents);
+    const receivedCents = actualCents.get(budget.fund) || new Array(12).fill(0);
+    budgetCents.forEach((cents, i) => { totalBudget[i] += cents; totalActual[i] += receivedCents[i]; });
+    totalAnnual += toCents(budget.annualAmount);
+    return { budgetId: budget.id, ...summarize(budget.fund, budgetCents, receivedCents, toCents(budget.annualAmount)) };
+  });
+
+  return {
+    year: budgetYear,
+    asOf: asOf.toISOString().slice(0, 10),
+    funds,
+    totals: summarize('Total', totalBudget, totalActual, totalAnnual)
+  };
+}
+
+/**
+ * Turns a budget-vs-actual result into the tabular shape rendered by
+ * generateSummaryReportPDF and the CSV export: one row per fund plus a
+ * total row.
+ * @param {Object} data - getBudgetVsActual result
+ * @returns {Object} { title, period, generatedAt, columns, rows }
+ */
+function buildBudgetReport(data) {
+  const row = (line) => ({
+    fund: line.fund,
+    annualBudget: line.annualBudget,
+    ytdBudget: line.ytdBudget,
+    ytdActual: line.ytdActual,
+    variance: line.variance,
+    pacePercent: line.pacePercent,
+    remaining: line.remaining
+  });
+
+  return {
+    title: `Budget vs. Actual (${data.year})`,
+    period: `Year to date as of ${data.asOf}`,
+    generatedAt: new Date(),
+    columns: [
+      { key: 'fund', label: 'Fund', type: 'text' },
+      { key: 'annualBudget', label: 'Annual Budget', type: 'currency' },
+      { key: 'ytdBudget', label: 'YTD Budget', type: 'currency' },
+      { key: 'ytdActual', label: 'YTD Actual', type: 'currency' },
+      { key: 'variance', label: 'Variance', type: 'currency' },
+      { key: 'pacePercent', label: 'Pace', type: 'percent' },
+      { key: 'remaining', label: 'Remaining', type: 'currency' }
+    ],
+    rows: data.funds.length > 0 ? [...data.funds.map(row), row(data.totals)] : []
+  };
+}
+
+module.exports = {
+  BUDGET_DISTRIBUTIONS,
+  validateBudget,
+  spreadAnnualAmount,
+  resolveMonthlyAmounts,
+  mapBudget,
+  listBudgets,
+  elapsedMonths,
+  getBudgetVsActual,
+  buildBudgetReport
+};
@@ -0,0 +1,93 @@
+/**
+ * Optimistic Concurrency Helpers for GraceGiver
+ *
+ * Members and donations carry a `version` that every edit increments.
+ * Clients send the version they loaded in the If-Match header; an update
+ * made against an older version is refused with a 409 and the current copy
+ * so the client can merge instead of overwriting someone else's changes.
+ *
+ * New donations may carry an Idempotency-Key, so a gift queued offline and
+ * sent again after a dropped connection is recorded only once.
+ */
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+/**
+ * Reads the expected version from an If-Match header.
+ * Accepts `"3"`, `W/"3"` or a bare `3`. Missing headers and `*` mean the
+ * client did not ask for a check (older clients, scripts).
+ * @param {string|undefined} header
+ * @returns {number|null|undefined} Version, null when unchecked, undefined when malformed.
+ */
+function parseIfMatch(header) {
+  if (header === undefined || header === null || header.trim() === '' || header.trim() === '*') {
+    return null;
+  }
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * ETag for a row version.
+ * @param {number} version
+ * @returns {string}
+ */
+function formatETag(version) {
+  return `"${version}"`;
+}
+
+/**
+ * 409 body for an update made against a stale version.
+ * @param {string} entity - 'member' or 'donation'
+ * @param {Object} current - Current row, as returned by a successful update.
+ * @param {number} expected - Version the client edited.
+ * @returns {Object}
+ */
+function versionConflict(entity, current, expected) {
+  return {
+    error: 'VERSION_CONFLICT',
+    details: [
+      `VERSION_CONFLICT: This ${entity} was changed by someone else (version ${expected} was edited, version ${current.version} is current)`
+    ],
+    current
+  };
+}
+
+/**
+ * Reads an Idempotency-Key header. Client-generated UUIDs fit the pattern.
+ * @param {string|undefined} header
+ * @returns {string|null|undefined} Key, null when absent, undefined when malformed.
+ */
+function parseIdempotencyKey(header) {
+  if (header === undefined || header === null || header.trim() === '') {
+    return null;
+  }
+  const key = header.trim();
+  return IDEMPOTENCY_KEY_PATTERN.test(key) ? key : undefined;
+}
+
+/**
+ * Whether a stored donation is the one a retried request describes. A key
+ * reused by another user or for a different gift is refused, not replayed.
+ * @param {Object} row - donations row recorded with the key
+ * @param {Object} request
+ * @param {string|null} request.memberId
+ * @param {number} request.amount
+ * @param {string} request.username
+ * @returns {boolean}
+ */
+function isSameDonationRequest(row, { memberId, amount, username }) {
+  return (
+    row.entered_by === username &&
+    (row.member_id || null) === (memberId || null) &&
+    parseFloat(row.amount) === amount
+  );
+}
+
+module.exports = {
+  parseIfMatch,
+  formatETag,
+  versionConflict,
+  parseIdempotencyKey,
+  isSameDonationRequest
+};
@@ -0,0 +1,351 @@
+/**
+ * Disbursement Utilities for GraceGiver
+ *
+ * A disbursement is money paid out of a fund (a benevolence check, a
+ * repair invoice). It is requested as 'pending' and only counts against
+ * the fund once approved by someone holding 'disbursements:approve', who
+ * cannot be the person who asked for it. Approved disbursements are voided
+ * rather than deleted so past fund activity statements can be reproduced.
+ * Fund balances are never stored: receipts minus approved disbursements.
+ */
+
+const DISBURSEMENT_STATUSES = ['pending', 'approved', 'rejected', 'void'];
+
+// Decision -> the status it applies to, the status it moves to and its past tense
+const DISBURSEMENT_DECISIONS = {
+  approve: { from: 'pending', to: 'approved', done: 'approved' },
+  reject: { from: 'pending', to: 'rejected', done: 'rejected' },
+  void: { from: 'approved', to: 'void', done: 'voided' }
+};
+
+const ATTACHMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const MAX_PAYEE_LENGTH = 200;
+const MAX_MEMO_LENGTH = 1000;
+
+// Ledger rows with the attachment's name but never its content
+const DISBURSEMENT_SELECT = `
+  SELECT d.*, a.filename AS attachment_name, a.content_type AS attachment_type
+  FROM disbursements d
+  LEFT JOIN disbursement_attachments a ON a.disbursement_id = d.id
+`;
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+const isDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(String(value)) && !isNaN(new Date(value).getTime());
+
+const formatDate = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  return String(value).slice(0, 10);
+};
+
+/**
+ * Validates a disbursement request. Updates are validated against the
+ * stored disbursement merged with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateDisbursement(input) {
+  const errors = [];
+
+  if (!input.payee || typeof input.payee !== 'string' || !input.payee.trim()) {
+    errors.push('REQUIRED_PAYEE: Payee is required.');
+  } else if (input.payee.trim().length > MAX_PAYEE_LENGTH) {
+    errors.push(`INVALID_PAYEE_LENGTH: Payee cannot exceed ${MAX_PAYEE_LENGTH} characters.`);
+  }
+  const amount = parseFloat(input.amount);
+  if (isNaN(amount) || !isFinite(input.amount) || amount <= 0) {
+    errors.push('INVALID_AMOUNT: Amount must be more than 0.');
+  }
+  if (!input.fund || typeof input.fund !== 'string' || !input.fund.trim()) {
+    errors.push('REQUIRED_FUND: Fund is required.');
+  }
+  if (!isDate(input.date)) {
+    errors.push('INVALID_DATE: date must be a date (YYYY-MM-DD).');
+  }
+  if (input.memo && String(input.memo).length > MAX_MEMO_LENGTH) {
+    errors.push(`INVALID_MEMO_LENGTH: Memo cannot exceed ${MAX_MEMO_LENGTH} characters.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates and decodes an attachment sent as base64.
+ * @param {Object} input - { filename, contentType, content }
+ * @returns {Object} { isValid, errors, content: Buffer|null }
+ */
+function validateAttachment(input) {
+  const errors = [];
+  let content = null;
+
+  if (!input.filename || typeof input.filename !== 'string' || !input.filename.trim()) {
+    errors.push('REQUIRED_FILENAME: filename is required.');
+  }
+  if (!ATTACHMENT_TYPES.includes(input.contentType)) {
+    errors.push('INVALID_ATTACHMENT_TYPE: Attach a PDF, PNG or JPEG file.');
+  }
+  if (!input.content || typeof input.content !== 'string' || !/^[A-Za-z0-9+/]+={0,2}$/.test(input.content)) {
+    errors.push('INVALID_ATTACHMENT: content must be the file encoded as base64.');
+  } else {
+    content = Buffer.from(input.content, 'base64');
+    if (content.length > MAX_ATTACHMENT_BYTES) {
+      errors.push(`ATTACHMENT_TOO_LARGE: Attachments cannot exceed ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    content: errors.length === 0 ? content : null
+  };
+}
+
+/**
+ * Checks a decision against a disbursement's status and who is making it.
+ * @param {Object} disbursement - Mapped disbursement.
+ * @param {string} decision - 'approve', 'reject' or 'void'
+ * @param {Object} user - req.user
+ * @param {string} [note] - Reason; required to reject or void.
+ * @returns {Object|null} { status, error, details } to send, or null when allowed.
+ */
+function checkDecision(disbursement, decision, user, note) {
+  const transition = DISBURSEMENT_DECISIONS[decision];
+  if (!transition) {
+    return {
+      status: 400,
+      error: 'VALIDATION_FAILED',
+      details: [`INVALID_DECISION: decision must be one of ${Object.keys(DISBURSEMENT_DECISIONS).join(', ')}.`]
+    };
+  }
+  if (decision !== 'approve' && (!note || typeof note !== 'string' || !note.trim())) {
+    return { status: 400, error: 'VALIDATION_FAILED', details: ['REQUIRED_NOTE: Give a reason to reject or void a disbursement.'] };
+  }
+  if (disbursement.status !== transition.from) {
+    return {
+      status: 409,
+      error: 'INVALID_STATUS',
+      details: [`Only ${transition.from} disbursements can be ${transition.done}`]
+    };
+  }
+  if (decision === 'approve' && disbursement.requestedById !== null && disbursement.requestedById === user.id) {
+    return { status: 403, error: 'SELF_APPROVAL', details: ['Someone other than the requester must approve a disbursement'] };
+  }
+  return null;
+}
+
+/**
+ * Maps a disbursements row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapDisbursement(row) {
+  return {
+    id: String(row.id),
+    payee: row.payee,
+    amount: parseFloat(row.amount),
+    fund: row.fund,
+    date: formatDate(row.disbursement_date),
+    memo: row.memo || null,
+    status: row.status,
+    requestedBy: row.requested_by || null,
+    requestedById: row.requested_by_id ?? null,
+    decidedBy: row.decided_by || null,
+    decidedAt: row.decided_at || null,
+    decisionNote: row.decision_note || null,
+    attachmentName: row.attachment_name || null,
+    attachmentType: row.attachment_type || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Lists disbursements, newest first.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} [filters] - { status, fund, startDate, endDate, page, limit }
+ * @returns {Promise<Object>} { data, pagination }
+ */
+async function listDisbursements(db, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.status && DISBURSEMENT_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`d.status = $${params.length}`);
+  }
+  if (filters.fund) {
+    params.push(filters.fund);
+    conditions.push(`d.fund = $${params.length}`);
+  }
+  if (filters.startDate && isDate(filters.startDate)) {
+    params.push(filters.startDate);
+    conditions.push(`d.disbursement_date >= $${params.length}`);
+  }
+  if (filters.endDate && isDate(filters.endDate)) {
+    params.push(filters.endDate);
+    conditions.push(`d.disbursement_date <= $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await db.query(`SELECT COUNT(*) FROM disbursements d${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await db.query(
+    `${DISBURSEMENT_SELECT}${where}
+     ORDER BY d.disbursement_date DESC, d.id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapDisbursement),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single disbursement.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getDisbursement(db, id) {
+  const result = await db.query(`${DISBURSEMENT_SELECT} WHERE d.id = $1`, [id]);
+  return result.rows.length > 0 ? mapDisbursement(result.rows[0]) : null;
+}
+
+/**
+ * Each fund's balance: everything received minus approved disbursements,
+ * with what is still waiting for approval alongside. Archived funds are
+ * listed only while they hold money or have disbursements pending.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} [options] - { asOf: 'YYYY-MM-DD' }
+ * @returns {Promise<Array>} [{ fund, receipts, disbursed, pending, balance }]
+ */
+async function getFundBalances(db, { asOf = null } = {}) {
+  const result = await db.query(
+    `SELECT f.name AS fund, f.is_active,
+       COALESCE(r.total, 0) AS receipts,
+       COALESCE(p.disbursed, 0) AS disbursed,
+       COALESCE(p.pending, 0) AS pending
+     FROM funds f
+     LEFT JOIN (
+       SELECT fund, SUM(amount) AS total FROM donations
+       WHERE ($1::date IS NULL OR donation_date < $1::date + INTERVAL '1 day')
+       GROUP BY fund
+     ) r ON r.fund = f.name
+     LEFT JOIN (
+       SELECT fund,
+         SUM(amount) FILTER (WHERE status = 'approved') AS disbursed,
+         SUM(amount) FILTER (WHERE status = 'pending') AS pending
+       FROM disbursements
+       WHERE ($1::date IS NULL OR disbursement_date <= $1::date)
+       GROUP BY fund
+     ) p ON p.fund = f.name
+     ORDER BY f.sort_order, f.name`,
+    [asOf]
+  );
+
+  return result.rows
+    .map(row => {
+      const receipts = toCents(row.receipts);
+      const disbursed = toCents(row.disbursed);
+      return {
+        fund: row.fund,
+        isActive: row.is_active !== false,
+        receipts: fromCents(receipts),
+        disbursed: fromCents(disbursed),
+        pending: fromCents(toCents(row.pending)),
+        balance: fromCents(receipts - disbursed)
+      };
+    })
+    .filter(row => row.isActive || row.balance !== 0 || row.pending !== 0);
+}
+
+/**
+ * Everything that went in and out of a fund over a period: the opening
+ * balance, receipts by month, each approved disbursement and the closing
+ * balance. Feeds generateFundActivityStatement.
+ * @param {Object} db - pg Pool or client
+ * @param {string} fund - Fund name.
+ * @param {Object} options - { startDate, endDate } as 'YYYY-MM-DD'
+ * @returns {Promise<Object>}
+ */
+async function getFundActivity(db, fund, { startDate, endDate }) {
+  const opening = await db.query(
+    `SELECT
+       (SELECT COALESCE(SUM(amount), 0) FROM donations WHERE fund = $1 AND donation_date < $2::date) AS receipts,
+       (SELECT COALESCE(SUM(amount), 0) FROM disbursements
+        WHERE fund = $1 AND status = 'approved' AND disbursement_date < $2::date) AS disbursed`,
+    [fund, startDate]
+  );
+  const receipts = await db.query(
+    `SELECT to_char(date_trunc('month', donation_date), 'YYYY-MM') AS month,
+       COUNT(*) AS count, SUM(amount) AS total
+     FROM donations
+     WHERE fund = $1 AND donation_date >= $2::date AND donation_date < $3::date + INTERVAL '1 day'
+     GROUP BY month
+     ORDER BY month`,
+    [fund, startDate, endDate]
+  );
+  const disbursements = await db.query(
+    `${DISBURSEMENT_SELECT}
+     WHERE d.fund = $1 AND d.status = 'approved'
+       AND d.disbursement_date >= $2::date AND d.disbursement_date <= $3::date
+     ORDER BY d.disbursement_date, d.id`,
+    [fund, startDate, endDate]
+  );
+
+  const openingCents = toCents(opening.rows[0].receipts) - toCents(opening.rows[0].disbursed);
+  const receiptRows = receipts.rows.map(row => ({
+    month: row.month,
+    count: parseInt(row.count) || 0,
+    total: parseFloat(row.total) || 0
+  }));
+  const disbursementRows = disbursements.rows.map(mapDisbursement);
+  const receivedCents = receiptRows.reduce((sum, row) => sum + toCents(row.total), 0);
+  const paidCents = disbursementRows.reduce((sum, row) => sum + toCents(row.amount), 0);
+
+  return {
+    fund,
+    startDate,
+    endDate,
+    openingBalance: fromCents(openingCents),
+    receipts: receiptRows,
+    disbursements: disbursementRows,
+    totalReceipts: fromCents(receivedCents),
+    totalDisbursements: fromCents(paidCents),
+    closingBalance: fromCents(openingCents + receivedCents - paidCents)
+  };
+}
+
+module.exports = {
+  DISBURSEMENT_STATUSES,
+  DISBURSEMENT_DECISIONS,
+  ATTACHMENT_TYPES,
+  validateDisbursement,
+  validateAttachment,
+  checkDecision,
+  mapDisbursement,
+  listDisbursements,
+  getDisbursement,
+  getFundBalances,
+  getFundActivity
+};
@@ -0,0 +1,558 @@
+/**
+ * Donation Import Utilities for GraceGiver
+ *
+ * Turns bank and online giving exports into donations. A provider profile
+ * suggests the column mapping and default payment method; each row is then
+ * matched to a member (email first, then a unique name), its fund resolved
+ * through fund_mapping_rules, and deduped on the provider's transaction ID.
+ * Rows that cannot be matched wait in the review queue
+ * (donation_import_rows.status = 'pending') instead of being guessed at.
+ */
+
+const { suggestMapping } = require('./imports');
+
+// Donation fields a CSV column can be mapped to
+const DONATION_IMPORT_FIELDS = [
+  'externalId',
+  'date',
+  'amount',
+  'payerName',
+  'firstName',
+  'lastName',
+  'email',
+  'fund',
+  'paymentMethod',
+  'notes'
+];
+
+const GENERIC_ALIASES = {
+  externalId: ['transactionid', 'id', 'reference', 'referencenumber', 'confirmationnumber'],
+  date: ['date', 'giftdate', 'donationdate', 'transactiondate', 'postingdate'],
+  amount: ['amount', 'giftamount', 'donationamount', 'total', 'credit'],
+  payerName: ['name', 'payer', 'payername', 'donor', 'donorname', 'givername', 'description'],
+  firstName: ['firstname', 'first'],
+  lastName: ['lastname', 'last'],
+  email: ['email', 'emailaddress', 'payeremail', 'donoremail'],
+  fund: ['fund', 'designation', 'category', 'purpose', 'givingtype'],
+  paymentMethod: ['paymentmethod', 'method', 'tendertype', 'paymenttype'],
+  notes: ['memo', 'note', 'notes', 'comment']
+};
+
+/**
+ * Provider profiles. Aliases are normalized header spellings (lowercase,
+ * alphanumerics only) tried before the generic ones; the mapping can always
+ * be adjusted in the wizard when an export's columns differ.
+ */
+const DONATION_IMPORT_PROFILES = {
+  generic: {
+    label: 'Generic CSV',
+    paymentMethod: 'online',
+    aliases: {}
+  },
+  tithely: {
+    label: 'Tithe.ly',
+    paymentMethod: 'online',
+    aliases: {
+      externalId: ['transactionid', 'chargeid'],
+      date: ['date', 'dategiven'],
+      amount: ['amount', 'grossamount'],
+      fund: ['fund', 'givingtype'],
+      paymentMethod: ['paymentmethod', 'sourcetype']
+    }
+  },
+  pushpay: {
+    label: 'Pushpay',
+    paymentMethod: 'online',
+    aliases: {
+      externalId: ['paymentid', 'transactionid'],
+      date: ['paymentdate', 'date'],
+      amount: ['amount'],
+      payerName: ['payername', 'name'],
+      email: ['email', 'payeremail'],
+      fund: ['fund', 'fundname']
+    }
+  },
+  bank: {
+    label: 'Bank Deposit (ACH)',
+    paymentMethod: 'ach',
+    aliases: {
+      externalId: ['referencenumber', 'reference', 'traceid', 'transactionid'],
+      date: ['postingdate', 'postdate', 'date'],
+      amount: ['credit', 'creditamount', 'amount'],
+      payerName: ['originatorname', 'description', 'payee']
+    }
+  }
+};
+
+// Provider payment labels → our payment methods
+const PAYMENT_METHOD_ALIASES = {
+  card: ['card', 'credit', 'creditcard', 'debit', 'debitcard', 'visa', 'mastercard', 'amex', 'discover'],
+  ach: ['ach', 'bank', 'banktransfer', 'echeck', 'eft'],
+  check: ['check', 'cheque'],
+  cash: ['cash'],
+  online: ['online', 'web', 'app', 'text', 'applepay', 'googlepay', 'paypal'],
+  stock: ['stock', 'securities'],
+  in_kind: ['inkind', 'noncash']
+};
+
+const normalizeKey = (value) => String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+const normalizeValue = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * Suggests a mapping for a provider, preferring its own header spellings.
+ * @param {Array<string>} headers
+ * @param {string} provider
+ * @returns {Object} mapping
+ */
+function suggestDonationMapping(headers, provider) {
+  const profile = DONATION_IMPORT_PROFILES[provider] || DONATION_IMPORT_PROFILES.generic;
+  const aliases = {};
+  DONATION_IMPORT_FIELDS.forEach(field => {
+    aliases[field] = [...(profile.aliases[field] || []), ...(GENERIC_ALIASES[field] || [])];
+  });
+  return suggestMapping(headers, aliases);
+}
+
+/**
+ * Parses an export's amount ("$1,234.50"). Negative, zero and unreadable
+ * amounts return null.
+ * @param {string} value
+ * @returns {number|null}
+ */
+function parseImportAmount(value) {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  if (!text || text.startsWith('-') || text.startsWith('(')) return null;
+  const amount = parseFloat(text.replace(/[$,\s]/g, ''));
+  if (isNaN(amount) || amount <= 0) return null;
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parses an export's date into YYYY-MM-DD. Accepts ISO dates and US
+ * M/D/YYYY or M/D/YY dates.
+ * @param {string} value
+ * @returns {string|null}
+ */
+function parseImportDate(value) {
+  if (!value) return null;
+  const text = String(value).trim();
+  let year;
+  let month;
+  let day;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/);
+  if (iso) {
+    [, year, month, day] = iso.map(Number);
+  } else if (us) {
+    [, month, day, year] = us.map(Number);
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Maps a provider's payment label to one of our payment methods.
+ * @param {string} value
+ * @param {string} fallback - The profile's default.
+ * @returns {string}
+ */
+function normalizePaymentMethod(value, fallback) {
+  const key = normalizeKey(value);
+  if (!key) return fallback;
+  const match = Object.entries(PAYMENT_METHOD_ALIASES).find(([, names]) => names.includes(key));
+  return match ? match[0] : fallback;
+}
+
+/**
+ * Splits "Smith, John" or "John Smith" into first and last name.
+ * @param {string} name
+ * @returns {{ firstName: string|null, lastName: string|null }}
+ */
+function splitPayerName(name) {
+  const text = String(name || '').trim().replace(/\s+/g, ' ');
+  if (!text) return { firstName: null, lastName: null };
+  if (text.includes(',')) {
+    const [last, first] = text.split(',').map(part => part.trim());
+    return { firstName: first || null, lastName: last || null };
+  }
+  const parts = text.split(' ');
+  if (parts.length === 1) return { firstName: null, lastName: parts[0] };
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+}
+
+/**
+ * Builds an import row from a CSV record using the mapping.
+ * @param {Object} record
+ * @param {Object} mapping
+ * @param {string} provider
+ * @returns {Object} { externalId, date, amount, payerName, firstName, lastName, email, sourceFund, paymentMethod, notes, errors }
+ */
+function mapDonationRecord(record, mapping, provider) {
+  const profile = DONATION_IMPORT_PROFILES[provider] || DONATION_IMPORT_PROFILES.generic;
+  const value = (field) => {
+    const column = mapping[field];
+    if (!column) return null;
+    const raw = record[column];
+    return raw === undefined || raw === null || String(raw).trim() === '' ? null : String(raw).trim();
+  };
+  const errors = [];
+
+  const amount = parseImportAmount(value('amount'));
+  if (amount === null) {
+    errors.push('INVALID_AMOUNT: Amount must be a positive number.');
+  }
+  const date = parseImportDate(value('date'));
+  if (!date) {
+    errors.push('INVALID_DATE: Date must be YYYY-MM-DD or MM/DD/YYYY.');
+  }
+
+  let firstName = value('firstName');
+  let lastName = value('lastName');
+  const payerName = value('payerName') || [firstName, lastName].filter(Boolean).join(' ') || null;
+  if (!firstName && !lastName && payerName) {
+    ({ firstName, lastName } = splitPayerName(payerName));
+  }
+  const email = value('email');
+
+  return {
+    externalId: value('externalId'),
+    date,
+    amount,
+    payerName,
+    firstName,
+    lastName,
+    email: email ? email.toLowerCase() : null,
+    sourceFund: value('fund'),
+    paymentMethod: normalizePaymentMethod(value('paymentMethod'), profile.paymentMethod),
+    notes: value('notes'),
+    errors
+  };
+}
+
+/**
+ * Resolves a row's fund: a provider rule, then a rule for every provider,
+ * then an exact match with an active catalog fund. Returns null when the
+ * row needs a fund chosen in review.
+ * @param {string|null} sourceFund
+ * @param {Array} rules - fund_mapping_rules rows.
+ * @param {Array<string>} knownFunds
+ * @param {string} provider
+ * @returns {string|null}
+ */
+function resolveFund(sourceFund, rules, knownFunds, provider) {
+  const key = normalizeValue(sourceFund);
+  if (!key) return null;
+  const rule =
+    rules.find(r => r.provider === provider && normalizeValue(r.match_value) === key) ||
+    rules.find(r => !r.provider && normalizeValue(r.match_value) === key);
+  if (rule) return rule.fund;
+  return knownFunds.find(fund => normalizeValue(fund) === key) || null;
+}
+
+const fullNameKey = (firstName, lastName) =>
+  `${String(firstName || '').trim().toLowerCase()} ${String(lastName || '').trim().toLowerCase()}`;
+
+/**
+ * Plans a donation import. Each row comes back with a status:
+ *
+ * - ready: matched to a member and a fund; imported on commit
+ * - pending: needs review (reviewReasons: 'member' and/or 'fund')
+ * - duplicate: the transaction ID was already imported, or repeats an earlier row
+ * - error: unreadable amount or date
+ *
+ * @param {Object} db - pg Pool or client
+ * @param {Array<Object>} records - From parseCsv.
+ * @param {Object} mapping - Field → column name.
+ * @param {string} provider - DONATION_IMPORT_PROFILES key.
+ * @returns {Promise<{ summary: Object, rows: Array }>}
+ */
+async function planDonationImport(db, records, mapping, provider) {
+  const rows = records.map((record, index) => ({
+    line: index + 2,
+    ...mapDonationRecord(record, mapping, provider),
+    record
+  }));
+
+  const externalIds = [...new Set(rows.map(row => row.externalId).filter(Boolean))];
+  const emails = [...new Set(rows.map(row => row.email).filter(Boolean))];
+  const names = [...new Set(rows.filter(row => row.lastName).map(row => fullNameKey(row.firstName, row.lastName)))];
+
+  const [existingResult, memberResult, ruleResult, fundResult] = await Promise.all([
+    externalIds.length > 0
+      ? db.query(
+          'SELECT external_id FROM donations WHERE source = $1 AND external_id = ANY($2::text[])',
+          [provider, externalIds]
+        )
+      : { rows: [] },
+    emails.length > 0 || names.length > 0
+      ? db.query(
+          `SELECT id, first_name, last_name, email FROM members
+           WHERE lower(email) = ANY($1::text[])
+              OR lower(first_name || ' ' || last_name) = ANY($2::text[])`,
+          [emails, names]
+        )
+      : { rows: [] },
+    db.query('SELECT * FROM fund_mapping_rules WHERE provider IS NULL OR provider = $1', [provider]),
+    db.query('SELECT name FROM funds WHERE is_active = true ORDER BY sort_order, name')
+  ]);
+
+  const importedIds = new Set(existingResult.rows.map(row => row.external_id));
+  const knownFunds = fundResult.rows.map(row => row.name);
+  const members = memberResult.rows;
+  const seenIds = new Map();
+
+  rows.forEach(row => {
+    row.memberId = null;
+    row.matchType = null;
+    row.candidates = [];
+    row.reviewReasons = [];
+    row.fund = resolveFund(row.sourceFund, ruleResult.rows, knownFunds, provider);
+
+    if (row.errors.length > 0) {
+      row.status = 'error';
+      return;
+    }
+    if (row.externalId && importedIds.has(row.externalId)) {
+      row.status = 'duplicate';
+      row.duplicateOf = 'imported';
+      return;
+    }
+    if (row.externalId && seenIds.has(row.externalId)) {
+      row.status = 'duplicate';
+      row.duplicateOf = seenIds.get(row.externalId);
+      return;
+    }
+    if (row.externalId) seenIds.set(row.externalId, row.line);
+
+    const emailMatch = row.email && members.find(m => m.email && m.email.toLowerCase() === row.email);
+    const nameMatches = row.lastName
+      ? members.filter(m => fullNameKey(m.first_name, m.last_name) === fullNameKey(row.firstName, row.lastName))
+      : [];
+    if (emailMatch) {
+      row.memberId = emailMatch.id;
+      row.matchType = 'email';
+    } else if (nameMatches.length === 1) {
+      row.memberId = nameMatches[0].id;
+      row.matchType = 'name';
+    } else {
+      row.reviewReasons.push('member');
+      row.candidates = nameMatches.map(m => ({ id: m.id, name: `${m.first_name} ${m.last_name}`, email: m.email }));
+    }
+    if (!row.fund) row.reviewReasons.push('fund');
+
+    row.status = row.reviewReasons.length > 0 ? 'pending' : 'ready';
+  });
+
+  const summary = { total: rows.length, ready: 0, pending: 0, duplicate: 0, error: 0 };
+  rows.forEach(row => { summary[row.status]++; });
+
+  return { summary, rows };
+}
+
+/**
+ * Inserts an imported donation tagged with its source.
+ * @param {Object} db - pg client inside the import transaction
+ * @param {Object} gift - { memberId, amount, fund, date, paymentMethod, notes, externalId }
+ * @param {Object} context - { provider, importId, enteredBy }
+ * @returns {Promise<Object>} The donations row.
+ */
+async function insertImportedDonation(db, gift, { provider, importId, enteredBy }) {
+  const result = await db.query(
+    `INSERT INTO donations
+       (member_id, amount, fund, notes, entered_by, donation_date, payment_method, source, external_id, import_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+    [
+      gift.memberId || null,
+      gift.amount,
+      gift.fund,
+      gift.notes || null,
+      enteredBy,
+      gift.date,
+      gift.paymentMethod,
+      provider,
+      gift.externalId || null,
+      importId
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Maps a donation_import_rows row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapImportRow(row) {
+  return {
+    id: row.id.toString(),
+    importId: row.import_id.toString(),
+    line: row.line,
+    status: row.status,
+    externalId: row.external_id,
+    payerName: row.payer_name,
+    payerEmail: row.payer_email,
+    amount: row.amount !== null ? parseFloat(row.amount) : null,
+    date: row.donation_date,
+    sourceFund: row.source_fund,
+    fund: row.fund,
+    paymentMethod: row.payment_method,
+    notes: row.notes,
+    memberId: row.member_id,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+    matchType: row.match_type,
+    reviewReasons: row.review_reasons || [],
+    errors: row.errors || [],
+    donationId: row.donation_id ? row.donation_id.toString() : null,
+    resolvedBy: row.resolved_by,
+    resolvedAt: row.resolved_at
+  };
+}
+
+/**
+ * Maps a donation_imports row (with status counts) to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapDonationImport(row) {
+  return {
+    id: row.id.toString(),
+    provider: row.provider,
+    fileName: row.file_name,
+    status: row.status,
+    totalRows: row.total_rows,
+    counts: {
+      imported: parseInt(row.imported_count) || 0,
+      pending: parseInt(row.pending_count) || 0,
+      duplicate: parseInt(row.duplicate_count) || 0,
+      skipped: parseInt(row.skipped_count) || 0,
+      error: parseInt(row.error_count) || 0
+    },
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    completedAt: row.completed_at
+  };
+}
+
+const IMPORT_SELECT = `
+  SELECT i.*,
+    COUNT(r.id) FILTER (WHERE r.status = 'imported') AS imported_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'pending') AS pending_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'duplicate') AS duplicate_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'skipped') AS skipped_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'error') AS error_count
+  FROM donation_imports i
+  LEFT JOIN donation_import_rows r ON r.import_id = i.id
+`;
+
+/**
+ * Lists donation imports, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { status, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listDonationImports(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const params = [];
+  let where = '';
+
+  if (filters.status) {
+    params.push(filters.status);
+    where = ` WHERE i.status = $${params.length}`;
+  }
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM donation_imports i${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${IMPORT_SELECT}${where} GROUP BY i.id ORDER BY i.created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapDonationImport),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Loads an import with its rows.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @param {Object} [options] - { status } to return only rows in one status.
+ * @returns {Promise<Object|null>}
+ */
+async function getDonationImport(db, id, { status } = {}) {
+  const importResult = await db.query(`${IMPORT_SELECT} WHERE i.id = $1 GROUP BY i.id`, [id]);
+  if (importResult.rows.length === 0) return null;
+
+  const params = [id];
+  let statusFilter = '';
+  if (status) {
+    params.push(status);
+    statusFilter = ' AND r.status = $2';
+  }
+  const rowsResult = await db.query(
+    `SELECT r.*, m.first_name, m.last_name
+     FROM donation_import_rows r
+     LEFT JOIN members m ON m.id = r.member_id
+     WHERE r.import_id = $1${statusFilter}
+     ORDER BY r.line`,
+    params
+  );
+
+  return {
+    ...mapDonationImport(importResult.rows[0]),
+    rows: rowsResult.rows.map(mapImportRow)
+  };
+}
+
+/**
+ * Maps a fund_mapping_rules row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapFundRule(row) {
+  return {
+    id: row.id.toString(),
+    provider: row.provider || null,
+    matchValue: row.match_value,
+    fund: row.fund,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+module.exports = {
+  DONATION_IMPORT_FIELDS,
+  DONATION_IMPORT_PROFILES,
+  suggestDonationMapping,
+  parseImportAmount,
+  parseImportDate,
+  normalizePaymentMethod,
+  splitPayerName,
+  mapDonationRecord,
+  resolveFund,
+  planDonationImport,
+  insertImportedDonation,
+  mapImportRow,
+  mapDonationImport,
+  listDonationImports,
+  getDonationImport,
+  mapFundRule
+};
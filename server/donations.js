@@ -0,0 +1,82 @@
+/**
+ * Donation Utilities for GraceGiver
+ *
+ * Shared row mapping and the duplicate-check lookup used at entry time.
+ */
+
+/**
+ * Maps a donations row to the API response shape.
+ * @param {Object} row - Raw donations row.
+ * @returns {Object}
+ */
+function mapDonationRow(row) {
+  return {
+    id: row.id.toString(),
+    memberId: row.member_id,
+    amount: parseFloat(row.amount),
+    fund: row.fund,
+    notes: row.notes,
+    enteredBy: row.entered_by,
+    date: row.donation_date,
+    timestamp: row.donation_date,
+    batchId: row.batch_id ? row.batch_id.toString() : null,
+    paymentMethod: row.payment_method || null,
+    checkNumber: row.check_number || null,
+    paymentReference: row.payment_reference || null,
+    goodsServicesProvided: row.goods_services_provided === true,
+    goodsServicesValue: parseFloat(row.goods_services_value) || 0,
+    goodsServicesDescription: row.goods_services_description || null,
+    source: row.source || 'manual',
+    externalId: row.external_id || null,
+    importId: row.import_id ? row.import_id.toString() : null,
+    version: row.version
+  };
+}
+
+/**
+ * Trims a donations row to what clients need to adjust running totals.
+ * Sent as `previous` on donation events, which may reach the gift's new
+ * donor, so it leaves out who gave it before and any notes.
+ * @param {Object} row - Raw donations row.
+ * @returns {Object}
+ */
+function donationTotalsRow(row) {
+  return {
+    id: row.id,
+    amount: row.amount,
+    fund: row.fund,
+    donation_date: row.donation_date,
+  };
+}
+
+/**
+ * Finds earlier gifts from the same member with the same check number.
+ * Guest gifts are never compared since different guests share no identity.
+ *
+ * @param {Object} db - pg Pool or client
+ * @param {Object} params
+ * @param {string|null} params.memberId
+ * @param {string|null} params.checkNumber
+ * @param {string|number} [params.excludeId] - Donation being edited.
+ * @returns {Promise<Array>} Matching donation rows (newest first).
+ */
+async function findDuplicateCheckNumbers(db, { memberId, checkNumber, excludeId }) {
+  if (!memberId || !checkNumber) return [];
+
+  const params = [memberId, String(checkNumber).trim()];
+  let query = 'SELECT * FROM donations WHERE member_id = $1 AND check_number = $2';
+  if (excludeId) {
+    query += ` AND id <> $3`;
+    params.push(excludeId);
+  }
+  query += ' ORDER BY donation_date DESC';
+
+  const result = await db.query(query, params);
+  return result.rows;
+}
+
+module.exports = {
+  mapDonationRow,
+  donationTotalsRow,
+  findDuplicateCheckNumbers
+};
@@ -0,0 +1,474 @@
+/**
+ * At-Risk Donor Model for GraceGiver
+ *
+ * Learns each donor's giving cadence (weekly, biweekly, monthly, quarterly
+ * or seasonal) from their history, lays out the calendar of periods they
+ * would normally have given in, and scores how many of the most recent
+ * ones were skipped. Members with an active recurring gift are scored
+ * against their schedule's installments instead. Thresholds live in
+ * settings so each church can tune how sensitive the watchlist is.
+ */
+
+const { toUtcDate, formatDate } = require('./pledges');
+
+// Configurable thresholds: settings key, column, allowed range and default
+const RISK_THRESHOLDS = [
+  { key: 'watchScore', setting: 'riskWatchScore', column: 'risk_watch_score', min: 1, max: 100, default: 40 },
+  { key: 'alertScore', setting: 'riskAlertScore', column: 'risk_alert_score', min: 1, max: 100, default: 70 },
+  { key: 'minGifts', setting: 'riskMinGifts', column: 'risk_min_gifts', min: 2, max: 52, default: 4 },
+  { key: 'lookbackMonths', setting: 'riskLookbackMonths', column: 'risk_lookback_months', min: 3, max: 60, default: 24 },
+  { key: 'dropPercent', setting: 'riskDropPercent', column: 'risk_drop_percent', min: 1, max: 100, default: 50 },
+  { key: 'contactSnoozeDays', setting: 'riskContactSnoozeDays', column: 'risk_contact_snooze_days', min: 0, max: 365, default: 30 }
+];
+
+const DEFAULT_THRESHOLDS = Object.fromEntries(RISK_THRESHOLDS.map(t => [t.key, t.default]));
+
+// Cadences by the longest typical gap between gifts (days). `window` is how
+// many of the most recent expected periods are scored.
+const CADENCES = {
+  weekly: { maxInterval: 10, window: 8 },
+  biweekly: { maxInterval: 21, window: 6 },
+  monthly: { maxInterval: 45, window: 4 },
+  quarterly: { maxInterval: 135, window: 4 },
+  seasonal: { maxInterval: Infinity, window: 4 }
+};
+
+// Share of periods a donor must have given in, between their first and last
+// gift, for a cadence to fit. Christmas-and-Easter donors look quarterly by
+// their gaps but skip half the quarters, so they fall through to seasonal.
+const MIN_COVERAGE = 0.6;
+
+// Scored window for donors measured against a recurring gift schedule
+const SCHEDULE_WINDOWS = { weekly: 8, biweekly: 6, monthly: 4, quarterly: 4, annually: 2 };
+
+// A seasonal gift counts if it arrives within this many days of last year's
+const SEASONAL_TOLERANCE_DAYS = 30;
+
+// Score weights (out of 100)
+const SCORE_WEIGHTS = { missed: 60, streak: 25, drop: 15 };
+const STREAK_CAP = 3;
+
+const RISK_LEVELS = ['watch', 'at_risk'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+const addMonths = (date, months) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate()));
+const daysBetween = (a, b) => Math.round((b.getTime() - a.getTime()) / DAY_MS);
+const monthIndex = (date) => date.getUTCFullYear() * 12 + date.getUTCMonth();
+
+/**
+ * Validates threshold changes from the settings form. Only the fields
+ * present are checked; watchScore/alertScore are checked as a pair against
+ * the current values.
+ * @param {Object} input - { riskWatchScore, riskAlertScore, ... }
+ * @param {Object} [current] - Thresholds currently in effect.
+ * @returns {{ isValid: boolean, errors: string[] }}
+ */
+function validateRiskThresholds(input, current = DEFAULT_THRESHOLDS) {
+  const errors = [];
+  const merged = { ...current };
+
+  RISK_THRESHOLDS.forEach(({ key, setting, min, max }) => {
+    if (input[setting] === undefined || input[setting] === null || input[setting] === '') return;
+    const value = Number(input[setting]);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`INVALID_RISK_THRESHOLD: ${setting} must be a whole number from ${min} to ${max}.`);
+      return;
+    }
+    merged[key] = value;
+  });
+
+  if (errors.length === 0 && merged.watchScore > merged.alertScore) {
+    errors.push('INVALID_RISK_RANGE: riskWatchScore cannot be higher than riskAlertScore.');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Maps a settings row to thresholds, using defaults for missing columns.
+ * @param {Object} [row] - settings row
+ * @returns {Object} { watchScore, alertScore, minGifts, lookbackMonths, dropPercent, contactSnoozeDays }
+ */
+function mapRiskThresholds(row = {}) {
+  return Object.fromEntries(
+    RISK_THRESHOLDS.map(({ key, column }) => [
+      key,
+      row[column] !== undefined && row[column] !== null ? parseInt(row[column]) : DEFAULT_THRESHOLDS[key]
+    ])
+  );
+}
+
+/**
+ * Loads the at-risk thresholds from settings.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Object>}
+ */
+async function getRiskThresholds(db) {
+  const result = await db.query(
+    `SELECT ${RISK_THRESHOLDS.map(t => t.column).join(', ')} FROM settings WHERE singleton_id = true`
+  );
+  return mapRiskThresholds(result.rows[0]);
+}
+
+/**
+ * Infers a donor's cadence from the median gap between gift days.
+ * @param {Array<string|Date>} giftDates - Sorted, one entry per gift day.
+ * @returns {string|null} A CADENCES key, or null with fewer than two gaps.
+ */
+function detectCadence(giftDates) {
+  const days = giftDates.map(toUtcDate);
+  const gaps = [];
+  for (let i = 1; i < days.length; i++) {
+    gaps.push(daysBetween(days[i - 1], days[i]));
+  }
+  if (gaps.length < 2) return null;
+
+  gaps.sort((a, b) => a - b);
+  const mid = Math.floor(gaps.length / 2);
+  const median = gaps.length % 2 ? gaps[mid] : (gaps[mid - 1] + gaps[mid]) / 2;
+
+  return Object.keys(CADENCES).find(cadence => median <= CADENCES[cadence].maxInterval);
+}
+
+/**
+ * Lays out the periods a donor was expected to give in, oldest first, up
+ * to the last completed one. The period still in progress is left out so
+ * a monthly donor is not flagged on the 5th.
+ *
+ * Weekly and biweekly periods are counted from the first gift; monthly and
+ * quarterly ones follow the calendar. Seasonal donors are expected again
+ * around the anniversary of each gift, once the tolerance has passed.
+ *
+ * @param {Array<{date: string, amount: number}>} gifts - Sorted by date.
+ * @param {string} cadence
+ * @param {Date|string} [asOf]
+ * @returns {Array<{start: string, amount: number, given: boolean}>}
+ */
+function givingCalendar(gifts, cadence, asOf = new Date()) {
+  if (gifts.length === 0) return [];
+  const today = toUtcDate(asOf);
+  const dated = gifts.map(g => ({ date: toUtcDate(g.date), amount: parseFloat(g.amount) || 0 }));
+
+  if (cadence === 'seasonal') {
+    const periods = [];
+    dated.forEach(({ date }) => {
+      const anniversary = addMonths(date, 12);
+      if (addDays(anniversary, SEASONAL_TOLERANCE_DAYS) >= today) return;
+      // Gifts close together in one season share an anniversary
+      if (periods.some(p => Math.abs(daysBetween(toUtcDate(p.start), anniversary)) <= SEASONAL_TOLERANCE_DAYS)) return;
+      const amount = dated
+        .filter(g => Math.abs(daysBetween(anniversary, g.date)) <= SEASONAL_TOLERANCE_DAYS)
+        .reduce((sum, g) => sum + g.amount, 0);
+      periods.push({ start: formatDate(anniversary), amount, given: amount > 0 });
+    });
+    return periods;
+  }
+
+  const first = dated[0].date;
+  let indexOf;
+  let startOf;
+  if (cadence === 'weekly' || cadence === 'biweekly') {
+    const length = cadence === 'weekly' ? 7 : 14;
+    indexOf = (date) => Math.floor(daysBetween(first, date) / length);
+    startOf = (index) => addDays(first, index * length);
+  } else {
+    const months = cadence === 'monthly' ? 1 : 3;
+    const base = Math.floor(monthIndex(first) / months);
+    indexOf = (date) => Math.floor(monthIndex(date) / months) - base;
+    startOf = (index) => {
+      const month = (base + index) * months;
+      return new Date(Date.UTC(Math.floor(month / 12), month % 12, 1));
+    };
+  }
+
+  const totals = new Map();
+  dated.forEach(({ date, amount }) => {
+    const index = indexOf(date);
+    totals.set(index, (totals.get(index) || 0) + amount);
+  });
+
+  const periods = [];
+  for (let index = 0; index < indexOf(today); index++) {
+    const amount = totals.get(index) || 0;
+    periods.push({ start: formatDate(startOf(index)), amount, given: amount > 0 });
+  }
+  return periods;
+}
+
+/**
+ * Scores the most recent `window` periods. Missed periods carry most of
+ * the weight, a run of consecutive misses at the end adds to it, and a
+ * drop in the amount given (versus earlier periods) adds a little more.
+ * @param {Array<{amount: number, given: boolean}>} periods - Oldest first.
+ * @param {Object} options - { window, dropPercent }
+ * @returns {{ missed: number, window: number, streak: number, dropPercent: number, score: number }}
+ */
+function scorePeriods(periods, { window, dropPercent }) {
+  const recent = periods.slice(-window);
+  const earlier = periods.slice(0, -window).filter(p => p.given);
+  const missed = recent.filter(p => !p.given).length;
+
+  let streak = 0;
+  for (let i = recent.length - 1; i >= 0 && !recent[i].given; i--) streak++;
+
+  const average = (list) => list.reduce((sum, p) => sum + p.amount, 0) / list.length;
+  const recentGiven = recent.filter(p => p.given);
+  const drop = recentGiven.length > 0 && earlier.length > 0
+    ? Math.max(0, Math.round((1 - average(recentGiven) / average(earlier)) * 100))
+    : 0;
+
+  const score = recent.length === 0 ? 0 : Math.round(
+    SCORE_WEIGHTS.missed * (missed / recent.length) +
+    SCORE_WEIGHTS.streak * (Math.min(streak, STREAK_CAP) / STREAK_CAP) +
+    (drop >= dropPercent ? SCORE_WEIGHTS.drop : 0)
+  );
+
+  return { missed, window: recent.length, streak, dropPercent: drop, score };
+}
+
+/**
+ * Builds the sentence shown with a donor's score,
+ * e.g. "Missed 3 of the last 4 monthly gifts; nothing given since 2026-06-07".
+ * @returns {string}
+ */
+function explainRisk({ missed, window, streak, dropPercent, label, lastGiftDate }, thresholds) {
+  const parts = [];
+  if (missed > 0) parts.push(`missed ${missed} of the last ${window} ${label} gifts`);
+  if (streak >= 2 && lastGiftDate) parts.push(`nothing given since ${lastGiftDate}`);
+  if (dropPercent >= thresholds.dropPercent) parts.push(`recent gifts ${dropPercent}% below usual`);
+  if (parts.length === 0) return 'Giving is on pattern.';
+  const sentence = parts.join('; ');
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1) + '.';
+}
+
+// Given periods as a share of those up to the last one given in, so a
+// recent lapse does not count against the cadence itself
+const coverage = (periods) => {
+  const lastGiven = periods.map(p => p.given).lastIndexOf(true);
+  if (lastGiven < 0) return 1;
+  return periods.slice(0, lastGiven + 1).filter(p => p.given).length / (lastGiven + 1);
+};
+
+const levelFor = (score, thresholds) => {
+  if (score >= thresholds.alertScore) return 'at_risk';
+  if (score >= thresholds.watchScore) return 'watch';
+  return null;
+};
+
+/**
+ * Assesses one donor from their giving history, or from their recurring
+ * gift installments when they have an active schedule.
+ * @param {Array<{date: string, amount: number}>} gifts - One entry per gift day, sorted.
+ * @param {Object} thresholds
+ * @param {Object} [options] - { asOf, installments: [{ dueDate, status, amount, frequency }] }
+ * @returns {Object|null} null when there is not enough history to judge.
+ */
+function assessDonor(gifts, thresholds, { asOf = new Date(), installments = [] } = {}) {
+  const lastGift = gifts[gifts.length - 1];
+  const lastGiftDate = lastGift ? formatDate(toUtcDate(lastGift.date)) : null;
+  let cadence;
+  let basis;
+  let label;
+  let result;
+
+  if (installments.length > 0) {
+    const frequencies = [...new Set(installments.map(i => i.frequency))];
+    const periods = installments.map(i => ({ amount: parseFloat(i.amount) || 0, given: i.status === 'received' }));
+    basis = 'schedule';
+    cadence = frequencies.length === 1 ? frequencies[0] : 'scheduled';
+    label = frequencies.length === 1 ? `scheduled ${frequencies[0]}` : 'scheduled';
+    // Received installments can be paid by smaller gifts, so amounts are not compared
+    result = scorePeriods(periods, {
+      window: Math.max(...frequencies.map(f => SCHEDULE_WINDOWS[f] || 4)),
+      dropPercent: Infinity
+    });
+  } else {
+    if (gifts.length < thresholds.minGifts) return null;
+    cadence = detectCadence(gifts.map(g => g.date));
+    if (!cadence) return null;
+    const order = Object.keys(CADENCES);
+    let periods = givingCalendar(gifts, cadence, asOf);
+    while (cadence !== 'seasonal' && coverage(periods) < MIN_COVERAGE) {
+      cadence = order[order.indexOf(cadence) + 1];
+      periods = givingCalendar(gifts, cadence, asOf);
+    }
+    basis = 'history';
+    label = cadence;
+    result = scorePeriods(periods, {
+      window: CADENCES[cadence].window,
+      dropPercent: thresholds.dropPercent
+    });
+  }
+
+  const amounts = gifts.map(g => parseFloat(g.amount) || 0).sort((a, b) => a - b);
+  return {
+    cadence,
+    basis,
+    score: result.score,
+    level: levelFor(result.score, thresholds),
+    explanation: explainRisk({ ...result, label, lastGiftDate }, thresholds),
+    missedPeriods: result.missed,
+    windowPeriods: result.window,
+    lapseStreak: result.streak,
+    dropPercent: result.dropPercent,
+    lastGiftDate,
+    lastGiftAmount: lastGift ? parseFloat(lastGift.amount) : null,
+    typicalAmount: amounts.length > 0 ? amounts[Math.floor(amounts.length / 2)] : null
+  };
+}
+
+/**
+ * Formats a donor contact row for API responses.
+ * @param {Object} row - donor_contacts row
+ * @returns {Object}
+ */
+function mapDonorContact(row) {
+  return {
+    id: row.id.toString(),
+    memberId: row.member_id,
+    note: row.note || null,
+    contactedBy: row.contacted_by || null,
+    contactedAt: row.contacted_at
+  };
+}
+
+/**
+ * Scores every donor and returns the flagged ones, highest score first.
+ * Donors contacted within the snooze period are left out unless
+ * includeContacted is set.
+ * @param {Object} pool - pg Pool
+ * @param {Object} [filters] - { level, includeContacted, asOf }
+ * @returns {Promise<Object>} { donors, thresholds }
+ */
+async function findAtRiskDonors(pool, filters = {}) {
+  const asOf = toUtcDate(filters.asOf || new Date());
+  const thresholds = await getRiskThresholds(pool);
+  const since = formatDate(addMonths(asOf, -thresholds.lookbackMonths));
+
+  const giftResult = await pool.query(
+    `SELECT d.member_id, m.first_name, m.last_name, m.email,
+       d.donation_date::date AS gift_date, SUM(d.amount) AS amount
+     FROM donations d
+     JOIN members m ON m.id = d.member_id
+     WHERE d.donation_date >= $1
+     GROUP BY d.member_id, m.first_name, m.last_name, m.email, gift_date
+     ORDER BY d.member_id, gift_date`,
+    [since]
+  );
+  const installmentResult = await pool.query(
+    `SELECT g.member_id, m.first_name, m.last_name, m.email,
+       i.due_date, i.status, i.amount, g.frequency
+     FROM recurring_gift_installments i
+     JOIN recurring_gifts g ON g.id = i.recurring_gift_id
+     JOIN members m ON m.id = g.member_id
+     WHERE g.status = 'active' AND i.status IN ('received', 'missed') AND i.due_date >= $1
+     ORDER BY g.member_id, i.due_date`,
+    [since]
+  );
+  const contactResult = await pool.query(
+    `SELECT DISTINCT ON (member_id) * FROM donor_contacts ORDER BY member_id, contacted_at DESC`
+  );
+
+  const donors = new Map();
+  const donorFor = (row) => {
+    if (!donors.has(row.member_id)) {
+      donors.set(row.member_id, {
+        memberId: row.member_id,
+        name: `${row.first_name} ${row.last_name}`,
+        email: row.email || null,
+        gifts: [],
+        installments: []
+      });
+    }
+    return donors.get(row.member_id);
+  };
+  giftResult.rows.forEach(row => donorFor(row).gifts.push({ date: row.gift_date, amount: row.amount }));
+  installmentResult.rows.forEach(row =>
+    donorFor(row).installments.push({ dueDate: row.due_date, status: row.status, amount: row.amount, frequency: row.frequency })
+  );
+  const contacts = new Map(contactResult.rows.map(row => [row.member_id, mapDonorContact(row)]));
+  const snoozeStart = addDays(asOf, -thresholds.contactSnoozeDays);
+
+  const flagged = [];
+  donors.forEach(({ gifts, installments, ...donor }) => {
+    const assessment = assessDonor(gifts, thresholds, { asOf, installments });
+    if (!assessment || !assessment.level) return;
+    if (filters.level && RISK_LEVELS.includes(filters.level) && assessment.level !== filters.level) return;
+    const lastContact = contacts.get(donor.memberId) || null;
+    const contacted = !!lastContact && new Date(lastContact.contactedAt) >= snoozeStart;
+    if (contacted && !filters.includeContacted) return;
+    flagged.push({ ...donor, ...assessment, lastContact, contacted });
+  });
+  flagged.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return { donors: flagged, thresholds };
+}
+
+/**
+ * Paginated watchlist for the dashboard.
+ * @param {Object} pool - pg Pool
+ * @param {Object} [filters] - { level, includeContacted, page, limit, asOf }
+ * @returns {Promise<Object>} { data, pagination, thresholds }
+ */
+async function listAtRiskDonors(pool, filters = {}) {
+  const { donors, thresholds } = await findAtRiskDonors(pool, filters);
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  return {
+    data: donors.slice((page - 1) * limit, page * limit),
+    pagination: {
+      total: donors.length,
+      page,
+      limit,
+      totalPages: Math.ceil(donors.length / limit)
+    },
+    thresholds
+  };
+}
+
+/**
+ * Records that someone reached out to a donor.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} contact - { memberId, note, contactedBy }
+ * @returns {Promise<Object>} The inserted row.
+ */
+async function recordDonorContact(db, { memberId, note, contactedBy }) {
+  const result = await db.query(
+    `INSERT INTO donor_contacts (member_id, note, contacted_by) VALUES ($1, $2, $3) RETURNING *`,
+    [memberId, note, contactedBy]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Lists a donor's contacts, newest first.
+ * @param {Object} db - pg Pool or client
+ * @param {string} memberId
+ * @returns {Promise<Array>}
+ */
+async function listDonorContacts(db, memberId) {
+  const result = await db.query(
+    'SELECT * FROM donor_contacts WHERE member_id = $1 ORDER BY contacted_at DESC, id DESC',
+    [memberId]
+  );
+  return result.rows.map(mapDonorContact);
+}
+
+module.exports = {
+  RISK_THRESHOLDS,
+  DEFAULT_THRESHOLDS,
+  RISK_LEVELS,
+  validateRiskThresholds,
+  mapRiskThresholds,
+  getRiskThresholds,
+  detectCadence,
+  givingCalendar,
+  scorePeriods,
+  assessDonor,
+  mapDonorContact,
+  findAtRiskDonors,
+  listAtRiskDonors,
+  recordDonorContact,
+  listDonorContacts
+};
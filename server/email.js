@@ -0,0 +1,775 @@
+/**
+ * Email Delivery Utilities for GraceGiver
+ *
+ * Year-end statements, gift receipts, gift acknowledgments and scheduled
+ * reports are emailed as attachments.
+ * Every message is written to the email_messages send log before it goes
+ * out, with its own delivery status, attempt count and last error, so a
+ * failed recipient can be retried without resending to everyone else.
+ * Batch sends are grouped under an email_jobs row. Subjects and bodies come
+ * from editable templates with {field} merge fields.
+ *
+ * Attachments are rebuilt when a message is sent rather than stored; a
+ * statement is numbered on its first send and retries reuse that number.
+ */
+
+const { PassThrough } = require('stream');
+const { getMemberStatement } = require('./reports');
+const { generateAnnualStatementPDF, generateGiftReceiptPDF } = require('./reports/memberReport');
+const { getStatementTemplate, mapStatementGift, issueStatement } = require('./statements');
+
+const EMAIL_TEMPLATE_KEYS = ['statement', 'receipt', 'acknowledgment', 'acknowledgment_digest', 'report'];
+const MESSAGE_STATUSES = ['queued', 'sending', 'sent', 'failed'];
+
+// Send attempts per delivery before a message is marked failed
+const MAX_ATTEMPTS = 3;
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 10000;
+
+const DEFAULT_EMAIL_TEMPLATES = {
+  statement: {
+    subject: 'Your {year} contribution statement from {churchName}',
+    body: 'Dear {firstName},\n\nThank you for your faithful giving in {year}. Your annual contribution statement is attached for your tax records.\n\nIn gratitude,\n{churchName}'
+  },
+  receipt: {
+    subject: 'Receipt for your gift to {churchName}',
+    body: 'Dear {firstName},\n\nThank you for your gift of {amount} to the {fund} fund on {date}. Your receipt is attached for your records.\n\nIn gratitude,\n{churchName}'
+  },
+  acknowledgment: {
+    subject: 'Thank you for your gift to {churchName}',
+    body: 'Dear {firstName},\n\nThank you for your generous gift of {amount} to the {fund} fund on {date}. Your giving makes our ministry possible. A receipt is attached for your records.\n\nWith gratitude,\n{churchName}'
+  },
+  acknowledgment_digest: {
+    subject: 'Thank you for your gifts to {churchName}',
+    body: 'Dear {firstName},\n\nThank you for your generosity this week. Your gifts totaled {amount}:\n\n{gifts}\n\nReceipts are attached for your records.\n\nWith gratitude,\n{churchName}'
+  },
+  report: {
+    subject: '{reportName}: {period}',
+    body: 'Hello,\n\nThe {reportName} report for {period} is attached.\n\n{churchName}'
+  }
+};
+
+// Merge fields each template can use
+const MERGE_FIELDS = {
+  statement: ['name', 'firstName', 'lastName', 'year', 'churchName'],
+  receipt: ['name', 'firstName', 'lastName', 'amount', 'fund', 'date', 'churchName'],
+  acknowledgment: ['name', 'firstName', 'lastName', 'amount', 'fund', 'date', 'churchName'],
+  acknowledgment_digest: ['name', 'firstName', 'lastName', 'giftCount', 'amount', 'gifts', 'churchName'],
+  report: ['reportName', 'period', 'churchName']
+};
+
+const MESSAGE_SELECT = `
+  SELECT e.*, m.first_name, m.last_name
+  FROM email_messages e
+  LEFT JOIN members m ON m.id = e.member_id
+`;
+
+const formatCurrency = (value) => `$${(parseFloat(value) || 0).toFixed(2)}`;
+const formatLongDate = (value) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : '';
+
+/**
+ * Fills {field} placeholders. Unknown placeholders are left as written so
+ * a typo shows up in the sent message instead of disappearing.
+ * @param {string} text
+ * @param {Object} fields
+ * @returns {string}
+ */
+function renderTemplate(text, fields) {
+  return String(text).replace(/\{(\w+)\}/g, (match, key) =>
+    fields[key] !== undefined && fields[key] !== null ? String(fields[key]) : match
+  );
+}
+
+/**
+ * Validates an edited template.
+ * @param {Object} input - { subject, body }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateEmailTemplate(input) {
+  const errors = [];
+  const subject = typeof input.subject === 'string' ? input.subject.trim() : '';
+  const body = typeof input.body === 'string' ? input.body.trim() : '';
+
+  if (!subject) {
+    errors.push('REQUIRED_SUBJECT: subject is required.');
+  } else if (subject.length > MAX_SUBJECT_LENGTH) {
+    errors.push(`INVALID_SUBJECT_LENGTH: subject cannot exceed ${MAX_SUBJECT_LENGTH} characters.`);
+  }
+  if (!body) {
+    errors.push('REQUIRED_BODY: body is required.');
+  } else if (body.length > MAX_BODY_LENGTH) {
+    errors.push(`INVALID_BODY_LENGTH: body cannot exceed ${MAX_BODY_LENGTH} characters.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a template key and its stored row (if any) to the API shape.
+ * @param {string} key
+ * @param {Object|undefined} row
+ * @returns {Object}
+ */
+function mapEmailTemplate(key, row) {
+  const fallback = DEFAULT_EMAIL_TEMPLATES[key];
+  return {
+    key,
+    subject: row ? row.subject : fallback.subject,
+    body: row ? row.body : fallback.body,
+    mergeFields: MERGE_FIELDS[key],
+    isDefault: !row,
+    updatedBy: row ? row.updated_by : null,
+    updatedAt: row ? row.updated_at : null
+  };
+}
+
+/**
+ * Lists every template, with built-in defaults for those never edited.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Array>}
+ */
+async function listEmailTemplates(db) {
+  const result = await db.query('SELECT * FROM email_templates');
+  return EMAIL_TEMPLATE_KEYS.map(key => mapEmailTemplate(key, result.rows.find(r => r.template_key === key)));
+}
+
+/**
+ * Fetches one template, falling back to the built-in default.
+ * @param {Object} db - pg Pool or client
+ * @param {string} key
+ * @returns {Promise<Object>}
+ */
+async function getEmailTemplate(db, key) {
+  const result = await db.query('SELECT * FROM email_templates WHERE template_key = $1', [key]);
+  return mapEmailTemplate(key, result.rows[0]);
+}
+
+/**
+ * Saves an edited template.
+ * @param {Object} db - pg Pool or client
+ * @param {string} key
+ * @param {Object} template - { subject, body }
+ * @param {string} updatedBy
+ * @returns {Promise<Object>}
+ */
+async function saveEmailTemplate(db, key, { subject, body }, updatedBy) {
+  const result = await db.query(
+    `INSERT INTO email_templates (template_key, subject, body, updated_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (template_key) DO UPDATE
+       SET subject = EXCLUDED.subject, body = EXCLUDED.body,
+           updated_by = EXCLUDED.updated_by, updated_at = NOW()
+     RETURNING *`,
+    [key, subject.trim(), body.trim(), updatedBy]
+  );
+  return mapEmailTemplate(key, result.rows[0]);
+}
+
+/**
+ * Restores a template to its built-in default.
+ * @param {Object} db - pg Pool or client
+ * @param {string} key
+ * @returns {Promise<Object>}
+ */
+async function resetEmailTemplate(db, key) {
+  await db.query('DELETE FROM email_templates WHERE template_key = $1', [key]);
+  return mapEmailTemplate(key, undefined);
+}
+
+/**
+ * The From address: MAIL_FROM, else the church name and email from settings.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} [env] - Defaults to process.env.
+ * @returns {Promise<string|null>}
+ */
+async function getSender(db, env = process.env) {
+  if (env.MAIL_FROM) return env.MAIL_FROM;
+  const result = await db.query('SELECT name, email FROM settings WHERE singleton_id = true');
+  const row = result.rows[0];
+  if (!row || !row.email) return null;
+  return row.name ? `"${row.name.replace(/"/g, '')}" <${row.email}>` : row.email;
+}
+
+/**
+ * Maps an email_messages row (with member name) to the API shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapEmailMessage(row) {
+  return {
+    id: row.id.toString(),
+    jobId: row.job_id != null ? row.job_id.toString() : null,
+    templateKey: row.template_key,
+    memberId: row.member_id || null,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+    donationId: row.donation_id != null ? row.donation_id.toString() : null,
+    recipientEmail: row.recipient_email,
+    subject: row.subject,
+    status: row.status,
+    attempts: row.attempts || 0,
+    lastError: row.last_error || null,
+    sentAt: row.sent_at || null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Maps an email_jobs row with its per-status message counts.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapEmailJob(row) {
+  const counts = {
+    total: parseInt(row.total_count) || 0,
+    queued: parseInt(row.queued_count) || 0,
+    sending: parseInt(row.sending_count) || 0,
+    sent: parseInt(row.sent_count) || 0,
+    failed: parseInt(row.failed_count) || 0
+  };
+  return {
+    id: row.id.toString(),
+    templateKey: row.template_key,
+    taxYear: row.tax_year || null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at,
+    counts,
+    complete: counts.queued + counts.sending === 0
+  };
+}
+
+const JOB_SELECT = `
+  SELECT j.*,
+    COUNT(e.id) AS total_count,
+    COUNT(e.id) FILTER (WHERE e.status = 'queued') AS queued_count,
+    COUNT(e.id) FILTER (WHERE e.status = 'sending') AS sending_count,
+    COUNT(e.id) FILTER (WHERE e.status = 'sent') AS sent_count,
+    COUNT(e.id) FILTER (WHERE e.status = 'failed') AS failed_count
+  FROM email_jobs j
+  LEFT JOIN email_messages e ON e.job_id = j.id
+`;
+
+/**
+ * Fetches one batch job with its counts.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getEmailJob(db, id) {
+  const result = await db.query(`${JOB_SELECT} WHERE j.id = $1 GROUP BY j.id`, [id]);
+  return result.rows.length > 0 ? mapEmailJob(result.rows[0]) : null;
+}
+
+/**
+ * Lists batch jobs, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listEmailJobs(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+
+  const countResult = await pool.query('SELECT COUNT(*) FROM email_jobs');
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${JOB_SELECT} GROUP BY j.id ORDER BY j.id DESC LIMIT $1 OFFSET $2`,
+    [limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapEmailJob),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Lists the send log, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { jobId, memberId, donationId, status, templateKey, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listEmailMessages(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.jobId && /^\d+$/.test(String(filters.jobId))) {
+    params.push(parseInt(filters.jobId));
+    conditions.push(`e.job_id = $${params.length}`);
+  }
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`e.member_id = $${params.length}`);
+  }
+  if (filters.donationId && /^\d+$/.test(String(filters.donationId))) {
+    params.push(parseInt(filters.donationId));
+    conditions.push(`e.donation_id = $${params.length}`);
+  }
+  if (filters.status && MESSAGE_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`e.status = $${params.length}`);
+  }
+  if (filters.templateKey && EMAIL_TEMPLATE_KEYS.includes(filters.templateKey)) {
+    params.push(filters.templateKey);
+    conditions.push(`e.template_key = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM email_messages e${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${MESSAGE_SELECT}${where} ORDER BY e.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapEmailMessage),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches one logged message.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getEmailMessage(db, id) {
+  const result = await db.query(`${MESSAGE_SELECT} WHERE e.id = $1`, [id]);
+  return result.rows.length > 0 ? mapEmailMessage(result.rows[0]) : null;
+}
+
+/**
+ * Members with an email address who gave during the year.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} year
+ * @returns {Promise<Array>} [{ id, first_name, last_name, email }]
+ */
+async function findStatementRecipients(db, year) {
+  const result = await db.query(
+    `SELECT m.id, m.first_name, m.last_name, m.email
+     FROM members m
+     WHERE m.email IS NOT NULL AND m.email <> ''
+       AND EXISTS (
+         SELECT 1 FROM donations d
+         WHERE d.member_id = m.id AND EXTRACT(YEAR FROM d.donation_date) = $1
+       )
+     ORDER BY m.last_name, m.first_name`,
+    [year]
+  );
+  return result.rows;
+}
+
+/**
+ * Loads gifts and their donors for receipts, oldest first.
+ * @param {Object} db - pg Pool or client
+ * @param {Array} donationIds
+ * @returns {Promise<Array>} [{ gift, member|null }]
+ */
+async function getReceiptGifts(db, donationIds) {
+  const result = await db.query(
+    `SELECT d.id, d.member_id, d.donation_date, d.amount, d.fund, d.notes, d.payment_method, d.check_number,
+       d.goods_services_provided, d.goods_services_value, d.goods_services_description,
+       f.tax_deductible, m.first_name, m.last_name, m.email, m.address, m.city, m.state, m.zip
+     FROM donations d
+     LEFT JOIN members m ON m.id = d.member_id
+     LEFT JOIN funds f ON f.name = d.fund
+     WHERE d.id = ANY($1::int[])
+     ORDER BY d.donation_date, d.id`,
+    [donationIds.map(id => parseInt(id))]
+  );
+
+  return result.rows.map(row => ({
+    gift: mapStatementGift(row),
+    member: row.member_id ? {
+      id: row.member_id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email || null,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      zip: row.zip
+    } : null
+  }));
+}
+
+/**
+ * Loads a gift and its donor for a receipt.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} donationId
+ * @returns {Promise<{ gift: Object, member: Object|null }|null>}
+ */
+async function getReceiptGift(db, donationId) {
+  const [receipt] = await getReceiptGifts(db, [donationId]);
+  return receipt || null;
+}
+
+/**
+ * Merge fields for a receipt.
+ * @param {Object} gift - See mapStatementGift.
+ * @param {Object|null} member
+ * @param {string} churchName
+ * @returns {Object}
+ */
+function receiptFields(gift, member, churchName) {
+  return {
+    name: member ? `${member.firstName} ${member.lastName}` : 'Friend',
+    firstName: member ? member.firstName : 'Friend',
+    lastName: member ? member.lastName : '',
+    amount: formatCurrency(gift.amount),
+    fund: gift.fund,
+    date: formatLongDate(gift.date),
+    churchName
+  };
+}
+
+/**
+ * Merge fields for a digest thanking a donor for several gifts. {gifts}
+ * lists one gift per line.
+ * @param {Array} gifts - See mapStatementGift.
+ * @param {Object} member
+ * @param {string} churchName
+ * @returns {Object}
+ */
+function digestFields(gifts, member, churchName) {
+  const total = gifts.reduce((sum, gift) => sum + (parseFloat(gift.amount) || 0), 0);
+  return {
+    name: `${member.firstName} ${member.lastName}`,
+    firstName: member.firstName,
+    lastName: member.lastName,
+    giftCount: gifts.length,
+    amount: formatCurrency(total),
+    gifts: gifts.map(gift => `- ${formatLongDate(gift.date)}: ${formatCurrency(gift.amount)} to ${gift.fund}`).join('\n'),
+    churchName
+  };
+}
+
+/**
+ * Creates a batch job.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} job - { templateKey, taxYear, createdBy }
+ * @returns {Promise<Object>} the new row
+ */
+async function createEmailJob(db, { templateKey, taxYear = null, createdBy = null }) {
+  const result = await db.query(
+    'INSERT INTO email_jobs (template_key, tax_year, created_by) VALUES ($1, $2, $3) RETURNING *',
+    [templateKey, taxYear, createdBy]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Renders a template for each recipient and logs the messages as queued.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} params
+ * @param {Object} params.template - From getEmailTemplate.
+ * @param {Array} params.recipients - [{ email, fields, memberId, donationId, attachment }]
+ * @param {string|number|null} [params.jobId]
+ * @param {string} [params.createdBy]
+ * @returns {Promise<Array>} new rows
+ */
+async function queueEmailMessages(db, { template, recipients, jobId = null, createdBy = null }) {
+  if (recipients.length === 0) return [];
+
+  const result = await db.query(
+    `INSERT INTO email_messages
+       (job_id, template_key, member_id, donation_id, recipient_email, subject, body, attachment, created_by)
+     SELECT $1, $2, r.member_id, r.donation_id, r.email, r.subject, r.body, r.attachment, $3
+     FROM unnest($4::text[], $5::int[], $6::text[], $7::text[], $8::text[], $9::jsonb[])
+       AS r(member_id, donation_id, email, subject, body, attachment)
+     RETURNING *`,
+    [
+      jobId,
+      template.key,
+      createdBy,
+      recipients.map(r => r.memberId || null),
+      recipients.map(r => (r.donationId != null ? parseInt(r.donationId) : null)),
+      recipients.map(r => r.email),
+      recipients.map(r => renderTemplate(template.subject, r.fields)),
+      recipients.map(r => renderTemplate(template.body, r.fields)),
+      recipients.map(r => (r.attachment ? JSON.stringify(r.attachment) : null))
+    ]
+  );
+  return result.rows;
+}
+
+/**
+ * Collects a PDF written to a stream into a Buffer.
+ * @param {Function} write - Called with the stream to pipe the document into.
+ * @returns {Promise<Buffer>}
+ */
+function collectPdf(write) {
+  return new Promise((resolve, reject) => {
+    const stream = new PassThrough();
+    const chunks = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+    try {
+      write(stream);
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
+
+/**
+ * Builds a message's PDF attachments from its attachment spec.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} row - email_messages row
+ * @returns {Promise<Array>} nodemailer attachments
+ */
+async function buildAttachments(db, row) {
+  const spec = row.attachment;
+  if (!spec) return [];
+
+  if (spec.type === 'statement') {
+    const statement = await getMemberStatement(db, spec.memberId, spec.year, {
+      combineHousehold: spec.combineHousehold === true
+    });
+    if (!statement) throw new Error('Member not found');
+
+    let issue = spec.statementNumber
+      ? { statementNumber: spec.statementNumber, reissueOf: spec.reissueOf || null }
+      : null;
+    if (!issue) {
+      issue = await issueStatement(db, {
+        year: spec.year,
+        memberId: statement.household ? null : statement.member.id,
+        householdId: statement.household ? statement.household.id : null,
+        summary: statement.summary,
+        issuedBy: row.created_by
+      });
+      await db.query(
+        `UPDATE email_messages
+         SET attachment = attachment || jsonb_build_object('statementNumber', $2::text, 'reissueOf', $3::text)
+         WHERE id = $1`,
+        [row.id, issue.statementNumber, issue.reissueOf]
+      );
+    }
+    const template = await getStatementTemplate(db);
+    const content = await collectPdf(stream =>
+      generateAnnualStatementPDF(statement.member, statement.donations, statement.summary, null, stream, {
+        template,
+        ...issue
+      })
+    );
+    const name = (statement.household ? statement.household.name : statement.member.lastName).replace(/[^\w-]+/g, '-');
+    return [{ filename: `statement-${spec.year}-${name}.pdf`, content, contentType: 'application/pdf' }];
+  }
+
+  if (spec.type === 'receipt') {
+    const receipt = await getReceiptGift(db, spec.donationId);
+    if (!receipt) throw new Error('Donation not found');
+    const { gift, member } = receipt;
+    const template = await getStatementTemplate(db);
+    const content = await collectPdf(stream =>
+      generateGiftReceiptPDF(
+        member ? { ...member, name: `${member.firstName} ${member.lastName}` } : { name: 'Guest Donor' },
+        gift,
+        stream,
+        { template }
+      )
+    );
+    return [{ filename: `receipt-${gift.id}.pdf`, content, contentType: 'application/pdf' }];
+  }
+
+  if (spec.type === 'receipts') {
+    const receipts = await getReceiptGifts(db, spec.donationIds || []);
+    if (receipts.length === 0) throw new Error('Donations not found');
+    const { member } = receipts[0];
+    const template = await getStatementTemplate(db);
+    const content = await collectPdf(stream =>
+      generateGiftReceiptPDF(
+        member ? { ...member, name: `${member.firstName} ${member.lastName}` } : { name: 'Guest Donor' },
+        receipts.map(r => r.gift),
+        stream,
+        { template }
+      )
+    );
+    return [{ filename: `receipts-${receipts[0].gift.id}-${receipts[receipts.length - 1].gift.id}.pdf`, content, contentType: 'application/pdf' }];
+  }
+
+  if (spec.type === 'report') {
+    const result = await db.query(
+      'SELECT filename, format, content FROM report_deliveries WHERE id = $1',
+      [spec.deliveryId]
+    );
+    const delivery = result.rows[0];
+    if (!delivery) throw new Error('Report not found');
+    return [{
+      filename: delivery.filename,
+      content: delivery.content,
+      contentType: delivery.format === 'csv' ? 'text/csv' : 'application/pdf'
+    }];
+  }
+
+  throw new Error(`Unknown attachment type "${spec.type}"`);
+}
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends one queued message. The message is claimed first so two senders
+ * never deliver it twice; the transport is tried up to maxAttempts times
+ * before the message is marked failed with the last error.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} transport - From getMailTransport.
+ * @param {string|number} id - email_messages id
+ * @param {Object} options - { from, maxAttempts, retryDelayMs, buildAttachments }
+ * @returns {Promise<Object|null>} the updated row, or null if it was not queued
+ */
+async function deliverEmailMessage(db, transport, id, options = {}) {
+  const {
+    from,
+    maxAttempts = MAX_ATTEMPTS,
+    retryDelayMs = 1000,
+    buildAttachments: build = buildAttachments
+  } = options;
+
+  const claimed = await db.query(
+    `UPDATE email_messages SET status = 'sending', updated_at = NOW()
+     WHERE id = $1 AND status = 'queued' RETURNING *`,
+    [id]
+  );
+  const row = claimed.rows[0];
+  if (!row) return null;
+
+  let attempts = 0;
+  let lastError = null;
+
+  try {
+    if (!from) throw new Error('No sender address: set MAIL_FROM or the church email in Settings');
+    const attachments = await build(db, row);
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      try {
+        const info = await transport.send({
+          from,
+          to: row.recipient_email,
+          subject: row.subject,
+          text: row.body,
+          attachments
+        });
+        const sent = await db.query(
+          `UPDATE email_messages
+           SET status = 'sent', attempts = attempts + $2, last_error = NULL,
+               transport_message_id = $3, sent_at = NOW(), updated_at = NOW()
+           WHERE id = $1 RETURNING *`,
+          [id, attempts, info && info.messageId ? String(info.messageId) : null]
+        );
+        return sent.rows[0];
+      } catch (err) {
+        lastError = err;
+        if (attempts < maxAttempts && retryDelayMs > 0) await wait(retryDelayMs * attempts);
+      }
+    }
+  } catch (err) {
+    lastError = err;
+  }
+
+  const failed = await db.query(
+    `UPDATE email_messages
+     SET status = 'failed', attempts = attempts + $2, last_error = $3, updated_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [id, attempts, lastError ? String(lastError.message || lastError).slice(0, 1000) : 'Unknown error']
+  );
+  return failed.rows[0];
+}
+
+/**
+ * Sends queued messages one at a time.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} transport
+ * @param {Array} ids - email_messages ids
+ * @param {Object} options - Passed to deliverEmailMessage, plus onProgress(row) after each message.
+ * @returns {Promise<{ sent: number, failed: number }>}
+ */
+async function sendQueuedMessages(db, transport, ids, options = {}) {
+  let sent = 0;
+  let failed = 0;
+
+  for (const id of ids) {
+    const row = await deliverEmailMessage(db, transport, id, options);
+    if (!row) continue;
+    if (row.status === 'sent') sent++;
+    else failed++;
+    if (options.onProgress) options.onProgress(row);
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Puts failed messages back in the queue.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} target - { id } for one message or { jobId } for a whole batch
+ * @returns {Promise<Array>} requeued ids
+ */
+async function requeueFailedMessages(db, { id, jobId }) {
+  const column = jobId !== undefined ? 'job_id' : 'id';
+  const result = await db.query(
+    `UPDATE email_messages SET status = 'queued', updated_at = NOW()
+     WHERE ${column} = $1 AND status = 'failed'
+     RETURNING id`,
+    [jobId !== undefined ? jobId : id]
+  );
+  return result.rows.map(r => r.id);
+}
+
+module.exports = {
+  EMAIL_TEMPLATE_KEYS,
+  MESSAGE_STATUSES,
+  MAX_ATTEMPTS,
+  DEFAULT_EMAIL_TEMPLATES,
+  MERGE_FIELDS,
+  renderTemplate,
+  validateEmailTemplate,
+  listEmailTemplates,
+  getEmailTemplate,
+  saveEmailTemplate,
+  resetEmailTemplate,
+  getSender,
+  mapEmailMessage,
+  mapEmailJob,
+  getEmailJob,
+  listEmailJobs,
+  listEmailMessages,
+  getEmailMessage,
+  findStatementRecipients,
+  getReceiptGifts,
+  getReceiptGift,
+  receiptFields,
+  digestFields,
+  createEmailJob,
+  queueEmailMessages,
+  collectPdf,
+  buildAttachments,
+  deliverEmailMessage,
+  sendQueuedMessages,
+  requeueFailedMessages
+};
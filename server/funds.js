@@ -0,0 +1,203 @@
+/**
+ * Fund Catalog Utilities for GraceGiver
+ *
+ * Funds are configured in the funds table rather than in code. Donations,
+ * pledges and campaigns store a fund's name, which follows renames through
+ * ON UPDATE CASCADE; funds with history are archived instead of deleted.
+ */
+
+const FUND_CODE_REGEX = /^[A-Z0-9_]{1,20}$/;
+
+// Fund fields accepted from the API -> funds columns
+const FUND_COLUMNS = {
+  code: 'code',
+  name: 'name',
+  description: 'description',
+  isActive: 'is_active',
+  taxDeductible: 'tax_deductible',
+  sortOrder: 'sort_order',
+  parentId: 'parent_id'
+};
+
+// The fund used when a gift is recorded without one
+const DEFAULT_FUND = 'General';
+
+/**
+ * Validates a fund create/update body.
+ * @param {Object} input - Request body.
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow code and name to be omitted (updates).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateFund(input, { partial = false } = {}) {
+  const errors = [];
+
+  if (!partial || input.code !== undefined) {
+    if (!input.code || typeof input.code !== 'string' || !input.code.trim()) {
+      errors.push('REQUIRED_CODE: Fund code cannot be empty.');
+    } else if (!FUND_CODE_REGEX.test(input.code.trim().toUpperCase())) {
+      errors.push('INVALID_CODE: Fund code may only use letters, numbers and underscores (max 20).');
+    }
+  }
+  if (!partial || input.name !== undefined) {
+    if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('REQUIRED_NAME: Fund name cannot be empty.');
+    } else if (input.name.trim().length > 100) {
+      errors.push('INVALID_NAME_LENGTH: Fund name cannot exceed 100 characters.');
+    }
+  }
+  if (input.description && String(input.description).length > 500) {
+    errors.push('INVALID_DESCRIPTION_LENGTH: Description cannot exceed 500 characters.');
+  }
+  if (input.sortOrder !== undefined && input.sortOrder !== null) {
+    if (!Number.isInteger(input.sortOrder) || input.sortOrder < 0) {
+      errors.push('INVALID_SORT_ORDER: Sort order must be a whole number of 0 or more.');
+    }
+  }
+  for (const flag of ['isActive', 'taxDeductible']) {
+    if (input[flag] !== undefined && typeof input[flag] !== 'boolean') {
+      errors.push(`INVALID_FLAG: ${flag} must be true or false.`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Builds the column values for an insert or update from a validated body.
+ * Only fields present in the body are returned.
+ * @param {Object} input
+ * @returns {Object} column -> value
+ */
+function toFundColumns(input) {
+  const columns = {};
+  for (const [field, column] of Object.entries(FUND_COLUMNS)) {
+    if (input[field] === undefined) continue;
+    let value = input[field];
+    if (field === 'code') value = value.trim().toUpperCase();
+    if (field === 'name') value = value.trim();
+    if (field === 'description') value = value ? String(value).trim() : null;
+    if (field === 'parentId') value = value ? parseInt(value) : null;
+    columns[column] = value;
+  }
+  return columns;
+}
+
+/**
+ * Maps a funds row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapFund(row) {
+  return {
+    id: String(row.id),
+    code: row.code,
+    name: row.name,
+    description: row.description || null,
+    isActive: row.is_active !== false,
+    taxDeductible: row.tax_deductible !== false,
+    sortOrder: parseInt(row.sort_order) || 0,
+    parentId: row.parent_id ? String(row.parent_id) : null,
+    parentName: row.parent_name || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Lists the catalog in display order.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} [filters] - { includeArchived }
+ * @returns {Promise<Array>}
+ */
+async function listFunds(db, { includeArchived = false } = {}) {
+  const result = await db.query(
+    `SELECT f.*, p.name AS parent_name
+     FROM funds f
+     LEFT JOIN funds p ON p.id = f.parent_id
+     ${includeArchived ? '' : 'WHERE f.is_active = true'}
+     ORDER BY f.sort_order, f.name`
+  );
+  return result.rows.map(mapFund);
+}
+
+/**
+ * Looks a fund up by name or code, ignoring case.
+ * @param {Object} db - pg Pool or client
+ * @param {string} value - Fund name or code as entered.
+ * @returns {Promise<Object|null>} funds row
+ */
+async function findFund(db, value) {
+  if (!value || typeof value !== 'string' || !value.trim()) return null;
+  const result = await db.query(
+    `SELECT * FROM funds
+     WHERE lower(name) = lower($1) OR code = upper($1)
+     ORDER BY (lower(name) = lower($1)) DESC
+     LIMIT 1`,
+    [value.trim()]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Resolves the fund for a new or changed gift, pledge or campaign. Archived
+ * funds are rejected unless the record already uses that fund.
+ * @param {Object} db - pg Pool or client
+ * @param {string} value - Fund name or code as entered.
+ * @param {Object} [options] - { current: the record's existing fund name }
+ * @returns {Promise<Object>} { fund: canonical name } or { error: 'CODE: message' }
+ */
+async function resolveFundName(db, value, { current = null } = {}) {
+  const fund = await findFund(db, value);
+  if (!fund) {
+    return { error: `INVALID_FUND: "${value}" is not in the fund catalog.` };
+  }
+  if (!fund.is_active && fund.name !== current) {
+    return { error: `FUND_ARCHIVED: The ${fund.name} fund is archived and cannot take new gifts.` };
+  }
+  return { fund: fund.name };
+}
+
+/**
+ * Checks that a fund's parent exists and is not the fund itself or one of
+ * its descendants.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number|null} fundId - The fund being saved (null when creating).
+ * @param {string|number|null} parentId
+ * @returns {Promise<string|null>} Error string, or null when valid.
+ */
+async function checkFundParent(db, fundId, parentId) {
+  if (!parentId) return null;
+
+  let currentId = parseInt(parentId);
+  const visited = new Set();
+  while (currentId) {
+    if (fundId && currentId === parseInt(fundId)) {
+      return 'INVALID_PARENT: A fund cannot be nested under itself or one of its sub-funds.';
+    }
+    if (visited.has(currentId)) break;
+    visited.add(currentId);
+
+    const result = await db.query('SELECT parent_id FROM funds WHERE id = $1', [currentId]);
+    if (result.rows.length === 0) {
+      return visited.size === 1 ? 'INVALID_PARENT: Parent fund not found.' : null;
+    }
+    currentId = result.rows[0].parent_id;
+  }
+  return null;
+}
+
+module.exports = {
+  FUND_COLUMNS,
+  DEFAULT_FUND,
+  validateFund,
+  toFundColumns,
+  mapFund,
+  listFunds,
+  findFund,
+  resolveFundName,
+  checkFundParent
+};
@@ -0,0 +1,450 @@
+/**
+ * General Ledger Export for GraceGiver
+ *
+ * Turns giving into summarized journal entries for the bookkeeper: one
+ * entry per day (or per deposit batch) debiting the deposit account and
+ * crediting each fund's income account, as mapped in settings. Entries are
+ * written as QuickBooks IIF, a generic GL CSV or an OFX statement. Every
+ * export is logged in export_logs with its exact date range so a period is
+ * not booked twice without the user confirming it.
+ */
+
+const { stringify } = require('csv-stringify/sync');
+
+const GL_FORMATS = ['iif', 'csv', 'ofx'];
+const GL_GROUPINGS = ['daily', 'batch'];
+const GL_EXPORT_TYPE = 'gl_journal';
+
+const MAX_ACCOUNT_LENGTH = 100;
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+const isDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(String(value)) && !isNaN(new Date(value).getTime());
+
+const formatDate = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+  }
+  return String(value).slice(0, 10);
+};
+
+// Tabs and line breaks would split an IIF or OFX record
+const clean = (value) => String(value ?? '').replace(/[\t\r\n]+/g, ' ').trim();
+
+const checkAccount = (account, label, errors) => {
+  if (/[\t\r\n]/.test(account)) {
+    errors.push(`INVALID_ACCOUNT: ${label} cannot contain tabs or line breaks.`);
+  } else if (account.length > MAX_ACCOUNT_LENGTH) {
+    errors.push(`INVALID_ACCOUNT: ${label} cannot exceed ${MAX_ACCOUNT_LENGTH} characters.`);
+  }
+};
+
+/**
+ * Validates the GL account settings: the deposit account every entry
+ * debits and the income account each fund credits. A blank fund account
+ * removes its mapping.
+ * @param {Object} input - { depositAccount, accounts: [{ fund, account }] }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateGlSettings(input) {
+  const errors = [];
+
+  if (!input.depositAccount || typeof input.depositAccount !== 'string' || !input.depositAccount.trim()) {
+    errors.push('REQUIRED_DEPOSIT_ACCOUNT: depositAccount is required.');
+  } else {
+    checkAccount(input.depositAccount.trim(), 'depositAccount', errors);
+  }
+
+  if (input.accounts !== undefined) {
+    if (!Array.isArray(input.accounts)
+      || !input.accounts.every(a => a && typeof a.fund === 'string' && (a.account === null || typeof a.account === 'string'))) {
+      errors.push('INVALID_ACCOUNTS: accounts must be a list of { fund, account }.');
+    } else {
+      for (const { fund, account } of input.accounts) {
+        if (account && account.trim()) checkAccount(account.trim(), `The account for ${fund}`, errors);
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Reads the deposit account and each fund's income account. Funds without
+ * a mapping are listed with a null account.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Object>} { depositAccount, funds: [{ fund, code, isActive, account }] }
+ */
+async function getGlSettings(db) {
+  const settings = await db.query('SELECT gl_deposit_account FROM settings WHERE singleton_id = true');
+  const funds = await db.query(
+    `SELECT f.name, f.code, f.is_active, m.account
+     FROM funds f
+     LEFT JOIN gl_account_mappings m ON m.fund_name = f.name
+     ORDER BY f.sort_order, f.name`
+  );
+
+  return {
+    depositAccount: settings.rows[0]?.gl_deposit_account || null,
+    funds: funds.rows.map(row => ({
+      fund: row.name,
+      code: row.code,
+      isActive: row.is_active !== false,
+      account: row.account || null
+    }))
+  };
+}
+
+/**
+ * Validates the period, format and grouping of an export.
+ * @param {Object} query - { startDate, endDate, format, grouping }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateGlExport(query) {
+  const errors = [];
+
+  if (!isDate(query.startDate) || !isDate(query.endDate) || query.endDate < query.startDate) {
+    errors.push('INVALID_DATE_RANGE: startDate and endDate must be dates (YYYY-MM-DD), in order.');
+  }
+  if (query.format !== undefined && !GL_FORMATS.includes(query.format)) {
+    errors.push(`INVALID_FORMAT: format must be one of ${GL_FORMATS.join(', ')}.`);
+  }
+  if (query.grouping !== undefined && !GL_GROUPINGS.includes(query.grouping)) {
+    errors.push(`INVALID_GROUPING: grouping must be one of ${GL_GROUPINGS.join(', ')}.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Builds journal entries from giving summarized by entry and fund. Each
+ * entry debits the deposit account for its total and credits every fund's
+ * income account for its share, so debits always equal credits.
+ * @param {Array} rows - [{ entryDate, batchId, batchDescription, fund, count, total }]
+ * @param {Object} settings - getGlSettings result
+ * @returns {Object} { entries, unmappedFunds, totals: { debit, credit, gifts } }
+ */
+function buildJournalEntries(rows, settings) {
+  const accounts = new Map(settings.funds.map(f => [f.fund, f.account]));
+  const unmapped = new Set();
+  const entries = new Map();
+
+  for (const row of rows) {
+    const date = formatDate(row.entryDate);
+    const key = row.batchId ? `B${row.batchId}` : date.replace(/-/g, '');
+    if (!entries.has(key)) {
+      const memo = row.batchId
+        ? clean(`Deposit batch #${row.batchId}${row.batchDescription ? `: ${row.batchDescription}` : ''}`)
+        : `Giving ${date}`;
+      entries.set(key, { reference: `GG-${key}`, date, memo, batchId: row.batchId ? String(row.batchId) : null, cents: 0, gifts: 0, funds: [] });
+    }
+    const entry = entries.get(key);
+    const account = accounts.get(row.fund) || null;
+    if (!account) unmapped.add(row.fund);
+    const count = parseInt(row.count) || 0;
+    entry.cents += toCents(row.total);
+    entry.gifts += count;
+    entry.funds.push({ account, fund: row.fund, cents: toCents(row.total), count });
+  }
+
+  let totalCents = 0;
+  let totalGifts = 0;
+  const result = [...entries.values()]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference))
+    .map(({ cents, gifts, funds, ...entry }) => {
+      totalCents += cents;
+      totalGifts += gifts;
+      return {
+        ...entry,
+        total: fromCents(cents),
+        lines: [
+          { account: settings.depositAccount, fund: null, debit: fromCents(cents), credit: 0, memo: `${gifts} gift${gifts === 1 ? '' : 's'}` },
+          ...funds.map(line => ({
+            account: line.account,
+            fund: line.fund,
+            debit: 0,
+            credit: fromCents(line.cents),
+            memo: `${line.fund} (${line.count} gift${line.count === 1 ? '' : 's'})`
+          }))
+        ]
+      };
+    });
+
+  return {
+    entries: result,
+    unmappedFunds: [...unmapped].sort(),
+    totals: { debit: fromCents(totalCents), credit: fromCents(totalCents), gifts: totalGifts }
+  };
+}
+
+/**
+ * Summarizes giving in a period into journal entries.
+ * 'daily' makes one entry per gift date; 'batch' one per deposit batch,
+ * with gifts outside any batch still entered by day.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} options - { startDate, endDate, grouping }
+ * @returns {Promise<Object>} { startDate, endDate, grouping, depositAccount, entries, unmappedFunds, totals }
+ */
+async function getJournal(db, { startDate, endDate, grouping = 'daily' }) {
+  const settings = await getGlSettings(db);
+  const byBatch = grouping === 'batch';
+  const result = await db.query(
+    `SELECT ${byBatch ? 'COALESCE(b.batch_date, d.donation_date::date)' : 'd.donation_date::date'} AS entry_date,
+       ${byBatch ? 'd.batch_id, b.description' : 'NULL::int AS batch_id, NULL::text'} AS batch_description,
+       d.fund, COUNT(*) AS count, SUM(d.amount) AS total
+     FROM donations d
+     ${byBatch ? 'LEFT JOIN deposit_batches b ON b.id = d.batch_id' : ''}
+     WHERE d.donation_date >= $1::date AND d.donation_date < $2::date + INTERVAL '1 day'
+     GROUP BY 1, 2, 3, d.fund
+     ORDER BY 1, 2, d.fund`,
+    [startDate, endDate]
+  );
+
+  const journal = buildJournalEntries(
+    result.rows.map(row => ({
+      entryDate: row.entry_date,
+      batchId: row.batch_id,
+      batchDescription: row.batch_description,
+      fund: row.fund,
+      count: row.count,
+      total: row.total
+    })),
+    settings
+  );
+
+  return { startDate, endDate, grouping, depositAccount: settings.depositAccount, ...journal };
+}
+
+const mapExportLog = (row) => ({
+  id: String(row.id),
+  startDate: formatDate(row.period_start),
+  endDate: formatDate(row.period_end),
+  format: row.filters?.format || null,
+  grouping: row.filters?.grouping || null,
+  exportedBy: row.username || null,
+  exportedAt: row.created_at
+});
+
+/**
+ * Lists earlier GL exports whose range overlaps the period, newest first.
+ * @param {Object} db - pg Pool or client
+ * @param {string} startDate
+ * @param {string} endDate
+ * @returns {Promise<Array>}
+ */
+async function findOverlappingExports(db, startDate, endDate) {
+  const result = await db.query(
+    `SELECT l.id, l.period_start, l.period_end, l.filters, l.created_at, u.username
+     FROM export_logs l
+     LEFT JOIN users u ON u.id = l.user_id
+     WHERE l.export_type = $1 AND l.period_start <= $3::date AND l.period_end >= $2::date
+     ORDER BY l.created_at DESC`,
+    [GL_EXPORT_TYPE, startDate, endDate]
+  );
+  return result.rows.map(mapExportLog);
+}
+
+/**
+ * Lists recent GL exports, newest first.
+ * @param {Object} db - pg Pool or client
+ * @param {number} [limit]
+ * @returns {Promise<Array>}
+ */
+async function listGlExports(db, limit = 20) {
+  const result = await db.query(
+    `SELECT l.id, l.period_start, l.period_end, l.filters, l.created_at, u.username
+     FROM export_logs l
+     LEFT JOIN users u ON u.id = l.user_id
+     WHERE l.export_type = $1
+     ORDER BY l.created_at DESC
+     LIMIT $2`,
+    [GL_EXPORT_TYPE, limit]
+  );
+  return result.rows.map(mapExportLog);
+}
+
+/**
+ * Records an export with its exact range.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} user - req.user
+ * @param {Object} journal - getJournal result
+ * @param {string} format
+ * @returns {Promise<void>}
+ */
+async function recordGlExport(db, user, journal, format) {
+  await db.query(
+    `INSERT INTO export_logs (user_id, export_type, filters, period_start, period_end)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      user.id,
+      GL_EXPORT_TYPE,
+      { format, grouping: journal.grouping, entries: journal.entries.length, total: journal.totals.debit },
+      journal.startDate,
+      journal.endDate
+    ]
+  );
+}
+
+const usDate = (date) => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`;
+const amount = (value) => value.toFixed(2);
+
+/**
+ * QuickBooks IIF: one GENERAL JOURNAL transaction per entry. Debits are
+ * positive and credits negative, as QuickBooks expects.
+ * @param {Object} journal - getJournal result
+ * @returns {string}
+ */
+function formatIif(journal) {
+  const lines = [
+    ['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!ENDTRNS']
+  ];
+  for (const entry of journal.entries) {
+    entry.lines.forEach((line, i) => {
+      lines.push([
+        i === 0 ? 'TRNS' : 'SPL',
+        '',
+        'GENERAL JOURNAL',
+        usDate(entry.date),
+        clean(line.account),
+        amount(line.debit - line.credit),
+        entry.reference,
+        clean(i === 0 ? entry.memo : line.memo)
+      ]);
+    });
+    lines.push(['ENDTRNS']);
+  }
+  return lines.map(line => line.join('\t')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Generic GL CSV: one row per journal line.
+ * @param {Object} journal - getJournal result
+ * @returns {string}
+ */
+function formatGlCsv(journal) {
+  const rows = [['Date', 'Reference', 'Description', 'Account', 'Debit', 'Credit', 'Fund', 'Memo']];
+  for (const entry of journal.entries) {
+    for (const line of entry.lines) {
+      rows.push([
+        entry.date,
+        entry.reference,
+        entry.memo,
+        line.account,
+        line.debit ? amount(line.debit) : '',
+        line.credit ? amount(line.credit) : '',
+        line.fund || '',
+        line.memo
+      ]);
+    }
+  }
+  return stringify(rows);
+}
+
+const ofxText = (value, max) => clean(value).slice(0, max).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const ofxDate = (date) => date.replace(/-/g, '');
+
+/**
+ * OFX 1.0.2 (SGML) bank statement for the deposit account: one credit per
+ * journal entry, its fund split in the memo. The reference is the FITID,
+ * so importing the same period again is recognized as a duplicate.
+ * @param {Object} journal - getJournal result
+ * @param {Object} [options] - { churchName }
+ * @returns {string}
+ */
+function formatOfx(journal, { churchName = 'GraceGiver', generatedAt = new Date() } = {}) {
+  const stamp = generatedAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const transactions = journal.entries.map(entry => [
+    '<STMTTRN>',
+    '<TRNTYPE>CREDIT',
+    `<DTPOSTED>${ofxDate(entry.date)}`,
+    `<TRNAMT>${amount(entry.total)}`,
+    `<FITID>${entry.reference}`,
+    `<NAME>${ofxText(entry.memo, 32)}`,
+    `<MEMO>${ofxText(entry.lines.slice(1).map(line => `${line.fund} ${amount(line.credit)}`).join('; '), 255)}`,
+    '</STMTTRN>'
+  ].join('\r\n'));
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${stamp}`,
+    '<LANGUAGE>ENG',
+    `<FI><ORG>${ofxText(churchName, 32)}</FI>`,
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>USD',
+    `<BANKACCTFROM><BANKID>000000000<ACCTID>${ofxText(journal.depositAccount, 22)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(journal.startDate)}`,
+    `<DTEND>${ofxDate(journal.endDate)}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${amount(journal.totals.debit)}<DTASOF>${ofxDate(journal.endDate)}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>'
+  ].join('\r\n') + '\r\n';
+}
+
+const GL_FILE_TYPES = {
+  iif: { extension: 'iif', contentType: 'text/plain', render: formatIif },
+  csv: { extension: 'csv', contentType: 'text/csv', render: formatGlCsv },
+  ofx: { extension: 'ofx', contentType: 'application/x-ofx', render: formatOfx }
+};
+
+/**
+ * Renders a journal in an export format.
+ * @param {Object} journal - getJournal result
+ * @param {string} format - 'iif', 'csv' or 'ofx'
+ * @param {Object} [options] - { churchName }
+ * @returns {Object} { filename, contentType, content }
+ */
+function renderJournal(journal, format, options = {}) {
+  const type = GL_FILE_TYPES[format];
+  return {
+    filename: `gl-journal-${journal.startDate}-${journal.endDate}.${type.extension}`,
+    contentType: type.contentType,
+    content: type.render(journal, options)
+  };
+}
+
+module.exports = {
+  GL_FORMATS,
+  GL_GROUPINGS,
+  validateGlSettings,
+  getGlSettings,
+  validateGlExport,
+  buildJournalEntries,
+  getJournal,
+  findOverlappingExports,
+  listGlExports,
+  recordGlExport,
+  formatIif,
+  formatGlCsv,
+  formatOfx,
+  renderJournal
+};
@@ -0,0 +1,185 @@
+/**
+ * Household Utilities for GraceGiver
+ *
+ * A household groups members who give as one family (members.family_id).
+ * It carries the mailing address and salutation used on joint contribution
+ * statements, e.g. "Mr. & Mrs. John Smith".
+ */
+
+const { REGEX } = require('./validation');
+
+// Household rows with member counts for list views
+const HOUSEHOLD_SELECT = `
+  SELECT h.*,
+    hm.first_name AS head_first_name,
+    hm.last_name AS head_last_name,
+    COUNT(m.id) AS member_count
+  FROM households h
+  LEFT JOIN members hm ON hm.id = h.head_member_id
+  LEFT JOIN members m ON m.family_id = h.id
+`;
+const HOUSEHOLD_GROUP_BY = ' GROUP BY h.id, hm.first_name, hm.last_name';
+
+/**
+ * Validates a household create/update body.
+ * @param {Object} input - Request body.
+ * @param {Object} [options]
+ * @param {boolean} [options.partial] - Allow name to be omitted (updates).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateHousehold(input, { partial = false } = {}) {
+  const errors = [];
+
+  if (!partial || input.name !== undefined) {
+    if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+      errors.push('REQUIRED_NAME: Household name cannot be empty.');
+    }
+  }
+  if (input.salutation && String(input.salutation).length > 150) {
+    errors.push('INVALID_SALUTATION_LENGTH: Salutation cannot exceed 150 characters.');
+  }
+  if (input.state && !REGEX.STATE.test(input.state)) {
+    errors.push('INVALID_STATE: State must be a 2-letter uppercase code (e.g., CA).');
+  }
+  if (input.zip && !REGEX.ZIP.test(input.zip)) {
+    errors.push('INVALID_ZIP: Zip code must be 5 digits (12345) or ZIP+4 (12345-6789).');
+  }
+  if (input.memberIds !== undefined && !Array.isArray(input.memberIds)) {
+    errors.push('INVALID_MEMBERS: memberIds must be an array of member IDs.');
+  }
+  if (
+    input.headMemberId &&
+    Array.isArray(input.memberIds) &&
+    !input.memberIds.includes(input.headMemberId)
+  ) {
+    errors.push('INVALID_HEAD: The head of household must be one of its members.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a households row to the API response shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapHousehold(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    salutation: row.salutation,
+    headMemberId: row.head_member_id,
+    headName: row.head_first_name ? `${row.head_first_name} ${row.head_last_name}` : null,
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    zip: row.zip,
+    jointStatements: row.joint_statements !== false,
+    memberCount: row.member_count !== undefined ? parseInt(row.member_count) || 0 : undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Picks the name printed on a joint statement: the salutation when set,
+ * otherwise the members' first names sharing a surname ("John & Mary Smith"),
+ * falling back to the household name.
+ * @param {Object} household - Mapped household.
+ * @param {Array} members - [{ firstName, lastName }]
+ * @returns {string}
+ */
+function getStatementName(household, members = []) {
+  if (household.salutation && household.salutation.trim()) {
+    return household.salutation.trim();
+  }
+  if (members.length === 0) return household.name;
+
+  const lastNames = [...new Set(members.map(m => m.lastName))];
+  if (lastNames.length === 1) {
+    const firstNames = members.map(m => m.firstName);
+    const joined = firstNames.length > 1
+      ? `${firstNames.slice(0, -1).join(', ')} & ${firstNames[firstNames.length - 1]}`
+      : firstNames[0];
+    return `${joined} ${lastNames[0]}`;
+  }
+  return members.map(m => `${m.firstName} ${m.lastName}`).join(' & ');
+}
+
+/**
+ * Lists households alphabetically with member counts.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { search, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listHouseholds(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const params = [];
+  let where = '';
+
+  if (filters.search) {
+    params.push(`%${filters.search}%`);
+    where = ' WHERE (h.name ILIKE $1 OR h.salutation ILIKE $1)';
+  }
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM households h${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${HOUSEHOLD_SELECT}${where}${HOUSEHOLD_GROUP_BY} ORDER BY h.name ASC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapHousehold),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a household with its members.
+ * @param {Object} db - pg Pool or client
+ * @param {string} id
+ * @returns {Promise<Object|null>} The mapped household, or null if not found.
+ */
+async function getHousehold(db, id) {
+  const result = await db.query(`${HOUSEHOLD_SELECT} WHERE h.id = $1${HOUSEHOLD_GROUP_BY}`, [id]);
+  if (result.rows.length === 0) return null;
+
+  const membersResult = await db.query(
+    `SELECT id, first_name, last_name, email, address, city, state, zip
+     FROM members WHERE family_id = $1 ORDER BY last_name, first_name`,
+    [id]
+  );
+
+  return {
+    ...mapHousehold(result.rows[0]),
+    members: membersResult.rows.map(m => ({
+      id: m.id,
+      firstName: m.first_name,
+      lastName: m.last_name,
+      email: m.email,
+      address: m.address,
+      city: m.city,
+      state: m.state,
+      zip: m.zip
+    }))
+  };
+}
+
+module.exports = {
+  validateHousehold,
+  mapHousehold,
+  getStatementName,
+  listHouseholds,
+  getHousehold
+};
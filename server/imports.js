@@ -0,0 +1,299 @@
+/**
+ * CSV Import Utilities for GraceGiver
+ *
+ * Imports run in two passes: a dry run that maps and validates every row and
+ * reports what would be created, updated or flagged as a likely duplicate,
+ * then a commit that re-plans the same file and applies it in a single
+ * transaction. Rejected rows never block the rest of the file; they are
+ * returned so the UI can offer them back as an error report.
+ */
+
+const { parse } = require('csv/sync');
+const { validateMember } = require('./validation');
+
+// Largest file accepted by the import endpoints (rows, excluding the header)
+const MAX_IMPORT_ROWS = 5000;
+
+// Member fields a CSV column can be mapped to
+const MEMBER_IMPORT_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'email',
+  'telephone',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'joinedAt'
+];
+
+// Header spellings recognized when suggesting a mapping (normalized: lowercase, alphanumerics only)
+const MEMBER_HEADER_ALIASES = {
+  id: ['id', 'memberid'],
+  firstName: ['firstname', 'first', 'givenname', 'fname'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'lname'],
+  email: ['email', 'emailaddress', 'email1'],
+  telephone: ['telephone', 'phone', 'phonenumber', 'mobile', 'cell', 'cellphone', 'homephone'],
+  address: ['address', 'street', 'streetaddress', 'address1', 'addressline1'],
+  city: ['city', 'town'],
+  state: ['state', 'st', 'province'],
+  zip: ['zip', 'zipcode', 'postalcode', 'postcode'],
+  joinedAt: ['joinedat', 'joined', 'joindate', 'datejoined', 'memberdate', 'membersince']
+};
+
+const normalizeHeader = (header) => String(header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parses CSV text into records keyed by header.
+ * @param {string} text - CSV with a header row.
+ * @returns {{ headers: Array<string>, records: Array<Object> }}
+ * @throws {Error} When the text is not valid CSV.
+ */
+function parseCsv(text) {
+  let headers = [];
+  const records = parse(text, {
+    bom: true,
+    columns: (header) => {
+      headers = header.map(h => String(h).trim());
+      return headers;
+    },
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true
+  });
+  return { headers, records };
+}
+
+/**
+ * Suggests a field → column mapping from the file's headers.
+ * @param {Array<string>} headers
+ * @param {Object} aliases - Field → normalized header spellings.
+ * @returns {Object} mapping - { firstName: 'First Name', ... }
+ */
+function suggestMapping(headers, aliases = MEMBER_HEADER_ALIASES) {
+  const mapping = {};
+  Object.entries(aliases).forEach(([field, names]) => {
+    const match = headers.find(h => names.includes(normalizeHeader(h)));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+}
+
+/**
+ * Validates a column mapping against the file's headers.
+ * @param {Object} mapping - Field → column name.
+ * @param {Array<string>} headers
+ * @param {Object} options - { fields, required }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateMapping(mapping, headers, { fields, required }) {
+  const errors = [];
+
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { isValid: false, errors: ['INVALID_MAPPING: Mapping must be an object of field to column name.'] };
+  }
+  Object.entries(mapping).forEach(([field, column]) => {
+    if (!fields.includes(field)) {
+      errors.push(`UNKNOWN_FIELD: ${field} cannot be imported.`);
+    } else if (column && !headers.includes(column)) {
+      errors.push(`UNKNOWN_COLUMN: Column "${column}" is not in the file.`);
+    }
+  });
+  required.forEach(field => {
+    if (!mapping[field]) {
+      errors.push(`REQUIRED_MAPPING: Map a column to ${field}.`);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Normalizes a phone number the way the member form stores it: digits only,
+ * keeping a leading + for international numbers.
+ * @param {string} value
+ * @returns {string|null}
+ */
+function normalizePhone(value) {
+  if (!value) return null;
+  const trimmed = String(value).trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Builds a member from a CSV record using the mapping. Unmapped and blank
+ * columns come back as null.
+ * @param {Object} record
+ * @param {Object} mapping
+ * @returns {Object} member
+ */
+function mapMemberRecord(record, mapping) {
+  const value = (field) => {
+    const column = mapping[field];
+    if (!column) return null;
+    const raw = record[column];
+    return raw === undefined || raw === null || String(raw).trim() === '' ? null : String(raw).trim();
+  };
+
+  const state = value('state');
+  const email = value('email');
+
+  return {
+    id: value('id'),
+    firstName: value('firstName'),
+    lastName: value('lastName'),
+    email: email ? email.toLowerCase() : null,
+    telephone: normalizePhone(value('telephone')),
+    address: value('address'),
+    city: value('city'),
+    state: state ? state.toUpperCase() : null,
+    zip: value('zip'),
+    joinedAt: value('joinedAt')
+  };
+}
+
+const nameKey = (firstName, lastName) =>
+  `${String(firstName || '').trim().toLowerCase()}|${String(lastName || '').trim().toLowerCase()}`;
+
+const phoneDigits = (phone) => String(phone || '').replace(/\D/g, '');
+
+/**
+ * Returns which contact field a candidate shares with a member of the same
+ * name ('email' or 'telephone'), or null when it is not a likely duplicate.
+ */
+function matchContact(member, candidate) {
+  if (nameKey(member.firstName, member.lastName) !== nameKey(candidate.firstName, candidate.lastName)) {
+    return null;
+  }
+  if (member.email && candidate.email && member.email.toLowerCase() === candidate.email.toLowerCase()) {
+    return 'email';
+  }
+  const digits = phoneDigits(member.telephone);
+  if (digits && digits === phoneDigits(candidate.telephone)) {
+    return 'telephone';
+  }
+  return null;
+}
+
+/**
+ * Plans a member import: maps and validates every record, then classifies
+ * each valid row.
+ *
+ * - update: the row's id matches an existing member
+ * - duplicate: same name as an existing member (or an earlier row) and a
+ *   matching email or phone
+ * - create: everything else
+ * - error: failed validateMember or has an unparseable join date
+ *
+ * @param {Object} db - pg Pool or client
+ * @param {Array<Object>} records - From parseCsv.
+ * @param {Object} mapping - Field → column name.
+ * @returns {Promise<{ summary: Object, rows: Array }>}
+ */
+async function planMemberImport(db, records, mapping) {
+  const rows = records.map((record, index) => {
+    const member = mapMemberRecord(record, mapping);
+    const { errors } = validateMember(member);
+    if (member.joinedAt && isNaN(new Date(member.joinedAt).getTime())) {
+      errors.push('INVALID_JOINED_AT: Join date must be a valid date (YYYY-MM-DD).');
+    }
+    // Line numbers are 1-based and count the header row. Rejected rows keep
+    // the original record for the error report.
+    if (errors.length > 0) {
+      return { line: index + 2, action: 'error', member, errors, record };
+    }
+    return { line: index + 2, action: null, member, errors };
+  });
+
+  const valid = rows.filter(row => row.action === null);
+  const ids = [...new Set(valid.map(row => row.member.id).filter(Boolean))];
+  const emails = [...new Set(valid.map(row => row.member.email).filter(Boolean))];
+  const phones = [...new Set(valid.map(row => phoneDigits(row.member.telephone)).filter(Boolean))];
+
+  let existing = [];
+  if (ids.length > 0 || emails.length > 0 || phones.length > 0) {
+    const result = await db.query(
+      `SELECT id, first_name, last_name, email, telephone FROM members
+       WHERE id = ANY($1::text[])
+          OR lower(email) = ANY($2::text[])
+          OR regexp_replace(COALESCE(telephone, ''), '\\D', '', 'g') = ANY($3::text[])`,
+      [ids, emails, phones]
+    );
+    existing = result.rows.map(row => ({
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email,
+      telephone: row.telephone
+    }));
+  }
+  const existingById = new Map(existing.map(member => [member.id, member]));
+
+  const seen = [];
+  valid.forEach(row => {
+    const { member } = row;
+
+    if (member.id && existingById.has(member.id)) {
+      row.action = 'update';
+      row.existingId = member.id;
+    } else {
+      const existingMatch = existing
+        .map(candidate => ({ candidate, matchedOn: matchContact(member, candidate) }))
+        .find(m => m.matchedOn);
+      const fileMatch = seen
+        .map(earlier => ({ earlier, matchedOn: matchContact(member, earlier.member) }))
+        .find(m => m.matchedOn);
+
+      if (existingMatch) {
+        row.action = 'duplicate';
+        row.match = {
+          memberId: existingMatch.candidate.id,
+          name: `${existingMatch.candidate.firstName} ${existingMatch.candidate.lastName}`,
+          matchedOn: existingMatch.matchedOn
+        };
+      } else if (fileMatch) {
+        row.action = 'duplicate';
+        row.match = { line: fileMatch.earlier.line, matchedOn: fileMatch.matchedOn };
+      } else {
+        row.action = 'create';
+      }
+    }
+    seen.push(row);
+  });
+
+  const summary = { total: rows.length, create: 0, update: 0, duplicate: 0, error: 0 };
+  rows.forEach(row => { summary[row.action]++; });
+
+  return { summary, rows };
+}
+
+/**
+ * Resolves what a committed row does. Duplicates are skipped unless the
+ * preview chose 'update' (overwrite the matched member) or 'create'.
+ * @param {Object} row - From planMemberImport.
+ * @param {Object} resolutions - Line number → 'skip' | 'update' | 'create'.
+ * @returns {'create'|'update'|'skip'|'error'}
+ */
+function resolveImportAction(row, resolutions = {}) {
+  if (row.action !== 'duplicate') return row.action;
+  const choice = resolutions[row.line] || resolutions[String(row.line)];
+  if (choice === 'create') return 'create';
+  if (choice === 'update' && row.match && row.match.memberId) return 'update';
+  return 'skip';
+}
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  MEMBER_IMPORT_FIELDS,
+  MEMBER_HEADER_ALIASES,
+  parseCsv,
+  suggestMapping,
+  validateMapping,
+  normalizePhone,
+  mapMemberRecord,
+  planMemberImport,
+  resolveImportAction
+};
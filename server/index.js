@@ -7,7 +7,7 @@ const bcrypt = require("bcryptjs");
 const crypto = require("crypto");
 const path = require("path");
 const rateLimit = require("express-rate-limit");
-const { validateMember } = require("./validation");
+const { validateMember, validateDonationPayment, validateGoodsServices, REGEX } = require("./validation");
 const { authenticateToken, generateToken } = require("./auth");
 const { bootstrapSuperAdmin } = require("./bootstrap");
 
@@ -27,7 +27,193 @@ const {
   getFinancialSummary,
   generateMemberNarrative,
 } = require("./geminiService");
-const { initializeSocket, emitEvent } = require("./socketManager");
+const { initializeSocket, emitEvent, isLockTarget, listLocks, forceReleaseLock } = require("./socketManager");
+const { recordAuditEvent, listAuditEvents } = require("./audit");
+const {
+  validateBatch,
+  listBatches,
+  getBatch,
+  getBatchDonations,
+  checkBatchesWritable,
+} = require("./batches");
+const { mapDonationRow, donationTotalsRow, findDuplicateCheckNumbers } = require("./donations");
+const {
+  parseIfMatch,
+  formatETag,
+  versionConflict,
+  parseIdempotencyKey,
+  isSameDonationRequest,
+} = require("./concurrency");
+const {
+  getStatementTemplate,
+  issueStatement,
+  listStatementIssues,
+} = require("./statements");
+const {
+  validateHousehold,
+  listHouseholds,
+  getHousehold,
+} = require("./households");
+const {
+  validatePledge,
+  mapPledge,
+  listPledges,
+  getPledge,
+} = require("./pledges");
+const {
+  MAX_IMPORT_ROWS,
+  MEMBER_IMPORT_FIELDS,
+  parseCsv,
+  suggestMapping,
+  validateMapping,
+  planMemberImport,
+  resolveImportAction,
+} = require("./imports");
+const {
+  DONATION_IMPORT_FIELDS,
+  DONATION_IMPORT_PROFILES,
+  suggestDonationMapping,
+  planDonationImport,
+  insertImportedDonation,
+  listDonationImports,
+  getDonationImport,
+  mapFundRule,
+} = require("./donationImports");
+const {
+  findDuplicateMembers,
+  validateMerge,
+  mergeMembers,
+} = require("./memberMerge");
+const {
+  DEFAULT_FUND,
+  validateFund,
+  toFundColumns,
+  mapFund,
+  listFunds,
+  findFund,
+  resolveFundName,
+  checkFundParent,
+} = require("./funds");
+const {
+  validateRecurringGift,
+  listRecurringGifts,
+  getRecurringGift,
+  listInstallments,
+  getInstallment,
+  runRecurringGiftJob,
+  resetInstallments,
+  countSettledInstallments,
+} = require("./recurringGifts");
+const {
+  RISK_THRESHOLDS,
+  validateRiskThresholds,
+  mapRiskThresholds,
+  findAtRiskDonors,
+  listAtRiskDonors,
+  mapDonorContact,
+  recordDonorContact,
+  listDonorContacts,
+} = require("./donorRisk");
+const {
+  validateTask,
+  mapTaskNote,
+  listTasks,
+  getTask,
+  createTask,
+  createAutoTask,
+  createNewDonorTasks,
+  createMissingEmailTasks,
+  addTaskNote,
+  listTaskNotes,
+  listAssignees,
+  isAssignable,
+} = require("./tasks");
+const {
+  EMAIL_TEMPLATE_KEYS,
+  validateEmailTemplate,
+  listEmailTemplates,
+  getEmailTemplate,
+  saveEmailTemplate,
+  resetEmailTemplate,
+  getSender,
+  mapEmailMessage,
+  getEmailJob,
+  listEmailJobs,
+  listEmailMessages,
+  getEmailMessage,
+  findStatementRecipients,
+  getReceiptGift,
+  receiptFields,
+  createEmailJob,
+  queueEmailMessages,
+  deliverEmailMessage,
+  sendQueuedMessages,
+  requeueFailedMessages,
+} = require("./email");
+const { getMailTransport } = require("./mailer");
+const {
+  validateAcknowledgmentSettings,
+  mapAcknowledgmentSettings,
+  runAcknowledgmentJob,
+} = require("./acknowledgments");
+const {
+  validateReportSubscription,
+  normalizeReportSubscription,
+  mapReportSubscription,
+  listReportSubscriptions,
+  getReportSubscription,
+  createReportSubscription,
+  updateReportSubscription,
+  listReportRecipients,
+  findInvalidRecipients,
+  deliverToInbox,
+  queueReportEmails,
+  deliverSubscription,
+  runReportSubscriptionJob,
+  renderReport,
+  listReportInbox,
+  openReportInboxItem,
+  deleteReportInboxItem,
+} = require("./reportSubscriptions");
+const {
+  validateReportDefinition,
+  normalizeReportDefinition,
+  runReportDefinition,
+  validateSavedReport,
+  mapSavedReport,
+  canViewSavedReport,
+  canEditSavedReport,
+  listSavedReports,
+  getSavedReport,
+} = require("./reportBuilder");
+const {
+  validateBudget,
+  resolveMonthlyAmounts,
+  mapBudget,
+  listBudgets,
+  getBudgetVsActual,
+  buildBudgetReport,
+} = require("./budgets");
+const {
+  validateDisbursement,
+  validateAttachment,
+  checkDecision,
+  DISBURSEMENT_DECISIONS,
+  listDisbursements,
+  getDisbursement,
+  getFundBalances,
+  getFundActivity,
+} = require("./disbursements");
+const {
+  validateGlSettings,
+  getGlSettings,
+  validateGlExport,
+  getJournal,
+  findOverlappingExports,
+  listGlExports,
+  recordGlExport,
+  renderJournal,
+} = require("./glExport");
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -74,6 +260,8 @@ if (allowedOrigins.length > 0) {
 app.use(cors(corsOptions));
 app.use(compression());
 app.use("/api/ai", express.json({ limit: "10mb" }));
+app.use("/api/import", express.json({ limit: "5mb" }));
+app.use("/api/disbursements", express.json({ limit: "8mb" })); // base64 attachments
 app.use(express.json({ limit: "100kb" }));
 
 // ==========================================
@@ -181,8 +369,25 @@ app.post("/api/register", registerLimiter, async (req, res) => {
 
     await client.query("COMMIT");
 
-    console.log(`[AUDIT] User registered: ${email} (Role: viewer)`);
+    await recordAuditEvent(pool, {
+      actor: newUser.rows[0],
+      action: "REGISTER",
+      entityType: "user",
+      entityId: newUser.rows[0].id,
+      after: newUser.rows[0],
+      metadata: { memberId, memberCreated: memberMatch.rows.length === 0 },
+    });
     emitEvent("user:update", { type: "CREATE", data: newUser.rows[0] });
+    if (memberMatch.rows.length === 0) {
+      await queueFollowUpTasks(async (db) => [
+        await createAutoTask(db, {
+          memberId,
+          origin: "new_member",
+          title: `Welcome new member ${firstName} ${lastName}`,
+          description: "Registered online. Complete their address and introduce them to the church.",
+        }),
+      ]);
+    }
 
     // 5. Issue Token for auto-login
     const token = generateToken(newUser.rows[0]);
@@ -301,6 +506,16 @@ app.post('/api/login', (req, res, next) =>
         canExportData: roleInfo.canExportData,
         canDeleteMembers: roleInfo.canDeleteMembers,
         canDeleteDonations: roleInfo.canDeleteDonations,
+        canViewAudit: roleInfo.canViewAudit,
+        canApproveBatches: roleInfo.canApproveBatches,
+        canApproveDisbursements: roleInfo.canApproveDisbursements,
+        canManageSettings: roleInfo.canManageSettings,
+        canEmailStatements: roleInfo.canEmailStatements,
+        canManageEmail: roleInfo.canManageEmail,
+        canScheduleReports: roleInfo.canScheduleReports,
+        canManageReports: roleInfo.canManageReports,
+        canManageBudgets: roleInfo.canManageBudgets,
+        canReleaseLocks: roleInfo.canReleaseLocks,
       },
       mustChangePassword: mustChangePassword || passwordExpired,
       passwordExpiry: expiryCheck.expiryEnabled
@@ -434,6 +649,7 @@ app.get(
         skills: row.skills,
         interests: row.interests,
         joinedAt: row.joined_at,
+        acknowledgmentOptOut: row.acknowledgment_opt_out === true,
         createdAt: row.created_at,
       });
     } catch (err) {
@@ -521,6 +737,32 @@ app.get(
   },
 );
 
+// Get own pledges with fulfillment
+app.get(
+  "/api/self/pledges",
+  authenticateToken,
+  requireScopedPermission("pledges:read", "member", (req) => req.user.memberId),
+  async (req, res) => {
+    if (!req.user.memberId) {
+      return res
+        .status(400)
+        .json({ error: "User is not linked to a member record" });
+    }
+
+    try {
+      const result = await listPledges(pool, {
+        memberId: req.user.memberId,
+        status: "active",
+        limit: 100,
+      });
+      res.json(result.data);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
 // Get matched volunteer opportunities
 app.get(
   "/api/self/opportunities",
@@ -622,6 +864,7 @@ app.get(
           familyId: row.family_id,
           joinedAt: row.joined_at,
           createdAt: row.created_at,
+          version: row.version,
         })),
         pagination: {
           total,
@@ -637,6 +880,102 @@ app.get(
   },
 );
 
+// ==========================================
+// MEMBER DUPLICATES & MERGE API
+// ==========================================
+
+app.get(
+  "/api/members/duplicates",
+  authenticateToken,
+  requirePermission("members:merge"),
+  async (req, res) => {
+    const { memberId, minScore, limit } = req.query;
+    try {
+      const data = await findDuplicateMembers(pool, { memberId, minScore, limit });
+      res.json({ data });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to find duplicate members" });
+    }
+  },
+);
+
+app.post(
+  "/api/members/merge",
+  authenticateToken,
+  requirePermission("members:merge"),
+  async (req, res) => {
+    const validation = validateMerge(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
+    }
+
+    const survivorId = String(req.body.survivorId);
+    const duplicateId = String(req.body.duplicateId);
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const existing = await client.query(
+        "SELECT * FROM members WHERE id = ANY($1) FOR UPDATE",
+        [[survivorId, duplicateId]],
+      );
+      const survivor = existing.rows.find((row) => row.id === survivorId);
+      const duplicate = existing.rows.find((row) => row.id === duplicateId);
+      if (!survivor || !duplicate) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Member not found" });
+      }
+
+      const { member, moved } = await mergeMembers(
+        client,
+        survivor,
+        duplicate,
+        req.body.fields || {},
+      );
+
+      await recordAuditEvent(client, {
+        actor: req.user,
+        action: "MERGE",
+        entityType: "member",
+        entityId: survivorId,
+        before: survivor,
+        after: member,
+        metadata: { mergedMemberId: duplicateId, moved },
+      });
+      await recordAuditEvent(client, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "member",
+        entityId: duplicateId,
+        before: duplicate,
+        metadata: { mergedInto: survivorId },
+      });
+      await client.query("COMMIT");
+
+      emitEvent("member:update", {
+        type: "MERGE",
+        data: { survivorId, duplicateId },
+      });
+      if (moved.donations > 0) {
+        emitEvent("donation:update", {
+          type: "MERGE",
+          data: { survivorId, duplicateId, count: moved.donations },
+        });
+      }
+      res.json({ member, moved });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      console.error(err);
+      res.status(500).json({ error: "Failed to merge members" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
 // ==========================================
 // DATA EXPORT API
 // ==========================================
@@ -659,11 +998,11 @@ app.get(
   authenticateToken,
   requirePermission("reports:export"),
   async (req, res) => {
-    const { format = "csv", startDate, endDate, fund } = req.query;
+    const { format = "csv", startDate, endDate, fund, paymentMethod, source } = req.query;
 
     try {
       let queryText =
-        "SELECT d.id, COALESCE(m.first_name, 'Guest') as first_name, COALESCE(m.last_name, 'Non-Member') as last_name, COALESCE(m.email, '') as email, d.amount, d.fund, d.donation_date, d.notes FROM donations d LEFT JOIN members m ON d.member_id = m.id";
+        "SELECT d.id, COALESCE(m.first_name, 'Guest') as first_name, COALESCE(m.last_name, 'Non-Member') as last_name, COALESCE(m.email, '') as email, d.amount, d.fund, d.donation_date, d.payment_method, d.check_number, d.payment_reference, d.source, d.external_id, d.notes FROM donations d LEFT JOIN members m ON d.member_id = m.id";
       const params = [];
       const conditions = [];
       if (startDate && endDate) {
@@ -676,6 +1015,14 @@ app.get(
         conditions.push(`d.fund = $${params.length + 1}`);
         params.push(fund);
       }
+      if (paymentMethod) {
+        conditions.push(`d.payment_method = $${params.length + 1}`);
+        params.push(paymentMethod);
+      }
+      if (source) {
+        conditions.push(`d.source = $${params.length + 1}`);
+        params.push(source);
+      }
       if (conditions.length > 0) {
         queryText += " WHERE " + conditions.join(" AND ");
       }
@@ -685,7 +1032,7 @@ app.get(
       pool
         .query(
           "INSERT INTO export_logs (user_id, export_type, filters) VALUES ($1, $2, $3)",
-          [req.user.id, "donations", { format, startDate, endDate, fund }],
+          [req.user.id, "donations", { format, startDate, endDate, fund, paymentMethod, source }],
         )
         .catch((err) => console.error("Audit log failed:", err));
 
@@ -796,131 +1143,109 @@ app.get(
   },
 );
 
+// General ledger export: fund -> GL account mapping and journal entries
 app.get(
-  "/api/members/:id",
+  "/api/export/gl/settings",
   authenticateToken,
-  requireScopedPermission("members:read", "member", (req) => req.params.id),
+  requirePermission("reports:export"),
   async (req, res) => {
-    const { id } = req.params;
     try {
-      const result = await pool.query("SELECT * FROM members WHERE id = $1", [
-        id,
-      ]);
-      if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
-      }
-      const row = result.rows[0];
-      res.json({
-        id: row.id,
-        firstName: row.first_name,
-        lastName: row.last_name,
-        email: row.email,
-        telephone: row.telephone,
-        address: row.address,
-        city: row.city,
-        state: row.state,
-        zip: row.zip,
-        familyId: row.family_id,
-        joinedAt: row.joined_at,
-        createdAt: row.created_at,
-      });
+      res.json(await getGlSettings(pool));
     } catch (err) {
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      res.status(500).json({ error: "Failed to fetch GL accounts" });
     }
   },
 );
 
-app.post(
-  "/api/members",
+// Blank accounts remove a fund's mapping; funds left out keep theirs
+app.put(
+  "/api/export/gl/settings",
   authenticateToken,
-  requirePermission("members:create"),
+  requirePermission("settings:write"),
   async (req, res) => {
-    const {
-      id,
-      firstName,
-      lastName,
-      email,
-      telephone,
-      address,
-      city,
-      state,
-      zip,
-      familyId,
-      joinedAt,
-    } = req.body;
-
-    // High-priority validation check
-    const validation = validateMember({
-      firstName,
-      lastName,
-      email,
-      telephone,
-      state,
-      zip,
-    });
+    const validation = validateGlSettings(req.body || {});
     if (!validation.isValid) {
       return res.status(400).json({
         error: "VALIDATION_FAILED",
         details: validation.errors,
       });
     }
+    const accounts = req.body.accounts || [];
 
-    const memberId = id || crypto.randomUUID();
-
+    const client = await pool.connect();
     try {
-      const result = await pool.query(
-        "INSERT INTO members (id, first_name, last_name, email, telephone, address, city, state, zip, family_id, joined_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *",
-        [
-          memberId,
-          firstName,
-          lastName,
-          email,
-          telephone,
-          address,
-          city,
-          state,
-          zip,
-          familyId || null,
-          joinedAt || null,
-        ],
+      const before = await getGlSettings(client);
+      const known = new Set(before.funds.map((f) => f.fund));
+      const unknown = accounts.filter((a) => !known.has(a.fund)).map((a) => a.fund);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          error: "VALIDATION_FAILED",
+          details: [`INVALID_FUND: ${unknown.join(", ")} is not in the fund catalog.`],
+        });
+      }
+
+      await client.query("BEGIN");
+      await client.query(
+        "UPDATE settings SET gl_deposit_account = $1, updated_at = NOW() WHERE singleton_id = true",
+        [req.body.depositAccount.trim()],
       );
-      emitEvent("member:update", { type: "CREATE", data: result.rows[0] });
-      res.status(201).json(result.rows[0]);
+      for (const { fund, account } of accounts) {
+        if (account && account.trim()) {
+          await client.query(
+            `INSERT INTO gl_account_mappings (fund_name, account, updated_by)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (fund_name) DO UPDATE
+             SET account = EXCLUDED.account, updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP`,
+            [fund, account.trim(), req.user.username],
+          );
+        } else {
+          await client.query("DELETE FROM gl_account_mappings WHERE fund_name = $1", [fund]);
+        }
+      }
+      const after = await getGlSettings(client);
+      await recordAuditEvent(client, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "settings",
+        entityId: "gl_accounts",
+        before,
+        after,
+      });
+      await client.query("COMMIT");
+      res.json(after);
     } catch (err) {
+      await client.query("ROLLBACK").catch(() => {});
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      res.status(500).json({ error: "Failed to save GL accounts" });
+    } finally {
+      client.release();
     }
   },
 );
 
-app.put(
-  "/api/members/:id",
+app.get(
+  "/api/export/gl/history",
   authenticateToken,
-  requireScopedPermission("members:update", "member", (req) => req.params.id),
+  requirePermission("reports:export"),
   async (req, res) => {
-    const { id } = req.params;
-    const {
-      firstName,
-      lastName,
-      email,
-      telephone,
-      address,
-      city,
-      state,
-      zip,
-      familyId,
-      joinedAt,
-    } = req.body;
+    try {
+      res.json(await listGlExports(pool));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch GL export history" });
+    }
+  },
+);
 
-    const validation = validateMember({
-      firstName,
-      lastName,
-      email,
-      telephone,
-      state,
-      zip,
-    });
+// The journal an export would produce, with any earlier exports of the period
+app.get(
+  "/api/export/gl/preview",
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    const { startDate, endDate, grouping = "daily" } = req.query;
+    const validation = validateGlExport({ startDate, endDate, grouping });
     if (!validation.isValid) {
       return res.status(400).json({
         error: "VALIDATION_FAILED",
@@ -929,344 +1254,725 @@ app.put(
     }
 
     try {
-      const result = await pool.query(
-        "UPDATE members SET first_name = $1, last_name = $2, email = $3, telephone = $4, address = $5, city = $6, state = $7, zip = $8, family_id = $9, joined_at = $10 WHERE id = $11 RETURNING *",
-        [
-          firstName,
-          lastName,
-          email,
-          telephone,
-          address,
-          city,
-          state,
-          zip,
-          familyId || null,
-          joinedAt || null,
-          id,
-        ],
-      );
-      if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
-      }
-      emitEvent("member:update", { type: "UPDATE", data: result.rows[0] });
-      res.json(result.rows[0]);
+      const journal = await getJournal(pool, { startDate, endDate, grouping });
+      const previousExports = await findOverlappingExports(pool, startDate, endDate);
+      res.json({ ...journal, previousExports });
     } catch (err) {
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      res.status(500).json({ error: "Failed to preview GL export" });
     }
   },
 );
 
-// ServantHeart: Get Member Skills & Interests
+// Refuses unmapped funds, and a period exported before unless confirmOverlap=true
 app.get(
-  "/api/members/:id/skills",
+  "/api/export/gl",
+  exportLimiter,
   authenticateToken,
-  requireScopedPermission("members:read", "member", (req) => req.params.id),
+  requirePermission("reports:export"),
   async (req, res) => {
-    const { id } = req.params;
+    const { startDate, endDate, format = "iif", grouping = "daily" } = req.query;
+    const validation = validateGlExport({ startDate, endDate, format, grouping });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
+    }
+
     try {
-      const result = await pool.query(
-        "SELECT skills, interests FROM members WHERE id = $1",
-        [id],
-      );
-      if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
+      const journal = await getJournal(pool, { startDate, endDate, grouping });
+      if (journal.unmappedFunds.length > 0) {
+        return res.status(400).json({
+          error: "UNMAPPED_FUNDS",
+          details: journal.unmappedFunds.map((fund) => `${fund} has no GL account`),
+        });
       }
-      res.json(result.rows[0]);
+      if (req.query.confirmOverlap !== "true") {
+        const previousExports = await findOverlappingExports(pool, startDate, endDate);
+        if (previousExports.length > 0) {
+          return res.status(409).json({
+            error: "EXPORT_OVERLAP",
+            details: previousExports.map(
+              (log) => `${log.startDate} to ${log.endDate} was exported by ${log.exportedBy || "a deleted user"} on ${new Date(log.exportedAt).toISOString().slice(0, 10)}`,
+            ),
+            previousExports,
+          });
+        }
+      }
+
+      const { churchName } = await getStatementTemplate(pool);
+      const file = renderJournal(journal, format, { churchName });
+      await recordGlExport(pool, req.user, journal, format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename=${file.filename}`);
+      res.send(file.content);
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("GL export error:", err);
+      res.status(500).json({ error: "Failed to export general ledger" });
     }
   },
 );
 
-// ServantHeart: Update Member Skills & Interests
-app.put(
-  "/api/members/:id/skills",
-  authenticateToken,
-  requireScopedPermission("members:update", "member", (req) => req.params.id),
+// ==========================================
+// DATA IMPORT API
+// ==========================================
+
+// Previews and commits both count; a mapping pass usually takes a few previews
+const importLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message:
+    "Too many import requests from this IP, please try again after 15 minutes",
+});
+
+/**
+ * Parses an import request's CSV and checks its column mapping. Sends the
+ * 400 response and returns null when the file or mapping is unusable.
+ */
+function readImportFile(req, res, { fields, required, suggest = suggestMapping }) {
+  const { csv, mapping } = req.body;
+
+  if (!csv || typeof csv !== "string") {
+    res.status(400).json({
+      error: "VALIDATION_FAILED",
+      details: ["REQUIRED_CSV: Provide the file contents as csv."],
+    });
+    return null;
+  }
+
+  let parsed;
+  try {
+    parsed = parseCsv(csv);
+  } catch (err) {
+    res.status(400).json({ error: "INVALID_CSV", details: [err.message] });
+    return null;
+  }
+  if (parsed.records.length === 0) {
+    res.status(400).json({
+      error: "VALIDATION_FAILED",
+      details: ["EMPTY_FILE: The file has no data rows."],
+    });
+    return null;
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    res.status(400).json({
+      error: "VALIDATION_FAILED",
+      details: [`TOO_MANY_ROWS: Import at most ${MAX_IMPORT_ROWS} rows at a time.`],
+    });
+    return null;
+  }
+
+  const effectiveMapping = mapping || suggest(parsed.headers);
+  const mappingCheck = validateMapping(effectiveMapping, parsed.headers, { fields, required });
+  if (!mappingCheck.isValid) {
+    res.status(400).json({
+      error: "VALIDATION_FAILED",
+      details: mappingCheck.errors,
+      headers: parsed.headers,
+      suggestedMapping: suggest(parsed.headers),
+    });
+    return null;
+  }
+
+  return { ...parsed, mapping: effectiveMapping };
+}
+
+app.post(
+  "/api/import/members",
+  importLimiter,
+  authenticateToken,
+  requirePermission("members:create"),
   async (req, res) => {
-    const { id } = req.params;
-    const { skills, interests } = req.body;
+    const { dryRun = true, resolutions = {} } = req.body;
+
+    const file = readImportFile(req, res, {
+      fields: MEMBER_IMPORT_FIELDS,
+      required: ["firstName", "lastName"],
+    });
+    if (!file) return;
+
+    let plan;
     try {
-      const result = await pool.query(
-        "UPDATE members SET skills = $1, interests = $2 WHERE id = $3 RETURNING skills, interests",
-        [skills, interests, id],
-      );
-      if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
+      plan = await planMemberImport(pool, file.records, file.mapping);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ error: "Failed to preview import" });
+    }
+
+    const rejected = plan.rows.filter((row) => row.action === "error");
+    if (dryRun !== false) {
+      return res.json({
+        dryRun: true,
+        headers: file.headers,
+        mapping: file.mapping,
+        ...plan,
+      });
+    }
+
+    const planned = plan.rows.map((row) => ({
+      row,
+      action: resolveImportAction(row, resolutions),
+    }));
+    if (
+      planned.some((p) => p.action === "update") &&
+      !hasPermission(req.user.role, "members:update")
+    ) {
+      return res.status(403).json({
+        error: "Insufficient permissions",
+        code: "FORBIDDEN",
+        required: "members:update",
+        role: req.user.role,
+      });
+    }
+
+    const summary = { created: 0, updated: 0, skipped: 0, rejected: rejected.length };
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      for (const { row, action } of planned) {
+        const { member } = row;
+        const metadata = { source: "csv_import", line: row.line };
+
+        if (action === "create") {
+          const memberId = member.id || crypto.randomUUID();
+          const result = await client.query(
+            "INSERT INTO members (id, first_name, last_name, email, telephone, address, city, state, zip, joined_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *",
+            [
+              memberId,
+              member.firstName,
+              member.lastName,
+              member.email,
+              member.telephone,
+              member.address,
+              member.city,
+              member.state,
+              member.zip,
+              member.joinedAt,
+            ],
+          );
+          await recordAuditEvent(client, {
+            actor: req.user,
+            action: "CREATE",
+            entityType: "member",
+            entityId: memberId,
+            after: result.rows[0],
+            metadata,
+          });
+          summary.created++;
+        } else if (action === "update") {
+          // Blank cells keep the stored value rather than clearing it
+          const memberId = row.existingId || row.match.memberId;
+          const beforeResult = await client.query(
+            "SELECT * FROM members WHERE id = $1",
+            [memberId],
+          );
+          const result = await client.query(
+            `UPDATE members SET
+               first_name = COALESCE($1, first_name), last_name = COALESCE($2, last_name),
+               email = COALESCE($3, email), telephone = COALESCE($4, telephone),
+               address = COALESCE($5, address), city = COALESCE($6, city),
+               state = COALESCE($7, state), zip = COALESCE($8, zip),
+               joined_at = COALESCE($9, joined_at), version = version + 1
+             WHERE id = $10 RETURNING *`,
+            [
+              member.firstName,
+              member.lastName,
+              member.email,
+              member.telephone,
+              member.address,
+              member.city,
+              member.state,
+              member.zip,
+              member.joinedAt,
+              memberId,
+            ],
+          );
+          await recordAuditEvent(client, {
+            actor: req.user,
+            action: "UPDATE",
+            entityType: "member",
+            entityId: memberId,
+            before: beforeResult.rows[0],
+            after: result.rows[0],
+            metadata,
+          });
+          summary.updated++;
+        } else if (action === "skip") {
+          summary.skipped++;
+        }
       }
-      res.json(result.rows[0]);
+      await client.query("COMMIT");
     } catch (err) {
+      await client.query("ROLLBACK");
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      return res.status(500).json({ error: "Failed to import members" });
+    } finally {
+      client.release();
     }
+
+    emitEvent("member:update", { type: "IMPORT", data: summary });
+    res.json({ dryRun: false, summary, rejected });
   },
 );
 
-app.delete(
-  "/api/members/:id",
+/**
+ * Writes one planned donation import row, importing it first when it is
+ * ready. Runs inside the import transaction.
+ */
+async function storeDonationImportRow(client, row, { importId, provider, user }) {
+  let donationId = null;
+  let status = row.status;
+
+  if (row.status === "ready") {
+    const donation = await insertImportedDonation(client, row, {
+      provider,
+      importId,
+      enteredBy: user.username,
+    });
+    await recordAuditEvent(client, {
+      actor: user,
+      action: "CREATE",
+      entityType: "donation",
+      entityId: donation.id,
+      after: donation,
+      metadata: { source: provider, importId, line: row.line, matchType: row.matchType },
+    });
+    donationId = donation.id;
+    status = "imported";
+  }
+
+  await client.query(
+    `INSERT INTO donation_import_rows
+       (import_id, line, status, external_id, payer_name, payer_email, amount, donation_date, source_fund, fund,
+        payment_method, notes, member_id, match_type, review_reasons, errors, donation_id, raw)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+    [
+      importId,
+      row.line,
+      status,
+      row.externalId,
+      row.payerName,
+      row.email,
+      row.amount,
+      row.date,
+      row.sourceFund,
+      row.fund,
+      row.paymentMethod,
+      row.notes,
+      row.memberId,
+      row.matchType,
+      row.reviewReasons,
+      row.errors,
+      donationId,
+      row.record,
+    ],
+  );
+  return status;
+}
+
+/**
+ * Marks an import completed once nothing is left in its review queue.
+ */
+async function completeDonationImportIfReviewed(client, importId) {
+  await client.query(
+    `UPDATE donation_imports SET status = 'completed', completed_at = NOW()
+     WHERE id = $1 AND status = 'review'
+       AND NOT EXISTS (SELECT 1 FROM donation_import_rows WHERE import_id = $1 AND status = 'pending')`,
+    [importId],
+  );
+}
+
+app.post(
+  "/api/import/donations",
+  importLimiter,
   authenticateToken,
-  requirePermission("members:delete"),
+  requirePermission("donations:create"),
   async (req, res) => {
-    const { id } = req.params;
+    const { provider = "generic", fileName, dryRun = true } = req.body;
+
+    if (!DONATION_IMPORT_PROFILES[provider]) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: [
+          `INVALID_PROVIDER: Provider must be one of ${Object.keys(DONATION_IMPORT_PROFILES).join(", ")}.`,
+        ],
+      });
+    }
+
+    const file = readImportFile(req, res, {
+      fields: DONATION_IMPORT_FIELDS,
+      required: ["date", "amount"],
+      suggest: (headers) => suggestDonationMapping(headers, provider),
+    });
+    if (!file) return;
+
+    let plan;
     try {
-      const result = await pool.query(
-        "DELETE FROM members WHERE id = $1 RETURNING *",
-        [id],
+      plan = await planDonationImport(pool, file.records, file.mapping, provider);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ error: "Failed to preview import" });
+    }
+
+    if (dryRun !== false) {
+      // Only rejected rows carry the original record (for the error report)
+      return res.json({
+        dryRun: true,
+        provider,
+        headers: file.headers,
+        mapping: file.mapping,
+        summary: plan.summary,
+        rows: plan.rows.map(({ record, ...row }) =>
+          row.status === "error" ? { ...row, record } : row,
+        ),
+      });
+    }
+
+    let importId;
+    let imported = 0;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const importResult = await client.query(
+        `INSERT INTO donation_imports (provider, file_name, total_rows, created_by)
+         VALUES ($1, $2, $3, $4) RETURNING id`,
+        [provider, fileName || null, plan.rows.length, req.user.username],
       );
-      if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
+      importId = importResult.rows[0].id;
+
+      for (const row of plan.rows) {
+        const status = await storeDonationImportRow(client, row, {
+          importId,
+          provider,
+          user: req.user,
+        });
+        if (status === "imported") imported++;
       }
-      emitEvent("member:update", { type: "DELETE", id });
-      res.json({ message: "Member deleted successfully" });
+      await completeDonationImportIfReviewed(client, importId);
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      // Another import recorded one of these transaction IDs since the preview
+      if (err.code === "23505") {
+        return res.status(409).json({
+          error: "DUPLICATE_TRANSACTION",
+          details: ["A transaction in this file was imported while it was being reviewed. Preview it again."],
+        });
+      }
+      console.error(err);
+      return res.status(500).json({ error: "Failed to import donations" });
+    } finally {
+      client.release();
+    }
+
+    try {
+      const donationImport = await getDonationImport(pool, importId);
+      emitEvent("donation:update", { type: "IMPORT", data: { importId: String(importId), imported } });
+      if (imported > 0) {
+        await syncRecurringGifts();
+        await queueImportDonorTasks(importId);
+      }
+      res.status(201).json(donationImport);
     } catch (err) {
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      res.status(500).json({ error: "Failed to fetch import" });
     }
   },
 );
 
 app.get(
-  "/api/donations",
+  "/api/import/donations",
   authenticateToken,
-  requireScopedPermission("donations:read", "donation"),
+  requirePermission("donations:read"),
   async (req, res) => {
-    const { page = 1, limit = 50, memberId, donorFilter, fund, startDate, endDate } = req.query;
-    const offset = (page - 1) * limit;
-
     try {
-      let countQuery = "SELECT COUNT(*) FROM donations";
-      let query = "SELECT * FROM donations";
-      const params = [];
-      const whereClauses = [];
+      res.json(await listDonationImports(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch imports" });
+    }
+  },
+);
 
-      if (req.scopedToOwn && req.user.memberId) {
-        whereClauses.push(`member_id = $${params.length + 1}`);
-        params.push(req.user.memberId);
-      } else if (memberId === "guest" || memberId === "null" || donorFilter === "guest") {
-        whereClauses.push(`member_id IS NULL`);
-      } else if (donorFilter === "members") {
-        whereClauses.push(`member_id IS NOT NULL`);
-      } else if (memberId) {
-        whereClauses.push(`member_id = $${params.length + 1}`);
-        params.push(memberId);
+app.get(
+  "/api/import/donations/:id",
+  authenticateToken,
+  requirePermission("donations:read"),
+  async (req, res) => {
+    try {
+      const donationImport = await getDonationImport(pool, req.params.id, {
+        status: req.query.status,
+      });
+      if (!donationImport) {
+        return res.status(404).json({ error: "Import not found" });
       }
+      res.json(donationImport);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch import" });
+    }
+  },
+);
 
-      if (fund) {
-        whereClauses.push(`fund = $${params.length + 1}`);
-        params.push(fund);
+// Review queue: import a pending row with a chosen member/fund, or skip it
+app.post(
+  "/api/import/donations/:id/rows/:rowId/resolve",
+  authenticateToken,
+  requirePermission("donations:create"),
+  async (req, res) => {
+    const { id, rowId } = req.params;
+    const { action = "import", memberId, fund, saveFundRule = false } = req.body;
+
+    if (!["import", "skip"].includes(action)) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["INVALID_ACTION: Action must be import or skip."],
+      });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const rowResult = await client.query(
+        `SELECT r.*, i.provider FROM donation_import_rows r
+         JOIN donation_imports i ON i.id = r.import_id
+         WHERE r.import_id = $1 AND r.id = $2 FOR UPDATE OF r`,
+        [id, rowId],
+      );
+      if (rowResult.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Import row not found" });
+      }
+      const row = rowResult.rows[0];
+      if (row.status !== "pending") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "ROW_ALREADY_RESOLVED" });
       }
 
-      if (startDate) {
-        whereClauses.push(`donation_date >= $${params.length + 1}`);
-        params.push(startDate);
+      if (action === "skip") {
+        await client.query(
+          `UPDATE donation_import_rows SET status = 'skipped', resolved_by = $1, resolved_at = NOW()
+           WHERE id = $2`,
+          [req.user.username, rowId],
+        );
+      } else {
+        // memberId: omitted keeps the matched member, null or "guest" records a guest gift
+        const errors = [];
+        const isGuest = memberId === null || memberId === "guest";
+        const nextMemberId = isGuest ? null : memberId || row.member_id;
+        if (!isGuest && !nextMemberId) {
+          errors.push("REQUIRED_MEMBER: Choose a member or record the gift as a guest.");
+        }
+        if (nextMemberId) {
+          const memberResult = await client.query("SELECT id FROM members WHERE id = $1", [nextMemberId]);
+          if (memberResult.rows.length === 0) {
+            errors.push("INVALID_MEMBER: Member not found.");
+          }
+        }
+        let nextFund = (typeof fund === "string" && fund.trim()) || row.fund;
+        if (!nextFund) {
+          errors.push("REQUIRED_FUND: Choose a fund for this gift.");
+        } else {
+          const fundResult = await resolveFundName(client, nextFund);
+          if (fundResult.error) errors.push(fundResult.error);
+          nextFund = fundResult.fund;
+        }
+        if (errors.length > 0) {
+          await client.query("ROLLBACK");
+          return res.status(400).json({ error: "VALIDATION_FAILED", details: errors });
+        }
+
+        const donation = await insertImportedDonation(
+          client,
+          {
+            memberId: nextMemberId,
+            amount: row.amount,
+            fund: nextFund,
+            date: row.donation_date,
+            paymentMethod: row.payment_method,
+            notes: row.notes,
+            externalId: row.external_id,
+          },
+          { provider: row.provider, importId: row.import_id, enteredBy: req.user.username },
+        );
+        const matchType = isGuest ? "guest" : nextMemberId === row.member_id ? row.match_type : "manual";
+        await client.query(
+          `UPDATE donation_import_rows
+           SET status = 'imported', member_id = $1, fund = $2, match_type = $3, donation_id = $4,
+               resolved_by = $5, resolved_at = NOW()
+           WHERE id = $6`,
+          [nextMemberId, nextFund, matchType, donation.id, req.user.username, rowId],
+        );
+        if (saveFundRule && row.source_fund && nextFund !== row.fund) {
+          await client.query(
+            `INSERT INTO fund_mapping_rules (provider, match_value, fund, created_by)
+             VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING`,
+            [row.provider, row.source_fund, nextFund, req.user.username],
+          );
+        }
+        await recordAuditEvent(client, {
+          actor: req.user,
+          action: "CREATE",
+          entityType: "donation",
+          entityId: donation.id,
+          after: donation,
+          metadata: { source: row.provider, importId: row.import_id, line: row.line, matchType },
+        });
       }
 
-      if (endDate) {
-        const formattedEndDate = endDate.includes("T") ? endDate : `${endDate}T23:59:59.999Z`;
-        whereClauses.push(`donation_date <= $${params.length + 1}`);
-        params.push(formattedEndDate);
+      await completeDonationImportIfReviewed(client, id);
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      if (err.code === "23505") {
+        return res.status(409).json({ error: "DUPLICATE_TRANSACTION" });
       }
+      console.error(err);
+      return res.status(500).json({ error: "Failed to resolve import row" });
+    } finally {
+      client.release();
+    }
 
-      if (whereClauses.length > 0) {
-        const whereString = " WHERE " + whereClauses.join(" AND ");
-        query += whereString;
-        countQuery += whereString;
+    try {
+      const donationImport = await getDonationImport(pool, id);
+      if (action === "import") {
+        emitEvent("donation:update", { type: "IMPORT", data: { importId: String(id), imported: 1 } });
+        await syncRecurringGifts();
+        await queueImportDonorTasks(id);
       }
+      res.json(donationImport);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch import" });
+    }
+  },
+);
 
-      query += ` ORDER BY donation_date DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+// Fund mapping rules (provider fund text → our fund)
+app.get(
+  "/api/import/fund-rules",
+  authenticateToken,
+  requirePermission("donations:read"),
+  async (req, res) => {
+    try {
+      const result = await pool.query(
+        "SELECT * FROM fund_mapping_rules ORDER BY provider NULLS FIRST, lower(match_value)",
+      );
+      res.json(result.rows.map(mapFundRule));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch fund rules" });
+    }
+  },
+);
 
-      const countResult = await pool.query(countQuery, params);
-      const total = parseInt(countResult.rows[0].count);
+app.post(
+  "/api/import/fund-rules",
+  authenticateToken,
+  requirePermission("donations:update"),
+  async (req, res) => {
+    const { provider, matchValue, fund } = req.body;
+    const errors = [];
+    if (provider && !DONATION_IMPORT_PROFILES[provider]) {
+      errors.push("INVALID_PROVIDER: Unknown import provider.");
+    }
+    if (!matchValue || typeof matchValue !== "string" || !matchValue.trim()) {
+      errors.push("REQUIRED_MATCH_VALUE: Enter the provider's fund text to match.");
+    }
+    if (!fund || typeof fund !== "string" || !fund.trim()) {
+      errors.push("REQUIRED_FUND: Choose the fund to record gifts under.");
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: errors });
+    }
 
-      params.push(limit, offset);
-      const result = await pool.query(query, params);
+    try {
+      const fundResult = await resolveFundName(pool, fund);
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
+      }
+      const result = await pool.query(
+        `INSERT INTO fund_mapping_rules (provider, match_value, fund, created_by)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [provider || null, matchValue.trim(), fundResult.fund, req.user.username],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "fund_rule",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      res.status(201).json(mapFundRule(result.rows[0]));
+    } catch (err) {
+      if (err.code === "23505") {
+        return res.status(409).json({ error: "DUPLICATE_RULE" });
+      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to create fund rule" });
+    }
+  },
+);
 
-      res.json({
-        data: result.rows.map((row) => ({
-          id: row.id.toString(),
-          memberId: row.member_id,
-          amount: parseFloat(row.amount),
-          fund: row.fund,
-          notes: row.notes,
-          enteredBy: row.entered_by,
-          date: row.donation_date,
-          timestamp: row.donation_date,
-        })),
-        pagination: {
-          total,
-          page: parseInt(page),
-          limit: parseInt(limit),
-          totalPages: Math.ceil(total / limit),
-        },
+app.delete(
+  "/api/import/fund-rules/:id",
+  authenticateToken,
+  requirePermission("donations:update"),
+  async (req, res) => {
+    try {
+      const result = await pool.query(
+        "DELETE FROM fund_mapping_rules WHERE id = $1 RETURNING *",
+        [req.params.id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Fund rule not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "fund_rule",
+        entityId: req.params.id,
+        before: result.rows[0],
       });
+      res.json({ message: "Fund rule deleted successfully" });
     } catch (err) {
       console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      res.status(500).json({ error: "Failed to delete fund rule" });
     }
   },
 );
 
-// NOTE: /summary MUST come before /:id to avoid "summary" being matched as an ID parameter
 app.get(
-  "/api/donations/summary",
+  "/api/members/:id",
   authenticateToken,
-  requireScopedPermission("donations:read", "donation"),
+  requireScopedPermission("members:read", "member", (req) => req.params.id),
   async (req, res) => {
+    const { id } = req.params;
     try {
-      // 1. All-time Totals
-      let allTimeQuery = `
-        SELECT
-          SUM(amount) as total,
-          COUNT(*) as count,
-          COUNT(DISTINCT member_id) as donor_count
-        FROM donations
-      `;
-      let allTimeParams = [];
-      if (req.scopedToOwn && req.user.memberId) {
-        allTimeQuery += " WHERE member_id = $1";
-        allTimeParams.push(req.user.memberId);
-      }
-      const allTimeResult = await pool.query(allTimeQuery, allTimeParams);
-      const allTime = allTimeResult.rows[0];
-
-      // 2. Current/Last Month and Current Year
-      const monthParams = [...allTimeParams];
-      let monthQuery = `
-        SELECT 
-          SUM(CASE WHEN donation_date >= date_trunc('month', CURRENT_DATE) THEN amount ELSE 0 END) as current_month,
-          SUM(CASE WHEN donation_date >= date_trunc('month', CURRENT_DATE - INTERVAL '1 month') 
-                    AND donation_date < date_trunc('month', CURRENT_DATE) THEN amount ELSE 0 END) as last_month,
-          SUM(CASE WHEN donation_date >= date_trunc('year', CURRENT_DATE) THEN amount ELSE 0 END) as current_year
-        FROM donations
-      `;
-      if (req.scopedToOwn && req.user.memberId) {
-        monthQuery += " WHERE member_id = $1";
-      }
-      const monthResult = await pool.query(monthQuery, monthParams);
-      const monthly = monthResult.rows[0];
-
-      // 3. Members Count & Weekly Growth
-      const totalMembersResult = await pool.query(
-        "SELECT COUNT(*) as total FROM members",
-      );
-      const newMembersResult = await pool.query(
-        "SELECT COUNT(*) as new_this_week FROM members WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'",
-      );
-
-      // 4. Avg Donation Trend (last 30 days vs 30-60 days ago)
-      let trendQuery = `
-        SELECT 
-          AVG(CASE WHEN donation_date >= CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE NULL END) as avg_recent,
-          AVG(CASE WHEN donation_date >= CURRENT_DATE - INTERVAL '60 days' AND donation_date < CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE NULL END) as avg_previous
-        FROM donations
-      `;
-      if (req.scopedToOwn && req.user.memberId) {
-        trendQuery += " WHERE member_id = $1";
-      }
-      const trendResult = await pool.query(trendQuery, allTimeParams);
-      const trends = trendResult.rows[0];
-
-      // 5. Fund Distribution (All-Time)
-      let fundDistQuery = `
-        SELECT fund, SUM(amount) as total
-        FROM donations
-      `;
-      if (req.scopedToOwn && req.user.memberId) {
-        fundDistQuery += " WHERE member_id = $1";
-      }
-      fundDistQuery += " GROUP BY fund ORDER BY total DESC";
-      const fundDistResult = await pool.query(fundDistQuery, allTimeParams);
-      const fundDistribution = fundDistResult.rows.map(row => ({
-        name: row.fund,
-        value: parseFloat(row.total)
-      }));
-
-      const totalDonations = parseFloat(allTime.total) || 0;
-      const donationCount = parseInt(allTime.count) || 0;
-      const donorCount = parseInt(allTime.donor_count) || 0;
-      const avgDonation = totalDonations / (donationCount || 1);
-
-      res.json({
-        totalDonations,
-        donationCount,
-        donorCount,
-        avgDonation,
-        totalMembers: parseInt(totalMembersResult.rows[0].total),
-        newMembersThisWeek: parseInt(newMembersResult.rows[0].new_this_week),
-        currentMonthDonations: parseFloat(monthly.current_month) || 0,
-        lastMonthDonations: parseFloat(monthly.last_month) || 0,
-        currentYearDonations: parseFloat(monthly.current_year) || 0,
-        avgRecent: parseFloat(trends.avg_recent) || 0,
-        avgPrevious: parseFloat(trends.avg_previous) || 0,
-        fundDistribution,
-      });
-    } catch (err) {
-      console.error(err);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  },
-);
-
-// stewardship insight
-app.post(
-  "/api/ai/stewardship-insight",
-  authenticateToken,
-  requirePermission("reports:read"),
-  async (req, res) => {
-    const startTime = Date.now();
-    try {
-      const { donations, members } = req.body;
-      if (!donations || !members) {
-        return res
-          .status(400)
-          .json({ error: "Donations and members are required" });
-      }
-
-      console.log(`[API] AI Stewardship Insight requested for ${donations.length} donations.`);
-      const insight = await getFinancialSummary(donations, members);
-      const duration = Date.now() - startTime;
-      console.log(`[API] AI Stewardship Insight generated in ${duration}ms.`);
-      
-      res.json({ insight });
-    } catch (err) {
-      console.error("[API] AI Insight error:", err);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  },
-);
-
-app.get(
-  "/api/donations/:id",
-  authenticateToken,
-  requireScopedPermission("donations:read", "donation"),
-  async (req, res) => {
-    const { id } = req.params;
-    try {
-      const result = await pool.query("SELECT * FROM donations WHERE id = $1", [
+      const result = await pool.query("SELECT * FROM members WHERE id = $1", [
         id,
       ]);
       if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Donation not found" });
+        return res.status(404).json({ error: "Member not found" });
       }
       const row = result.rows[0];
-
-      // Ownership check for non-global actors
-      if (req.scopedToOwn && row.member_id !== req.user.memberId) {
-        return res
-          .status(403)
-          .json({ error: "Access denied to this donation" });
-      }
+      res.set("ETag", formatETag(row.version));
       res.json({
-        id: row.id.toString(),
-        memberId: row.member_id,
-        amount: parseFloat(row.amount),
-        fund: row.fund,
-        notes: row.notes,
-        enteredBy: row.entered_by,
-        date: row.donation_date,
-        timestamp: row.donation_date,
+        id: row.id,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        telephone: row.telephone,
+        address: row.address,
+        city: row.city,
+        state: row.state,
+        zip: row.zip,
+        familyId: row.family_id,
+        joinedAt: row.joined_at,
+        acknowledgmentOptOut: row.acknowledgment_opt_out === true,
+        createdAt: row.created_at,
+        version: row.version,
       });
     } catch (err) {
       console.error(err);
@@ -1276,35 +1982,67 @@ app.get(
 );
 
 app.post(
-  "/api/donations",
+  "/api/members",
   authenticateToken,
-  requirePermission("donations:create"),
+  requirePermission("members:create"),
   async (req, res) => {
-    const { memberId, amount, fund, notes, donationDate, date } = req.body;
-    // SECURITY: Donor-supplied input — no enteredBy or other internal fields allowed
-    if (amount === undefined || amount === null) {
-      return res.status(400).json({ error: "VALIDATION_FAILED", details: ["amount is required"] });
-    }
-    if (typeof amount !== "number" || amount <= 0) {
-      return res.status(400).json({ error: "INVALID_AMOUNT", details: ["Amount must be a positive number"] });
+    const {
+      id,
+      firstName,
+      lastName,
+      email,
+      telephone,
+      address,
+      city,
+      state,
+      zip,
+      familyId,
+      joinedAt,
+    } = req.body;
+
+    // High-priority validation check
+    const validation = validateMember({
+      firstName,
+      lastName,
+      email,
+      telephone,
+      state,
+      zip,
+    });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
     }
-    // Enforce max 2 decimal places for currency
-    const numericAmount = parseFloat(amount.toFixed(2));
-    const safeFund = (fund && typeof fund === "string" && fund.trim()) ? fund.trim() : "General";
-    const dbMemberId = (!memberId || memberId === "guest" || memberId === "null") ? null : memberId;
+
+    const memberId = id || crypto.randomUUID();
+
     try {
       const result = await pool.query(
-        "INSERT INTO donations (member_id, amount, fund, notes, entered_by, donation_date) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *",
+        "INSERT INTO members (id, first_name, last_name, email, telephone, address, city, state, zip, family_id, joined_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *",
         [
-          dbMemberId,
-          numericAmount,
-          safeFund,
-          notes || null,
-          req.user.username,
-          donationDate || date || new Date(),
+          memberId,
+          firstName,
+          lastName,
+          email,
+          telephone,
+          address,
+          city,
+          state,
+          zip,
+          familyId || null,
+          joinedAt || null,
         ],
       );
-      emitEvent("donation:update", { type: "CREATE", data: result.rows[0] });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "member",
+        entityId: memberId,
+        after: result.rows[0],
+      });
+      emitEvent("member:update", { type: "CREATE", data: result.rows[0], by: req.user.username });
       res.status(201).json(result.rows[0]);
     } catch (err) {
       console.error(err);
@@ -1314,87 +2052,127 @@ app.post(
 );
 
 app.put(
-
-  "/api/donations/:id",
-
+  "/api/members/:id",
   authenticateToken,
-
-  requireScopedPermission("donations:update", "donation"),
-
+  requireScopedPermission("members:update", "member", (req) => req.params.id),
   async (req, res) => {
-
     const { id } = req.params;
+    const {
+      firstName,
+      lastName,
+      email,
+      telephone,
+      address,
+      city,
+      state,
+      zip,
+      familyId,
+      joinedAt,
+      acknowledgmentOptOut,
+    } = req.body;
 
-    // SECURITY: Whitelist fields — removed enteredBy (mass assignment risk)
-    const { amount, fund, notes, donationDate } = req.body;
-
-    // Validate amount if provided
-    let numericAmount = undefined;
-    if (amount !== undefined && amount !== null) {
-      if (typeof amount !== "number" || amount <= 0 || isNaN(amount)) {
-        return res.status(400).json({ error: "INVALID_AMOUNT", details: ["Amount must be a positive number"] });
-      }
-      numericAmount = parseFloat(amount.toFixed(2));
+    const validation = validateMember({
+      firstName,
+      lastName,
+      email,
+      telephone,
+      state,
+      zip,
+    });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
     }
-
-    // Build dynamic update set — only include fields that were provided
-    const queryFields = [];
-    const queryParams = [];
-    let paramIndex = 1;
-    
-    if (numericAmount !== undefined) { 
-      queryFields.push(`amount = $${paramIndex++}`); 
-      queryParams.push(numericAmount); 
-    }
-    if (fund !== undefined && fund !== null) { 
-      queryFields.push(`fund = $${paramIndex++}`); 
-      queryParams.push(fund); 
-    }
-    if (notes !== undefined && notes !== null) { 
-      queryFields.push(`notes = $${paramIndex++}`); 
-      queryParams.push(notes); 
-    }
-    if (donationDate !== undefined && donationDate !== null) { 
-      queryFields.push(`donation_date = $${paramIndex++}`); 
-      queryParams.push(donationDate); 
-    }
-
-    if (queryFields.length === 0) {
-      return res.status(400).json({ error: "No valid fields to update" });
-    }
-
-    // Admins can update entered_by; non-admins cannot
-    if (hasPermission(req.user.role, "donations:update") && req.scopedToOwn === false) {
-      queryFields.push(`entered_by = $${paramIndex++}`);
-      // Only set entered_by for admin role — never from user input
-      queryParams.push(req.user.username);
+    const expectedVersion = parseIfMatch(req.get("If-Match"));
+    if (expectedVersion === undefined) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["IF_MATCH: If-Match must be a member version, e.g. \"3\""],
+      });
     }
 
     try {
-      // If scoped to own, verify ownership first
-      if (!hasPermission(req.user.role, "donations:update")) {
-        const checkRes = await pool.query(
-          "SELECT member_id FROM donations WHERE id = $1",
-          [id],
-        );
-        if (
-          checkRes.rows.length > 0 &&
-          checkRes.rows[0].member_id !== req.user.memberId
-        ) {
-          return res.status(403).json({ error: "Access denied" });
+      const beforeResult = await pool.query(
+        "SELECT * FROM members WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (expectedVersion !== null && beforeResult.rows[0].version !== expectedVersion) {
+        return res
+          .status(409)
+          .json(versionConflict("member", beforeResult.rows[0], expectedVersion));
+      }
+      // Members editing their own record cannot move household or change
+      // their join date; a household grants access to its combined giving
+      const before = beforeResult.rows[0];
+      const ownRecordOnly = !hasPermission(req.user.role, "members:update");
+      // The version guard is repeated in the UPDATE so a save that lands
+      // between the check above and this statement is still caught
+      const result = await pool.query(
+        "UPDATE members SET first_name = $1, last_name = $2, email = $3, telephone = $4, address = $5, city = $6, state = $7, zip = $8, family_id = $9, joined_at = $10, acknowledgment_opt_out = COALESCE($12, acknowledgment_opt_out), version = version + 1 WHERE id = $11 AND ($13::int IS NULL OR version = $13) RETURNING *",
+        [
+          firstName,
+          lastName,
+          email,
+          telephone,
+          address,
+          city,
+          state,
+          zip,
+          ownRecordOnly ? before.family_id : familyId || null,
+          ownRecordOnly ? before.joined_at : joinedAt || null,
+          id,
+          // Left out by older clients: keep the member's current choice
+          typeof acknowledgmentOptOut === "boolean" ? acknowledgmentOptOut : null,
+          expectedVersion,
+        ],
+      );
+      if (result.rows.length === 0) {
+        const current = await pool.query("SELECT * FROM members WHERE id = $1", [id]);
+        if (current.rows.length === 0) {
+          return res.status(404).json({ error: "Member not found" });
         }
+        return res
+          .status(409)
+          .json(versionConflict("member", current.rows[0], expectedVersion));
       }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "member",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+      });
+      emitEvent("member:update", { type: "UPDATE", data: result.rows[0], by: req.user.username });
+      res.set("ETag", formatETag(result.rows[0].version));
+      res.json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
 
-
-
+// ServantHeart: Get Member Skills & Interests
+app.get(
+  "/api/members/:id/skills",
+  authenticateToken,
+  requireScopedPermission("members:read", "member", (req) => req.params.id),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
       const result = await pool.query(
-        `UPDATE donations SET ${queryFields.join(", ")} WHERE id = $${paramIndex} RETURNING *`,
-        [...queryParams, id],
+        "SELECT skills, interests FROM members WHERE id = $1",
+        [id],
       );
       if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Donation not found" });
+        return res.status(404).json({ error: "Member not found" });
       }
-      emitEvent("donation:update", { type: "UPDATE", data: result.rows[0] });
       res.json(result.rows[0]);
     } catch (err) {
       console.error(err);
@@ -1403,36 +2181,84 @@ app.put(
   },
 );
 
-app.delete(
-  "/api/donations/:id",
+// ServantHeart: Update Member Skills & Interests
+app.put(
+  "/api/members/:id/skills",
   authenticateToken,
-  requireScopedPermission("donations:delete", "donation"),
+  requireScopedPermission("members:update", "member", (req) => req.params.id),
   async (req, res) => {
     const { id } = req.params;
+    const { skills, interests } = req.body;
+    const expectedVersion = parseIfMatch(req.get("If-Match"));
+    if (expectedVersion === undefined) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["IF_MATCH: If-Match must be a member version, e.g. \"3\""],
+      });
+    }
     try {
-      // If scoped to own, verify ownership first
-      if (!hasPermission(req.user.role, "donations:delete")) {
-        const checkRes = await pool.query(
-          "SELECT member_id FROM donations WHERE id = $1",
-          [id],
-        );
-        if (
-          checkRes.rows.length > 0 &&
-          checkRes.rows[0].member_id !== req.user.memberId
-        ) {
-          return res.status(403).json({ error: "Access denied" });
+      const beforeResult = await pool.query(
+        "SELECT skills, interests, version FROM members WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      // Bumps the version like a full edit so forms holding the old copy get a 409
+      const result = await pool.query(
+        "UPDATE members SET skills = $1, interests = $2, version = version + 1 WHERE id = $3 AND ($4::int IS NULL OR version = $4) RETURNING skills, interests, version",
+        [skills, interests, id, expectedVersion],
+      );
+      if (result.rows.length === 0) {
+        const current = await pool.query("SELECT * FROM members WHERE id = $1", [id]);
+        if (current.rows.length === 0) {
+          return res.status(404).json({ error: "Member not found" });
         }
+        return res
+          .status(409)
+          .json(versionConflict("member", current.rows[0], expectedVersion));
       }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "member",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+        metadata: { scope: "skills" },
+      });
+      res.set("ETag", formatETag(result.rows[0].version));
+      res.json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
 
+app.delete(
+  "/api/members/:id",
+  authenticateToken,
+  requirePermission("members:delete"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
       const result = await pool.query(
-        "DELETE FROM donations WHERE id = $1 RETURNING *",
+        "DELETE FROM members WHERE id = $1 RETURNING *",
         [id],
       );
       if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Donation not found" });
+        return res.status(404).json({ error: "Member not found" });
       }
-      emitEvent("donation:update", { type: "DELETE", id });
-      res.json({ message: "Donation deleted successfully" });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "member",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("member:update", { type: "DELETE", id, by: req.user.username });
+      res.json({ message: "Member deleted successfully" });
     } catch (err) {
       console.error(err);
       res.status(500).json({ error: "Internal server error" });
@@ -1440,258 +2266,350 @@ app.delete(
   },
 );
 
-const {
-  generateBatchStatement,
-  exportTransactions,
-  getAtRiskDonors,
-  getMemberStatement,
-} = require("./reports");
+// ==========================================
+// HOUSEHOLDS API
+// ==========================================
 
-const {
-  generateMemberReportPDF,
-  generateAnnualStatementPDF,
-} = require("./reports/memberReport");
+const HOUSEHOLD_COLUMNS = {
+  name: "name",
+  salutation: "salutation",
+  headMemberId: "head_member_id",
+  address: "address",
+  city: "city",
+  state: "state",
+  zip: "zip",
+  jointStatements: "joint_statements",
+};
 
-console.log("--- REPORT HANDLER TYPES ---");
-console.log("generateBatchStatement:", typeof generateBatchStatement);
-console.log("exportTransactions:", typeof exportTransactions);
-console.log("getAtRiskDonors:", typeof getAtRiskDonors);
+// Replaces a household's membership and checks the head belongs to it.
+// Runs inside the caller's transaction; returns an error message or null.
+async function setHouseholdMembers(client, householdId, memberIds, headMemberId) {
+  if (memberIds !== undefined) {
+    await client.query(
+      "UPDATE members SET family_id = NULL, version = version + 1 WHERE family_id = $1 AND NOT (id = ANY($2::text[]))",
+      [householdId, memberIds],
+    );
+    // Members already in the household keep their version
+    const linked = await client.query(
+      `UPDATE members SET family_id = $1,
+         version = version + CASE WHEN family_id IS DISTINCT FROM $1 THEN 1 ELSE 0 END
+       WHERE id = ANY($2::text[]) RETURNING id`,
+      [householdId, memberIds],
+    );
+    if (linked.rows.length !== new Set(memberIds).size) {
+      return "One or more members were not found";
+    }
+  }
+  if (headMemberId) {
+    const head = await client.query(
+      "SELECT family_id FROM members WHERE id = $1",
+      [headMemberId],
+    );
+    if (head.rows.length === 0 || head.rows[0].family_id !== householdId) {
+      return "INVALID_HEAD: The head of household must be one of its members.";
+    }
+  }
+  return null;
+}
 
 app.get(
-  "/api/reports/statements",
+  "/api/households",
   authenticateToken,
-  requirePermission("reports:export"),
+  requirePermission("members:read"),
   async (req, res) => {
-    console.log("GET /api/reports/statements hit");
-
-    const { year } = req.query;
-    if (!year) return res.status(400).json({ error: "Year is required" });
-
     try {
-      // Set headers first, assuming success. If DB fails, we try to send JSON error but it might fail if headers sent?
-      // Actually, `generateBatchStatement` does DB query FIRST, then pipes.
-      // Wait, if I set headers here, and DB fails in `generateBatchStatement` before piping, can I overwrite headers?
-      // Express allows `res.status(500)` even if `res.setHeader()` was called but body not sent.
-      // However, if we pipe, headers are sent.
-
-      // We will let generateBatchStatement handle piping.
-      // Ideally we set headers only after DB query succeeds inside `generateBatchStatement`.
-      // But `generateBatchStatement` as refactored does query -> pipe.
-      // So we can set headers here.
-
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=statements-${year}.pdf`,
-      );
-
-      await generateBatchStatement(pool, year, res);
+      const { search, page, limit } = req.query;
+      res.json(await listHouseholds(pool, { search, page, limit }));
     } catch (err) {
-      console.error("PDF Generation Error:", err);
-      console.error("Stack:", err.stack);
-      if (!res.headersSent) {
-        res
-          .status(500)
-          .json({ error: `Server Error: ${err.message}`, stack: err.stack });
-      } else {
-        // If headers sent, we can't send JSON. End the stream to prevent hang.
-        res.end();
-      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch households" });
     }
   },
 );
 
 app.get(
-  "/api/reports/member-statement/:id",
+  "/api/households/:id",
   authenticateToken,
-  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  requirePermission("members:read"),
   async (req, res) => {
-    const { id } = req.params;
-    const { year, format } = req.query;
-
-    if (!year) {
-      return res.status(400).json({ error: "Year is required" });
-    }
-
     try {
-      const statement = await getMemberStatement(pool, id, year);
-
-      if (!statement) {
-        return res.status(404).json({ error: "Member not found" });
-      }
-
-      if (format === "pdf") {
-        const narrative = await generateMemberNarrative(
-          statement.member,
-          statement.donations,
-          year,
-        );
-
-        res.setHeader("Content-Type", "application/pdf");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename=statement-${year}-${statement.member.lastName}.pdf`,
-        );
-
-        return generateAnnualStatementPDF(
-          statement.member,
-          statement.donations,
-          statement.summary,
-          narrative,
-          res,
-        );
+      const household = await getHousehold(pool, req.params.id);
+      if (!household) {
+        return res.status(404).json({ error: "Household not found" });
       }
-
-      res.json(statement);
+      res.json(household);
     } catch (err) {
-      console.error("Member statement error:", err);
-      if (!res.headersSent) {
-        res.status(500).json({ error: "Failed to generate member statement" });
-      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch household" });
     }
   },
 );
 
-app.get(
-  "/api/reports/member-narrative/:id",
+app.post(
+  "/api/households",
   authenticateToken,
-  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  requirePermission("members:create"),
   async (req, res) => {
-    const { id } = req.params;
-    const { year } = req.query;
-
-    if (!year) {
-      return res.status(400).json({ error: "Year is required" });
+    const validation = validateHousehold(req.body);
+    if (!validation.isValid) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: validation.errors });
     }
 
-    try {
-      const statement = await getMemberStatement(pool, id, year);
-      if (!statement)
-        return res.status(404).json({ error: "Member not found" });
+    const { name, salutation, headMemberId, address, city, state, zip, jointStatements } = req.body;
+    const memberIds = req.body.memberIds || [];
+    const householdId = crypto.randomUUID();
 
-      const narrative = await generateMemberNarrative(
-        statement.member,
-        statement.donations,
-        year,
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO households (id, name, salutation, address, city, state, zip, joint_statements)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          householdId,
+          name.trim(),
+          salutation || null,
+          address || null,
+          city || null,
+          state || null,
+          zip || null,
+          jointStatements !== false,
+        ],
       );
-      res.json({ narrative });
+      const membershipError = await setHouseholdMembers(client, householdId, memberIds, headMemberId);
+      if (membershipError) {
+        await client.query("ROLLBACK");
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: [membershipError] });
+      }
+      if (headMemberId) {
+        await client.query(
+          "UPDATE households SET head_member_id = $1 WHERE id = $2",
+          [headMemberId, householdId],
+        );
+      }
+      await client.query("COMMIT");
     } catch (err) {
-      console.error("Member narrative error:", err);
-      res.status(500).json({ error: "Failed to generate narrative" });
+      await client.query("ROLLBACK");
+      console.error(err);
+      return res.status(500).json({ error: "Failed to create household" });
+    } finally {
+      client.release();
     }
-  },
-);
-
-app.get(
-  "/api/reports/export",
-  authenticateToken,
-  requirePermission("reports:export"),
-  async (req, res) => {
-    const { year } = req.query;
-    if (!year) return res.status(400).json({ error: "Year is required" });
 
     try {
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=donations-${year}.csv`,
-      );
-
-      await exportTransactions(pool, year, res);
+      const household = await getHousehold(pool, householdId);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "household",
+        entityId: householdId,
+        after: household,
+      });
+      emitEvent("household:update", { type: "CREATE", data: household });
+      res.status(201).json(household);
     } catch (err) {
       console.error(err);
-      // Note: If headers are already sent (streaming started), this might fail to send JSON error.
-      if (!res.headersSent) {
-        res.status(500).json({ error: "Internal server error generating CSV" });
-      }
+      res.status(500).json({ error: "Failed to fetch household" });
     }
   },
 );
 
-// Phase 2: Missing Email Report
-app.get(
-  "/api/reports/missing-emails",
+app.put(
+  "/api/households/:id",
   authenticateToken,
-  requirePermission("reports:read"),
+  requirePermission("members:update"),
   async (req, res) => {
+    const { id } = req.params;
+    const validation = validateHousehold(req.body, { partial: true });
+    if (!validation.isValid) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: validation.errors });
+    }
+
+    const queryFields = [];
+    const queryParams = [];
+    Object.entries(HOUSEHOLD_COLUMNS).forEach(([field, column]) => {
+      if (req.body[field] !== undefined) {
+        queryFields.push(`${column} = $${queryParams.length + 1}`);
+        queryParams.push(req.body[field] === "" ? null : req.body[field]);
+      }
+    });
+    const { memberIds, headMemberId } = req.body;
+    if (queryFields.length === 0 && memberIds === undefined) {
+      return res.status(400).json({ error: "No valid fields to update" });
+    }
+
+    let before;
+    const client = await pool.connect();
     try {
-      const result = await pool.query(`
-      SELECT id, first_name, last_name, address, city, state, created_at
-      FROM members
-      WHERE email IS NULL OR email = ''
-      ORDER BY last_name, first_name
-    `);
-      res.json(result.rows);
+      before = await getHousehold(client, id);
+      if (!before) {
+        return res.status(404).json({ error: "Household not found" });
+      }
+
+      await client.query("BEGIN");
+      const membershipError = await setHouseholdMembers(
+        client,
+        id,
+        memberIds,
+        headMemberId !== undefined ? headMemberId : (memberIds !== undefined ? before.headMemberId : null),
+      );
+      if (membershipError) {
+        await client.query("ROLLBACK");
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: [membershipError] });
+      }
+      if (queryFields.length > 0) {
+        await client.query(
+          `UPDATE households SET ${queryFields.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = $${queryParams.length + 1}`,
+          [...queryParams, id],
+        );
+      }
+      await client.query("COMMIT");
     } catch (err) {
-      console.error("Missing emails report error:", err);
-      res.status(500).json({ error: "Failed to fetch missing emails report" });
+      await client.query("ROLLBACK");
+      console.error(err);
+      return res.status(500).json({ error: "Failed to update household" });
+    } finally {
+      client.release();
     }
-  },
-);
 
-// Phase 2: New Donor List (Last 30 Days)
-app.get(
-  "/api/reports/new-donors",
-  authenticateToken,
-  requirePermission("reports:read"),
-  async (req, res) => {
     try {
-      const result = await pool.query(`
-      SELECT 
-        m.id, m.first_name, m.last_name, m.email, m.address, m.created_at,
-        COALESCE(SUM(d.amount), 0) as total_donated,
-        COUNT(d.id) as donation_count
-      FROM members m
-      LEFT JOIN donations d ON m.id = d.member_id
-      WHERE m.created_at > NOW() - INTERVAL '30 days'
-      GROUP BY m.id
-      ORDER BY m.created_at DESC
-    `);
-      res.json(result.rows);
+      const household = await getHousehold(pool, id);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "household",
+        entityId: id,
+        before,
+        after: household,
+      });
+      emitEvent("household:update", { type: "UPDATE", data: household });
+      res.json(household);
     } catch (err) {
-      console.error("New donors report error:", err);
-      res.status(500).json({ error: "Failed to fetch new donors report" });
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch household" });
     }
   },
 );
 
-// Phase 3: Top 10 Fund Distributions
-app.get(
-  "/api/reports/fund-distribution",
+// Deleting a household unlinks its members (family_id is set to NULL)
+app.delete(
+  "/api/households/:id",
   authenticateToken,
-  requirePermission("reports:read"),
+  requirePermission("members:delete"),
   async (req, res) => {
-    const { year } = req.query;
-    if (!year) return res.status(400).json({ error: "Year is required" });
-
+    const { id } = req.params;
     try {
       const result = await pool.query(
-        `
-      SELECT fund, SUM(amount) as total
-      FROM donations
-      WHERE EXTRACT(YEAR FROM donation_date) = $1
-      GROUP BY fund
-      ORDER BY total DESC
-      LIMIT 10
-    `,
-        [year],
+        "DELETE FROM households WHERE id = $1 RETURNING *",
+        [id],
       );
-      res.json(result.rows);
-    } catch (err) {}
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Household not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "household",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("household:update", { type: "DELETE", id });
+      res.json({ message: "Household deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete household" });
+    }
   },
 );
 
-// ServantHeart: Manage Ministry Opportunities
 app.get(
-  "/api/opportunities",
+  "/api/donations",
   authenticateToken,
-  requirePermission("members:read"),
+  requireScopedPermission("donations:read", "donation"),
   async (req, res) => {
+    const { page = 1, limit = 50, memberId, donorFilter, fund, startDate, endDate, batchId, paymentMethod, source } = req.query;
+    const offset = (page - 1) * limit;
+
     try {
-      const result = await pool.query(
-        "SELECT * FROM ministry_opportunities ORDER BY created_at DESC",
-      );
-      res.json(result.rows);
+      let countQuery = "SELECT COUNT(*) FROM donations";
+      let query = "SELECT * FROM donations";
+      const params = [];
+      const whereClauses = [];
+
+      if (req.scopedToOwn && req.user.memberId) {
+        whereClauses.push(`member_id = $${params.length + 1}`);
+        params.push(req.user.memberId);
+      } else if (memberId === "guest" || memberId === "null" || donorFilter === "guest") {
+        whereClauses.push(`member_id IS NULL`);
+      } else if (donorFilter === "members") {
+        whereClauses.push(`member_id IS NOT NULL`);
+      } else if (memberId) {
+        whereClauses.push(`member_id = $${params.length + 1}`);
+        params.push(memberId);
+      }
+
+      if (fund) {
+        whereClauses.push(`fund = $${params.length + 1}`);
+        params.push(fund);
+      }
+
+      if (batchId && /^\d+$/.test(batchId)) {
+        whereClauses.push(`batch_id = $${params.length + 1}`);
+        params.push(batchId);
+      }
+
+      if (paymentMethod) {
+        whereClauses.push(`payment_method = $${params.length + 1}`);
+        params.push(paymentMethod);
+      }
+
+      if (source) {
+        whereClauses.push(`source = $${params.length + 1}`);
+        params.push(source);
+      }
+
+      if (startDate) {
+        whereClauses.push(`donation_date >= $${params.length + 1}`);
+        params.push(startDate);
+      }
+
+      if (endDate) {
+        const formattedEndDate = endDate.includes("T") ? endDate : `${endDate}T23:59:59.999Z`;
+        whereClauses.push(`donation_date <= $${params.length + 1}`);
+        params.push(formattedEndDate);
+      }
+
+      if (whereClauses.length > 0) {
+        const whereString = " WHERE " + whereClauses.join(" AND ");
+        query += whereString;
+        countQuery += whereString;
+      }
+
+      query += ` ORDER BY donation_date DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+
+      const countResult = await pool.query(countQuery, params);
+      const total = parseInt(countResult.rows[0].count);
+
+      params.push(limit, offset);
+      const result = await pool.query(query, params);
+
+      res.json({
+        data: result.rows.map(mapDonationRow),
+        pagination: {
+          total,
+          page: parseInt(page),
+          limit: parseInt(limit),
+          totalPages: Math.ceil(total / limit),
+        },
+      });
     } catch (err) {
       console.error(err);
       res.status(500).json({ error: "Internal server error" });
@@ -1699,858 +2617,5217 @@ app.get(
   },
 );
 
-app.post(
-  "/api/opportunities",
+// NOTE: /summary MUST come before /:id to avoid "summary" being matched as an ID parameter
+app.get(
+  "/api/donations/summary",
   authenticateToken,
-  requirePermission("members:write"),
+  requireScopedPermission("donations:read", "donation"),
   async (req, res) => {
-    const { title, description, requiredSkills } = req.body;
     try {
-      const result = await pool.query(
-        "INSERT INTO ministry_opportunities (title, description, required_skills) VALUES ($1, $2, $3) RETURNING *",
-        [title, description, requiredSkills],
+      // 1. All-time Totals
+      let allTimeQuery = `
+        SELECT
+          SUM(amount) as total,
+          COUNT(*) as count,
+          COUNT(DISTINCT member_id) as donor_count
+        FROM donations
+      `;
+      let allTimeParams = [];
+      if (req.scopedToOwn && req.user.memberId) {
+        allTimeQuery += " WHERE member_id = $1";
+        allTimeParams.push(req.user.memberId);
+      }
+      const allTimeResult = await pool.query(allTimeQuery, allTimeParams);
+      const allTime = allTimeResult.rows[0];
+
+      // 2. Current/Last Month and Current Year
+      const monthParams = [...allTimeParams];
+      let monthQuery = `
+        SELECT 
+          SUM(CASE WHEN donation_date >= date_trunc('month', CURRENT_DATE) THEN amount ELSE 0 END) as current_month,
+          SUM(CASE WHEN donation_date >= date_trunc('month', CURRENT_DATE - INTERVAL '1 month') 
+                    AND donation_date < date_trunc('month', CURRENT_DATE) THEN amount ELSE 0 END) as last_month,
+          SUM(CASE WHEN donation_date >= date_trunc('year', CURRENT_DATE) THEN amount ELSE 0 END) as current_year
+        FROM donations
+      `;
+      if (req.scopedToOwn && req.user.memberId) {
+        monthQuery += " WHERE member_id = $1";
+      }
+      const monthResult = await pool.query(monthQuery, monthParams);
+      const monthly = monthResult.rows[0];
+
+      // 3. Members Count & Weekly Growth
+      const totalMembersResult = await pool.query(
+        "SELECT COUNT(*) as total FROM members",
+      );
+      const newMembersResult = await pool.query(
+        "SELECT COUNT(*) as new_this_week FROM members WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'",
       );
-      res.status(201).json(result.rows[0]);
-    } catch (err) {
-      console.error(err);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  },
-);
 
-// ServantHeart: AI-Powered Talent Match
-app.get(
-  "/api/opportunities/:id/matches",
+      // 4. Avg Donation Trend (last 30 days vs 30-60 days ago)
+      let trendQuery = `
+        SELECT 
+          AVG(CASE WHEN donation_date >= CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE NULL END) as avg_recent,
+          AVG(CASE WHEN donation_date >= CURRENT_DATE - INTERVAL '60 days' AND donation_date < CURRENT_DATE - INTERVAL '30 days' THEN amount ELSE NULL END) as avg_previous
+        FROM donations
+      `;
+      if (req.scopedToOwn && req.user.memberId) {
+        trendQuery += " WHERE member_id = $1";
+      }
+      const trendResult = await pool.query(trendQuery, allTimeParams);
+      const trends = trendResult.rows[0];
+
+      // 5. Fund Distribution (All-Time)
+      let fundDistQuery = `
+        SELECT fund, SUM(amount) as total
+        FROM donations
+      `;
+      if (req.scopedToOwn && req.user.memberId) {
+        fundDistQuery += " WHERE member_id = $1";
+      }
+      fundDistQuery += " GROUP BY fund ORDER BY total DESC";
+      const fundDistResult = await pool.query(fundDistQuery, allTimeParams);
+      const fundDistribution = fundDistResult.rows.map(row => ({
+        name: row.fund,
+        value: parseFloat(row.total)
+      }));
+
+      const totalDonations = parseFloat(allTime.total) || 0;
+      const donationCount = parseInt(allTime.count) || 0;
+      const donorCount = parseInt(allTime.donor_count) || 0;
+      const avgDonation = totalDonations / (donationCount || 1);
+
+      res.json({
+        totalDonations,
+        donationCount,
+        donorCount,
+        avgDonation,
+        totalMembers: parseInt(totalMembersResult.rows[0].total),
+        newMembersThisWeek: parseInt(newMembersResult.rows[0].new_this_week),
+        currentMonthDonations: parseFloat(monthly.current_month) || 0,
+        lastMonthDonations: parseFloat(monthly.last_month) || 0,
+        currentYearDonations: parseFloat(monthly.current_year) || 0,
+        avgRecent: parseFloat(trends.avg_recent) || 0,
+        avgPrevious: parseFloat(trends.avg_previous) || 0,
+        fundDistribution,
+      });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+// stewardship insight
+app.post(
+  "/api/ai/stewardship-insight",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const startTime = Date.now();
+    try {
+      const { donations, members } = req.body;
+      if (!donations || !members) {
+        return res
+          .status(400)
+          .json({ error: "Donations and members are required" });
+      }
+
+      console.log(`[API] AI Stewardship Insight requested for ${donations.length} donations.`);
+      const insight = await getFinancialSummary(donations, members);
+      const duration = Date.now() - startTime;
+      console.log(`[API] AI Stewardship Insight generated in ${duration}ms.`);
+      
+      res.json({ insight });
+    } catch (err) {
+      console.error("[API] AI Insight error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+app.get(
+  "/api/donations/:id",
+  authenticateToken,
+  requireScopedPermission("donations:read", "donation"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const result = await pool.query("SELECT * FROM donations WHERE id = $1", [
+        id,
+      ]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Donation not found" });
+      }
+      const row = result.rows[0];
+
+      // Ownership check for non-global actors
+      if (req.scopedToOwn && row.member_id !== req.user.memberId) {
+        return res
+          .status(403)
+          .json({ error: "Access denied to this donation" });
+      }
+      res.set("ETag", formatETag(row.version));
+      res.json(mapDonationRow(row));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+app.post(
+  "/api/donations",
+  authenticateToken,
+  requirePermission("donations:create"),
+  async (req, res) => {
+    const {
+      memberId,
+      amount,
+      fund,
+      notes,
+      donationDate,
+      date,
+      batchId,
+      paymentMethod,
+      checkNumber,
+      paymentReference,
+      goodsServicesProvided,
+      goodsServicesValue,
+      goodsServicesDescription,
+      allowDuplicateCheck,
+    } = req.body;
+    // SECURITY: Donor-supplied input — no enteredBy or other internal fields allowed
+    if (amount === undefined || amount === null) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: ["amount is required"] });
+    }
+    if (typeof amount !== "number" || amount <= 0) {
+      return res.status(400).json({ error: "INVALID_AMOUNT", details: ["Amount must be a positive number"] });
+    }
+    // Enforce max 2 decimal places for currency
+    const numericAmount = parseFloat(amount.toFixed(2));
+    const requestedFund = (fund && typeof fund === "string" && fund.trim()) ? fund.trim() : DEFAULT_FUND;
+    const dbMemberId = (!memberId || memberId === "guest" || memberId === "null") ? null : memberId;
+    const dbBatchId = batchId ? String(batchId) : null;
+    const safeMethod = paymentMethod || "cash";
+    const safeCheckNumber = checkNumber ? String(checkNumber).trim() : null;
+    const paymentValidation = validateDonationPayment({
+      paymentMethod: safeMethod,
+      checkNumber: safeCheckNumber,
+      paymentReference,
+    });
+    if (!paymentValidation.isValid) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: paymentValidation.errors });
+    }
+    const goodsProvided = goodsServicesProvided === true;
+    const goodsValidation = validateGoodsServices({
+      amount: numericAmount,
+      goodsServicesProvided: goodsProvided,
+      goodsServicesValue,
+      goodsServicesDescription,
+    });
+    if (!goodsValidation.isValid) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: goodsValidation.errors });
+    }
+    const idempotencyKey = parseIdempotencyKey(req.get("Idempotency-Key"));
+    if (idempotencyKey === undefined) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["IDEMPOTENCY_KEY: Idempotency-Key must be 8-100 letters, digits, dashes or underscores"],
+      });
+    }
+    // A retried request gets back the gift the first attempt recorded
+    const replay = (row) => {
+      if (!isSameDonationRequest(row, { memberId: dbMemberId, amount: numericAmount, username: req.user.username })) {
+        return res.status(409).json({
+          error: "IDEMPOTENCY_KEY_REUSED",
+          details: ["IDEMPOTENCY_KEY_REUSED: This Idempotency-Key was already used for a different donation"],
+        });
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(200).json(row);
+    };
+    try {
+      if (idempotencyKey) {
+        const existing = await pool.query(
+          "SELECT * FROM donations WHERE idempotency_key = $1",
+          [idempotencyKey],
+        );
+        if (existing.rows.length > 0) return replay(existing.rows[0]);
+      }
+
+      const fundResult = await resolveFundName(pool, requestedFund);
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
+      }
+      const safeFund = fundResult.fund;
+
+      const batchError = await checkBatchesWritable(pool, [dbBatchId], req.user.role);
+      if (batchError) {
+        return res.status(batchError.status).json(batchError.body);
+      }
+
+      // Flag a check number this member has already given with
+      const duplicates = await findDuplicateCheckNumbers(pool, {
+        memberId: dbMemberId,
+        checkNumber: safeCheckNumber,
+      });
+      if (duplicates.length > 0 && allowDuplicateCheck !== true) {
+        return res.status(409).json({
+          error: "DUPLICATE_CHECK_NUMBER",
+          details: [`Check #${safeCheckNumber} has already been recorded for this member`],
+          duplicates: duplicates.map(mapDonationRow),
+        });
+      }
+
+      // A concurrent retry with the same key inserts nothing and replays
+      const result = await pool.query(
+        `INSERT INTO donations
+           (member_id, amount, fund, notes, entered_by, donation_date, batch_id, payment_method, check_number, payment_reference,
+            goods_services_provided, goods_services_value, goods_services_description, idempotency_key)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+         RETURNING *`,
+        [
+          dbMemberId,
+          numericAmount,
+          safeFund,
+          notes || null,
+          req.user.username,
+          donationDate || date || new Date(),
+          dbBatchId,
+          safeMethod,
+          safeCheckNumber,
+          paymentReference || null,
+          goodsProvided,
+          goodsProvided ? goodsServicesValue || 0 : 0,
+          goodsProvided ? String(goodsServicesDescription).trim() : null,
+          idempotencyKey,
+        ],
+      );
+      if (result.rows.length === 0) {
+        const existing = await pool.query(
+          "SELECT * FROM donations WHERE idempotency_key = $1",
+          [idempotencyKey],
+        );
+        return replay(existing.rows[0]);
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "donation",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+        metadata: duplicates.length > 0 ? { duplicateCheckAcknowledged: true } : {},
+      });
+      emitEvent("donation:update", { type: "CREATE", data: result.rows[0], by: req.user.username });
+      if (dbBatchId) {
+        emitEvent("batch:update", { type: "UPDATE", id: dbBatchId });
+      }
+      await syncRecurringGifts({ memberId: dbMemberId });
+      if (dbMemberId) {
+        await queueFollowUpTasks((db) => createNewDonorTasks(db, [dbMemberId]));
+        sendAcknowledgments([result.rows[0].id]);
+      }
+      res.status(201).json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+app.put(
+
+  "/api/donations/:id",
+
+  authenticateToken,
+
+  requireScopedPermission("donations:update", "donation"),
+
+  async (req, res) => {
+
+    const { id } = req.params;
+
+    // SECURITY: Whitelist fields — removed enteredBy (mass assignment risk)
+    const {
+      amount,
+      fund,
+      notes,
+      donationDate,
+      batchId,
+      paymentMethod,
+      checkNumber,
+      paymentReference,
+      goodsServicesProvided,
+      goodsServicesValue,
+      goodsServicesDescription,
+      allowDuplicateCheck,
+    } = req.body;
+    const hasGoodsUpdate =
+      goodsServicesProvided !== undefined ||
+      goodsServicesValue !== undefined ||
+      goodsServicesDescription !== undefined;
+    const hasPaymentUpdate =
+      paymentMethod !== undefined ||
+      checkNumber !== undefined ||
+      paymentReference !== undefined;
+
+    // Validate amount if provided
+    let numericAmount = undefined;
+    if (amount !== undefined && amount !== null) {
+      if (typeof amount !== "number" || amount <= 0 || isNaN(amount)) {
+        return res.status(400).json({ error: "INVALID_AMOUNT", details: ["Amount must be a positive number"] });
+      }
+      numericAmount = parseFloat(amount.toFixed(2));
+    }
+
+    // Build dynamic update set — only include fields that were provided
+    const queryFields = [];
+    const queryParams = [];
+    let paramIndex = 1;
+    
+    if (numericAmount !== undefined) { 
+      queryFields.push(`amount = $${paramIndex++}`); 
+      queryParams.push(numericAmount); 
+    }
+    // Resolved against the catalog once the current record is loaded
+    let fundParamIndex = null;
+    if (fund !== undefined && fund !== null) { 
+      fundParamIndex = queryParams.length;
+      queryFields.push(`fund = $${paramIndex++}`); 
+      queryParams.push(fund); 
+    }
+    if (notes !== undefined && notes !== null) { 
+      queryFields.push(`notes = $${paramIndex++}`); 
+      queryParams.push(notes); 
+    }
+    if (donationDate !== undefined && donationDate !== null) { 
+      queryFields.push(`donation_date = $${paramIndex++}`); 
+      queryParams.push(donationDate); 
+    }
+    // batchId: null or "" detaches the donation from its deposit batch
+    const dbBatchId = batchId ? String(batchId) : null;
+    if (batchId !== undefined) {
+      queryFields.push(`batch_id = $${paramIndex++}`);
+      queryParams.push(dbBatchId);
+    }
+
+    if (queryFields.length === 0 && !hasPaymentUpdate && !hasGoodsUpdate) {
+      return res.status(400).json({ error: "No valid fields to update" });
+    }
+    const expectedVersion = parseIfMatch(req.get("If-Match"));
+    if (expectedVersion === undefined) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["IF_MATCH: If-Match must be a donation version, e.g. \"3\""],
+      });
+    }
+
+    // Admins can update entered_by; non-admins cannot
+    if (hasPermission(req.user.role, "donations:update") && req.scopedToOwn === false) {
+      queryFields.push(`entered_by = $${paramIndex++}`);
+      // Only set entered_by for admin role — never from user input
+      queryParams.push(req.user.username);
+    }
+
+    try {
+      // If scoped to own, verify ownership first
+      if (!hasPermission(req.user.role, "donations:update")) {
+        const checkRes = await pool.query(
+          "SELECT member_id FROM donations WHERE id = $1",
+          [id],
+        );
+        if (
+          checkRes.rows.length > 0 &&
+          checkRes.rows[0].member_id !== req.user.memberId
+        ) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      const beforeResult = await pool.query(
+        "SELECT * FROM donations WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Donation not found" });
+      }
+      if (expectedVersion !== null && beforeResult.rows[0].version !== expectedVersion) {
+        return res
+          .status(409)
+          .json(versionConflict("donation", beforeResult.rows[0], expectedVersion));
+      }
+
+      if (fundParamIndex !== null) {
+        const fundResult = await resolveFundName(pool, String(fund), {
+          current: beforeResult.rows[0].fund,
+        });
+        if (fundResult.error) {
+          return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
+        }
+        queryParams[fundParamIndex] = fundResult.fund;
+      }
+
+      // Donations in a closed deposit batch are locked unless a manager approves
+      const currentBatchId = beforeResult.rows[0].batch_id;
+      const batchError = await checkBatchesWritable(
+        pool,
+        [currentBatchId, batchId !== undefined ? dbBatchId : null],
+        req.user.role,
+      );
+      if (batchError) {
+        return res.status(batchError.status).json(batchError.body);
+      }
+
+      // Validate payment fields against the merged record so switching away
+      // from "check" clears the stale check number
+      let duplicates = [];
+      if (hasPaymentUpdate) {
+        const current = beforeResult.rows[0];
+        const nextMethod = paymentMethod !== undefined ? paymentMethod : current.payment_method;
+        let nextCheckNumber = null;
+        if (checkNumber !== undefined) {
+          nextCheckNumber = checkNumber ? String(checkNumber).trim() : null;
+        } else if (nextMethod === "check") {
+          nextCheckNumber = current.check_number;
+        }
+        const nextReference =
+          paymentReference !== undefined ? paymentReference || null : current.payment_reference;
+
+        const paymentValidation = validateDonationPayment({
+          paymentMethod: nextMethod,
+          checkNumber: nextCheckNumber,
+          paymentReference: nextReference,
+        });
+        if (!paymentValidation.isValid) {
+          return res.status(400).json({ error: "VALIDATION_FAILED", details: paymentValidation.errors });
+        }
+
+        if (nextCheckNumber !== current.check_number) {
+          duplicates = await findDuplicateCheckNumbers(pool, {
+            memberId: current.member_id,
+            checkNumber: nextCheckNumber,
+            excludeId: id,
+          });
+        }
+        if (duplicates.length > 0 && allowDuplicateCheck !== true) {
+          return res.status(409).json({
+            error: "DUPLICATE_CHECK_NUMBER",
+            details: [`Check #${nextCheckNumber} has already been recorded for this member`],
+            duplicates: duplicates.map(mapDonationRow),
+          });
+        }
+
+        queryFields.push(`payment_method = $${paramIndex++}`);
+        queryParams.push(nextMethod);
+        queryFields.push(`check_number = $${paramIndex++}`);
+        queryParams.push(nextCheckNumber);
+        queryFields.push(`payment_reference = $${paramIndex++}`);
+        queryParams.push(nextReference);
+      }
+
+      // Goods/services are checked against the merged amount so lowering a
+      // gift below its recorded goods value is rejected
+      if (hasGoodsUpdate || numericAmount !== undefined) {
+        const current = beforeResult.rows[0];
+        const nextProvided =
+          goodsServicesProvided !== undefined ? goodsServicesProvided === true : current.goods_services_provided === true;
+        const nextValue = !nextProvided
+          ? 0
+          : goodsServicesValue !== undefined
+            ? goodsServicesValue
+            : parseFloat(current.goods_services_value) || 0;
+        const nextDescription = !nextProvided
+          ? null
+          : goodsServicesDescription !== undefined
+            ? goodsServicesDescription
+            : current.goods_services_description;
+
+        const goodsValidation = validateGoodsServices({
+          amount: numericAmount !== undefined ? numericAmount : parseFloat(current.amount),
+          goodsServicesProvided: nextProvided,
+          goodsServicesValue: nextValue,
+          goodsServicesDescription: nextDescription,
+        });
+        if (!goodsValidation.isValid) {
+          return res.status(400).json({ error: "VALIDATION_FAILED", details: goodsValidation.errors });
+        }
+
+        queryFields.push(`goods_services_provided = $${paramIndex++}`);
+        queryParams.push(nextProvided);
+        queryFields.push(`goods_services_value = $${paramIndex++}`);
+        queryParams.push(nextValue || 0);
+        queryFields.push(`goods_services_description = $${paramIndex++}`);
+        queryParams.push(nextDescription ? String(nextDescription).trim() : null);
+      }
+
+      // Guarded again in the UPDATE for saves racing the check above
+      const result = await pool.query(
+        `UPDATE donations SET ${queryFields.join(", ")}, version = version + 1
+         WHERE id = $${paramIndex} AND ($${paramIndex + 1}::int IS NULL OR version = $${paramIndex + 1}) RETURNING *`,
+        [...queryParams, id, expectedVersion],
+      );
+      if (result.rows.length === 0) {
+        const current = await pool.query("SELECT * FROM donations WHERE id = $1", [id]);
+        if (current.rows.length === 0) {
+          return res.status(404).json({ error: "Donation not found" });
+        }
+        return res
+          .status(409)
+          .json(versionConflict("donation", current.rows[0], expectedVersion));
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "donation",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+        metadata: duplicates.length > 0 ? { duplicateCheckAcknowledged: true } : {},
+      });
+      emitEvent("donation:update", {
+        type: "UPDATE",
+        data: result.rows[0],
+        previous: donationTotalsRow(beforeResult.rows[0]),
+        by: req.user.username,
+      });
+      const touchedBatchIds = new Set(
+        [currentBatchId, result.rows[0].batch_id].filter(Boolean).map(String),
+      );
+      touchedBatchIds.forEach((touchedId) =>
+        emitEvent("batch:update", { type: "UPDATE", id: touchedId }),
+      );
+      await syncRecurringGifts({ memberId: result.rows[0].member_id, donationId: id });
+      res.set("ETag", formatETag(result.rows[0].version));
+      res.json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+app.delete(
+  "/api/donations/:id",
+  authenticateToken,
+  requireScopedPermission("donations:delete", "donation"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      // If scoped to own, verify ownership first
+      if (!hasPermission(req.user.role, "donations:delete")) {
+        const checkRes = await pool.query(
+          "SELECT member_id FROM donations WHERE id = $1",
+          [id],
+        );
+        if (
+          checkRes.rows.length > 0 &&
+          checkRes.rows[0].member_id !== req.user.memberId
+        ) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      const batchCheck = await pool.query(
+        "SELECT batch_id FROM donations WHERE id = $1",
+        [id],
+      );
+      if (batchCheck.rows.length > 0) {
+        const batchError = await checkBatchesWritable(
+          pool,
+          [batchCheck.rows[0].batch_id],
+          req.user.role,
+        );
+        if (batchError) {
+          return res.status(batchError.status).json(batchError.body);
+        }
+      }
+
+      const result = await pool.query(
+        "DELETE FROM donations WHERE id = $1 RETURNING *",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Donation not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "donation",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("donation:update", {
+        type: "DELETE",
+        id,
+        memberId: result.rows[0].member_id,
+        previous: donationTotalsRow(result.rows[0]),
+        by: req.user.username,
+      });
+      if (result.rows[0].batch_id) {
+        emitEvent("batch:update", { type: "UPDATE", id: result.rows[0].batch_id.toString() });
+      }
+      await syncRecurringGifts({ memberId: result.rows[0].member_id });
+      res.json({ message: "Donation deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+const {
+  generateBatchStatement,
+  exportTransactions,
+  getMemberStatement,
+  generateDepositSlip,
+  getFundDistribution,
+  getQuarterlyProgress,
+  getTrendAnalysis,
+  getNewDonors,
+  generateFundActivityStatement,
+} = require("./reports");
+
+const {
+  generateMemberReportPDF,
+  generateAnnualStatementPDF,
+} = require("./reports/memberReport");
+
+console.log("--- REPORT HANDLER TYPES ---");
+console.log("generateBatchStatement:", typeof generateBatchStatement);
+console.log("exportTransactions:", typeof exportTransactions);
+
+app.get(
+  "/api/reports/statements",
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    console.log("GET /api/reports/statements hit");
+
+    const { year, combineHouseholds } = req.query;
+    if (!year) return res.status(400).json({ error: "Year is required" });
+
+    try {
+      // Set headers first, assuming success. If DB fails, we try to send JSON error but it might fail if headers sent?
+      // Actually, `generateBatchStatement` does DB query FIRST, then pipes.
+      // Wait, if I set headers here, and DB fails in `generateBatchStatement` before piping, can I overwrite headers?
+      // Express allows `res.status(500)` even if `res.setHeader()` was called but body not sent.
+      // However, if we pipe, headers are sent.
+
+      // We will let generateBatchStatement handle piping.
+      // Ideally we set headers only after DB query succeeds inside `generateBatchStatement`.
+      // But `generateBatchStatement` as refactored does query -> pipe.
+      // So we can set headers here.
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=statements-${year}.pdf`,
+      );
+
+      await generateBatchStatement(pool, year, res, {
+        combineHouseholds: combineHouseholds === "true",
+        issuedBy: req.user.username,
+      });
+    } catch (err) {
+      console.error("PDF Generation Error:", err);
+      console.error("Stack:", err.stack);
+      if (!res.headersSent) {
+        res
+          .status(500)
+          .json({ error: `Server Error: ${err.message}`, stack: err.stack });
+      } else {
+        // If headers sent, we can't send JSON. End the stream to prevent hang.
+        res.end();
+      }
+    }
+  },
+);
+
+app.get(
+  "/api/reports/member-statement/:id",
+  authenticateToken,
+  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  async (req, res) => {
+    const { id } = req.params;
+    const { year, format, combineHousehold } = req.query;
+
+    if (!year) {
+      return res.status(400).json({ error: "Year is required" });
+    }
+
+    try {
+      const statement = await getMemberStatement(pool, id, year, {
+        combineHousehold: combineHousehold === "true",
+      });
+
+      if (!statement) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+
+      if (format === "pdf") {
+        const narrative = await generateMemberNarrative(
+          statement.member,
+          statement.donations,
+          year,
+        );
+        const template = await getStatementTemplate(pool);
+        const issue = await issueStatement(pool, {
+          year,
+          memberId: statement.household ? null : statement.member.id,
+          householdId: statement.household ? statement.household.id : null,
+          summary: statement.summary,
+          issuedBy: req.user.username,
+        });
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("X-Statement-Number", issue.statementNumber);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename=statement-${year}-${(statement.household ? statement.household.name : statement.member.lastName).replace(/[^\w-]+/g, "-")}.pdf`,
+        );
+
+        return generateAnnualStatementPDF(
+          statement.member,
+          statement.donations,
+          statement.summary,
+          narrative,
+          res,
+          { template, ...issue },
+        );
+      }
+
+      res.json(statement);
+    } catch (err) {
+      console.error("Member statement error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to generate member statement" });
+      }
+    }
+  },
+);
+
+// Register of generated statements, for tracing reissues
+app.get(
+  "/api/reports/statement-issues",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      const { year, memberId, statementNumber, page, limit } = req.query;
+      res.json(await listStatementIssues(pool, { year, memberId, statementNumber, page, limit }));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch statement register" });
+    }
+  },
+);
+
+app.get(
+  "/api/reports/member-narrative/:id",
+  authenticateToken,
+  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  async (req, res) => {
+    const { id } = req.params;
+    const { year } = req.query;
+
+    if (!year) {
+      return res.status(400).json({ error: "Year is required" });
+    }
+
+    try {
+      const statement = await getMemberStatement(pool, id, year);
+      if (!statement)
+        return res.status(404).json({ error: "Member not found" });
+
+      const narrative = await generateMemberNarrative(
+        statement.member,
+        statement.donations,
+        year,
+      );
+      res.json({ narrative });
+    } catch (err) {
+      console.error("Member narrative error:", err);
+      res.status(500).json({ error: "Failed to generate narrative" });
+    }
+  },
+);
+
+app.get(
+  "/api/reports/export",
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    const { year } = req.query;
+    if (!year) return res.status(400).json({ error: "Year is required" });
+
+    try {
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=donations-${year}.csv`,
+      );
+
+      await exportTransactions(pool, year, res);
+    } catch (err) {
+      console.error(err);
+      // Note: If headers are already sent (streaming started), this might fail to send JSON error.
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error generating CSV" });
+      }
+    }
+  },
+);
+
+// ==========================================
+// DEPOSIT BATCHES API
+// ==========================================
+
+app.get(
+  "/api/batches",
+  authenticateToken,
+  requirePermission("batches:read"),
+  async (req, res) => {
+    try {
+      const { page, limit, status } = req.query;
+      const result = await listBatches(pool, { page, limit, status });
+      res.json(result);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch deposit batches" });
+    }
+  },
+);
+
+app.get(
+  "/api/batches/:id",
+  authenticateToken,
+  requirePermission("batches:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Deposit batch not found" });
+    }
+    try {
+      const batch = await getBatch(pool, id);
+      if (!batch) {
+        return res.status(404).json({ error: "Deposit batch not found" });
+      }
+      const donations = await getBatchDonations(pool, id);
+      res.json({
+        ...batch,
+        donations: donations.map((row) => ({
+          ...mapDonationRow(row),
+          memberName: `${row.first_name} ${row.last_name}`,
+        })),
+      });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch deposit batch" });
+    }
+  },
+);
+
+app.post(
+  "/api/batches",
+  authenticateToken,
+  requirePermission("batches:create"),
+  async (req, res) => {
+    const {
+      batchDate,
+      description,
+      expectedCashTotal,
+      expectedCashCount,
+      expectedCheckTotal,
+      expectedCheckCount,
+    } = req.body;
+
+    const validation = validateBatch(req.body);
+    if (!validation.isValid) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: validation.errors });
+    }
+
+    try {
+      const result = await pool.query(
+        `INSERT INTO deposit_batches
+           (batch_date, description, expected_cash_total, expected_cash_count, expected_check_total, expected_check_count, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [
+          batchDate || new Date(),
+          description || null,
+          expectedCashTotal || 0,
+          expectedCashCount || 0,
+          expectedCheckTotal || 0,
+          expectedCheckCount || 0,
+          req.user.username,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "batch",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      const batch = await getBatch(pool, result.rows[0].id);
+      emitEvent("batch:update", { type: "CREATE", data: batch });
+      res.status(201).json(batch);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create deposit batch" });
+    }
+  },
+);
+
+app.put(
+  "/api/batches/:id",
+  authenticateToken,
+  requirePermission("batches:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    const validation = validateBatch(req.body);
+    if (!validation.isValid) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: validation.errors });
+    }
+
+    const columns = {
+      batchDate: "batch_date",
+      description: "description",
+      expectedCashTotal: "expected_cash_total",
+      expectedCashCount: "expected_cash_count",
+      expectedCheckTotal: "expected_check_total",
+      expectedCheckCount: "expected_check_count",
+    };
+    const queryFields = [];
+    const queryParams = [];
+    Object.entries(columns).forEach(([field, column]) => {
+      if (req.body[field] !== undefined) {
+        queryFields.push(`${column} = $${queryParams.length + 1}`);
+        queryParams.push(req.body[field]);
+      }
+    });
+    if (queryFields.length === 0) {
+      return res.status(400).json({ error: "No valid fields to update" });
+    }
+
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM deposit_batches WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Deposit batch not found" });
+      }
+      const batchError = await checkBatchesWritable(pool, [id], req.user.role);
+      if (batchError) {
+        return res.status(batchError.status).json(batchError.body);
+      }
+
+      const result = await pool.query(
+        `UPDATE deposit_batches SET ${queryFields.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = $${queryParams.length + 1} RETURNING *`,
+        [...queryParams, id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "batch",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+      });
+      const batch = await getBatch(pool, id);
+      emitEvent("batch:update", { type: "UPDATE", data: batch });
+      res.json(batch);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update deposit batch" });
+    }
+  },
+);
+
+// Close (lock) a batch. An unbalanced batch can only be closed when the
+// counter explicitly acknowledges the variance.
+app.post(
+  "/api/batches/:id/close",
+  authenticateToken,
+  requirePermission("batches:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    const { acknowledgeVariance } = req.body || {};
+    try {
+      const batch = await getBatch(pool, id);
+      if (!batch) {
+        return res.status(404).json({ error: "Deposit batch not found" });
+      }
+      if (batch.status === "closed") {
+        return res.status(409).json({ error: "BATCH_ALREADY_CLOSED", details: ["Deposit batch is already closed"] });
+      }
+      if (!batch.isBalanced && acknowledgeVariance !== true) {
+        return res.status(409).json({
+          error: "BATCH_VARIANCE",
+          details: [
+            `Batch is off by $${batch.variance.toFixed(2)} (${batch.countVariance} items). Confirm the variance to close anyway.`,
+          ],
+          batch,
+        });
+      }
+
+      const result = await pool.query(
+        `UPDATE deposit_batches
+         SET status = 'closed', closed_by = $1, closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 RETURNING *`,
+        [req.user.username, id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CLOSE",
+        entityType: "batch",
+        entityId: id,
+        before: { status: batch.status },
+        after: { status: result.rows[0].status },
+        metadata: {
+          expectedTotal: batch.expectedTotal,
+          actualTotal: batch.actualTotal,
+          variance: batch.variance,
+          countVariance: batch.countVariance,
+        },
+      });
+      const closed = await getBatch(pool, id);
+      emitEvent("batch:update", { type: "UPDATE", data: closed });
+      res.json(closed);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to close deposit batch" });
+    }
+  },
+);
+
+// Reopen a closed batch (manager approval)
+app.post(
+  "/api/batches/:id/reopen",
+  authenticateToken,
+  requirePermission("batches:approve"),
+  async (req, res) => {
+    const { id } = req.params;
+    const { reason } = req.body || {};
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: ["reason is required"] });
+    }
+    try {
+      const result = await pool.query(
+        `UPDATE deposit_batches
+         SET status = 'open', closed_by = NULL, closed_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'closed' RETURNING *`,
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Closed deposit batch not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "REOPEN",
+        entityType: "batch",
+        entityId: id,
+        before: { status: "closed" },
+        after: { status: result.rows[0].status },
+        metadata: { reason: reason.trim() },
+      });
+      const batch = await getBatch(pool, id);
+      emitEvent("batch:update", { type: "UPDATE", data: batch });
+      res.json(batch);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to reopen deposit batch" });
+    }
+  },
+);
+
+app.get(
+  "/api/batches/:id/deposit-slip",
+  authenticateToken,
+  requirePermission("batches:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const batch = await getBatch(pool, id);
+      if (!batch) {
+        return res.status(404).json({ error: "Deposit batch not found" });
+      }
+      if (batch.status !== "closed") {
+        return res.status(409).json({ error: "BATCH_OPEN", details: ["Close the batch before printing a deposit slip"] });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=deposit-slip-${id}.pdf`,
+      );
+      await generateDepositSlip(pool, batch, res);
+    } catch (err) {
+      console.error("Deposit slip error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to generate deposit slip" });
+      } else {
+        res.end();
+      }
+    }
+  },
+);
+
+// Phase 2: Missing Email Report
+app.get(
+  "/api/reports/missing-emails",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      const result = await pool.query(`
+      SELECT id, first_name, last_name, address, city, state, created_at
+      FROM members
+      WHERE email IS NULL OR email = ''
+      ORDER BY last_name, first_name
+    `);
+      res.json(result.rows);
+    } catch (err) {
+      console.error("Missing emails report error:", err);
+      res.status(500).json({ error: "Failed to fetch missing emails report" });
+    }
+  },
+);
+
+// Phase 2: New Donor List (Last 30 Days)
+app.get(
+  "/api/reports/new-donors",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      res.json(await getNewDonors(pool));
+    } catch (err) {
+      console.error("New donors report error:", err);
+      res.status(500).json({ error: "Failed to fetch new donors report" });
+    }
+  },
+);
+
+// Phase 3: Top 10 Fund Distributions
+app.get(
+  "/api/reports/fund-distribution",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { year } = req.query;
+    if (!year) return res.status(400).json({ error: "Year is required" });
+
+    try {
+      res.json(await getFundDistribution(pool, year));
+    } catch (err) {
+      console.error("Fund distribution error:", err);
+      res.status(500).json({ error: "Failed to fetch fund distribution" });
+    }
+  },
+);
+
+// ServantHeart: Manage Ministry Opportunities
+app.get(
+  "/api/opportunities",
+  authenticateToken,
+  requirePermission("members:read"),
+  async (req, res) => {
+    try {
+      const result = await pool.query(
+        "SELECT * FROM ministry_opportunities ORDER BY created_at DESC",
+      );
+      res.json(result.rows);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+app.post(
+  "/api/opportunities",
+  authenticateToken,
+  requirePermission("members:write"),
+  async (req, res) => {
+    const { title, description, requiredSkills } = req.body;
+    try {
+      const result = await pool.query(
+        "INSERT INTO ministry_opportunities (title, description, required_skills) VALUES ($1, $2, $3) RETURNING *",
+        [title, description, requiredSkills],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "opportunity",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      res.status(201).json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+// ServantHeart: AI-Powered Talent Match
+app.get(
+  "/api/opportunities/:id/matches",
+  authenticateToken,
+  requirePermission("members:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const oppResult = await pool.query(
+        "SELECT * FROM ministry_opportunities WHERE id = $1",
+        [id],
+      );
+      if (oppResult.rows.length === 0) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      const opportunity = oppResult.rows[0];
+
+      // Simple matching logic: find members with at least one overlapping skill
+      const matchResult = await pool.query(
+        `SELECT id, first_name, last_name, skills, interests 
+         FROM members 
+         WHERE skills && $1 OR interests && $1
+         LIMIT 10`,
+        [opportunity.required_skills],
+      );
+
+      res.json({
+        opportunity,
+        matches: matchResult.rows.map((m) => ({
+          memberId: m.id,
+          name: `${m.first_name} ${m.last_name}`,
+          skills: m.skills,
+          matchScore: 0.85,
+        })),
+      });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+// CommunityBridge: Manage Stewardship Campaigns
+app.get("/api/stewardship/campaigns", authenticateToken, async (req, res) => {
+  try {
+    // Get all active campaigns with received and pledged progress
+    const result = await pool.query(`
+        SELECT 
+          c.*,
+          COALESCE(SUM(d.amount), 0) as current_amount,
+          (
+            SELECT COALESCE(SUM(p.amount), 0)
+            FROM pledges p
+            WHERE p.campaign_id = c.id AND p.status = 'active'
+          ) as pledged_amount
+        FROM fund_campaigns c
+        LEFT JOIN donations d ON c.fund_name = d.fund
+        WHERE c.is_active = true
+        GROUP BY c.id
+        ORDER BY c.created_at DESC
+      `);
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.post(
+  "/api/stewardship/campaigns",
+  authenticateToken,
+  requirePermission("donations:write"),
+  async (req, res) => {
+    const { fundName, title, description, goalAmount, endDate } = req.body;
+    try {
+      const fundResult = await resolveFundName(pool, fundName);
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
+      }
+      const result = await pool.query(
+        "INSERT INTO fund_campaigns (fund_name, title, description, goal_amount, end_date) VALUES ($1, $2, $3, $4, $5) RETURNING *",
+        [fundResult.fund, title, description, goalAmount, endDate],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "campaign",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      res.status(201).json(result.rows[0]);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  },
+);
+
+// ==========================================
+// PLEDGES
+// ==========================================
+
+const PLEDGE_COLUMNS = {
+  memberId: "member_id",
+  fund: "fund",
+  campaignId: "campaign_id",
+  amount: "amount",
+  frequency: "frequency",
+  startDate: "start_date",
+  endDate: "end_date",
+  status: "status",
+  notes: "notes",
+};
+
+// Resolves the fund against the catalog, fills it in from the campaign and
+// rejects a fund that contradicts it. Returns a list of validation errors
+// (empty when the pledge is consistent).
+async function resolvePledgeCampaign(pledge, currentFund = null) {
+  if (pledge.fund) {
+    const fundResult = await resolveFundName(pool, String(pledge.fund), {
+      current: currentFund,
+    });
+    if (fundResult.error) return [fundResult.error];
+    pledge.fund = fundResult.fund;
+  }
+  if (pledge.campaignId === undefined || pledge.campaignId === null || pledge.campaignId === "") {
+    return [];
+  }
+  if (!/^\d+$/.test(String(pledge.campaignId))) {
+    return ["INVALID_CAMPAIGN: campaignId must be a numeric campaign ID."];
+  }
+  const result = await pool.query(
+    "SELECT fund_name FROM fund_campaigns WHERE id = $1",
+    [pledge.campaignId],
+  );
+  if (result.rows.length === 0) {
+    return ["INVALID_CAMPAIGN: Campaign not found."];
+  }
+  if (!pledge.fund) {
+    pledge.fund = result.rows[0].fund_name;
+  } else if (pledge.fund !== result.rows[0].fund_name) {
+    return [
+      `INVALID_CAMPAIGN: Campaign is for the ${result.rows[0].fund_name} fund, not ${pledge.fund}.`,
+    ];
+  }
+  return [];
+}
+
+app.get(
+  "/api/pledges",
+  authenticateToken,
+  requirePermission("pledges:read"),
+  async (req, res) => {
+    try {
+      res.json(await listPledges(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch pledges" });
+    }
+  },
+);
+
+app.get(
+  "/api/pledges/:id",
+  authenticateToken,
+  requirePermission("pledges:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Pledge not found" });
+    }
+    try {
+      const pledge = await getPledge(pool, id);
+      if (!pledge) {
+        return res.status(404).json({ error: "Pledge not found" });
+      }
+      res.json(pledge);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch pledge" });
+    }
+  },
+);
+
+app.post(
+  "/api/pledges",
+  authenticateToken,
+  requirePermission("pledges:create"),
+  async (req, res) => {
+    const pledge = {
+      memberId: req.body.memberId,
+      fund: req.body.fund,
+      campaignId: req.body.campaignId,
+      amount: req.body.amount,
+      frequency: req.body.frequency || "one_time",
+      startDate: req.body.startDate,
+      endDate: req.body.endDate,
+      notes: req.body.notes,
+    };
+
+    try {
+      const errors = [
+        ...validatePledge(pledge).errors,
+        ...(await resolvePledgeCampaign(pledge)),
+      ];
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const member = await pool.query("SELECT id FROM members WHERE id = $1", [
+        pledge.memberId,
+      ]);
+      if (member.rows.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: ["Member not found"] });
+      }
+
+      const result = await pool.query(
+        `INSERT INTO pledges
+           (member_id, fund, campaign_id, amount, frequency, start_date, end_date, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, COALESCE($6::date, CURRENT_DATE), $7, $8, $9) RETURNING *`,
+        [
+          pledge.memberId,
+          pledge.fund,
+          pledge.campaignId || null,
+          pledge.amount,
+          pledge.frequency,
+          pledge.startDate || null,
+          pledge.endDate || null,
+          pledge.notes || null,
+          req.user.username,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "pledge",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      const created = await getPledge(pool, result.rows[0].id);
+      emitEvent("pledge:update", { type: "CREATE", data: created });
+      res.status(201).json(created);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create pledge" });
+    }
+  },
+);
+
+app.put(
+  "/api/pledges/:id",
+  authenticateToken,
+  requirePermission("pledges:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM pledges WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Pledge not found" });
+      }
+      const stored = mapPledge(beforeResult.rows[0]);
+      const current = {};
+      Object.keys(PLEDGE_COLUMNS).forEach((field) => {
+        current[field] = stored[field];
+      });
+
+      const changes = {};
+      Object.keys(PLEDGE_COLUMNS).forEach((field) => {
+        if (req.body[field] !== undefined) changes[field] = req.body[field];
+      });
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+      // Moving to another campaign re-derives the fund unless one is given
+      if (changes.campaignId && changes.fund === undefined) {
+        current.fund = null;
+      }
+
+      const merged = { ...current, ...changes };
+      const errors = [
+        ...validatePledge(merged).errors,
+        ...(await resolvePledgeCampaign(merged, beforeResult.rows[0].fund)),
+      ];
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+      if (merged.fund !== beforeResult.rows[0].fund) {
+        changes.fund = merged.fund;
+      }
+
+      const queryFields = [];
+      const queryParams = [];
+      Object.entries(changes).forEach(([field, value]) => {
+        queryFields.push(`${PLEDGE_COLUMNS[field]} = $${queryParams.length + 1}`);
+        queryParams.push(value === "" ? null : value);
+      });
+
+      const result = await pool.query(
+        `UPDATE pledges SET ${queryFields.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = $${queryParams.length + 1} RETURNING *`,
+        [...queryParams, id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "pledge",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+      });
+      const updated = await getPledge(pool, id);
+      emitEvent("pledge:update", { type: "UPDATE", data: updated });
+      res.json(updated);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update pledge" });
+    }
+  },
+);
+
+app.delete(
+  "/api/pledges/:id",
+  authenticateToken,
+  requirePermission("pledges:delete"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        "DELETE FROM pledges WHERE id = $1 RETURNING *",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Pledge not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "pledge",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("pledge:update", { type: "DELETE", id, memberId: result.rows[0].member_id });
+      res.json({ message: "Pledge deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete pledge" });
+    }
+  },
+);
+
+// ==========================================
+// RECURRING GIFTS
+// ==========================================
+
+const RECURRING_GIFT_COLUMNS = {
+  memberId: "member_id",
+  fund: "fund",
+  amount: "amount",
+  frequency: "frequency",
+  startDate: "start_date",
+  endDate: "end_date",
+  paymentMethod: "payment_method",
+  status: "status",
+  notes: "notes",
+};
+
+// Changing any of these rebuilds the schedule's open installments. Pausing
+// or cancelling drops them; resuming starts again from the next due date.
+const RECURRING_SCHEDULE_FIELDS = ["fund", "amount", "frequency", "startDate", "endDate", "status"];
+
+const RECURRING_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Runs the recurring gift job after gifts or schedules change. Errors are
+// logged rather than returned: the change itself is saved and the hourly
+// run catches up.
+async function syncRecurringGifts({ memberId = null, donationId = null } = {}) {
+  try {
+    const summary = await runRecurringGiftJob(pool, { memberId, donationId });
+    if (summary.generated || summary.matched || summary.missed) {
+      emitEvent("recurring:update", { type: "SYNC", data: { memberId, ...summary } });
+    }
+  } catch (err) {
+    console.error("Recurring gift sync error:", err);
+  }
+}
+
+app.get(
+  "/api/recurring-gifts",
+  authenticateToken,
+  requirePermission("recurring:read"),
+  async (req, res) => {
+    try {
+      res.json(await listRecurringGifts(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch recurring gifts" });
+    }
+  },
+);
+
+// NOTE: /installments MUST come before /:id
+app.get(
+  "/api/recurring-gifts/installments",
+  authenticateToken,
+  requirePermission("recurring:read"),
+  async (req, res) => {
+    try {
+      res.json(await listInstallments(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch installments" });
+    }
+  },
+);
+
+// Skip an installment the member told us about, or reopen a skipped one
+app.put(
+  "/api/recurring-gifts/installments/:id",
+  authenticateToken,
+  requirePermission("recurring:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    const { status } = req.body;
+    if (!["skipped", "expected"].includes(status)) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["INVALID_STATUS: status must be skipped or expected."],
+      });
+    }
+    try {
+      const beforeResult = await pool.query(
+        `SELECT i.*, g.member_id FROM recurring_gift_installments i
+         JOIN recurring_gifts g ON g.id = i.recurring_gift_id
+         WHERE i.id = $1`,
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Installment not found" });
+      }
+      const before = beforeResult.rows[0];
+      if (before.status === "received") {
+        return res.status(400).json({
+          error: "VALIDATION_FAILED",
+          details: ["INSTALLMENT_RECEIVED: A received installment cannot be skipped or reopened."],
+        });
+      }
+
+      const result = await pool.query(
+        "UPDATE recurring_gift_installments SET status = $1 WHERE id = $2 RETURNING *",
+        [status, id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "recurring_gift",
+        entityId: before.recurring_gift_id,
+        before: { installmentId: id, dueDate: before.due_date, status: before.status },
+        after: { installmentId: id, dueDate: before.due_date, status },
+      });
+      // A reopened installment may be paid by a gift already on file, or be
+      // missed again if its grace period is over
+      if (status === "expected") {
+        await syncRecurringGifts({ memberId: before.member_id });
+      }
+      emitEvent("recurring:update", { type: "UPDATE", id: String(before.recurring_gift_id) });
+      res.json(await getInstallment(pool, result.rows[0].id));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update installment" });
+    }
+  },
+);
+
+app.get(
+  "/api/recurring-gifts/:id",
+  authenticateToken,
+  requirePermission("recurring:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Recurring gift not found" });
+    }
+    try {
+      const gift = await getRecurringGift(pool, id);
+      if (!gift) {
+        return res.status(404).json({ error: "Recurring gift not found" });
+      }
+      res.json(gift);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch recurring gift" });
+    }
+  },
+);
+
+app.post(
+  "/api/recurring-gifts",
+  authenticateToken,
+  requirePermission("recurring:create"),
+  async (req, res) => {
+    const gift = {
+      memberId: req.body.memberId,
+      fund: req.body.fund,
+      amount: req.body.amount,
+      frequency: req.body.frequency || "monthly",
+      startDate: req.body.startDate,
+      endDate: req.body.endDate,
+      paymentMethod: req.body.paymentMethod,
+      notes: req.body.notes,
+    };
+
+    try {
+      const errors = validateRecurringGift(gift).errors;
+      if (gift.fund) {
+        const fundResult = await resolveFundName(pool, String(gift.fund));
+        if (fundResult.error) errors.push(fundResult.error);
+        else gift.fund = fundResult.fund;
+      }
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const member = await pool.query("SELECT id FROM members WHERE id = $1", [
+        gift.memberId,
+      ]);
+      if (member.rows.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: ["Member not found"] });
+      }
+
+      const result = await pool.query(
+        `INSERT INTO recurring_gifts
+           (member_id, fund, amount, frequency, start_date, end_date, payment_method, notes, created_by)
+         VALUES ($1, $2, $3, $4, COALESCE($5::date, CURRENT_DATE), $6, $7, $8, $9) RETURNING *`,
+        [
+          gift.memberId,
+          gift.fund,
+          gift.amount,
+          gift.frequency,
+          gift.startDate || null,
+          gift.endDate || null,
+          gift.paymentMethod || null,
+          gift.notes || null,
+          req.user.username,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "recurring_gift",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      // A schedule that started in the past picks up the gifts already given
+      await syncRecurringGifts({ memberId: gift.memberId });
+      const created = await getRecurringGift(pool, result.rows[0].id);
+      emitEvent("recurring:update", { type: "CREATE", data: created });
+      res.status(201).json(created);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create recurring gift" });
+    }
+  },
+);
+
+app.put(
+  "/api/recurring-gifts/:id",
+  authenticateToken,
+  requirePermission("recurring:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM recurring_gifts WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Recurring gift not found" });
+      }
+      const before = beforeResult.rows[0];
+      const stored = await getRecurringGift(pool, id);
+      const current = {};
+      Object.keys(RECURRING_GIFT_COLUMNS).forEach((field) => {
+        current[field] = stored[field];
+      });
+
+      const changes = {};
+      Object.keys(RECURRING_GIFT_COLUMNS).forEach((field) => {
+        if (req.body[field] !== undefined && field !== "memberId") {
+          changes[field] = req.body[field];
+        }
+      });
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      const merged = { ...current, ...changes };
+      const errors = validateRecurringGift(merged).errors;
+      if (changes.fund !== undefined && merged.fund) {
+        const fundResult = await resolveFundName(pool, String(merged.fund), {
+          current: before.fund,
+        });
+        if (fundResult.error) errors.push(fundResult.error);
+        else changes.fund = fundResult.fund;
+      }
+      const reschedules =
+        (changes.frequency !== undefined && changes.frequency !== current.frequency) ||
+        (changes.startDate !== undefined && changes.startDate !== current.startDate);
+      if (reschedules && (await countSettledInstallments(pool, id)) > 0) {
+        errors.push(
+          "SCHEDULE_LOCKED: frequency and startDate cannot change once installments are received or missed. End this schedule and start a new one.",
+        );
+      }
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const queryFields = [];
+      const queryParams = [];
+      Object.entries(changes).forEach(([field, value]) => {
+        queryFields.push(`${RECURRING_GIFT_COLUMNS[field]} = $${queryParams.length + 1}`);
+        queryParams.push(value === "" ? null : value);
+      });
+
+      const result = await pool.query(
+        `UPDATE recurring_gifts SET ${queryFields.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = $${queryParams.length + 1} RETURNING *`,
+        [...queryParams, id],
+      );
+      if (RECURRING_SCHEDULE_FIELDS.some((field) => changes[field] !== undefined)) {
+        await resetInstallments(pool, id);
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "recurring_gift",
+        entityId: id,
+        before,
+        after: result.rows[0],
+      });
+      await syncRecurringGifts({ memberId: before.member_id });
+      const updated = await getRecurringGift(pool, id);
+      emitEvent("recurring:update", { type: "UPDATE", data: updated });
+      res.json(updated);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update recurring gift" });
+    }
+  },
+);
+
+app.delete(
+  "/api/recurring-gifts/:id",
+  authenticateToken,
+  requirePermission("recurring:delete"),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        "DELETE FROM recurring_gifts WHERE id = $1 RETURNING *",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Recurring gift not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "recurring_gift",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("recurring:update", { type: "DELETE", id });
+      res.json({ message: "Recurring gift deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete recurring gift" });
+    }
+  },
+);
+
+// Phase 3: Quarterly Progress Summary
+app.get(
+  "/api/reports/quarterly-progress",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { year } = req.query;
+    if (!year) return res.status(400).json({ error: "Year is required" });
+
+    try {
+      res.json(await getQuarterlyProgress(pool, year, { fund: req.query.fund || null }));
+    } catch (err) {
+      console.error("Quarterly progress error:", err);
+      res.status(500).json({ error: "Failed to fetch quarterly progress" });
+    }
+  },
+);
+
+// Budget vs. actual per fund with year-to-date pacing
+app.get(
+  "/api/reports/budget-vs-actual",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { year } = req.query;
+    if (!year) return res.status(400).json({ error: "Year is required" });
+
+    try {
+      res.json(await getBudgetVsActual(pool, year, { fund: req.query.fund || null }));
+    } catch (err) {
+      console.error("Budget vs actual error:", err);
+      res.status(500).json({ error: "Failed to fetch budget vs actual" });
+    }
+  },
+);
+
+app.get(
+  "/api/reports/budget-vs-actual/export",
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    const { year } = req.query;
+    const format = req.query.format || "pdf";
+    if (!year) return res.status(400).json({ error: "Year is required" });
+    if (!["pdf", "csv"].includes(format)) {
+      return res.status(400).json({ error: "Format must be pdf or csv" });
+    }
+
+    try {
+      const data = await getBudgetVsActual(pool, year, { fund: req.query.fund || null });
+      const { churchName } = await getStatementTemplate(pool);
+      const file = await renderReport(buildBudgetReport(data), format, { churchName });
+      res.setHeader("Content-Type", format === "csv" ? "text/csv" : "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (err) {
+      console.error("Budget vs actual export error:", err);
+      res.status(500).json({ error: "Failed to export budget vs actual" });
+    }
+  },
+);
+
+// Fund activity statement: opening balance, receipts, disbursements, closing balance
+app.get(
+  "/api/reports/fund-activity",
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    const year = new Date().getFullYear();
+    const { fund } = req.query;
+    const startDate = req.query.startDate || `${year}-01-01`;
+    const endDate = req.query.endDate || new Date().toISOString().slice(0, 10);
+    if (!fund) return res.status(400).json({ error: "Fund is required" });
+    if (![startDate, endDate].every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date)) || endDate < startDate) {
+      return res.status(400).json({ error: "startDate and endDate must be dates (YYYY-MM-DD), in order" });
+    }
+
+    try {
+      const found = await findFund(pool, fund);
+      if (!found) return res.status(404).json({ error: "Fund not found" });
+
+      const activity = await getFundActivity(pool, found.name, { startDate, endDate });
+      const { churchName } = await getStatementTemplate(pool);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=fund-activity-${found.code.toLowerCase()}-${startDate}-${endDate}.pdf`,
+      );
+      generateFundActivityStatement(activity, res, { churchName });
+    } catch (err) {
+      console.error("Fund activity statement error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to generate fund activity statement" });
+      }
+    }
+  },
+);
+
+// GraceForecast: At-Risk Donor Prediction
+app.get(
+  "/api/forecast/at-risk",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { page, limit, level, includeContacted } = req.query;
+    try {
+      const result = await listAtRiskDonors(pool, {
+        page,
+        limit,
+        level,
+        includeContacted: includeContacted === "true",
+      });
+      res.json(result);
+    } catch (err) {
+      console.error("Forecast error:", err);
+      res.status(500).json({ error: "Failed to generate forecast" });
+    }
+  },
+);
+
+app.get(
+  "/api/forecast/at-risk/export",
+  exportLimiter,
+  authenticateToken,
+  requirePermission("reports:export"),
+  async (req, res) => {
+    const { level } = req.query;
+    try {
+      const { donors } = await findAtRiskDonors(pool, {
+        level,
+        includeContacted: true,
+      });
+
+      pool
+        .query(
+          "INSERT INTO export_logs (user_id, export_type, filters) VALUES ($1, $2, $3)",
+          [req.user.id, "at_risk_donors", { level }],
+        )
+        .catch((err) => console.error("Audit log failed:", err));
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        "attachment; filename=at_risk_donors.csv",
+      );
+      const stringifier = stringify({
+        header: true,
+        columns: [
+          "member_id", "name", "email", "level", "score", "cadence", "basis",
+          "explanation", "last_gift_date", "last_gift_amount",
+          "last_contacted_at", "last_contacted_by", "last_contact_note",
+        ],
+      });
+      stringifier.pipe(res);
+      donors.forEach((donor) => {
+        stringifier.write({
+          member_id: donor.memberId,
+          name: donor.name,
+          email: donor.email,
+          level: donor.level,
+          score: donor.score,
+          cadence: donor.cadence,
+          basis: donor.basis,
+          explanation: donor.explanation,
+          last_gift_date: donor.lastGiftDate,
+          last_gift_amount: donor.lastGiftAmount,
+          last_contacted_at: donor.lastContact ? new Date(donor.lastContact.contactedAt).toISOString() : null,
+          last_contacted_by: donor.lastContact ? donor.lastContact.contactedBy : null,
+          last_contact_note: donor.lastContact ? donor.lastContact.note : null,
+        });
+      });
+      stringifier.end();
+    } catch (err) {
+      console.error("Forecast export error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export at-risk donors" });
+      }
+    }
+  },
+);
+
+app.get(
+  "/api/forecast/at-risk/:memberId/contacts",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      res.json(await listDonorContacts(pool, req.params.memberId));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch donor contacts" });
+    }
+  },
+);
+
+// Marks a flagged donor as contacted, hiding them from the watchlist for
+// the configured snooze period
+app.post(
+  "/api/forecast/at-risk/:memberId/contacts",
+  authenticateToken,
+  requirePermission("members:update"),
+  async (req, res) => {
+    const { memberId } = req.params;
+    const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+    if (note.length > 2000) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["INVALID_NOTE_LENGTH: note cannot exceed 2000 characters."],
+      });
+    }
+    try {
+      const member = await pool.query("SELECT id FROM members WHERE id = $1", [memberId]);
+      if (member.rows.length === 0) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      const row = await recordDonorContact(pool, {
+        memberId,
+        note: note || null,
+        contactedBy: req.user.username,
+      });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "donor_contact",
+        entityId: row.id,
+        after: row,
+        metadata: { memberId },
+      });
+      const contact = mapDonorContact(row);
+      emitEvent("forecast:update", { type: "CONTACT", data: contact });
+      res.status(201).json(contact);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to record donor contact" });
+    }
+  },
+);
+
+// Phase 3: Trend Analysis (3 Year)
+app.get(
+  "/api/reports/trend-analysis",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      res.json(await getTrendAnalysis(pool, { fund: req.query.fund || null }));
+    } catch (err) {
+      console.error("Trend analysis error:", err);
+      res.status(500).json({ error: "Failed to fetch trend analysis" });
+    }
+  },
+);
+
+// ==========================================
+// FOLLOW-UP TASKS
+// ==========================================
+
+const TASK_COLUMNS = {
+  title: "title",
+  description: "description",
+  assignedTo: "assigned_to",
+  dueDate: "due_date",
+  status: "status",
+};
+
+// Creates automatic follow-up tasks and notifies their assignees. Errors are
+// logged rather than returned: the change that prompted the tasks is
+// already saved.
+async function queueFollowUpTasks(create) {
+  try {
+    const rows = (await create(pool)).filter(Boolean);
+    for (const row of rows) {
+      emitEvent("task:update", { type: "CREATE", data: await getTask(pool, row.id) });
+    }
+  } catch (err) {
+    console.error("Follow-up task error:", err);
+  }
+}
+
+// Thanks first-time donors whose gifts arrived in an import
+function queueImportDonorTasks(importId) {
+  return queueFollowUpTasks(async (db) => {
+    const result = await db.query(
+      "SELECT DISTINCT member_id FROM donations WHERE import_id = $1 AND member_id IS NOT NULL",
+      [importId],
+    );
+    return createNewDonorTasks(db, result.rows.map((row) => row.member_id));
+  });
+}
+
+const taskExistsError = (origin) => ({
+  error: "TASK_EXISTS",
+  details: [`This member already has an open ${origin.replace("_", " ")} follow-up task.`],
+});
+
+app.get(
+  "/api/tasks",
+  authenticateToken,
+  requirePermission("tasks:read"),
+  async (req, res) => {
+    const filters = { ...req.query };
+    if (filters.assignedTo === "me") filters.assignedTo = req.user.id;
+    try {
+      res.json(await listTasks(pool, filters));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch tasks" });
+    }
+  },
+);
+
+// NOTE: /assignees and /missing-emails MUST come before /:id
+app.get(
+  "/api/tasks/assignees",
+  authenticateToken,
+  requirePermission("tasks:read"),
+  async (req, res) => {
+    try {
+      res.json(await listAssignees(pool));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch assignees" });
+    }
+  },
+);
+
+// Turns the missing email report into one task per member without an email
+app.post(
+  "/api/tasks/missing-emails",
+  authenticateToken,
+  requirePermission("tasks:create"),
+  async (req, res) => {
+    const assignedTo =
+      req.body.assignedTo === undefined || req.body.assignedTo === null || req.body.assignedTo === ""
+        ? null
+        : req.body.assignedTo;
+    try {
+      if (assignedTo !== null && !(/^\d+$/.test(String(assignedTo)) && (await isAssignable(pool, assignedTo)))) {
+        return res.status(400).json({
+          error: "VALIDATION_FAILED",
+          details: ["INVALID_ASSIGNEE: assignedTo must be a staff user who can work tasks."],
+        });
+      }
+      const rows = await createMissingEmailTasks(pool, {
+        assignedTo: assignedTo !== null ? Number(assignedTo) : null,
+        createdBy: req.user.username,
+      });
+      if (rows.length > 0) {
+        await recordAuditEvent(pool, {
+          actor: req.user,
+          action: "CREATE",
+          entityType: "task",
+          metadata: { origin: "missing_email", created: rows.length },
+        });
+        emitEvent("task:update", {
+          type: "BULK_CREATE",
+          data: { origin: "missing_email", created: rows.length, assignedTo: rows[0].assigned_to },
+          by: req.user.username,
+        });
+      }
+      res.status(201).json({ created: rows.length });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create follow-up tasks" });
+    }
+  },
+);
+
+app.get(
+  "/api/tasks/:id",
+  authenticateToken,
+  requirePermission("tasks:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    try {
+      const task = await getTask(pool, id);
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      res.json({ ...task, notes: await listTaskNotes(pool, id) });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch task" });
+    }
+  },
+);
+
+app.post(
+  "/api/tasks",
+  authenticateToken,
+  requirePermission("tasks:create"),
+  async (req, res) => {
+    const task = {
+      memberId: req.body.memberId,
+      title: req.body.title,
+      description: req.body.description,
+      origin: req.body.origin || "manual",
+      dueDate: req.body.dueDate,
+      assignedTo: req.body.assignedTo,
+    };
+
+    try {
+      const errors = validateTask(task).errors;
+      if (
+        task.assignedTo != null && task.assignedTo !== "" &&
+        errors.length === 0 && !(await isAssignable(pool, task.assignedTo))
+      ) {
+        errors.push("INVALID_ASSIGNEE: assignedTo must be a staff user who can work tasks.");
+      }
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const member = await pool.query("SELECT id FROM members WHERE id = $1", [
+        task.memberId,
+      ]);
+      if (member.rows.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: ["Member not found"] });
+      }
+
+      const row = await createTask(pool, { ...task, createdBy: req.user.username });
+      if (!row) {
+        return res.status(409).json(taskExistsError(task.origin));
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "task",
+        entityId: row.id,
+        after: row,
+      });
+      const created = await getTask(pool, row.id);
+      emitEvent("task:update", { type: "CREATE", data: created, by: req.user.username });
+      res.status(201).json(created);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create task" });
+    }
+  },
+);
+
+app.put(
+  "/api/tasks/:id",
+  authenticateToken,
+  requirePermission("tasks:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM follow_up_tasks WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const before = beforeResult.rows[0];
+      const stored = await getTask(pool, id);
+
+      const changes = {};
+      Object.keys(TASK_COLUMNS).forEach((field) => {
+        if (req.body[field] !== undefined) {
+          changes[field] = req.body[field] === "" ? null : req.body[field];
+        }
+      });
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      const errors = validateTask({ ...stored, ...changes }).errors;
+      const reassigned =
+        changes.assignedTo !== undefined &&
+        (changes.assignedTo === null ? null : Number(changes.assignedTo)) !== stored.assignedTo;
+      if (reassigned && changes.assignedTo !== null && errors.length === 0 && !(await isAssignable(pool, changes.assignedTo))) {
+        errors.push("INVALID_ASSIGNEE: assignedTo must be a staff user who can work tasks.");
+      }
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const queryFields = [];
+      const queryParams = [];
+      Object.entries(changes).forEach(([field, value]) => {
+        queryFields.push(`${TASK_COLUMNS[field]} = $${queryParams.length + 1}`);
+        queryParams.push(field === "title" ? String(value).trim() : value);
+      });
+      if (changes.status !== undefined && changes.status !== before.status) {
+        queryFields.push(changes.status === "done" ? "completed_at = NOW()" : "completed_at = NULL");
+      }
+
+      let result;
+      try {
+        result = await pool.query(
+          `UPDATE follow_up_tasks SET ${queryFields.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = $${queryParams.length + 1} RETURNING *`,
+          [...queryParams, id],
+        );
+      } catch (err) {
+        // Reopening an automatic task while a newer one is open
+        if (err.code === "23505") {
+          return res.status(409).json(taskExistsError(before.origin));
+        }
+        throw err;
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "task",
+        entityId: id,
+        before,
+        after: result.rows[0],
+      });
+      const updated = await getTask(pool, id);
+      emitEvent("task:update", {
+        type: reassigned && updated.assignedTo !== null ? "ASSIGN" : "UPDATE",
+        data: updated,
+        by: req.user.username,
+      });
+      res.json(updated);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update task" });
+    }
+  },
+);
+
+app.delete(
+  "/api/tasks/:id",
+  authenticateToken,
+  requirePermission("tasks:delete"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    try {
+      const result = await pool.query(
+        "DELETE FROM follow_up_tasks WHERE id = $1 RETURNING *",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "task",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("task:update", { type: "DELETE", id });
+      res.json({ message: "Task deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete task" });
+    }
+  },
+);
+
+app.post(
+  "/api/tasks/:id/notes",
+  authenticateToken,
+  requirePermission("tasks:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    const body = typeof req.body.body === "string" ? req.body.body.trim() : "";
+    if (!body || body.length > 2000) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: [
+          body
+            ? "INVALID_NOTE_LENGTH: note cannot exceed 2000 characters."
+            : "REQUIRED_NOTE: body is required.",
+        ],
+      });
+    }
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Task not found" });
+    }
+    try {
+      const task = await pool.query("SELECT id FROM follow_up_tasks WHERE id = $1", [id]);
+      if (task.rows.length === 0) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const row = await addTaskNote(pool, { taskId: id, body, author: req.user.username });
+      await pool.query(
+        "UPDATE follow_up_tasks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "task_note",
+        entityId: row.id,
+        after: row,
+        metadata: { taskId: id },
+      });
+      const note = mapTaskNote(row);
+      emitEvent("task:update", { type: "NOTE", id, data: note, by: req.user.username });
+      res.status(201).json(note);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to add note" });
+    }
+  },
+);
+
+// ==========================================
+// EMAIL DELIVERY
+// ==========================================
+
+// Sends queued messages after the response has gone out, reporting each
+// outcome over the socket. Errors are logged; every message's status is in
+// the send log.
+async function sendEmailsInBackground(ids, jobId = null) {
+  try {
+    await sendQueuedMessages(pool, getMailTransport(), ids, {
+      from: await getSender(pool),
+      onProgress: (row) => emitEvent("email:update", { type: "MESSAGE", data: mapEmailMessage(row) }),
+    });
+    if (jobId) {
+      emitEvent("email:update", { type: "JOB", data: await getEmailJob(pool, jobId) });
+    }
+  } catch (err) {
+    console.error("Email delivery error:", err);
+  }
+}
+
+// Sends one queued message while the caller waits and returns its log entry
+async function sendEmailNow(id) {
+  await deliverEmailMessage(pool, getMailTransport(), id, { from: await getSender(pool) });
+  const message = await getEmailMessage(pool, id);
+  emitEvent("email:update", { type: "MESSAGE", data: message });
+  return message;
+}
+
+const ACKNOWLEDGMENT_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Queues and sends gift acknowledgments: the given gifts as they are
+// entered, or with no ids the hourly sweep and weekly digest. Errors are
+// logged rather than returned: the gifts themselves are already saved.
+async function sendAcknowledgments(donationIds = null) {
+  try {
+    const queued = await runAcknowledgmentJob(pool, { donationIds });
+    if (queued.length > 0) {
+      await sendEmailsInBackground(queued.map((row) => row.id));
+    }
+  } catch (err) {
+    console.error("Gift acknowledgment error:", err);
+  }
+}
+
+// Resolves the recipient address: an explicit "to" or the member's email
+function resolveRecipient(to, member) {
+  const email = typeof to === "string" && to.trim() !== "" ? to.trim() : member && member.email;
+  if (!email) {
+    return { error: "REQUIRED_EMAIL: This donor has no email address on file; provide one in \"to\"." };
+  }
+  if (!REGEX.EMAIL.test(email) || email.length > 254) {
+    return { error: "INVALID_EMAIL: Must be a valid email address." };
+  }
+  return { email };
+}
+
+app.get(
+  "/api/email/templates",
+  authenticateToken,
+  requirePermission("email:read"),
+  async (req, res) => {
+    try {
+      res.json(await listEmailTemplates(pool));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch email templates" });
+    }
+  },
+);
+
+app.put(
+  "/api/email/templates/:key",
+  authenticateToken,
+  requirePermission("email:manage"),
+  async (req, res) => {
+    const { key } = req.params;
+    if (!EMAIL_TEMPLATE_KEYS.includes(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    const validation = validateEmailTemplate(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "VALIDATION_FAILED", details: validation.errors });
+    }
+    try {
+      const before = await getEmailTemplate(pool, key);
+      const template = await saveEmailTemplate(pool, key, req.body, req.user.username);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "email_template",
+        entityId: key,
+        before: { subject: before.subject, body: before.body },
+        after: { subject: template.subject, body: template.body },
+      });
+      res.json(template);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to save email template" });
+    }
+  },
+);
+
+// Restores the built-in default
+app.delete(
+  "/api/email/templates/:key",
+  authenticateToken,
+  requirePermission("email:manage"),
+  async (req, res) => {
+    const { key } = req.params;
+    if (!EMAIL_TEMPLATE_KEYS.includes(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    try {
+      const before = await getEmailTemplate(pool, key);
+      const template = await resetEmailTemplate(pool, key);
+      if (!before.isDefault) {
+        await recordAuditEvent(pool, {
+          actor: req.user,
+          action: "DELETE",
+          entityType: "email_template",
+          entityId: key,
+          before: { subject: before.subject, body: before.body },
+        });
+      }
+      res.json(template);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to reset email template" });
+    }
+  },
+);
+
+// Emails every member with an address their year-end statement. The batch
+// is queued and sent in the background; progress arrives as email:update.
+app.post(
+  "/api/email/statements",
+  authenticateToken,
+  requirePermission("email:batch"),
+  async (req, res) => {
+    const year = String(req.body.year || "");
+    if (!/^\d{4}$/.test(year)) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["INVALID_YEAR: year must be a four-digit year."],
+      });
+    }
+    try {
+      const members = await findStatementRecipients(pool, year);
+      if (members.length === 0) {
+        return res.json({ job: null, queued: 0 });
+      }
+      const template = await getEmailTemplate(pool, "statement");
+      const { churchName } = await getStatementTemplate(pool);
+      const job = await createEmailJob(pool, {
+        templateKey: "statement",
+        taxYear: parseInt(year),
+        createdBy: req.user.username,
+      });
+      const rows = await queueEmailMessages(pool, {
+        template,
+        jobId: job.id,
+        createdBy: req.user.username,
+        recipients: members.map((m) => ({
+          memberId: m.id,
+          email: m.email,
+          fields: {
+            name: `${m.first_name} ${m.last_name}`,
+            firstName: m.first_name,
+            lastName: m.last_name,
+            year,
+            churchName,
+          },
+          attachment: { type: "statement", memberId: m.id, year: parseInt(year) },
+        })),
+      });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "SEND",
+        entityType: "email_job",
+        entityId: job.id,
+        metadata: { templateKey: "statement", year: parseInt(year), recipients: rows.length },
+      });
+
+      const queuedJob = await getEmailJob(pool, job.id);
+      emitEvent("email:update", { type: "JOB", data: queuedJob, by: req.user.username });
+      res.status(202).json({ job: queuedJob, queued: rows.length });
+
+      sendEmailsInBackground(rows.map((row) => row.id), job.id);
+    } catch (err) {
+      console.error(err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to queue statement emails" });
+      }
+    }
+  },
+);
+
+// Emails one member (or their household) a single year's statement
+app.post(
+  "/api/email/statements/:memberId",
+  authenticateToken,
+  requirePermission("email:send"),
+  async (req, res) => {
+    const { memberId } = req.params;
+    const year = String(req.body.year || "");
+    if (!/^\d{4}$/.test(year)) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: ["INVALID_YEAR: year must be a four-digit year."],
+      });
+    }
+    try {
+      const member = await pool.query(
+        "SELECT id, first_name, last_name, email FROM members WHERE id = $1",
+        [memberId],
+      );
+      if (member.rows.length === 0) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      const m = member.rows[0];
+      const recipient = resolveRecipient(req.body.to, m);
+      if (recipient.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [recipient.error] });
+      }
+
+      const template = await getEmailTemplate(pool, "statement");
+      const { churchName } = await getStatementTemplate(pool);
+      const [row] = await queueEmailMessages(pool, {
+        template,
+        createdBy: req.user.username,
+        recipients: [{
+          memberId: m.id,
+          email: recipient.email,
+          fields: {
+            name: `${m.first_name} ${m.last_name}`,
+            firstName: m.first_name,
+            lastName: m.last_name,
+            year,
+            churchName,
+          },
+          attachment: {
+            type: "statement",
+            memberId: m.id,
+            year: parseInt(year),
+            combineHousehold: req.body.combineHousehold === true,
+          },
+        }],
+      });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "SEND",
+        entityType: "email_message",
+        entityId: row.id,
+        metadata: { templateKey: "statement", memberId: m.id, year: parseInt(year), to: recipient.email },
+      });
+      res.status(201).json(await sendEmailNow(row.id));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to email statement" });
+    }
+  },
+);
+
+// Emails a receipt for one gift
+app.post(
+  "/api/email/receipts/:donationId",
+  authenticateToken,
+  requirePermission("email:send"),
+  async (req, res) => {
+    const { donationId } = req.params;
+    if (!/^\d+$/.test(donationId)) {
+      return res.status(404).json({ error: "Donation not found" });
+    }
+    try {
+      const receipt = await getReceiptGift(pool, donationId);
+      if (!receipt) {
+        return res.status(404).json({ error: "Donation not found" });
+      }
+      const recipient = resolveRecipient(req.body.to, receipt.member);
+      if (recipient.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [recipient.error] });
+      }
+
+      const template = await getEmailTemplate(pool, "receipt");
+      const { churchName } = await getStatementTemplate(pool);
+      const [row] = await queueEmailMessages(pool, {
+        template,
+        createdBy: req.user.username,
+        recipients: [{
+          memberId: receipt.member ? receipt.member.id : null,
+          donationId,
+          email: recipient.email,
+          fields: receiptFields(receipt.gift, receipt.member, churchName),
+          attachment: { type: "receipt", donationId: parseInt(donationId) },
+        }],
+      });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "SEND",
+        entityType: "email_message",
+        entityId: row.id,
+        metadata: { templateKey: "receipt", donationId, to: recipient.email },
+      });
+      res.status(201).json(await sendEmailNow(row.id));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to email receipt" });
+    }
+  },
+);
+
+app.get(
+  "/api/email/jobs",
+  authenticateToken,
+  requirePermission("email:read"),
+  async (req, res) => {
+    try {
+      res.json(await listEmailJobs(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch email jobs" });
+    }
+  },
+);
+
+app.get(
+  "/api/email/jobs/:id",
+  authenticateToken,
+  requirePermission("email:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Email job not found" });
+    }
+    try {
+      const job = await getEmailJob(pool, id);
+      if (!job) {
+        return res.status(404).json({ error: "Email job not found" });
+      }
+      res.json(job);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch email job" });
+    }
+  },
+);
+
+// Retries every failed message in a batch
+app.post(
+  "/api/email/jobs/:id/retry",
+  authenticateToken,
+  requirePermission("email:send"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Email job not found" });
+    }
+    try {
+      const job = await getEmailJob(pool, id);
+      if (!job) {
+        return res.status(404).json({ error: "Email job not found" });
+      }
+      const ids = await requeueFailedMessages(pool, { jobId: id });
+      res.status(202).json({ requeued: ids.length });
+      if (ids.length > 0) sendEmailsInBackground(ids, id);
+    } catch (err) {
+      console.error(err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to retry email job" });
+      }
+    }
+  },
+);
+
+// Send log
+app.get(
+  "/api/email/messages",
+  authenticateToken,
+  requirePermission("email:read"),
+  async (req, res) => {
+    try {
+      res.json(await listEmailMessages(pool, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch email log" });
+    }
+  },
+);
+
+app.post(
+  "/api/email/messages/:id/retry",
+  authenticateToken,
+  requirePermission("email:send"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Email not found" });
+    }
+    try {
+      const message = await getEmailMessage(pool, id);
+      if (!message) {
+        return res.status(404).json({ error: "Email not found" });
+      }
+      if (message.status !== "failed") {
+        return res.status(409).json({
+          error: "EMAIL_NOT_FAILED",
+          details: [`Only failed emails can be retried; this one is ${message.status}.`],
+        });
+      }
+      await requeueFailedMessages(pool, { id });
+      res.json(await sendEmailNow(id));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to retry email" });
+    }
+  },
+);
+
+// ==========================================
+// REPORT BUILDER
+// ==========================================
+
+// Users who can only read their own reports run every definition
+// restricted to their own gifts. Returns the scope, or null if the user
+// has no member record to restrict to.
+function reportScope(req) {
+  if (!req.scopedToOwn) return {};
+  return req.user.memberId ? { memberId: req.user.memberId } : null;
+}
+
+const notLinkedError = { error: "User is not linked to a member record" };
+
+// Runs an unsaved definition from the builder
+app.post(
+  "/api/reports/builder",
+  authenticateToken,
+  requireScopedPermission("reports:read", "report"),
+  async (req, res) => {
+    const definition = req.body.definition;
+    const errors = validateReportDefinition(definition).errors;
+    if (errors.length > 0) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: errors });
+    }
+    const scope = reportScope(req);
+    if (!scope) return res.status(400).json(notLinkedError);
+
+    try {
+      res.json(await runReportDefinition(pool, definition, scope));
+    } catch (err) {
+      console.error("Report builder error:", err);
+      res.status(500).json({ error: "Failed to run report" });
+    }
+  },
+);
+
+app.get(
+  "/api/report-definitions",
+  authenticateToken,
+  requireScopedPermission("reports:read", "report"),
+  async (req, res) => {
+    try {
+      res.json(await listSavedReports(pool, req.user));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch saved reports" });
+    }
+  },
+);
+
+app.get(
+  "/api/report-definitions/:id",
+  authenticateToken,
+  requireScopedPermission("reports:read", "report"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Saved report not found" });
+    }
+    try {
+      const report = await getSavedReport(pool, id);
+      if (!report || !canViewSavedReport(req.user, report)) {
+        return res.status(404).json({ error: "Saved report not found" });
+      }
+      res.json(report);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch saved report" });
+    }
+  },
+);
+
+app.post(
+  "/api/report-definitions/:id/run",
+  authenticateToken,
+  requireScopedPermission("reports:read", "report"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Saved report not found" });
+    }
+    const scope = reportScope(req);
+    if (!scope) return res.status(400).json(notLinkedError);
+
+    try {
+      const report = await getSavedReport(pool, id);
+      if (!report || !canViewSavedReport(req.user, report)) {
+        return res.status(404).json({ error: "Saved report not found" });
+      }
+      res.json(await runReportDefinition(pool, report.definition, scope));
+    } catch (err) {
+      console.error("Report builder error:", err);
+      res.status(500).json({ error: "Failed to run report" });
+    }
+  },
+);
+
+app.post(
+  "/api/report-definitions",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { name, description, definition, sharedRoles } = req.body;
+    const errors = [
+      ...validateSavedReport({ name, description, sharedRoles }).errors,
+      ...validateReportDefinition(definition).errors,
+    ];
+    if (errors.length > 0) {
+      return res
+        .status(400)
+        .json({ error: "VALIDATION_FAILED", details: errors });
+    }
+
+    try {
+      const result = await pool.query(
+        `INSERT INTO report_definitions (name, description, definition, shared_roles, owner_id, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          name.trim(),
+          description ? description.trim() : null,
+          JSON.stringify(normalizeReportDefinition(definition)),
+          [...new Set(sharedRoles || [])],
+          req.user.id,
+          req.user.username,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "report_definition",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+      res.status(201).json(mapSavedReport(result.rows[0]));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to save report" });
+    }
+  },
+);
+
+app.put(
+  "/api/report-definitions/:id",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Saved report not found" });
+    }
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM report_definitions WHERE id = $1",
+        [id],
+      );
+      const stored = beforeResult.rows.length > 0 ? mapSavedReport(beforeResult.rows[0]) : null;
+      if (!stored || !canViewSavedReport(req.user, stored)) {
+        return res.status(404).json({ error: "Saved report not found" });
+      }
+      if (!canEditSavedReport(req.user, stored)) {
+        return res.status(403).json({ error: "Only the owner can change this report" });
+      }
+
+      const merged = { ...stored };
+      ["name", "description", "definition", "sharedRoles"].forEach((field) => {
+        if (req.body[field] !== undefined) merged[field] = req.body[field];
+      });
+      const errors = [
+        ...validateSavedReport(merged).errors,
+        ...validateReportDefinition(merged.definition).errors,
+      ];
+      if (errors.length > 0) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const result = await pool.query(
+        `UPDATE report_definitions
+         SET name = $1, description = $2, definition = $3, shared_roles = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5
+         RETURNING *`,
+        [
+          merged.name.trim(),
+          merged.description ? merged.description.trim() : null,
+          JSON.stringify(normalizeReportDefinition(merged.definition)),
+          [...new Set(merged.sharedRoles || [])],
+          id,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "report_definition",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+      });
+      res.json(mapSavedReport(result.rows[0]));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update saved report" });
+    }
+  },
+);
+
+app.delete(
+  "/api/report-definitions/:id",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Saved report not found" });
+    }
+    try {
+      const report = await getSavedReport(pool, id);
+      if (!report || !canViewSavedReport(req.user, report)) {
+        return res.status(404).json({ error: "Saved report not found" });
+      }
+      if (!canEditSavedReport(req.user, report)) {
+        return res.status(403).json({ error: "Only the owner can delete this report" });
+      }
+      const result = await pool.query(
+        "DELETE FROM report_definitions WHERE id = $1 RETURNING *",
+        [id],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "report_definition",
+        entityId: id,
+        before: result.rows[0],
+      });
+      res.json({ message: "Saved report deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete saved report" });
+    }
+  },
+);
+
+// ==========================================
+// REPORT SUBSCRIPTIONS
+// ==========================================
+
+const REPORT_SUBSCRIPTION_FIELDS = [
+  "name",
+  "reportType",
+  "params",
+  "format",
+  "cadence",
+  "channel",
+  "recipientUserIds",
+  "recipientEmails",
+  "isActive",
+];
+const REPORT_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+// Delivery channels for scheduled reports. Emails go through the send log
+// and are sent once the report is queued.
+const REPORT_CHANNEL_HANDLERS = {
+  inbox: async (db, delivery, subscription) => {
+    const outcome = await deliverToInbox(db, delivery, subscription);
+    if (outcome.recipients > 0) {
+      emitEvent("report:update", {
+        type: "INBOX",
+        data: { deliveryId: String(delivery.id), title: delivery.title, userIds: outcome.userIds },
+      });
+    }
+    return outcome;
+  },
+  email: async (db, delivery, subscription, context) => {
+    const queued = await queueReportEmails(db, delivery, subscription, context);
+    if (queued.length > 0) {
+      sendEmailsInBackground(queued.map((row) => row.id));
+    }
+    return { recipients: queued.length };
+  },
+};
+
+// Delivers the subscriptions that are due. Errors are logged; a failed
+// delivery is recorded on its subscription.
+async function sendScheduledReports() {
+  try {
+    const results = await runReportSubscriptionJob(pool, REPORT_CHANNEL_HANDLERS);
+    for (const result of results) {
+      if (result.error) {
+        console.error(`Report subscription ${result.subscription.id} failed:`, result.error);
+      }
+      emitEvent("report:update", {
+        type: "RUN",
+        data: await getReportSubscription(pool, result.subscription.id),
+      });
+    }
+  } catch (err) {
+    console.error("Report subscription error:", err);
+  }
+}
+
+// Validates a subscription and its recipients and resolves its fund to the
+// fund's name. Returns { subscription } or { errors }.
+async function prepareReportSubscription(input) {
+  const errors = validateReportSubscription(input).errors;
+  if (errors.length > 0) return { errors };
+
+  const subscription = normalizeReportSubscription(input);
+  const invalid = await findInvalidRecipients(pool, subscription.recipientUserIds);
+  if (invalid.length > 0) {
+    errors.push(`INVALID_RECIPIENTS: Users ${invalid.join(", ")} cannot receive reports.`);
+  }
+  if (subscription.params.fund) {
+    const fund = await findFund(pool, subscription.params.fund);
+    if (fund) {
+      subscription.params.fund = fund.name;
+    } else {
+      errors.push(`INVALID_FUND: Fund "${subscription.params.fund}" does not exist.`);
+    }
+  }
+  return errors.length > 0 ? { errors } : { subscription };
+}
+
+app.get(
+  "/api/report-subscriptions",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    try {
+      res.json(await listReportSubscriptions(pool));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch report subscriptions" });
+    }
+  },
+);
+
+// NOTE: /recipients MUST come before /:id
+app.get(
+  "/api/report-subscriptions/recipients",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    try {
+      res.json(await listReportRecipients(pool));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch report recipients" });
+    }
+  },
+);
+
+app.get(
+  "/api/report-subscriptions/:id",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report subscription not found" });
+    }
+    try {
+      const subscription = await getReportSubscription(pool, id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Report subscription not found" });
+      }
+      res.json(subscription);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch report subscription" });
+    }
+  },
+);
+
+app.post(
+  "/api/report-subscriptions",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    const input = { format: "pdf", channel: "inbox" };
+    REPORT_SUBSCRIPTION_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) input[field] = req.body[field];
+    });
+
+    try {
+      const { subscription, errors } = await prepareReportSubscription(input);
+      if (errors) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      const row = await createReportSubscription(pool, subscription, req.user.username);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "report_subscription",
+        entityId: row.id,
+        after: row,
+      });
+      const created = mapReportSubscription(row);
+      emitEvent("report:update", { type: "CREATE", data: created, by: req.user.username });
+      res.status(201).json(created);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create report subscription" });
+    }
+  },
+);
+
+app.put(
+  "/api/report-subscriptions/:id",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report subscription not found" });
+    }
+    try {
+      const beforeResult = await pool.query(
+        "SELECT * FROM report_subscriptions WHERE id = $1",
+        [id],
+      );
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Report subscription not found" });
+      }
+      const before = beforeResult.rows[0];
+      const stored = mapReportSubscription(before);
+
+      const changes = {};
+      REPORT_SUBSCRIPTION_FIELDS.forEach((field) => {
+        if (req.body[field] !== undefined) changes[field] = req.body[field];
+      });
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      const { subscription, errors } = await prepareReportSubscription({ ...stored, ...changes });
+      if (errors) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: errors });
+      }
+
+      // A new cadence or a resumed subscription is scheduled from now
+      const reschedule =
+        subscription.cadence !== stored.cadence || (subscription.isActive && !stored.isActive);
+      const row = await updateReportSubscription(pool, id, subscription, { reschedule });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "report_subscription",
+        entityId: id,
+        before,
+        after: row,
+      });
+      const updated = mapReportSubscription(row);
+      emitEvent("report:update", { type: "UPDATE", data: updated, by: req.user.username });
+      res.json(updated);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update report subscription" });
+    }
+  },
+);
+
+app.delete(
+  "/api/report-subscriptions/:id",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report subscription not found" });
+    }
+    try {
+      // Reports already delivered stay in their recipients' inboxes
+      const result = await pool.query(
+        "DELETE FROM report_subscriptions WHERE id = $1 RETURNING *",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Report subscription not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "report_subscription",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("report:update", { type: "DELETE", id });
+      res.json({ message: "Report subscription deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete report subscription" });
+    }
+  },
+);
+
+// Delivers a subscription now for the period just ended, without changing
+// its schedule
+app.post(
+  "/api/report-subscriptions/:id/run",
+  authenticateToken,
+  requirePermission("reports:schedule"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report subscription not found" });
+    }
+    try {
+      const subscription = await getReportSubscription(pool, id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Report subscription not found" });
+      }
+      const { delivery, recipients } = await deliverSubscription(
+        pool,
+        subscription,
+        REPORT_CHANNEL_HANDLERS,
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "SEND",
+        entityType: "report_subscription",
+        entityId: id,
+        metadata: { deliveryId: delivery.id, channel: subscription.channel, recipients },
+      });
+      const updated = await getReportSubscription(pool, id);
+      emitEvent("report:update", { type: "RUN", data: updated, by: req.user.username });
+      res.json({ subscription: updated, deliveryId: String(delivery.id), recipients });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to run report subscription" });
+    }
+  },
+);
+
+app.get(
+  "/api/report-inbox",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    try {
+      res.json(await listReportInbox(pool, req.user.id, req.query));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch report inbox" });
+    }
+  },
+);
+
+app.get(
+  "/api/report-inbox/:id/download",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report not found" });
+    }
+    try {
+      const opened = await openReportInboxItem(pool, req.user.id, id);
+      if (!opened) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.setHeader("Content-Type", opened.item.format === "csv" ? "text/csv" : "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${opened.item.filename}"`);
+      res.send(opened.content);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to download report" });
+    }
+  },
+);
+
+app.delete(
+  "/api/report-inbox/:id",
+  authenticateToken,
+  requirePermission("reports:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Report not found" });
+    }
+    try {
+      if (!(await deleteReportInboxItem(pool, req.user.id, id))) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json({ message: "Report removed from inbox" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to remove report" });
+    }
+  },
+);
+
+// ==========================================
+// USER MANAGEMENT API (Phase 4)
+// ==========================================
+
+const { canManageRole } = require("./rbac");
+
+// List all users (admin+)
+// Get Single Member Report Data (JSON)
+app.get(
+  "/api/members/:id/report",
+  authenticateToken,
+  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      // 1. Fetch Member
+      const memberRes = await pool.query(
+        "SELECT * FROM members WHERE id = $1",
+        [id],
+      );
+      if (memberRes.rows.length === 0) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      const member = memberRes.rows[0];
+
+      // 2. Fetch Aggregates
+      const statsRes = await pool.query(
+        `
+        SELECT
+          COALESCE(SUM(amount), 0) as lifetime_total,
+          MAX(donation_date) as last_donation_date,
+          COUNT(*) as donation_count
+        FROM donations
+        WHERE member_id = $1
+      `,
+        [id],
+      );
+      const stats = statsRes.rows[0];
+
+      // 3. Last Donation Amount
+      const lastDonationRes = await pool.query(
+        `
+        SELECT amount FROM donations
+        WHERE member_id = $1
+        ORDER BY donation_date DESC
+        LIMIT 1
+      `,
+        [id],
+      );
+      const lastDonationAmount =
+        lastDonationRes.rows.length > 0
+          ? parseFloat(lastDonationRes.rows[0].amount)
+          : 0;
+
+      // 4. Recent Activity
+      const historyRes = await pool.query(
+        `
+        SELECT id, amount, fund, donation_date
+        FROM donations
+        WHERE member_id = $1
+        ORDER BY donation_date DESC
+        LIMIT 20
+      `,
+        [id],
+      );
+
+      // 5. Calculate Tenure
+      let yearsOfMembership = 0;
+      if (member.joined_at) {
+        const joinDate = new Date(member.joined_at);
+        const now = new Date();
+        const diffTime = Math.abs(now - joinDate);
+        yearsOfMembership = parseFloat(
+          (diffTime / (1000 * 60 * 60 * 24 * 365.25)).toFixed(1),
+        );
+      }
+
+      res.json({
+        member: {
+          id: member.id,
+          firstName: member.first_name,
+          lastName: member.last_name,
+          email: member.email,
+          joinedAt: member.joined_at,
+        },
+        stats: {
+          lifetimeGiving: parseFloat(stats.lifetime_total),
+          lastDonationDate: stats.last_donation_date,
+          lastDonationAmount,
+          donationCount: parseInt(stats.donation_count),
+          yearsOfMembership,
+        },
+        recentActivity: historyRes.rows.map((row) => ({
+          id: row.id,
+          amount: parseFloat(row.amount),
+          fund: row.fund,
+          date: row.donation_date,
+        })),
+      });
+    } catch (err) {
+      console.error("Member report error:", err);
+      res.status(500).json({ error: "Failed to generate member report" });
+    }
+  },
+);
+
+// Get Single Member Report PDF
+app.get(
+  "/api/members/:id/report/pdf",
+  authenticateToken,
+  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  async (req, res) => {
+    const { id } = req.params;
+    try {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=member-report-${id}.pdf`,
+      );
+      await generateMemberReportPDF(pool, id, res);
+    } catch (err) {
+      console.error("PDF Report Error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to generate PDF" });
+      } else {
+        res.end();
+      }
+    }
+  },
+);
+
+app.get(
+  "/api/users",
+  authenticateToken,
+  requirePermission("users:read"),
+  async (req, res) => {
+    try {
+      const result = await pool.query(`
+      SELECT 
+        id, username, role, email, member_id,
+        created_at, last_login_at,
+        failed_login_attempts, locked_until,
+        must_change_password
+      FROM users
+      ORDER BY created_at DESC
+    `);
+
+      res.json(
+        result.rows.map((user) => ({
+          id: user.id,
+          username: user.username,
+          role: user.role,
+          email: user.email,
+          memberId: user.member_id,
+          createdAt: user.created_at,
+          lastLoginAt: user.last_login_at,
+          isLocked:
+            user.locked_until && new Date(user.locked_until) > new Date(),
+          lockedUntil: user.locked_until,
+          failedAttempts: user.failed_login_attempts,
+          mustChangePassword: user.must_change_password,
+        })),
+      );
+    } catch (err) {
+      console.error("List users error:", err);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  },
+);
+
+// Create new user (admin+)
+app.post(
+  "/api/users",
+  authenticateToken,
+  requirePermission("users:write"),
+  async (req, res) => {
+    // SECURITY: Whitelist only allowed fields (mass assignment prevention)
+    const { username: wUsername, password: wPassword, role: wRole, email: wEmail, memberId: wMemberId } = req.body || {};
+
+    if (!wUsername || !wPassword) {
+      return res
+        .status(400)
+        .json({ error: "Username and password are required" });
+    }
+
+    // Validate username format (lowercase alphanumeric + underscore/hyphen, 3-50 chars)
+    if (!/^[a-zA-Z0-9_-]{3,50}$/.test(wUsername)) {
+      return res.status(400).json({ error: "Username must be 3-50 characters (alphanumeric, -, _)" });
+    }
+
+    // Validate password policy
+    const policyCheck = validatePasswordPolicy(wPassword);
+    if (!policyCheck.valid) {
+      return res.status(400).json({
+        error: "Password policy violation",
+        details: policyCheck.errors,
+      });
+    }
+
+    // Validate email format if provided
+    let wEmailValidated = null;
+    if (wEmail && /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(wEmail)) {
+      wEmailValidated = wEmail.toLowerCase().trim();
+    } else if (wEmail) {
+      return res.status(400).json({ error: "Invalid email format" });
+    }
+
+    // Validate role only against assignable list (role escalation prevention)
+    let validatedRole = null;
+    if (wRole && wRole !== "") {
+      const assignableRoles = getAssignableRoles(req.user.role);
+      if (assignableRoles.includes(wRole)) {
+        validatedRole = wRole;
+      } else {
+        return res.status(400).json({ error: "Invalid role value" });
+      }
+    }
+
+    // Validate memberId format (UUID-like) if provided
+    const wMemberIdValidated = (wMemberId && typeof wMemberId === "string" && wMemberId.length <= 64) ? wMemberId : null;
+
+    // Check if current user can assign the requested role
+    const finalRole = validatedRole || "viewer";
+    if (!canManageRole(req.user.role, finalRole)) {
+      return res.status(403).json({
+        error: "Cannot assign role equal to or higher than your own",
+        code: "ROLE_ESCALATION",
+      });
+    }
+
+    try {
+      // Check if username exists
+      const existing = await pool.query(
+        "SELECT id FROM users WHERE username = $1",
+        [wUsername],
+      );
+      if (existing.rows.length > 0) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const passwordHash = await bcrypt.hash(wPassword, 12);
+
+      const result = await pool.query(
+        `
+      INSERT INTO users (username, password_hash, role, email, must_change_password, member_id)
+      VALUES ($1, $2, $3, $4, true, $5)
+      RETURNING id, username, role, email, created_at, must_change_password, member_id
+    `,
+        [
+          wUsername,
+          passwordHash,
+          finalRole,
+          wEmailValidated || null,
+          wMemberIdValidated || null,
+        ],
+      );
+
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "user",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
+      });
+
+      emitEvent("user:update", { type: "CREATE", data: result.rows[0] });
+
+      res.status(201).json({
+        id: result.rows[0].id,
+        username: result.rows[0].username,
+        role: result.rows[0].role,
+        email: result.rows[0].email,
+        createdAt: result.rows[0].created_at,
+        mustChangePassword: result.rows[0].must_change_password,
+      });
+    } catch (err) {
+      console.error("Create user error:", err);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  },
+);
+
+// Update user (username, role, email) - admin+
+app.put(
+  "/api/users/:id",
+  authenticateToken,
+  requirePermission("users:write"),
+  async (req, res) => {
+    const { id } = req.params;
+    // SECURITY: Whitelist only allowed fields (mass assignment prevention)
+    const sanitized = req.body;
+    const wUsername = sanitized.username;
+    const wRole = sanitized.role;
+    const wEmail = sanitized.email;
+    const wMemberId = sanitized.memberId;
+
+    // Validate username format if provided
+    if (wUsername !== undefined && wUsername !== null && !/^[a-zA-Z0-9_-]{3,50}$/.test(wUsername)) {
+      return res.status(400).json({ error: "Username must be 3-50 characters (alphanumeric, -, _)" });
+    }
+
+    // Validate email format if provided
+    let wEmailValidated = undefined;
+    if (wEmail !== undefined && wEmail !== null) {
+      if (wEmail === "") {
+        wEmailValidated = null;
+      } else if (!/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(wEmail)) {
+        return res.status(400).json({ error: "Invalid email format" });
+      } else {
+        wEmailValidated = wEmail.toLowerCase().trim();
+      }
+    }
+
+    // Validate role against assignable list if provided
+    let wRoleValidated = undefined;
+    if (wRole !== undefined && wRole !== null) {
+      const assignableRoles = getAssignableRoles(req.user.role);
+      if (!assignableRoles.includes(wRole)) {
+        return res.status(400).json({ error: "Invalid role value" });
+      }
+      wRoleValidated = wRole;
+    }
+
+    // Validate memberId format if provided
+    const wMemberIdValidated = (wMemberId !== undefined && wMemberId !== null && typeof wMemberId === "string" && wMemberId.length <= 64) ? wMemberId : undefined;
+
+    // Determine if any non-empty updates are requested — ignore absent fields
+    const updates = [];
+    const values = [];
+    let paramCount = 1;
+
+    if (wUsername !== undefined && wUsername !== null) {
+      updates.push(`username = $${paramCount++}`);
+      values.push(wUsername);
+    }
+    if (wRoleValidated !== undefined) {
+      updates.push(`role = $${paramCount++}`);
+      values.push(wRoleValidated);
+    }
+    if (wEmailValidated !== undefined) {
+      updates.push(`email = $${paramCount++}`);
+      values.push(wEmailValidated);
+    }
+    if (wMemberIdValidated !== undefined) {
+      updates.push(`member_id = $${paramCount++}`);
+      values.push(wMemberIdValidated);
+    }
+
+    // Self modification guard still applies with sanitized vars
+    if (
+      parseInt(id) === req.user.id &&
+      ((wRoleValidated && !canManageRole(req.user.role, wRoleValidated)) || wUsername)
+    ) {
+      return res.status(403).json({
+        error: "Cannot change your own role or username. Please use account settings.",
+        code: "SELF_MODIFICATION",
+      });
+    }
+
+    // Only apply role escalation checks if a new role is being set
+    let finalRoleValidated = wRoleValidated;
+    if (finalRoleValidated !== undefined) {
+      if (!canManageRole(req.user.role, finalRoleValidated)) {
+        return res.status(403).json({
+          error: "Cannot assign role equal to or higher than your own",
+          code: "ROLE_ESCALATION",
+        });
+      }
+    }
+
+    try {
+      const targetUser = await pool.query(
+        "SELECT id, username, role, email, member_id FROM users WHERE id = $1",
+        [id],
+      );
+      if (targetUser.rows.length === 0) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // If username is being changed, check for conflicts
+      if (wUsername !== undefined && wUsername !== null) {
+        const existing = await pool.query(
+          "SELECT id FROM users WHERE username = $1 AND id != $2",
+          [wUsername, parseInt(id)],
+        );
+        if (existing.rows.length > 0) {
+          return res.status(409).json({ error: "Username already exists" });
+        }
+      }
+
+      if (updates.length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      // Append the WHERE clause ID to the end of values array
+      values.push(parseInt(id));
+      
+      const result = await pool.query(
+        `UPDATE users SET ${updates.join(", ")}, updated_at = NOW()
+         WHERE id = $${paramCount}
+         RETURNING id, username, role, email, member_id`,
+        values,
+      );
+
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "user",
+        entityId: id,
+        before: targetUser.rows[0],
+        after: result.rows[0],
+      });
+
+      emitEvent("user:update", { type: "UPDATE", data: result.rows[0] });
+
+      res.json(result.rows[0]);
+    } catch (err) {
+      if (err.code === "23505") {
+        // unique_violation for username
+        return res.status(409).json({ error: "Username already exists." });
+      }
+      console.error("Update user error:", err);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  },
+);
+
+// Delete/disable user (admin+)
+app.delete(
+  "/api/users/:id",
   authenticateToken,
-  requirePermission("members:read"),
+  requirePermission("users:delete"),
   async (req, res) => {
     const { id } = req.params;
+
+    // Prevent self-deletion
+    if (parseInt(id) === req.user.id) {
+      return res.status(403).json({
+        error: "Cannot delete your own account",
+        code: "SELF_DELETION",
+      });
+    }
+
     try {
-      const oppResult = await pool.query(
-        "SELECT * FROM ministry_opportunities WHERE id = $1",
+      // Get target user
+      const targetUser = await pool.query(
+        "SELECT id, username, role, email, member_id FROM users WHERE id = $1",
         [id],
       );
-      if (oppResult.rows.length === 0) {
-        return res.status(404).json({ error: "Opportunity not found" });
+      if (targetUser.rows.length === 0) {
+        return res.status(404).json({ error: "User not found" });
       }
-      const opportunity = oppResult.rows[0];
 
-      // Simple matching logic: find members with at least one overlapping skill
-      const matchResult = await pool.query(
-        `SELECT id, first_name, last_name, skills, interests 
-         FROM members 
-         WHERE skills && $1 OR interests && $1
-         LIMIT 10`,
-        [opportunity.required_skills],
-      );
+      // Prevent deleting super_admin
+      if (targetUser.rows[0].role === "super_admin") {
+        return res.status(403).json({
+          error: "Cannot delete super admin accounts",
+          code: "PROTECTED_ACCOUNT",
+        });
+      }
 
-      res.json({
-        opportunity,
-        matches: matchResult.rows.map((m) => ({
-          memberId: m.id,
-          name: `${m.first_name} ${m.last_name}`,
-          skills: m.skills,
-          matchScore: 0.85,
-        })),
+      // Check if can manage target user's role
+      if (!canManageRole(req.user.role, targetUser.rows[0].role)) {
+        return res.status(403).json({
+          error: "Cannot delete user with role equal to or higher than yours",
+          code: "INSUFFICIENT_PRIVILEGE",
+        });
+      }
+
+      await pool.query("DELETE FROM users WHERE id = $1", [id]);
+
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "user",
+        entityId: id,
+        before: targetUser.rows[0],
       });
+
+      emitEvent("user:update", { type: "DELETE", id });
+
+      res.json({ message: "User deleted successfully" });
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Delete user error:", err);
+      res.status(500).json({ error: "Failed to delete user" });
     }
   },
 );
 
-// CommunityBridge: Manage Stewardship Campaigns
-app.get("/api/stewardship/campaigns", authenticateToken, async (req, res) => {
-  try {
-    // Get all active campaigns and their current progress
-    const result = await pool.query(`
-        SELECT 
-          c.*,
-          COALESCE(SUM(d.amount), 0) as current_amount
-        FROM fund_campaigns c
-        LEFT JOIN donations d ON c.fund_name = d.fund
-        WHERE c.is_active = true
-        GROUP BY c.id
-        ORDER BY c.created_at DESC
-      `);
-    res.json(result.rows);
-  } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Internal server error" });
-  }
-});
-
+// Unlock user account (admin+)
 app.post(
-  "/api/stewardship/campaigns",
+  "/api/users/:id/unlock",
   authenticateToken,
-  requirePermission("donations:write"),
+  requirePermission("users:write"),
   async (req, res) => {
-    const { fundName, title, description, goalAmount, endDate } = req.body;
+    const { id } = req.params;
+
     try {
       const result = await pool.query(
-        "INSERT INTO fund_campaigns (fund_name, title, description, goal_amount, end_date) VALUES ($1, $2, $3, $4, $5) RETURNING *",
-        [fundName, title, description, goalAmount, endDate],
+        `
+      UPDATE users 
+      SET locked_until = NULL, failed_login_attempts = 0
+      WHERE id = $1
+      RETURNING id, username
+    `,
+        [id],
       );
-      res.status(201).json(result.rows[0]);
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UNLOCK",
+        entityType: "user",
+        entityId: id,
+        metadata: { username: result.rows[0].username },
+      });
+
+      res.json({ message: "Account unlocked successfully" });
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Unlock user error:", err);
+      res.status(500).json({ error: "Failed to unlock user" });
     }
   },
 );
 
-// Phase 3: Quarterly Progress Summary
-app.get(
-  "/api/reports/quarterly-progress",
+// Force password reset (admin+)
+app.post(
+  "/api/users/:id/reset-password",
   authenticateToken,
-  requirePermission("reports:read"),
+  requirePermission("users:write"),
   async (req, res) => {
-    const { year } = req.query;
-    if (!year) return res.status(400).json({ error: "Year is required" });
+    const { id } = req.params;
+    const { newPassword } = req.body;
+
+    if (!newPassword) {
+      return res.status(400).json({ error: "New password is required" });
+    }
+
+    // Validate password policy
+    const policyCheck = validatePasswordPolicy(newPassword);
+    if (!policyCheck.valid) {
+      return res.status(400).json({
+        error: "Password policy violation",
+        details: policyCheck.errors,
+      });
+    }
 
     try {
-      const result = await pool.query(
+      // Get target user
+      const targetUser = await pool.query(
+        "SELECT username, role FROM users WHERE id = $1",
+        [id],
+      );
+      if (targetUser.rows.length === 0) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Check if can manage target user's role
+      if (!canManageRole(req.user.role, targetUser.rows[0].role)) {
+        return res.status(403).json({
+          error:
+            "Cannot reset password for user with role equal to or higher than yours",
+          code: "INSUFFICIENT_PRIVILEGE",
+        });
+      }
+
+      const passwordHash = await bcrypt.hash(newPassword, 12);
+
+      await pool.query(
         `
-      SELECT 
-        EXTRACT(YEAR FROM donation_date)::int as year,
-        EXTRACT(QUARTER FROM donation_date)::int as quarter, 
-        SUM(amount) as total
-      FROM donations
-      WHERE EXTRACT(YEAR FROM donation_date) IN ($1::int, $1::int - 1)
-      GROUP BY year, quarter
-      ORDER BY year, quarter
+      UPDATE users 
+      SET password_hash = $1, 
+          must_change_password = true,
+          password_changed_at = NOW(),
+          locked_until = NULL,
+          failed_login_attempts = 0
+      WHERE id = $2
     `,
-        [year],
+        [passwordHash, id],
       );
-      res.json(result.rows);
+
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "RESET_PASSWORD",
+        entityType: "user",
+        entityId: id,
+        metadata: { username: targetUser.rows[0].username },
+      });
+
+      res.json({
+        message:
+          "Password reset successfully. User must change password on next login.",
+      });
     } catch (err) {
-      console.error("Quarterly progress error:", err);
-      res.status(500).json({ error: "Failed to fetch quarterly progress" });
+      console.error("Reset password error:", err);
+      res.status(500).json({ error: "Failed to reset password" });
     }
   },
 );
 
-// GraceForecast: At-Risk Donor Prediction
+// Get available roles (for dropdowns)
 app.get(
-  "/api/forecast/at-risk",
+  "/api/roles",
   authenticateToken,
-  requirePermission("reports:read"),
+  requirePermission("users:read"),
   async (req, res) => {
-    try {
-      const atRiskData = await getAtRiskDonors(pool);
-      res.json(atRiskData);
-    } catch (err) {
-      console.error("Forecast error:", err);
-      res.status(500).json({ error: "Failed to generate forecast" });
-    }
+    const { ROLE_LEVELS } = require("./rbac");
+
+    // Only return roles that the current user can assign
+    const userLevel = ROLE_LEVELS[req.user.role] || 0;
+
+    const assignableRoles = Object.entries(ROLE_LEVELS)
+      .filter(
+        ([role, level]) => level < userLevel || req.user.role === "super_admin",
+      )
+      .map(([role, level]) => ({
+        name: role,
+        level,
+        label: role.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase()),
+      }))
+      .sort((a, b) => b.level - a.level);
+
+    res.json(assignableRoles);
   },
 );
 
-// Phase 3: Trend Analysis (3 Year)
-app.get(
-  "/api/reports/trend-analysis",
+// ==========================================
+// SETTINGS API
+// ==========================================
+
+// Get current settings (publicly accessible)
+const SETTINGS_COLUMNS =
+  "name, address, phone, email, tax_id, statement_intro, statement_disclosure, statement_signer_name, statement_signer_title, follow_up_assignee_id, " +
+  "acknowledgment_mode, acknowledgment_threshold, " +
+  RISK_THRESHOLDS.map((t) => t.column).join(", ");
+
+const mapSettingsRow = (settings) => ({
+  name: settings.name,
+  address: settings.address,
+  phone: settings.phone,
+  email: settings.email,
+  taxId: settings.tax_id,
+  statementIntro: settings.statement_intro,
+  statementDisclosure: settings.statement_disclosure,
+  statementSignerName: settings.statement_signer_name,
+  statementSignerTitle: settings.statement_signer_title,
+  followUpAssigneeId: settings.follow_up_assignee_id ?? null,
+  ...mapAcknowledgmentSettings(settings),
+  ...Object.fromEntries(
+    Object.entries(mapRiskThresholds(settings)).map(([key, value]) => [
+      RISK_THRESHOLDS.find((t) => t.key === key).setting,
+      value,
+    ]),
+  ),
+});
+
+app.get("/api/settings", async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${SETTINGS_COLUMNS} FROM settings WHERE singleton_id = true`,
+    );
+    if (result.rows.length === 0) {
+      // This should ideally not happen if seeding works
+      return res.status(404).json({ error: "Settings not found" });
+    }
+    res.json(mapSettingsRow(result.rows[0]));
+  } catch (err) {
+    console.error("Get settings error:", err);
+    res.status(500).json({ error: "Failed to fetch settings" });
+  }
+});
+
+// Update settings (admin only)
+app.put(
+  "/api/settings",
   authenticateToken,
-  requirePermission("reports:read"),
+  requirePermission("settings:write"),
   async (req, res) => {
-    try {
-      const result = await pool.query(`
-      SELECT 
-        EXTRACT(YEAR FROM donation_date)::int as year,
-        SUM(amount) as total
-      FROM donations
-      WHERE donation_date > NOW() - INTERVAL '3 years'
-      GROUP BY year
-      ORDER BY year
-    `);
-      res.json(result.rows);
+    const name = req.body.name;
+    const address = req.body.address !== undefined ? req.body.address : null;
+    const phone = req.body.phone !== undefined ? req.body.phone : null;
+    const email = req.body.email !== undefined ? req.body.email : null;
+    const taxIdInput = req.body.taxId !== undefined ? req.body.taxId : null;
+    // Statement template: blank values fall back to the defaults
+    const optionalText = (value) =>
+      value !== undefined && value !== null && String(value).trim() !== "" ? String(value).trim() : null;
+    const statementIntro = optionalText(req.body.statementIntro);
+    const statementDisclosure = optionalText(req.body.statementDisclosure);
+    const statementSignerName = optionalText(req.body.statementSignerName);
+    const statementSignerTitle = optionalText(req.body.statementSignerTitle);
+    if (!name) {
+      return res.status(400).json({ error: "Church name is required" });
+    }
+    // Type coercion & validation per field
+    const safeAddress = address !== null ? String(address).trim() : null;
+    const safePhone = phone !== null ? String(phone) : null;
+    const safeEmail = email !== null && email.trim() !== '' ? String(email).trim().toLowerCase() : null;
+    const safeTaxId = taxIdInput !== null ? String(taxIdInput) : null;
+    try {
+      const beforeResult = await pool.query(
+        `SELECT ${SETTINGS_COLUMNS} FROM settings WHERE singleton_id = true`,
+      );
+      // At-risk thresholds left out of the request keep their current values
+      const thresholdCheck = validateRiskThresholds(
+        req.body,
+        mapRiskThresholds(beforeResult.rows[0]),
+      );
+      if (!thresholdCheck.isValid) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: thresholdCheck.errors });
+      }
+      // Acknowledgment mode and threshold left out keep their current values
+      const acknowledgmentCheck = validateAcknowledgmentSettings(req.body);
+      if (!acknowledgmentCheck.isValid) {
+        return res
+          .status(400)
+          .json({ error: "VALIDATION_FAILED", details: acknowledgmentCheck.errors });
+      }
+      const acknowledgmentMode = req.body.acknowledgmentMode ?? null;
+      const acknowledgmentThreshold =
+        req.body.acknowledgmentThreshold === undefined ||
+        req.body.acknowledgmentThreshold === null ||
+        req.body.acknowledgmentThreshold === ""
+          ? null
+          : Number(req.body.acknowledgmentThreshold);
+      // Default follow-up assignee: omitted keeps the current user, null clears it
+      let followUpAssigneeId = beforeResult.rows[0].follow_up_assignee_id;
+      if (req.body.followUpAssigneeId !== undefined) {
+        const assignee = req.body.followUpAssigneeId;
+        if (assignee === null || assignee === "") {
+          followUpAssigneeId = null;
+        } else if (/^\d+$/.test(String(assignee)) && (await isAssignable(pool, assignee))) {
+          followUpAssigneeId = Number(assignee);
+        } else {
+          return res.status(400).json({
+            error: "VALIDATION_FAILED",
+            details: ["INVALID_ASSIGNEE: followUpAssigneeId must be a staff user who can work tasks."],
+          });
+        }
+      }
+      const thresholdValues = RISK_THRESHOLDS.map(({ setting }) =>
+        req.body[setting] === undefined || req.body[setting] === null || req.body[setting] === ""
+          ? null
+          : Number(req.body[setting]),
+      );
+      const thresholdAssignments = RISK_THRESHOLDS.map(
+        ({ column }, i) => `${column} = COALESCE($${i + 10}, ${column})`,
+      ).join(", ");
+      const result = await pool.query(
+        `UPDATE settings
+         SET name = $1, address = $2, phone = $3, email = $4, tax_id = $5,
+           statement_intro = $6, statement_disclosure = $7,
+           statement_signer_name = $8, statement_signer_title = $9,
+           ${thresholdAssignments}, follow_up_assignee_id = $${RISK_THRESHOLDS.length + 10},
+           acknowledgment_mode = COALESCE($${RISK_THRESHOLDS.length + 11}, acknowledgment_mode),
+           acknowledgment_threshold = COALESCE($${RISK_THRESHOLDS.length + 12}, acknowledgment_threshold),
+           updated_at = NOW()
+         WHERE singleton_id = true
+         RETURNING ${SETTINGS_COLUMNS}`,
+        [
+          name.trim(),
+          safeAddress,
+          safePhone,
+          safeEmail,
+          safeTaxId,
+          statementIntro,
+          statementDisclosure,
+          statementSignerName,
+          statementSignerTitle,
+          ...thresholdValues,
+          followUpAssigneeId,
+          acknowledgmentMode,
+          acknowledgmentThreshold,
+        ],
+      );
+      const rawSettings = result.rows[0];
+      const updatedSettings = mapSettingsRow(rawSettings);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "settings",
+        entityId: "singleton",
+        before: beforeResult.rows[0],
+        after: rawSettings,
+      });
+      emitEvent("settings:update", updatedSettings);
+      res.json(updatedSettings);
     } catch (err) {
-      console.error("Trend analysis error:", err);
-      res.status(500).json({ error: "Failed to fetch trend analysis" });
+      console.error("Update settings error:", err);
+      res.status(500).json({ error: "Failed to update settings" });
     }
   },
 );
 
 // ==========================================
-// USER MANAGEMENT API (Phase 4)
+// FUNDS API
 // ==========================================
 
-const { canManageRole } = require("./rbac");
+app.get("/api/funds", authenticateToken, async (req, res) => {
+  try {
+    const includeArchived = req.query.includeArchived === "true";
+    res.json(await listFunds(pool, { includeArchived }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch funds" });
+  }
+});
 
-// List all users (admin+)
-// Get Single Member Report Data (JSON)
-app.get(
-  "/api/members/:id/report",
+app.post(
+  "/api/funds",
   authenticateToken,
-  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  requirePermission("settings:write"),
   async (req, res) => {
-    const { id } = req.params;
+    const validation = validateFund(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
+    }
+
     try {
-      // 1. Fetch Member
-      const memberRes = await pool.query(
-        "SELECT * FROM members WHERE id = $1",
-        [id],
-      );
-      if (memberRes.rows.length === 0) {
-        return res.status(404).json({ error: "Member not found" });
+      const parentError = await checkFundParent(pool, null, req.body.parentId);
+      if (parentError) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [parentError] });
       }
-      const member = memberRes.rows[0];
-
-      // 2. Fetch Aggregates
-      const statsRes = await pool.query(
-        `
-        SELECT
-          COALESCE(SUM(amount), 0) as lifetime_total,
-          MAX(donation_date) as last_donation_date,
-          COUNT(*) as donation_count
-        FROM donations
-        WHERE member_id = $1
-      `,
-        [id],
-      );
-      const stats = statsRes.rows[0];
-
-      // 3. Last Donation Amount
-      const lastDonationRes = await pool.query(
-        `
-        SELECT amount FROM donations
-        WHERE member_id = $1
-        ORDER BY donation_date DESC
-        LIMIT 1
-      `,
-        [id],
-      );
-      const lastDonationAmount =
-        lastDonationRes.rows.length > 0
-          ? parseFloat(lastDonationRes.rows[0].amount)
-          : 0;
 
-      // 4. Recent Activity
-      const historyRes = await pool.query(
-        `
-        SELECT id, amount, fund, donation_date
-        FROM donations
-        WHERE member_id = $1
-        ORDER BY donation_date DESC
-        LIMIT 20
-      `,
-        [id],
+      const columns = toFundColumns(req.body);
+      const names = Object.keys(columns);
+      const result = await pool.query(
+        `INSERT INTO funds (${names.join(", ")})
+         VALUES (${names.map((_, i) => `$${i + 1}`).join(", ")}) RETURNING *`,
+        names.map((name) => columns[name]),
       );
-
-      // 5. Calculate Tenure
-      let yearsOfMembership = 0;
-      if (member.joined_at) {
-        const joinDate = new Date(member.joined_at);
-        const now = new Date();
-        const diffTime = Math.abs(now - joinDate);
-        yearsOfMembership = parseFloat(
-          (diffTime / (1000 * 60 * 60 * 24 * 365.25)).toFixed(1),
-        );
-      }
-
-      res.json({
-        member: {
-          id: member.id,
-          firstName: member.first_name,
-          lastName: member.last_name,
-          email: member.email,
-          joinedAt: member.joined_at,
-        },
-        stats: {
-          lifetimeGiving: parseFloat(stats.lifetime_total),
-          lastDonationDate: stats.last_donation_date,
-          lastDonationAmount,
-          donationCount: parseInt(stats.donation_count),
-          yearsOfMembership,
-        },
-        recentActivity: historyRes.rows.map((row) => ({
-          id: row.id,
-          amount: parseFloat(row.amount),
-          fund: row.fund,
-          date: row.donation_date,
-        })),
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "fund",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
       });
+      const fund = mapFund(result.rows[0]);
+      emitEvent("fund:update", { type: "CREATE", data: fund });
+      res.status(201).json(fund);
     } catch (err) {
-      console.error("Member report error:", err);
-      res.status(500).json({ error: "Failed to generate member report" });
+      if (err.code === "23505") {
+        return res.status(409).json({
+          error: "DUPLICATE_FUND",
+          details: ["A fund with that code or name already exists"],
+        });
+      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to create fund" });
     }
   },
 );
 
-// Get Single Member Report PDF
-app.get(
-  "/api/members/:id/report/pdf",
+// Renaming a fund cascades to the donations, pledges and campaigns using it
+app.put(
+  "/api/funds/:id",
   authenticateToken,
-  requireScopedPermission("reports:read", "member", (req) => req.params.id),
+  requirePermission("settings:write"),
   async (req, res) => {
     const { id } = req.params;
-    try {
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=member-report-${id}.pdf`,
-      );
-      await generateMemberReportPDF(pool, id, res);
-    } catch (err) {
-      console.error("PDF Report Error:", err);
-      if (!res.headersSent) {
-        res.status(500).json({ error: "Failed to generate PDF" });
-      } else {
-        res.end();
-      }
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Fund not found" });
+    }
+    const validation = validateFund(req.body, { partial: true });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
+      });
+    }
+    const columns = toFundColumns(req.body);
+    if (Object.keys(columns).length === 0) {
+      return res.status(400).json({ error: "No valid fields to update" });
     }
-  },
-);
 
-app.get(
-  "/api/users",
-  authenticateToken,
-  requirePermission("users:read"),
-  async (req, res) => {
     try {
-      const result = await pool.query(`
-      SELECT 
-        id, username, role, email, member_id,
-        created_at, last_login_at,
-        failed_login_attempts, locked_until,
-        must_change_password
-      FROM users
-      ORDER BY created_at DESC
-    `);
+      const beforeResult = await pool.query("SELECT * FROM funds WHERE id = $1", [id]);
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Fund not found" });
+      }
+      if (columns.parent_id !== undefined) {
+        const parentError = await checkFundParent(pool, id, columns.parent_id);
+        if (parentError) {
+          return res.status(400).json({ error: "VALIDATION_FAILED", details: [parentError] });
+        }
+      }
 
-      res.json(
-        result.rows.map((user) => ({
-          id: user.id,
-          username: user.username,
-          role: user.role,
-          email: user.email,
-          memberId: user.member_id,
-          createdAt: user.created_at,
-          lastLoginAt: user.last_login_at,
-          isLocked:
-            user.locked_until && new Date(user.locked_until) > new Date(),
-          lockedUntil: user.locked_until,
-          failedAttempts: user.failed_login_attempts,
-          mustChangePassword: user.must_change_password,
-        })),
+      const names = Object.keys(columns);
+      const result = await pool.query(
+        `UPDATE funds SET ${names.map((name, i) => `${name} = $${i + 1}`).join(", ")},
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${names.length + 1} RETURNING *`,
+        [...names.map((name) => columns[name]), id],
       );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "fund",
+        entityId: id,
+        before: beforeResult.rows[0],
+        after: result.rows[0],
+      });
+      const fund = mapFund(result.rows[0]);
+      emitEvent("fund:update", { type: "UPDATE", data: fund });
+      res.json(fund);
     } catch (err) {
-      console.error("List users error:", err);
-      res.status(500).json({ error: "Failed to fetch users" });
+      if (err.code === "23505") {
+        return res.status(409).json({
+          error: "DUPLICATE_FUND",
+          details: ["A fund with that code or name already exists"],
+        });
+      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to update fund" });
     }
   },
 );
 
-// Create new user (admin+)
-app.post(
-  "/api/users",
+// Only unused funds can be deleted; funds with history are archived instead
+app.delete(
+  "/api/funds/:id",
   authenticateToken,
-  requirePermission("users:write"),
+  requirePermission("settings:write"),
   async (req, res) => {
-    // SECURITY: Whitelist only allowed fields (mass assignment prevention)
-    const { username: wUsername, password: wPassword, role: wRole, email: wEmail, memberId: wMemberId } = req.body || {};
-
-    if (!wUsername || !wPassword) {
-      return res
-        .status(400)
-        .json({ error: "Username and password are required" });
-    }
-
-    // Validate username format (lowercase alphanumeric + underscore/hyphen, 3-50 chars)
-    if (!/^[a-zA-Z0-9_-]{3,50}$/.test(wUsername)) {
-      return res.status(400).json({ error: "Username must be 3-50 characters (alphanumeric, -, _)" });
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Fund not found" });
     }
-
-    // Validate password policy
-    const policyCheck = validatePasswordPolicy(wPassword);
-    if (!policyCheck.valid) {
-      return res.status(400).json({
-        error: "Password policy violation",
-        details: policyCheck.errors,
+    try {
+      const result = await pool.query("DELETE FROM funds WHERE id = $1 RETURNING *", [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Fund not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "fund",
+        entityId: id,
+        before: result.rows[0],
       });
-    }
-
-    // Validate email format if provided
-    let wEmailValidated = null;
-    if (wEmail && /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(wEmail)) {
-      wEmailValidated = wEmail.toLowerCase().trim();
-    } else if (wEmail) {
-      return res.status(400).json({ error: "Invalid email format" });
-    }
-
-    // Validate role only against assignable list (role escalation prevention)
-    let validatedRole = null;
-    if (wRole && wRole !== "") {
-      const assignableRoles = getAssignableRoles(req.user.role);
-      if (assignableRoles.includes(wRole)) {
-        validatedRole = wRole;
-      } else {
-        return res.status(400).json({ error: "Invalid role value" });
+      emitEvent("fund:update", { type: "DELETE", id });
+      res.json({ message: "Fund deleted successfully" });
+    } catch (err) {
+      if (err.code === "23503") {
+        return res.status(409).json({
+          error: "FUND_IN_USE",
+          details: ["This fund has donations, pledges, recurring gifts or campaigns. Archive it instead."],
+        });
       }
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete fund" });
     }
+  },
+);
 
-    // Validate memberId format (UUID-like) if provided
-    const wMemberIdValidated = (wMemberId && typeof wMemberId === "string" && wMemberId.length <= 64) ? wMemberId : null;
+// ==========================================
+// FUND BUDGETS API
+// ==========================================
 
-    // Check if current user can assign the requested role
-    const finalRole = validatedRole || "viewer";
-    if (!canManageRole(req.user.role, finalRole)) {
-      return res.status(403).json({
-        error: "Cannot assign role equal to or higher than your own",
-        code: "ROLE_ESCALATION",
+// Budget body fields -> the stored line, for merging updates
+const budgetInput = (row) => ({
+  fund: row.fund_name,
+  year: row.budget_year,
+  annualAmount: row.annual_amount,
+  distribution: row.distribution,
+  monthlyAmounts: row.monthly_amounts,
+  notes: row.notes,
+});
+
+app.get(
+  "/api/budgets",
+  authenticateToken,
+  requirePermission("budgets:read"),
+  async (req, res) => {
+    const year = req.query.year || new Date().getFullYear();
+    try {
+      res.json(await listBudgets(pool, year, { fund: req.query.fund || null }));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch budgets" });
+    }
+  },
+);
+
+app.post(
+  "/api/budgets",
+  authenticateToken,
+  requirePermission("budgets:write"),
+  async (req, res) => {
+    const validation = validateBudget(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
       });
     }
 
     try {
-      // Check if username exists
-      const existing = await pool.query(
-        "SELECT id FROM users WHERE username = $1",
-        [wUsername],
-      );
-      if (existing.rows.length > 0) {
-        return res.status(409).json({ error: "Username already exists" });
+      const fundResult = await resolveFundName(pool, req.body.fund);
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
       }
-
-      const passwordHash = await bcrypt.hash(wPassword, 12);
+      const budget = {
+        ...req.body,
+        fund: fundResult.fund,
+        distribution: req.body.distribution || "even",
+      };
+      const monthlyAmounts = await resolveMonthlyAmounts(pool, budget);
 
       const result = await pool.query(
-        `
-      INSERT INTO users (username, password_hash, role, email, must_change_password, member_id)
-      VALUES ($1, $2, $3, $4, true, $5)
-      RETURNING id, username, role, email, created_at, must_change_password, member_id
-    `,
+        `INSERT INTO fund_budgets
+           (fund_name, budget_year, annual_amount, distribution, monthly_amounts, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
         [
-          wUsername,
-          passwordHash,
-          finalRole,
-          wEmailValidated || null,
-          wMemberIdValidated || null,
+          budget.fund,
+          parseInt(budget.year),
+          budget.annualAmount,
+          budget.distribution,
+          monthlyAmounts,
+          budget.notes ? String(budget.notes).trim() : null,
+          req.user.username,
         ],
       );
-
-      console.log(
-        `[AUDIT] User created: ${wUsername} with role ${finalRole} by ${req.user.username}`,
-      );
-
-      emitEvent("user:update", { type: "CREATE", data: result.rows[0] });
-
-      res.status(201).json({
-        id: result.rows[0].id,
-        username: result.rows[0].username,
-        role: result.rows[0].role,
-        email: result.rows[0].email,
-        createdAt: result.rows[0].created_at,
-        mustChangePassword: result.rows[0].must_change_password,
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "fund_budget",
+        entityId: result.rows[0].id,
+        after: result.rows[0],
       });
+      const created = mapBudget(result.rows[0]);
+      emitEvent("budget:update", { type: "CREATE", data: created });
+      res.status(201).json(created);
     } catch (err) {
-      console.error("Create user error:", err);
-      res.status(500).json({ error: "Failed to create user" });
+      if (err.code === "23505") {
+        return res.status(409).json({
+          error: "DUPLICATE_BUDGET",
+          details: ["That fund already has a budget for this year"],
+        });
+      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to create budget" });
     }
   },
 );
 
-// Update user (username, role, email) - admin+
+// Changing the amount or distribution re-spreads the year over the months
 app.put(
-  "/api/users/:id",
+  "/api/budgets/:id",
   authenticateToken,
-  requirePermission("users:write"),
+  requirePermission("budgets:write"),
   async (req, res) => {
     const { id } = req.params;
-    // SECURITY: Whitelist only allowed fields (mass assignment prevention)
-    const sanitized = req.body;
-    const wUsername = sanitized.username;
-    const wRole = sanitized.role;
-    const wEmail = sanitized.email;
-    const wMemberId = sanitized.memberId;
-
-    // Validate username format if provided
-    if (wUsername !== undefined && wUsername !== null && !/^[a-zA-Z0-9_-]{3,50}$/.test(wUsername)) {
-      return res.status(400).json({ error: "Username must be 3-50 characters (alphanumeric, -, _)" });
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Budget not found" });
     }
 
-    // Validate email format if provided
-    let wEmailValidated = undefined;
-    if (wEmail !== undefined && wEmail !== null) {
-      if (wEmail === "") {
-        wEmailValidated = null;
-      } else if (!/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(wEmail)) {
-        return res.status(400).json({ error: "Invalid email format" });
-      } else {
-        wEmailValidated = wEmail.toLowerCase().trim();
+    try {
+      const beforeResult = await pool.query("SELECT * FROM fund_budgets WHERE id = $1", [id]);
+      if (beforeResult.rows.length === 0) {
+        return res.status(404).json({ error: "Budget not found" });
       }
+      const before = beforeResult.rows[0];
+      const merged = { ...budgetInput(before), ...req.body };
+      const validation = validateBudget(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: "VALIDATION_FAILED",
+          details: validation.errors,
+        });
+      }
+      const fundResult = await resolveFundName(pool, merged.fund, { current: before.fund_name });
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
+      }
+      const budget = { ...merged, fund: fundResult.fund };
+      const monthlyAmounts = await resolveMonthlyAmounts(pool, budget);
+
+      const result = await pool.query(
+        `UPDATE fund_budgets
+         SET fund_name = $1, budget_year = $2, annual_amount = $3, distribution = $4,
+             monthly_amounts = $5, notes = $6, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $7 RETURNING *`,
+        [
+          budget.fund,
+          parseInt(budget.year),
+          budget.annualAmount,
+          budget.distribution,
+          monthlyAmounts,
+          budget.notes ? String(budget.notes).trim() : null,
+          id,
+        ],
+      );
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "fund_budget",
+        entityId: id,
+        before,
+        after: result.rows[0],
+      });
+      const updated = mapBudget(result.rows[0]);
+      emitEvent("budget:update", { type: "UPDATE", data: updated });
+      res.json(updated);
+    } catch (err) {
+      if (err.code === "23505") {
+        return res.status(409).json({
+          error: "DUPLICATE_BUDGET",
+          details: ["That fund already has a budget for this year"],
+        });
+      }
+      console.error(err);
+      res.status(500).json({ error: "Failed to update budget" });
     }
+  },
+);
 
-    // Validate role against assignable list if provided
-    let wRoleValidated = undefined;
-    if (wRole !== undefined && wRole !== null) {
-      const assignableRoles = getAssignableRoles(req.user.role);
-      if (!assignableRoles.includes(wRole)) {
-        return res.status(400).json({ error: "Invalid role value" });
+app.delete(
+  "/api/budgets/:id",
+  authenticateToken,
+  requirePermission("budgets:delete"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+    try {
+      const result = await pool.query("DELETE FROM fund_budgets WHERE id = $1 RETURNING *", [id]);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Budget not found" });
       }
-      wRoleValidated = wRole;
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "fund_budget",
+        entityId: id,
+        before: result.rows[0],
+      });
+      emitEvent("budget:update", { type: "DELETE", id });
+      res.json({ message: "Budget deleted successfully" });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete budget" });
     }
+  },
+);
 
-    // Validate memberId format if provided
-    const wMemberIdValidated = (wMemberId !== undefined && wMemberId !== null && typeof wMemberId === "string" && wMemberId.length <= 64) ? wMemberId : undefined;
+// ==========================================
+// DISBURSEMENTS API
+// ==========================================
 
-    // Determine if any non-empty updates are requested — ignore absent fields
-    const updates = [];
-    const values = [];
-    let paramCount = 1;
+// Disbursement body fields -> the stored row, for merging updates
+const disbursementInput = (disbursement) => ({
+  payee: disbursement.payee,
+  amount: disbursement.amount,
+  fund: disbursement.fund,
+  date: disbursement.date,
+  memo: disbursement.memo,
+});
 
-    if (wUsername !== undefined && wUsername !== null) {
-      updates.push(`username = $${paramCount++}`);
-      values.push(wUsername);
-    }
-    if (wRoleValidated !== undefined) {
-      updates.push(`role = $${paramCount++}`);
-      values.push(wRoleValidated);
+app.get(
+  "/api/disbursements",
+  authenticateToken,
+  requirePermission("disbursements:read"),
+  async (req, res) => {
+    const { status, fund, startDate, endDate, page, limit } = req.query;
+    try {
+      res.json(await listDisbursements(pool, { status, fund, startDate, endDate, page, limit }));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch disbursements" });
     }
-    if (wEmailValidated !== undefined) {
-      updates.push(`email = $${paramCount++}`);
-      values.push(wEmailValidated);
+  },
+);
+
+app.get(
+  "/api/disbursements/:id",
+  authenticateToken,
+  requirePermission("disbursements:read"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Disbursement not found" });
     }
-    if (wMemberIdValidated !== undefined) {
-      updates.push(`member_id = $${paramCount++}`);
-      values.push(wMemberIdValidated);
+    try {
+      const disbursement = await getDisbursement(pool, id);
+      if (!disbursement) {
+        return res.status(404).json({ error: "Disbursement not found" });
+      }
+      res.json(disbursement);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch disbursement" });
     }
+  },
+);
 
-    // Self modification guard still applies with sanitized vars
-    if (
-      parseInt(id) === req.user.id &&
-      ((wRoleValidated && !canManageRole(req.user.role, wRoleValidated)) || wUsername)
-    ) {
-      return res.status(403).json({
-        error: "Cannot change your own role or username. Please use account settings.",
-        code: "SELF_MODIFICATION",
+// New disbursements wait for approval before they reduce the fund
+app.post(
+  "/api/disbursements",
+  authenticateToken,
+  requirePermission("disbursements:create"),
+  async (req, res) => {
+    const validation = validateDisbursement(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
       });
     }
 
-    // Only apply role escalation checks if a new role is being set
-    let finalRoleValidated = wRoleValidated;
-    if (finalRoleValidated !== undefined) {
-      if (!canManageRole(req.user.role, finalRoleValidated)) {
-        return res.status(403).json({
-          error: "Cannot assign role equal to or higher than your own",
-          code: "ROLE_ESCALATION",
-        });
+    try {
+      const fundResult = await resolveFundName(pool, req.body.fund);
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
       }
+      const result = await pool.query(
+        `INSERT INTO disbursements
+           (payee, amount, fund, disbursement_date, memo, requested_by, requested_by_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+        [
+          req.body.payee.trim(),
+          req.body.amount,
+          fundResult.fund,
+          req.body.date,
+          req.body.memo ? String(req.body.memo).trim() : null,
+          req.user.username,
+          req.user.id,
+        ],
+      );
+      const created = await getDisbursement(pool, result.rows[0].id);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "CREATE",
+        entityType: "disbursement",
+        entityId: created.id,
+        after: created,
+      });
+      emitEvent("disbursement:update", { type: "CREATE", data: created, by: req.user.username });
+      res.status(201).json(created);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to create disbursement" });
+    }
+  },
+);
+
+// Only pending requests can change; without approval rights, only your own
+app.put(
+  "/api/disbursements/:id",
+  authenticateToken,
+  requirePermission("disbursements:update"),
+  async (req, res) => {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Disbursement not found" });
     }
 
     try {
-      const targetUser = await pool.query(
-        "SELECT role FROM users WHERE id = $1",
-        [id],
-      );
-      if (targetUser.rows.length === 0) {
-        return res.status(404).json({ error: "User not found" });
+      const before = await getDisbursement(pool, id);
+      if (!before) {
+        return res.status(404).json({ error: "Disbursement not found" });
       }
-
-      // If username is being changed, check for conflicts
-      if (wUsername !== undefined && wUsername !== null) {
-        const existing = await pool.query(
-          "SELECT id FROM users WHERE username = $1 AND id != $2",
-          [wUsername, parseInt(id)],
-        );
-        if (existing.rows.length > 0) {
-          return res.status(409).json({ error: "Username already exists" });
-        }
+      if (before.status !== "pending") {
+        return res.status(409).json({
+          error: "INVALID_STATUS",
+          details: ["Only pending disbursements can be changed"],
+        });
+      }
+      if (before.requestedById !== req.user.id && !hasPermission(req.user.role, "disbursements:approve")) {
+        return res.status(403).json({ error: "You can only change your own requests" });
       }
 
-      if (updates.length === 0) {
-        return res.status(400).json({ error: "No valid fields to update" });
+      const merged = { ...disbursementInput(before), ...req.body };
+      const validation = validateDisbursement(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: "VALIDATION_FAILED",
+          details: validation.errors,
+        });
+      }
+      const fundResult = await resolveFundName(pool, merged.fund, { current: before.fund });
+      if (fundResult.error) {
+        return res.status(400).json({ error: "VALIDATION_FAILED", details: [fundResult.error] });
       }
 
-      // Append the WHERE clause ID to the end of values array
-      values.push(parseInt(id));
-      
+      // Re-checks the status so an edit racing an approval cannot change it
       const result = await pool.query(
-        `UPDATE users SET ${updates.join(", ")}, updated_at = NOW()
-         WHERE id = $${paramCount}
-         RETURNING id, username, role, email`,
-        values,
-      );
-
-      console.log(
-        `[AUDIT] User ${id} updated by ${req.user.username}: ${JSON.stringify({
-          role: wRoleValidated,
-          email: wEmailValidated,
-        })}`,
-      );
-
-      emitEvent("user:update", { type: "UPDATE", data: result.rows[0] });
-
-      res.json(result.rows[0]);
-    } catch (err) {
-      if (err.code === "23505") {
-        // unique_violation for username
-        return res.status(409).json({ error: "Username already exists." });
+        `UPDATE disbursements
+         SET payee = $1, amount = $2, fund = $3, disbursement_date = $4, memo = $5,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $6 AND status = 'pending'`,
+        [
+          merged.payee.trim(),
+          merged.amount,
+          fundResult.fund,
+          merged.date,
+          merged.memo ? String(merged.memo).trim() : null,
+          id,
+        ],
+      );
+      if (result.rowCount === 0) {
+        return res.status(409).json({
+          error: "INVALID_STATUS",
+          details: ["Only pending disbursements can be changed"],
+        });
       }
-      console.error("Update user error:", err);
-      res.status(500).json({ error: "Failed to update user" });
+      const updated = await getDisbursement(pool, id);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "UPDATE",
+        entityType: "disbursement",
+        entityId: id,
+        before,
+        after: updated,
+      });
+      emitEvent("disbursement:update", { type: "UPDATE", data: updated, by: req.user.username });
+      res.json(updated);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to update disbursement" });
     }
   },
 );
 
-// Delete/disable user (admin+)
-app.delete(
-  "/api/users/:id",
+// Approve or reject a pending request, or void an approved one
+app.post(
+  "/api/disbursements/:id/decision",
   authenticateToken,
-  requirePermission("users:delete"),
+  requirePermission("disbursements:approve"),
   async (req, res) => {
     const { id } = req.params;
-
-    // Prevent self-deletion
-    if (parseInt(id) === req.user.id) {
-      return res.status(403).json({
-        error: "Cannot delete your own account",
-        code: "SELF_DELETION",
-      });
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Disbursement not found" });
     }
+    const { decision, note } = req.body || {};
 
     try {
-      // Get target user
-      const targetUser = await pool.query(
-        "SELECT username, role FROM users WHERE id = $1",
-        [id],
-      );
-      if (targetUser.rows.length === 0) {
-        return res.status(404).json({ error: "User not found" });
-      }
-
-      // Prevent deleting super_admin
-      if (targetUser.rows[0].role === "super_admin") {
-        return res.status(403).json({
-          error: "Cannot delete super admin accounts",
-          code: "PROTECTED_ACCOUNT",
-        });
+      const before = await getDisbursement(pool, id);
+      if (!before) {
+        return res.status(404).json({ error: "Disbursement not found" });
       }
-
-      // Check if can manage target user's role
-      if (!canManageRole(req.user.role, targetUser.rows[0].role)) {
-        return res.status(403).json({
-          error: "Cannot delete user with role equal to or higher than yours",
-          code: "INSUFFICIENT_PRIVILEGE",
-        });
+      const problem = checkDecision(before, decision, req.user, note);
+      if (problem) {
+        return res.status(problem.status).json({ error: problem.error, details: problem.details });
       }
 
-      await pool.query("DELETE FROM users WHERE id = $1", [id]);
-
-      console.log(
-        `[AUDIT] User ${targetUser.rows[0].username} (${id}) deleted by ${req.user.username}`,
+      const { from, to } = DISBURSEMENT_DECISIONS[decision];
+      const result = await pool.query(
+        `UPDATE disbursements
+         SET status = $1, decided_by = $2, decided_at = CURRENT_TIMESTAMP, decision_note = $3,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4 AND status = $5 RETURNING id`,
+        [to, req.user.username, note ? String(note).trim() : null, id, from],
       );
-
-      emitEvent("user:update", { type: "DELETE", id });
-
-      res.json({ message: "User deleted successfully" });
+      if (result.rows.length === 0) {
+        return res.status(409).json({ error: "INVALID_STATUS", details: ["The disbursement changed; reload and try again"] });
+      }
+      const decided = await getDisbursement(pool, id);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: decision.toUpperCase(),
+        entityType: "disbursement",
+        entityId: id,
+        before: { status: before.status },
+        after: { status: decided.status },
+        metadata: { fund: decided.fund, amount: decided.amount, note: decided.decisionNote },
+      });
+      emitEvent("disbursement:update", { type: "DECISION", data: decided, by: req.user.username });
+      res.json(decided);
     } catch (err) {
-      console.error("Delete user error:", err);
-      res.status(500).json({ error: "Failed to delete user" });
+      console.error(err);
+      res.status(500).json({ error: "Failed to record decision" });
     }
   },
 );
 
-// Unlock user account (admin+)
-app.post(
-  "/api/users/:id/unlock",
+// Approved disbursements are voided, never deleted
+app.delete(
+  "/api/disbursements/:id",
   authenticateToken,
-  requirePermission("users:write"),
+  requirePermission("disbursements:delete"),
   async (req, res) => {
     const { id } = req.params;
-
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Disbursement not found" });
+    }
     try {
+      const before = await getDisbursement(pool, id);
+      if (!before) {
+        return res.status(404).json({ error: "Disbursement not found" });
+      }
       const result = await pool.query(
-        `
-      UPDATE users 
-      SET locked_until = NULL, failed_login_attempts = 0
-      WHERE id = $1
-      RETURNING id, username
-    `,
+        "DELETE FROM disbursements WHERE id = $1 AND status IN ('pending', 'rejected') RETURNING id",
         [id],
       );
-
       if (result.rows.length === 0) {
-        return res.status(404).json({ error: "User not found" });
+        return res.status(409).json({
+          error: "INVALID_STATUS",
+          details: ["Approved disbursements cannot be deleted. Void it instead."],
+        });
       }
-
-      console.log(
-        `[AUDIT] User ${result.rows[0].username} unlocked by ${req.user.username}`,
-      );
-
-      res.json({ message: "Account unlocked successfully" });
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "DELETE",
+        entityType: "disbursement",
+        entityId: id,
+        before,
+      });
+      emitEvent("disbursement:update", { type: "DELETE", id, by: req.user.username });
+      res.json({ message: "Disbursement deleted successfully" });
     } catch (err) {
-      console.error("Unlock user error:", err);
-      res.status(500).json({ error: "Failed to unlock user" });
+      console.error(err);
+      res.status(500).json({ error: "Failed to delete disbursement" });
     }
   },
 );
 
-// Force password reset (admin+)
-app.post(
-  "/api/users/:id/reset-password",
+app.put(
+  "/api/disbursements/:id/attachment",
   authenticateToken,
-  requirePermission("users:write"),
+  requirePermission("disbursements:update"),
   async (req, res) => {
     const { id } = req.params;
-    const { newPassword } = req.body;
-
-    if (!newPassword) {
-      return res.status(400).json({ error: "New password is required" });
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Disbursement not found" });
     }
-
-    // Validate password policy
-    const policyCheck = validatePasswordPolicy(newPassword);
-    if (!policyCheck.valid) {
+    const validation = validateAttachment(req.body || {});
+    if (!validation.isValid) {
       return res.status(400).json({
-        error: "Password policy violation",
-        details: policyCheck.errors,
+        error: "VALIDATION_FAILED",
+        details: validation.errors,
       });
     }
 
     try {
-      // Get target user
-      const targetUser = await pool.query(
-        "SELECT username, role FROM users WHERE id = $1",
-        [id],
-      );
-      if (targetUser.rows.length === 0) {
-        return res.status(404).json({ error: "User not found" });
+      const disbursement = await getDisbursement(pool, id);
+      if (!disbursement) {
+        return res.status(404).json({ error: "Disbursement not found" });
       }
-
-      // Check if can manage target user's role
-      if (!canManageRole(req.user.role, targetUser.rows[0].role)) {
-        return res.status(403).json({
-          error:
-            "Cannot reset password for user with role equal to or higher than yours",
-          code: "INSUFFICIENT_PRIVILEGE",
-        });
+      if (disbursement.requestedById !== req.user.id && !hasPermission(req.user.role, "disbursements:approve")) {
+        return res.status(403).json({ error: "You can only change your own requests" });
       }
-
-      const passwordHash = await bcrypt.hash(newPassword, 12);
-
-      await pool.query(
-        `
-      UPDATE users 
-      SET password_hash = $1, 
-          must_change_password = true,
-          password_changed_at = NOW(),
-          locked_until = NULL,
-          failed_login_attempts = 0
-      WHERE id = $2
-    `,
-        [passwordHash, id],
-      );
-
-      console.log(
-        `[AUDIT] Password reset for ${targetUser.rows[0].username} by ${req.user.username}`,
+      const notPending = {
+        error: "INVALID_STATUS",
+        details: ["Receipts can only be attached to pending disbursements"],
+      };
+      if (disbursement.status !== "pending") {
+        return res.status(409).json(notPending);
+      }
+      // Inserts nothing once the disbursement has been decided, even mid-request
+      const result = await pool.query(
+        `INSERT INTO disbursement_attachments (disbursement_id, filename, content_type, content, uploaded_by)
+         SELECT id, $2, $3, $4, $5 FROM disbursements WHERE id = $1 AND status = 'pending'
+         ON CONFLICT (disbursement_id) DO UPDATE
+         SET filename = EXCLUDED.filename, content_type = EXCLUDED.content_type,
+             content = EXCLUDED.content, uploaded_by = EXCLUDED.uploaded_by,
+             uploaded_at = CURRENT_TIMESTAMP`,
+        [id, req.body.filename.trim(), req.body.contentType, validation.content, req.user.username],
       );
-
-      res.json({
-        message:
-          "Password reset successfully. User must change password on next login.",
+      if (result.rowCount === 0) {
+        return res.status(409).json(notPending);
+      }
+      const updated = await getDisbursement(pool, id);
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "ATTACH",
+        entityType: "disbursement",
+        entityId: id,
+        before: { attachmentName: disbursement.attachmentName },
+        after: { attachmentName: updated.attachmentName },
+        metadata: { bytes: validation.content.length },
       });
+      emitEvent("disbursement:update", { type: "UPDATE", data: updated, by: req.user.username });
+      res.json(updated);
     } catch (err) {
-      console.error("Reset password error:", err);
-      res.status(500).json({ error: "Failed to reset password" });
+      console.error(err);
+      res.status(500).json({ error: "Failed to save attachment" });
     }
   },
 );
 
-// Get available roles (for dropdowns)
 app.get(
-  "/api/roles",
+  "/api/disbursements/:id/attachment",
   authenticateToken,
-  requirePermission("users:read"),
+  requirePermission("disbursements:read"),
   async (req, res) => {
-    const { ROLE_LEVELS } = require("./rbac");
-
-    // Only return roles that the current user can assign
-    const userLevel = ROLE_LEVELS[req.user.role] || 0;
-
-    const assignableRoles = Object.entries(ROLE_LEVELS)
-      .filter(
-        ([role, level]) => level < userLevel || req.user.role === "super_admin",
-      )
-      .map(([role, level]) => ({
-        name: role,
-        level,
-        label: role.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase()),
-      }))
-      .sort((a, b) => b.level - a.level);
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    try {
+      const result = await pool.query(
+        "SELECT filename, content_type, content FROM disbursement_attachments WHERE disbursement_id = $1",
+        [id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      const attachment = result.rows[0];
+      res.setHeader("Content-Type", attachment.content_type);
+      res.setHeader("Content-Disposition", `attachment; filename="${attachment.filename.replace(/"/g, "")}"`);
+      res.send(attachment.content);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to download attachment" });
+    }
+  },
+);
 
-    res.json(assignableRoles);
+// Receipts minus approved disbursements for every fund
+app.get(
+  "/api/fund-balances",
+  authenticateToken,
+  requirePermission("disbursements:read"),
+  async (req, res) => {
+    const { asOf } = req.query;
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return res.status(400).json({ error: "asOf must be a date (YYYY-MM-DD)" });
+    }
+    try {
+      res.json(await getFundBalances(pool, { asOf: asOf || null }));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch fund balances" });
+    }
   },
 );
 
 // ==========================================
-// SETTINGS API
+// RECORD LOCKS API
 // ==========================================
 
-// Get current settings (publicly accessible)
-app.get("/api/settings", async (req, res) => {
-  try {
-    const result = await pool.query(
-      "SELECT name, address, phone, email, tax_id FROM settings WHERE singleton_id = true",
-    );
-    if (result.rows.length === 0) {
-      // This should ideally not happen if seeding works
-      return res.status(404).json({ error: "Settings not found" });
+// Active edit locks, oldest first
+app.get(
+  "/api/locks",
+  authenticateToken,
+  requirePermission("locks:read"),
+  async (req, res) => {
+    try {
+      const locks = await listLocks();
+      res.json(
+        locks.map((lock) => ({
+          resourceType: lock.resourceType,
+          resourceId: lock.resourceId,
+          lockedBy: lock.username,
+          acquiredAt: lock.acquiredAt,
+          expiresAt: lock.expiresAt,
+        })),
+      );
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to fetch locks" });
     }
-    const settings = result.rows[0];
-    res.json({
-      name: settings.name,
-      address: settings.address,
-      phone: settings.phone,
-      email: settings.email,
-      taxId: settings.tax_id,
-    });
-  } catch (err) {
-    console.error("Get settings error:", err);
-    res.status(500).json({ error: "Failed to fetch settings" });
-  }
-});
+  },
+);
 
-// Update settings (admin only)
-app.put(
-  "/api/settings",
+// Force-release a lock; the holder is told their edits are no longer protected
+app.delete(
+  "/api/locks/:resourceType/:resourceId",
   authenticateToken,
-  requirePermission("settings:write"),
+  requirePermission("locks:release"),
   async (req, res) => {
-    const name = req.body.name;
-    const address = req.body.address !== undefined ? req.body.address : null;
-    const phone = req.body.phone !== undefined ? req.body.phone : null;
-    const email = req.body.email !== undefined ? req.body.email : null;
-    const taxIdInput = req.body.taxId !== undefined ? req.body.taxId : null;
-    if (!name) {
-      return res.status(400).json({ error: "Church name is required" });
+    const { resourceType, resourceId } = req.params;
+    if (!isLockTarget(resourceType, resourceId)) {
+      return res.status(404).json({ error: "Lock not found" });
     }
-    // Type coercion & validation per field
-    const safeAddress = address !== null ? String(address).trim() : null;
-    const safePhone = phone !== null ? String(phone) : null;
-    const safeEmail = email !== null && email.trim() !== '' ? String(email).trim().toLowerCase() : null;
-    const safeTaxId = taxIdInput !== null ? String(taxIdInput) : null;
     try {
-      const result = await pool.query(
-        `UPDATE settings
-         SET name = $1, address = $2, phone = $3, email = $4, tax_id = $5, updated_at = NOW()
-         WHERE singleton_id = true
-         RETURNING name, address, phone, email, tax_id`,
-        [name.trim(), safeAddress, safePhone, safeEmail, safeTaxId],
-      );
-      const rawSettings = result.rows[0];
-      const updatedSettings = {
-        name: rawSettings.name,
-        address: rawSettings.address,
-        phone: rawSettings.phone,
-        email: rawSettings.email,
-        taxId: rawSettings.tax_id,
-      };
-      console.log(`[AUDIT] Settings updated by ${req.user.username}`);
-      emitEvent("settings:update", updatedSettings);
-      res.json(updatedSettings);
+      const lock = await forceReleaseLock(resourceType, resourceId, req.user);
+      if (!lock) {
+        return res.status(404).json({ error: "Lock not found" });
+      }
+      await recordAuditEvent(pool, {
+        actor: req.user,
+        action: "RELEASE",
+        entityType: "lock",
+        entityId: `${resourceType}:${resourceId}`,
+        before: { lockedBy: lock.username, acquiredAt: new Date(lock.acquiredAt).toISOString() },
+      });
+      res.json({ message: "Lock released" });
     } catch (err) {
-      console.error("Update settings error:", err);
-      res.status(500).json({ error: "Failed to update settings" });
+      console.error(err);
+      res.status(500).json({ error: "Failed to release lock" });
+    }
+  },
+);
+
+// ==========================================
+// AUDIT TRAIL API
+// ==========================================
+
+// List audit events (newest first) with filters
+app.get(
+  "/api/audit",
+  authenticateToken,
+  requirePermission("audit:read"),
+  async (req, res) => {
+    const { page, limit, entityType, entityId, action, actor, startDate, endDate } = req.query;
+    try {
+      const result = await listAuditEvents(pool, {
+        page,
+        limit,
+        entityType,
+        entityId,
+        action,
+        actor,
+        startDate,
+        endDate,
+      });
+      res.json(result);
+    } catch (err) {
+      console.error("List audit events error:", err);
+      res.status(500).json({ error: "Failed to fetch audit events" });
     }
   },
 );
@@ -2586,6 +7863,21 @@ async function startServer() {
     // Initialize Socket.io
     initializeSocket(server);
 
+    // Recurring gifts: create due installments and match gifts now, then
+    // hourly. Runs are idempotent, so restarts and extra instances are safe.
+    syncRecurringGifts();
+    setInterval(syncRecurringGifts, RECURRING_JOB_INTERVAL_MS);
+
+    // Gift acknowledgments: thank imported or missed gifts and send the
+    // weekly digest once it is due. Gifts are stamped as they are queued.
+    sendAcknowledgments();
+    setInterval(() => sendAcknowledgments(), ACKNOWLEDGMENT_JOB_INTERVAL_MS);
+
+    // Report subscriptions: deliver the reports that are due. Each is moved
+    // to its next run before it is rendered, so none is sent twice.
+    sendScheduledReports();
+    setInterval(sendScheduledReports, REPORT_JOB_INTERVAL_MS);
+
     server.on("close", () => {
       console.log("Server closed");
     });
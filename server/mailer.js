@@ -0,0 +1,92 @@
+/**
+ * Outbound Mail Transport for GraceGiver
+ *
+ * Every email the server sends goes through a transport with a single
+ * send(message) method, chosen by MAIL_TRANSPORT:
+ *
+ *   smtp    - Delivers through SMTP_HOST (the default when SMTP_HOST is set).
+ *   file    - Writes each message as an .eml file to MAIL_FILE_DIR.
+ *   console - Logs the recipient and subject only (the default otherwise).
+ *
+ * Messages use the nodemailer shape: { from, to, subject, text, attachments }.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const nodemailer = require('nodemailer');
+
+const MAIL_TRANSPORTS = ['smtp', 'file', 'console'];
+
+const DEFAULT_FILE_DIR = path.join(__dirname, 'mail-outbox');
+
+/**
+ * Builds a transport from environment settings.
+ * @param {Object} [env] - Defaults to process.env.
+ * @returns {{ name: string, send: Function }}
+ */
+function createMailTransport(env = process.env) {
+  const name = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+  if (name === 'smtp') {
+    if (!env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+    const transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT) || 587,
+      secure: env.SMTP_SECURE === 'true',
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined
+    });
+    return {
+      name,
+      send: async (message) => {
+        const info = await transporter.sendMail(message);
+        return { messageId: info.messageId };
+      }
+    };
+  }
+
+  if (name === 'file') {
+    const dir = env.MAIL_FILE_DIR || DEFAULT_FILE_DIR;
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    return {
+      name,
+      send: async (message) => {
+        const info = await transporter.sendMail(message);
+        await fs.promises.mkdir(dir, { recursive: true });
+        const file = path.join(dir, `${Date.now()}-${crypto.randomUUID()}.eml`);
+        await fs.promises.writeFile(file, info.message);
+        return { messageId: info.messageId, file };
+      }
+    };
+  }
+
+  if (name === 'console') {
+    return {
+      name,
+      send: async (message) => {
+        const attachments = (message.attachments || []).map(a => a.filename).join(', ');
+        console.log(`[mail] to=${message.to} subject="${message.subject}"${attachments ? ` attachments=${attachments}` : ''}`);
+        return { messageId: `console-${crypto.randomUUID()}` };
+      }
+    };
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${name}" (expected ${MAIL_TRANSPORTS.join(', ')})`);
+}
+
+let transport = null;
+
+/**
+ * Returns the server's transport, creating it on first use.
+ * @returns {{ name: string, send: Function }}
+ */
+function getMailTransport() {
+  if (!transport) transport = createMailTransport();
+  return transport;
+}
+
+module.exports = {
+  MAIL_TRANSPORTS,
+  createMailTransport,
+  getMailTransport
+};
@@ -0,0 +1,382 @@
+/**
+ * Member Duplicate Detection & Merge for GraceGiver
+ *
+ * Scores pairs of member records that may be the same person (similar
+ * name plus shared email, phone or address) and merges a duplicate into
+ * the surviving record, moving its giving history and login with it.
+ */
+
+// Merge-able member fields -> members columns
+const MERGE_FIELDS = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  telephone: 'telephone',
+  address: 'address',
+  city: 'city',
+  state: 'state',
+  zip: 'zip',
+  familyId: 'family_id',
+  joinedAt: 'joined_at'
+};
+
+// Every column that points at a member and must follow it into the survivor.
+// Versioned tables get a new row version so open edit forms notice the move.
+const MEMBER_REFERENCES = [
+  { key: 'donations', table: 'donations', column: 'member_id', versioned: true },
+  { key: 'pledges', table: 'pledges', column: 'member_id' },
+  { key: 'recurringGifts', table: 'recurring_gifts', column: 'member_id' },
+  { key: 'users', table: 'users', column: 'member_id' },
+  { key: 'households', table: 'households', column: 'head_member_id' },
+  { key: 'statementIssues', table: 'statement_issues', column: 'member_id' },
+  { key: 'importRows', table: 'donation_import_rows', column: 'member_id' },
+  { key: 'donorContacts', table: 'donor_contacts', column: 'member_id' },
+  { key: 'emailMessages', table: 'email_messages', column: 'member_id' },
+  // An open automatic task the survivor already has for the same reason
+  // stays behind and is deleted with the duplicate
+  {
+    key: 'followUpTasks',
+    table: 'follow_up_tasks',
+    column: 'member_id',
+    where: `NOT (origin <> 'manual' AND status IN ('open', 'in_progress') AND EXISTS (
+      SELECT 1 FROM follow_up_tasks kept
+      WHERE kept.member_id = $1 AND kept.origin = follow_up_tasks.origin AND kept.status IN ('open', 'in_progress')))`
+  }
+];
+
+// Points each kind of evidence adds to a pair's score (out of 100)
+const SCORE_WEIGHTS = {
+  name: 50,
+  email: 25,
+  phone: 15,
+  address: 10
+};
+
+// Pairs whose names are less alike than this are never suggested, so
+// spouses sharing a phone and address don't show up as duplicates.
+const MIN_NAME_SIMILARITY = 0.7;
+
+const DEFAULT_MIN_SCORE = 50;
+
+const normalizeName = (value) => String(value || '').toLowerCase().replace(/[^a-z]/g, '');
+
+const normalizeEmail = (value) => (value ? String(value).trim().toLowerCase() : null);
+
+// Last ten digits, so "+1 (555) 123-4567" and "5551234567" match
+const normalizePhoneKey = (value) => {
+  const digits = String(value || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const normalizeStreet = (value) =>
+  String(value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Levenshtein edit distance between two strings.
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function editDistance(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two name parts from 0 to 1. A name that starts the other
+ * ("Jim" / "Jimmy", "J" / "John") counts as a near match.
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function namePartSimilarity(a, b) {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.startsWith(y) || y.startsWith(x)) return 0.9;
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+}
+
+/**
+ * Similarity of two members' names from 0 to 1; the last name carries
+ * more weight than the first.
+ * @param {Object} a - members row
+ * @param {Object} b - members row
+ * @returns {number}
+ */
+function nameSimilarity(a, b) {
+  return (
+    0.4 * namePartSimilarity(a.first_name, b.first_name) +
+    0.6 * namePartSimilarity(a.last_name, b.last_name)
+  );
+}
+
+/**
+ * Scores how likely two members rows are the same person.
+ * @param {Object} a - members row
+ * @param {Object} b - members row
+ * @returns {Object} { score: 0-100, reasons: ['name', 'email', 'phone', 'address'] }
+ */
+function scoreMemberPair(a, b) {
+  const similarity = nameSimilarity(a, b);
+  if (similarity < MIN_NAME_SIMILARITY) return { score: 0, reasons: [] };
+
+  let score = Math.round(similarity * SCORE_WEIGHTS.name);
+  const reasons = ['name'];
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    score += SCORE_WEIGHTS.email;
+    reasons.push('email');
+  }
+
+  const phoneA = normalizePhoneKey(a.telephone);
+  if (phoneA && phoneA === normalizePhoneKey(b.telephone)) {
+    score += SCORE_WEIGHTS.phone;
+    reasons.push('phone');
+  }
+
+  const streetA = normalizeStreet(a.address);
+  const sameArea = a.zip && b.zip
+    ? String(a.zip).slice(0, 5) === String(b.zip).slice(0, 5)
+    : normalizeName(a.city) === normalizeName(b.city);
+  if (streetA && streetA === normalizeStreet(b.address) && sameArea) {
+    score += SCORE_WEIGHTS.address;
+    reasons.push('address');
+  }
+
+  return { score: Math.min(100, score), reasons };
+}
+
+/**
+ * Keys that put members into comparison buckets, so only members sharing
+ * a surname prefix, email or phone are ever scored against each other.
+ * @param {Object} row - members row
+ * @returns {Array<string>}
+ */
+function blockingKeys(row) {
+  const keys = [];
+  const last = normalizeName(row.last_name);
+  if (last) keys.push(`last:${last.slice(0, 3)}`);
+  const email = normalizeEmail(row.email);
+  if (email) keys.push(`email:${email}`);
+  const phone = normalizePhoneKey(row.telephone);
+  if (phone) keys.push(`phone:${phone}`);
+  return keys;
+}
+
+/**
+ * Maps a members row (with optional giving totals) for the merge UI.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapDuplicateMember(row) {
+  return {
+    id: row.id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    email: row.email,
+    telephone: row.telephone,
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    zip: row.zip,
+    familyId: row.family_id,
+    joinedAt: row.joined_at,
+    createdAt: row.created_at,
+    skills: row.skills || [],
+    interests: row.interests || [],
+    donationCount: parseInt(row.donation_count) || 0,
+    donationTotal: parseFloat(row.donation_total) || 0
+  };
+}
+
+/**
+ * Finds likely duplicate member pairs, best matches first.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} options - { memberId, minScore, limit }
+ * @returns {Promise<Array>} [{ score, reasons, members: [a, b] }]
+ */
+async function findDuplicateMembers(db, options = {}) {
+  const minScore = Math.min(100, Math.max(1, parseInt(options.minScore) || DEFAULT_MIN_SCORE));
+  const limit = Math.min(100, Math.max(1, parseInt(options.limit) || 20));
+
+  const result = await db.query(
+    `SELECT id, first_name, last_name, email, telephone, address, city, state, zip,
+            family_id, joined_at, created_at, skills, interests
+     FROM members`
+  );
+  const rows = result.rows;
+
+  const buckets = new Map();
+  rows.forEach((row, index) => {
+    for (const key of blockingKeys(row)) {
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key).push(index);
+    }
+  });
+
+  const seen = new Set();
+  const pairs = [];
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = rows[indexes[i]];
+        const b = rows[indexes[j]];
+        if (options.memberId && a.id !== options.memberId && b.id !== options.memberId) continue;
+
+        const pairKey = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { score, reasons } = scoreMemberPair(a, b);
+        if (score >= minScore) pairs.push({ score, reasons, rows: [a, b] });
+      }
+    }
+  }
+
+  pairs.sort((x, y) => y.score - x.score);
+  const top = pairs.slice(0, limit);
+  if (top.length === 0) return [];
+
+  const ids = [...new Set(top.flatMap(pair => pair.rows.map(row => row.id)))];
+  const giving = await db.query(
+    `SELECT member_id, COUNT(*) AS donation_count, SUM(amount) AS donation_total
+     FROM donations WHERE member_id = ANY($1) GROUP BY member_id`,
+    [ids]
+  );
+  const givingByMember = new Map(giving.rows.map(row => [row.member_id, row]));
+
+  return top.map(pair => ({
+    score: pair.score,
+    reasons: pair.reasons,
+    members: pair.rows.map(row => mapDuplicateMember({ ...row, ...givingByMember.get(row.id) }))
+  }));
+}
+
+/**
+ * Validates a merge request body.
+ * @param {Object} input - { survivorId, duplicateId, fields }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateMerge(input) {
+  const errors = [];
+
+  if (!input.survivorId || !input.duplicateId) {
+    errors.push('REQUIRED_MEMBERS: Choose the record to keep and the duplicate to merge into it.');
+  } else if (String(input.survivorId) === String(input.duplicateId)) {
+    errors.push('SAME_MEMBER: A member cannot be merged into itself.');
+  }
+
+  if (input.fields !== undefined && input.fields !== null) {
+    if (typeof input.fields !== 'object' || Array.isArray(input.fields)) {
+      errors.push('INVALID_FIELD_CHOICE: fields must map member fields to "survivor" or "duplicate".');
+    } else {
+      for (const [field, choice] of Object.entries(input.fields)) {
+        if (!MERGE_FIELDS[field] || !['survivor', 'duplicate'].includes(choice)) {
+          errors.push(`INVALID_FIELD_CHOICE: "${field}" must be a member field set to "survivor" or "duplicate".`);
+        }
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Builds the surviving record's column values. Each field takes the record
+ * chosen in fields; unchosen fields keep the survivor's value, filling
+ * blanks from the duplicate (and the earlier join date). Skills and
+ * interests are combined.
+ * @param {Object} survivor - members row
+ * @param {Object} duplicate - members row
+ * @param {Object} [fields] - field -> 'survivor' | 'duplicate'
+ * @returns {Object} column -> value
+ */
+function buildMergedMember(survivor, duplicate, fields = {}) {
+  const merged = {};
+  const isBlank = (value) => value === null || value === undefined || String(value).trim() === '';
+
+  for (const [field, column] of Object.entries(MERGE_FIELDS)) {
+    const choice = fields[field];
+    if (choice === 'duplicate') {
+      merged[column] = duplicate[column];
+    } else if (choice === 'survivor') {
+      merged[column] = survivor[column];
+    } else if (column === 'joined_at' && !isBlank(survivor.joined_at) && !isBlank(duplicate.joined_at)) {
+      merged[column] = new Date(duplicate.joined_at) < new Date(survivor.joined_at)
+        ? duplicate.joined_at
+        : survivor.joined_at;
+    } else {
+      merged[column] = isBlank(survivor[column]) ? duplicate[column] : survivor[column];
+    }
+  }
+
+  merged.skills = [...new Set([...(survivor.skills || []), ...(duplicate.skills || [])])];
+  merged.interests = [...new Set([...(survivor.interests || []), ...(duplicate.interests || [])])];
+
+  return merged;
+}
+
+/**
+ * Merges a duplicate member into the survivor: re-points everything that
+ * references the duplicate, updates the survivor with the merged values and
+ * deletes the duplicate. Run inside a transaction.
+ * @param {Object} client - Checked-out pg client
+ * @param {Object} survivor - members row
+ * @param {Object} duplicate - members row
+ * @param {Object} [fields] - field -> 'survivor' | 'duplicate'
+ * @returns {Promise<{ member: Object, moved: Object }>}
+ */
+async function mergeMembers(client, survivor, duplicate, fields = {}) {
+  const moved = {};
+  for (const ref of MEMBER_REFERENCES) {
+    const result = await client.query(
+      `UPDATE ${ref.table} SET ${ref.column} = $1${ref.versioned ? ', version = version + 1' : ''} WHERE ${ref.column} = $2${ref.where ? ` AND ${ref.where}` : ''}`,
+      [survivor.id, duplicate.id]
+    );
+    moved[ref.key] = result.rowCount || 0;
+  }
+
+  const merged = buildMergedMember(survivor, duplicate, fields);
+  const columns = Object.keys(merged);
+  const result = await client.query(
+    `UPDATE members SET ${columns.map((column, i) => `${column} = $${i + 1}`).join(', ')}, version = version + 1
+     WHERE id = $${columns.length + 1} RETURNING *`,
+    [...columns.map(column => merged[column]), survivor.id]
+  );
+
+  await client.query('DELETE FROM members WHERE id = $1', [duplicate.id]);
+
+  return { member: result.rows[0], moved };
+}
+
+module.exports = {
+  MERGE_FIELDS,
+  MEMBER_REFERENCES,
+  nameSimilarity,
+  scoreMemberPair,
+  findDuplicateMembers,
+  validateMerge,
+  buildMergedMember,
+  mergeMembers
+};
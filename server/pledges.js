@@ -0,0 +1,287 @@
+/**
+ * Pledge Utilities for GraceGiver
+ *
+ * A pledge is a member's commitment to give a total amount to a fund,
+ * optionally toward a campaign, on a schedule (e.g. $2,400 paid monthly
+ * through December). Fulfillment is never stored: it is computed from the
+ * member's donations to the same fund inside the pledge window, so edits
+ * and voids to donations are reflected immediately.
+ */
+
+const PLEDGE_FREQUENCIES = ['one_time', 'weekly', 'monthly', 'quarterly', 'annually'];
+const PLEDGE_STATUSES = ['active', 'cancelled'];
+
+// Pledge rows joined with donor name and the donations that count toward them
+const PLEDGE_SELECT = `
+  SELECT p.*,
+    m.first_name, m.last_name,
+    c.title AS campaign_title,
+    COALESCE(SUM(d.amount), 0) AS received_amount,
+    COUNT(d.id) AS received_count
+  FROM pledges p
+  JOIN members m ON m.id = p.member_id
+  LEFT JOIN fund_campaigns c ON c.id = p.campaign_id
+  LEFT JOIN donations d ON d.member_id = p.member_id
+    AND d.fund = p.fund
+    AND d.donation_date >= p.start_date
+    AND (p.end_date IS NULL OR d.donation_date < p.end_date + 1)
+`;
+const PLEDGE_GROUP_BY = ' GROUP BY p.id, m.first_name, m.last_name, c.title';
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+/**
+ * Normalizes a DATE column or 'YYYY-MM-DD' string to a UTC midnight Date.
+ * node-postgres hands DATE columns back as local-midnight Date objects.
+ * @param {Date|string|null} value
+ * @returns {Date|null}
+ */
+function toUtcDate(value) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(value));
+  if (!match) return null;
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+const formatDate = (date) => (date ? date.toISOString().slice(0, 10) : null);
+
+/**
+ * Returns the n-th due date after start for a frequency. Month-based
+ * frequencies are computed from the start date (not chained) and clamp to
+ * the end of short months, so a pledge starting Jan 31 is due Feb 28/29.
+ * @param {Date} start - UTC midnight start date.
+ * @param {string} frequency
+ * @param {number} n - Installment index (0 = start date).
+ * @returns {Date}
+ */
+function dueDateAt(start, frequency, n) {
+  const weeks = { weekly: 1, biweekly: 2 }[frequency];
+  if (weeks) {
+    return new Date(start.getTime() + n * weeks * 7 * 24 * 60 * 60 * 1000);
+  }
+  const months = { monthly: 1, quarterly: 3, annually: 12 }[frequency] || 0;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + n * months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+}
+
+/**
+ * Builds the installment schedule for a pledge as of a given day.
+ * Recurring pledges spread the total evenly across every due date between
+ * start and end (inclusive); the final installment absorbs rounding.
+ *
+ * @param {Object} pledge - { amount, frequency, startDate, endDate }
+ * @param {Date|string} [asOf] - Defaults to today.
+ * @returns {Object} { installmentCount, installmentAmount, installmentsDue, expectedToDate, nextDueDate }
+ */
+function buildSchedule(pledge, asOf = new Date()) {
+  const totalCents = toCents(pledge.amount);
+  const start = toUtcDate(pledge.startDate);
+  const end = toUtcDate(pledge.endDate);
+  const today = toUtcDate(asOf);
+
+  const dueDates = [];
+  if (pledge.frequency === 'one_time' || !end) {
+    dueDates.push(start);
+  } else {
+    for (let n = 0; ; n++) {
+      const due = dueDateAt(start, pledge.frequency, n);
+      if (due > end) break;
+      dueDates.push(due);
+    }
+  }
+
+  const installmentCount = dueDates.length;
+  const installmentCents = Math.floor(totalCents / installmentCount);
+  const installmentsDue = dueDates.filter(due => due <= today).length;
+  const expectedCents = installmentsDue === installmentCount
+    ? totalCents
+    : installmentCents * installmentsDue;
+  const nextDue = dueDates.find(due => due > today);
+
+  return {
+    installmentCount,
+    installmentAmount: fromCents(installmentCents),
+    installmentsDue,
+    expectedToDate: fromCents(expectedCents),
+    nextDueDate: formatDate(nextDue)
+  };
+}
+
+/**
+ * Validates a pledge. Updates are validated against the stored pledge
+ * merged with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validatePledge(input) {
+  const errors = [];
+  const present = (field) => input[field] !== undefined && input[field] !== null && input[field] !== '';
+
+  if (!present('memberId')) {
+    errors.push('REQUIRED_MEMBER: memberId is required.');
+  }
+  if (!present('fund') && !present('campaignId')) {
+    errors.push('REQUIRED_FUND: fund or campaignId is required.');
+  }
+  if (typeof input.amount !== 'number' || isNaN(input.amount) || input.amount <= 0) {
+    errors.push('INVALID_AMOUNT: amount must be a positive number.');
+  }
+  if (present('frequency') && !PLEDGE_FREQUENCIES.includes(input.frequency)) {
+    errors.push(`INVALID_FREQUENCY: frequency must be one of ${PLEDGE_FREQUENCIES.join(', ')}.`);
+  }
+  if (present('status') && !PLEDGE_STATUSES.includes(input.status)) {
+    errors.push(`INVALID_STATUS: status must be one of ${PLEDGE_STATUSES.join(', ')}.`);
+  }
+
+  const start = present('startDate') ? toUtcDate(input.startDate) : null;
+  const end = present('endDate') ? toUtcDate(input.endDate) : null;
+  if (present('startDate') && !start) {
+    errors.push('INVALID_DATE: startDate must be a valid date (YYYY-MM-DD).');
+  }
+  if (present('endDate') && !end) {
+    errors.push('INVALID_DATE: endDate must be a valid date (YYYY-MM-DD).');
+  }
+  if (start && end && end < start) {
+    errors.push('INVALID_DATE_RANGE: endDate cannot be before startDate.');
+  }
+  if (present('frequency') && input.frequency !== 'one_time' && !present('endDate')) {
+    errors.push('REQUIRED_END_DATE: Recurring pledges need an endDate to build their schedule.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a pledge row (with received_amount/received_count aggregates) to the
+ * API response shape, including schedule and fulfillment figures.
+ * @param {Object} row
+ * @param {Date|string} [asOf] - Defaults to today.
+ * @returns {Object}
+ */
+function mapPledge(row, asOf = new Date()) {
+  const pledgedCents = toCents(row.amount);
+  const receivedCents = toCents(row.received_amount);
+  const schedule = buildSchedule({
+    amount: row.amount,
+    frequency: row.frequency,
+    startDate: row.start_date,
+    endDate: row.end_date
+  }, asOf);
+
+  let fulfillmentStatus;
+  if (row.status === 'cancelled') {
+    fulfillmentStatus = 'cancelled';
+  } else if (receivedCents >= pledgedCents) {
+    fulfillmentStatus = 'fulfilled';
+  } else if (receivedCents < toCents(schedule.expectedToDate)) {
+    fulfillmentStatus = 'behind';
+  } else {
+    fulfillmentStatus = 'on_track';
+  }
+
+  return {
+    id: row.id.toString(),
+    memberId: row.member_id,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : undefined,
+    fund: row.fund,
+    campaignId: row.campaign_id ? row.campaign_id.toString() : null,
+    campaignTitle: row.campaign_title || null,
+    amount: fromCents(pledgedCents),
+    frequency: row.frequency,
+    startDate: formatDate(toUtcDate(row.start_date)),
+    endDate: formatDate(toUtcDate(row.end_date)),
+    status: row.status,
+    notes: row.notes,
+    received: fromCents(receivedCents),
+    receivedCount: parseInt(row.received_count) || 0,
+    remaining: fromCents(Math.max(0, pledgedCents - receivedCents)),
+    percentFulfilled: pledgedCents > 0 ? Math.round((receivedCents / pledgedCents) * 1000) / 10 : 0,
+    ...schedule,
+    fulfillmentStatus,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Lists pledges with fulfillment, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { memberId, fund, campaignId, status, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listPledges(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`p.member_id = $${params.length}`);
+  }
+  if (filters.fund) {
+    params.push(filters.fund);
+    conditions.push(`p.fund = $${params.length}`);
+  }
+  if (filters.campaignId && /^\d+$/.test(String(filters.campaignId))) {
+    params.push(filters.campaignId);
+    conditions.push(`p.campaign_id = $${params.length}`);
+  }
+  if (filters.status && PLEDGE_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`p.status = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM pledges p${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${PLEDGE_SELECT}${where}${PLEDGE_GROUP_BY} ORDER BY p.start_date DESC, p.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(row => mapPledge(row)),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single pledge with fulfillment.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>} The mapped pledge, or null if not found.
+ */
+async function getPledge(db, id) {
+  const result = await db.query(`${PLEDGE_SELECT} WHERE p.id = $1${PLEDGE_GROUP_BY}`, [id]);
+  return result.rows.length > 0 ? mapPledge(result.rows[0]) : null;
+}
+
+module.exports = {
+  validatePledge,
+  buildSchedule,
+  mapPledge,
+  listPledges,
+  getPledge,
+  dueDateAt,
+  toUtcDate,
+  formatDate,
+  PLEDGE_FREQUENCIES,
+  PLEDGE_STATUSES
+};
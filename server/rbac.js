@@ -18,27 +18,58 @@ const PERMISSION_HIERARCHY = {
     'donations:*',
     'reports:*',
     'settings:read',
-    'settings:write'
+    'settings:write',
+    'audit:read',
+    'batches:*',
+    'pledges:*',
+    'recurring:*',
+    'tasks:*',
+    'email:*',
+    'budgets:*',
+    'disbursements:*',
+    'locks:*'
   ],
   manager: [
     'members:*',
     'donations:read', 'donations:create', 'donations:update', 'donations:delete:own',
-    'reports:read', 'reports:export'
+    'reports:read', 'reports:export', 'reports:schedule',
+    'batches:*',
+    'pledges:*',
+    'recurring:*',
+    'tasks:*',
+    'email:read', 'email:send', 'email:batch',
+    'budgets:read',
+    'disbursements:read', 'disbursements:create', 'disbursements:update', 'disbursements:approve'
   ],
   auditor: [
     'members:read',
     'donations:read',
-    'reports:read'
+    'reports:read',
+    'audit:read',
+    'batches:read',
+    'pledges:read',
+    'recurring:read',
+    'tasks:read',
+    'email:read',
+    'budgets:read',
+    'disbursements:read'
   ],
   data_entry: [
     'members:read', 'members:create', 'members:update',
-    'donations:read', 'donations:create', 'donations:update'
+    'donations:read', 'donations:create', 'donations:update',
+    'batches:read', 'batches:create', 'batches:update',
+    'pledges:read', 'pledges:create', 'pledges:update',
+    'recurring:read', 'recurring:create', 'recurring:update',
+    'tasks:read', 'tasks:create', 'tasks:update',
+    'email:read', 'email:send',
+    'disbursements:read', 'disbursements:create', 'disbursements:update'
   ],
   viewer: [
     'members:read:own',
     'members:update:own',
     'donations:read:own',
-    'reports:read:own'
+    'reports:read:own',
+    'pledges:read:own'
   ]
 };
 
@@ -284,7 +315,17 @@ function getRoleInfo(role) {
     canManageUsers: hasPermission(role, 'users:write'),
     canExportData: hasPermission(role, 'reports:export'),
     canDeleteMembers: hasPermission(role, 'members:delete'),
-    canDeleteDonations: hasPermission(role, 'donations:delete')
+    canDeleteDonations: hasPermission(role, 'donations:delete'),
+    canViewAudit: hasPermission(role, 'audit:read'),
+    canApproveBatches: hasPermission(role, 'batches:approve'),
+    canApproveDisbursements: hasPermission(role, 'disbursements:approve'),
+    canManageSettings: hasPermission(role, 'settings:write'),
+    canEmailStatements: hasPermission(role, 'email:batch'),
+    canManageEmail: hasPermission(role, 'email:manage'),
+    canScheduleReports: hasPermission(role, 'reports:schedule'),
+    canManageReports: hasPermission(role, 'reports:manage'),
+    canManageBudgets: hasPermission(role, 'budgets:write'),
+    canReleaseLocks: hasPermission(role, 'locks:release')
   };
 }
 
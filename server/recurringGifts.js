@@ -0,0 +1,569 @@
+/**
+ * Recurring Gift Utilities for GraceGiver
+ *
+ * A recurring gift is a member's standing gift of a fixed amount to a fund
+ * on a schedule (e.g. $200 to Tithes by monthly bank draft). The recurring
+ * gift job turns each schedule into "expected" installments as they fall
+ * due, links each to the donation that paid it and marks installments
+ * nothing arrived for as missed. Unlike pledges, the per-installment
+ * outcome is stored so missed gifts can be listed and followed up.
+ */
+
+const { dueDateAt, toUtcDate, formatDate } = require('./pledges');
+const { PAYMENT_METHODS } = require('./validation');
+
+const RECURRING_FREQUENCIES = ['weekly', 'biweekly', 'monthly', 'quarterly', 'annually'];
+const RECURRING_STATUSES = ['active', 'paused', 'cancelled'];
+const INSTALLMENT_STATUSES = ['expected', 'received', 'missed', 'skipped'];
+
+// A gift this many days before its due date still pays the installment
+const MATCH_DAYS_EARLY = 3;
+// Days after the due date before an unpaid installment is missed
+const GRACE_DAYS = { weekly: 3, biweekly: 5, monthly: 7, quarterly: 14, annually: 30 };
+// Smaller gifts are treated as extra giving, not the scheduled one
+const MIN_MATCH_RATIO = 0.5;
+
+const GRACE_SQL = `CASE g.frequency ${Object.entries(GRACE_DAYS)
+  .map(([frequency, days]) => `WHEN '${frequency}' THEN ${days}`)
+  .join(' ')} ELSE 7 END`;
+
+const RECURRING_SELECT = `
+  SELECT g.*,
+    m.first_name, m.last_name,
+    COUNT(i.id) FILTER (WHERE i.status = 'received') AS received_count,
+    COUNT(i.id) FILTER (WHERE i.status = 'missed') AS missed_count,
+    COALESCE(SUM(d.amount) FILTER (WHERE i.status = 'received'), 0) AS received_amount,
+    MAX(i.due_date) FILTER (WHERE i.status = 'received') AS last_received_due
+  FROM recurring_gifts g
+  JOIN members m ON m.id = g.member_id
+  LEFT JOIN recurring_gift_installments i ON i.recurring_gift_id = g.id
+  LEFT JOIN donations d ON d.id = i.donation_id
+`;
+const RECURRING_GROUP_BY = ' GROUP BY g.id, m.first_name, m.last_name';
+
+const INSTALLMENT_SELECT = `
+  SELECT i.*, g.member_id, g.fund, g.frequency,
+    m.first_name, m.last_name,
+    d.amount AS received_amount, d.donation_date AS received_date
+  FROM recurring_gift_installments i
+  JOIN recurring_gifts g ON g.id = i.recurring_gift_id
+  JOIN members m ON m.id = g.member_id
+  LEFT JOIN donations d ON d.id = i.donation_id
+`;
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const addDays = (date, days) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Validates a recurring gift. Updates are validated against the stored
+ * schedule merged with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateRecurringGift(input) {
+  const errors = [];
+  const present = (field) => input[field] !== undefined && input[field] !== null && input[field] !== '';
+
+  if (!present('memberId')) {
+    errors.push('REQUIRED_MEMBER: memberId is required.');
+  }
+  if (!present('fund')) {
+    errors.push('REQUIRED_FUND: fund is required.');
+  }
+  if (typeof input.amount !== 'number' || isNaN(input.amount) || input.amount <= 0) {
+    errors.push('INVALID_AMOUNT: amount must be a positive number.');
+  }
+  if (!RECURRING_FREQUENCIES.includes(input.frequency)) {
+    errors.push(`INVALID_FREQUENCY: frequency must be one of ${RECURRING_FREQUENCIES.join(', ')}.`);
+  }
+  if (present('status') && !RECURRING_STATUSES.includes(input.status)) {
+    errors.push(`INVALID_STATUS: status must be one of ${RECURRING_STATUSES.join(', ')}.`);
+  }
+  if (present('paymentMethod') && !PAYMENT_METHODS.includes(input.paymentMethod)) {
+    errors.push(`INVALID_PAYMENT_METHOD: paymentMethod must be one of ${PAYMENT_METHODS.join(', ')}.`);
+  }
+
+  const start = present('startDate') ? toUtcDate(input.startDate) : null;
+  const end = present('endDate') ? toUtcDate(input.endDate) : null;
+  if (present('startDate') && !start) {
+    errors.push('INVALID_DATE: startDate must be a valid date (YYYY-MM-DD).');
+  }
+  if (present('endDate') && !end) {
+    errors.push('INVALID_DATE: endDate must be a valid date (YYYY-MM-DD).');
+  }
+  if (start && end && end < start) {
+    errors.push('INVALID_DATE_RANGE: endDate cannot be before startDate.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Lists a schedule's due dates after one day, up to and including another.
+ * @param {Object} gift - { frequency, startDate, endDate }
+ * @param {Date|string|null} after - Exclusive lower bound (null = from the start).
+ * @param {Date|string} through - Inclusive upper bound.
+ * @returns {Array<string>} 'YYYY-MM-DD' due dates
+ */
+function dueDatesBetween(gift, after, through) {
+  const start = toUtcDate(gift.startDate);
+  const end = toUtcDate(gift.endDate);
+  const from = toUtcDate(after);
+  let until = toUtcDate(through);
+  if (end && end < until) until = end;
+
+  const dueDates = [];
+  for (let n = 0; ; n++) {
+    const due = dueDateAt(start, gift.frequency, n);
+    if (due > until) break;
+    if (!from || due > from) dueDates.push(formatDate(due));
+  }
+  return dueDates;
+}
+
+/**
+ * Maps a recurring_gifts row (with installment aggregates) to the API
+ * response shape.
+ * @param {Object} row
+ * @param {Date|string} [asOf] - Defaults to today.
+ * @returns {Object}
+ */
+function mapRecurringGift(row, asOf = new Date()) {
+  const start = toUtcDate(row.start_date);
+  const end = toUtcDate(row.end_date);
+  const today = toUtcDate(asOf);
+
+  let nextDueDate = null;
+  if (row.status === 'active') {
+    for (let n = 0; ; n++) {
+      const due = dueDateAt(start, row.frequency, n);
+      if (end && due > end) break;
+      if (due > today) {
+        nextDueDate = formatDate(due);
+        break;
+      }
+    }
+  }
+
+  return {
+    id: row.id.toString(),
+    memberId: row.member_id,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : undefined,
+    fund: row.fund,
+    amount: parseFloat(row.amount),
+    frequency: row.frequency,
+    startDate: formatDate(start),
+    endDate: formatDate(end),
+    paymentMethod: row.payment_method || null,
+    status: row.status,
+    notes: row.notes,
+    nextDueDate,
+    receivedCount: parseInt(row.received_count) || 0,
+    missedCount: parseInt(row.missed_count) || 0,
+    receivedAmount: toCents(row.received_amount) / 100,
+    lastReceivedDueDate: formatDate(toUtcDate(row.last_received_due)),
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Maps an installment row joined with its schedule and donation.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapInstallment(row) {
+  return {
+    id: row.id.toString(),
+    recurringGiftId: row.recurring_gift_id.toString(),
+    memberId: row.member_id,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : undefined,
+    fund: row.fund,
+    frequency: row.frequency,
+    dueDate: formatDate(toUtcDate(row.due_date)),
+    amount: parseFloat(row.amount),
+    status: row.status,
+    donationId: row.donation_id ? row.donation_id.toString() : null,
+    receivedAmount: row.received_amount != null ? parseFloat(row.received_amount) : null,
+    receivedDate: row.received_date || null,
+    matchedAt: row.matched_at || null
+  };
+}
+
+/**
+ * Lists recurring gifts, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { memberId, fund, status, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listRecurringGifts(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`g.member_id = $${params.length}`);
+  }
+  if (filters.fund) {
+    params.push(filters.fund);
+    conditions.push(`g.fund = $${params.length}`);
+  }
+  if (filters.status && RECURRING_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`g.status = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM recurring_gifts g${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${RECURRING_SELECT}${where}${RECURRING_GROUP_BY} ORDER BY g.created_at DESC, g.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(row => mapRecurringGift(row)),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single recurring gift with installment totals.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getRecurringGift(db, id) {
+  const result = await db.query(`${RECURRING_SELECT} WHERE g.id = $1${RECURRING_GROUP_BY}`, [id]);
+  return result.rows.length > 0 ? mapRecurringGift(result.rows[0]) : null;
+}
+
+/**
+ * Lists installments, most recently due first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { recurringGiftId, memberId, status, from, to, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listInstallments(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.recurringGiftId && /^\d+$/.test(String(filters.recurringGiftId))) {
+    params.push(filters.recurringGiftId);
+    conditions.push(`i.recurring_gift_id = $${params.length}`);
+  }
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`g.member_id = $${params.length}`);
+  }
+  if (filters.status && INSTALLMENT_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`i.status = $${params.length}`);
+  }
+  if (filters.from && toUtcDate(filters.from)) {
+    params.push(formatDate(toUtcDate(filters.from)));
+    conditions.push(`i.due_date >= $${params.length}`);
+  }
+  if (filters.to && toUtcDate(filters.to)) {
+    params.push(formatDate(toUtcDate(filters.to)));
+    conditions.push(`i.due_date <= $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(
+    `SELECT COUNT(*) FROM recurring_gift_installments i JOIN recurring_gifts g ON g.id = i.recurring_gift_id${where}`,
+    params
+  );
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${INSTALLMENT_SELECT}${where} ORDER BY i.due_date DESC, i.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapInstallment),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single installment with its schedule and donation.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getInstallment(db, id) {
+  const result = await db.query(`${INSTALLMENT_SELECT} WHERE i.id = $1`, [id]);
+  return result.rows.length > 0 ? mapInstallment(result.rows[0]) : null;
+}
+
+/**
+ * Creates the installments that have fallen due since each schedule was
+ * last processed. Paused schedules are moved forward without creating any,
+ * so resuming one does not backfill the paused weeks.
+ * @param {Object} db - pg client
+ * @param {Object} [options] - { asOf, memberId }
+ * @returns {Promise<number>} installments created
+ */
+async function generateInstallments(db, { asOf = new Date(), memberId = null } = {}) {
+  const today = formatDate(toUtcDate(asOf));
+  const result = await db.query(
+    `SELECT * FROM recurring_gifts
+     WHERE status <> 'cancelled'
+       AND start_date <= $1
+       AND (generated_through IS NULL OR generated_through < $1)
+       AND ($2::text IS NULL OR member_id = $2)`,
+    [today, memberId]
+  );
+
+  let created = 0;
+  for (const gift of result.rows) {
+    if (gift.status === 'active') {
+      const dueDates = dueDatesBetween(
+        { frequency: gift.frequency, startDate: gift.start_date, endDate: gift.end_date },
+        gift.generated_through,
+        today
+      );
+      if (dueDates.length > 0) {
+        const inserted = await db.query(
+          `INSERT INTO recurring_gift_installments (recurring_gift_id, due_date, amount)
+           SELECT $1, due_date, $2 FROM unnest($3::date[]) AS due_date
+           ON CONFLICT (recurring_gift_id, due_date) DO NOTHING`,
+          [gift.id, gift.amount, dueDates]
+        );
+        created += inserted.rowCount || 0;
+      }
+    }
+    await db.query('UPDATE recurring_gifts SET generated_through = $1 WHERE id = $2', [today, gift.id]);
+  }
+  return created;
+}
+
+/**
+ * Pairs open installments with unlinked donations. Each installment takes
+ * a gift from the same member to the same fund dated from a few days
+ * before its due date to the end of its grace period, preferring the exact
+ * amount and then the closest date. Installments are filled oldest first
+ * and a donation pays at most one.
+ * @param {Array} installments - { id, due_date, amount, member_id, fund, frequency }
+ * @param {Array} donations - { id, member_id, fund, amount, gift_date }
+ * @returns {Array} { installmentId, donationId }
+ */
+function pairInstallments(installments, donations) {
+  const used = new Set();
+  const pairs = [];
+  const ordered = [...installments].sort((a, b) => toUtcDate(a.due_date) - toUtcDate(b.due_date));
+
+  for (const installment of ordered) {
+    const due = toUtcDate(installment.due_date);
+    const earliest = addDays(due, -MATCH_DAYS_EARLY);
+    const latest = addDays(due, GRACE_DAYS[installment.frequency] || 7);
+    const expectedCents = toCents(installment.amount);
+
+    let best = null;
+    for (const donation of donations) {
+      if (used.has(donation.id)) continue;
+      if (donation.member_id !== installment.member_id || donation.fund !== installment.fund) continue;
+      const cents = toCents(donation.amount);
+      if (cents < expectedCents * MIN_MATCH_RATIO) continue;
+      const date = toUtcDate(donation.gift_date);
+      if (date < earliest || date > latest) continue;
+
+      const rank = [cents === expectedCents ? 0 : 1, Math.abs(date - due)];
+      if (!best || rank[0] < best.rank[0] || (rank[0] === best.rank[0] && rank[1] < best.rank[1])) {
+        best = { donation, rank };
+      }
+    }
+    if (best) {
+      used.add(best.donation.id);
+      pairs.push({ installmentId: installment.id, donationId: best.donation.id });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Links received donations to open (expected or missed) installments.
+ * Installments whose donation was deleted are reopened first.
+ * @param {Object} db - pg client
+ * @param {Object} [options] - { memberId }
+ * @returns {Promise<number>} installments matched
+ */
+async function matchInstallments(db, { memberId = null } = {}) {
+  await db.query(
+    `UPDATE recurring_gift_installments i SET status = 'expected', matched_at = NULL
+     FROM recurring_gifts g
+     WHERE g.id = i.recurring_gift_id
+       AND i.status = 'received' AND i.donation_id IS NULL
+       AND ($1::text IS NULL OR g.member_id = $1)`,
+    [memberId]
+  );
+
+  const open = await db.query(
+    `SELECT i.id, i.due_date, i.amount, g.member_id, g.fund, g.frequency
+     FROM recurring_gift_installments i
+     JOIN recurring_gifts g ON g.id = i.recurring_gift_id
+     WHERE i.status IN ('expected', 'missed')
+       AND ($1::text IS NULL OR g.member_id = $1)`,
+    [memberId]
+  );
+  if (open.rows.length === 0) return 0;
+
+  const memberIds = [...new Set(open.rows.map(row => row.member_id))];
+  const earliestDue = open.rows.reduce((min, row) => {
+    const due = toUtcDate(row.due_date);
+    return !min || due < min ? due : min;
+  }, null);
+  const donations = await db.query(
+    `SELECT d.id, d.member_id, d.fund, d.amount, d.donation_date::date AS gift_date
+     FROM donations d
+     WHERE d.member_id = ANY($1)
+       AND d.donation_date >= $2::date
+       AND NOT EXISTS (SELECT 1 FROM recurring_gift_installments i WHERE i.donation_id = d.id)`,
+    [memberIds, formatDate(addDays(earliestDue, -MATCH_DAYS_EARLY))]
+  );
+
+  const pairs = pairInstallments(open.rows, donations.rows);
+  for (const pair of pairs) {
+    await db.query(
+      `UPDATE recurring_gift_installments
+       SET status = 'received', donation_id = $2, matched_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [pair.installmentId, pair.donationId]
+    );
+  }
+  return pairs.length;
+}
+
+/**
+ * Marks expected installments past their grace period as missed.
+ * @param {Object} db - pg client
+ * @param {Object} [options] - { asOf, memberId }
+ * @returns {Promise<number>} installments marked missed
+ */
+async function markMissedInstallments(db, { asOf = new Date(), memberId = null } = {}) {
+  const result = await db.query(
+    `UPDATE recurring_gift_installments i SET status = 'missed'
+     FROM recurring_gifts g
+     WHERE g.id = i.recurring_gift_id
+       AND i.status = 'expected'
+       AND i.due_date + ${GRACE_SQL} < $1::date
+       AND ($2::text IS NULL OR g.member_id = $2)`,
+    [formatDate(toUtcDate(asOf)), memberId]
+  );
+  return result.rowCount || 0;
+}
+
+/**
+ * Runs the recurring gift job: create due installments, match donations,
+ * then mark what is still unpaid after its grace period as missed. Every
+ * step is idempotent, and an advisory lock keeps concurrent runs (several
+ * server instances, or a donation saved mid-run) from matching the same
+ * gift twice.
+ * @param {Object} pool - pg Pool
+ * @param {Object} [options] - { asOf, memberId: limit the run to one member,
+ *   donationId: an edited gift to unlink so it is matched afresh }
+ * @returns {Promise<Object>} { generated, matched, missed }
+ */
+async function runRecurringGiftJob(pool, { asOf = new Date(), memberId = null, donationId = null } = {}) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('recurring_gift_job'))");
+    if (donationId) {
+      await client.query(
+        'UPDATE recurring_gift_installments SET donation_id = NULL WHERE donation_id = $1',
+        [donationId]
+      );
+    }
+    const generated = await generateInstallments(client, { asOf, memberId });
+    const matched = await matchInstallments(client, { memberId });
+    const missed = await markMissedInstallments(client, { asOf, memberId });
+    await client.query('COMMIT');
+    return { generated, matched, missed };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rebuilds a schedule's open installments after it is edited. Expected
+ * installments are recreated with the new amount (or not at all once the
+ * schedule is paused or cancelled), and anything unpaid outside a changed
+ * start or end date is dropped. Received, missed and
+ * skipped installments inside the schedule are kept as history.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id - recurring_gifts.id
+ */
+async function resetInstallments(db, id) {
+  await db.query(
+    `DELETE FROM recurring_gift_installments i
+     USING recurring_gifts g
+     WHERE g.id = i.recurring_gift_id AND g.id = $1
+       AND i.status <> 'received'
+       AND (i.status = 'expected' OR i.due_date < g.start_date OR i.due_date > g.end_date)`,
+    [id]
+  );
+  await db.query('UPDATE recurring_gifts SET generated_through = NULL WHERE id = $1', [id]);
+}
+
+/**
+ * Counts the installments that already have an outcome. A schedule's
+ * frequency and start date are fixed once it has any.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id - recurring_gifts.id
+ * @returns {Promise<number>}
+ */
+async function countSettledInstallments(db, id) {
+  const result = await db.query(
+    "SELECT COUNT(*) FROM recurring_gift_installments WHERE recurring_gift_id = $1 AND status IN ('received', 'missed')",
+    [id]
+  );
+  return parseInt(result.rows[0].count) || 0;
+}
+
+module.exports = {
+  RECURRING_FREQUENCIES,
+  RECURRING_STATUSES,
+  INSTALLMENT_STATUSES,
+  GRACE_DAYS,
+  validateRecurringGift,
+  dueDatesBetween,
+  mapRecurringGift,
+  mapInstallment,
+  listRecurringGifts,
+  getRecurringGift,
+  listInstallments,
+  getInstallment,
+  generateInstallments,
+  pairInstallments,
+  matchInstallments,
+  markMissedInstallments,
+  runRecurringGiftJob,
+  resetInstallments,
+  countSettledInstallments
+};
@@ -0,0 +1,433 @@
+/**
+ * Custom Report Builder for GraceGiver
+ *
+ * Reports are described by a definition rather than SQL: up to two
+ * dimensions to group gifts by, the measures to compute, filters and a date
+ * range. The SQL is assembled only from the whitelists below; every value
+ * from the definition is passed as a query parameter, and dimension and
+ * measure keys are checked against the whitelists before they are used as
+ * column aliases.
+ *
+ * Definitions can be saved and shared with roles. A user who can only read
+ * their own reports runs every definition restricted to their own gifts.
+ */
+
+const { hasPermission, PERMISSION_HIERARCHY } = require('./rbac');
+const { PAYMENT_METHODS } = require('./validation');
+
+// Joins a dimension or filter can require, in the order they are applied
+const JOINS = {
+  member: 'LEFT JOIN members m ON m.id = d.member_id',
+  household: 'LEFT JOIN households h ON h.id = m.family_id',
+  // A gift counts toward the latest campaign on its fund that was running
+  // on the gift date
+  campaign: `LEFT JOIN LATERAL (
+      SELECT c.id, c.title FROM fund_campaigns c
+      WHERE c.fund_name = d.fund
+        AND (c.start_date IS NULL OR c.start_date <= d.donation_date::date)
+        AND (c.end_date IS NULL OR c.end_date >= d.donation_date::date)
+      ORDER BY c.start_date DESC NULLS LAST, c.id DESC
+      LIMIT 1
+    ) cp ON true`
+};
+
+const DIMENSIONS = {
+  fund: { label: 'Fund', sql: 'd.fund', group: 'd.fund', joins: [] },
+  month: {
+    label: 'Month',
+    sql: "to_char(d.donation_date, 'YYYY-MM')",
+    group: "to_char(d.donation_date, 'YYYY-MM')",
+    joins: []
+  },
+  quarter: {
+    label: 'Quarter',
+    sql: `to_char(d.donation_date, 'YYYY "Q"Q')`,
+    group: `to_char(d.donation_date, 'YYYY "Q"Q')`,
+    joins: []
+  },
+  member: {
+    label: 'Member',
+    sql: "COALESCE(m.last_name || ', ' || m.first_name, 'Guest')",
+    group: 'd.member_id, m.first_name, m.last_name',
+    joins: ['member']
+  },
+  household: {
+    label: 'Household',
+    sql: "COALESCE(h.name, 'No household')",
+    group: 'h.id, h.name',
+    joins: ['member', 'household']
+  },
+  campaign: {
+    label: 'Campaign',
+    sql: "COALESCE(cp.title, 'No campaign')",
+    group: 'cp.id, cp.title',
+    joins: ['campaign']
+  },
+  payment_method: {
+    label: 'Payment Method',
+    sql: "COALESCE(d.payment_method, 'unknown')",
+    group: 'd.payment_method',
+    joins: []
+  }
+};
+
+const MEASURES = {
+  sum: { label: 'Total', sql: 'COALESCE(SUM(d.amount), 0)', type: 'currency' },
+  count: { label: 'Gifts', sql: 'COUNT(d.id)', type: 'number' },
+  average: { label: 'Average Gift', sql: 'COALESCE(AVG(d.amount), 0)', type: 'currency' },
+  distinct_donors: { label: 'Donors', sql: 'COUNT(DISTINCT d.member_id)', type: 'number' }
+};
+
+// List filters match any of the given values
+const FILTERS = {
+  funds: { sql: 'd.fund = ANY($?::text[])', joins: [] },
+  paymentMethods: { sql: 'd.payment_method = ANY($?::text[])', joins: [] },
+  memberIds: { sql: 'd.member_id = ANY($?::text[])', joins: [] },
+  householdIds: { sql: 'm.family_id = ANY($?::text[])', joins: ['member'] },
+  campaignIds: { sql: 'cp.id = ANY($?::int[])', joins: ['campaign'] }
+};
+
+const CHART_TYPES = ['bar', 'line', 'pie', 'table'];
+const SORT_DIRECTIONS = ['asc', 'desc'];
+
+// Roles a saved definition can be shared with: any role that reads reports
+const SHAREABLE_ROLES = Object.keys(PERMISSION_HIERARCHY).filter(role =>
+  hasPermission(role, 'reports:read') || PERMISSION_HIERARCHY[role].includes('reports:read:own')
+);
+
+const MAX_DIMENSIONS = 2;
+const MAX_FILTER_VALUES = 100;
+const DEFAULT_ROW_LIMIT = 100;
+const MAX_ROW_LIMIT = 1000;
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+const isDate = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+/**
+ * Validates a report definition.
+ * @param {Object} definition
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateReportDefinition(definition) {
+  const errors = [];
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return { isValid: false, errors: ['INVALID_DEFINITION: definition must be an object.'] };
+  }
+
+  const dimensions = definition.dimensions === undefined ? [] : definition.dimensions;
+  if (!Array.isArray(dimensions) || dimensions.some(key => !DIMENSIONS[key])) {
+    errors.push(`INVALID_DIMENSION: dimensions must be chosen from ${Object.keys(DIMENSIONS).join(', ')}.`);
+  } else if (dimensions.length > MAX_DIMENSIONS || new Set(dimensions).size !== dimensions.length) {
+    errors.push(`TOO_MANY_DIMENSIONS: Choose up to ${MAX_DIMENSIONS} different dimensions.`);
+  }
+
+  const measures = definition.measures;
+  if (!Array.isArray(measures) || measures.length === 0) {
+    errors.push('REQUIRED_MEASURE: Choose at least one measure.');
+  } else if (measures.some(key => !MEASURES[key]) || new Set(measures).size !== measures.length) {
+    errors.push(`INVALID_MEASURE: measures must be chosen from ${Object.keys(MEASURES).join(', ')}.`);
+  }
+
+  const filters = definition.filters === undefined || definition.filters === null ? {} : definition.filters;
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    errors.push('INVALID_FILTER: filters must be an object.');
+  } else {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (key === 'minAmount' || key === 'maxAmount') {
+        if (!isBlank(value) && !(Number.isFinite(Number(value)) && Number(value) >= 0)) {
+          errors.push(`INVALID_FILTER: ${key} must be an amount of 0 or more.`);
+        }
+      } else if (!FILTERS[key]) {
+        errors.push(`INVALID_FILTER: Unknown filter "${key}".`);
+      } else if (
+        !Array.isArray(value) || value.length > MAX_FILTER_VALUES ||
+        value.some(v => (key === 'campaignIds' ? !/^\d+$/.test(String(v)) : typeof v !== 'string' || !v.trim()))
+      ) {
+        errors.push(`INVALID_FILTER: ${key} must be a list of up to ${MAX_FILTER_VALUES} values.`);
+      } else if (key === 'paymentMethods' && value.some(v => !PAYMENT_METHODS.includes(v))) {
+        errors.push(`INVALID_FILTER: paymentMethods must be chosen from ${PAYMENT_METHODS.join(', ')}.`);
+      }
+    });
+    if (!isBlank(filters.minAmount) && !isBlank(filters.maxAmount) && Number(filters.minAmount) > Number(filters.maxAmount)) {
+      errors.push('INVALID_FILTER: minAmount cannot be more than maxAmount.');
+    }
+  }
+
+  const { startDate, endDate } = definition;
+  if ((!isBlank(startDate) && !isDate(startDate)) || (!isBlank(endDate) && !isDate(endDate))) {
+    errors.push('INVALID_DATE: startDate and endDate must be dates (YYYY-MM-DD).');
+  } else if (!isBlank(startDate) && !isBlank(endDate) && startDate > endDate) {
+    errors.push('INVALID_DATE_RANGE: endDate cannot be before startDate.');
+  }
+
+  if (definition.sort !== undefined && definition.sort !== null) {
+    const { by, direction = 'asc' } = definition.sort;
+    const keys = [...(Array.isArray(dimensions) ? dimensions : []), ...(Array.isArray(measures) ? measures : [])];
+    if (!keys.includes(by) || !SORT_DIRECTIONS.includes(direction)) {
+      errors.push('INVALID_SORT: sort.by must be one of the chosen dimensions or measures, and direction asc or desc.');
+    }
+  }
+
+  if (!isBlank(definition.limit)) {
+    const limit = Number(definition.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ROW_LIMIT) {
+      errors.push(`INVALID_LIMIT: limit must be a whole number from 1 to ${MAX_ROW_LIMIT}.`);
+    }
+  }
+
+  if (!isBlank(definition.chart) && !CHART_TYPES.includes(definition.chart)) {
+    errors.push(`INVALID_CHART: chart must be one of ${CHART_TYPES.join(', ')}.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Normalizes a validated definition: drops empty filters and fills in the
+ * defaults, so saved definitions compare equal when they mean the same.
+ * @param {Object} definition
+ * @returns {Object}
+ */
+function normalizeReportDefinition(definition) {
+  const filters = {};
+  Object.entries(definition.filters || {}).forEach(([key, value]) => {
+    if (key === 'minAmount' || key === 'maxAmount') {
+      if (!isBlank(value)) filters[key] = Number(value);
+    } else if (value.length > 0) {
+      filters[key] = [...new Set(value.map(v => (key === 'campaignIds' ? Number(v) : v.trim())))];
+    }
+  });
+
+  return {
+    dimensions: definition.dimensions || [],
+    measures: definition.measures,
+    filters,
+    startDate: definition.startDate || null,
+    endDate: definition.endDate || null,
+    sort: definition.sort ? { by: definition.sort.by, direction: definition.sort.direction || 'asc' } : null,
+    limit: isBlank(definition.limit) ? DEFAULT_ROW_LIMIT : Number(definition.limit),
+    chart: definition.chart || 'bar'
+  };
+}
+
+/**
+ * Builds the query for a normalized definition.
+ * @param {Object} definition - From normalizeReportDefinition.
+ * @param {Object} [scope] - { memberId }: restrict to one member's gifts.
+ * @returns {{ sql: string, params: Array }}
+ */
+function buildReportQuery(definition, { memberId = null } = {}) {
+  const params = [];
+  const param = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const dimensions = definition.dimensions.map(key => ({ key, ...DIMENSIONS[key] }));
+  const measures = definition.measures.map(key => ({ key, ...MEASURES[key] }));
+  const joins = new Set(dimensions.flatMap(d => d.joins));
+  const where = [];
+
+  if (memberId) where.push(`d.member_id = ${param(String(memberId))}`);
+  Object.entries(definition.filters).forEach(([key, value]) => {
+    if (key === 'minAmount') {
+      where.push(`d.amount >= ${param(value)}`);
+    } else if (key === 'maxAmount') {
+      where.push(`d.amount <= ${param(value)}`);
+    } else {
+      FILTERS[key].joins.forEach(join => joins.add(join));
+      where.push(FILTERS[key].sql.replace('$?', param(value)));
+    }
+  });
+  if (definition.startDate) where.push(`d.donation_date >= ${param(definition.startDate)}::date`);
+  if (definition.endDate) where.push(`d.donation_date < ${param(definition.endDate)}::date + 1`);
+
+  // The household join needs the member join before it
+  if (joins.has('household')) joins.add('member');
+  const joinSql = Object.keys(JOINS).filter(join => joins.has(join)).map(join => JOINS[join]);
+
+  const select = [
+    ...dimensions.map(d => `${d.sql} AS "${d.key}"`),
+    ...measures.map(m => `${m.sql} AS "${m.key}"`)
+  ];
+  const sort = definition.sort || (dimensions.length > 0
+    ? { by: dimensions[0].key, direction: 'asc' }
+    : null);
+  const order = sort
+    ? [
+      `"${sort.by}" ${sort.direction === 'desc' ? 'DESC' : 'ASC'}`,
+      ...dimensions.filter(d => d.key !== sort.by).map(d => `"${d.key}"`)
+    ]
+    : [];
+
+  const sql = [
+    `SELECT ${select.join(', ')}`,
+    'FROM donations d',
+    ...joinSql,
+    where.length > 0 ? `WHERE ${where.join(' AND ')}` : '',
+    dimensions.length > 0 ? `GROUP BY ${dimensions.map(d => d.group).join(', ')}` : '',
+    order.length > 0 ? `ORDER BY ${order.join(', ')}` : '',
+    // One extra row tells the caller the result was cut off
+    `LIMIT ${param(definition.limit + 1)}`
+  ].filter(Boolean).join('\n');
+
+  return { sql, params };
+}
+
+/**
+ * Runs a definition.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} definition - Validated definition.
+ * @param {Object} [scope] - { memberId }
+ * @returns {Promise<Object>} { columns, rows, truncated }
+ */
+async function runReportDefinition(db, definition, scope = {}) {
+  const normalized = normalizeReportDefinition(definition);
+  const { sql, params } = buildReportQuery(normalized, scope);
+  const result = await db.query(sql, params);
+
+  const rows = result.rows.slice(0, normalized.limit).map(row => {
+    const mapped = {};
+    normalized.dimensions.forEach(key => { mapped[key] = row[key]; });
+    normalized.measures.forEach(key => {
+      mapped[key] = MEASURES[key].type === 'currency'
+        ? Math.round(parseFloat(row[key]) * 100) / 100
+        : parseInt(row[key]);
+    });
+    return mapped;
+  });
+
+  return {
+    columns: [
+      ...normalized.dimensions.map(key => ({ key, label: DIMENSIONS[key].label, type: 'text' })),
+      ...normalized.measures.map(key => ({ key, label: MEASURES[key].label, type: MEASURES[key].type }))
+    ],
+    rows,
+    truncated: result.rows.length > normalized.limit
+  };
+}
+
+/**
+ * Validates a saved definition's name, description and sharing. The
+ * definition itself is checked by validateReportDefinition.
+ * @param {Object} input - { name, description, sharedRoles }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateSavedReport(input) {
+  const errors = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+
+  if (!name) {
+    errors.push('REQUIRED_NAME: name is required.');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`INVALID_NAME_LENGTH: name cannot exceed ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (!isBlank(input.description) && (typeof input.description !== 'string' || input.description.length > MAX_DESCRIPTION_LENGTH)) {
+    errors.push(`INVALID_DESCRIPTION_LENGTH: description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  const roles = input.sharedRoles === undefined || input.sharedRoles === null ? [] : input.sharedRoles;
+  if (!Array.isArray(roles) || roles.some(role => !SHAREABLE_ROLES.includes(role))) {
+    errors.push(`INVALID_SHARED_ROLES: sharedRoles must be chosen from ${SHAREABLE_ROLES.join(', ')}.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a report_definitions row to the API shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapSavedReport(row) {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    description: row.description || null,
+    definition: row.definition,
+    sharedRoles: row.shared_roles || [],
+    ownerId: row.owner_id != null ? Number(row.owner_id) : null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Users who can manage every saved report, not just their own
+const canManageAll = (user) => hasPermission(user.role, 'reports:manage');
+
+/**
+ * Whether a user can run a saved report: their own, one shared with their
+ * role, or any if they manage reports.
+ * @param {Object} user - req.user
+ * @param {Object} report - Mapped saved report.
+ * @returns {boolean}
+ */
+function canViewSavedReport(user, report) {
+  return canManageAll(user) || report.ownerId === Number(user.id) || report.sharedRoles.includes(user.role);
+}
+
+/**
+ * Whether a user can change or delete a saved report.
+ * @param {Object} user - req.user
+ * @param {Object} report - Mapped saved report.
+ * @returns {boolean}
+ */
+function canEditSavedReport(user, report) {
+  return canManageAll(user) || report.ownerId === Number(user.id);
+}
+
+/**
+ * Lists the saved reports a user can run, by name.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} user - req.user
+ * @returns {Promise<Array>}
+ */
+async function listSavedReports(db, user) {
+  const result = canManageAll(user)
+    ? await db.query('SELECT * FROM report_definitions ORDER BY lower(name), id')
+    : await db.query(
+      `SELECT * FROM report_definitions
+       WHERE owner_id = $1 OR $2 = ANY(shared_roles)
+       ORDER BY lower(name), id`,
+      [user.id, user.role]
+    );
+  return result.rows.map(mapSavedReport);
+}
+
+/**
+ * Fetches one saved report.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getSavedReport(db, id) {
+  const result = await db.query('SELECT * FROM report_definitions WHERE id = $1', [id]);
+  return result.rows.length > 0 ? mapSavedReport(result.rows[0]) : null;
+}
+
+module.exports = {
+  DIMENSIONS,
+  MEASURES,
+  FILTERS,
+  CHART_TYPES,
+  SHAREABLE_ROLES,
+  MAX_ROW_LIMIT,
+  validateReportDefinition,
+  normalizeReportDefinition,
+  buildReportQuery,
+  runReportDefinition,
+  validateSavedReport,
+  mapSavedReport,
+  canViewSavedReport,
+  canEditSavedReport,
+  listSavedReports,
+  getSavedReport
+};
@@ -0,0 +1,725 @@
+/**
+ * Report Subscription Utilities for GraceGiver
+ *
+ * A subscription renders one of the standard reports (fund distribution,
+ * quarterly progress, trend analysis or new donors) as a PDF or CSV on a
+ * weekly, monthly or quarterly schedule and hands it to a delivery channel:
+ *
+ *   inbox - Drops the report in each recipient's Report Inbox in the app.
+ *   email - Emails it as an attachment through the email send log.
+ *
+ * Channels are passed to the job as { name: deliver(db, delivery,
+ * subscription, context) }, so another channel can be added without
+ * changing the job. Each rendered report is stored once in
+ * report_deliveries and shared by every recipient.
+ */
+
+const { stringify } = require('csv-stringify/sync');
+const { REGEX } = require('./validation');
+const { hasPermission, PERMISSION_HIERARCHY } = require('./rbac');
+const {
+  getFundDistribution,
+  getQuarterlyProgress,
+  getTrendAnalysis,
+  getNewDonors,
+  generateSummaryReportPDF
+} = require('./reports');
+const { collectPdf, getEmailTemplate, queueEmailMessages } = require('./email');
+
+// Reports that can be scheduled and the parameters each one takes
+const REPORT_TYPES = {
+  fund_distribution: { name: 'Top 10 Fund Distributions', params: ['year'] },
+  quarterly_progress: { name: 'Quarterly Progress Summary', params: ['year', 'fund'] },
+  trend_analysis: { name: 'Trend Analysis (3 Year)', params: ['fund'] },
+  new_donors: { name: 'New Donor List', params: [] }
+};
+const REPORT_FORMATS = ['pdf', 'csv'];
+const REPORT_CADENCES = ['weekly', 'monthly', 'quarterly'];
+const REPORT_CHANNELS = ['inbox', 'email'];
+
+// Users whose role can read reports can receive them
+const RECIPIENT_ROLES = Object.keys(PERMISSION_HIERARCHY).filter(role => hasPermission(role, 'reports:read'));
+
+// Scheduled runs happen at this hour (UTC), early morning across US time zones
+const RUN_HOUR_UTC = 12;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_RECIPIENTS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * Validates a subscription. Updates are validated against the stored
+ * subscription merged with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateReportSubscription(input) {
+  const errors = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+
+  if (!name) {
+    errors.push('REQUIRED_NAME: name is required.');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`INVALID_NAME_LENGTH: name cannot exceed ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (!REPORT_TYPES[input.reportType]) {
+    errors.push(`INVALID_REPORT_TYPE: reportType must be one of ${Object.keys(REPORT_TYPES).join(', ')}.`);
+  }
+  if (!REPORT_FORMATS.includes(input.format)) {
+    errors.push(`INVALID_FORMAT: format must be one of ${REPORT_FORMATS.join(', ')}.`);
+  }
+  if (!REPORT_CADENCES.includes(input.cadence)) {
+    errors.push(`INVALID_CADENCE: cadence must be one of ${REPORT_CADENCES.join(', ')}.`);
+  }
+  if (!REPORT_CHANNELS.includes(input.channel)) {
+    errors.push(`INVALID_CHANNEL: channel must be one of ${REPORT_CHANNELS.join(', ')}.`);
+  }
+
+  const params = input.params === undefined || input.params === null ? {} : input.params;
+  if (typeof params !== 'object' || Array.isArray(params)) {
+    errors.push('INVALID_PARAMS: params must be an object.');
+  } else {
+    if (params.year !== undefined && params.year !== null && params.year !== '' && !/^\d{4}$/.test(String(params.year))) {
+      errors.push('INVALID_YEAR: params.year must be a four-digit year, or empty for the current year.');
+    }
+    if (params.fund !== undefined && params.fund !== null && typeof params.fund !== 'string') {
+      errors.push('INVALID_FUND: params.fund must be a fund name or code.');
+    }
+  }
+
+  const userIds = input.recipientUserIds === undefined || input.recipientUserIds === null ? [] : input.recipientUserIds;
+  const emails = input.recipientEmails === undefined || input.recipientEmails === null ? [] : input.recipientEmails;
+  if (!Array.isArray(userIds) || userIds.some(id => !/^\d+$/.test(String(id)))) {
+    errors.push('INVALID_RECIPIENTS: recipientUserIds must be a list of user ids.');
+  } else if (!Array.isArray(emails) || emails.some(email => typeof email !== 'string' || !REGEX.EMAIL.test(email.trim()))) {
+    errors.push('INVALID_EMAIL: recipientEmails must be valid email addresses.');
+  } else if (emails.length > 0 && input.channel === 'inbox') {
+    errors.push('INVALID_RECIPIENTS: recipientEmails can only be used with the email channel.');
+  } else if (userIds.length + emails.length === 0) {
+    errors.push('REQUIRED_RECIPIENTS: At least one recipient is required.');
+  } else if (userIds.length + emails.length > MAX_RECIPIENTS) {
+    errors.push(`INVALID_RECIPIENTS: A subscription cannot have more than ${MAX_RECIPIENTS} recipients.`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Normalizes a validated subscription: trims text, keeps only the params
+ * the report takes and removes duplicate recipients.
+ * @param {Object} input
+ * @returns {Object}
+ */
+function normalizeReportSubscription(input) {
+  const params = {};
+  const allowed = REPORT_TYPES[input.reportType].params;
+  const source = input.params || {};
+  if (allowed.includes('year') && source.year) params.year = parseInt(source.year);
+  if (allowed.includes('fund') && source.fund && source.fund.trim()) params.fund = source.fund.trim();
+
+  return {
+    name: input.name.trim(),
+    reportType: input.reportType,
+    params,
+    format: input.format,
+    cadence: input.cadence,
+    channel: input.channel,
+    recipientUserIds: [...new Set((input.recipientUserIds || []).map(id => parseInt(id)))],
+    recipientEmails: [...new Set((input.recipientEmails || []).map(email => email.trim().toLowerCase()))],
+    isActive: input.isActive !== false
+  };
+}
+
+/**
+ * Maps a report_subscriptions row to the API shape.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapReportSubscription(row) {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    reportType: row.report_type,
+    reportName: REPORT_TYPES[row.report_type] ? REPORT_TYPES[row.report_type].name : row.report_type,
+    params: row.params || {},
+    format: row.format,
+    cadence: row.cadence,
+    channel: row.channel,
+    recipientUserIds: (row.recipient_user_ids || []).map(Number),
+    recipientEmails: row.recipient_emails || [],
+    isActive: row.is_active,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at || null,
+    lastError: row.last_error || null,
+    createdBy: row.created_by || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * The first scheduled run after a moment: the next Monday, the 1st of the
+ * next month or the 1st of the next quarter, at RUN_HOUR_UTC.
+ * @param {string} cadence
+ * @param {Date} [after]
+ * @returns {Date}
+ */
+function nextRunAt(cadence, after = new Date()) {
+  const year = after.getUTCFullYear();
+  const month = after.getUTCMonth();
+
+  if (cadence === 'weekly') {
+    let candidate = new Date(Date.UTC(year, month, after.getUTCDate(), RUN_HOUR_UTC));
+    while (candidate.getUTCDay() !== 1 || candidate <= after) {
+      candidate = new Date(candidate.getTime() + DAY_MS);
+    }
+    return candidate;
+  }
+
+  const step = cadence === 'quarterly' ? 3 : 1;
+  const startMonth = Math.floor(month / step) * step;
+  const candidate = new Date(Date.UTC(year, startMonth, 1, RUN_HOUR_UTC));
+  return candidate > after ? candidate : new Date(Date.UTC(year, startMonth + step, 1, RUN_HOUR_UTC));
+}
+
+/**
+ * The period a run reports on: the week, month or quarter that ended
+ * before it.
+ * @param {string} cadence
+ * @param {Date} [asOf]
+ * @returns {{ label: string, year: number }}
+ */
+function reportPeriod(cadence, asOf = new Date()) {
+  const lastDay = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()) - DAY_MS);
+  const year = lastDay.getUTCFullYear();
+
+  if (cadence === 'weekly') {
+    const firstDay = new Date(lastDay.getTime() - 6 * DAY_MS);
+    const label = firstDay.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+    return { label: `Week of ${label}`, year };
+  }
+  if (cadence === 'quarterly') {
+    return { label: `Q${Math.floor(lastDay.getUTCMonth() / 3) + 1} ${year}`, year };
+  }
+  return { label: `${MONTH_NAMES[lastDay.getUTCMonth()]} ${year}`, year };
+}
+
+const withFund = (title, fund) => (fund ? `${title} - ${fund}` : title);
+
+/**
+ * Runs a report and lays it out as a table.
+ * @param {Object} db - pg Pool or client
+ * @param {string} reportType
+ * @param {Object} params - { year, fund }
+ * @param {Object} options - { year: default year, period: label, asOf }
+ * @returns {Promise<Object>} { type, title, period, generatedAt, columns, rows }
+ */
+async function buildReport(db, reportType, params = {}, { year: defaultYear, period = null, asOf = new Date() } = {}) {
+  const year = params.year ? parseInt(params.year) : defaultYear || asOf.getUTCFullYear();
+  const fund = params.fund || null;
+  const base = { type: reportType, period, generatedAt: asOf };
+
+  if (reportType === 'fund_distribution') {
+    const rows = await getFundDistribution(db, year);
+    return {
+      ...base,
+      title: `Top 10 Fund Distributions (${year})`,
+      columns: [
+        { key: 'fund', label: 'Fund', type: 'text' },
+        { key: 'total', label: 'Total', type: 'currency' }
+      ],
+      rows: rows.map(row => ({ fund: row.fund, total: parseFloat(row.total) }))
+    };
+  }
+
+  if (reportType === 'quarterly_progress') {
+    const data = await getQuarterlyProgress(db, year, { fund });
+    const totalFor = (y, quarter) => {
+      const row = data.find(r => Number(r.year) === y && Number(r.quarter) === quarter);
+      return row ? parseFloat(row.total) : 0;
+    };
+    return {
+      ...base,
+      title: withFund(`Quarterly Progress Summary (${year} vs ${year - 1})`, fund),
+      columns: [
+        { key: 'quarter', label: 'Quarter', type: 'text' },
+        { key: 'previousYear', label: String(year - 1), type: 'currency' },
+        { key: 'currentYear', label: String(year), type: 'currency' },
+        { key: 'change', label: 'Change', type: 'percent' }
+      ],
+      rows: [1, 2, 3, 4].map(quarter => {
+        const previousYear = totalFor(year - 1, quarter);
+        const currentYear = totalFor(year, quarter);
+        return {
+          quarter: `Q${quarter}`,
+          previousYear,
+          currentYear,
+          change: previousYear > 0 ? ((currentYear - previousYear) / previousYear) * 100 : null
+        };
+      })
+    };
+  }
+
+  if (reportType === 'trend_analysis') {
+    const rows = await getTrendAnalysis(db, { fund });
+    return {
+      ...base,
+      title: withFund('Trend Analysis (3 Year)', fund),
+      columns: [
+        { key: 'year', label: 'Year', type: 'text' },
+        { key: 'total', label: 'Total', type: 'currency' }
+      ],
+      rows: rows.map(row => ({ year: String(row.year), total: parseFloat(row.total) }))
+    };
+  }
+
+  if (reportType === 'new_donors') {
+    const rows = await getNewDonors(db);
+    return {
+      ...base,
+      title: 'New Donor List (Last 30 Days)',
+      columns: [
+        { key: 'name', label: 'Name', type: 'text' },
+        { key: 'email', label: 'Email', type: 'text' },
+        { key: 'joined', label: 'Added', type: 'date' },
+        { key: 'donationCount', label: 'Gifts', type: 'number' },
+        { key: 'totalDonated', label: 'Total Given', type: 'currency' }
+      ],
+      rows: rows.map(row => ({
+        name: `${row.first_name} ${row.last_name}`,
+        email: row.email || '',
+        joined: row.created_at,
+        donationCount: parseInt(row.donation_count) || 0,
+        totalDonated: parseFloat(row.total_donated) || 0
+      }))
+    };
+  }
+
+  throw new Error(`Unknown report type "${reportType}"`);
+}
+
+const csvValue = (value, type) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (type === 'currency') return parseFloat(value).toFixed(2);
+  if (type === 'percent') return parseFloat(value).toFixed(1);
+  if (type === 'date') return new Date(value).toISOString().slice(0, 10);
+  return String(value);
+};
+
+const slugify = (value) => String(value).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Renders a built report to a file.
+ * @param {Object} report - From buildReport.
+ * @param {string} format - 'pdf' or 'csv'
+ * @param {Object} [options] - { churchName }
+ * @returns {Promise<{ filename: string, content: Buffer }>}
+ */
+async function renderReport(report, format, { churchName } = {}) {
+  const filename = `${slugify(report.title)}${report.period ? `-${slugify(report.period)}` : ''}.${format}`;
+
+  if (format === 'csv') {
+    const lines = [
+      report.columns.map(column => column.label),
+      ...report.rows.map(row => report.columns.map(column => csvValue(row[column.key], column.type)))
+    ];
+    return { filename, content: Buffer.from(stringify(lines)) };
+  }
+
+  const content = await collectPdf(stream => generateSummaryReportPDF(report, stream, { churchName }));
+  return { filename, content };
+}
+
+const SUBSCRIPTION_COLUMNS = [
+  'name', 'report_type', 'params', 'format', 'cadence', 'channel',
+  'recipient_user_ids', 'recipient_emails', 'is_active'
+];
+
+const subscriptionValues = (subscription) => [
+  subscription.name,
+  subscription.reportType,
+  JSON.stringify(subscription.params),
+  subscription.format,
+  subscription.cadence,
+  subscription.channel,
+  subscription.recipientUserIds,
+  subscription.recipientEmails,
+  subscription.isActive
+];
+
+/**
+ * Lists subscriptions by name.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Array>}
+ */
+async function listReportSubscriptions(db) {
+  const result = await db.query('SELECT * FROM report_subscriptions ORDER BY lower(name), id');
+  return result.rows.map(mapReportSubscription);
+}
+
+/**
+ * Fetches one subscription.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getReportSubscription(db, id) {
+  const result = await db.query('SELECT * FROM report_subscriptions WHERE id = $1', [id]);
+  return result.rows.length > 0 ? mapReportSubscription(result.rows[0]) : null;
+}
+
+/**
+ * Creates a subscription, scheduled from its cadence.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} subscription - From normalizeReportSubscription.
+ * @param {string} createdBy
+ * @param {Date} [asOf]
+ * @returns {Promise<Object>} the new row
+ */
+async function createReportSubscription(db, subscription, createdBy, asOf = new Date()) {
+  const values = subscriptionValues(subscription);
+  const result = await db.query(
+    `INSERT INTO report_subscriptions (${SUBSCRIPTION_COLUMNS.join(', ')}, next_run_at, created_by)
+     VALUES (${values.map((_, i) => `$${i + 1}`).join(', ')}, $${values.length + 1}, $${values.length + 2})
+     RETURNING *`,
+    [...values, nextRunAt(subscription.cadence, asOf), createdBy]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Saves a subscription's changes. A new cadence, or resuming a paused
+ * subscription, schedules the next run from now.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @param {Object} subscription - Merged and normalized.
+ * @param {Object} [options] - { reschedule, asOf }
+ * @returns {Promise<Object|null>} the updated row
+ */
+async function updateReportSubscription(db, id, subscription, { reschedule = false, asOf = new Date() } = {}) {
+  const values = subscriptionValues(subscription);
+  const assignments = SUBSCRIPTION_COLUMNS.map((column, i) => `${column} = $${i + 2}`).join(', ');
+  const result = await db.query(
+    `UPDATE report_subscriptions
+     SET ${assignments},
+       next_run_at = COALESCE($${values.length + 2}, next_run_at),
+       updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [id, ...values, reschedule ? nextRunAt(subscription.cadence, asOf) : null]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Users who can receive reports.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Array>} [{ id, username, role, email }]
+ */
+async function listReportRecipients(db) {
+  const result = await db.query(
+    'SELECT id, username, role, email FROM users WHERE role = ANY($1) ORDER BY username',
+    [RECIPIENT_ROLES]
+  );
+  return result.rows.map(row => ({ id: Number(row.id), username: row.username, role: row.role, email: row.email || null }));
+}
+
+/**
+ * Returns the ids that are not users who can receive reports.
+ * @param {Object} db - pg Pool or client
+ * @param {Array} userIds
+ * @returns {Promise<Array>}
+ */
+async function findInvalidRecipients(db, userIds) {
+  if (userIds.length === 0) return [];
+  const result = await db.query(
+    'SELECT id FROM users WHERE id = ANY($1::int[]) AND role = ANY($2)',
+    [userIds, RECIPIENT_ROLES]
+  );
+  const valid = new Set(result.rows.map(row => Number(row.id)));
+  return userIds.filter(id => !valid.has(Number(id)));
+}
+
+/**
+ * Inbox channel: one inbox item per recipient who can still read reports.
+ * @returns {Promise<{ recipients: number, userIds: Array }>}
+ */
+async function deliverToInbox(db, delivery, subscription) {
+  const result = await db.query(
+    `INSERT INTO report_inbox_items (delivery_id, user_id)
+     SELECT $1, u.id FROM users u
+     WHERE u.id = ANY($2::int[]) AND u.role = ANY($3)
+     ON CONFLICT DO NOTHING
+     RETURNING user_id`,
+    [delivery.id, subscription.recipientUserIds, RECIPIENT_ROLES]
+  );
+  return { recipients: result.rows.length, userIds: result.rows.map(row => Number(row.user_id)) };
+}
+
+/**
+ * Email channel: queues one message per address (recipient users' emails
+ * plus the extra addresses). The caller sends them.
+ * @returns {Promise<Array>} queued email_messages rows
+ */
+async function queueReportEmails(db, delivery, subscription, { churchName } = {}) {
+  const users = subscription.recipientUserIds.length > 0
+    ? (await db.query(
+      `SELECT email FROM users
+       WHERE id = ANY($1::int[]) AND role = ANY($2) AND email IS NOT NULL AND email <> ''`,
+      [subscription.recipientUserIds, RECIPIENT_ROLES]
+    )).rows
+    : [];
+  const addresses = [...new Set([...users.map(u => u.email), ...subscription.recipientEmails].map(e => e.trim().toLowerCase()))];
+
+  const template = await getEmailTemplate(db, 'report');
+  return queueEmailMessages(db, {
+    template,
+    recipients: addresses.map(email => ({
+      email,
+      fields: { reportName: subscription.name, period: delivery.period || delivery.title, churchName },
+      attachment: { type: 'report', deliveryId: delivery.id }
+    })),
+    createdBy: subscription.createdBy
+  });
+}
+
+/**
+ * Renders a subscription's report for the period ending at asOf, stores it
+ * and hands it to the subscription's channel.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} subscription - Mapped subscription.
+ * @param {Object} channels - { name: deliver(db, delivery, subscription, context) }
+ * @param {Object} [options] - { asOf }
+ * @returns {Promise<{ delivery: Object, recipients: number }>}
+ */
+async function deliverSubscription(db, subscription, channels, { asOf = new Date() } = {}) {
+  const channel = channels[subscription.channel];
+  if (!channel) throw new Error(`Unknown report channel "${subscription.channel}"`);
+
+  const settings = await db.query('SELECT name FROM settings WHERE singleton_id = true');
+  const churchName = settings.rows[0] ? settings.rows[0].name : 'GraceGiver';
+  const period = reportPeriod(subscription.cadence, asOf);
+  const report = await buildReport(db, subscription.reportType, subscription.params, {
+    year: period.year,
+    period: period.label,
+    asOf
+  });
+  const file = await renderReport(report, subscription.format, { churchName });
+
+  const inserted = await db.query(
+    `INSERT INTO report_deliveries (subscription_id, report_type, title, period, format, filename, content)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id, subscription_id, report_type, title, period, format, filename, created_at`,
+    [subscription.id, subscription.reportType, report.title, period.label, subscription.format, file.filename, file.content]
+  );
+  const delivery = inserted.rows[0];
+  const outcome = await channel(db, delivery, subscription, { churchName });
+
+  await db.query(
+    'UPDATE report_subscriptions SET last_run_at = $2, last_error = NULL WHERE id = $1',
+    [subscription.id, asOf]
+  );
+  return { delivery, ...outcome };
+}
+
+/**
+ * Claims the subscriptions that are due by moving each to its next run, so
+ * a run is never delivered twice. A subscription missed while the server
+ * was down runs once, not once per missed period.
+ * @param {Object} pool - pg Pool
+ * @param {Date} [asOf]
+ * @returns {Promise<Array>} mapped subscriptions
+ */
+async function claimDueSubscriptions(pool, asOf = new Date()) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const due = await client.query(
+      `SELECT * FROM report_subscriptions
+       WHERE is_active = true AND next_run_at <= $1
+       ORDER BY next_run_at
+       FOR UPDATE SKIP LOCKED`,
+      [asOf]
+    );
+    for (const row of due.rows) {
+      await client.query(
+        'UPDATE report_subscriptions SET next_run_at = $2 WHERE id = $1',
+        [row.id, nextRunAt(row.cadence, asOf)]
+      );
+    }
+    await client.query('COMMIT');
+    return due.rows.map(mapReportSubscription);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delivers every subscription that is due. A failure is recorded on the
+ * subscription as lastError and does not stop the others.
+ * @param {Object} pool - pg Pool
+ * @param {Object} channels - See deliverSubscription.
+ * @param {Object} [options] - { asOf }
+ * @returns {Promise<Array>} [{ subscription, delivery, recipients } | { subscription, error }]
+ */
+async function runReportSubscriptionJob(pool, channels, { asOf = new Date() } = {}) {
+  const results = [];
+  for (const subscription of await claimDueSubscriptions(pool, asOf)) {
+    try {
+      results.push({ subscription, ...(await deliverSubscription(pool, subscription, channels, { asOf })) });
+    } catch (err) {
+      await pool.query(
+        'UPDATE report_subscriptions SET last_run_at = $2, last_error = $3 WHERE id = $1',
+        [subscription.id, asOf, String(err.message || err).slice(0, 1000)]
+      );
+      results.push({ subscription, error: err.message || String(err) });
+    }
+  }
+  return results;
+}
+
+/**
+ * Maps a report_inbox_items row joined with its delivery.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapReportInboxItem(row) {
+  return {
+    id: row.id.toString(),
+    deliveryId: row.delivery_id.toString(),
+    subscriptionId: row.subscription_id != null ? row.subscription_id.toString() : null,
+    reportType: row.report_type,
+    title: row.title,
+    period: row.period || null,
+    format: row.format,
+    filename: row.filename,
+    readAt: row.read_at || null,
+    createdAt: row.created_at
+  };
+}
+
+const INBOX_SELECT = `
+  SELECT i.id, i.delivery_id, i.read_at, i.created_at,
+    r.subscription_id, r.report_type, r.title, r.period, r.format, r.filename
+  FROM report_inbox_items i
+  JOIN report_deliveries r ON r.id = i.delivery_id
+`;
+
+/**
+ * Lists a user's inbox, newest first, with their unread count.
+ * @param {Object} pool - pg Pool
+ * @param {string|number} userId
+ * @param {Object} filters - { unread, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object, unread: number }>}
+ */
+async function listReportInbox(pool, userId, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const unreadOnly = filters.unread === true || filters.unread === 'true';
+  const where = `WHERE i.user_id = $1${unreadOnly ? ' AND i.read_at IS NULL' : ''}`;
+
+  const countResult = await pool.query(
+    `SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE i.read_at IS NULL) AS unread
+     FROM report_inbox_items i ${where}`,
+    [userId]
+  );
+  const total = parseInt(countResult.rows[0].total);
+
+  const result = await pool.query(
+    `${INBOX_SELECT} ${where} ORDER BY i.id DESC LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(mapReportInboxItem),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    },
+    unread: parseInt(countResult.rows[0].unread)
+  };
+}
+
+/**
+ * Loads a report from a user's inbox for download and marks it read.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} userId
+ * @param {string|number} id - report_inbox_items id
+ * @returns {Promise<Object|null>} { item, content }
+ */
+async function openReportInboxItem(db, userId, id) {
+  const updated = await db.query(
+    `UPDATE report_inbox_items SET read_at = COALESCE(read_at, NOW())
+     WHERE id = $1 AND user_id = $2
+     RETURNING id`,
+    [id, userId]
+  );
+  if (updated.rows.length === 0) return null;
+
+  const result = await db.query(
+    `SELECT i.id, i.delivery_id, i.read_at, i.created_at,
+       r.subscription_id, r.report_type, r.title, r.period, r.format, r.filename, r.content
+     FROM report_inbox_items i
+     JOIN report_deliveries r ON r.id = i.delivery_id
+     WHERE i.id = $1`,
+    [id]
+  );
+  return { item: mapReportInboxItem(result.rows[0]), content: result.rows[0].content };
+}
+
+/**
+ * Removes a report from a user's inbox.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} userId
+ * @param {string|number} id
+ * @returns {Promise<boolean>}
+ */
+async function deleteReportInboxItem(db, userId, id) {
+  const result = await db.query(
+    'DELETE FROM report_inbox_items WHERE id = $1 AND user_id = $2 RETURNING id',
+    [id, userId]
+  );
+  return result.rows.length > 0;
+}
+
+module.exports = {
+  REPORT_TYPES,
+  REPORT_FORMATS,
+  REPORT_CADENCES,
+  REPORT_CHANNELS,
+  RECIPIENT_ROLES,
+  validateReportSubscription,
+  normalizeReportSubscription,
+  mapReportSubscription,
+  nextRunAt,
+  reportPeriod,
+  buildReport,
+  renderReport,
+  listReportSubscriptions,
+  getReportSubscription,
+  createReportSubscription,
+  updateReportSubscription,
+  listReportRecipients,
+  findInvalidRecipients,
+  deliverToInbox,
+  queueReportEmails,
+  deliverSubscription,
+  claimDueSubscriptions,
+  runReportSubscriptionJob,
+  mapReportInboxItem,
+  listReportInbox,
+  openReportInboxItem,
+  deleteReportInboxItem
+};
@@ -1,7 +1,22 @@
 const PDFDocument = require('pdfkit');
 const { stringify } = require('csv-stringify');
+const { getBatchDonations } = require('./batches');
+const { formatPaymentMethod, renderContributionStatement } = require('./reports/memberReport');
+const { getHousehold, getStatementName } = require('./households');
+const {
+  getStatementTemplate,
+  summarizeGifts,
+  mapStatementGift,
+  issueStatement
+} = require('./statements');
 
-const generateBatchStatement = async (pool, year, res) => {
+/**
+ * Streams one contribution statement per donor for the year. With
+ * combineHouseholds, members of a household that opted into joint
+ * statements share a single statement addressed to the household.
+ * Each statement is recorded in statement_issues and numbered.
+ */
+const generateBatchStatement = async (pool, year, res, { combineHouseholds = false, issuedBy = null } = {}) => {
   // Fetch data first
   const query = `
     SELECT 
@@ -9,9 +24,18 @@ const generateBatchStatement = async (pool, year, res) => {
       COALESCE(m.first_name, 'Guest') as first_name, 
       COALESCE(m.last_name, 'Non-Member') as last_name, 
       m.address, m.city, m.state, m.zip,
-      d.id as donation_id, d.amount, d.fund, d.donation_date, d.notes
+      h.id as household_id, h.name as household_name, h.salutation as household_salutation,
+      h.address as household_address, h.city as household_city,
+      h.state as household_state, h.zip as household_zip,
+      h.joint_statements,
+      d.id as donation_id, d.amount, d.fund, d.donation_date, d.notes,
+      d.payment_method, d.check_number,
+      d.goods_services_provided, d.goods_services_value, d.goods_services_description,
+      f.tax_deductible
     FROM donations d
     LEFT JOIN members m ON d.member_id = m.id
+    LEFT JOIN households h ON m.family_id = h.id
+    LEFT JOIN funds f ON f.name = d.fund
     WHERE extract(year from d.donation_date) = $1
     ORDER BY m.last_name NULLS LAST, m.first_name NULLS LAST, d.donation_date
   `;
@@ -22,16 +46,15 @@ const generateBatchStatement = async (pool, year, res) => {
     const rows = result.rows;
     console.log(`Found ${rows.length} rows for batch generation.`);
 
-    // If no data, we could throw or handle, but let's generate an empty PDF saying so.
-    // Start PDF stream
-    const doc = new PDFDocument({ margin: 50 });
-    doc.pipe(res);
-
-    // Group by member
+    // Group by member, or by household for joint statements
     const membersData = {};
     rows.forEach(row => {
-      if (!membersData[row.member_id]) {
-        membersData[row.member_id] = {
+      const joint = combineHouseholds && row.household_id && row.joint_statements !== false;
+      const key = joint ? `household:${row.household_id}` : row.member_id;
+      if (!membersData[key]) {
+        membersData[key] = {
+          memberId: joint || row.member_id === 'guest' ? null : row.member_id,
+          householdId: joint ? row.household_id : null,
           info: {
             first_name: row.first_name,
             last_name: row.last_name,
@@ -40,23 +63,53 @@ const generateBatchStatement = async (pool, year, res) => {
             state: row.state,
             zip: row.zip
           },
+          household: joint ? {
+            name: row.household_name,
+            salutation: row.household_salutation
+          } : null,
+          donors: [],
           donations: []
         };
+        if (joint && row.household_address) {
+          Object.assign(membersData[key].info, {
+            address: row.household_address,
+            city: row.household_city,
+            state: row.household_state,
+            zip: row.household_zip
+          });
+        }
       }
-      membersData[row.member_id].donations.push({
-        date: new Date(row.donation_date).toLocaleDateString(undefined, { 
-          year: 'numeric', 
-          month: '2-digit', 
-          day: '2-digit' 
-        }),
-        fund: row.fund,
-        amount: parseFloat(row.amount),
-        notes: row.notes
+      const group = membersData[key];
+      if (!group.donors.some(d => d.id === row.member_id)) {
+        group.donors.push({ id: row.member_id, firstName: row.first_name, lastName: row.last_name });
+      }
+      group.donations.push({
+        ...mapStatementGift({ ...row, id: row.donation_id }),
+        donor: row.first_name
       });
     });
 
     const memberIds = Object.keys(membersData);
-    
+    const template = memberIds.length > 0 ? await getStatementTemplate(pool) : null;
+
+    // Number every statement before streaming so a failed insert still
+    // returns a JSON error instead of a truncated PDF
+    for (const key of memberIds) {
+      const group = membersData[key];
+      if (!group.memberId && !group.householdId) continue; // guest gifts have no recipient
+      group.issue = await issueStatement(pool, {
+        year,
+        memberId: group.memberId,
+        householdId: group.householdId,
+        summary: summarizeGifts(group.donations),
+        issuedBy
+      });
+    }
+
+    // Start PDF stream
+    const doc = new PDFDocument({ margin: 50 });
+    doc.pipe(res);
+
     if (memberIds.length === 0) {
         doc.text("No records found for this year.");
         doc.end();
@@ -66,72 +119,23 @@ const generateBatchStatement = async (pool, year, res) => {
     memberIds.forEach((memberId, index) => {
       if (index > 0) doc.addPage();
       
-      const member = membersData[memberId];
-      const { info, donations } = member;
-      
-      // Header
-      doc.fontSize(20).text('Mt. Herman A.M.E. Church', { align: 'center' });
-      doc.fontSize(12).text('Annual Contribution Statement', { align: 'center' });
-      doc.fontSize(10).text(`Tax Year: ${year}`, { align: 'center' });
-      doc.moveDown();
-      
-      // Member Address Block
-      doc.text(`${info.first_name} ${info.last_name}`);
-      if (info.address) doc.text(info.address);
-      if (info.city || info.state || info.zip) {
-          doc.text(`${info.city || ''}, ${info.state || ''} ${info.zip || ''}`);
-      }
-      doc.moveDown(2);
-
-      // Table Header
-      const tableTop = doc.y;
-      const dateX = 50;
-      const fundX = 150;
-      const amountX = 400;
-
-      doc.font('Helvetica-Bold');
-      doc.text('Date', dateX, tableTop);
-      doc.text('Fund', fundX, tableTop);
-      doc.text('Amount', amountX, tableTop, { width: 100, align: 'right' });
-      doc.font('Helvetica');
-
-      let y = tableTop + 20;
-      doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
-
-      let total = 0;
-
-      donations.forEach(donation => {
-        // Check for page break
-        if (y > 700) {
-          doc.addPage();
-          y = 50;
-        }
+      const { info, donations, household, donors, issue } = membersData[memberId];
+      const showDonor = donors.length > 1;
 
-        doc.text(donation.date, dateX, y);
-        doc.text(donation.fund, fundX, y);
-        doc.text(`$${donation.amount.toFixed(2)}`, amountX, y, { width: 100, align: 'right' });
-        
-        total += donation.amount;
-        y += 20;
+      renderContributionStatement(doc, {
+        template,
+        recipient: {
+          name: household ? getStatementName(household, donors) : `${info.first_name} ${info.last_name}`,
+          address: info.address,
+          city: info.city,
+          state: info.state,
+          zip: info.zip
+        },
+        donations: donations.map(({ donor, ...gift }) => (showDonor ? { ...gift, memberName: donor } : gift)),
+        year,
+        statementNumber: issue && issue.statementNumber,
+        reissueOf: issue && issue.reissueOf
       });
-
-      doc.moveTo(50, y).lineTo(550, y).stroke();
-      y += 10;
-      
-      // Total
-      doc.font('Helvetica-Bold');
-      doc.text('Total Contributions:', 250, y);
-      doc.text(`$${total.toFixed(2)}`, amountX, y, { width: 100, align: 'right' });
-      
-      // Footer / Disclaimer
-      doc.font('Helvetica-Oblique').fontSize(8);
-      const bottomY = 700;
-      doc.text(
-        '"No goods or services were provided in exchange for this contribution other than intangible religious benefits."',
-        50, 
-        bottomY, 
-        { align: 'center', width: 500 }
-      );
     });
 
     doc.end();
@@ -174,80 +178,15 @@ const exportTransactions = async (pool, year, res) => {
     stringifier.end();
 };
 
-const getAtRiskDonors = async (pool) => {
-  // 1. Fetch donors with at least 3 months of history
-  const donorQuery = `
-    WITH monthly_giving AS (
-      SELECT 
-        member_id,
-        EXTRACT(YEAR FROM donation_date) as year,
-        EXTRACT(MONTH FROM donation_date) as month,
-        SUM(amount) as amount
-      FROM donations
-      WHERE donation_date > NOW() - INTERVAL '12 months'
-      GROUP BY member_id, year, month
-    ),
-    donor_history AS (
-      SELECT 
-        mg.member_id,
-        m.first_name,
-        m.last_name,
-        JSON_AGG(JSON_BUILD_OBJECT('month', mg.month, 'year', mg.year, 'amount', mg.amount) ORDER BY mg.year DESC, mg.month DESC) as history
-      FROM monthly_giving mg
-      JOIN members m ON mg.member_id = m.id
-      GROUP BY mg.member_id, m.first_name, m.last_name
-      HAVING COUNT(*) >= 2 -- At least 2 months of data to see a trend
-    )
-    SELECT * FROM donor_history;
-  `;
-
-  try {
-    const { rows } = await pool.query(donorQuery);
-    
-    // NOTE: In a real environment, we'd batch these for Gemini
-    // For this implementation, we'll return the data to the frontend
-    // and let the frontend (or a separate AI service call) handle the narrative.
-    // However, to follow the plan, let's simulate the "RiskAssessment"
-    
-    const atRiskMembers = rows.map(member => {
-        const amounts = member.history.map(h => parseFloat(h.amount));
-        const avg = amounts.reduce((a, b) => a + b, 0) / amounts.length;
-        const lastAmount = amounts[0];
-        
-        // Simple heuristic for "At Risk" before AI nudge
-        // If last month is < 50% of average, flag as "Warning"
-        let status = 'Stable';
-        let recommendation = 'No action needed.';
-        
-        if (lastAmount < avg * 0.5) {
-            status = 'Warning';
-            recommendation = `Giving dropped by ${Math.round((1 - lastAmount/avg) * 100)}%. Consider a wellness check.`;
-        } else if (lastAmount === 0 || amounts.length < 3) {
-             // If they skip a month (though the query currently only gets months with donations)
-             // We'd need a more complex query to find 'gaps'
-        }
-
-        return {
-            memberId: member.member_id,
-            name: `${member.first_name} ${member.last_name}`,
-            status,
-            recommendation,
-            history: member.history
-        };
-    }).filter(m => m.status !== 'Stable');
-
-    return atRiskMembers;
-  } catch (err) {
-    console.error('Error in getAtRiskDonors:', err);
-    throw err;
-  }
-};
-
-const getMemberStatement = async (pool, memberId, year) => {
+/**
+ * Builds a member's annual statement. With combineHousehold, a member who
+ * belongs to a household gets the joint household statement instead.
+ */
+const getMemberStatement = async (pool, memberId, year, { combineHousehold = false } = {}) => {
   try {
     // 1. Fetch Member Details
     const memberQuery = `
-      SELECT id, first_name, last_name, address, city, state, zip
+      SELECT id, first_name, last_name, address, city, state, zip, family_id
       FROM members
       WHERE id = $1
     `;
@@ -259,26 +198,25 @@ const getMemberStatement = async (pool, memberId, year) => {
     
     const member = memberRes.rows[0];
 
+    if (combineHousehold && member.family_id) {
+      const householdStatement = await getHouseholdStatement(pool, member.family_id, year);
+      if (householdStatement) return householdStatement;
+    }
+
     // 2. Fetch Donations for the Year
     const donationsQuery = `
-      SELECT id, donation_date, amount, fund, notes
-      FROM donations
-      WHERE member_id = $1 
-      AND EXTRACT(YEAR FROM donation_date) = $2
-      ORDER BY donation_date ASC
+      SELECT d.id, d.donation_date, d.amount, d.fund, d.notes, d.payment_method, d.check_number,
+        d.goods_services_provided, d.goods_services_value, d.goods_services_description,
+        f.tax_deductible
+      FROM donations d
+      LEFT JOIN funds f ON f.name = d.fund
+      WHERE d.member_id = $1 
+      AND EXTRACT(YEAR FROM d.donation_date) = $2
+      ORDER BY d.donation_date ASC
     `;
     const donationsRes = await pool.query(donationsQuery, [memberId, year]);
     
-    const donations = donationsRes.rows.map(d => ({
-      id: d.id,
-      date: d.donation_date, // Keep as date object or string? Integration test expects ISO usually, but let's check.
-      amount: parseFloat(d.amount),
-      fund: d.fund,
-      notes: d.notes
-    }));
-
-    // 3. Calculate Summary
-    const totalAmount = donations.reduce((sum, d) => sum + d.amount, 0);
+    const donations = donationsRes.rows.map(mapStatementGift);
 
     return {
       member: {
@@ -292,7 +230,7 @@ const getMemberStatement = async (pool, memberId, year) => {
       },
       donations,
       summary: {
-        totalAmount,
+        ...summarizeGifts(donations),
         year: parseInt(year)
       }
     };
@@ -302,4 +240,431 @@ const getMemberStatement = async (pool, memberId, year) => {
   }
 };
 
-module.exports = { generateBatchStatement, exportTransactions, getAtRiskDonors, getMemberStatement };
+/**
+ * Builds a joint annual statement covering every member of a household.
+ * The statement is addressed with the household salutation and mailing
+ * address (falling back to the head of household's address).
+ * @param {Object} pool - pg Pool
+ * @param {string} householdId
+ * @param {string|number} year
+ * @returns {Promise<Object|null>} Statement, or null if the household is missing.
+ */
+const getHouseholdStatement = async (pool, householdId, year) => {
+  try {
+    const household = await getHousehold(pool, householdId);
+    if (!household) return null;
+
+    const head = household.members.find(m => m.id === household.headMemberId) || household.members[0] || {};
+    const addressSource = household.address ? household : head;
+
+    const donationsRes = await pool.query(
+      `SELECT d.id, d.donation_date, d.amount, d.fund, d.notes, d.payment_method, d.check_number,
+         d.goods_services_provided, d.goods_services_value, d.goods_services_description,
+         f.tax_deductible, m.first_name, m.last_name
+       FROM donations d
+       JOIN members m ON m.id = d.member_id
+       LEFT JOIN funds f ON f.name = d.fund
+       WHERE m.family_id = $1
+       AND EXTRACT(YEAR FROM d.donation_date) = $2
+       ORDER BY d.donation_date ASC`,
+      [householdId, year]
+    );
+
+    const donations = donationsRes.rows.map(d => ({
+      ...mapStatementGift(d),
+      memberName: `${d.first_name} ${d.last_name}`
+    }));
+
+    return {
+      member: {
+        id: head.id,
+        firstName: head.firstName,
+        lastName: head.lastName,
+        displayName: getStatementName(household, household.members),
+        address: addressSource.address,
+        city: addressSource.city,
+        state: addressSource.state,
+        zip: addressSource.zip
+      },
+      household: {
+        id: household.id,
+        name: household.name,
+        members: household.members.map(m => ({ id: m.id, firstName: m.firstName, lastName: m.lastName }))
+      },
+      donations,
+      summary: {
+        ...summarizeGifts(donations),
+        year: parseInt(year)
+      }
+    };
+  } catch (err) {
+    console.error(`Error generating household statement for ${householdId} in ${year}:`, err);
+    throw err;
+  }
+};
+
+const formatCurrency = (value) => `$${parseFloat(value).toFixed(2)}`;
+
+/**
+ * Streams a deposit slip for a closed deposit batch: expected vs. counted
+ * totals, fund breakdown, itemized gifts and counter signature lines.
+ * @param {Object} pool - pg Pool
+ * @param {Object} batch - Mapped batch from batches.getBatch()
+ * @param {Object} res - Writable response stream
+ */
+const generateDepositSlip = async (pool, batch, res) => {
+  try {
+    const donations = await getBatchDonations(pool, batch.id);
+
+    const doc = new PDFDocument({ margin: 50 });
+    doc.pipe(res);
+
+    // Header
+    doc.fontSize(20).text('Mt. Herman A.M.E. Church', { align: 'center' });
+    doc.fontSize(12).text('Deposit Slip', { align: 'center' });
+    doc.fontSize(10).text(
+      `Batch #${batch.id} - ${new Date(batch.batchDate).toLocaleDateString()}`,
+      { align: 'center' }
+    );
+    if (batch.description) doc.text(batch.description, { align: 'center' });
+    doc.moveDown(2);
+
+    // Reconciliation Summary
+    const labelX = 50;
+    const countX = 300;
+    const amountX = 400;
+    let y = doc.y;
+
+    doc.font('Helvetica-Bold');
+    doc.text('Reconciliation', labelX, y);
+    doc.text('Count', countX, y, { width: 60, align: 'right' });
+    doc.text('Amount', amountX, y, { width: 100, align: 'right' });
+    doc.font('Helvetica');
+    y += 20;
+    doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+
+    const summaryRows = [
+      ['Expected Cash', batch.expectedCashCount, batch.expectedCashTotal],
+      ['Expected Checks', batch.expectedCheckCount, batch.expectedCheckTotal],
+      ['Expected Total', batch.expectedCount, batch.expectedTotal],
+      ['Recorded Cash', batch.actualCashCount, batch.actualCashTotal],
+      ['Recorded Checks', batch.actualCheckCount, batch.actualCheckTotal],
+      ['Recorded Total', batch.actualCount, batch.actualTotal],
+      ['Variance', batch.countVariance, batch.variance]
+    ];
+    summaryRows.forEach(([label, count, amount]) => {
+      doc.text(label, labelX, y);
+      doc.text(String(count), countX, y, { width: 60, align: 'right' });
+      doc.text(formatCurrency(amount), amountX, y, { width: 100, align: 'right' });
+      y += 18;
+    });
+    y += 10;
+
+    // Fund Breakdown
+    const fundTotals = {};
+    donations.forEach(d => {
+      fundTotals[d.fund] = (fundTotals[d.fund] || 0) + parseFloat(d.amount);
+    });
+
+    doc.font('Helvetica-Bold');
+    doc.text('Fund', labelX, y);
+    doc.text('Amount', amountX, y, { width: 100, align: 'right' });
+    doc.font('Helvetica');
+    y += 20;
+    doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+
+    Object.keys(fundTotals).sort().forEach(fund => {
+      doc.text(fund, labelX, y);
+      doc.text(formatCurrency(fundTotals[fund]), amountX, y, { width: 100, align: 'right' });
+      y += 18;
+    });
+    y += 10;
+
+    // Itemized Gifts
+    const dateX = 50;
+    const donorX = 120;
+    const fundX = 250;
+    const methodX = 320;
+
+    doc.font('Helvetica-Bold');
+    doc.text('Date', dateX, y);
+    doc.text('Donor', donorX, y);
+    doc.text('Fund', fundX, y);
+    doc.text('Method', methodX, y);
+    doc.text('Amount', amountX, y, { width: 100, align: 'right' });
+    doc.font('Helvetica');
+    y += 20;
+    doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+
+    donations.forEach(d => {
+      if (y > 700) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.text(new Date(d.donation_date).toLocaleDateString(), dateX, y);
+      doc.text(`${d.first_name} ${d.last_name}`, donorX, y, { width: 125 });
+      doc.text(d.fund, fundX, y, { width: 65 });
+      doc.text(formatPaymentMethod(d.payment_method, d.check_number), methodX, y, { width: 85 });
+      doc.text(formatCurrency(d.amount), amountX, y, { width: 100, align: 'right' });
+      y += 20;
+    });
+
+    doc.moveTo(50, y).lineTo(550, y).stroke();
+    y += 10;
+    doc.font('Helvetica-Bold');
+    doc.text('Deposit Total:', 250, y);
+    doc.text(formatCurrency(batch.actualTotal), amountX, y, { width: 100, align: 'right' });
+    doc.font('Helvetica');
+
+    // Signature Block
+    if (y > 620) {
+      doc.addPage();
+      y = 50;
+    } else {
+      y += 50;
+    }
+    doc.text('Counted by: ______________________________', 50, y);
+    doc.text('Verified by: ______________________________', 300, y);
+    y += 30;
+    doc.fontSize(8).text(
+      `Closed by ${batch.closedBy || 'unknown'}${batch.closedAt ? ` on ${new Date(batch.closedAt).toLocaleString()}` : ''}`,
+      50,
+      y
+    );
+
+    doc.end();
+  } catch (err) {
+    console.error(`Error generating deposit slip for batch ${batch.id}:`, err);
+    throw err;
+  }
+};
+
+/**
+ * Top 10 funds by total given in the year.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} year
+ * @returns {Promise<Array>} [{ fund, total }]
+ */
+const getFundDistribution = async (db, year) => {
+  const result = await db.query(
+    `
+      SELECT fund, SUM(amount) as total
+      FROM donations
+      WHERE EXTRACT(YEAR FROM donation_date) = $1
+      GROUP BY fund
+      ORDER BY total DESC
+      LIMIT 10
+    `,
+    [year]
+  );
+  return result.rows;
+};
+
+/**
+ * Quarterly totals for the year and the year before, optionally for one fund.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} year
+ * @param {Object} [options] - { fund }
+ * @returns {Promise<Array>} [{ year, quarter, total }]
+ */
+const getQuarterlyProgress = async (db, year, { fund = null } = {}) => {
+  const result = await db.query(
+    `
+      SELECT 
+        EXTRACT(YEAR FROM donation_date)::int as year,
+        EXTRACT(QUARTER FROM donation_date)::int as quarter, 
+        SUM(amount) as total
+      FROM donations
+      WHERE EXTRACT(YEAR FROM donation_date) IN ($1::int, $1::int - 1)
+        AND ($2::text IS NULL OR fund = $2)
+      GROUP BY year, quarter
+      ORDER BY year, quarter
+    `,
+    [year, fund]
+  );
+  return result.rows;
+};
+
+/**
+ * Yearly totals over the last three years, optionally for one fund.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} [options] - { fund }
+ * @returns {Promise<Array>} [{ year, total }]
+ */
+const getTrendAnalysis = async (db, { fund = null } = {}) => {
+  const result = await db.query(
+    `
+      SELECT 
+        EXTRACT(YEAR FROM donation_date)::int as year,
+        SUM(amount) as total
+      FROM donations
+      WHERE donation_date > NOW() - INTERVAL '3 years'
+        AND ($1::text IS NULL OR fund = $1)
+      GROUP BY year
+      ORDER BY year
+    `,
+    [fund]
+  );
+  return result.rows;
+};
+
+/**
+ * Members added in the last 30 days with what they have given so far.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Array>}
+ */
+const getNewDonors = async (db) => {
+  const result = await db.query(`
+      SELECT 
+        m.id, m.first_name, m.last_name, m.email, m.address, m.created_at,
+        COALESCE(SUM(d.amount), 0) as total_donated,
+        COUNT(d.id) as donation_count
+      FROM members m
+      LEFT JOIN donations d ON m.id = d.member_id
+      WHERE m.created_at > NOW() - INTERVAL '30 days'
+      GROUP BY m.id
+      ORDER BY m.created_at DESC
+    `);
+  return result.rows;
+};
+
+const formatReportValue = (value, type) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (type === 'currency') return formatCurrency(value);
+  if (type === 'percent') return `${parseFloat(value).toFixed(1)}%`;
+  if (type === 'date') return new Date(value).toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * Streams a tabular report (see reportSubscriptions.buildReport) as a PDF:
+ * church heading, title and period, then one row per line.
+ * @param {Object} report - { title, period, generatedAt, columns, rows }
+ * @param {Object} res - Writable stream
+ * @param {Object} [options] - { churchName }
+ */
+const generateSummaryReportPDF = (report, res, { churchName = 'GraceGiver' } = {}) => {
+  const doc = new PDFDocument({ margin: 50 });
+  doc.pipe(res);
+
+  doc.fontSize(20).text(churchName, { align: 'center' });
+  doc.fontSize(14).text(report.title, { align: 'center' });
+  doc.fontSize(10);
+  if (report.period) doc.text(report.period, { align: 'center' });
+  doc.fillColor('#64748b').text(`Generated ${new Date(report.generatedAt).toLocaleString()}`, { align: 'center' });
+  doc.fillColor('black');
+  doc.moveDown(2);
+
+  const width = 500 / report.columns.length;
+  const align = (column) => (column.type === 'text' || column.type === 'date' ? 'left' : 'right');
+  const drawHeader = (y) => {
+    doc.font('Helvetica-Bold');
+    report.columns.forEach((column, i) => {
+      doc.text(column.label, 50 + i * width, y, { width: width - 8, align: align(column) });
+    });
+    doc.font('Helvetica');
+    doc.moveTo(50, y + 15).lineTo(550, y + 15).stroke();
+    return y + 22;
+  };
+
+  let y = drawHeader(doc.y);
+  if (report.rows.length === 0) {
+    doc.font('Helvetica-Oblique').text('No data for this period.', 50, y);
+    doc.font('Helvetica');
+  }
+  report.rows.forEach(row => {
+    if (y > 700) {
+      doc.addPage();
+      y = drawHeader(50);
+    }
+    report.columns.forEach((column, i) => {
+      doc.text(formatReportValue(row[column.key], column.type), 50 + i * width, y, { width: width - 8, align: align(column) });
+    });
+    y += 18;
+  });
+
+  doc.end();
+};
+
+/**
+ * Streams a fund activity statement as a PDF: opening balance, receipts
+ * by month, each approved disbursement and the closing balance.
+ * @param {Object} activity - From disbursements.getFundActivity
+ * @param {Object} res - Writable stream
+ * @param {Object} [options] - { churchName }
+ */
+const generateFundActivityStatement = (activity, res, { churchName = 'GraceGiver' } = {}) => {
+  const doc = new PDFDocument({ margin: 50 });
+  doc.pipe(res);
+
+  doc.fontSize(20).text(churchName, { align: 'center' });
+  doc.fontSize(14).text(`${activity.fund} Fund Activity Statement`, { align: 'center' });
+  doc.fontSize(10).text(`${activity.startDate} to ${activity.endDate}`, { align: 'center' });
+  doc.moveDown(2);
+
+  const amountX = 450;
+  let y = doc.y;
+  const line = (label, amount, { bold = false } = {}) => {
+    if (y > 700) {
+      doc.addPage();
+      y = 50;
+    }
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    doc.text(label, 50, y, { width: 390 });
+    doc.text(formatCurrency(amount), amountX, y, { width: 100, align: 'right' });
+    doc.font('Helvetica');
+    y += 18;
+  };
+  const heading = (label) => {
+    y += 10;
+    doc.font('Helvetica-Bold').text(label, 50, y);
+    doc.font('Helvetica');
+    y += 20;
+    doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+  };
+
+  line('Opening Balance', activity.openingBalance, { bold: true });
+
+  heading('Receipts');
+  if (activity.receipts.length === 0) {
+    doc.font('Helvetica-Oblique').text('No receipts in this period.', 50, y);
+    doc.font('Helvetica');
+    y += 18;
+  }
+  activity.receipts.forEach(month => {
+    line(`${month.month} (${month.count} gift${month.count === 1 ? '' : 's'})`, month.total);
+  });
+  line('Total Receipts', activity.totalReceipts, { bold: true });
+
+  heading('Disbursements');
+  if (activity.disbursements.length === 0) {
+    doc.font('Helvetica-Oblique').text('No disbursements in this period.', 50, y);
+    doc.font('Helvetica');
+    y += 18;
+  }
+  activity.disbursements.forEach(d => {
+    line(`${d.date}  ${d.payee}${d.memo ? ` - ${d.memo}` : ''}`, d.amount);
+  });
+  line('Total Disbursements', activity.totalDisbursements, { bold: true });
+
+  y += 10;
+  doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+  line('Closing Balance', activity.closingBalance, { bold: true });
+
+  doc.end();
+};
+
+module.exports = {
+  generateBatchStatement,
+  exportTransactions,
+  getMemberStatement,
+  getHouseholdStatement,
+  generateDepositSlip,
+  getFundDistribution,
+  getQuarterlyProgress,
+  getTrendAnalysis,
+  getNewDonors,
+  formatReportValue,
+  generateSummaryReportPDF,
+  generateFundActivityStatement
+};
@@ -1,4 +1,12 @@
 const PDFDocument = require('pdfkit');
+const {
+  SUBSTANTIATION_THRESHOLD,
+  DEFAULT_TEMPLATE,
+  getDeductibleAmount,
+  requiresSubstantiation,
+  describeSubstantiation,
+  summarizeGifts
+} = require('../statements');
 
 const generateMemberReportPDF = async (pool, memberId, res) => {
   try {
@@ -108,82 +116,220 @@ const generateMemberReportPDF = async (pool, memberId, res) => {
   }
 };
 
-const generateAnnualStatementPDF = (member, donations, summary, narrative, res) => {
-  try {
-    const doc = new PDFDocument({ margin: 50 });
-    doc.pipe(res);
+const PAYMENT_METHOD_LABELS = {
+  cash: 'Cash',
+  check: 'Check',
+  card: 'Card',
+  ach: 'ACH',
+  online: 'Online',
+  in_kind: 'In-Kind',
+  stock: 'Stock'
+};
 
-    // Header
-    doc.fontSize(20).text('Mt. Herman A.M.E. Church', { align: 'center' });
-    doc.fontSize(16).text('Annual Contribution Statement', { align: 'center' });
-    doc.fontSize(12).text(`Tax Year: ${summary.year}`, { align: 'center' });
-    doc.moveDown();
+const formatCurrency = (value) => `$${(parseFloat(value) || 0).toFixed(2)}`;
+
+/**
+ * Formats a payment method for statements, e.g. "Check #1043".
+ * @param {string|null} method
+ * @param {string|null} checkNumber
+ * @returns {string}
+ */
+const formatPaymentMethod = (method, checkNumber) => {
+  if (!method) return '';
+  const label = PAYMENT_METHOD_LABELS[method] || method;
+  return method === 'check' && checkNumber ? `${label} #${checkNumber}` : label;
+};
 
-    // Member Info
-    doc.fontSize(12).font('Helvetica-Bold').text(`${member.firstName} ${member.lastName}`);
-    doc.font('Helvetica').text(member.address || '');
-    if (member.city || member.state || member.zip) {
-      doc.text(`${member.city || ''}, ${member.state || ''} ${member.zip || ''}`);
-    }
+/**
+ * Draws one contribution statement onto an open PDF document: church header
+ * with EIN, statement number, recipient, optional intro letter, the gift
+ * table with deductible amounts, itemized substantiation for gifts of $250
+ * or more, the disclosure and a signature block. Shared by single and batch
+ * statements.
+ *
+ * @param {PDFDocument} doc
+ * @param {Object} statement
+ * @param {Object} statement.template - From getStatementTemplate.
+ * @param {Object} statement.recipient - { name, address, city, state, zip }
+ * @param {Array} statement.donations - Gifts (see mapStatementGift); memberName adds a Donor column.
+ * @param {string|number} statement.year
+ * @param {string} [statement.statementNumber]
+ * @param {string} [statement.reissueOf] - Statement number this one replaces.
+ * @param {string} [statement.narrative]
+ */
+const renderContributionStatement = (doc, statement) => {
+  const { template, recipient, donations, year, statementNumber, reissueOf, narrative } = statement;
+  const summary = summarizeGifts(donations);
+
+  // Header
+  doc.font('Helvetica').fontSize(20).text(template.churchName, 50, 50, { align: 'center', width: 500 });
+  doc.fontSize(10);
+  if (template.churchAddress) doc.text(template.churchAddress, { align: 'center', width: 500 });
+  if (template.taxId) doc.text(`EIN: ${template.taxId}`, { align: 'center', width: 500 });
+  doc.moveDown(0.5);
+  doc.fontSize(16).text('Annual Contribution Statement', { align: 'center', width: 500 });
+  doc.fontSize(12).text(`Tax Year: ${year}`, { align: 'center', width: 500 });
+  if (statementNumber) {
+    doc.fontSize(9).text(
+      reissueOf ? `Statement #${statementNumber} (reissue of #${reissueOf})` : `Statement #${statementNumber}`,
+      { align: 'center', width: 500 }
+    );
+  }
+  doc.moveDown();
+
+  // Recipient
+  doc.fontSize(12).font('Helvetica-Bold').text(recipient.name, 50);
+  doc.font('Helvetica');
+  if (recipient.address) doc.text(recipient.address);
+  if (recipient.city || recipient.state || recipient.zip) {
+    doc.text(`${recipient.city || ''}, ${recipient.state || ''} ${recipient.zip || ''}`);
+  }
+  doc.moveDown();
+
+  // Intro letter; {name} and {year} are filled in per recipient
+  if (template.intro) {
+    doc.fontSize(10).text(
+      template.intro.replace(/\{name\}/g, recipient.name).replace(/\{year\}/g, String(year)),
+      { width: 500 }
+    );
     doc.moveDown();
+  }
 
-    // Narrative Section
-    if (narrative) {
-      doc.font('Helvetica-Bold').text('Impact Summary');
-      doc.font('Helvetica-Oblique').text(narrative);
-      doc.moveDown();
-    }
+  if (narrative) {
+    doc.fontSize(12).font('Helvetica-Bold').text('Impact Summary');
+    doc.font('Helvetica-Oblique').text(narrative, { width: 500 });
+    doc.font('Helvetica').moveDown();
+  }
 
-    // Donations Table
-    const tableTop = doc.y;
-    const dateX = 50;
-    const fundX = 150;
-    const amountX = 400;
+  // Gift table. Joint household statements list which member gave each gift.
+  const showDonor = donations.some(d => d.memberName);
+  const dateX = 50;
+  const donorX = 115;
+  const fundX = showDonor ? 195 : 120;
+  const methodX = showDonor ? 265 : 220;
+  const amountX = 350;
+  const deductibleX = 450;
+
+  doc.fontSize(10).font('Helvetica-Bold');
+  let y = doc.y;
+  doc.text('Date', dateX, y);
+  if (showDonor) doc.text('Donor', donorX, y);
+  doc.text('Fund', fundX, y);
+  doc.text('Method', methodX, y);
+  doc.text('Amount', amountX, y, { width: 90, align: 'right' });
+  doc.text('Deductible', deductibleX, y, { width: 100, align: 'right' });
+  doc.font('Helvetica');
+
+  y += 18;
+  doc.moveTo(50, y - 4).lineTo(550, y - 4).stroke();
+
+  donations.forEach(d => {
+    if (y > 700) {
+      doc.addPage();
+      y = 50;
+    }
+    doc.text(d.date ? new Date(d.date).toLocaleDateString() : 'N/A', dateX, y);
+    if (showDonor) doc.text(d.memberName || '', donorX, y, { width: 75 });
+    doc.text(d.fund, fundX, y, { width: showDonor ? 65 : 95 });
+    doc.text(formatPaymentMethod(d.paymentMethod, d.checkNumber), methodX, y, { width: 80 });
+    doc.text(formatCurrency(d.amount), amountX, y, { width: 90, align: 'right' });
+    doc.text(
+      `${formatCurrency(getDeductibleAmount(d))}${d.goodsServicesProvided ? '*' : ''}`,
+      deductibleX, y, { width: 100, align: 'right' }
+    );
+    y += 18;
+  });
+
+  doc.moveTo(50, y).lineTo(550, y).stroke();
+  y += 10;
+
+  // Totals
+  doc.font('Helvetica-Bold');
+  doc.text('Total Contributions:', 250, y);
+  doc.text(formatCurrency(summary.totalAmount), deductibleX, y, { width: 100, align: 'right' });
+  if (summary.goodsServicesValue > 0) {
+    y += 16;
+    doc.font('Helvetica').text('Less goods or services received:', 250, y);
+    doc.text(`(${formatCurrency(summary.goodsServicesValue)})`, deductibleX, y, { width: 100, align: 'right' });
+    y += 16;
+    doc.font('Helvetica-Bold').text('Total Deductible:', 250, y);
+    doc.text(formatCurrency(summary.deductibleAmount), deductibleX, y, { width: 100, align: 'right' });
+  }
+  doc.font('Helvetica');
+  y += 24;
+
+  // Itemized substantiation for single gifts of $250 or more
+  const substantiated = donations.filter(requiresSubstantiation);
+  if (substantiated.length > 0) {
+    if (y > 650) {
+      doc.addPage();
+      y = 50;
+    }
+    doc.font('Helvetica-Bold').text(`Contributions of $${SUBSTANTIATION_THRESHOLD} or More`, 50, y);
+    doc.font('Helvetica').fontSize(9);
+    substantiated.forEach(d => {
+      if (doc.y > 700) doc.addPage();
+      const dateStr = d.date ? new Date(d.date).toLocaleDateString() : 'N/A';
+      doc.moveDown(0.3);
+      doc.text(`${dateStr} - ${d.fund} - ${formatCurrency(d.amount)}: ${describeSubstantiation(d)}`, 50, doc.y, { width: 500 });
+    });
+    doc.fontSize(10);
+    y = doc.y + 16;
+  }
 
-    doc.font('Helvetica-Bold');
-    doc.text('Date', dateX, tableTop);
-    doc.text('Fund', fundX, tableTop);
-    doc.text('Amount', amountX, tableTop, { width: 100, align: 'right' });
-    doc.font('Helvetica');
+  // Disclosure and signature block
+  if (y > 640) {
+    doc.addPage();
+    y = 50;
+  }
+  doc.font('Helvetica-Oblique').fontSize(8);
+  if (summary.goodsServicesValue > 0) {
+    doc.text('* Deductible amount reduced by the value of goods or services received.', 50, y, { width: 500 });
+    y = doc.y + 4;
+  }
+  doc.text(template.disclosure, 50, y, { align: 'center', width: 500 });
+  doc.font('Helvetica').fontSize(10);
+
+  if (template.signerName) {
+    doc.moveDown(2);
+    const lineY = doc.y;
+    doc.moveTo(50, lineY).lineTo(250, lineY).stroke();
+    doc.text(template.signerName, 50, lineY + 4);
+    if (template.signerTitle) doc.text(template.signerTitle);
+    doc.text(template.churchName);
+  }
+};
 
-    let y = tableTop + 20;
-    doc.moveTo(50, y - 5).lineTo(550, y - 5).stroke();
+/**
+ * Streams a single annual contribution statement PDF.
+ * @param {Object} member - { firstName, lastName, displayName, address, city, state, zip }
+ * @param {Array} donations
+ * @param {Object} summary - { year }
+ * @param {string|null} narrative
+ * @param {Writable} res
+ * @param {Object} [options] - { template, statementNumber, reissueOf }
+ */
+const generateAnnualStatementPDF = (member, donations, summary, narrative, res, options = {}) => {
+  try {
+    const doc = new PDFDocument({ margin: 50 });
+    doc.pipe(res);
 
-    donations.forEach(d => {
-      if (y > 700) {
-        doc.addPage();
-        y = 50;
-      }
-      
-      const dateStr = d.date ? new Date(d.date).toLocaleDateString() : 'N/A';
-      
-      doc.text(dateStr, dateX, y);
-      doc.text(d.fund, fundX, y);
-      doc.text(`$${parseFloat(d.amount).toFixed(2)}`, amountX, y, { width: 100, align: 'right' });
-      
-      y += 20;
+    renderContributionStatement(doc, {
+      template: options.template || DEFAULT_TEMPLATE,
+      recipient: {
+        name: member.displayName || `${member.firstName} ${member.lastName}`,
+        address: member.address,
+        city: member.city,
+        state: member.state,
+        zip: member.zip
+      },
+      donations,
+      year: summary.year,
+      statementNumber: options.statementNumber,
+      reissueOf: options.reissueOf,
+      narrative
     });
 
-    doc.moveTo(50, y).lineTo(550, y).stroke();
-    y += 10;
-
-    // Total
-    doc.font('Helvetica-Bold');
-    doc.text('Total Contributions:', 250, y);
-    doc.text(`$${parseFloat(summary.totalAmount).toFixed(2)}`, amountX, y, { width: 100, align: 'right' });
-
-    // IRS Disclaimer
-    const bottomY = 700;
-    if (doc.y > 650) doc.addPage();
-    
-    doc.font('Helvetica-Oblique').fontSize(8);
-    doc.text(
-      '"No goods or services were provided in exchange for this contribution other than intangible religious benefits."',
-      50, 
-      doc.y > bottomY ? doc.y + 20 : bottomY, 
-      { align: 'center', width: 500 }
-    );
-
     doc.end();
   } catch (err) {
     console.error('Error generating annual statement PDF:', err);
@@ -191,4 +337,82 @@ const generateAnnualStatementPDF = (member, donations, summary, narrative, res)
   }
 };
 
-module.exports = { generateMemberReportPDF, generateAnnualStatementPDF };
+// Draws one gift's receipt on the current page
+const renderGiftReceipt = (doc, recipient, gift, template) => {
+  doc.font('Helvetica').fontSize(20).text(template.churchName, 50, 50, { align: 'center', width: 500 });
+  doc.fontSize(10);
+  if (template.churchAddress) doc.text(template.churchAddress, { align: 'center', width: 500 });
+  if (template.taxId) doc.text(`EIN: ${template.taxId}`, { align: 'center', width: 500 });
+  doc.moveDown(0.5);
+  doc.fontSize(16).text('Contribution Receipt', { align: 'center', width: 500 });
+  doc.fontSize(9).text(`Receipt #${gift.id}`, { align: 'center', width: 500 });
+  doc.moveDown();
+
+  doc.fontSize(12).font('Helvetica-Bold').text(recipient.name, 50);
+  doc.font('Helvetica');
+  if (recipient.address) doc.text(recipient.address);
+  if (recipient.city || recipient.state || recipient.zip) {
+    doc.text(`${recipient.city || ''}, ${recipient.state || ''} ${recipient.zip || ''}`);
+  }
+  doc.moveDown();
+
+  const rows = [
+    ['Date', gift.date ? new Date(gift.date).toLocaleDateString() : 'N/A'],
+    ['Fund', gift.fund],
+    ['Method', formatPaymentMethod(gift.paymentMethod, gift.checkNumber) || 'N/A'],
+    ['Amount', formatCurrency(gift.amount)],
+    ['Deductible Amount', formatCurrency(getDeductibleAmount(gift))]
+  ];
+  doc.fontSize(10);
+  rows.forEach(([label, value]) => {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').text(label, 50, y, { width: 150 });
+    doc.font('Helvetica').text(value, 200, y, { width: 350 });
+    doc.moveDown(0.3);
+  });
+  doc.moveDown();
+
+  doc.text(describeSubstantiation(gift), 50, doc.y, { width: 500 });
+  doc.moveDown();
+  doc.font('Helvetica-Oblique').fontSize(8).text(template.disclosure, 50, doc.y, { align: 'center', width: 500 });
+  doc.font('Helvetica').fontSize(10);
+
+  if (template.signerName) {
+    doc.moveDown(2);
+    const lineY = doc.y;
+    doc.moveTo(50, lineY).lineTo(250, lineY).stroke();
+    doc.text(template.signerName, 50, lineY + 4);
+    if (template.signerTitle) doc.text(template.signerTitle);
+    doc.text(template.churchName);
+  }
+};
+
+/**
+ * Streams a receipt for a gift: church header with EIN, the donor, the gift
+ * with its deductible amount, the substantiation sentence and the signature
+ * block. Given several gifts, each gets its own page.
+ * @param {Object} recipient - { name, address, city, state, zip }
+ * @param {Object|Array} gift - See mapStatementGift.
+ * @param {Writable} res
+ * @param {Object} [options] - { template }
+ */
+const generateGiftReceiptPDF = (recipient, gift, res, options = {}) => {
+  const template = options.template || DEFAULT_TEMPLATE;
+  const doc = new PDFDocument({ margin: 50 });
+  doc.pipe(res);
+
+  (Array.isArray(gift) ? gift : [gift]).forEach((item, i) => {
+    if (i > 0) doc.addPage();
+    renderGiftReceipt(doc, recipient, item, template);
+  });
+
+  doc.end();
+};
+
+module.exports = {
+  generateMemberReportPDF,
+  generateAnnualStatementPDF,
+  generateGiftReceiptPDF,
+  renderContributionStatement,
+  formatPaymentMethod
+};
@@ -3,6 +3,7 @@ const { createClient } = require("redis");
 const { createAdapter } = require("@socket.io/redis-adapter");
 const jwt = require("jsonwebtoken");
 const path = require("path");
+const { PERMISSION_HIERARCHY, hasPermission } = require("./rbac");
 require("dotenv").config({ path: path.resolve(__dirname, "../.env") });
 
 const JWT_SECRET = process.env.JWT_SECRET || "INSECURE_DEV_SECRET_CHANGE_IN_PRODUCTION";
@@ -12,8 +13,119 @@ let io;
 let redisClient;
 let subClient;
 
-// Lock TTL in seconds (15 minutes)
-const LOCK_TTL = 15 * 60;
+// Lock lease in seconds. Holders renew it with lock:heartbeat, so a closed
+// tab or dropped connection frees the record within the lease.
+const LOCK_LEASE = 90;
+
+// Records that can be locked for editing, with the permission needed to edit them
+const LOCK_PERMISSIONS = {
+  member: "members:update",
+  donation: "donations:update",
+  settings: "settings:write",
+  user: "users:write",
+};
+const LOCK_RESOURCES = Object.keys(LOCK_PERMISSIONS);
+const isLockTarget = (resourceType, resourceId) =>
+  LOCK_RESOURCES.includes(resourceType) && typeof resourceId === "string" && /^[\w-]{1,64}$/.test(resourceId);
+// Only users who could save the record may hold it open; a read-only
+// account holding a lease would block staff edits for as long as it likes
+const canLock = (user, resourceType) => hasPermission(user.role, LOCK_PERMISSIONS[resourceType]);
+
+// Rooms every socket joins from its token; clients cannot join these themselves
+const RESERVED_ROOM_PREFIXES = ["role:", "user:", "member:"];
+
+// Staff who configure the church or edit its records
+const STAFF_UPDATE_PERMISSIONS = ["settings:read", "members:update"];
+
+// Who may receive each event: roles holding `permission` (any of them, when
+// a list) get the org-wide feed; when `memberId` finds the member a record
+// belongs to, roles holding only the ':own' form get it in that member's
+// room. `userIds` sends an event to named users instead.
+const isRecordEvent = (event) => ["CREATE", "UPDATE", "DELETE"].includes(event.type);
+const EVENT_ROUTES = {
+  "member:update": {
+    permission: "members:read",
+    memberId: (event) => (isRecordEvent(event) ? event.data?.id ?? event.id : null),
+  },
+  "donation:update": {
+    permission: "donations:read",
+    memberId: (event) => (isRecordEvent(event) ? event.data?.member_id ?? event.memberId : null),
+  },
+  "pledge:update": {
+    permission: "pledges:read",
+    memberId: (event) => (isRecordEvent(event) ? event.data?.memberId ?? event.memberId : null),
+  },
+  "household:update": { permission: "members:read" },
+  "batch:update": { permission: "batches:read" },
+  "budget:update": { permission: "budgets:read" },
+  "disbursement:update": { permission: "disbursements:read" },
+  "email:update": { permission: "email:read" },
+  "forecast:update": { permission: "reports:read" },
+  "recurring:update": { permission: "recurring:read" },
+  "report:update": {
+    permission: "reports:schedule",
+    userIds: (event) => (event.type === "INBOX" ? event.data?.userIds : null),
+  },
+  "task:update": { permission: "tasks:read" },
+  "user:update": { permission: "users:read" },
+  "fund:update": { permission: STAFF_UPDATE_PERMISSIONS },
+  "settings:update": { permission: STAFF_UPDATE_PERMISSIONS },
+  // Who holds which record open; sent per record as lock:update:<type>:<id>
+  "lock:update": { permission: STAFF_UPDATE_PERMISSIONS },
+};
+
+const routeAllows = (role, route) => [].concat(route.permission).some((permission) => hasPermission(role, permission));
+
+// Roles with more than their own records; events without a route only reach these
+const STAFF_ROLES = Object.keys(PERMISSION_HIERARCHY).filter((role) =>
+  PERMISSION_HIERARCHY[role].some((permission) => !permission.endsWith(":own")),
+);
+
+/**
+ * Rooms a socket joins at connection, from its JWT claims.
+ * @param {Object} user - Decoded token (socket.user)
+ * @returns {Array<string>}
+ */
+function getSocketRooms(user) {
+  const rooms = [`role:${user.role || "viewer"}`, `user:${user.id}`];
+  if (user.memberId) rooms.push(`member:${user.memberId}`);
+  return rooms;
+}
+
+/**
+ * Works out which rooms an event goes to, following the same RBAC rules
+ * as the REST routes.
+ * @param {string} eventName
+ * @param {Object} event - Payload
+ * @returns {Object} { rooms, except }
+ */
+function getEventTargets(eventName, event = {}) {
+  const route = EVENT_ROUTES[eventName];
+
+  const userIds = route?.userIds?.(event);
+  if (userIds) {
+    return { rooms: userIds.map((id) => `user:${id}`), except: [] };
+  }
+
+  const roles = Object.keys(PERMISSION_HIERARCHY);
+  const rooms = roles
+    .filter((role) => (route ? routeAllows(role, route) : STAFF_ROLES.includes(role)))
+    .map((role) => `role:${role}`);
+
+  // A member's room also holds staff linked to a member; only ':own' roles may use it
+  const memberId = route?.memberId?.(event);
+  const ownPermission = route && `${route.permission}:own`;
+  const except = [];
+  if (memberId && roles.some((role) => PERMISSION_HIERARCHY[role].includes(ownPermission))) {
+    rooms.push(`member:${memberId}`);
+    except.push(
+      ...roles
+        .filter((role) => !routeAllows(role, route) && !PERMISSION_HIERARCHY[role].includes(ownPermission))
+        .map((role) => `role:${role}`),
+    );
+  }
+  return { rooms, except };
+}
 
 async function initializeSocket(server) {
   io = new Server(server, {
@@ -60,24 +172,53 @@ async function initializeSocket(server) {
 
   io.on("connection", (socket) => {
     console.log(`User connected: ${socket.user.username} (${socket.id})`);
+    socket.join(getSocketRooms(socket.user));
 
     socket.on("join_room", (room) => {
+      if (typeof room !== "string" || RESERVED_ROOM_PREFIXES.some((prefix) => room.startsWith(prefix))) {
+        return;
+      }
       socket.join(room);
     });
 
     // Client requesting a lock
-    socket.on("lock:acquire", async ({ resourceType, resourceId }, callback) => {
+    socket.on("lock:acquire", async ({ resourceType, resourceId } = {}, callback) => {
+      if (!isLockTarget(resourceType, resourceId)) {
+        return callback({ success: false, error: "INVALID_RESOURCE" });
+      }
+      if (!canLock(socket.user, resourceType)) {
+        return callback({ success: false, error: "FORBIDDEN" });
+      }
       try {
-        const result = await acquireLock(resourceType, resourceId, socket.user);
-        callback(result); // { success: true/false, lockedBy: ... }
+        const result = await acquireLock(resourceType, resourceId, socket.user, socket.id);
+        callback(result); // { success: true/false, lockedBy: ..., expiresAt }
       } catch (err) {
         console.error("Lock acquire error:", err);
         callback({ success: false, error: "Internal server error" });
       }
     });
 
+    // Holder renewing its lease while the editor stays open
+    socket.on("lock:heartbeat", async ({ resourceType, resourceId } = {}, callback) => {
+      if (!isLockTarget(resourceType, resourceId)) {
+        return callback({ success: false, error: "INVALID_RESOURCE" });
+      }
+      if (!canLock(socket.user, resourceType)) {
+        return callback({ success: false, error: "FORBIDDEN" });
+      }
+      try {
+        callback(await renewLock(resourceType, resourceId, socket.user));
+      } catch (err) {
+        console.error("Lock heartbeat error:", err);
+        callback({ success: false, error: "Internal server error" });
+      }
+    });
+
     // Client releasing a lock
-    socket.on("lock:release", async ({ resourceType, resourceId }, callback) => {
+    socket.on("lock:release", async ({ resourceType, resourceId } = {}, callback) => {
+      if (!isLockTarget(resourceType, resourceId)) {
+        return callback({ success: false, error: "INVALID_RESOURCE" });
+      }
       try {
         await releaseLock(resourceType, resourceId, socket.user);
         callback({ success: true });
@@ -88,7 +229,8 @@ async function initializeSocket(server) {
     });
 
     // Check lock status
-    socket.on("lock:check", async ({ resourceType, resourceId }, callback) => {
+    socket.on("lock:check", async ({ resourceType, resourceId } = {}, callback) => {
+      if (!isLockTarget(resourceType, resourceId)) return callback(null);
       try {
         const lock = await checkLock(resourceType, resourceId);
         callback(lock);
@@ -97,11 +239,31 @@ async function initializeSocket(server) {
       }
     });
 
-    socket.on("disconnect", () => {
+    // Asks the holder to finish up; they get lock:access-requested
+    socket.on("lock:request-access", async ({ resourceType, resourceId } = {}, callback) => {
+      if (!isLockTarget(resourceType, resourceId)) {
+        return callback({ success: false, error: "INVALID_RESOURCE" });
+      }
+      if (!canLock(socket.user, resourceType)) {
+        return callback({ success: false, error: "FORBIDDEN" });
+      }
+      try {
+        callback(await requestLockAccess(resourceType, resourceId, socket.user));
+      } catch (err) {
+        console.error("Lock access request error:", err);
+        callback({ success: false, error: "Internal server error" });
+      }
+    });
+
+    socket.on("disconnect", async () => {
       console.log(`User disconnected: ${socket.user.username}`);
-      // Note: Auto-release on disconnect requires tracking locks per socket.
-      // For simplicity/robustness, we rely on TTL or explicit release.
-      // Optimistic locking strategy: if they disconnect, the lock expires in 15 mins.
+      // Free the locks this connection took rather than waiting out the
+      // lease; a lock since taken over by another tab is left alone
+      try {
+        await releaseSocketLocks(socket.id, socket.user);
+      } catch (err) {
+        console.error("Lock cleanup error:", err);
+      }
     });
   });
 
@@ -111,74 +273,133 @@ async function initializeSocket(server) {
 // Lock Key Helper
 const getLockKey = (type, id) => `lock:${type}:${id}`;
 
+// Holder checks run inside Redis with the DEL/EXPIRE they guard: checked
+// from here, the lease could lapse and pass to someone else in between
+const IF_HOLDER = `
+local data = redis.call("GET", KEYS[1])
+if not data then return 0 end
+local ok, lock = pcall(cjson.decode, data)
+if not ok or tostring(lock.userId) ~= ARGV[1] then return 0 end
+`;
+// KEYS[1] lock key, ARGV[1] holder's user id
+const RELEASE_IF_HOLDER = `${IF_HOLDER}return redis.call("DEL", KEYS[1])`;
+// ARGV[2] lease in seconds, ARGV[3] optional new entry (hand-over to another connection)
+const RENEW_IF_HOLDER = `${IF_HOLDER}
+if ARGV[3] then redis.call("SET", KEYS[1], ARGV[3], "EX", ARGV[2]) else redis.call("EXPIRE", KEYS[1], ARGV[2]) end
+return 1`;
+
+const releaseIfHolder = (key, userId) =>
+  redisClient.eval(RELEASE_IF_HOLDER, { keys: [key], arguments: [String(userId)] });
+const renewIfHolder = (key, userId, entry = null) =>
+  redisClient.eval(RENEW_IF_HOLDER, {
+    keys: [key],
+    arguments: [String(userId), String(LOCK_LEASE), ...(entry ? [JSON.stringify(entry)] : [])],
+  });
+
+/**
+ * Reads a lock entry and its remaining lease.
+ * @returns {Promise<Object|null>} { userId, username, socketId, acquiredAt, expiresAt } or null when free
+ */
+async function readLock(key) {
+  const [data, ttl] = await Promise.all([redisClient.get(key), redisClient.ttl(key)]);
+  if (!data) return null;
+  try {
+    return { ...JSON.parse(data), expiresAt: Date.now() + Math.max(ttl, 0) * 1000 };
+  } catch (e) {
+    // Corrupt entries would block the record forever
+    await redisClient.del(key);
+    return null;
+  }
+}
+
+const broadcastLock = (resourceType, resourceId, lock) => {
+  io.to(getEventTargets("lock:update").rooms).emit(
+    `lock:update:${resourceType}:${resourceId}`,
+    lock
+      ? { isLocked: true, lockedBy: lock.username, expiresAt: lock.expiresAt }
+      : { isLocked: false, lockedBy: null },
+  );
+};
+
 /**
- * Attempts to acquire a lock for a resource.
- * Returns { success: boolean, lockedBy: object }
+ * Attempts to acquire a lock for a resource. The lease runs LOCK_LEASE
+ * seconds and is extended by renewLock.
+ * Returns { success: boolean, lockedBy: string, expiresAt: number }
  */
-async function acquireLock(resourceType, resourceId, user) {
+async function acquireLock(resourceType, resourceId, user, socketId = null) {
   const key = getLockKey(resourceType, resourceId);
-  const value = JSON.stringify({
-    userId: user.id,
-    username: user.username,
-    acquiredAt: Date.now(),
-  });
 
   if (!redisClient) {
     console.warn("acquireLock: Redis client is not initialized. Falling back to success (no-op).");
     return { success: true, lockedBy: null }; // Fallback if no Redis
   }
 
-  // SET key value NX EX ttl
-  // NX: Only set if not exists
-  // EX: Expire in seconds
-  const result = await redisClient.set(key, value, { NX: true, EX: LOCK_TTL });
+  const entry = { userId: user.id, username: user.username, socketId, acquiredAt: Date.now() };
+  const expiresAt = Date.now() + LOCK_LEASE * 1000;
+
+  // SET key value NX EX lease: only set if not exists
+  const result = await redisClient.set(key, JSON.stringify(entry), { NX: true, EX: LOCK_LEASE });
 
   if (result === "OK") {
-    // Lock acquired
     // Broadcast lock event so other clients can update UI immediately
-    io.emit(`lock:update:${resourceType}:${resourceId}`, { isLocked: true, lockedBy: user.username });
-    return { success: true, lockedBy: user.username };
-  } else {
-    // Already locked, get current owner
-    const currentLockData = await redisClient.get(key);
-    let lockedBy = "Unknown";
-    if (currentLockData) {
-      try {
-        const parsed = JSON.parse(currentLockData);
-        lockedBy = parsed.username;
-        // If current user already holds lock (e.g. refresh/reconnect), extend it?
-        if (parsed.userId === user.id) {
-            // Refresh TTL
-            await redisClient.expire(key, LOCK_TTL);
-            return { success: true, lockedBy: user.username };
-        }
-      } catch (e) {}
+    broadcastLock(resourceType, resourceId, { username: user.username, expiresAt });
+    return { success: true, lockedBy: user.username, expiresAt };
+  }
+
+  const current = await readLock(key);
+  if (!current) {
+    // Expired between the two calls
+    return acquireLock(resourceType, resourceId, user, socketId);
+  }
+  if (current.userId === user.id) {
+    // Same user again (refresh, second tab): hand the lock to this
+    // connection and start a fresh lease
+    if (await renewIfHolder(key, user.id, { ...entry, acquiredAt: current.acquiredAt })) {
+      return { success: true, lockedBy: user.username, expiresAt };
     }
-    return { success: false, lockedBy };
+    // Lapsed or taken over since it was read
+    return acquireLock(resourceType, resourceId, user, socketId);
   }
+  return { success: false, lockedBy: current.username, expiresAt: current.expiresAt };
 }
 
 /**
- * Releases a lock if held by the user (or if forced).
+ * Extends the holder's lease. Fails when the lock expired or was
+ * force-released, so the client knows its edits are no longer protected.
  */
-async function releaseLock(resourceType, resourceId, user) {
+async function renewLock(resourceType, resourceId, user) {
+  if (!redisClient) return { success: true, lockedBy: null };
+
   const key = getLockKey(resourceType, resourceId);
+  if (!(await renewIfHolder(key, user.id))) {
+    const current = await readLock(key);
+    return { success: false, lockedBy: current ? current.username : null };
+  }
+  return { success: true, lockedBy: user.username, expiresAt: Date.now() + LOCK_LEASE * 1000 };
+}
 
+/**
+ * Releases a lock if held by the user.
+ */
+async function releaseLock(resourceType, resourceId, user) {
   if (!redisClient) return;
 
-  const currentLockData = await redisClient.get(key);
-  if (!currentLockData) return; // Already free
+  // Only allow owner to release
+  if (await releaseIfHolder(getLockKey(resourceType, resourceId), user.id)) {
+    broadcastLock(resourceType, resourceId, null);
+  }
+}
 
-  try {
-    const parsed = JSON.parse(currentLockData);
-    // Only allow owner to release
-    if (parsed.userId === user.id) {
-      await redisClient.del(key);
-      io.emit(`lock:update:${resourceType}:${resourceId}`, { isLocked: false, lockedBy: null });
+/**
+ * Releases every lock still held by a closed connection.
+ */
+async function releaseSocketLocks(socketId, user) {
+  if (!redisClient) return;
+
+  for (const lock of await listLocks()) {
+    if (lock.socketId === socketId && lock.userId === user.id) {
+      await releaseLock(lock.resourceType, lock.resourceId, user);
     }
-  } catch (e) {
-    // If corrupt, delete it
-    await redisClient.del(key);
   }
 }
 
@@ -186,35 +407,101 @@ async function releaseLock(resourceType, resourceId, user) {
  * Checks if a resource is locked.
  */
 async function checkLock(resourceType, resourceId) {
-    const key = getLockKey(resourceType, resourceId);
-    if (!redisClient) return { isLocked: false };
-
-    const data = await redisClient.get(key);
-    if (data) {
-        try {
-            const parsed = JSON.parse(data);
-            return { isLocked: true, lockedBy: parsed.username, acquiredAt: parsed.acquiredAt };
-        } catch (e) {
-            return { isLocked: false };
-        }
+  if (!redisClient) return { isLocked: false };
+
+  const lock = await readLock(getLockKey(resourceType, resourceId));
+  if (!lock) return { isLocked: false };
+  return { isLocked: true, lockedBy: lock.username, acquiredAt: lock.acquiredAt, expiresAt: lock.expiresAt };
+}
+
+/**
+ * Notifies the holder of a lock that someone else wants to edit the record.
+ */
+async function requestLockAccess(resourceType, resourceId, user) {
+  if (!redisClient) return { success: false, isLocked: false };
+
+  const lock = await readLock(getLockKey(resourceType, resourceId));
+  if (!lock) return { success: false, isLocked: false };
+  if (lock.userId === user.id) return { success: false, isLocked: true, lockedBy: lock.username };
+
+  io.to(`user:${lock.userId}`).emit("lock:access-requested", {
+    resourceType,
+    resourceId,
+    requestedBy: user.username,
+  });
+  return { success: true, isLocked: true, lockedBy: lock.username };
+}
+
+/**
+ * Lists every active lock, oldest first, for the admin lock manager.
+ * @returns {Promise<Array>}
+ */
+async function listLocks() {
+  if (!redisClient) return [];
+
+  const locks = [];
+  for await (const keys of redisClient.scanIterator({ MATCH: "lock:*", COUNT: 100 })) {
+    for (const key of keys) {
+      const [, resourceType, resourceId] = key.split(":");
+      const lock = await readLock(key);
+      if (lock) locks.push({ resourceType, resourceId, ...lock });
     }
-    return { isLocked: false };
+  }
+  return locks.sort((a, b) => a.acquiredAt - b.acquiredAt);
+}
+
+/**
+ * Releases a lock regardless of who holds it and tells the holder.
+ * @param {Object} actor - Admin releasing the lock (req.user)
+ * @returns {Promise<Object|null>} The released lock, or null when it was free.
+ */
+async function forceReleaseLock(resourceType, resourceId, actor) {
+  if (!redisClient) return null;
+
+  const key = getLockKey(resourceType, resourceId);
+  const lock = await readLock(key);
+  // Released only if it still belongs to the holder that was read
+  if (!lock || !(await releaseIfHolder(key, lock.userId))) return null;
+
+  // Tell the holder first so its editor stops waiting for the lock rather
+  // than taking it straight back on the unlock broadcast
+  io.to(`user:${lock.userId}`).emit("lock:revoked", {
+    resourceType,
+    resourceId,
+    releasedBy: actor.username,
+  });
+  broadcastLock(resourceType, resourceId, null);
+  return { resourceType, resourceId, ...lock };
 }
 
 /**
- * Emits a global event to all connected clients.
- * Used for data sync.
+ * Emits a data sync event to the clients allowed to see it: staff roles
+ * with read access get every change, members only changes to their own
+ * records. See EVENT_ROUTES.
  */
 function emitEvent(eventName, data) {
-  if (io) {
-    io.emit(eventName, data);
+  if (!io) return;
+
+  const targets = getEventTargets(eventName, data);
+  if (targets.rooms.length > 0) {
+    io.to(targets.rooms).except(targets.except).emit(eventName, data);
   }
 }
 
 module.exports = {
   initializeSocket,
   emitEvent,
+  getSocketRooms,
+  getEventTargets,
+  LOCK_LEASE,
+  LOCK_RESOURCES,
+  isLockTarget,
+  canLock,
   acquireLock,
+  renewLock,
   releaseLock,
-  checkLock
+  checkLock,
+  requestLockAccess,
+  listLocks,
+  forceReleaseLock
 };
@@ -0,0 +1,259 @@
+/**
+ * Contribution Statement Utilities for GraceGiver
+ *
+ * Year-end statements are the donor's substantiation for the IRS: they name
+ * the church and its EIN, state whether goods or services were provided in
+ * exchange for each gift, and itemize single gifts of $250 or more. Every
+ * generated PDF is recorded in statement_issues with a statement number so
+ * reissues can be traced back to the original.
+ */
+
+const SUBSTANTIATION_THRESHOLD = 250;
+
+const DEFAULT_DISCLOSURE =
+  'No goods or services were provided in exchange for these contributions other than intangible religious benefits, except as itemized above.';
+
+const DEFAULT_TEMPLATE = {
+  churchName: 'Mt. Herman A.M.E. Church',
+  churchAddress: null,
+  taxId: null,
+  intro: null,
+  disclosure: DEFAULT_DISCLOSURE,
+  signerName: null,
+  signerTitle: null
+};
+
+const toCents = (value) => Math.round((parseFloat(value) || 0) * 100);
+const fromCents = (cents) => cents / 100;
+const formatCurrency = (value) => `$${(parseFloat(value) || 0).toFixed(2)}`;
+
+/**
+ * Loads the statement template from settings, falling back to the default
+ * disclosure when none is configured.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Object>} { churchName, churchAddress, taxId, intro, disclosure, signerName, signerTitle }
+ */
+async function getStatementTemplate(db) {
+  const result = await db.query(
+    `SELECT name, address, tax_id, statement_intro, statement_disclosure,
+       statement_signer_name, statement_signer_title
+     FROM settings WHERE singleton_id = true`
+  );
+  const row = result.rows[0] || {};
+
+  return {
+    churchName: row.name || DEFAULT_TEMPLATE.churchName,
+    churchAddress: row.address || null,
+    taxId: row.tax_id || null,
+    intro: row.statement_intro || null,
+    disclosure: row.statement_disclosure || DEFAULT_DISCLOSURE,
+    signerName: row.statement_signer_name || null,
+    signerTitle: row.statement_signer_title || null
+  };
+}
+
+/**
+ * Returns the tax-deductible portion of a gift: the amount less the fair
+ * market value of any goods or services received, never below zero. Gifts
+ * to a fund marked not tax-deductible have no deductible portion.
+ * @param {Object} gift - { amount, goodsServicesProvided, goodsServicesValue, taxDeductible }
+ * @returns {number}
+ */
+function getDeductibleAmount(gift) {
+  if (gift.taxDeductible === false) return 0;
+  const amountCents = toCents(gift.amount);
+  const goodsCents = gift.goodsServicesProvided ? toCents(gift.goodsServicesValue) : 0;
+  return fromCents(Math.max(0, amountCents - goodsCents));
+}
+
+/**
+ * Whether a single gift needs written substantiation ($250 or more).
+ * @param {Object} gift - { amount }
+ * @returns {boolean}
+ */
+function requiresSubstantiation(gift) {
+  return toCents(gift.amount) >= SUBSTANTIATION_THRESHOLD * 100;
+}
+
+/**
+ * Builds the substantiation sentence for an itemized gift.
+ * @param {Object} gift
+ * @returns {string}
+ */
+function describeSubstantiation(gift) {
+  if (gift.taxDeductible === false) {
+    return `This gift was made to the ${gift.fund} fund, which is not tax-deductible.`;
+  }
+  if (!gift.goodsServicesProvided) {
+    return 'No goods or services were provided in exchange for this contribution other than intangible religious benefits.';
+  }
+  const description = gift.goodsServicesDescription || 'goods or services';
+  return `In exchange for this contribution, the donor received ${description} with an estimated fair market value of ${formatCurrency(gift.goodsServicesValue)}. The deductible amount is ${formatCurrency(getDeductibleAmount(gift))}.`;
+}
+
+/**
+ * Totals a statement's gifts.
+ * @param {Array} donations - [{ amount, goodsServicesProvided, goodsServicesValue }]
+ * @returns {Object} { totalAmount, goodsServicesValue, deductibleAmount, substantiatedCount }
+ */
+function summarizeGifts(donations) {
+  let totalCents = 0;
+  let deductibleCents = 0;
+  let substantiatedCount = 0;
+
+  donations.forEach(gift => {
+    totalCents += toCents(gift.amount);
+    deductibleCents += toCents(getDeductibleAmount(gift));
+    if (requiresSubstantiation(gift)) substantiatedCount++;
+  });
+
+  return {
+    totalAmount: fromCents(totalCents),
+    goodsServicesValue: fromCents(totalCents - deductibleCents),
+    deductibleAmount: fromCents(deductibleCents),
+    substantiatedCount
+  };
+}
+
+/**
+ * Maps the statement fields of a donations row.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapStatementGift(row) {
+  const gift = {
+    id: row.id,
+    date: row.donation_date,
+    amount: parseFloat(row.amount),
+    fund: row.fund,
+    notes: row.notes,
+    paymentMethod: row.payment_method,
+    checkNumber: row.check_number,
+    goodsServicesProvided: row.goods_services_provided === true,
+    goodsServicesValue: parseFloat(row.goods_services_value) || 0,
+    goodsServicesDescription: row.goods_services_description || null,
+    taxDeductible: row.tax_deductible !== false
+  };
+  gift.deductibleAmount = getDeductibleAmount(gift);
+  return gift;
+}
+
+/**
+ * Records a generated statement and assigns its number (YYYY-NNNNNN).
+ * A statement for a recipient and year that was already issued is recorded
+ * as a reissue of the most recent one.
+ *
+ * @param {Object} db - pg Pool or client
+ * @param {Object} params
+ * @param {string|number} params.year
+ * @param {string|null} params.memberId
+ * @param {string|null} [params.householdId]
+ * @param {Object} params.summary - From summarizeGifts.
+ * @param {string} [params.issuedBy]
+ * @returns {Promise<{ statementNumber: string, reissueOf: string|null }>}
+ */
+async function issueStatement(db, { year, memberId, householdId = null, summary, issuedBy = null }) {
+  const result = await db.query(
+    `WITH prev AS (
+       SELECT id, statement_number FROM statement_issues
+       WHERE tax_year = $1::int
+         AND member_id IS NOT DISTINCT FROM $2
+         AND household_id IS NOT DISTINCT FROM $3
+       ORDER BY id DESC LIMIT 1
+     ), seq AS (
+       SELECT nextval('statement_issues_id_seq') AS id
+     )
+     INSERT INTO statement_issues
+       (id, statement_number, tax_year, member_id, household_id, total_amount, deductible_amount, reissue_of, issued_by)
+     SELECT seq.id, $1::int::text || '-' || LPAD(seq.id::text, 6, '0'), $1::int, $2, $3, $4, $5,
+       (SELECT id FROM prev), $6
+     FROM seq
+     RETURNING statement_number, (SELECT statement_number FROM prev) AS reissue_of_number`,
+    [year, memberId || null, householdId || null, summary.totalAmount, summary.deductibleAmount, issuedBy]
+  );
+  const row = result.rows[0] || {};
+
+  return {
+    statementNumber: row.statement_number,
+    reissueOf: row.reissue_of_number || null
+  };
+}
+
+/**
+ * Lists issued statements, newest first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { year, memberId, statementNumber, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listStatementIssues(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.year && /^\d{4}$/.test(String(filters.year))) {
+    params.push(parseInt(filters.year));
+    conditions.push(`s.tax_year = $${params.length}`);
+  }
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`s.member_id = $${params.length}`);
+  }
+  if (filters.statementNumber) {
+    params.push(filters.statementNumber);
+    conditions.push(`s.statement_number = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM statement_issues s${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `SELECT s.*, prev.statement_number AS reissue_of_number,
+       m.first_name, m.last_name, h.name AS household_name
+     FROM statement_issues s
+     LEFT JOIN statement_issues prev ON prev.id = s.reissue_of
+     LEFT JOIN members m ON m.id = s.member_id
+     LEFT JOIN households h ON h.id = s.household_id${where}
+     ORDER BY s.id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(row => ({
+      id: row.id.toString(),
+      statementNumber: row.statement_number,
+      taxYear: row.tax_year,
+      memberId: row.member_id,
+      memberName: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+      householdId: row.household_id,
+      householdName: row.household_name || null,
+      totalAmount: parseFloat(row.total_amount),
+      deductibleAmount: parseFloat(row.deductible_amount),
+      reissueOf: row.reissue_of_number || null,
+      issuedBy: row.issued_by,
+      issuedAt: row.issued_at
+    })),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+module.exports = {
+  SUBSTANTIATION_THRESHOLD,
+  DEFAULT_DISCLOSURE,
+  DEFAULT_TEMPLATE,
+  getStatementTemplate,
+  getDeductibleAmount,
+  requiresSubstantiation,
+  describeSubstantiation,
+  summarizeGifts,
+  mapStatementGift,
+  issueStatement,
+  listStatementIssues
+};
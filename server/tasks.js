@@ -0,0 +1,351 @@
+/**
+ * Follow-Up Task Utilities for GraceGiver
+ *
+ * A follow-up task asks a staff user to reach out to a member by a due
+ * date: welcome a new registrant, thank a first-time donor, check in with
+ * a donor the at-risk model flagged or collect a missing email address.
+ * Tasks carry a notes thread so whoever picks one up can see what has
+ * already been said. Automatic tasks go to the default assignee from
+ * settings, and a member never has two open automatic tasks for the same
+ * reason.
+ */
+
+const { toUtcDate, formatDate } = require('./pledges');
+const { hasPermission, PERMISSION_HIERARCHY } = require('./rbac');
+
+const TASK_ORIGINS = ['manual', 'at_risk', 'new_member', 'new_donor', 'missing_email'];
+const TASK_STATUSES = ['open', 'in_progress', 'done', 'cancelled'];
+const OPEN_STATUSES = ['open', 'in_progress'];
+
+// Days until an automatic task is due, by origin
+const AUTO_TASK_DUE_DAYS = { at_risk: 3, new_member: 7, new_donor: 7, missing_email: 14 };
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TEXT_LENGTH = 2000;
+
+// Roles that can work tasks, and so can have them assigned
+const ASSIGNABLE_ROLES = Object.keys(PERMISSION_HIERARCHY).filter(role => hasPermission(role, 'tasks:update'));
+
+const TASK_SELECT = `
+  SELECT t.*,
+    m.first_name, m.last_name,
+    u.username AS assignee_username,
+    (SELECT COUNT(*) FROM follow_up_task_notes n WHERE n.task_id = t.id) AS note_count
+  FROM follow_up_tasks t
+  JOIN members m ON m.id = t.member_id
+  LEFT JOIN users u ON u.id = t.assigned_to
+`;
+
+const DEFAULT_ASSIGNEE_SQL = '(SELECT follow_up_assignee_id FROM settings WHERE singleton_id = true)';
+
+/**
+ * Validates a task. Updates are validated against the stored task merged
+ * with the incoming changes.
+ * @param {Object} input - Request body (camelCase fields).
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateTask(input) {
+  const errors = [];
+  const present = (field) => input[field] !== undefined && input[field] !== null && input[field] !== '';
+
+  if (!present('memberId')) {
+    errors.push('REQUIRED_MEMBER: memberId is required.');
+  }
+  if (!present('title') || String(input.title).trim() === '') {
+    errors.push('REQUIRED_TITLE: title is required.');
+  } else if (String(input.title).trim().length > MAX_TITLE_LENGTH) {
+    errors.push(`INVALID_TITLE_LENGTH: title cannot exceed ${MAX_TITLE_LENGTH} characters.`);
+  }
+  if (present('description') && String(input.description).length > MAX_TEXT_LENGTH) {
+    errors.push(`INVALID_DESCRIPTION_LENGTH: description cannot exceed ${MAX_TEXT_LENGTH} characters.`);
+  }
+  if (present('origin') && !TASK_ORIGINS.includes(input.origin)) {
+    errors.push(`INVALID_ORIGIN: origin must be one of ${TASK_ORIGINS.join(', ')}.`);
+  }
+  if (present('status') && !TASK_STATUSES.includes(input.status)) {
+    errors.push(`INVALID_STATUS: status must be one of ${TASK_STATUSES.join(', ')}.`);
+  }
+  if (present('dueDate') && !toUtcDate(input.dueDate)) {
+    errors.push('INVALID_DATE: dueDate must be a valid date (YYYY-MM-DD).');
+  }
+  if (present('assignedTo') && !/^\d+$/.test(String(input.assignedTo))) {
+    errors.push('INVALID_ASSIGNEE: assignedTo must be a user id.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Maps a follow_up_tasks row (with member, assignee and note count) to the
+ * API response shape.
+ * @param {Object} row
+ * @param {Date|string} [asOf] - Defaults to today.
+ * @returns {Object}
+ */
+function mapTask(row, asOf = new Date()) {
+  const due = toUtcDate(row.due_date);
+
+  return {
+    id: row.id.toString(),
+    memberId: row.member_id,
+    memberName: row.first_name ? `${row.first_name} ${row.last_name}` : undefined,
+    assignedTo: row.assigned_to != null ? Number(row.assigned_to) : null,
+    assignedToName: row.assignee_username || null,
+    title: row.title,
+    description: row.description || null,
+    origin: row.origin,
+    status: row.status,
+    dueDate: formatDate(due),
+    overdue: Boolean(due && OPEN_STATUSES.includes(row.status) && due < toUtcDate(asOf)),
+    noteCount: parseInt(row.note_count) || 0,
+    createdBy: row.created_by || null,
+    completedAt: row.completed_at || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Maps a follow_up_task_notes row.
+ * @param {Object} row
+ * @returns {Object}
+ */
+function mapTaskNote(row) {
+  return {
+    id: row.id.toString(),
+    taskId: row.task_id.toString(),
+    body: row.body,
+    author: row.author || null,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Lists tasks. Open tasks come first, soonest due first.
+ * @param {Object} pool - pg Pool
+ * @param {Object} filters - { assignedTo, unassigned, status ('active' = open or in progress), origin, memberId, page, limit }
+ * @returns {Promise<{ data: Array, pagination: Object }>}
+ */
+async function listTasks(pool, filters = {}) {
+  const page = Math.max(1, parseInt(filters.page) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(filters.limit) || 20));
+  const offset = (page - 1) * limit;
+  const conditions = [];
+  const params = [];
+
+  if (filters.unassigned === true || filters.unassigned === 'true') {
+    conditions.push('t.assigned_to IS NULL');
+  } else if (filters.assignedTo !== undefined && /^\d+$/.test(String(filters.assignedTo))) {
+    params.push(Number(filters.assignedTo));
+    conditions.push(`t.assigned_to = $${params.length}`);
+  }
+  if (filters.status === 'active') {
+    params.push(OPEN_STATUSES);
+    conditions.push(`t.status = ANY($${params.length})`);
+  } else if (filters.status && TASK_STATUSES.includes(filters.status)) {
+    params.push(filters.status);
+    conditions.push(`t.status = $${params.length}`);
+  }
+  if (filters.origin && TASK_ORIGINS.includes(filters.origin)) {
+    params.push(filters.origin);
+    conditions.push(`t.origin = $${params.length}`);
+  }
+  if (filters.memberId) {
+    params.push(filters.memberId);
+    conditions.push(`t.member_id = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM follow_up_tasks t${where}`, params);
+  const total = parseInt(countResult.rows[0].count);
+
+  const result = await pool.query(
+    `${TASK_SELECT}${where}
+     ORDER BY t.status IN ('open', 'in_progress') DESC, t.due_date ASC NULLS LAST, t.id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: result.rows.map(row => mapTask(row)),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    }
+  };
+}
+
+/**
+ * Fetches a single task.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} id
+ * @returns {Promise<Object|null>}
+ */
+async function getTask(db, id) {
+  const result = await db.query(`${TASK_SELECT} WHERE t.id = $1`, [id]);
+  return result.rows.length > 0 ? mapTask(result.rows[0]) : null;
+}
+
+/**
+ * Creates a task. A second open automatic task for the same member and
+ * origin is not created.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} task - { memberId, title, description, origin, dueDate, assignedTo, createdBy }
+ * @returns {Promise<Object|null>} the new row, or null if a matching open task exists
+ */
+async function createTask(db, task) {
+  const result = await db.query(
+    `INSERT INTO follow_up_tasks (member_id, title, description, origin, due_date, assigned_to, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT DO NOTHING RETURNING *`,
+    [
+      task.memberId,
+      String(task.title).trim(),
+      task.description || null,
+      task.origin || 'manual',
+      task.dueDate || null,
+      task.assignedTo != null && task.assignedTo !== '' ? Number(task.assignedTo) : null,
+      task.createdBy || null
+    ]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Creates an automatic task for a member, assigned to the default assignee
+ * from settings and due a set number of days from today.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} task - { memberId, origin, title, description }
+ * @returns {Promise<Object|null>} the new row, or null if a matching open task exists
+ */
+async function createAutoTask(db, { memberId, origin, title, description = null }) {
+  const result = await db.query(
+    `INSERT INTO follow_up_tasks (member_id, origin, title, description, due_date, assigned_to)
+     VALUES ($1, $2, $3, $4, CURRENT_DATE + $5::int, ${DEFAULT_ASSIGNEE_SQL})
+     ON CONFLICT DO NOTHING RETURNING *`,
+    [memberId, origin, title, description, AUTO_TASK_DUE_DAYS[origin]]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Creates a thank-you task for each member whose only gift on file is the
+ * one just recorded. A member gets one such task, ever.
+ * @param {Object} db - pg Pool or client
+ * @param {Array<string>} memberIds - Members who just gave
+ * @returns {Promise<Array>} new rows
+ */
+async function createNewDonorTasks(db, memberIds) {
+  const ids = [...new Set(memberIds.filter(Boolean))];
+  if (ids.length === 0) return [];
+
+  const result = await db.query(
+    `INSERT INTO follow_up_tasks (member_id, origin, title, due_date, assigned_to)
+     SELECT m.id, 'new_donor', 'Thank first-time donor ' || m.first_name || ' ' || m.last_name,
+       CURRENT_DATE + $2::int, ${DEFAULT_ASSIGNEE_SQL}
+     FROM members m
+     WHERE m.id = ANY($1::text[])
+       AND (SELECT COUNT(*) FROM donations d WHERE d.member_id = m.id) = 1
+       AND NOT EXISTS (SELECT 1 FROM follow_up_tasks t WHERE t.member_id = m.id AND t.origin = 'new_donor')
+     ON CONFLICT DO NOTHING RETURNING *`,
+    [ids, AUTO_TASK_DUE_DAYS.new_donor]
+  );
+  return result.rows;
+}
+
+/**
+ * Creates a task to collect an email address for every member without one.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} options - { assignedTo, createdBy }; assignedTo defaults to the settings assignee
+ * @returns {Promise<Array>} new rows
+ */
+async function createMissingEmailTasks(db, { assignedTo = null, createdBy = null } = {}) {
+  const result = await db.query(
+    `INSERT INTO follow_up_tasks (member_id, origin, title, due_date, assigned_to, created_by)
+     SELECT m.id, 'missing_email', 'Collect an email address for ' || m.first_name || ' ' || m.last_name,
+       CURRENT_DATE + $1::int, COALESCE($2::int, ${DEFAULT_ASSIGNEE_SQL}), $3
+     FROM members m
+     WHERE m.email IS NULL OR m.email = ''
+     ON CONFLICT DO NOTHING RETURNING *`,
+    [AUTO_TASK_DUE_DAYS.missing_email, assignedTo, createdBy]
+  );
+  return result.rows;
+}
+
+/**
+ * Adds a note to a task's thread.
+ * @param {Object} db - pg Pool or client
+ * @param {Object} note - { taskId, body, author }
+ * @returns {Promise<Object>} the new row
+ */
+async function addTaskNote(db, { taskId, body, author }) {
+  const result = await db.query(
+    'INSERT INTO follow_up_task_notes (task_id, body, author) VALUES ($1, $2, $3) RETURNING *',
+    [taskId, body, author]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Lists a task's notes, oldest first.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} taskId
+ * @returns {Promise<Array>}
+ */
+async function listTaskNotes(db, taskId) {
+  const result = await db.query(
+    'SELECT * FROM follow_up_task_notes WHERE task_id = $1 ORDER BY created_at, id',
+    [taskId]
+  );
+  return result.rows.map(mapTaskNote);
+}
+
+/**
+ * Lists the users tasks can be assigned to.
+ * @param {Object} db - pg Pool or client
+ * @returns {Promise<Array>} { id, username, role }
+ */
+async function listAssignees(db) {
+  const result = await db.query(
+    'SELECT id, username, role FROM users WHERE role = ANY($1) ORDER BY username',
+    [ASSIGNABLE_ROLES]
+  );
+  return result.rows.map(row => ({ id: Number(row.id), username: row.username, role: row.role }));
+}
+
+/**
+ * Checks that a user exists and can have tasks assigned.
+ * @param {Object} db - pg Pool or client
+ * @param {string|number} userId
+ * @returns {Promise<boolean>}
+ */
+async function isAssignable(db, userId) {
+  const result = await db.query('SELECT role FROM users WHERE id = $1', [userId]);
+  return result.rows.length > 0 && ASSIGNABLE_ROLES.includes(result.rows[0].role);
+}
+
+module.exports = {
+  TASK_ORIGINS,
+  TASK_STATUSES,
+  OPEN_STATUSES,
+  AUTO_TASK_DUE_DAYS,
+  ASSIGNABLE_ROLES,
+  validateTask,
+  mapTask,
+  mapTaskNote,
+  listTasks,
+  getTask,
+  createTask,
+  createAutoTask,
+  createNewDonorTasks,
+  createMissingEmailTasks,
+  addTaskNote,
+  listTaskNotes,
+  listAssignees,
+  isAssignable
+};
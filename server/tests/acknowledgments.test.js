@@ -0,0 +1,166 @@
+/**
+ * Gift Acknowledgment Unit Tests
+ *
+ * Tests the settings validation, which gifts are claimed, how messages are
+ * built for immediate and weekly acknowledgments, and when the job runs.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateAcknowledgmentSettings,
+  mapAcknowledgmentSettings,
+  claimUnacknowledgedGifts,
+  buildAcknowledgments,
+  runAcknowledgmentJob
+} from '../acknowledgments.js';
+
+const giftRow = (id, memberId, amount, date, firstName = 'Ann') => ({
+  id,
+  member_id: memberId,
+  donation_date: date,
+  amount: String(amount),
+  fund: 'General',
+  first_name: firstName,
+  last_name: 'Lee',
+  email: `${firstName.toLowerCase()}@example.com`
+});
+
+describe('validateAcknowledgmentSettings', () => {
+  it('should accept a known mode and a non-negative threshold', () => {
+    expect(validateAcknowledgmentSettings({ acknowledgmentMode: 'weekly', acknowledgmentThreshold: '250' }).isValid).toBe(true);
+    expect(validateAcknowledgmentSettings({}).isValid).toBe(true);
+  });
+
+  it('should reject an unknown mode and a negative threshold', () => {
+    const result = validateAcknowledgmentSettings({ acknowledgmentMode: 'daily', acknowledgmentThreshold: -5 });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'INVALID_ACKNOWLEDGMENT_MODE',
+      'INVALID_ACKNOWLEDGMENT_THRESHOLD'
+    ]);
+  });
+});
+
+describe('mapAcknowledgmentSettings', () => {
+  it('should default to off with no threshold', () => {
+    expect(mapAcknowledgmentSettings({})).toEqual({ acknowledgmentMode: 'off', acknowledgmentThreshold: 0 });
+    expect(mapAcknowledgmentSettings({ acknowledgment_mode: 'immediate', acknowledgment_threshold: '250.00' }))
+      .toEqual({ acknowledgmentMode: 'immediate', acknowledgmentThreshold: 250 });
+  });
+});
+
+describe('claimUnacknowledgedGifts', () => {
+  it('should claim only the given gifts when ids are passed', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    await claimUnacknowledgedGifts(db, { threshold: 250, donationIds: ['7'] });
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('acknowledged_at IS NULL');
+    expect(sql).toContain('acknowledgment_opt_out = false');
+    expect(sql).toContain('d.id = ANY($2::int[])');
+    expect(params).toEqual([250, [7]]);
+  });
+
+  it('should sweep recent gifts oldest first without ids', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [giftRow(9, 'm-1', 50, '2026-03-08'), giftRow(4, 'm-1', 50, '2026-03-01')]
+      })
+    };
+
+    const rows = await claimUnacknowledgedGifts(db, { threshold: 0 });
+
+    expect(db.query.mock.calls[0][0]).toContain('d.donation_date >= CURRENT_DATE - $2::int');
+    expect(rows.map(r => r.id)).toEqual([4, 9]);
+  });
+});
+
+describe('buildAcknowledgments', () => {
+  const rows = [
+    giftRow(1, 'm-1', 100, '2026-03-01T12:00:00Z'),
+    giftRow(2, 'm-2', 300, '2026-03-02T12:00:00Z', 'Bo'),
+    giftRow(3, 'm-1', 25.5, '2026-03-05T12:00:00Z')
+  ];
+
+  it('should thank each gift with its own receipt', () => {
+    const messages = buildAcknowledgments(rows, false, 'Grace Church');
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toMatchObject({
+      email: 'ann@example.com',
+      memberId: 'm-1',
+      donationId: 1,
+      attachment: { type: 'receipt', donationId: 1 }
+    });
+    expect(messages[0].fields).toMatchObject({ firstName: 'Ann', amount: '$100.00', fund: 'General', churchName: 'Grace Church' });
+  });
+
+  it('should send one digest per donor covering all their gifts', () => {
+    const messages = buildAcknowledgments(rows, true, 'Grace Church');
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({
+      memberId: 'm-1',
+      donationId: null,
+      attachment: { type: 'receipts', donationIds: [1, 3] }
+    });
+    expect(messages[0].fields).toMatchObject({ giftCount: 2, amount: '$125.50' });
+    expect(messages[0].fields.gifts.split('\n')).toHaveLength(2);
+    expect(messages[1]).toMatchObject({ memberId: 'm-2', donationId: 2 });
+  });
+});
+
+describe('runAcknowledgmentJob', () => {
+  const mockPool = (settings, responses = {}) => {
+    const client = {
+      query: vi.fn(async (sql) => {
+        if (sql.startsWith('SELECT name, acknowledgment_mode')) return { rows: [settings] };
+        if (sql.includes('UPDATE settings')) return { rows: responses.digestDue ? [{}] : [] };
+        if (sql.includes('UPDATE donations')) return { rows: responses.gifts || [] };
+        if (sql.includes('FROM email_templates')) return { rows: [] };
+        if (sql.includes('INSERT INTO email_messages')) return { rows: [{ id: 11 }] };
+        return { rows: [] };
+      }),
+      release: vi.fn()
+    };
+    return { pool: { connect: vi.fn().mockResolvedValue(client) }, client };
+  };
+
+  it('should do nothing while acknowledgments are off', async () => {
+    const { pool, client } = mockPool({ acknowledgment_mode: 'off' });
+
+    expect(await runAcknowledgmentJob(pool, { donationIds: [1] })).toEqual([]);
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE donations'))).toBe(false);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should leave new gifts for the weekly digest', async () => {
+    const { pool, client } = mockPool({ acknowledgment_mode: 'weekly' }, { digestDue: true });
+
+    expect(await runAcknowledgmentJob(pool, { donationIds: [1] })).toEqual([]);
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE settings'))).toBe(false);
+  });
+
+  it('should skip the sweep until the next digest is due', async () => {
+    const { pool, client } = mockPool({ acknowledgment_mode: 'weekly' }, { digestDue: false });
+
+    expect(await runAcknowledgmentJob(pool)).toEqual([]);
+    expect(client.query.mock.calls.some(([sql]) => sql.includes('UPDATE donations'))).toBe(false);
+  });
+
+  it('should queue an acknowledgment for a gift as it is entered', async () => {
+    const { pool, client } = mockPool(
+      { name: 'Grace Church', acknowledgment_mode: 'immediate', acknowledgment_threshold: '0' },
+      { gifts: [giftRow(5, 'm-1', 40, '2026-03-01')] }
+    );
+
+    expect(await runAcknowledgmentJob(pool, { donationIds: [5] })).toEqual([{ id: 11 }]);
+
+    const insert = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO email_messages'));
+    expect(insert[1][1]).toBe('acknowledgment');
+    expect(insert[1][6][0]).toBe('Thank you for your gift to Grace Church');
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Audit Trail Unit Tests
+ *
+ * Tests snapshot sanitization, diffing, persistence and filtered listing
+ * for the audit_events helper module.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  recordAuditEvent,
+  listAuditEvents,
+  buildAuditFilter,
+  diffRecords,
+  sanitizeSnapshot
+} from '../audit.js';
+
+describe('sanitizeSnapshot', () => {
+  it('should strip password columns', () => {
+    const snapshot = sanitizeSnapshot({
+      id: 1,
+      username: 'alice',
+      password_hash: '$2a$12$secret',
+      password_history: ['old']
+    });
+
+    expect(snapshot).toEqual({ id: 1, username: 'alice' });
+  });
+
+  it('should return null for missing records', () => {
+    expect(sanitizeSnapshot(null)).toBeNull();
+    expect(sanitizeSnapshot(undefined)).toBeNull();
+  });
+});
+
+describe('diffRecords', () => {
+  it('should report only changed fields', () => {
+    const changes = diffRecords(
+      { id: 5, amount: '100.00', fund: 'Tithes', notes: null },
+      { id: 5, amount: '150.00', fund: 'Tithes', notes: 'Corrected' }
+    );
+
+    expect(changes).toEqual({
+      amount: { from: '100.00', to: '150.00' },
+      notes: { from: null, to: 'Corrected' }
+    });
+  });
+
+  it('should treat every field as new on create', () => {
+    const changes = diffRecords(null, { id: 'm1', first_name: 'Ruth' });
+
+    expect(changes).toEqual({
+      id: { from: null, to: 'm1' },
+      first_name: { from: null, to: 'Ruth' }
+    });
+  });
+
+  it('should compare dates by value', () => {
+    const changes = diffRecords(
+      { donation_date: new Date('2026-01-04T12:00:00Z') },
+      { donation_date: new Date('2026-01-04T12:00:00Z') }
+    );
+
+    expect(changes).toEqual({});
+  });
+
+  it('should ignore updated_at and redacted fields', () => {
+    const changes = diffRecords(
+      { role: 'viewer', updated_at: '2026-01-01', password_hash: 'a' },
+      { role: 'manager', updated_at: '2026-02-01', password_hash: 'b' }
+    );
+
+    expect(changes).toEqual({ role: { from: 'viewer', to: 'manager' } });
+  });
+});
+
+describe('recordAuditEvent', () => {
+  it('should insert the actor, snapshots and computed diff', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ id: 1 }] }) };
+
+    await recordAuditEvent(db, {
+      actor: { id: 7, username: 'treasurer', role: 'manager' },
+      action: 'UPDATE',
+      entityType: 'donation',
+      entityId: 42,
+      before: { amount: '10.00' },
+      after: { amount: '20.00' }
+    });
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO audit_events');
+    expect(params.slice(0, 6)).toEqual([7, 'treasurer', 'manager', 'UPDATE', 'donation', '42']);
+    expect(params[8]).toEqual({ amount: { from: '10.00', to: '20.00' } });
+  });
+
+  it('should swallow database errors so the caller is not affected', async () => {
+    const db = { query: vi.fn().mockRejectedValue(new Error('relation does not exist')) };
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await recordAuditEvent(db, { action: 'DELETE', entityType: 'member', entityId: 'm1' });
+
+    expect(result).toBeNull();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should roll back only its savepoint when a transaction client fails', async () => {
+    const query = vi.fn(async (sql) => {
+      if (sql.includes('INSERT INTO audit_events')) throw new Error('relation does not exist');
+      return { rows: [] };
+    });
+    const client = { query, release: vi.fn() };
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await recordAuditEvent(client, { action: 'MERGE', entityType: 'member', entityId: 'm1' });
+
+    expect(result).toBeNull();
+    expect(query.mock.calls.map(([sql]) => sql)).toEqual([
+      'SAVEPOINT audit_event',
+      expect.stringContaining('INSERT INTO audit_events'),
+      'ROLLBACK TO SAVEPOINT audit_event'
+    ]);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('buildAuditFilter', () => {
+  it('should return an empty clause without filters', () => {
+    expect(buildAuditFilter({})).toEqual({ where: '', params: [] });
+  });
+
+  it('should combine filters with positional parameters', () => {
+    const { where, params } = buildAuditFilter({
+      entityType: 'donation',
+      entityId: 12,
+      action: 'update',
+      actor: 'tre'
+    });
+
+    expect(where).toBe(' WHERE entity_type = $1 AND entity_id = $2 AND action = $3 AND actor_username ILIKE $4');
+    expect(params).toEqual(['donation', '12', 'UPDATE', '%tre%']);
+  });
+});
+
+describe('listAuditEvents', () => {
+  it('should paginate and map rows', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '3' }] })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 3,
+            action: 'UPDATE',
+            entity_type: 'donation',
+            entity_id: '42',
+            actor_user_id: 7,
+            actor_username: 'treasurer',
+            actor_role: 'manager',
+            before_data: { amount: '10.00' },
+            after_data: { amount: '20.00' },
+            changes: { amount: { from: '10.00', to: '20.00' } },
+            metadata: {},
+            created_at: '2026-03-01T10:00:00Z'
+          }]
+        })
+    };
+
+    const result = await listAuditEvents(pool, { entityType: 'donation', page: '2', limit: '2' });
+
+    expect(pool.query.mock.calls[1][1]).toEqual(['donation', 2, 2]);
+    expect(result.pagination).toEqual({ total: 3, page: 2, limit: 2, totalPages: 2 });
+    expect(result.data[0]).toMatchObject({
+      id: '3',
+      entityType: 'donation',
+      entityId: '42',
+      actorUsername: 'treasurer'
+    });
+  });
+});
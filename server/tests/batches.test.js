@@ -0,0 +1,188 @@
+/**
+ * Deposit Batch Unit Tests
+ *
+ * Tests expected-total validation, variance math and the closed-batch
+ * lock applied to donation edits.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateBatch,
+  mapBatch,
+  listBatches,
+  checkBatchWritable,
+  checkBatchesWritable
+} from '../batches.js';
+
+const batchRow = (overrides = {}) => ({
+  id: 12,
+  batch_date: '2026-03-01',
+  description: 'Sunday 9am',
+  status: 'open',
+  expected_cash_total: '420.00',
+  expected_cash_count: 14,
+  expected_check_total: '1250.50',
+  expected_check_count: 6,
+  actual_total: '1670.50',
+  actual_count: '20',
+  actual_cash_total: '420.00',
+  actual_cash_count: '14',
+  actual_check_total: '1250.50',
+  actual_check_count: '6',
+  created_by: 'counter1',
+  closed_by: null,
+  closed_at: null,
+  created_at: '2026-03-01T15:00:00Z',
+  ...overrides
+});
+
+describe('validateBatch', () => {
+  it('should accept empty and valid expected totals', () => {
+    expect(validateBatch({}).isValid).toBe(true);
+    expect(validateBatch({
+      expectedCashTotal: 100.25,
+      expectedCashCount: 4,
+      expectedCheckTotal: 0,
+      expectedCheckCount: 0,
+      batchDate: '2026-03-01'
+    }).isValid).toBe(true);
+  });
+
+  it('should reject negative or non-numeric amounts and fractional counts', () => {
+    const result = validateBatch({
+      expectedCashTotal: -5,
+      expectedCheckTotal: '300',
+      expectedCashCount: 2.5,
+      batchDate: 'not-a-date'
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(4);
+  });
+});
+
+describe('mapBatch', () => {
+  it('should report a balanced batch', () => {
+    const batch = mapBatch(batchRow());
+
+    expect(batch.expectedTotal).toBe(1670.5);
+    expect(batch.expectedCount).toBe(20);
+    expect(batch.variance).toBe(0);
+    expect(batch.countVariance).toBe(0);
+    expect(batch.isBalanced).toBe(true);
+  });
+
+  it('should compute variance without floating point drift', () => {
+    const batch = mapBatch(batchRow({
+      expected_cash_total: '0.10',
+      expected_check_total: '0.20',
+      expected_cash_count: 1,
+      expected_check_count: 1,
+      actual_total: '0.30',
+      actual_count: '1'
+    }));
+
+    expect(batch.variance).toBe(0);
+    expect(batch.countVariance).toBe(-1);
+    expect(batch.isBalanced).toBe(false);
+  });
+
+  it('should break the variance down by cash and checks', () => {
+    const batch = mapBatch(batchRow({
+      actual_cash_total: '400.00',
+      actual_check_total: '1270.50'
+    }));
+
+    expect(batch.cashVariance).toBe(-20);
+    expect(batch.checkVariance).toBe(20);
+    expect(batch.variance).toBe(0);
+  });
+
+  it('should report a shortfall as negative variance', () => {
+    const batch = mapBatch(batchRow({ actual_total: '1650.50', actual_count: '19' }));
+
+    expect(batch.variance).toBe(-20);
+    expect(batch.countVariance).toBe(-1);
+  });
+});
+
+describe('checkBatchWritable', () => {
+  it('should allow anyone with access to write to an open batch', () => {
+    expect(checkBatchWritable({ id: 1, status: 'open' }, 'data_entry')).toBeNull();
+  });
+
+  it('should lock a closed batch for data entry', () => {
+    const error = checkBatchWritable({ id: 1, status: 'closed' }, 'data_entry');
+
+    expect(error.status).toBe(423);
+    expect(error.body.error).toBe('BATCH_LOCKED');
+  });
+
+  it('should let managers approve changes to a closed batch', () => {
+    expect(checkBatchWritable({ id: 1, status: 'closed' }, 'manager')).toBeNull();
+    expect(checkBatchWritable({ id: 1, status: 'closed' }, 'admin')).toBeNull();
+  });
+
+  it('should reject unknown batches', () => {
+    expect(checkBatchWritable(undefined, 'manager').status).toBe(400);
+  });
+});
+
+describe('checkBatchesWritable', () => {
+  it('should skip empty IDs without querying', async () => {
+    const db = { query: vi.fn() };
+
+    expect(await checkBatchesWritable(db, [null, undefined, ''], 'data_entry')).toBeNull();
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-numeric batch IDs', async () => {
+    const db = { query: vi.fn() };
+    const error = await checkBatchesWritable(db, ['abc'], 'data_entry');
+
+    expect(error.status).toBe(400);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('should check each distinct batch once', async () => {
+    const db = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: 3, status: 'open' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 4, status: 'closed' }] })
+    };
+
+    const error = await checkBatchesWritable(db, [3, '3', 4], 'data_entry');
+
+    expect(db.query).toHaveBeenCalledTimes(2);
+    expect(error.status).toBe(423);
+  });
+});
+
+describe('listBatches', () => {
+  it('should filter by status and paginate', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({ rows: [batchRow({ status: 'closed' })] })
+    };
+
+    const result = await listBatches(pool, { status: 'closed' });
+
+    expect(pool.query.mock.calls[1][0]).toContain('WHERE b.status = $1');
+    expect(pool.query.mock.calls[1][1]).toEqual(['closed', 20, 0]);
+    expect(result.data[0]).toMatchObject({ id: '12', status: 'closed', isBalanced: true });
+    expect(result.pagination.totalPages).toBe(1);
+  });
+
+  it('should ignore unknown status filters', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] })
+    };
+
+    await listBatches(pool, { status: "open'; DROP TABLE donations;--" });
+
+    expect(pool.query.mock.calls[0][1]).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Fund Budget Unit Tests
+ *
+ * Tests budget validation, how the year is spread over the months and the
+ * budget-vs-actual comparison with its year-to-date pacing.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateBudget,
+  spreadAnnualAmount,
+  resolveMonthlyAmounts,
+  elapsedMonths,
+  getBudgetVsActual,
+  buildBudgetReport
+} from '../budgets.js';
+
+const codes = (result) => result.errors.map(e => e.split(':')[0]);
+
+describe('validateBudget', () => {
+  it('should accept an even budget line', () => {
+    expect(validateBudget({ fund: 'Tithes', year: 2026, annualAmount: '120000' }).isValid).toBe(true);
+  });
+
+  it('should reject a missing fund, a bad year, amount or distribution', () => {
+    expect(codes(validateBudget({ fund: ' ', year: '26', annualAmount: -5, distribution: 'weekly' }))).toEqual([
+      'REQUIRED_FUND',
+      'INVALID_YEAR',
+      'INVALID_AMOUNT',
+      'INVALID_DISTRIBUTION'
+    ]);
+  });
+
+  it('should require twelve custom months that add up to the year', () => {
+    const input = { fund: 'Upkeep', year: 2026, annualAmount: 1200, distribution: 'custom' };
+
+    expect(codes(validateBudget({ ...input, monthlyAmounts: [100, 100] }))).toEqual(['INVALID_MONTHLY_AMOUNTS']);
+    expect(validateBudget({ ...input, monthlyAmounts: new Array(12).fill(90) }).errors[0]).toMatch(/add up/);
+    expect(validateBudget({ ...input, monthlyAmounts: [...new Array(11).fill(50), 650] }).isValid).toBe(true);
+  });
+});
+
+describe('spreadAnnualAmount', () => {
+  it('should split the year evenly with December taking the rounding', () => {
+    const months = spreadAnnualAmount(1000);
+
+    expect(months[0]).toBe(83.33);
+    expect(months[11]).toBe(83.37);
+    expect(Math.round(months.reduce((sum, m) => sum + m, 0) * 100)).toBe(100000);
+  });
+
+  it('should follow the weights when there are any', () => {
+    const weights = [2, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+    expect(spreadAnnualAmount(400, weights).slice(0, 4)).toEqual([200, 100, 100, 0]);
+  });
+});
+
+describe('resolveMonthlyAmounts', () => {
+  it('should spread a seasonal budget by last year\'s giving to the fund', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({ rows: [{ month: 12, total: '3000' }, { month: 6, total: '1000' }] })
+    };
+
+    const months = await resolveMonthlyAmounts(db, { fund: 'Benevolence', year: 2026, annualAmount: 8000, distribution: 'seasonal' });
+
+    expect(db.query.mock.calls[0][1]).toEqual(['Benevolence', 2026]);
+    expect(months[5]).toBe(2000);
+    expect(months[11]).toBe(6000);
+    expect(months[0]).toBe(0);
+  });
+
+  it('should fall back to even when the fund had no giving last year', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    const months = await resolveMonthlyAmounts(db, { fund: 'Revival', year: 2026, annualAmount: 1200, distribution: 'seasonal' });
+
+    expect(months).toEqual(new Array(12).fill(100));
+  });
+});
+
+describe('elapsedMonths', () => {
+  it('should count past months in full and the current month by days gone', () => {
+    const elapsed = elapsedMonths(2026, new Date('2026-04-15T00:00:00Z'));
+
+    expect(elapsed.slice(0, 5)).toEqual([1, 1, 1, 0.5, 0]);
+    expect(elapsedMonths(2025, new Date('2026-04-15T00:00:00Z'))).toEqual(new Array(12).fill(1));
+    expect(elapsedMonths(2027, new Date('2026-04-15T00:00:00Z'))).toEqual(new Array(12).fill(0));
+  });
+});
+
+describe('getBudgetVsActual', () => {
+  const mockDb = () => ({
+    query: vi.fn(async (sql) => {
+      if (sql.includes('FROM fund_budgets')) {
+        return {
+          rows: [{
+            id: 1,
+            fund_name: 'Tithes',
+            budget_year: 2026,
+            annual_amount: '12000.00',
+            distribution: 'even',
+            monthly_amounts: new Array(12).fill('1000.00')
+          }]
+        };
+      }
+      return {
+        rows: [
+          { fund: 'Tithes', month: 1, total: '1200.00' },
+          { fund: 'Tithes', month: 2, total: '900.00' },
+          { fund: 'Tithes', month: 3, total: '400.00' }
+        ]
+      };
+    })
+  });
+
+  it('should compare year-to-date giving with the budget so far', async () => {
+    const db = mockDb();
+
+    const result = await getBudgetVsActual(db, '2026', { asOf: new Date('2026-03-31T00:00:00Z') });
+
+    expect(db.query.mock.calls[1][1]).toEqual([2026, ['Tithes']]);
+    expect(result.funds[0]).toMatchObject({
+      fund: 'Tithes',
+      annualBudget: 12000,
+      ytdBudget: 3000,
+      ytdActual: 2500,
+      variance: -500,
+      pacePercent: 83.3,
+      projected: 9996,
+      remaining: 9500
+    });
+    expect(result.funds[0].months[0]).toEqual({ month: 1, label: 'Jan', budget: 1000, actual: 1200, variance: 200 });
+    expect(result.totals.ytdActual).toBe(2500);
+  });
+
+  it('should build report rows with a total line', async () => {
+    const data = await getBudgetVsActual(mockDb(), 2026, { asOf: new Date('2026-03-31T00:00:00Z') });
+
+    const report = buildBudgetReport(data);
+
+    expect(report.title).toBe('Budget vs. Actual (2026)');
+    expect(report.rows.map(row => row.fund)).toEqual(['Tithes', 'Total']);
+    expect(report.columns.find(c => c.key === 'pacePercent').type).toBe('percent');
+  });
+});
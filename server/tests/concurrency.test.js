@@ -0,0 +1,74 @@
+/**
+ * Optimistic Concurrency Unit Tests
+ *
+ * Tests reading If-Match versions, the conflict body returned when an edit
+ * was made against an older copy, and matching retried donation posts to
+ * the gift their Idempotency-Key recorded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseIfMatch, formatETag, versionConflict, parseIdempotencyKey, isSameDonationRequest } from '../concurrency.js';
+
+describe('parseIfMatch', () => {
+  it('should read quoted, weak and bare versions', () => {
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch('W/"12"')).toBe(12);
+    expect(parseIfMatch(' 4 ')).toBe(4);
+  });
+
+  it('should skip the check when the header is missing or a wildcard', () => {
+    expect(parseIfMatch(undefined)).toBeNull();
+    expect(parseIfMatch('')).toBeNull();
+    expect(parseIfMatch('*')).toBeNull();
+  });
+
+  it('should flag anything else as malformed', () => {
+    expect(parseIfMatch('"abc"')).toBeUndefined();
+    expect(parseIfMatch('"3", "4"')).toBeUndefined();
+    expect(parseIfMatch('-1')).toBeUndefined();
+  });
+
+  it('should round-trip the ETag it sends', () => {
+    expect(parseIfMatch(formatETag(7))).toBe(7);
+  });
+});
+
+describe('versionConflict', () => {
+  it('should name both versions and carry the current copy', () => {
+    const current = { id: 'm-1', first_name: 'Ruth', version: 5 };
+    const body = versionConflict('member', current, 3);
+
+    expect(body.error).toBe('VERSION_CONFLICT');
+    expect(body.details[0]).toBe('VERSION_CONFLICT: This member was changed by someone else (version 3 was edited, version 5 is current)');
+    expect(body.current).toBe(current);
+  });
+});
+
+describe('parseIdempotencyKey', () => {
+  it('should accept client-generated ids and skip missing headers', () => {
+    expect(parseIdempotencyKey('3f2b8c1e-5a4d-4e6f-9b7a-0c1d2e3f4a5b')).toBe('3f2b8c1e-5a4d-4e6f-9b7a-0c1d2e3f4a5b');
+    expect(parseIdempotencyKey(undefined)).toBeNull();
+    expect(parseIdempotencyKey(' ')).toBeNull();
+  });
+
+  it('should flag short keys and unexpected characters', () => {
+    expect(parseIdempotencyKey('abc')).toBeUndefined();
+    expect(parseIdempotencyKey('key with spaces')).toBeUndefined();
+    expect(parseIdempotencyKey('x'.repeat(101))).toBeUndefined();
+  });
+});
+
+describe('isSameDonationRequest', () => {
+  const row = { entered_by: 'counter1', member_id: 'm-1', amount: '42.25' };
+
+  it('should match a retry of the same gift by the same user', () => {
+    expect(isSameDonationRequest(row, { memberId: 'm-1', amount: 42.25, username: 'counter1' })).toBe(true);
+    expect(isSameDonationRequest({ ...row, member_id: null }, { memberId: null, amount: 42.25, username: 'counter1' })).toBe(true);
+  });
+
+  it('should refuse a key reused by someone else or for another gift', () => {
+    expect(isSameDonationRequest(row, { memberId: 'm-1', amount: 42.25, username: 'counter2' })).toBe(false);
+    expect(isSameDonationRequest(row, { memberId: 'm-2', amount: 42.25, username: 'counter1' })).toBe(false);
+    expect(isSameDonationRequest(row, { memberId: 'm-1', amount: 10, username: 'counter1' })).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Disbursement Unit Tests
+ *
+ * Tests request validation, attachments, the approval rules and how fund
+ * balances and activity statements add up.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateDisbursement,
+  validateAttachment,
+  checkDecision,
+  getFundBalances,
+  getFundActivity
+} from '../disbursements.js';
+
+const codes = (result) => result.errors.map(e => e.split(':')[0]);
+
+describe('validateDisbursement', () => {
+  it('should accept a complete request', () => {
+    expect(validateDisbursement({ payee: 'City Water', amount: '84.20', fund: 'Building', date: '2026-03-02' }).isValid).toBe(true);
+  });
+
+  it('should reject a missing payee and fund, a zero amount and a bad date', () => {
+    expect(codes(validateDisbursement({ payee: ' ', amount: 0, fund: '', date: '03/02/2026' }))).toEqual([
+      'REQUIRED_PAYEE',
+      'INVALID_AMOUNT',
+      'REQUIRED_FUND',
+      'INVALID_DATE'
+    ]);
+  });
+
+  it('should limit the payee and memo length', () => {
+    const input = { payee: 'x'.repeat(201), amount: 10, fund: 'General', date: '2026-03-02', memo: 'y'.repeat(1001) };
+
+    expect(codes(validateDisbursement(input))).toEqual(['INVALID_PAYEE_LENGTH', 'INVALID_MEMO_LENGTH']);
+  });
+});
+
+describe('validateAttachment', () => {
+  it('should decode a base64 PDF', () => {
+    const result = validateAttachment({
+      filename: 'invoice.pdf',
+      contentType: 'application/pdf',
+      content: Buffer.from('%PDF-1.4').toString('base64')
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.content.toString()).toBe('%PDF-1.4');
+  });
+
+  it('should reject other file types and content that is not base64', () => {
+    const result = validateAttachment({ filename: 'notes.txt', contentType: 'text/plain', content: 'not base64!' });
+
+    expect(codes(result)).toEqual(['INVALID_ATTACHMENT_TYPE', 'INVALID_ATTACHMENT']);
+    expect(result.content).toBeNull();
+  });
+});
+
+describe('checkDecision', () => {
+  const pending = { status: 'pending', requestedById: 7 };
+  const manager = { id: 3, role: 'manager' };
+
+  it('should allow someone else to approve a pending request', () => {
+    expect(checkDecision(pending, 'approve', manager)).toBeNull();
+  });
+
+  it('should not let requesters approve their own request', () => {
+    expect(checkDecision(pending, 'approve', { id: 7, role: 'manager' })).toMatchObject({ status: 403, error: 'SELF_APPROVAL' });
+  });
+
+  it('should require a reason to reject or void', () => {
+    expect(checkDecision(pending, 'reject', manager, ' ')).toMatchObject({ status: 400, details: [expect.stringMatching(/^REQUIRED_NOTE/)] });
+    expect(checkDecision(pending, 'reject', manager, 'Duplicate invoice')).toBeNull();
+  });
+
+  it('should only void approved disbursements', () => {
+    expect(checkDecision(pending, 'void', manager, 'Check lost')).toEqual({
+      status: 409,
+      error: 'INVALID_STATUS',
+      details: ['Only approved disbursements can be voided']
+    });
+    expect(checkDecision({ ...pending, status: 'approved' }, 'void', manager, 'Check lost')).toBeNull();
+    expect(checkDecision(pending, 'pay', manager).details[0]).toMatch(/^INVALID_DECISION/);
+  });
+});
+
+describe('getFundBalances', () => {
+  it('should subtract approved disbursements from receipts', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [
+          { fund: 'General', is_active: true, receipts: '1500.10', disbursed: '400.05', pending: '25.00' },
+          { fund: 'Old Roof', is_active: false, receipts: '0', disbursed: '0', pending: '0' }
+        ]
+      })
+    };
+
+    const balances = await getFundBalances(db, { asOf: '2026-06-30' });
+
+    expect(db.query.mock.calls[0][1]).toEqual(['2026-06-30']);
+    expect(balances).toEqual([
+      { fund: 'General', isActive: true, receipts: 1500.1, disbursed: 400.05, pending: 25, balance: 1100.05 }
+    ]);
+  });
+});
+
+describe('getFundActivity', () => {
+  it('should carry the opening balance through to the closing balance', async () => {
+    const db = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ receipts: '1000.00', disbursed: '250.00' }] })
+        .mockResolvedValueOnce({ rows: [{ month: '2026-01', count: '3', total: '300.00' }, { month: '2026-02', count: '1', total: '50.00' }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 4, payee: 'Food Bank', amount: '120.00', fund: 'Benevolence', disbursement_date: '2026-02-10', status: 'approved' }]
+        })
+    };
+
+    const activity = await getFundActivity(db, 'Benevolence', { startDate: '2026-01-01', endDate: '2026-02-28' });
+
+    expect(db.query.mock.calls[1][1]).toEqual(['Benevolence', '2026-01-01', '2026-02-28']);
+    expect(activity).toMatchObject({
+      openingBalance: 750,
+      totalReceipts: 350,
+      totalDisbursements: 120,
+      closingBalance: 980
+    });
+    expect(activity.disbursements[0]).toMatchObject({ payee: 'Food Bank', date: '2026-02-10' });
+  });
+});
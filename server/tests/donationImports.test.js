@@ -0,0 +1,180 @@
+/**
+ * Donation Import Unit Tests
+ *
+ * Tests provider mappings, amount/date parsing, fund resolution and the
+ * member matching and dedupe done when planning an import.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  suggestDonationMapping,
+  parseImportAmount,
+  parseImportDate,
+  normalizePaymentMethod,
+  splitPayerName,
+  mapDonationRecord,
+  resolveFund,
+  planDonationImport,
+  mapImportRow
+} from '../donationImports.js';
+import { parseCsv } from '../imports.js';
+
+describe('suggestDonationMapping', () => {
+  it('should prefer the provider profile spellings', () => {
+    const headers = ['Posting Date', 'Description', 'Credit', 'Reference Number'];
+
+    expect(suggestDonationMapping(headers, 'bank')).toEqual({
+      externalId: 'Reference Number',
+      date: 'Posting Date',
+      amount: 'Credit',
+      payerName: 'Description'
+    });
+  });
+
+  it('should fall back to the generic profile for unknown providers', () => {
+    expect(suggestDonationMapping(['Date', 'Amount', 'Email'], 'unknown')).toEqual({
+      date: 'Date',
+      amount: 'Amount',
+      email: 'Email'
+    });
+  });
+});
+
+describe('parsing helpers', () => {
+  it('should parse currency amounts and reject refunds', () => {
+    expect(parseImportAmount('$1,234.50')).toBe(1234.5);
+    expect(parseImportAmount('25')).toBe(25);
+    expect(parseImportAmount('-25.00')).toBeNull();
+    expect(parseImportAmount('(25.00)')).toBeNull();
+    expect(parseImportAmount('0')).toBeNull();
+    expect(parseImportAmount('n/a')).toBeNull();
+  });
+
+  it('should parse ISO and US dates', () => {
+    expect(parseImportDate('2026-03-01')).toBe('2026-03-01');
+    expect(parseImportDate('2026-03-01T14:22:00Z')).toBe('2026-03-01');
+    expect(parseImportDate('3/1/2026')).toBe('2026-03-01');
+    expect(parseImportDate('03/01/26')).toBe('2026-03-01');
+    expect(parseImportDate('2/30/2026')).toBeNull();
+    expect(parseImportDate('March 1')).toBeNull();
+  });
+
+  it('should map provider payment labels', () => {
+    expect(normalizePaymentMethod('Visa', 'online')).toBe('card');
+    expect(normalizePaymentMethod('Bank Transfer', 'online')).toBe('ach');
+    expect(normalizePaymentMethod('', 'ach')).toBe('ach');
+    expect(normalizePaymentMethod('Crypto', 'online')).toBe('online');
+  });
+
+  it('should split payer names in either order', () => {
+    expect(splitPayerName('Smith, John')).toEqual({ firstName: 'John', lastName: 'Smith' });
+    expect(splitPayerName('Mary Ann  Jones')).toEqual({ firstName: 'Mary Ann', lastName: 'Jones' });
+    expect(splitPayerName('ACME')).toEqual({ firstName: null, lastName: 'ACME' });
+  });
+});
+
+describe('mapDonationRecord', () => {
+  it('should report unreadable amounts and dates', () => {
+    const row = mapDonationRecord({ Date: 'soon', Amount: 'free' }, { date: 'Date', amount: 'Amount' }, 'generic');
+
+    expect(row.errors.map(e => e.split(':')[0])).toEqual(['INVALID_AMOUNT', 'INVALID_DATE']);
+    expect(row.paymentMethod).toBe('online');
+  });
+});
+
+describe('resolveFund', () => {
+  const rules = [
+    { provider: null, match_value: 'General Giving', fund: 'Offering' },
+    { provider: 'tithely', match_value: 'general giving', fund: 'Tithes' }
+  ];
+
+  it('should prefer provider rules, then global rules, then known funds', () => {
+    expect(resolveFund('General Giving', rules, [], 'tithely')).toBe('Tithes');
+    expect(resolveFund('GENERAL GIVING', rules, [], 'pushpay')).toBe('Offering');
+    expect(resolveFund('upkeep', rules, ['Tithes', 'Upkeep'], 'pushpay')).toBe('Upkeep');
+    expect(resolveFund('Missions Trip', rules, ['Tithes'], 'pushpay')).toBeNull();
+    expect(resolveFund(null, rules, ['Tithes'], 'pushpay')).toBeNull();
+  });
+});
+
+describe('planDonationImport', () => {
+  const mockDb = ({ imported = [], members = [], rules = [], funds = ['Tithes'] } = {}) => ({
+    query: vi.fn(async (sql) => {
+      if (sql.includes('external_id FROM donations')) return { rows: imported.map(id => ({ external_id: id })) };
+      if (sql.includes('FROM members')) return { rows: members };
+      if (sql.includes('fund_mapping_rules')) return { rows: rules };
+      if (sql.includes('FROM funds')) return { rows: funds.map(name => ({ name })) };
+      return { rows: [] };
+    })
+  });
+
+  const CSV = [
+    'Transaction ID,Date,Name,Email,Amount,Fund',
+    'T1,2026-03-01,John Smith,JOHN@example.com,100.00,Tithes',
+    'T2,2026-03-01,"Jones, Mary",,50.00,Tithes',
+    'T3,2026-03-01,Pat Doe,,20.00,Tithes',
+    'T4,2026-03-01,John Smith,john@example.com,10.00,Missions',
+    'T1,2026-03-01,John Smith,john@example.com,100.00,Tithes',
+    'T5,2026-03-01,John Smith,john@example.com,-5.00,Tithes',
+    'T0,2026-02-01,John Smith,john@example.com,75.00,Tithes'
+  ].join('\n');
+
+  it('should match members, resolve funds and dedupe transaction IDs', async () => {
+    const db = mockDb({
+      imported: ['T0'],
+      members: [
+        { id: 'm-1', first_name: 'John', last_name: 'Smith', email: 'john@example.com' },
+        { id: 'm-2', first_name: 'Mary', last_name: 'Jones', email: null },
+        { id: 'm-3', first_name: 'Pat', last_name: 'Doe', email: null },
+        { id: 'm-4', first_name: 'Pat', last_name: 'Doe', email: 'pat@example.com' }
+      ]
+    });
+    const { headers, records } = parseCsv(CSV);
+
+    const plan = await planDonationImport(db, records, suggestDonationMapping(headers, 'generic'), 'generic');
+
+    expect(plan.rows.map(r => r.status)).toEqual([
+      'ready', 'ready', 'pending', 'pending', 'duplicate', 'error', 'duplicate'
+    ]);
+    expect(plan.rows[0]).toMatchObject({ memberId: 'm-1', matchType: 'email', fund: 'Tithes', externalId: 'T1' });
+    expect(plan.rows[1]).toMatchObject({ memberId: 'm-2', matchType: 'name' });
+    expect(plan.rows[2].reviewReasons).toEqual(['member']);
+    expect(plan.rows[2].candidates.map(c => c.id)).toEqual(['m-3', 'm-4']);
+    expect(plan.rows[3].reviewReasons).toEqual(['fund']);
+    expect(plan.rows[4].duplicateOf).toBe(2);
+    expect(plan.rows[6].duplicateOf).toBe('imported');
+    expect(plan.summary).toEqual({ total: 7, ready: 2, pending: 2, duplicate: 2, error: 1 });
+
+    const dedupeCall = db.query.mock.calls.find(([sql]) => sql.includes('external_id FROM donations'));
+    expect(dedupeCall[1]).toEqual(['generic', ['T1', 'T2', 'T3', 'T4', 'T5', 'T0']]);
+  });
+
+  it('should skip the dedupe and member lookups when there is nothing to look up', async () => {
+    const db = mockDb();
+    const { records } = parseCsv('Date,Amount\n2026-03-01,10');
+
+    const plan = await planDonationImport(db, records, { date: 'Date', amount: 'Amount' }, 'bank');
+
+    expect(plan.rows[0]).toMatchObject({ status: 'pending', paymentMethod: 'ach', reviewReasons: ['member', 'fund'] });
+    expect(db.query).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('mapImportRow', () => {
+  it('should map a review queue row', () => {
+    const row = mapImportRow({
+      id: 7,
+      import_id: 3,
+      line: 4,
+      status: 'pending',
+      amount: '20.00',
+      donation_date: '2026-03-01',
+      first_name: null,
+      review_reasons: ['member'],
+      errors: [],
+      donation_id: null
+    });
+
+    expect(row).toMatchObject({ id: '7', importId: '3', amount: 20, memberName: null, reviewReasons: ['member'] });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Donation Payment Unit Tests
+ *
+ * Tests payment method validation, row mapping and duplicate check
+ * number detection.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { validateDonationPayment, PAYMENT_METHODS } from '../validation.js';
+import { mapDonationRow, donationTotalsRow, findDuplicateCheckNumbers } from '../donations.js';
+
+describe('validateDonationPayment', () => {
+  it('should accept every supported method', () => {
+    PAYMENT_METHODS.filter(m => m !== 'check').forEach(paymentMethod => {
+      expect(validateDonationPayment({ paymentMethod }).isValid).toBe(true);
+    });
+    expect(validateDonationPayment({ paymentMethod: 'check', checkNumber: '1043' }).isValid).toBe(true);
+  });
+
+  it('should reject unknown methods', () => {
+    const result = validateDonationPayment({ paymentMethod: 'bitcoin' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain('INVALID_PAYMENT_METHOD');
+  });
+
+  it('should require a well-formed check number for checks', () => {
+    expect(validateDonationPayment({ paymentMethod: 'check' }).errors[0]).toContain('REQUIRED_CHECK_NUMBER');
+    expect(validateDonationPayment({ paymentMethod: 'check', checkNumber: '10 43' }).errors[0]).toContain('INVALID_CHECK_NUMBER');
+  });
+
+  it('should reject a check number on non-check payments', () => {
+    const result = validateDonationPayment({ paymentMethod: 'cash', checkNumber: '1043' });
+
+    expect(result.errors[0]).toContain('CHECK_NUMBER_NOT_ALLOWED');
+  });
+
+  it('should allow legacy gifts without a method', () => {
+    expect(validateDonationPayment({ paymentMethod: null, paymentReference: 'memo' }).isValid).toBe(true);
+  });
+
+  it('should limit reference length', () => {
+    const result = validateDonationPayment({ paymentMethod: 'online', paymentReference: 'x'.repeat(101) });
+
+    expect(result.errors[0]).toContain('INVALID_REFERENCE_LENGTH');
+  });
+});
+
+describe('mapDonationRow', () => {
+  it('should map payment fields to camelCase', () => {
+    const donation = mapDonationRow({
+      id: 9,
+      member_id: 'm1',
+      amount: '25.00',
+      fund: 'Tithes',
+      notes: null,
+      entered_by: 'counter1',
+      donation_date: '2026-03-01',
+      batch_id: 4,
+      payment_method: 'check',
+      check_number: '1043',
+      payment_reference: null
+    });
+
+    expect(donation).toMatchObject({
+      id: '9',
+      amount: 25,
+      batchId: '4',
+      paymentMethod: 'check',
+      checkNumber: '1043',
+      paymentReference: null
+    });
+  });
+});
+
+describe('donationTotalsRow', () => {
+  it('should keep only the fields needed to adjust totals', () => {
+    expect(donationTotalsRow({
+      id: 9,
+      member_id: 'm1',
+      amount: '25.00',
+      fund: 'Tithes',
+      notes: 'Private note',
+      donation_date: '2026-03-01'
+    })).toEqual({ id: 9, amount: '25.00', fund: 'Tithes', donation_date: '2026-03-01' });
+  });
+});
+
+describe('findDuplicateCheckNumbers', () => {
+  it('should skip guests and gifts without a check number', async () => {
+    const db = { query: vi.fn() };
+
+    expect(await findDuplicateCheckNumbers(db, { memberId: null, checkNumber: '1043' })).toEqual([]);
+    expect(await findDuplicateCheckNumbers(db, { memberId: 'm1', checkNumber: null })).toEqual([]);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('should look up the member and check number, excluding the edited gift', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ id: 3 }] }) };
+
+    const rows = await findDuplicateCheckNumbers(db, { memberId: 'm1', checkNumber: ' 1043 ', excludeId: '9' });
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('id <> $3');
+    expect(params).toEqual(['m1', '1043', '9']);
+    expect(rows).toEqual([{ id: 3 }]);
+  });
+});
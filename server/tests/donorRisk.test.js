@@ -0,0 +1,162 @@
+/**
+ * At-Risk Donor Model Unit Tests
+ *
+ * Tests cadence detection, the giving calendar, scoring and explanations,
+ * threshold validation and the paginated watchlist.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_THRESHOLDS,
+  validateRiskThresholds,
+  detectCadence,
+  givingCalendar,
+  assessDonor,
+  listAtRiskDonors
+} from '../donorRisk.js';
+
+const monthlyGifts = (months, day = '05') =>
+  months.map(m => ({ date: `2026-${String(m).padStart(2, '0')}-${day}`, amount: '100.00' }));
+
+describe('validateRiskThresholds', () => {
+  it('should accept a partial update within range', () => {
+    expect(validateRiskThresholds({ riskAlertScore: 80 }).isValid).toBe(true);
+  });
+
+  it('should reject out-of-range values and a watch score above the alert score', () => {
+    expect(validateRiskThresholds({ riskMinGifts: 1, riskLookbackMonths: 2.5 }).errors.map(e => e.split(':')[0]))
+      .toEqual(['INVALID_RISK_THRESHOLD', 'INVALID_RISK_THRESHOLD']);
+    expect(validateRiskThresholds({ riskWatchScore: 75 }, DEFAULT_THRESHOLDS).errors[0])
+      .toMatch(/^INVALID_RISK_RANGE/);
+  });
+});
+
+describe('detectCadence', () => {
+  it('should classify donors by the median gap between gifts', () => {
+    expect(detectCadence(['2026-03-01', '2026-03-08', '2026-03-15', '2026-03-29'])).toBe('weekly');
+    expect(detectCadence(['2026-01-05', '2026-02-05', '2026-03-05'])).toBe('monthly');
+    expect(detectCadence(['2025-01-01', '2025-12-24', '2026-12-24'])).toBe('seasonal');
+  });
+
+  it('should need at least three gift days', () => {
+    expect(detectCadence(['2026-01-05', '2026-02-05'])).toBeNull();
+  });
+});
+
+describe('givingCalendar', () => {
+  it('should list skipped months up to the last completed one', () => {
+    const periods = givingCalendar(monthlyGifts([1, 2, 4]), 'monthly', '2026-05-20');
+
+    expect(periods).toEqual([
+      { start: '2026-01-01', amount: 100, given: true },
+      { start: '2026-02-01', amount: 100, given: true },
+      { start: '2026-03-01', amount: 0, given: false },
+      { start: '2026-04-01', amount: 100, given: true }
+    ]);
+  });
+});
+
+describe('assessDonor', () => {
+  it('should explain a monthly donor who stopped giving', () => {
+    const result = assessDonor(monthlyGifts([1, 2, 3, 4, 5, 6]), DEFAULT_THRESHOLDS, { asOf: '2026-10-19' });
+
+    expect(result).toMatchObject({
+      cadence: 'monthly',
+      basis: 'history',
+      missedPeriods: 3,
+      windowPeriods: 4,
+      lapseStreak: 3,
+      level: 'at_risk',
+      explanation: 'Missed 3 of the last 4 monthly gifts; nothing given since 2026-06-05.'
+    });
+  });
+
+  it('should treat Christmas and Easter donors as seasonal, not as skipping quarters', () => {
+    const gifts = [
+      { date: '2024-12-20', amount: 500 },
+      { date: '2025-04-18', amount: 300 },
+      { date: '2025-12-22', amount: 500 },
+      { date: '2026-04-05', amount: 300 }
+    ];
+
+    const result = assessDonor(gifts, DEFAULT_THRESHOLDS, { asOf: '2026-10-19' });
+
+    expect(result.cadence).toBe('seasonal');
+    expect(result.level).toBeNull();
+  });
+
+  it('should flag a drop in amount alongside missed periods', () => {
+    const gifts = [...monthlyGifts([1, 2, 3, 4, 5]), { date: '2026-06-05', amount: 30 }, { date: '2026-08-05', amount: 30 }];
+
+    const result = assessDonor(gifts, DEFAULT_THRESHOLDS, { asOf: '2026-10-19' });
+
+    expect(result.dropPercent).toBe(70);
+    expect(result.explanation).toBe('Missed 2 of the last 4 monthly gifts; recent gifts 70% below usual.');
+    expect(result.level).toBe('watch');
+  });
+
+  it('should score members with a recurring gift against their installments', () => {
+    const installments = ['received', 'received', 'missed', 'missed'].map((status, i) => ({
+      dueDate: `2026-0${i + 5}-01`,
+      status,
+      amount: '200.00',
+      frequency: 'monthly'
+    }));
+
+    const result = assessDonor(monthlyGifts([5, 6]), DEFAULT_THRESHOLDS, { asOf: '2026-10-19', installments });
+
+    expect(result).toMatchObject({ basis: 'schedule', cadence: 'monthly', missedPeriods: 2, level: 'watch' });
+    expect(result.explanation).toMatch(/^Missed 2 of the last 4 scheduled monthly gifts/);
+  });
+
+  it('should skip donors with too few gifts', () => {
+    expect(assessDonor(monthlyGifts([1, 2, 3]), DEFAULT_THRESHOLDS, { asOf: '2026-10-19' })).toBeNull();
+  });
+});
+
+describe('listAtRiskDonors', () => {
+  const giftRows = (memberId, name, months) =>
+    monthlyGifts(months).map(g => ({
+      member_id: memberId,
+      first_name: name,
+      last_name: 'Doe',
+      email: null,
+      gift_date: g.date,
+      amount: g.amount
+    }));
+
+  const mockPool = (contacts = []) => ({
+    query: vi.fn(async (sql) => {
+      if (sql.includes('FROM settings')) return { rows: [{ risk_watch_score: 40, risk_alert_score: 70 }] };
+      if (sql.includes('FROM donations')) {
+        return {
+          rows: [
+            ...giftRows('m-1', 'Ann', [1, 2, 3, 4, 5, 6]),
+            ...giftRows('m-2', 'Ben', [1, 2, 3, 4, 5, 6, 7, 8, 9]),
+            ...giftRows('m-3', 'Cal', [1, 2, 3, 4, 5, 6, 7])
+          ]
+        };
+      }
+      if (sql.includes('FROM donor_contacts')) return { rows: contacts };
+      return { rows: [] };
+    })
+  });
+
+  it('should return flagged donors highest score first with pagination', async () => {
+    const result = await listAtRiskDonors(mockPool(), { asOf: '2026-10-19', limit: 1 });
+
+    expect(result.pagination).toEqual({ total: 2, page: 1, limit: 1, totalPages: 2 });
+    expect(result.data[0]).toMatchObject({ memberId: 'm-1', name: 'Ann Doe', level: 'at_risk', contacted: false });
+  });
+
+  it('should hide donors contacted within the snooze period unless asked', async () => {
+    const contacts = [{ id: 9, member_id: 'm-1', note: 'Called, traveling', contacted_by: 'pastor', contacted_at: '2026-10-10T15:00:00Z' }];
+
+    const hidden = await listAtRiskDonors(mockPool(contacts), { asOf: '2026-10-19' });
+    const shown = await listAtRiskDonors(mockPool(contacts), { asOf: '2026-10-19', includeContacted: true });
+
+    expect(hidden.data.map(d => d.memberId)).toEqual(['m-3']);
+    expect(shown.data[0].lastContact).toMatchObject({ note: 'Called, traveling', contactedBy: 'pastor' });
+    expect(shown.data[0].contacted).toBe(true);
+  });
+});
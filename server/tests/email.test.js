@@ -0,0 +1,195 @@
+/**
+ * Email Delivery Unit Tests
+ *
+ * Tests template rendering, the send log, delivery with retries and the
+ * mail transports.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  renderTemplate,
+  validateEmailTemplate,
+  listEmailTemplates,
+  queueEmailMessages,
+  deliverEmailMessage,
+  requeueFailedMessages,
+  collectPdf
+} from '../email.js';
+import { createMailTransport } from '../mailer.js';
+import { generateGiftReceiptPDF } from '../reports/memberReport.js';
+
+describe('renderTemplate', () => {
+  it('should fill merge fields and leave unknown ones as written', () => {
+    expect(renderTemplate('Dear {firstName}, thank you for {amount}. {typo}', { firstName: 'Ann', amount: '$50.00' }))
+      .toBe('Dear Ann, thank you for $50.00. {typo}');
+  });
+});
+
+describe('validateEmailTemplate', () => {
+  it('should require a subject and body', () => {
+    expect(validateEmailTemplate({ subject: ' ', body: '' }).errors.map(e => e.split(':')[0]))
+      .toEqual(['REQUIRED_SUBJECT', 'REQUIRED_BODY']);
+    expect(validateEmailTemplate({ subject: 'x'.repeat(201), body: 'Hi' }).errors[0]).toMatch(/^INVALID_SUBJECT_LENGTH/);
+    expect(validateEmailTemplate({ subject: 'Hi', body: 'There' }).isValid).toBe(true);
+  });
+});
+
+describe('listEmailTemplates', () => {
+  it('should fall back to the built-in default for templates never edited', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ template_key: 'receipt', subject: 'Thanks!', body: 'Bless you', updated_by: 'admin' }]
+      })
+    };
+
+    const [statement, receipt] = await listEmailTemplates(db);
+
+    expect(statement).toMatchObject({ key: 'statement', isDefault: true });
+    expect(statement.subject).toContain('{year}');
+    expect(receipt).toMatchObject({ key: 'receipt', subject: 'Thanks!', isDefault: false, updatedBy: 'admin' });
+    expect(receipt.mergeFields).toContain('amount');
+  });
+});
+
+describe('queueEmailMessages', () => {
+  it('should render the template for each recipient in one insert', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ id: 1 }, { id: 2 }] }) };
+    const template = { key: 'statement', subject: '{year} statement', body: 'Dear {firstName}' };
+
+    await queueEmailMessages(db, {
+      template,
+      jobId: 9,
+      createdBy: 'admin',
+      recipients: [
+        { memberId: 'm-1', email: 'ann@example.com', fields: { firstName: 'Ann', year: '2025' }, attachment: { type: 'statement', memberId: 'm-1', year: 2025 } },
+        { memberId: 'm-2', email: 'bo@example.com', fields: { firstName: 'Bo', year: '2025' } }
+      ]
+    });
+
+    const params = db.query.mock.calls[0][1];
+    expect(params.slice(0, 3)).toEqual([9, 'statement', 'admin']);
+    expect(params[5]).toEqual(['ann@example.com', 'bo@example.com']);
+    expect(params[6]).toEqual(['2025 statement', '2025 statement']);
+    expect(params[7]).toEqual(['Dear Ann', 'Dear Bo']);
+    expect(params[8]).toEqual(['{"type":"statement","memberId":"m-1","year":2025}', null]);
+  });
+
+  it('should not query when there are no recipients', async () => {
+    const db = { query: vi.fn() };
+    expect(await queueEmailMessages(db, { template: {}, recipients: [] })).toEqual([]);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('deliverEmailMessage', () => {
+  const queued = { id: 5, recipient_email: 'ann@example.com', subject: 'Hi', body: 'Thanks', attachments: null };
+  const mockDb = () => ({
+    query: vi.fn(async (sql, params) => {
+      if (sql.includes("status = 'sending'")) return { rows: [queued] };
+      if (sql.includes("status = 'sent'")) return { rows: [{ ...queued, status: 'sent', attempts: params[1] }] };
+      return { rows: [{ ...queued, status: 'failed', attempts: params[1], last_error: params[2] }] };
+    })
+  });
+  const options = { from: 'office@church.org', retryDelayMs: 0, buildAttachments: async () => [] };
+
+  it('should skip a message another sender already claimed', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+    const transport = { send: vi.fn() };
+
+    expect(await deliverEmailMessage(db, transport, 5, options)).toBeNull();
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('should retry transport errors and record the attempt that succeeded', async () => {
+    const db = mockDb();
+    const transport = {
+      send: vi.fn()
+        .mockRejectedValueOnce(new Error('Connection timeout'))
+        .mockResolvedValueOnce({ messageId: '<abc@church.org>' })
+    };
+
+    const row = await deliverEmailMessage(db, transport, 5, options);
+
+    expect(row.status).toBe('sent');
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect(transport.send.mock.calls[0][0]).toMatchObject({ from: 'office@church.org', to: 'ann@example.com', subject: 'Hi' });
+    expect(db.query.mock.calls[1][1]).toEqual([5, 2, '<abc@church.org>']);
+  });
+
+  it('should mark the message failed with the last error after every attempt fails', async () => {
+    const db = mockDb();
+    const transport = { send: vi.fn().mockRejectedValue(new Error('550 Mailbox unavailable')) };
+
+    const row = await deliverEmailMessage(db, transport, 5, { ...options, maxAttempts: 3 });
+
+    expect(transport.send).toHaveBeenCalledTimes(3);
+    expect(row).toMatchObject({ status: 'failed', attempts: 3, last_error: '550 Mailbox unavailable' });
+  });
+
+  it('should fail without sending when no sender address is configured', async () => {
+    const db = mockDb();
+    const transport = { send: vi.fn() };
+
+    const row = await deliverEmailMessage(db, transport, 5, { ...options, from: null });
+
+    expect(transport.send).not.toHaveBeenCalled();
+    expect(row.status).toBe('failed');
+    expect(row.last_error).toMatch(/MAIL_FROM/);
+  });
+});
+
+describe('requeueFailedMessages', () => {
+  it('should requeue only the failed messages of a job', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ id: 3 }, { id: 4 }] }) };
+
+    expect(await requeueFailedMessages(db, { jobId: '2' })).toEqual([3, 4]);
+    expect(db.query.mock.calls[0][0]).toContain("job_id = $1 AND status = 'failed'");
+    expect(db.query.mock.calls[0][1]).toEqual(['2']);
+  });
+});
+
+describe('createMailTransport', () => {
+  it('should use SMTP when a host is configured and the console otherwise', () => {
+    expect(createMailTransport({}).name).toBe('console');
+    expect(createMailTransport({ SMTP_HOST: 'smtp.example.com' }).name).toBe('smtp');
+  });
+
+  it('should reject a missing SMTP host or an unknown transport', () => {
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow(/SMTP_HOST/);
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'pigeon' })).toThrow(/Unknown MAIL_TRANSPORT/);
+  });
+
+  it('should write each message to the outbox directory with the file transport', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-'));
+    try {
+      const transport = createMailTransport({ MAIL_TRANSPORT: 'file', MAIL_FILE_DIR: dir });
+      const info = await transport.send({
+        from: 'office@church.org',
+        to: 'ann@example.com',
+        subject: 'Your receipt',
+        text: 'Thank you',
+        attachments: [{ filename: 'receipt-1.pdf', content: Buffer.from('%PDF-1.3'), contentType: 'application/pdf' }]
+      });
+
+      const eml = fs.readFileSync(info.file, 'utf8');
+      expect(eml).toContain('To: ann@example.com');
+      expect(eml).toContain('Subject: Your receipt');
+      expect(eml).toContain('filename=receipt-1.pdf');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('collectPdf', () => {
+  it('should collect a gift receipt into a PDF buffer', async () => {
+    const gift = { id: 12, date: '2026-03-01', amount: 300, fund: 'Tithe', paymentMethod: 'check', checkNumber: '1043' };
+
+    const pdf = await collectPdf(stream => generateGiftReceiptPDF({ name: 'Ann Doe' }, gift, stream));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
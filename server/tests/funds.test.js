@@ -0,0 +1,102 @@
+/**
+ * Fund Catalog Unit Tests
+ *
+ * Tests fund validation, column mapping, catalog lookups and the checks
+ * that keep archived funds and parent cycles out.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateFund,
+  toFundColumns,
+  mapFund,
+  listFunds,
+  resolveFundName,
+  checkFundParent
+} from '../funds.js';
+
+describe('validateFund', () => {
+  it('should require a code and name when creating', () => {
+    const result = validateFund({});
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(e => e.split(':')[0])).toEqual(['REQUIRED_CODE', 'REQUIRED_NAME']);
+  });
+
+  it('should check codes, sort order and flags', () => {
+    const result = validateFund(
+      { code: 'building fund', sortOrder: -1, taxDeductible: 'yes' },
+      { partial: true }
+    );
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual(['INVALID_CODE', 'INVALID_SORT_ORDER', 'INVALID_FLAG']);
+    expect(validateFund({ code: 'building_fund', name: 'Building Fund', sortOrder: 5 }).isValid).toBe(true);
+  });
+});
+
+describe('toFundColumns', () => {
+  it('should map only the fields given and normalize the code', () => {
+    expect(toFundColumns({ code: ' building_fund ', name: ' Building Fund ', parentId: '' })).toEqual({
+      code: 'BUILDING_FUND',
+      name: 'Building Fund',
+      parent_id: null
+    });
+    expect(toFundColumns({ isActive: false })).toEqual({ is_active: false });
+  });
+});
+
+describe('mapFund', () => {
+  it('should map a funds row', () => {
+    expect(
+      mapFund({ id: 3, code: 'WMS', name: 'WMS', is_active: false, tax_deductible: true, sort_order: 90, parent_id: 1, parent_name: 'Missions' })
+    ).toMatchObject({ id: '3', isActive: false, taxDeductible: true, sortOrder: 90, parentId: '1', parentName: 'Missions' });
+  });
+});
+
+describe('listFunds', () => {
+  it('should hide archived funds unless asked', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    await listFunds(db);
+    await listFunds(db, { includeArchived: true });
+
+    expect(db.query.mock.calls[0][0]).toContain('WHERE f.is_active = true');
+    expect(db.query.mock.calls[1][0]).not.toContain('is_active = true');
+  });
+});
+
+describe('resolveFundName', () => {
+  const dbWith = (row) => ({ query: vi.fn().mockResolvedValue({ rows: row ? [row] : [] }) });
+
+  it('should return the canonical name for a name or code', async () => {
+    const db = dbWith({ name: 'Church School', is_active: true });
+
+    expect(await resolveFundName(db, 'church_school')).toEqual({ fund: 'Church School' });
+    expect(db.query.mock.calls[0][1]).toEqual(['church_school']);
+  });
+
+  it('should reject unknown funds and archived funds not already in use', async () => {
+    expect((await resolveFundName(dbWith(null), 'Building')).error).toMatch(/^INVALID_FUND/);
+
+    const archived = dbWith({ name: 'Revival', is_active: false });
+    expect((await resolveFundName(archived, 'Revival')).error).toMatch(/^FUND_ARCHIVED/);
+    expect(await resolveFundName(archived, 'Revival', { current: 'Revival' })).toEqual({ fund: 'Revival' });
+  });
+});
+
+describe('checkFundParent', () => {
+  // 1 <- 2 <- 3 (3's parent is 2, 2's parent is 1)
+  const parents = { 1: null, 2: 1, 3: 2 };
+  const db = {
+    query: vi.fn(async (sql, [id]) => ({
+      rows: id in parents ? [{ parent_id: parents[id] }] : []
+    }))
+  };
+
+  it('should reject missing parents and cycles', async () => {
+    expect(await checkFundParent(db, null, 9)).toMatch(/^INVALID_PARENT: Parent fund not found/);
+    expect(await checkFundParent(db, 1, 3)).toMatch(/^INVALID_PARENT: A fund cannot be nested/);
+    expect(await checkFundParent(db, 3, 1)).toBeNull();
+    expect(await checkFundParent(db, 1, null)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * General Ledger Export Unit Tests
+ *
+ * Tests account settings, how giving becomes balanced journal entries and
+ * the IIF, CSV and OFX files written from them.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateGlSettings,
+  validateGlExport,
+  buildJournalEntries,
+  getJournal,
+  findOverlappingExports,
+  formatIif,
+  formatGlCsv,
+  formatOfx
+} from '../glExport.js';
+
+const codes = (result) => result.errors.map(e => e.split(':')[0]);
+
+const settings = {
+  depositAccount: 'Undeposited Funds',
+  funds: [
+    { fund: 'Tithes', code: 'TITHE', isActive: true, account: '4000 Tithes' },
+    { fund: 'Missions', code: 'MISS', isActive: true, account: '4100 Missions' },
+    { fund: 'Building', code: 'BLDG', isActive: true, account: null }
+  ]
+};
+
+const rows = [
+  { entryDate: '2026-01-04', batchId: null, fund: 'Tithes', count: '3', total: '300.00' },
+  { entryDate: '2026-01-04', batchId: null, fund: 'Missions', count: '1', total: '50.25' },
+  { entryDate: '2026-01-11', batchId: 12, batchDescription: 'Sunday\tfirst service', fund: 'Tithes', count: '2', total: '120.00' }
+];
+
+describe('validateGlSettings', () => {
+  it('should require a deposit account', () => {
+    expect(codes(validateGlSettings({ depositAccount: ' ' }))).toEqual(['REQUIRED_DEPOSIT_ACCOUNT']);
+    expect(validateGlSettings({ depositAccount: '1010 Checking', accounts: [{ fund: 'Tithes', account: null }] }).isValid).toBe(true);
+  });
+
+  it('should reject accounts that would break an IIF line', () => {
+    const result = validateGlSettings({ depositAccount: 'Checking', accounts: [{ fund: 'Tithes', account: '4000\tTithes' }] });
+
+    expect(codes(result)).toEqual(['INVALID_ACCOUNT']);
+    expect(codes(validateGlSettings({ depositAccount: 'Checking', accounts: { Tithes: '4000' } }))).toEqual(['INVALID_ACCOUNTS']);
+  });
+});
+
+describe('validateGlExport', () => {
+  it('should check the range, format and grouping', () => {
+    expect(validateGlExport({ startDate: '2026-01-01', endDate: '2026-01-31', format: 'iif', grouping: 'batch' }).isValid).toBe(true);
+    expect(codes(validateGlExport({ startDate: '2026-02-01', endDate: '2026-01-31', format: 'qbo', grouping: 'weekly' }))).toEqual([
+      'INVALID_DATE_RANGE',
+      'INVALID_FORMAT',
+      'INVALID_GROUPING'
+    ]);
+  });
+});
+
+describe('buildJournalEntries', () => {
+  it('should debit the deposit account and credit each fund by day or batch', () => {
+    const journal = buildJournalEntries(rows, settings);
+
+    expect(journal.entries.map(entry => entry.reference)).toEqual(['GG-20260104', 'GG-B12']);
+    expect(journal.entries[0].lines).toEqual([
+      { account: 'Undeposited Funds', fund: null, debit: 350.25, credit: 0, memo: '4 gifts' },
+      { account: '4000 Tithes', fund: 'Tithes', debit: 0, credit: 300, memo: 'Tithes (3 gifts)' },
+      { account: '4100 Missions', fund: 'Missions', debit: 0, credit: 50.25, memo: 'Missions (1 gift)' }
+    ]);
+    expect(journal.entries[1].memo).toBe('Deposit batch #12: Sunday first service');
+    expect(journal.totals).toEqual({ debit: 470.25, credit: 470.25, gifts: 6 });
+  });
+
+  it('should list funds without a GL account', () => {
+    const journal = buildJournalEntries([...rows, { entryDate: '2026-01-04', fund: 'Building', count: '1', total: '10' }], settings);
+
+    expect(journal.unmappedFunds).toEqual(['Building']);
+  });
+});
+
+describe('getJournal', () => {
+  it('should group by batch and pass the range', async () => {
+    const db = {
+      query: vi.fn(async (sql) => {
+        if (sql.includes('FROM settings')) return { rows: [{ gl_deposit_account: 'Undeposited Funds' }] };
+        if (sql.includes('FROM funds')) return { rows: [{ name: 'Tithes', code: 'TITHE', is_active: true, account: '4000 Tithes' }] };
+        return { rows: [{ entry_date: '2026-01-11', batch_id: 12, batch_description: null, fund: 'Tithes', count: '2', total: '120.00' }] };
+      })
+    };
+
+    const journal = await getJournal(db, { startDate: '2026-01-01', endDate: '2026-01-31', grouping: 'batch' });
+
+    expect(db.query.mock.calls[2][0]).toContain('deposit_batches');
+    expect(db.query.mock.calls[2][1]).toEqual(['2026-01-01', '2026-01-31']);
+    expect(journal.entries[0]).toMatchObject({ reference: 'GG-B12', batchId: '12', total: 120 });
+  });
+});
+
+describe('findOverlappingExports', () => {
+  it('should look for GL exports whose range overlaps', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ id: 3, period_start: '2026-01-01', period_end: '2026-01-31', filters: { format: 'iif', grouping: 'daily' }, username: 'treasurer', created_at: '2026-02-02T10:00:00Z' }]
+      })
+    };
+
+    const overlaps = await findOverlappingExports(db, '2026-01-15', '2026-02-15');
+
+    expect(db.query.mock.calls[0][1]).toEqual(['gl_journal', '2026-01-15', '2026-02-15']);
+    expect(overlaps[0]).toMatchObject({ id: '3', startDate: '2026-01-01', endDate: '2026-01-31', format: 'iif', exportedBy: 'treasurer' });
+  });
+});
+
+describe('export formats', () => {
+  const journal = {
+    startDate: '2026-01-01',
+    endDate: '2026-01-31',
+    grouping: 'daily',
+    depositAccount: 'Undeposited Funds',
+    ...buildJournalEntries(rows.slice(0, 2), settings)
+  };
+
+  it('should write IIF journal transactions with credits negative', () => {
+    const lines = formatIif(journal).split('\r\n');
+
+    expect(lines[0]).toBe('!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO');
+    expect(lines[3]).toBe('TRNS\t\tGENERAL JOURNAL\t01/04/2026\tUndeposited Funds\t350.25\tGG-20260104\tGiving 2026-01-04');
+    expect(lines[4]).toBe('SPL\t\tGENERAL JOURNAL\t01/04/2026\t4000 Tithes\t-300.00\tGG-20260104\tTithes (3 gifts)');
+    expect(lines[6]).toBe('ENDTRNS');
+  });
+
+  it('should write one GL CSV row per line', () => {
+    const lines = formatGlCsv(journal).trim().split('\n');
+
+    expect(lines[0]).toBe('Date,Reference,Description,Account,Debit,Credit,Fund,Memo');
+    expect(lines[2]).toBe('2026-01-04,GG-20260104,Giving 2026-01-04,4000 Tithes,,300.00,Tithes,Tithes (3 gifts)');
+  });
+
+  it('should write each entry as an OFX credit keyed by its reference', () => {
+    const ofx = formatOfx(journal, { churchName: 'Grace & Truth', generatedAt: new Date('2026-02-01T12:00:00Z') });
+
+    expect(ofx.startsWith('OFXHEADER:100')).toBe(true);
+    expect(ofx).toContain('<FI><ORG>Grace &amp; Truth</FI>');
+    expect(ofx).toContain('<DTPOSTED>20260104\r\n<TRNAMT>350.25\r\n<FITID>GG-20260104');
+    expect(ofx).toContain('<MEMO>Tithes 300.00; Missions 50.25');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Household Unit Tests
+ *
+ * Tests household validation, statement naming and list queries.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateHousehold,
+  mapHousehold,
+  getStatementName,
+  listHouseholds
+} from '../households.js';
+
+describe('validateHousehold', () => {
+  it('should accept a household with a head among its members', () => {
+    const result = validateHousehold({
+      name: 'Smith Household',
+      state: 'MS',
+      zip: '38930',
+      headMemberId: 'm-1',
+      memberIds: ['m-1', 'm-2']
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should require a name unless the update is partial', () => {
+    expect(validateHousehold({}).errors[0]).toMatch(/^REQUIRED_NAME/);
+    expect(validateHousehold({ salutation: 'The Smiths' }, { partial: true }).isValid).toBe(true);
+    expect(validateHousehold({ name: '  ' }, { partial: true }).errors[0]).toMatch(/^REQUIRED_NAME/);
+  });
+
+  it('should reject bad addresses, member lists and heads', () => {
+    const result = validateHousehold({
+      name: 'Smith Household',
+      state: 'Miss',
+      zip: '3893',
+      memberIds: ['m-2'],
+      headMemberId: 'm-1'
+    });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'INVALID_STATE',
+      'INVALID_ZIP',
+      'INVALID_HEAD'
+    ]);
+    expect(validateHousehold({ name: 'X', memberIds: 'm-1' }).errors[0]).toMatch(/^INVALID_MEMBERS/);
+  });
+});
+
+describe('getStatementName', () => {
+  const household = { name: 'Smith Household', salutation: null };
+
+  it('should prefer the salutation', () => {
+    expect(getStatementName({ ...household, salutation: 'Mr. & Mrs. John Smith' }, [])).toBe('Mr. & Mrs. John Smith');
+  });
+
+  it('should join first names that share a surname', () => {
+    const members = [
+      { firstName: 'John', lastName: 'Smith' },
+      { firstName: 'Mary', lastName: 'Smith' },
+      { firstName: 'Ann', lastName: 'Smith' }
+    ];
+    expect(getStatementName(household, members)).toBe('John, Mary & Ann Smith');
+  });
+
+  it('should list full names when surnames differ', () => {
+    const members = [
+      { firstName: 'John', lastName: 'Smith' },
+      { firstName: 'Mary', lastName: 'Jones' }
+    ];
+    expect(getStatementName(household, members)).toBe('John Smith & Mary Jones');
+  });
+
+  it('should fall back to the household name', () => {
+    expect(getStatementName(household, [])).toBe('Smith Household');
+  });
+});
+
+describe('listHouseholds', () => {
+  it('should search by name and map member counts', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'h-1',
+            name: 'Smith Household',
+            salutation: null,
+            head_member_id: 'm-1',
+            head_first_name: 'John',
+            head_last_name: 'Smith',
+            joint_statements: true,
+            member_count: '2',
+            created_at: '2026-01-01T00:00:00Z'
+          }]
+        })
+    };
+
+    const result = await listHouseholds(pool, { search: 'smith', limit: 500 });
+
+    expect(pool.query.mock.calls[0][0]).toContain('WHERE (h.name ILIKE $1 OR h.salutation ILIKE $1)');
+    expect(pool.query.mock.calls[1][1]).toEqual(['%smith%', 100, 0]);
+    expect(result.data[0]).toMatchObject({ headName: 'John Smith', memberCount: 2, jointStatements: true });
+  });
+});
+
+describe('mapHousehold', () => {
+  it('should leave headName empty when there is no head', () => {
+    expect(mapHousehold({ id: 'h-2', name: 'Jones Household', joint_statements: false }).headName).toBeNull();
+  });
+});
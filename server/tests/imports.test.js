@@ -0,0 +1,150 @@
+/**
+ * CSV Import Unit Tests
+ *
+ * Tests CSV parsing, column mapping and member import planning.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MEMBER_IMPORT_FIELDS,
+  parseCsv,
+  suggestMapping,
+  validateMapping,
+  normalizePhone,
+  mapMemberRecord,
+  planMemberImport,
+  resolveImportAction
+} from '../imports.js';
+
+const ROSTER = [
+  'First Name,Last Name,E-mail,Phone,State,Zip',
+  'John,Smith,John@Example.com,(555) 123-4567,ms,38930',
+  'Mary,Jones,,,MS,38930',
+  ',NoFirst,,,,',
+  'Mary,Jones,,,MS,38930'
+].join('\n');
+
+describe('parseCsv', () => {
+  it('should return trimmed headers and records, skipping blank lines', () => {
+    const { headers, records } = parseCsv('﻿First Name , Last Name\nJohn,Smith\n\n');
+
+    expect(headers).toEqual(['First Name', 'Last Name']);
+    expect(records).toEqual([{ 'First Name': 'John', 'Last Name': 'Smith' }]);
+  });
+
+  it('should throw on malformed CSV', () => {
+    expect(() => parseCsv('a,b\n"unterminated,1')).toThrow();
+  });
+});
+
+describe('suggestMapping / validateMapping', () => {
+  it('should match common header spellings', () => {
+    const { headers } = parseCsv(ROSTER);
+    expect(suggestMapping(headers)).toEqual({
+      firstName: 'First Name',
+      lastName: 'Last Name',
+      email: 'E-mail',
+      telephone: 'Phone',
+      state: 'State',
+      zip: 'Zip'
+    });
+  });
+
+  it('should reject unknown fields, missing columns and missing required fields', () => {
+    const result = validateMapping(
+      { firstName: 'First', nickname: 'Nick' },
+      ['First Name'],
+      { fields: MEMBER_IMPORT_FIELDS, required: ['firstName', 'lastName'] }
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'UNKNOWN_COLUMN',
+      'UNKNOWN_FIELD',
+      'REQUIRED_MAPPING'
+    ]);
+  });
+});
+
+describe('mapMemberRecord', () => {
+  it('should normalize email, phone and state and null blank cells', () => {
+    const member = mapMemberRecord(
+      { First: 'John', Last: 'Smith', Email: 'John@Example.com', Phone: '(555) 123-4567', St: 'ms', City: '' },
+      { firstName: 'First', lastName: 'Last', email: 'Email', telephone: 'Phone', state: 'St', city: 'City' }
+    );
+
+    expect(member).toMatchObject({
+      firstName: 'John',
+      email: 'john@example.com',
+      telephone: '5551234567',
+      state: 'MS',
+      city: null,
+      zip: null
+    });
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+  });
+});
+
+describe('planMemberImport', () => {
+  it('should classify creates, updates, duplicates and errors', async () => {
+    const pool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [
+          { id: 'm-1', first_name: 'John', last_name: 'Smith', email: 'john@example.com', telephone: null },
+          { id: 'm-9', first_name: 'Ann', last_name: 'Lee', email: null, telephone: null }
+        ]
+      })
+    };
+    const { records } = parseCsv(ROSTER + '\nAnn,Lee,,,MS,38930');
+    const mapping = { ...suggestMapping(parseCsv(ROSTER).headers) };
+
+    const plan = await planMemberImport(pool, records, mapping);
+
+    expect(plan.rows.map(r => r.action)).toEqual(['duplicate', 'create', 'error', 'create', 'create']);
+    expect(plan.rows[0].match).toEqual({ memberId: 'm-1', name: 'John Smith', matchedOn: 'email' });
+    expect(plan.rows[2].line).toBe(4);
+    expect(plan.rows[2].errors[0]).toMatch(/^REQUIRED_FIRST_NAME/);
+    expect(plan.rows[2].record['Last Name']).toBe('NoFirst');
+    expect(plan.rows[1].record).toBeUndefined();
+    expect(plan.summary).toEqual({ total: 5, create: 3, update: 0, duplicate: 1, error: 1 });
+    expect(pool.query.mock.calls[0][1]).toEqual([[], ['john@example.com'], ['5551234567']]);
+  });
+
+  it('should flag repeated rows within the file and update rows with known ids', async () => {
+    const pool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ id: 'm-1', first_name: 'John', last_name: 'Smith', email: null, telephone: null }]
+      })
+    };
+    const { records } = parseCsv('id,first,last,email\nm-1,John,Smith,\n,Sue,Park,sue@x.org\n,Sue,Park,SUE@x.org');
+
+    const plan = await planMemberImport(pool, records, { id: 'id', firstName: 'first', lastName: 'last', email: 'email' });
+
+    expect(plan.rows.map(r => r.action)).toEqual(['update', 'create', 'duplicate']);
+    expect(plan.rows[0].existingId).toBe('m-1');
+    expect(plan.rows[2].match).toEqual({ line: 3, matchedOn: 'email' });
+  });
+
+  it('should reject unparseable join dates without querying when no rows are valid', async () => {
+    const pool = { query: vi.fn() };
+    const { records } = parseCsv('first,last,joined\nJohn,Smith,someday');
+
+    const plan = await planMemberImport(pool, records, { firstName: 'first', lastName: 'last', joinedAt: 'joined' });
+
+    expect(plan.rows[0].errors[0]).toMatch(/^INVALID_JOINED_AT/);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveImportAction', () => {
+  it('should skip duplicates unless the preview chose to update or create', () => {
+    const existing = { line: 2, action: 'duplicate', match: { memberId: 'm-1' } };
+    const inFile = { line: 3, action: 'duplicate', match: { line: 2 } };
+
+    expect(resolveImportAction(existing)).toBe('skip');
+    expect(resolveImportAction(existing, { 2: 'update' })).toBe('update');
+    expect(resolveImportAction(inFile, { 3: 'update' })).toBe('skip');
+    expect(resolveImportAction(inFile, { '3': 'create' })).toBe('create');
+    expect(resolveImportAction({ action: 'create' })).toBe('create');
+  });
+});
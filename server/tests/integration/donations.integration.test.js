@@ -76,7 +76,7 @@ describe('Donations API', () => {
         .post('/api/donations')
         .send({
           amount: 50,
-          fund: 'General Fund',
+          fund: 'General',
           notes: 'Test guest donation',
           donationDate: new Date().toISOString()
         });
@@ -158,6 +158,34 @@ describe('Donations API', () => {
       expect([201, 400, 500]).toContain(res.status);
     });
 
+    it('should record a retried request with the same Idempotency-Key once', async () => {
+      const key = `it-${Date.now()}-offline`;
+      const gift = { memberId: TEST_DATA.memberId, amount: 42.25, fund: 'Tithes' };
+
+      const first = await authorizedRequest(adminToken)
+        .post('/api/donations')
+        .set('Idempotency-Key', key)
+        .send(gift);
+      const retry = await authorizedRequest(adminToken)
+        .post('/api/donations')
+        .set('Idempotency-Key', key)
+        .send(gift);
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(200);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.id).toBe(first.body.id);
+
+      const reused = await authorizedRequest(adminToken)
+        .post('/api/donations')
+        .set('Idempotency-Key', key)
+        .send({ ...gift, amount: 10 });
+      expect(reused.status).toBe(409);
+      expect(reused.body.error).toBe('IDEMPOTENCY_KEY_REUSED');
+
+      await authorizedRequest(adminToken).delete(`/api/donations/${first.body.id}`);
+    });
+
     it('should require authentication', async () => {
       const res = await api()
         .post('/api/donations')
@@ -175,7 +203,7 @@ describe('Donations API', () => {
         .send({
           memberId: TEST_DATA.memberId,
           amount: 75.00,
-          fund: 'Building',
+          fund: 'Upkeep',
           notes: 'Test fetch'
         });
 
@@ -250,7 +278,7 @@ describe('Donations API', () => {
         .send({
           memberId: TEST_DATA.memberId,
           amount: 25.00,
-          fund: 'Missions'
+          fund: 'Benevolence'
         });
 
       const donationId = createRes.body.id;
@@ -28,7 +28,7 @@ describe('Reports API', () => {
       {
         memberId: TEST_DATA.memberId,
         amount: 50.00,
-        fund: 'Missions',
+        fund: 'Benevolence',
         notes: 'Report Test 2',
         date: `${reportYear}-06-20`
       },
@@ -0,0 +1,164 @@
+/**
+ * Member Duplicate & Merge Unit Tests
+ *
+ * Tests pair scoring, the duplicate finder's bucketing, merge validation,
+ * field selection and the re-pointing done by a merge.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MEMBER_REFERENCES,
+  nameSimilarity,
+  scoreMemberPair,
+  findDuplicateMembers,
+  validateMerge,
+  buildMergedMember,
+  mergeMembers
+} from '../memberMerge.js';
+
+const member = (overrides) => ({
+  id: 'm-1',
+  first_name: 'John',
+  last_name: 'Smith',
+  email: null,
+  telephone: null,
+  address: null,
+  city: null,
+  state: null,
+  zip: null,
+  family_id: null,
+  joined_at: null,
+  skills: [],
+  interests: [],
+  ...overrides
+});
+
+describe('scoreMemberPair', () => {
+  it('should score a matching name, email, phone and address as a certain duplicate', () => {
+    const a = member({ email: 'John@Example.com', telephone: '+1 (555) 123-4567', address: '12 Oak St.', zip: '12345' });
+    const b = member({ id: 'm-2', email: 'john@example.com', telephone: '5551234567', address: '12 oak st', zip: '12345-6789' });
+
+    expect(scoreMemberPair(a, b)).toEqual({ score: 100, reasons: ['name', 'email', 'phone', 'address'] });
+  });
+
+  it('should treat nicknames and typos as similar names', () => {
+    expect(nameSimilarity(member({ first_name: 'Jim' }), member({ first_name: 'Jimmy' }))).toBeCloseTo(0.96);
+    expect(nameSimilarity(member({ last_name: 'Smyth' }), member({}))).toBeGreaterThan(0.8);
+  });
+
+  it('should not pair spouses who share contact details', () => {
+    const a = member({ telephone: '5551234567', address: '12 Oak St', zip: '12345' });
+    const b = member({ id: 'm-2', first_name: 'Mary', telephone: '5551234567', address: '12 Oak St', zip: '12345' });
+
+    expect(scoreMemberPair(a, b)).toEqual({ score: 0, reasons: [] });
+  });
+});
+
+describe('findDuplicateMembers', () => {
+  const mockDb = (members, giving = []) => ({
+    query: vi.fn(async (sql) => {
+      if (sql.includes('FROM members')) return { rows: members };
+      if (sql.includes('FROM donations')) return { rows: giving };
+      return { rows: [] };
+    })
+  });
+
+  it('should return scored pairs with giving totals, best first', async () => {
+    const db = mockDb(
+      [
+        member({ id: 'm-1', email: 'john@example.com' }),
+        member({ id: 'm-2', first_name: 'Jon', email: 'john@example.com' }),
+        member({ id: 'm-3' }),
+        member({ id: 'm-4', first_name: 'Alice', last_name: 'Brown' })
+      ],
+      [{ member_id: 'm-1', donation_count: '3', donation_total: '150.00' }]
+    );
+
+    const pairs = await findDuplicateMembers(db);
+
+    expect(pairs.map(p => p.members.map(m => m.id))).toEqual([
+      ['m-1', 'm-2'],
+      ['m-1', 'm-3']
+    ]);
+    expect(pairs[0]).toMatchObject({ score: 70, reasons: ['name', 'email'] });
+    expect(pairs[1]).toMatchObject({ score: 50, reasons: ['name'] });
+    expect(pairs[0].members[0]).toMatchObject({ donationCount: 3, donationTotal: 150 });
+    expect(pairs[0].members[1]).toMatchObject({ donationCount: 0, donationTotal: 0 });
+  });
+
+  it('should only return pairs involving memberId and skip the giving query when empty', async () => {
+    const db = mockDb([member({ id: 'm-1' }), member({ id: 'm-2' }), member({ id: 'm-3', last_name: 'Jones' })]);
+
+    expect(await findDuplicateMembers(db, { memberId: 'm-3' })).toEqual([]);
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('validateMerge', () => {
+  it('should require two different members and known field choices', () => {
+    expect(validateMerge({ survivorId: 'm-1' }).errors[0]).toMatch(/^REQUIRED_MEMBERS/);
+    expect(validateMerge({ survivorId: 'm-1', duplicateId: 'm-1' }).errors[0]).toMatch(/^SAME_MEMBER/);
+    expect(
+      validateMerge({ survivorId: 'm-1', duplicateId: 'm-2', fields: { email: 'both', password: 'duplicate' } }).errors
+    ).toHaveLength(2);
+    expect(validateMerge({ survivorId: 'm-1', duplicateId: 'm-2', fields: { email: 'duplicate' } }).isValid).toBe(true);
+  });
+});
+
+describe('buildMergedMember', () => {
+  it('should honour choices, fill blanks, keep the earlier join date and combine skills', () => {
+    const survivor = member({ email: 'old@example.com', joined_at: '2020-05-01', skills: ['Music'] });
+    const duplicate = member({
+      id: 'm-2',
+      email: 'new@example.com',
+      telephone: '5551234567',
+      joined_at: '2018-01-01',
+      skills: ['Music', 'Teaching']
+    });
+
+    const merged = buildMergedMember(survivor, duplicate, { email: 'duplicate' });
+
+    expect(merged).toMatchObject({
+      first_name: 'John',
+      email: 'new@example.com',
+      telephone: '5551234567',
+      joined_at: '2018-01-01',
+      skills: ['Music', 'Teaching']
+    });
+  });
+});
+
+describe('mergeMembers', () => {
+  it('should re-point every reference, update the survivor and delete the duplicate', async () => {
+    const client = {
+      query: vi.fn(async (sql) => {
+        if (sql.startsWith('UPDATE donations')) return { rowCount: 4 };
+        if (sql.includes('UPDATE members')) return { rows: [{ id: 'm-1' }] };
+        return { rowCount: 0 };
+      })
+    };
+
+    const result = await mergeMembers(client, member({}), member({ id: 'm-2' }));
+
+    expect(result.moved).toMatchObject({ donations: 4, pledges: 0, users: 0 });
+    expect(client.query).toHaveBeenCalledTimes(MEMBER_REFERENCES.length + 2);
+    expect(client.query.mock.calls[0][1]).toEqual(['m-1', 'm-2']);
+    expect(client.query.mock.calls.at(-1)).toEqual(['DELETE FROM members WHERE id = $1', ['m-2']]);
+  });
+
+  it('should move the duplicate\'s sent statements and receipts to the survivor', async () => {
+    const client = {
+      query: vi.fn(async (sql) => {
+        if (sql.startsWith('UPDATE email_messages')) return { rowCount: 3 };
+        if (sql.includes('UPDATE members')) return { rows: [{ id: 'm-1' }] };
+        return { rowCount: 0 };
+      })
+    };
+
+    const result = await mergeMembers(client, member({}), member({ id: 'm-2' }));
+
+    const emailUpdate = client.query.mock.calls.find(([sql]) => sql.startsWith('UPDATE email_messages'));
+    expect(emailUpdate[1]).toEqual(['m-1', 'm-2']);
+    expect(result.moved.emailMessages).toBe(3);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Pledge Unit Tests
+ *
+ * Tests pledge validation, installment schedules and fulfillment status
+ * computed from matching donations.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validatePledge,
+  buildSchedule,
+  mapPledge,
+  listPledges
+} from '../pledges.js';
+
+const pledgeRow = (overrides = {}) => ({
+  id: 7,
+  member_id: 'm-100',
+  first_name: 'Ruth',
+  last_name: 'Boaz',
+  fund: 'Upkeep',
+  campaign_id: 1,
+  campaign_title: 'Roof Restoration Project',
+  amount: '2400.00',
+  frequency: 'monthly',
+  start_date: '2026-01-01',
+  end_date: '2026-12-31',
+  status: 'active',
+  notes: null,
+  received_amount: '600.00',
+  received_count: '3',
+  created_by: 'admin',
+  created_at: '2026-01-01T12:00:00Z',
+  ...overrides
+});
+
+describe('validatePledge', () => {
+  const valid = {
+    memberId: 'm-100',
+    fund: 'Upkeep',
+    amount: 2400,
+    frequency: 'monthly',
+    startDate: '2026-01-01',
+    endDate: '2026-12-31'
+  };
+
+  it('should accept a complete recurring pledge', () => {
+    expect(validatePledge(valid).isValid).toBe(true);
+  });
+
+  it('should accept a campaign in place of a fund', () => {
+    const { fund, ...rest } = valid;
+    expect(validatePledge({ ...rest, campaignId: 1 }).isValid).toBe(true);
+  });
+
+  it('should require a member, fund and positive amount', () => {
+    const result = validatePledge({ amount: 0 });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'REQUIRED_MEMBER',
+      'REQUIRED_FUND',
+      'INVALID_AMOUNT'
+    ]);
+  });
+
+  it('should require an end date for recurring pledges', () => {
+    const result = validatePledge({ ...valid, endDate: undefined });
+
+    expect(result.errors[0]).toMatch(/^REQUIRED_END_DATE/);
+    expect(validatePledge({ ...valid, frequency: 'one_time', endDate: undefined }).isValid).toBe(true);
+  });
+
+  it('should reject unknown frequencies and inverted date ranges', () => {
+    const result = validatePledge({ ...valid, frequency: 'biweekly', endDate: '2025-06-01' });
+
+    expect(result.errors.some(e => e.startsWith('INVALID_FREQUENCY'))).toBe(true);
+    expect(result.errors.some(e => e.startsWith('INVALID_DATE_RANGE'))).toBe(true);
+  });
+});
+
+describe('buildSchedule', () => {
+  const monthly = { amount: 2400, frequency: 'monthly', startDate: '2026-01-01', endDate: '2026-12-31' };
+
+  it('should spread a monthly pledge across twelve installments', () => {
+    const schedule = buildSchedule(monthly, '2026-03-15');
+
+    expect(schedule.installmentCount).toBe(12);
+    expect(schedule.installmentAmount).toBe(200);
+    expect(schedule.installmentsDue).toBe(3);
+    expect(schedule.expectedToDate).toBe(600);
+    expect(schedule.nextDueDate).toBe('2026-04-01');
+  });
+
+  it('should expect the full amount once the schedule ends', () => {
+    const schedule = buildSchedule({ ...monthly, amount: 1000 }, '2027-01-05');
+
+    expect(schedule.installmentAmount).toBe(83.33);
+    expect(schedule.expectedToDate).toBe(1000);
+    expect(schedule.nextDueDate).toBeNull();
+  });
+
+  it('should clamp month-end start dates to short months', () => {
+    const schedule = buildSchedule(
+      { amount: 300, frequency: 'monthly', startDate: '2026-01-31', endDate: '2026-03-31' },
+      '2026-02-01'
+    );
+
+    expect(schedule.installmentCount).toBe(3);
+    expect(schedule.nextDueDate).toBe('2026-02-28');
+  });
+
+  it('should treat one-time pledges as a single installment', () => {
+    const schedule = buildSchedule({ amount: 500, frequency: 'one_time', startDate: '2026-05-01' }, '2026-04-01');
+
+    expect(schedule.installmentCount).toBe(1);
+    expect(schedule.expectedToDate).toBe(0);
+    expect(schedule.nextDueDate).toBe('2026-05-01');
+  });
+
+  it('should count weekly installments', () => {
+    const schedule = buildSchedule(
+      { amount: 520, frequency: 'weekly', startDate: '2026-01-04', endDate: '2026-12-27' },
+      '2026-01-20'
+    );
+
+    expect(schedule.installmentCount).toBe(52);
+    expect(schedule.installmentsDue).toBe(3);
+    expect(schedule.expectedToDate).toBe(30);
+  });
+});
+
+describe('mapPledge', () => {
+  it('should report fulfillment against the schedule', () => {
+    const pledge = mapPledge(pledgeRow(), '2026-03-15');
+
+    expect(pledge).toMatchObject({
+      id: '7',
+      memberName: 'Ruth Boaz',
+      campaignId: '1',
+      amount: 2400,
+      received: 600,
+      remaining: 1800,
+      percentFulfilled: 25,
+      fulfillmentStatus: 'on_track'
+    });
+  });
+
+  it('should flag pledges that have fallen behind', () => {
+    const pledge = mapPledge(pledgeRow({ received_amount: '200.00' }), '2026-03-15');
+
+    expect(pledge.fulfillmentStatus).toBe('behind');
+  });
+
+  it('should mark pledges fulfilled once the total is received', () => {
+    const pledge = mapPledge(pledgeRow({ received_amount: '2500.00' }), '2026-03-15');
+
+    expect(pledge.fulfillmentStatus).toBe('fulfilled');
+    expect(pledge.remaining).toBe(0);
+  });
+
+  it('should keep cancelled pledges cancelled', () => {
+    expect(mapPledge(pledgeRow({ status: 'cancelled' }), '2026-03-15').fulfillmentStatus).toBe('cancelled');
+  });
+});
+
+describe('listPledges', () => {
+  it('should combine filters and paginate', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({ rows: [pledgeRow()] })
+    };
+
+    const result = await listPledges(pool, { memberId: 'm-100', campaignId: '1', status: 'active' });
+
+    expect(pool.query.mock.calls[0][0]).toContain('WHERE p.member_id = $1 AND p.campaign_id = $2 AND p.status = $3');
+    expect(pool.query.mock.calls[1][1]).toEqual(['m-100', '1', 'active', 20, 0]);
+    expect(result.data[0].id).toBe('7');
+  });
+
+  it('should ignore unknown status and non-numeric campaign filters', async () => {
+    const pool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] })
+    };
+
+    await listPledges(pool, { status: 'paid', campaignId: '1 OR 1=1' });
+
+    expect(pool.query.mock.calls[0][1]).toEqual([]);
+  });
+});
@@ -72,6 +72,7 @@ describe('hasPermission', () => {
     it('should have report read/export permissions', () => {
       expect(hasPermission('manager', 'reports:read')).toBe(true);
       expect(hasPermission('manager', 'reports:export')).toBe(true);
+      expect(hasPermission('manager', 'reports:schedule')).toBe(true);
     });
 
     it('should NOT have user management permissions', () => {
@@ -130,6 +131,116 @@ describe('hasPermission', () => {
       expect(hasPermission('auditor', 'members:create')).toBe(false);
       expect(hasPermission('auditor', 'donations:create')).toBe(false);
     });
+
+    it('should be able to read the audit trail', () => {
+      expect(hasPermission('auditor', 'audit:read')).toBe(true);
+    });
+  });
+
+  describe('audit trail access', () => {
+    it('should be limited to admins and auditors', () => {
+      expect(hasPermission('super_admin', 'audit:read')).toBe(true);
+      expect(hasPermission('admin', 'audit:read')).toBe(true);
+      expect(hasPermission('manager', 'audit:read')).toBe(false);
+      expect(hasPermission('data_entry', 'audit:read')).toBe(false);
+      expect(hasPermission('viewer', 'audit:read')).toBe(false);
+    });
+  });
+
+  describe('deposit batch access', () => {
+    it('should let counters open and update batches', () => {
+      expect(hasPermission('data_entry', 'batches:create')).toBe(true);
+      expect(hasPermission('data_entry', 'batches:update')).toBe(true);
+      expect(hasPermission('auditor', 'batches:read')).toBe(true);
+      expect(hasPermission('viewer', 'batches:read')).toBe(false);
+    });
+
+    it('should reserve closed-batch approval for managers and above', () => {
+      expect(hasPermission('manager', 'batches:approve')).toBe(true);
+      expect(hasPermission('admin', 'batches:approve')).toBe(true);
+      expect(hasPermission('data_entry', 'batches:approve')).toBe(false);
+      expect(hasPermission('auditor', 'batches:approve')).toBe(false);
+    });
+  });
+
+  describe('pledge access', () => {
+    it('should let data entry record pledges but not delete them', () => {
+      expect(hasPermission('data_entry', 'pledges:create')).toBe(true);
+      expect(hasPermission('data_entry', 'pledges:update')).toBe(true);
+      expect(hasPermission('data_entry', 'pledges:delete')).toBe(false);
+      expect(hasPermission('manager', 'pledges:delete')).toBe(true);
+    });
+
+    it('should limit viewers to their own pledges', () => {
+      expect(hasPermission('viewer', 'pledges:read')).toBe(false);
+      expect(hasPermission('viewer', 'pledges:read:own')).toBe(true);
+      expect(hasPermission('auditor', 'pledges:read')).toBe(true);
+    });
+  });
+
+  describe('recurring gift access', () => {
+    it('should let data entry set up schedules but not delete them', () => {
+      expect(hasPermission('data_entry', 'recurring:create')).toBe(true);
+      expect(hasPermission('data_entry', 'recurring:delete')).toBe(false);
+      expect(hasPermission('manager', 'recurring:delete')).toBe(true);
+      expect(hasPermission('auditor', 'recurring:update')).toBe(false);
+      expect(hasPermission('viewer', 'recurring:read')).toBe(false);
+    });
+  });
+
+  describe('follow-up task access', () => {
+    it('should let data entry work tasks but not delete them', () => {
+      expect(hasPermission('data_entry', 'tasks:update')).toBe(true);
+      expect(hasPermission('data_entry', 'tasks:delete')).toBe(false);
+      expect(hasPermission('manager', 'tasks:delete')).toBe(true);
+      expect(hasPermission('auditor', 'tasks:read')).toBe(true);
+      expect(hasPermission('auditor', 'tasks:update')).toBe(false);
+      expect(hasPermission('viewer', 'tasks:read')).toBe(false);
+    });
+  });
+
+  describe('email access', () => {
+    it('should let data entry send receipts but keep batches and templates with managers and admins', () => {
+      expect(hasPermission('data_entry', 'email:send')).toBe(true);
+      expect(hasPermission('data_entry', 'email:batch')).toBe(false);
+      expect(hasPermission('manager', 'email:batch')).toBe(true);
+      expect(hasPermission('manager', 'email:manage')).toBe(false);
+      expect(hasPermission('admin', 'email:manage')).toBe(true);
+      expect(hasPermission('auditor', 'email:send')).toBe(false);
+    });
+  });
+
+  describe('budget access', () => {
+    it('should let managers and auditors read budgets but only admins set them', () => {
+      expect(hasPermission('admin', 'budgets:write')).toBe(true);
+      expect(hasPermission('manager', 'budgets:read')).toBe(true);
+      expect(hasPermission('manager', 'budgets:write')).toBe(false);
+      expect(hasPermission('auditor', 'budgets:read')).toBe(true);
+      expect(hasPermission('data_entry', 'budgets:read')).toBe(false);
+    });
+  });
+
+  describe('disbursement access', () => {
+    it('should let data entry request disbursements and managers approve them', () => {
+      expect(hasPermission('data_entry', 'disbursements:create')).toBe(true);
+      expect(hasPermission('data_entry', 'disbursements:approve')).toBe(false);
+      expect(hasPermission('manager', 'disbursements:approve')).toBe(true);
+      expect(hasPermission('manager', 'disbursements:delete')).toBe(false);
+      expect(hasPermission('admin', 'disbursements:delete')).toBe(true);
+      expect(hasPermission('auditor', 'disbursements:read')).toBe(true);
+      expect(hasPermission('auditor', 'disbursements:create')).toBe(false);
+      expect(hasPermission('viewer', 'disbursements:read')).toBe(false);
+    });
+  });
+
+  describe('lock management', () => {
+    it('should let only admins list and force-release edit locks', () => {
+      expect(hasPermission('super_admin', 'locks:release')).toBe(true);
+      expect(hasPermission('admin', 'locks:read')).toBe(true);
+      expect(hasPermission('admin', 'locks:release')).toBe(true);
+      expect(hasPermission('manager', 'locks:release')).toBe(false);
+      expect(hasPermission('auditor', 'locks:read')).toBe(false);
+    });
   });
 
   describe('edge cases', () => {
@@ -274,6 +385,8 @@ describe('getRoleInfo', () => {
     expect(info.level).toBe(80);
     expect(info.canManageUsers).toBe(true);
     expect(info.canExportData).toBe(true);
+    expect(info.canViewAudit).toBe(true);
+    expect(info.canApproveBatches).toBe(true);
   });
 
   it('should return correct info for viewer', () => {
@@ -282,6 +395,46 @@ describe('getRoleInfo', () => {
     expect(info.level).toBe(20);
     expect(info.canManageUsers).toBe(false);
     expect(info.canExportData).toBe(false);
+    expect(info.canViewAudit).toBe(false);
+    expect(info.canApproveBatches).toBe(false);
+  });
+
+  it('should flag disbursement approval for managers but not data entry', () => {
+    expect(getRoleInfo('manager').canApproveDisbursements).toBe(true);
+    expect(getRoleInfo('data_entry').canApproveDisbursements).toBe(false);
+  });
+
+  it('should flag church settings changes for admins only', () => {
+    expect(getRoleInfo('admin').canManageSettings).toBe(true);
+    expect(getRoleInfo('manager').canManageSettings).toBe(false);
+  });
+
+  it('should flag batch statement emails and email setup', () => {
+    expect(getRoleInfo('manager').canEmailStatements).toBe(true);
+    expect(getRoleInfo('data_entry').canEmailStatements).toBe(false);
+    expect(getRoleInfo('admin').canManageEmail).toBe(true);
+    expect(getRoleInfo('manager').canManageEmail).toBe(false);
+  });
+
+  it('should flag report scheduling for managers and admins', () => {
+    expect(getRoleInfo('admin').canScheduleReports).toBe(true);
+    expect(getRoleInfo('manager').canScheduleReports).toBe(true);
+    expect(getRoleInfo('auditor').canScheduleReports).toBe(false);
+  });
+
+  it('should flag managing every saved report for admins only', () => {
+    expect(getRoleInfo('admin').canManageReports).toBe(true);
+    expect(getRoleInfo('manager').canManageReports).toBe(false);
+  });
+
+  it('should flag budget changes for admins only', () => {
+    expect(getRoleInfo('admin').canManageBudgets).toBe(true);
+    expect(getRoleInfo('manager').canManageBudgets).toBe(false);
+  });
+
+  it('should flag force-releasing edit locks for admins only', () => {
+    expect(getRoleInfo('admin').canReleaseLocks).toBe(true);
+    expect(getRoleInfo('manager').canReleaseLocks).toBe(false);
   });
 
   it('should handle unknown role with defaults', () => {
@@ -0,0 +1,184 @@
+/**
+ * Recurring Gift Unit Tests
+ *
+ * Tests schedule validation, due date generation, donation matching and
+ * the job steps that create installments and mark them missed.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateRecurringGift,
+  dueDatesBetween,
+  mapRecurringGift,
+  generateInstallments,
+  pairInstallments,
+  markMissedInstallments
+} from '../recurringGifts.js';
+
+describe('validateRecurringGift', () => {
+  const valid = {
+    memberId: 'm-100',
+    fund: 'Tithes',
+    amount: 200,
+    frequency: 'monthly',
+    startDate: '2026-01-01'
+  };
+
+  it('should accept an open-ended monthly gift', () => {
+    expect(validateRecurringGift(valid).isValid).toBe(true);
+  });
+
+  it('should require a member, fund, positive amount and known frequency', () => {
+    const result = validateRecurringGift({ amount: 0, frequency: 'daily' });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'REQUIRED_MEMBER',
+      'REQUIRED_FUND',
+      'INVALID_AMOUNT',
+      'INVALID_FREQUENCY'
+    ]);
+  });
+
+  it('should reject unknown payment methods and inverted date ranges', () => {
+    const result = validateRecurringGift({ ...valid, paymentMethod: 'wire', endDate: '2025-12-01' });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual(['INVALID_PAYMENT_METHOD', 'INVALID_DATE_RANGE']);
+  });
+});
+
+describe('dueDatesBetween', () => {
+  it('should list due dates after the last processed day', () => {
+    const gift = { frequency: 'monthly', startDate: '2026-01-31', endDate: null };
+
+    expect(dueDatesBetween(gift, null, '2026-03-31')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    expect(dueDatesBetween(gift, '2026-02-28', '2026-03-31')).toEqual(['2026-03-31']);
+  });
+
+  it('should step biweekly schedules and stop at the end date', () => {
+    const gift = { frequency: 'biweekly', startDate: '2026-01-04', endDate: '2026-02-01' };
+
+    expect(dueDatesBetween(gift, null, '2026-06-01')).toEqual(['2026-01-04', '2026-01-18', '2026-02-01']);
+  });
+});
+
+describe('mapRecurringGift', () => {
+  it('should report the next due date for active schedules only', () => {
+    const row = {
+      id: 4,
+      member_id: 'm-100',
+      fund: 'Tithes',
+      amount: '200.00',
+      frequency: 'monthly',
+      start_date: '2026-01-15',
+      end_date: null,
+      status: 'active',
+      received_count: '2',
+      missed_count: '1',
+      received_amount: '400.00'
+    };
+
+    expect(mapRecurringGift(row, '2026-03-20')).toMatchObject({
+      id: '4',
+      amount: 200,
+      nextDueDate: '2026-04-15',
+      receivedCount: 2,
+      missedCount: 1,
+      receivedAmount: 400
+    });
+    expect(mapRecurringGift({ ...row, status: 'paused' }, '2026-03-20').nextDueDate).toBeNull();
+  });
+});
+
+describe('generateInstallments', () => {
+  it('should create due installments and move every schedule forward', async () => {
+    const db = {
+      query: vi.fn(async (sql) => {
+        if (sql.startsWith('SELECT')) {
+          return {
+            rows: [
+              { id: 1, status: 'active', frequency: 'weekly', amount: '50.00', start_date: '2026-03-01', end_date: null, generated_through: '2026-03-01' },
+              { id: 2, status: 'paused', frequency: 'monthly', amount: '100.00', start_date: '2026-01-01', end_date: null, generated_through: null }
+            ]
+          };
+        }
+        if (sql.includes('INSERT')) return { rowCount: 2 };
+        return { rowCount: 1 };
+      })
+    };
+
+    const created = await generateInstallments(db, { asOf: '2026-03-15' });
+
+    expect(created).toBe(2);
+    const insert = db.query.mock.calls.find(([sql]) => sql.includes('INSERT'));
+    expect(insert[1]).toEqual([1, '50.00', ['2026-03-08', '2026-03-15']]);
+    // The paused schedule only has its processed date moved
+    expect(db.query.mock.calls.filter(([sql]) => sql.includes('INSERT'))).toHaveLength(1);
+    expect(db.query.mock.calls.at(-1)).toEqual(['UPDATE recurring_gifts SET generated_through = $1 WHERE id = $2', ['2026-03-15', 2]]);
+  });
+});
+
+describe('pairInstallments', () => {
+  const installment = (overrides) => ({
+    id: 1,
+    due_date: '2026-03-01',
+    amount: '200.00',
+    member_id: 'm-100',
+    fund: 'Tithes',
+    frequency: 'monthly',
+    ...overrides
+  });
+  const donation = (overrides) => ({
+    id: 10,
+    member_id: 'm-100',
+    fund: 'Tithes',
+    amount: '200.00',
+    gift_date: '2026-03-02',
+    ...overrides
+  });
+
+  it('should prefer the exact amount, then the closest date', () => {
+    const pairs = pairInstallments(
+      [installment({})],
+      [
+        donation({ id: 10, amount: '150.00', gift_date: '2026-03-01' }),
+        donation({ id: 11, gift_date: '2026-03-05' }),
+        donation({ id: 12, gift_date: '2026-03-03' })
+      ]
+    );
+
+    expect(pairs).toEqual([{ installmentId: 1, donationId: 12 }]);
+  });
+
+  it('should ignore other funds, small gifts and gifts outside the window', () => {
+    const pairs = pairInstallments(
+      [installment({})],
+      [
+        donation({ id: 10, fund: 'Upkeep' }),
+        donation({ id: 11, amount: '20.00' }),
+        donation({ id: 12, gift_date: '2026-02-25' }),
+        donation({ id: 13, gift_date: '2026-03-09' })
+      ]
+    );
+
+    expect(pairs).toEqual([]);
+  });
+
+  it('should use each donation for one installment, oldest first', () => {
+    const pairs = pairInstallments(
+      [installment({ id: 2, due_date: '2026-03-08', frequency: 'weekly' }), installment({ id: 1, due_date: '2026-03-01', frequency: 'weekly' })],
+      [donation({ id: 10, gift_date: '2026-03-04' })]
+    );
+
+    expect(pairs).toEqual([{ installmentId: 1, donationId: 10 }]);
+  });
+});
+
+describe('markMissedInstallments', () => {
+  it('should apply each frequency\'s grace period', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rowCount: 3 }) };
+
+    expect(await markMissedInstallments(db, { asOf: '2026-03-15', memberId: 'm-100' })).toBe(3);
+    expect(db.query.mock.calls[0][0]).toContain("WHEN 'weekly' THEN 3");
+    expect(db.query.mock.calls[0][1]).toEqual(['2026-03-15', 'm-100']);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Report Builder Unit Tests
+ *
+ * Tests definition validation, the SQL generated from the whitelists, how
+ * results are mapped and who can see saved reports.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SHAREABLE_ROLES,
+  validateReportDefinition,
+  normalizeReportDefinition,
+  buildReportQuery,
+  runReportDefinition,
+  validateSavedReport,
+  canViewSavedReport,
+  canEditSavedReport,
+  listSavedReports
+} from '../reportBuilder.js';
+
+const codes = (result) => result.errors.map(e => e.split(':')[0]);
+
+describe('validateReportDefinition', () => {
+  it('should accept whitelisted dimensions, measures and filters', () => {
+    const result = validateReportDefinition({
+      dimensions: ['fund', 'quarter'],
+      measures: ['sum', 'distinct_donors'],
+      filters: { paymentMethods: ['check'], campaignIds: ['2'], minAmount: '25' },
+      startDate: '2026-01-01',
+      endDate: '2026-06-30',
+      sort: { by: 'sum', direction: 'desc' },
+      limit: 50,
+      chart: 'line'
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should reject anything outside the whitelists', () => {
+    expect(codes(validateReportDefinition({
+      dimensions: ['fund; DROP TABLE donations'],
+      measures: ['max'],
+      filters: { notes: ['x'] },
+      sort: { by: 'amount' },
+      chart: 'radar'
+    }))).toEqual(['INVALID_DIMENSION', 'INVALID_MEASURE', 'INVALID_FILTER', 'INVALID_SORT', 'INVALID_CHART']);
+  });
+
+  it('should check counts, amounts, dates and limits', () => {
+    expect(codes(validateReportDefinition({
+      dimensions: ['fund', 'month', 'member'],
+      measures: [],
+      filters: { paymentMethods: ['barter'], minAmount: 50, maxAmount: 10 },
+      startDate: '2026-02-01',
+      endDate: '2026-01-01',
+      limit: 5000
+    }))).toEqual([
+      'TOO_MANY_DIMENSIONS',
+      'REQUIRED_MEASURE',
+      'INVALID_FILTER',
+      'INVALID_FILTER',
+      'INVALID_DATE_RANGE',
+      'INVALID_LIMIT'
+    ]);
+    expect(codes(validateReportDefinition(null))).toEqual(['INVALID_DEFINITION']);
+  });
+});
+
+describe('buildReportQuery', () => {
+  it('should pass every value as a parameter and add only the joins needed', () => {
+    const definition = normalizeReportDefinition({
+      dimensions: ['fund'],
+      measures: ['sum'],
+      filters: { funds: [' General ', 'General'], householdIds: ['h-1'] },
+      endDate: '2026-12-31'
+    });
+
+    const { sql, params } = buildReportQuery(definition);
+
+    expect(sql).toContain('LEFT JOIN members m ON m.id = d.member_id');
+    expect(sql).not.toContain('households h');
+    expect(sql).not.toContain('fund_campaigns');
+    expect(sql).toContain('d.fund = ANY($1::text[]) AND m.family_id = ANY($2::text[]) AND d.donation_date < $3::date + 1');
+    expect(sql).toContain('GROUP BY d.fund');
+    expect(sql).toContain('ORDER BY "fund" ASC');
+    expect(params).toEqual([['General'], ['h-1'], '2026-12-31', 101]);
+  });
+
+  it('should restrict a scoped run to the member first', () => {
+    const definition = normalizeReportDefinition({ dimensions: ['campaign'], measures: ['count'] });
+
+    const { sql, params } = buildReportQuery(definition, { memberId: 'm-7' });
+
+    expect(sql).toContain('LEFT JOIN LATERAL');
+    expect(sql).toContain('WHERE d.member_id = $1');
+    expect(params).toEqual(['m-7', 101]);
+  });
+
+  it('should total everything when there are no dimensions', () => {
+    const { sql } = buildReportQuery(normalizeReportDefinition({ measures: ['sum', 'average'] }));
+
+    expect(sql).not.toContain('GROUP BY');
+    expect(sql).not.toContain('ORDER BY');
+  });
+});
+
+describe('runReportDefinition', () => {
+  it('should map measures to numbers and flag a cut-off result', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [
+          { payment_method: 'check', sum: '1200.50', count: '4' },
+          { payment_method: 'cash', sum: '80.00', count: '2' }
+        ]
+      })
+    };
+
+    const result = await runReportDefinition(db, {
+      dimensions: ['payment_method'],
+      measures: ['sum', 'count'],
+      limit: 1
+    });
+
+    expect(result.columns.map(c => c.label)).toEqual(['Payment Method', 'Total', 'Gifts']);
+    expect(result.rows).toEqual([{ payment_method: 'check', sum: 1200.5, count: 4 }]);
+    expect(result.truncated).toBe(true);
+  });
+});
+
+describe('saved reports', () => {
+  const report = { ownerId: 4, sharedRoles: ['auditor'] };
+
+  it('should only share with roles that read reports', () => {
+    expect(SHAREABLE_ROLES).not.toContain('data_entry');
+    expect(codes(validateSavedReport({ name: 'Giving by fund', sharedRoles: ['data_entry'] }))).toEqual(['INVALID_SHARED_ROLES']);
+    expect(codes(validateSavedReport({ name: '' }))).toEqual(['REQUIRED_NAME']);
+  });
+
+  it('should let the owner, shared roles and report managers see a report', () => {
+    expect(canViewSavedReport({ id: 4, role: 'manager' }, report)).toBe(true);
+    expect(canViewSavedReport({ id: 9, role: 'auditor' }, report)).toBe(true);
+    expect(canViewSavedReport({ id: 9, role: 'manager' }, report)).toBe(false);
+    expect(canViewSavedReport({ id: 9, role: 'admin' }, report)).toBe(true);
+  });
+
+  it('should let only the owner and report managers change a report', () => {
+    expect(canEditSavedReport({ id: 4, role: 'manager' }, report)).toBe(true);
+    expect(canEditSavedReport({ id: 9, role: 'auditor' }, report)).toBe(false);
+    expect(canEditSavedReport({ id: 9, role: 'super_admin' }, report)).toBe(true);
+  });
+
+  it('should list a user their own reports and those shared with their role', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    await listSavedReports(db, { id: 9, role: 'auditor' });
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('owner_id = $1 OR $2 = ANY(shared_roles)');
+    expect(params).toEqual([9, 'auditor']);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Report Subscription Unit Tests
+ *
+ * Tests subscription validation, scheduling, how reports are built and
+ * rendered, the inbox channel and how the job claims due subscriptions.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RECIPIENT_ROLES,
+  validateReportSubscription,
+  normalizeReportSubscription,
+  nextRunAt,
+  reportPeriod,
+  buildReport,
+  renderReport,
+  deliverToInbox,
+  runReportSubscriptionJob
+} from '../reportSubscriptions.js';
+
+const validInput = {
+  name: 'Finance committee',
+  reportType: 'quarterly_progress',
+  params: { year: '2026', fund: ' Building ' },
+  format: 'pdf',
+  cadence: 'quarterly',
+  channel: 'inbox',
+  recipientUserIds: ['3', 4, 3]
+};
+
+describe('validateReportSubscription', () => {
+  it('should accept a complete subscription', () => {
+    expect(validateReportSubscription(validInput).isValid).toBe(true);
+  });
+
+  it('should reject unknown options and a bad year', () => {
+    const result = validateReportSubscription({
+      ...validInput,
+      name: ' ',
+      reportType: 'payroll',
+      format: 'xlsx',
+      cadence: 'daily',
+      channel: 'fax',
+      params: { year: '26' }
+    });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'REQUIRED_NAME',
+      'INVALID_REPORT_TYPE',
+      'INVALID_FORMAT',
+      'INVALID_CADENCE',
+      'INVALID_CHANNEL',
+      'INVALID_YEAR'
+    ]);
+  });
+
+  it('should require recipients and only allow addresses for email', () => {
+    expect(validateReportSubscription({ ...validInput, recipientUserIds: [] }).errors[0]).toMatch(/^REQUIRED_RECIPIENTS/);
+    expect(validateReportSubscription({ ...validInput, recipientEmails: ['chair@example.org'] }).errors[0]).toMatch(/^INVALID_RECIPIENTS/);
+    expect(validateReportSubscription({ ...validInput, channel: 'email', recipientEmails: ['not-an-email'] }).errors[0]).toMatch(/^INVALID_EMAIL/);
+    expect(validateReportSubscription({
+      ...validInput,
+      channel: 'email',
+      recipientUserIds: [],
+      recipientEmails: ['chair@example.org']
+    }).isValid).toBe(true);
+  });
+});
+
+describe('normalizeReportSubscription', () => {
+  it('should keep only the params the report takes and dedupe recipients', () => {
+    const subscription = normalizeReportSubscription({ ...validInput, reportType: 'trend_analysis' });
+
+    expect(subscription.params).toEqual({ fund: 'Building' });
+    expect(subscription.recipientUserIds).toEqual([3, 4]);
+    expect(subscription.isActive).toBe(true);
+  });
+});
+
+describe('nextRunAt', () => {
+  const monday = new Date('2026-10-19T15:00:00Z');
+
+  it('should schedule the next Monday, month or quarter after a moment', () => {
+    expect(nextRunAt('weekly', monday).toISOString()).toBe('2026-10-26T12:00:00.000Z');
+    expect(nextRunAt('monthly', monday).toISOString()).toBe('2026-11-01T12:00:00.000Z');
+    expect(nextRunAt('quarterly', monday).toISOString()).toBe('2027-01-01T12:00:00.000Z');
+  });
+
+  it('should use today when the run hour has not passed', () => {
+    expect(nextRunAt('weekly', new Date('2026-10-19T08:00:00Z')).toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(nextRunAt('quarterly', new Date('2026-10-01T08:00:00Z')).toISOString()).toBe('2026-10-01T12:00:00.000Z');
+  });
+});
+
+describe('reportPeriod', () => {
+  it('should describe the period that just ended', () => {
+    expect(reportPeriod('weekly', new Date('2026-10-19T12:00:00Z'))).toEqual({ label: 'Week of Oct 12, 2026', year: 2026 });
+    expect(reportPeriod('monthly', new Date('2026-11-01T12:00:00Z'))).toEqual({ label: 'October 2026', year: 2026 });
+    expect(reportPeriod('quarterly', new Date('2026-01-01T12:00:00Z'))).toEqual({ label: 'Q4 2025', year: 2025 });
+  });
+});
+
+describe('buildReport', () => {
+  it('should compare each quarter with the year before for one fund', async () => {
+    const db = {
+      query: vi.fn().mockResolvedValue({
+        rows: [
+          { year: 2025, quarter: 1, total: '100.00' },
+          { year: 2026, quarter: 1, total: '150.00' },
+          { year: 2026, quarter: 2, total: '80.00' }
+        ]
+      })
+    };
+
+    const report = await buildReport(db, 'quarterly_progress', { fund: 'Building' }, { year: 2026, period: 'Q3 2026' });
+
+    expect(db.query.mock.calls[0][1]).toEqual([2026, 'Building']);
+    expect(report.title).toBe('Quarterly Progress Summary (2026 vs 2025) - Building');
+    expect(report.rows[0]).toEqual({ quarter: 'Q1', previousYear: 100, currentYear: 150, change: 50 });
+    expect(report.rows[1].change).toBeNull();
+    expect(report.rows).toHaveLength(4);
+  });
+
+  it('should reject an unknown report type', async () => {
+    await expect(buildReport({ query: vi.fn() }, 'payroll')).rejects.toThrow('Unknown report type');
+  });
+});
+
+describe('renderReport', () => {
+  it('should write raw values to CSV with a dated filename', async () => {
+    const report = {
+      title: 'Top 10 Fund Distributions (2026)',
+      period: 'October 2026',
+      columns: [
+        { key: 'fund', label: 'Fund', type: 'text' },
+        { key: 'total', label: 'Total', type: 'currency' }
+      ],
+      rows: [{ fund: 'General', total: 1234.5 }]
+    };
+
+    const file = await renderReport(report, 'csv');
+
+    expect(file.filename).toBe('top-10-fund-distributions-2026-october-2026.csv');
+    expect(file.content.toString()).toBe('Fund,Total\nGeneral,1234.50\n');
+  });
+});
+
+describe('deliverToInbox', () => {
+  it('should add the report to each recipient who can still read reports', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ user_id: 3 }] }) };
+
+    const outcome = await deliverToInbox(db, { id: 9 }, { recipientUserIds: [3, 4] });
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT DO NOTHING');
+    expect(params).toEqual([9, [3, 4], RECIPIENT_ROLES]);
+    expect(outcome).toEqual({ recipients: 1, userIds: [3] });
+  });
+});
+
+describe('runReportSubscriptionJob', () => {
+  const dueRow = {
+    id: 5,
+    name: 'Finance committee',
+    report_type: 'new_donors',
+    params: {},
+    format: 'csv',
+    cadence: 'monthly',
+    channel: 'inbox',
+    recipient_user_ids: [3],
+    recipient_emails: [],
+    is_active: true
+  };
+
+  const mockPool = () => {
+    const client = {
+      query: vi.fn(async (sql) => (sql.includes('FOR UPDATE SKIP LOCKED') ? { rows: [dueRow] } : { rows: [] })),
+      release: vi.fn()
+    };
+    const pool = {
+      connect: vi.fn().mockResolvedValue(client),
+      query: vi.fn(async (sql) => {
+        if (sql.includes('FROM settings')) return { rows: [{ name: 'Grace Church' }] };
+        if (sql.includes('INSERT INTO report_deliveries')) return { rows: [{ id: 12, title: 'New Donor List' }] };
+        return { rows: [] };
+      })
+    };
+    return { pool, client };
+  };
+
+  it('should move each due subscription to its next run before delivering it', async () => {
+    const { pool, client } = mockPool();
+    const inbox = vi.fn().mockResolvedValue({ recipients: 1 });
+    const asOf = new Date('2026-11-01T12:05:00Z');
+
+    const results = await runReportSubscriptionJob(pool, { inbox }, { asOf });
+
+    const advance = client.query.mock.calls.find(([sql]) => sql.includes('SET next_run_at'));
+    expect(advance[1]).toEqual([5, new Date('2026-12-01T12:00:00Z')]);
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+
+    const insert = pool.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO report_deliveries'));
+    expect(insert[1].slice(0, 6)).toEqual([
+      '5', 'new_donors', 'New Donor List (Last 30 Days)', 'October 2026', 'csv', 'new-donor-list-last-30-days-october-2026.csv'
+    ]);
+    expect(inbox).toHaveBeenCalledWith(pool, { id: 12, title: 'New Donor List' }, expect.objectContaining({ id: '5' }), { churchName: 'Grace Church' });
+    expect(results[0]).toMatchObject({ delivery: { id: 12 }, recipients: 1 });
+  });
+
+  it('should record a failed delivery on the subscription', async () => {
+    const { pool } = mockPool();
+    const inbox = vi.fn().mockRejectedValue(new Error('disk full'));
+
+    const results = await runReportSubscriptionJob(pool, { inbox }, { asOf: new Date('2026-11-01T12:05:00Z') });
+
+    const failure = pool.query.mock.calls.find(([sql]) => sql.includes('last_error = $3'));
+    expect(failure[1]).toEqual(['5', new Date('2026-11-01T12:05:00Z'), 'disk full']);
+    expect(results[0].error).toBe('disk full');
+  });
+});
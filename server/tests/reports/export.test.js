@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import stream from 'stream';
-import { generateBatchStatement, exportTransactions } from '../../reports';
+import { generateBatchStatement, exportTransactions, generateDepositSlip, getMemberStatement } from '../../reports';
 
 describe('Reports & Export Unit Tests', () => {
   it('generateBatchStatement queries using LEFT JOIN for guest donations', async () => {
@@ -63,4 +63,85 @@ describe('Reports & Export Unit Tests', () => {
     expect(queryText).toContain('LEFT JOIN members m ON d.member_id = m.id');
     expect(queryText).toContain("COALESCE(m.first_name, 'Guest')");
   });
+
+  it('generateDepositSlip itemizes the donations attached to the batch', async () => {
+    const mockPool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [
+          {
+            id: 7,
+            donation_date: '2026-03-01',
+            amount: '50.00',
+            fund: 'Tithes',
+            payment_method: 'cash',
+            check_number: null,
+            first_name: 'Guest',
+            last_name: 'Non-Member',
+            batch_id: 3
+          }
+        ]
+      })
+    };
+    const batch = {
+      id: '3',
+      batchDate: '2026-03-01',
+      description: 'Sunday 11am',
+      expectedCashTotal: 50,
+      expectedCashCount: 1,
+      expectedCheckTotal: 0,
+      expectedCheckCount: 0,
+      expectedTotal: 50,
+      expectedCount: 1,
+      actualTotal: 50,
+      actualCount: 1,
+      actualCashTotal: 50,
+      actualCashCount: 1,
+      actualCheckTotal: 0,
+      actualCheckCount: 0,
+      variance: 0,
+      countVariance: 0,
+      closedBy: 'counter1',
+      closedAt: '2026-03-01T14:00:00Z'
+    };
+
+    const mockRes = new stream.PassThrough();
+    const chunks = [];
+    mockRes.on('data', chunk => chunks.push(chunk));
+    const finished = new Promise(resolve => mockRes.on('end', resolve));
+
+    await generateDepositSlip(mockPool, batch, mockRes);
+    await finished;
+
+    const [queryText, params] = mockPool.query.mock.calls[0];
+    expect(queryText).toContain('WHERE d.batch_id = $1');
+    expect(params).toEqual(['3']);
+    expect(Buffer.concat(chunks).subarray(0, 4).toString()).toBe('%PDF');
+  });
+
+  it('getMemberStatement combines household giving when requested', async () => {
+    const mockPool = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: 'm-2', first_name: 'Mary', last_name: 'Smith', family_id: 'h-1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'h-1', name: 'Smith Household', salutation: null, head_member_id: 'm-1', address: null, joint_statements: true }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'm-1', first_name: 'John', last_name: 'Smith', address: '1 Main St', city: 'Marks', state: 'MS', zip: '38646' },
+            { id: 'm-2', first_name: 'Mary', last_name: 'Smith', address: '1 Main St', city: 'Marks', state: 'MS', zip: '38646' }
+          ]
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 1, donation_date: '2026-01-04', amount: '100.00', fund: 'Tithes', first_name: 'John', last_name: 'Smith' },
+            { id: 2, donation_date: '2026-01-11', amount: '50.00', fund: 'Tithes', first_name: 'Mary', last_name: 'Smith' }
+          ]
+        })
+    };
+
+    const statement = await getMemberStatement(mockPool, 'm-2', '2026', { combineHousehold: true });
+
+    expect(mockPool.query.mock.calls[3][0]).toContain('WHERE m.family_id = $1');
+    expect(statement.member).toMatchObject({ id: 'm-1', displayName: 'John & Mary Smith', address: '1 Main St' });
+    expect(statement.donations.map(d => d.memberName)).toEqual(['John Smith', 'Mary Smith']);
+    expect(statement.summary.totalAmount).toBe(150);
+  });
 });
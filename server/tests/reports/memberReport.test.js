@@ -76,3 +76,19 @@ describe.skip('Member Report PDF Generation', () => {
     expect(mockDoc.text).toHaveBeenCalledWith(expect.stringContaining('No goods or services were provided'), expect.any(Number), expect.any(Number), expect.any(Object));
   });
 });
+
+describe('formatPaymentMethod', () => {
+  it('should include the check number for checks', async () => {
+    const { formatPaymentMethod } = await import('../../reports/memberReport');
+
+    expect(formatPaymentMethod('check', '1043')).toBe('Check #1043');
+    expect(formatPaymentMethod('in_kind', null)).toBe('In-Kind');
+    expect(formatPaymentMethod('ach', null)).toBe('ACH');
+  });
+
+  it('should leave legacy gifts without a method blank', async () => {
+    const { formatPaymentMethod } = await import('../../reports/memberReport');
+
+    expect(formatPaymentMethod(null, null)).toBe('');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Socket Event Routing Unit Tests
+ *
+ * Tests the rooms a socket joins from its token and which rooms each data
+ * event is sent to, so members only hear about their own records.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSocketRooms, getEventTargets, isLockTarget, canLock } from '../socketManager.js';
+
+describe('getSocketRooms', () => {
+  it('should join the role, user and linked member rooms', () => {
+    expect(getSocketRooms({ id: 7, role: 'viewer', memberId: 'm-42' })).toEqual(['role:viewer', 'user:7', 'member:m-42']);
+    expect(getSocketRooms({ id: 2, role: 'manager' })).toEqual(['role:manager', 'user:2']);
+  });
+});
+
+describe('getEventTargets', () => {
+  it('should send donation changes to staff and to the donor\'s own room', () => {
+    const targets = getEventTargets('donation:update', { type: 'CREATE', data: { id: 9, member_id: 'm-42' } });
+
+    expect(targets.rooms).toEqual(['role:super_admin', 'role:admin', 'role:manager', 'role:auditor', 'role:data_entry', 'member:m-42']);
+    expect(targets.except).toEqual([]);
+  });
+
+  it('should route deletes by the member id sent alongside', () => {
+    expect(getEventTargets('donation:update', { type: 'DELETE', id: '9', memberId: 'm-42' }).rooms).toContain('member:m-42');
+  });
+
+  it('should keep bulk and guest changes on the staff feed', () => {
+    const merge = getEventTargets('donation:update', { type: 'MERGE', data: { survivorId: 'm-1', duplicateId: 'm-2' } });
+    const guest = getEventTargets('donation:update', { type: 'CREATE', data: { id: 3, member_id: null } });
+
+    expect(merge.rooms).not.toContain('role:viewer');
+    expect(merge.rooms.some(room => room.startsWith('member:'))).toBe(false);
+    expect(guest.rooms.some(room => room.startsWith('member:'))).toBe(false);
+  });
+
+  it('should only send staff events to roles that can read them', () => {
+    expect(getEventTargets('disbursement:update', { type: 'CREATE', data: {} }).rooms).toEqual([
+      'role:super_admin', 'role:admin', 'role:manager', 'role:auditor', 'role:data_entry'
+    ]);
+    expect(getEventTargets('user:update', { type: 'UPDATE', data: {} }).rooms).toEqual(['role:super_admin', 'role:admin']);
+  });
+
+  it('should deliver inbox reports to their recipients only', () => {
+    expect(getEventTargets('report:update', { type: 'INBOX', data: { userIds: [3, 8] } })).toEqual({ rooms: ['user:3', 'user:8'], except: [] });
+    expect(getEventTargets('report:update', { type: 'RUN', data: {} }).rooms).not.toContain('role:viewer');
+  });
+
+  it('should send fund, settings and lock changes to staff only and keep unknown events off member screens', () => {
+    const staff = ['role:super_admin', 'role:admin', 'role:manager', 'role:data_entry'];
+    expect(getEventTargets('fund:update', { type: 'UPDATE' }).rooms).toEqual(staff);
+    expect(getEventTargets('settings:update', {}).rooms).toEqual(staff);
+    expect(getEventTargets('lock:update').rooms).toEqual(staff);
+    expect(getEventTargets('something:update', {}).rooms).not.toContain('role:viewer');
+  });
+});
+
+describe('isLockTarget', () => {
+  it('should accept lockable records and reject anything that could reach other keys', () => {
+    expect(isLockTarget('member', '5f0c2a9e-1b7d-4c1e-9a53-2f1e4c7d8b90')).toBe(true);
+    expect(isLockTarget('donation', '42')).toBe(true);
+    expect(isLockTarget('settings', 'singleton')).toBe(true);
+    expect(isLockTarget('batch', '1')).toBe(false);
+    expect(isLockTarget('member', 'a:b')).toBe(false);
+    expect(isLockTarget('member', '*')).toBe(false);
+    expect(isLockTarget('member', 7)).toBe(false);
+  });
+});
+
+describe('canLock', () => {
+  it('should only let users who can save a record hold it open', () => {
+    expect(canLock({ role: 'data_entry' }, 'member')).toBe(true);
+    expect(canLock({ role: 'admin' }, 'settings')).toBe(true);
+    expect(canLock({ role: 'viewer' }, 'member')).toBe(false);
+    expect(canLock({ role: 'auditor' }, 'donation')).toBe(false);
+    expect(canLock({ role: 'manager' }, 'user')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Contribution Statement Unit Tests
+ *
+ * Tests deductible amounts, $250 substantiation, template loading,
+ * statement numbering and goods/services validation.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import stream from 'stream';
+import {
+  DEFAULT_DISCLOSURE,
+  getStatementTemplate,
+  getDeductibleAmount,
+  requiresSubstantiation,
+  describeSubstantiation,
+  summarizeGifts,
+  issueStatement
+} from '../statements.js';
+import { validateGoodsServices } from '../validation.js';
+import { generateAnnualStatementPDF } from '../reports/memberReport.js';
+
+const banquetGift = {
+  amount: 300,
+  fund: 'Upkeep',
+  goodsServicesProvided: true,
+  goodsServicesValue: 45.5,
+  goodsServicesDescription: 'Anniversary banquet dinner'
+};
+
+describe('getDeductibleAmount', () => {
+  it('should subtract the value of goods or services received', () => {
+    expect(getDeductibleAmount(banquetGift)).toBe(254.5);
+  });
+
+  it('should ignore a value when nothing was provided', () => {
+    expect(getDeductibleAmount({ amount: 100, goodsServicesProvided: false, goodsServicesValue: 20 })).toBe(100);
+  });
+
+  it('should not deduct gifts to a non-deductible fund', () => {
+    const gift = { amount: 100, fund: 'Fellowship Meals', taxDeductible: false };
+
+    expect(getDeductibleAmount(gift)).toBe(0);
+    expect(describeSubstantiation(gift)).toBe('This gift was made to the Fellowship Meals fund, which is not tax-deductible.');
+  });
+});
+
+describe('substantiation', () => {
+  it('should itemize gifts of $250 or more', () => {
+    expect(requiresSubstantiation({ amount: 250 })).toBe(true);
+    expect(requiresSubstantiation({ amount: 249.99 })).toBe(false);
+  });
+
+  it('should describe quid-pro-quo gifts with the deductible amount', () => {
+    const text = describeSubstantiation(banquetGift);
+
+    expect(text).toContain('Anniversary banquet dinner');
+    expect(text).toContain('$45.50');
+    expect(text).toContain('$254.50');
+    expect(describeSubstantiation({ amount: 500 })).toMatch(/^No goods or services were provided/);
+  });
+
+  it('should total gifts and deductions in cents', () => {
+    const summary = summarizeGifts([banquetGift, { amount: 0.1 }, { amount: 0.2 }]);
+
+    expect(summary).toEqual({
+      totalAmount: 300.3,
+      goodsServicesValue: 45.5,
+      deductibleAmount: 254.8,
+      substantiatedCount: 1
+    });
+  });
+});
+
+describe('getStatementTemplate', () => {
+  it('should fall back to the default disclosure', async () => {
+    const pool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ name: 'Grace Chapel', tax_id: '12-3456789', statement_disclosure: null, statement_signer_name: 'Jane Doe' }]
+      })
+    };
+
+    const template = await getStatementTemplate(pool);
+
+    expect(template).toMatchObject({
+      churchName: 'Grace Chapel',
+      taxId: '12-3456789',
+      disclosure: DEFAULT_DISCLOSURE,
+      signerName: 'Jane Doe'
+    });
+  });
+});
+
+describe('issueStatement', () => {
+  it('should number the statement and link it to the previous issue', async () => {
+    const pool = {
+      query: vi.fn().mockResolvedValue({
+        rows: [{ statement_number: '2026-000042', reissue_of_number: '2026-000017' }]
+      })
+    };
+
+    const issue = await issueStatement(pool, {
+      year: '2026',
+      memberId: 'm-1',
+      summary: { totalAmount: 300, deductibleAmount: 254.5 },
+      issuedBy: 'admin'
+    });
+
+    const [query, params] = pool.query.mock.calls[0];
+    expect(query).toContain('member_id IS NOT DISTINCT FROM $2');
+    expect(params).toEqual(['2026', 'm-1', null, 300, 254.5, 'admin']);
+    expect(issue).toEqual({ statementNumber: '2026-000042', reissueOf: '2026-000017' });
+  });
+});
+
+describe('validateGoodsServices', () => {
+  it('should accept a described benefit within the gift amount', () => {
+    expect(validateGoodsServices(banquetGift).isValid).toBe(true);
+    expect(validateGoodsServices({ amount: 50, goodsServicesProvided: false }).isValid).toBe(true);
+  });
+
+  it('should reject values above the gift and missing descriptions', () => {
+    const result = validateGoodsServices({ amount: 40, goodsServicesProvided: true, goodsServicesValue: 45 });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'INVALID_GOODS_VALUE',
+      'REQUIRED_GOODS_DESCRIPTION'
+    ]);
+  });
+
+  it('should reject a value without the provided flag', () => {
+    const result = validateGoodsServices({ amount: 40, goodsServicesProvided: false, goodsServicesValue: 10 });
+
+    expect(result.errors[0]).toContain('GOODS_VALUE_NOT_ALLOWED');
+  });
+});
+
+describe('generateAnnualStatementPDF', () => {
+  it('should render a statement with substantiation and a signature block', async () => {
+    const res = new stream.PassThrough();
+    const chunks = [];
+    res.on('data', chunk => chunks.push(chunk));
+    const finished = new Promise(resolve => res.on('end', resolve));
+
+    generateAnnualStatementPDF(
+      { firstName: 'Ruth', lastName: 'Boaz', address: '1 Main St', city: 'Marks', state: 'MS', zip: '38646' },
+      [{ ...banquetGift, date: '2026-05-01', paymentMethod: 'check', checkNumber: '1043' }, { amount: 20, fund: 'Tithes', date: '2026-05-08' }],
+      { year: 2026 },
+      null,
+      res,
+      {
+        template: { churchName: 'Grace Chapel', taxId: '12-3456789', intro: 'Dear {name},', disclosure: DEFAULT_DISCLOSURE, signerName: 'Jane Doe', signerTitle: 'Treasurer' },
+        statementNumber: '2026-000042'
+      }
+    );
+    await finished;
+
+    expect(Buffer.concat(chunks).subarray(0, 4).toString()).toBe('%PDF');
+  });
+});
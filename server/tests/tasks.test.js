@@ -0,0 +1,132 @@
+/**
+ * Follow-Up Task Unit Tests
+ *
+ * Tests task validation, the response shape, list filters and the
+ * automatic task helpers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ASSIGNABLE_ROLES,
+  validateTask,
+  mapTask,
+  listTasks,
+  createTask,
+  createNewDonorTasks
+} from '../tasks.js';
+
+describe('validateTask', () => {
+  const valid = { memberId: 'm-100', title: 'Welcome the Smiths', dueDate: '2026-11-01', assignedTo: 4 };
+
+  it('should accept a manual task', () => {
+    expect(validateTask(valid).isValid).toBe(true);
+  });
+
+  it('should require a member and title and check the other fields', () => {
+    const result = validateTask({ title: '  ', origin: 'email', status: 'waiting', dueDate: 'soon', assignedTo: 'pastor' });
+
+    expect(result.errors.map(e => e.split(':')[0])).toEqual([
+      'REQUIRED_MEMBER',
+      'REQUIRED_TITLE',
+      'INVALID_ORIGIN',
+      'INVALID_STATUS',
+      'INVALID_DATE',
+      'INVALID_ASSIGNEE'
+    ]);
+  });
+
+  it('should limit the title length', () => {
+    expect(validateTask({ ...valid, title: 'x'.repeat(201) }).errors[0]).toMatch(/^INVALID_TITLE_LENGTH/);
+  });
+});
+
+describe('mapTask', () => {
+  const row = {
+    id: 7,
+    member_id: 'm-100',
+    first_name: 'Ann',
+    last_name: 'Doe',
+    assigned_to: 4,
+    assignee_username: 'pastor',
+    title: 'Check in with Ann',
+    description: null,
+    origin: 'at_risk',
+    status: 'open',
+    due_date: '2026-10-15',
+    note_count: '2',
+    created_by: null
+  };
+
+  it('should flag open tasks past their due date as overdue', () => {
+    expect(mapTask(row, '2026-10-19')).toMatchObject({
+      id: '7',
+      memberName: 'Ann Doe',
+      assignedTo: 4,
+      assignedToName: 'pastor',
+      dueDate: '2026-10-15',
+      overdue: true,
+      noteCount: 2
+    });
+    expect(mapTask({ ...row, status: 'done' }, '2026-10-19').overdue).toBe(false);
+    expect(mapTask({ ...row, due_date: null }, '2026-10-19').overdue).toBe(false);
+  });
+});
+
+describe('listTasks', () => {
+  it('should filter open tasks for one assignee with pagination', async () => {
+    const pool = {
+      query: vi.fn(async (sql) => {
+        if (sql.startsWith('SELECT COUNT')) return { rows: [{ count: '3' }] };
+        return { rows: [{ id: 1, member_id: 'm-1', title: 'Call', origin: 'manual', status: 'open' }] };
+      })
+    };
+
+    const result = await listTasks(pool, { assignedTo: 4, status: 'active', limit: 1 });
+
+    expect(result.pagination).toEqual({ total: 3, page: 1, limit: 1, totalPages: 3 });
+    expect(pool.query.mock.calls[0][0]).toContain('t.assigned_to = $1 AND t.status = ANY($2)');
+    expect(pool.query.mock.calls[0][1]).toEqual([4, ['open', 'in_progress']]);
+    expect(pool.query.mock.calls[1][1]).toEqual([4, ['open', 'in_progress'], 1, 0]);
+  });
+
+  it('should list unassigned tasks regardless of assignee filter', async () => {
+    const pool = {
+      query: vi.fn(async (sql) => (sql.startsWith('SELECT COUNT') ? { rows: [{ count: '0' }] } : { rows: [] }))
+    };
+
+    await listTasks(pool, { unassigned: 'true', assignedTo: 4 });
+
+    expect(pool.query.mock.calls[0][0]).toContain('t.assigned_to IS NULL');
+    expect(pool.query.mock.calls[0][1]).toEqual([]);
+  });
+});
+
+describe('createTask', () => {
+  it('should return null when the member already has an open task for the reason', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+
+    expect(await createTask(db, { memberId: 'm-1', title: ' Check in ', origin: 'at_risk' })).toBeNull();
+    expect(db.query.mock.calls[0][0]).toContain('ON CONFLICT DO NOTHING');
+    expect(db.query.mock.calls[0][1]).toEqual(['m-1', 'Check in', null, 'at_risk', null, null, null]);
+  });
+});
+
+describe('createNewDonorTasks', () => {
+  it('should skip guest gifts and query each member once', async () => {
+    const db = { query: vi.fn().mockResolvedValue({ rows: [{ id: 3 }] }) };
+
+    expect(await createNewDonorTasks(db, [null])).toEqual([]);
+    expect(db.query).not.toHaveBeenCalled();
+
+    expect(await createNewDonorTasks(db, ['m-1', 'm-1', 'm-2'])).toEqual([{ id: 3 }]);
+    expect(db.query.mock.calls[0][1]).toEqual([['m-1', 'm-2'], 7]);
+  });
+});
+
+describe('ASSIGNABLE_ROLES', () => {
+  it('should include staff who can work tasks but not viewers or auditors', () => {
+    expect(ASSIGNABLE_ROLES).toEqual(expect.arrayContaining(['super_admin', 'admin', 'manager', 'data_entry']));
+    expect(ASSIGNABLE_ROLES).not.toContain('viewer');
+    expect(ASSIGNABLE_ROLES).not.toContain('auditor');
+  });
+});
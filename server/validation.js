@@ -54,7 +54,82 @@ function validateMember(member) {
   };
 }
 
+// Accepted donation payment methods (mirrors donations_payment_method_check)
+const PAYMENT_METHODS = ['cash', 'check', 'card', 'ach', 'online', 'in_kind', 'stock'];
+
+const CHECK_NUMBER_REGEX = /^[A-Za-z0-9-]{1,20}$/;
+
+/**
+ * Validates the payment fields of a donation. For updates, pass the stored
+ * values merged with the request so cross-field rules see the final state.
+ * @param {Object} payment - { paymentMethod, checkNumber, paymentReference }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateDonationPayment(payment) {
+  const errors = [];
+  const { paymentMethod, checkNumber, paymentReference } = payment;
+
+  if (paymentMethod !== undefined && paymentMethod !== null && !PAYMENT_METHODS.includes(paymentMethod)) {
+    errors.push(`INVALID_PAYMENT_METHOD: Payment method must be one of ${PAYMENT_METHODS.join(', ')}.`);
+  }
+
+  if (paymentMethod === 'check') {
+    if (!checkNumber || String(checkNumber).trim().length === 0) {
+      errors.push('REQUIRED_CHECK_NUMBER: Check number is required for check payments.');
+    } else if (!CHECK_NUMBER_REGEX.test(String(checkNumber).trim())) {
+      errors.push('INVALID_CHECK_NUMBER: Check number must be 1-20 letters, digits or dashes.');
+    }
+  } else if (checkNumber) {
+    errors.push('CHECK_NUMBER_NOT_ALLOWED: Check number only applies to check payments.');
+  }
+
+  if (paymentReference && String(paymentReference).length > 100) {
+    errors.push('INVALID_REFERENCE_LENGTH: Payment reference cannot exceed 100 characters.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates the quid-pro-quo fields of a donation: when the donor received
+ * goods or services, their fair market value and a description are needed to
+ * compute the deductible amount. For updates, pass the merged record.
+ * @param {Object} gift - { amount, goodsServicesProvided, goodsServicesValue, goodsServicesDescription }
+ * @returns {Object} result - { isValid: boolean, errors: Array }
+ */
+function validateGoodsServices(gift) {
+  const errors = [];
+  const { amount, goodsServicesProvided, goodsServicesValue, goodsServicesDescription } = gift;
+  const value = goodsServicesValue === undefined || goodsServicesValue === null ? 0 : goodsServicesValue;
+
+  if (goodsServicesProvided) {
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      errors.push('INVALID_GOODS_VALUE: Goods or services value must be zero or a positive number.');
+    } else if (typeof amount === 'number' && value > amount) {
+      errors.push('INVALID_GOODS_VALUE: Goods or services value cannot exceed the gift amount.');
+    }
+    if (!goodsServicesDescription || String(goodsServicesDescription).trim().length === 0) {
+      errors.push('REQUIRED_GOODS_DESCRIPTION: Describe the goods or services provided.');
+    } else if (String(goodsServicesDescription).length > 200) {
+      errors.push('INVALID_GOODS_DESCRIPTION_LENGTH: Description cannot exceed 200 characters.');
+    }
+  } else if (value) {
+    errors.push('GOODS_VALUE_NOT_ALLOWED: A goods or services value requires goodsServicesProvided.');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 module.exports = {
   validateMember,
+  validateDonationPayment,
+  validateGoodsServices,
+  PAYMENT_METHODS,
   REGEX
 };
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocket } from '../contexts/SocketContext';
+import { fetchFunds } from '../lib/api';
+import { Fund } from '../../types';
+
+/**
+ * Loads the fund catalog and reloads it whenever a fund is created,
+ * renamed, archived or deleted.
+ */
+export function useFunds(includeArchived = false) {
+  const { socket } = useSocket();
+  const [funds, setFunds] = useState<Fund[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setFunds(await fetchFunds(includeArchived));
+    } catch (err) {
+      console.error('Failed to load funds', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeArchived]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('fund:update', reload);
+
+    return () => {
+      socket.off('fund:update', reload);
+    };
+  }, [socket, reload]);
+
+  return { funds, loading, reload };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSocket } from '../contexts/SocketContext';
+import { LiveEvent } from '../lib/liveUpdates';
+
+type LiveHandlers = Record<string, (event: LiveEvent) => void>;
+
+/**
+ * Subscribes to socket events while the component is mounted. Events sent
+ * while the socket was down are lost, so `onResync` runs after every
+ * reconnect to reload the visible data from the REST API.
+ */
+export function useLiveEvents(handlers: LiveHandlers, onResync?: () => void) {
+  const { socket } = useSocket();
+  const handlersRef = useRef(handlers);
+  const resyncRef = useRef(onResync);
+  handlersRef.current = handlers;
+  resyncRef.current = onResync;
+
+  const eventNames = Object.keys(handlers).sort().join(',');
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const listeners = eventNames.split(',').filter(Boolean).map(name => {
+      const listener = (event: LiveEvent) => handlersRef.current[name]?.(event);
+      socket.on(name, listener);
+      return { name, listener };
+    });
+    const handleReconnect = () => resyncRef.current?.();
+    socket.io.on('reconnect', handleReconnect);
+
+    return () => {
+      listeners.forEach(({ name, listener }) => socket.off(name, listener));
+      socket.io.off('reconnect', handleReconnect);
+    };
+  }, [socket, eventNames]);
+}
+
+/**
+ * Remembers which records another user just changed so lists can show a
+ * short "Updated by X" highlight. Changes made by the signed-in user are
+ * not highlighted.
+ */
+export function useChangeHighlights(duration = 6000) {
+  const [highlights, setHighlights] = useState<Record<string, string>>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const highlight = useCallback((key: string, by?: string) => {
+    const me = JSON.parse(localStorage.getItem('user') || '{}');
+    if (!by || by === me.username) return;
+
+    clearTimeout(timers.current[key]);
+    setHighlights(prev => ({ ...prev, [key]: by }));
+    timers.current[key] = setTimeout(() => {
+      delete timers.current[key];
+      setHighlights(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }, duration);
+  }, [duration]);
+
+  useEffect(() => () => {
+    Object.values(timers.current).forEach(clearTimeout);
+  }, []);
+
+  return { highlights, highlight };
+}
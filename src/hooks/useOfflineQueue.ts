@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QueuedDonation } from '../../types';
+import { createDonation } from '../lib/api';
+import {
+  QUEUE_CHANGED_EVENT,
+  listQueuedDonations,
+  saveQueuedDonation,
+  removeQueuedDonation,
+  newClientId,
+} from '../lib/offlineStore';
+import { syncQueuedDonations } from '../lib/offlineSync';
+
+const currentUsername = (): string => {
+  try {
+    return JSON.parse(localStorage.getItem('user') || '{}').username || '';
+  } catch {
+    return '';
+  }
+};
+
+// Shared by every component using the hook so the queue is only sent once at a time
+let running: Promise<unknown> | null = null;
+// A gift queued while a run is going may have been missed by it
+let runAgain = false;
+
+const runSync = (username: string): Promise<unknown> => {
+  if (running) {
+    runAgain = true;
+  } else {
+    running = syncQueuedDonations(
+      {
+        list: () => listQueuedDonations(username),
+        save: saveQueuedDonation,
+        remove: removeQueuedDonation,
+      },
+      entry => createDonation(entry.payload, entry.clientId),
+    )
+      .catch(err => console.error('Failed to sync queued donations', err))
+      .finally(() => {
+        running = null;
+        if (runAgain && navigator.onLine) {
+          runAgain = false;
+          runSync(username);
+        }
+      });
+  }
+  return running;
+};
+
+/**
+ * Gifts entered without a connection. They are kept in IndexedDB and posted
+ * in order when the connection returns; each carries its client ID as an
+ * idempotency key, so a post interrupted mid-flight is never recorded twice.
+ */
+export function useOfflineQueue() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [queued, setQueued] = useState<QueuedDonation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  // Read each render so the queue follows whoever is signed in
+  const username = currentUsername();
+
+  const refresh = useCallback(async () => {
+    try {
+      setQueued(await listQueuedDonations(username));
+    } catch (err) {
+      console.error('Failed to read the offline queue', err);
+    }
+  }, [username]);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine || !username) return;
+    setSyncing(true);
+    await runSync(username);
+    setSyncing(false);
+  }, [username]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    refresh();
+    sync();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+    };
+  }, [refresh, sync]);
+
+  const enqueue = useCallback(async (payload: Record<string, any>, donorName: string, clientId = newClientId()) => {
+    await saveQueuedDonation({
+      clientId,
+      payload,
+      donorName,
+      enteredBy: username,
+      queuedAt: Date.now(),
+      lastError: null,
+    });
+  }, [username]);
+
+  // Sends a refused gift again, optionally with changes (e.g. confirming a duplicate check)
+  const retry = useCallback(async (entry: QueuedDonation, payloadChanges: Record<string, any> = {}) => {
+    await saveQueuedDonation({ ...entry, payload: { ...entry.payload, ...payloadChanges }, lastError: null, serverErrors: 0 });
+    await sync();
+  }, [sync]);
+
+  const discard = useCallback((clientId: string) => removeQueuedDonation(clientId), []);
+
+  return {
+    online,
+    queued,
+    // Gifts still to be sent; new gifts go behind these to keep the order
+    pending: queued.filter(entry => !entry.lastError),
+    // Gifts the server refused, waiting for someone to retry or discard them
+    failed: queued.filter(entry => entry.lastError),
+    syncing,
+    enqueue,
+    sync,
+    retry,
+    discard,
+  };
+}
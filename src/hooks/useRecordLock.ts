@@ -1,10 +1,26 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useSocket } from '../contexts/SocketContext';
 
+// Heartbeats renew the server's 90 second lease well before it runs out
+const HEARTBEAT_MS = 30 * 1000;
+// Editors idle this long get a countdown before their lock is given up
+const IDLE_WARNING_MS = 5 * 60 * 1000;
+const IDLE_COUNTDOWN_SECONDS = 60;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+
 interface LockState {
   isLocked: boolean;
   lockedBy: string | null;
-  acquiredAt?: number;
+  expiresAt?: number;
+}
+
+interface LockResponse extends LockState {
+  success: boolean;
+}
+
+export interface LockLoss {
+  reason: 'expired' | 'idle' | 'released' | 'yielded';
+  by?: string;
 }
 
 export function useRecordLock(resourceType: string, resourceId: string | null) {
@@ -20,68 +36,201 @@ export function useRecordLock(resourceType: string, resourceId: string | null) {
       return {};
     }
   });
+  const [isHeld, setIsHeld] = useState(false);
+  const [lockLost, setLockLost] = useState<LockLoss | null>(null);
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const [accessRequestedBy, setAccessRequestedBy] = useState<string | null>(null);
+  const [accessRequested, setAccessRequested] = useState(false);
 
-  // Check initial lock status
+  // Whether this editor still wants the lock, so it is taken as soon as it frees up
+  const wantedRef = useRef(false);
+  const lastActivityRef = useRef(Date.now());
+
+  // Reset when the editor moves to another record
   useEffect(() => {
+    setIsHeld(false);
+    setLockLost(null);
+    setIdleSecondsLeft(null);
+    setAccessRequestedBy(null);
+    setAccessRequested(false);
+    setLockState({ isLocked: false, lockedBy: null });
+  }, [resourceType, resourceId]);
+
+  const acquireLock = useCallback(async (): Promise<boolean> => {
+    if (!socket || !connected || !resourceId) return false;
+    wantedRef.current = true;
+
+    return new Promise((resolve) => {
+      socket.emit('lock:acquire', { resourceType, resourceId }, (response: LockResponse) => {
+        if (response.success) {
+          setLockState({ isLocked: true, lockedBy: currentUser.username, expiresAt: response.expiresAt });
+          setIsHeld(true);
+          setLockLost(null);
+          setAccessRequested(false);
+          lastActivityRef.current = Date.now();
+          resolve(true);
+        } else {
+          setLockState({ isLocked: !!response.lockedBy, lockedBy: response.lockedBy, expiresAt: response.expiresAt });
+          setIsHeld(false);
+          resolve(false);
+        }
+      });
+    });
+  }, [socket, connected, resourceType, resourceId, currentUser.username]);
+
+  const releaseLock = useCallback(async () => {
+    wantedRef.current = false;
+    setIsHeld(false);
+    setIdleSecondsLeft(null);
+    setAccessRequestedBy(null);
+    if (!socket || !connected || !resourceId) return;
+
+    return new Promise<void>((resolve) => {
+      socket.emit('lock:release', { resourceType, resourceId }, () => {
+        setLockState({ isLocked: false, lockedBy: null });
+        resolve();
+      });
+    });
+  }, [socket, connected, resourceType, resourceId]);
+
+  // Hands the record to whoever asked for it; editing resumes only by
+  // taking the lock again
+  const yieldLock = useCallback(async () => {
+    await releaseLock();
+    setLockLost({ reason: 'yielded' });
+  }, [releaseLock]);
+
+  const requestAccess = useCallback(async (): Promise<boolean> => {
+    if (!socket || !connected || !resourceId) return false;
+
+    return new Promise((resolve) => {
+      socket.emit('lock:request-access', { resourceType, resourceId }, (response: LockResponse) => {
+        setAccessRequested(response.success);
+        resolve(response.success);
+      });
+    });
+  }, [socket, connected, resourceType, resourceId]);
+
+  const keepEditing = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setIdleSecondsLeft(null);
+  }, []);
+
+  const checkStatus = useCallback(() => {
     if (!socket || !connected || !resourceId) return;
 
     socket.emit('lock:check', { resourceType, resourceId }, (response: LockState | null) => {
-      if (response) {
-        setLockState({
-          isLocked: response.isLocked,
-          lockedBy: response.lockedBy
-        });
+      if (!response) return;
+      if (!response.isLocked && wantedRef.current) {
+        acquireLock();
+      } else {
+        setLockState({ isLocked: response.isLocked, lockedBy: response.lockedBy, expiresAt: response.expiresAt });
       }
     });
-  }, [socket, connected, resourceType, resourceId]);
+  }, [socket, connected, resourceType, resourceId, acquireLock]);
 
-  // Listen for real-time lock updates
+  // Check initial lock status
+  useEffect(() => {
+    checkStatus();
+  }, [checkStatus]);
+
+  // Listen for real-time lock updates, access requests and admin releases
   useEffect(() => {
     if (!socket || !resourceId) return;
 
     const eventName = `lock:update:${resourceType}:${resourceId}`;
+    const isThisRecord = (data: { resourceType: string; resourceId: string }) =>
+      data.resourceType === resourceType && data.resourceId === resourceId;
 
-    const handleLockUpdate = (data: { isLocked: boolean; lockedBy: string | null }) => {
-      setLockState({
-        isLocked: data.isLocked,
-        lockedBy: data.lockedBy
-      });
+    const handleLockUpdate = (data: LockState) => {
+      if (!data.isLocked && wantedRef.current) {
+        // Freed by its holder or an admin: take it if still waiting
+        acquireLock();
+        return;
+      }
+      setLockState({ isLocked: data.isLocked, lockedBy: data.lockedBy, expiresAt: data.expiresAt });
+    };
+
+    const handleAccessRequest = (data: { resourceType: string; resourceId: string; requestedBy: string }) => {
+      if (isThisRecord(data)) setAccessRequestedBy(data.requestedBy);
+    };
+
+    const handleRevoked = (data: { resourceType: string; resourceId: string; releasedBy: string }) => {
+      if (!isThisRecord(data)) return;
+      wantedRef.current = false;
+      setIsHeld(false);
+      setIdleSecondsLeft(null);
+      setLockLost({ reason: 'released', by: data.releasedBy });
     };
 
     socket.on(eventName, handleLockUpdate);
+    socket.on('lock:access-requested', handleAccessRequest);
+    socket.on('lock:revoked', handleRevoked);
 
     return () => {
       socket.off(eventName, handleLockUpdate);
+      socket.off('lock:access-requested', handleAccessRequest);
+      socket.off('lock:revoked', handleRevoked);
     };
-  }, [socket, resourceType, resourceId]);
+  }, [socket, resourceType, resourceId, acquireLock]);
 
-  const acquireLock = useCallback(async (): Promise<boolean> => {
-    if (!socket || !connected || !resourceId) return false;
+  // Renew the lease while the lock is held. A failed renewal means the
+  // lease ran out (e.g. the connection dropped); try to take it back.
+  useEffect(() => {
+    if (!socket || !connected || !isHeld || !resourceId) return;
 
-    return new Promise((resolve) => {
-      socket.emit('lock:acquire', { resourceType, resourceId }, (response: { success: boolean; lockedBy: string | null }) => {
-        if (response.success) {
-           // We acquired it
-           setLockState({ isLocked: true, lockedBy: currentUser.username }); // Optimistic local update?
-           // Actually, the server broadcasts the event too, but callback confirms ownership
-           resolve(true);
-        } else {
-           resolve(false);
+    const timer = setInterval(() => {
+      socket.emit('lock:heartbeat', { resourceType, resourceId }, async (response: LockResponse) => {
+        if (response.success) return;
+        setIsHeld(false);
+        if (!(await acquireLock())) {
+          wantedRef.current = false;
+          setLockLost({ reason: 'expired' });
         }
       });
-    });
-  }, [socket, connected, resourceType, resourceId, currentUser.username]);
+    }, HEARTBEAT_MS);
 
-  const releaseLock = useCallback(async () => {
-    if (!socket || !connected || !resourceId) return;
+    return () => clearInterval(timer);
+  }, [socket, connected, isHeld, resourceType, resourceId, acquireLock]);
 
-    return new Promise<void>((resolve) => {
-      socket.emit('lock:release', { resourceType, resourceId }, () => {
-        setLockState({ isLocked: false, lockedBy: null });
-        resolve();
-      });
-    });
-  }, [socket, connected, resourceType, resourceId]);
+  // Someone else's lock: look again once its lease would run out
+  useEffect(() => {
+    if (isHeld || !lockState.isLocked || !lockState.expiresAt) return;
+
+    const timer = setTimeout(checkStatus, Math.max(lockState.expiresAt - Date.now(), 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [isHeld, lockState.isLocked, lockState.expiresAt, checkStatus]);
+
+  // Idle editors get a countdown, then the lock is given up for others
+  useEffect(() => {
+    if (!isHeld) return;
+
+    lastActivityRef.current = Date.now();
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+
+    const timer = setInterval(() => {
+      const idleMs = Date.now() - lastActivityRef.current;
+      if (idleMs < IDLE_WARNING_MS) {
+        setIdleSecondsLeft(null);
+        return;
+      }
+      const secondsLeft = IDLE_COUNTDOWN_SECONDS - Math.floor((idleMs - IDLE_WARNING_MS) / 1000);
+      if (secondsLeft > 0) {
+        setIdleSecondsLeft(secondsLeft);
+      } else {
+        releaseLock();
+        setLockLost({ reason: 'idle' });
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+    };
+  }, [isHeld, releaseLock]);
 
   const isLockedByOther = lockState.isLocked && lockState.lockedBy !== currentUser.username;
 
@@ -89,7 +238,18 @@ export function useRecordLock(resourceType: string, resourceId: string | null) {
     isLocked: lockState.isLocked,
     lockedBy: lockState.lockedBy,
     isLockedByOther,
+    // Editing stays off while someone else holds the record or this
+    // editor lost its lock, until it is taken again
+    isReadOnly: isLockedByOther || lockLost !== null,
+    lockLost,
+    idleSecondsLeft,
+    accessRequested,
+    accessRequestedBy,
+    dismissAccessRequest: () => setAccessRequestedBy(null),
     acquireLock,
-    releaseLock
+    releaseLock,
+    yieldLock,
+    requestAccess,
+    keepEditing
   };
 }
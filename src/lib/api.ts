@@ -1,4 +1,4 @@
-import { ChurchSettings, Member, Donation } from "../../types";
+import { ChurchSettings, RecordLock, GlExportFormat, GlExportLog, GlGrouping, GlJournalPreview, GlSettings, FundBudget, BudgetVsActual, Disbursement, DisbursementDecision, DisbursementStatus, FundBalance, AtRiskDonor, DonorContact, DonorRiskLevel, Fund, Member, Donation, AuditLog, DepositBatch, Pledge, PledgeFrequency, RecurringGift, RecurringFrequency, RecurringGiftStatus, RecurringGiftInstallment, RecurringInstallmentStatus, FollowUpTask, TaskNote, TaskAssignee, TaskOrigin, TaskStatus, EmailTemplate, EmailTemplateKey, EmailMessage, EmailJob, EmailStatus, ReportSubscription, ReportRecipient, ReportInboxItem, ReportDefinition, ReportResult, SavedReport, Household, MemberDuplicateCandidate, MergeFieldChoice, MemberMergeResult, MemberImportPreview, MemberImportResult, DonationImport, DonationImportPreview, DonationImportProvider, FundMappingRule } from "../../types";
 
 const API_URL = import.meta.env.VITE_API_URL || "";
 
@@ -22,13 +22,22 @@ async function handleResponse(response: Response) {
   }
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || "API request failed");
+    // Keep the body for errors that carry data, e.g. the current copy of a record on VERSION_CONFLICT
+    const error = new Error(errorData.error || "API request failed") as any;
+    error.response = errorData;
+    error.status = response.status;
+    throw error;
   }
   return response.json();
 }
 
+// Sends the row version the edit was made against; the server answers 409 VERSION_CONFLICT if it has moved on
+function versionHeaders(version?: number) {
+  return version !== undefined ? { ...getAuthHeaders(), "If-Match": `"${version}"` } : getAuthHeaders();
+}
+
 // Helpers to map API responses (snake_case) to Frontend types (camelCase)
-function mapMember(row: any) {
+export function mapMember(row: any) {
   if (!row) return null;
   return {
     id: row.id,
@@ -45,10 +54,12 @@ function mapMember(row: any) {
     createdAt: row.created_at || row.createdAt,
     skills: row.skills || [],
     interests: row.interests || [],
+    acknowledgmentOptOut: (row.acknowledgment_opt_out ?? row.acknowledgmentOptOut) === true,
+    version: row.version,
   };
 }
 
-function mapDonation(row: any) {
+export function mapDonation(row: any) {
   if (!row) return null;
   return {
     id: row.id.toString(),
@@ -59,6 +70,17 @@ function mapDonation(row: any) {
     enteredBy: row.entered_by,
     date: row.donation_date,
     timestamp: row.donation_date,
+    batchId: row.batch_id ? row.batch_id.toString() : null,
+    paymentMethod: row.payment_method || null,
+    checkNumber: row.check_number || null,
+    paymentReference: row.payment_reference || null,
+    goodsServicesProvided: row.goods_services_provided === true,
+    goodsServicesValue: parseFloat(row.goods_services_value) || 0,
+    goodsServicesDescription: row.goods_services_description || null,
+    source: row.source || "manual",
+    externalId: row.external_id || null,
+    importId: row.import_id ? row.import_id.toString() : null,
+    version: row.version,
   };
 }
 
@@ -132,10 +154,10 @@ export async function createMember(member: any) {
   return mapMember(data);
 }
 
-export async function updateMember(id: string, member: any) {
+export async function updateMember(id: string, member: any, version?: number) {
   const response = await fetch(`${API_URL}/api/members/${id}`, {
     method: "PUT",
-    headers: getAuthHeaders(),
+    headers: versionHeaders(version),
     body: JSON.stringify(member),
   });
   const data = await handleResponse(response);
@@ -150,7 +172,7 @@ export async function deleteMember(id: string) {
   return handleResponse(response);
 }
 
-export async function exportData(type: 'donations' | 'members', format: 'csv' | 'json', startDate?: string, endDate?: string, fund?: string) {
+export async function exportData(type: 'donations' | 'members', format: 'csv' | 'json', startDate?: string, endDate?: string, fund?: string, paymentMethod?: string) {
   let url = `${API_URL}/api/export/${type}?format=${format}`;
   if (type === 'donations' && startDate && endDate) {
     url += `&startDate=${startDate}&endDate=${endDate}`;
@@ -158,6 +180,9 @@ export async function exportData(type: 'donations' | 'members', format: 'csv' |
   if (type === 'donations' && fund) {
     url += `&fund=${fund}`;
   }
+  if (type === 'donations' && paymentMethod) {
+    url += `&paymentMethod=${paymentMethod}`;
+  }
   const response = await fetch(url, { headers: getAuthHeaders() });
 
   if (!response.ok) {
@@ -176,6 +201,73 @@ export async function exportData(type: 'donations' | 'members', format: 'csv' |
   a.remove();
 }
 
+// ==========================================
+// GENERAL LEDGER EXPORT API
+// ==========================================
+
+export async function fetchGlSettings(): Promise<GlSettings> {
+  const response = await fetch(`${API_URL}/api/export/gl/settings`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function updateGlSettings(settings: {
+  depositAccount: string;
+  accounts: { fund: string; account: string | null }[];
+}): Promise<GlSettings> {
+  const response = await fetch(`${API_URL}/api/export/gl/settings`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(settings),
+  });
+  return handleResponse(response);
+}
+
+export async function previewGlExport(startDate: string, endDate: string, grouping: GlGrouping): Promise<GlJournalPreview> {
+  const params = new URLSearchParams({ startDate, endDate, grouping });
+  const response = await fetch(`${API_URL}/api/export/gl/preview?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchGlExportHistory(): Promise<GlExportLog[]> {
+  const response = await fetch(`${API_URL}/api/export/gl/history`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function exportGeneralLedger(
+  startDate: string,
+  endDate: string,
+  grouping: GlGrouping,
+  format: GlExportFormat,
+  confirmOverlap = false
+) {
+  const params = new URLSearchParams({ startDate, endDate, grouping, format });
+  if (confirmOverlap) params.append("confirmOverlap", "true");
+  const response = await fetch(`${API_URL}/api/export/gl?${params}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to export general ledger");
+  }
+
+  const blob = await response.blob();
+  const downloadUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = downloadUrl;
+  a.download = `gl-journal-${startDate}-${endDate}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(downloadUrl);
+  a.remove();
+}
+
 export async function fetchMemberReport(id: string) {
   const response = await fetch(`${API_URL}/api/members/${id}/report`, {
     headers: getAuthHeaders(),
@@ -197,8 +289,9 @@ export async function downloadMemberReportPDF(id: string) {
   return response.blob();
 }
 
-export async function fetchMemberStatement(id: string, year: string) {
-  const response = await fetch(`${API_URL}/api/reports/member-statement/${id}?year=${year}`, {
+export async function fetchMemberStatement(id: string, year: string, combineHousehold = false) {
+  const household = combineHousehold ? "&combineHousehold=true" : "";
+  const response = await fetch(`${API_URL}/api/reports/member-statement/${id}?year=${year}${household}`, {
     headers: getAuthHeaders(),
   });
   return handleResponse(response);
@@ -211,8 +304,9 @@ export async function fetchMemberNarrative(id: string, year: string) {
   return handleResponse(response);
 }
 
-export async function downloadMemberStatement(id: string, year: string) {
-  const response = await fetch(`${API_URL}/api/reports/member-statement/${id}?year=${year}&format=pdf`, {
+export async function downloadMemberStatement(id: string, year: string, combineHousehold = false) {
+  const household = combineHousehold ? "&combineHousehold=true" : "";
+  const response = await fetch(`${API_URL}/api/reports/member-statement/${id}?year=${year}&format=pdf${household}`, {
     headers: getAuthHeaders(),
   });
 
@@ -227,7 +321,7 @@ export async function downloadMemberStatement(id: string, year: string) {
 export async function fetchDonations(
   page = 1,
   limit = 50,
-  filters?: { memberId?: string; donorFilter?: string; fund?: string; startDate?: string; endDate?: string }
+  filters?: { memberId?: string; donorFilter?: string; fund?: string; startDate?: string; endDate?: string; batchId?: string; paymentMethod?: string }
 ) {
   const params = new URLSearchParams({
     page: page.toString(),
@@ -238,6 +332,8 @@ export async function fetchDonations(
   if (filters?.fund) params.append("fund", filters.fund);
   if (filters?.startDate) params.append("startDate", filters.startDate);
   if (filters?.endDate) params.append("endDate", filters.endDate);
+  if (filters?.batchId) params.append("batchId", filters.batchId);
+  if (filters?.paymentMethod) params.append("paymentMethod", filters.paymentMethod);
 
   const response = await fetch(`${API_URL}/api/donations?${params}`, {
     headers: getAuthHeaders(),
@@ -245,24 +341,25 @@ export async function fetchDonations(
   return handleResponse(response);
 }
 
-export async function createDonation(donation: any) {
+// `idempotencyKey` makes retries safe: the server replays the gift the key first recorded
+export async function createDonation(donation: any, idempotencyKey?: string) {
   const response = await fetch(`${API_URL}/api/donations`, {
     method: "POST",
-    headers: getAuthHeaders(),
+    headers: idempotencyKey ? { ...getAuthHeaders(), "Idempotency-Key": idempotencyKey } : getAuthHeaders(),
     body: JSON.stringify(donation),
   });
   const data = await handleResponse(response);
   return mapDonation(data);
 }
 
-export async function updateDonation(id: string, donation: any) {
+export async function updateDonation(id: string, donation: any, version?: number) {
   const payload: { [key: string]: any } = { ...donation };
   // payload.donationDate is already in the correct format for the backend
 
 
   const response = await fetch(`${API_URL}/api/donations/${id}`, {
     method: "PUT",
-    headers: getAuthHeaders(),
+    headers: versionHeaders(version),
     body: JSON.stringify(payload),
   });
   const data = await handleResponse(response);
@@ -314,6 +411,13 @@ export async function fetchSelfStatements() {
   return handleResponse(response);
 }
 
+export async function fetchSelfPledges(): Promise<Pledge[]> {
+  const response = await fetch(`${API_URL}/api/self/pledges`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
 export async function fetchSelfOpportunities() {
   const response = await fetch(`${API_URL}/api/self/opportunities`, {
     headers: getAuthHeaders(),
@@ -321,9 +425,10 @@ export async function fetchSelfOpportunities() {
   return handleResponse(response);
 }
 
-export async function downloadBatchStatement(year: string) {
+export async function downloadBatchStatement(year: string, combineHouseholds = false) {
+  const household = combineHouseholds ? "&combineHouseholds=true" : "";
   const response = await fetch(
-    `${API_URL}/api/reports/statements?year=${year}`,
+    `${API_URL}/api/reports/statements?year=${year}${household}`,
     {
       headers: getAuthHeaders(),
     }
@@ -409,6 +514,29 @@ export async function getQuarterlyProgress(year: string) {
   return response.json();
 }
 
+export async function getBudgetVsActual(year: string | number): Promise<BudgetVsActual> {
+  const response = await fetch(`${API_URL}/api/reports/budget-vs-actual?year=${year}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function exportBudgetVsActual(year: string | number, format: "pdf" | "csv") {
+  const response = await fetch(
+    `${API_URL}/api/reports/budget-vs-actual/export?year=${year}&format=${format}`,
+    {
+      headers: getAuthHeaders(),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to export budget vs actual");
+  }
+
+  return response.blob();
+}
+
 export async function getTrendAnalysis() {
   const response = await fetch(`${API_URL}/api/reports/trend-analysis`, {
     headers: getAuthHeaders(),
@@ -445,10 +573,10 @@ export async function fetchMemberSkills(id: string) {
   return handleResponse(response);
 }
 
-export async function updateMemberSkills(id: string, skills: string[], interests: string[]) {
+export async function updateMemberSkills(id: string, skills: string[], interests: string[], version?: number) {
   const response = await fetch(`${API_URL}/api/members/${id}/skills`, {
     method: "PUT",
-    headers: getAuthHeaders(),
+    headers: versionHeaders(version),
     body: JSON.stringify({ skills, interests }),
   });
   return handleResponse(response);
@@ -492,3 +620,1134 @@ export async function updateSettings(settings: ChurchSettings) {
   });
   return handleResponse(response);
 }
+
+// ==========================================
+// FUNDS API
+// ==========================================
+
+export type FundInput = Partial<Pick<Fund, 'code' | 'name' | 'description' | 'isActive' | 'taxDeductible' | 'sortOrder' | 'parentId'>>;
+
+export async function fetchFunds(includeArchived = false): Promise<Fund[]> {
+  const params = includeArchived ? "?includeArchived=true" : "";
+  const response = await fetch(`${API_URL}/api/funds${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createFund(fund: FundInput): Promise<Fund> {
+  const response = await fetch(`${API_URL}/api/funds`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(fund),
+  });
+  return handleResponse(response);
+}
+
+export async function updateFund(id: string, fund: FundInput): Promise<Fund> {
+  const response = await fetch(`${API_URL}/api/funds/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(fund),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteFund(id: string) {
+  const response = await fetch(`${API_URL}/api/funds/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// FUND BUDGETS API
+// ==========================================
+
+export type BudgetInput = Partial<Pick<FundBudget, 'fund' | 'year' | 'annualAmount' | 'distribution' | 'monthlyAmounts' | 'notes'>>;
+
+export async function fetchBudgets(year: number): Promise<FundBudget[]> {
+  const response = await fetch(`${API_URL}/api/budgets?year=${year}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createBudget(budget: BudgetInput): Promise<FundBudget> {
+  const response = await fetch(`${API_URL}/api/budgets`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(budget),
+  });
+  return handleResponse(response);
+}
+
+export async function updateBudget(id: string, budget: BudgetInput): Promise<FundBudget> {
+  const response = await fetch(`${API_URL}/api/budgets/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(budget),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteBudget(id: string) {
+  const response = await fetch(`${API_URL}/api/budgets/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// DISBURSEMENTS API
+// ==========================================
+
+export type DisbursementInput = Partial<Pick<Disbursement, 'payee' | 'amount' | 'fund' | 'date' | 'memo'>>;
+
+export interface DisbursementFilters {
+  status?: DisbursementStatus;
+  fund?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export async function fetchDisbursements(
+  page = 1,
+  limit = 20,
+  filters: DisbursementFilters = {}
+): Promise<{ data: Disbursement[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+
+  const response = await fetch(`${API_URL}/api/disbursements?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createDisbursement(disbursement: DisbursementInput): Promise<Disbursement> {
+  const response = await fetch(`${API_URL}/api/disbursements`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(disbursement),
+  });
+  return handleResponse(response);
+}
+
+export async function updateDisbursement(id: string, disbursement: DisbursementInput): Promise<Disbursement> {
+  const response = await fetch(`${API_URL}/api/disbursements/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(disbursement),
+  });
+  return handleResponse(response);
+}
+
+export async function decideDisbursement(id: string, decision: DisbursementDecision, note?: string): Promise<Disbursement> {
+  const response = await fetch(`${API_URL}/api/disbursements/${id}/decision`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ decision, note }),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteDisbursement(id: string) {
+  const response = await fetch(`${API_URL}/api/disbursements/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+/**
+ * Uploads a receipt or invoice, sent as base64 inside the JSON body.
+ */
+export async function uploadDisbursementAttachment(id: string, file: File): Promise<Disbursement> {
+  const content = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+
+  const response = await fetch(`${API_URL}/api/disbursements/${id}/attachment`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ filename: file.name, contentType: file.type, content }),
+  });
+  return handleResponse(response);
+}
+
+export async function downloadDisbursementAttachment(id: string) {
+  const response = await fetch(`${API_URL}/api/disbursements/${id}/attachment`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to download attachment");
+  }
+
+  return response.blob();
+}
+
+export async function fetchFundBalances(asOf?: string): Promise<FundBalance[]> {
+  const params = new URLSearchParams();
+  if (asOf) params.append("asOf", asOf);
+
+  const response = await fetch(`${API_URL}/api/fund-balances?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function downloadFundActivityStatement(fund: string, startDate: string, endDate: string) {
+  const params = new URLSearchParams({ fund, startDate, endDate });
+  const response = await fetch(`${API_URL}/api/reports/fund-activity?${params}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to generate fund activity statement");
+  }
+
+  return response.blob();
+}
+
+// ==========================================
+// RECORD LOCKS API
+// ==========================================
+
+export async function fetchRecordLocks(): Promise<RecordLock[]> {
+  const response = await fetch(`${API_URL}/api/locks`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function forceReleaseRecordLock(resourceType: string, resourceId: string) {
+  const response = await fetch(
+    `${API_URL}/api/locks/${encodeURIComponent(resourceType)}/${encodeURIComponent(resourceId)}`,
+    {
+      method: "DELETE",
+      headers: getAuthHeaders(),
+    }
+  );
+  return handleResponse(response);
+}
+
+// ==========================================
+// AUDIT TRAIL API
+// ==========================================
+
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actor?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export async function fetchAuditEvents(
+  page = 1,
+  limit = 25,
+  filters: AuditFilters = {}
+): Promise<{ data: AuditLog[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+
+  const response = await fetch(`${API_URL}/api/audit?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// DEPOSIT BATCHES API
+// ==========================================
+
+export async function fetchBatches(
+  page = 1,
+  limit = 20,
+  status?: 'open' | 'closed'
+): Promise<{ data: DepositBatch[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (status) params.append("status", status);
+
+  const response = await fetch(`${API_URL}/api/batches?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchBatch(id: string): Promise<DepositBatch & { donations: Donation[] }> {
+  const response = await fetch(`${API_URL}/api/batches/${id}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createBatch(batch: {
+  batchDate?: string;
+  description?: string;
+  expectedCashTotal?: number;
+  expectedCashCount?: number;
+  expectedCheckTotal?: number;
+  expectedCheckCount?: number;
+}): Promise<DepositBatch> {
+  const response = await fetch(`${API_URL}/api/batches`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(batch),
+  });
+  return handleResponse(response);
+}
+
+export async function closeBatch(id: string, acknowledgeVariance = false): Promise<DepositBatch> {
+  const response = await fetch(`${API_URL}/api/batches/${id}/close`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ acknowledgeVariance }),
+  });
+  return handleResponse(response);
+}
+
+export async function reopenBatch(id: string, reason: string): Promise<DepositBatch> {
+  const response = await fetch(`${API_URL}/api/batches/${id}/reopen`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ reason }),
+  });
+  return handleResponse(response);
+}
+
+export async function downloadDepositSlip(id: string) {
+  const response = await fetch(`${API_URL}/api/batches/${id}/deposit-slip`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to generate deposit slip");
+  }
+
+  return response.blob();
+}
+
+// ==========================================
+// PLEDGES API
+// ==========================================
+
+export interface PledgeInput {
+  memberId?: string;
+  fund?: string;
+  campaignId?: string | null;
+  amount?: number;
+  frequency?: PledgeFrequency;
+  startDate?: string;
+  endDate?: string | null;
+  status?: 'active' | 'cancelled';
+  notes?: string;
+}
+
+export async function fetchPledges(
+  page = 1,
+  limit = 20,
+  filters?: { memberId?: string; fund?: string; campaignId?: string; status?: 'active' | 'cancelled' }
+): Promise<{ data: Pledge[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (filters?.memberId) params.append("memberId", filters.memberId);
+  if (filters?.fund) params.append("fund", filters.fund);
+  if (filters?.campaignId) params.append("campaignId", filters.campaignId);
+  if (filters?.status) params.append("status", filters.status);
+
+  const response = await fetch(`${API_URL}/api/pledges?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createPledge(pledge: PledgeInput): Promise<Pledge> {
+  const response = await fetch(`${API_URL}/api/pledges`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(pledge),
+  });
+  return handleResponse(response);
+}
+
+export async function updatePledge(id: string, pledge: PledgeInput): Promise<Pledge> {
+  const response = await fetch(`${API_URL}/api/pledges/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(pledge),
+  });
+  return handleResponse(response);
+}
+
+export async function deletePledge(id: string) {
+  const response = await fetch(`${API_URL}/api/pledges/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// AT-RISK DONORS API
+// ==========================================
+
+export async function fetchAtRiskDonors(
+  page = 1,
+  limit = 9,
+  filters?: { level?: DonorRiskLevel; includeContacted?: boolean }
+): Promise<{
+  data: AtRiskDonor[];
+  pagination: { total: number; page: number; limit: number; totalPages: number };
+  thresholds: Record<string, number>;
+}> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (filters?.level) params.append("level", filters.level);
+  if (filters?.includeContacted) params.append("includeContacted", "true");
+
+  const response = await fetch(`${API_URL}/api/forecast/at-risk?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function exportAtRiskDonors(level?: DonorRiskLevel) {
+  const params = level ? `?level=${level}` : "";
+  const response = await fetch(`${API_URL}/api/forecast/at-risk/export${params}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to export at-risk donors");
+  }
+
+  return response.blob();
+}
+
+export async function fetchDonorContacts(memberId: string): Promise<DonorContact[]> {
+  const response = await fetch(`${API_URL}/api/forecast/at-risk/${memberId}/contacts`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function recordDonorContact(memberId: string, note: string): Promise<DonorContact> {
+  const response = await fetch(`${API_URL}/api/forecast/at-risk/${memberId}/contacts`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ note }),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// RECURRING GIFTS API
+// ==========================================
+
+export interface RecurringGiftInput {
+  memberId?: string;
+  fund?: string;
+  amount?: number;
+  frequency?: RecurringFrequency;
+  startDate?: string;
+  endDate?: string | null;
+  paymentMethod?: string | null;
+  status?: RecurringGiftStatus;
+  notes?: string;
+}
+
+export async function fetchRecurringGifts(
+  page = 1,
+  limit = 20,
+  filters?: { memberId?: string; fund?: string; status?: RecurringGiftStatus }
+): Promise<{ data: RecurringGift[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (filters?.memberId) params.append("memberId", filters.memberId);
+  if (filters?.fund) params.append("fund", filters.fund);
+  if (filters?.status) params.append("status", filters.status);
+
+  const response = await fetch(`${API_URL}/api/recurring-gifts?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createRecurringGift(gift: RecurringGiftInput): Promise<RecurringGift> {
+  const response = await fetch(`${API_URL}/api/recurring-gifts`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(gift),
+  });
+  return handleResponse(response);
+}
+
+export async function updateRecurringGift(id: string, gift: RecurringGiftInput): Promise<RecurringGift> {
+  const response = await fetch(`${API_URL}/api/recurring-gifts/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(gift),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteRecurringGift(id: string) {
+  const response = await fetch(`${API_URL}/api/recurring-gifts/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchRecurringInstallments(
+  filters?: { recurringGiftId?: string; memberId?: string; status?: RecurringInstallmentStatus; from?: string; to?: string; page?: number; limit?: number }
+): Promise<{ data: RecurringGiftInstallment[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams();
+  if (filters?.recurringGiftId) params.append("recurringGiftId", filters.recurringGiftId);
+  if (filters?.memberId) params.append("memberId", filters.memberId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.from) params.append("from", filters.from);
+  if (filters?.to) params.append("to", filters.to);
+  if (filters?.page) params.append("page", filters.page.toString());
+  if (filters?.limit) params.append("limit", filters.limit.toString());
+
+  const response = await fetch(`${API_URL}/api/recurring-gifts/installments?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function updateRecurringInstallment(
+  id: string,
+  status: 'expected' | 'skipped'
+): Promise<RecurringGiftInstallment> {
+  const response = await fetch(`${API_URL}/api/recurring-gifts/installments/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ status }),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// FOLLOW-UP TASKS API
+// ==========================================
+
+export interface TaskInput {
+  memberId?: string;
+  title?: string;
+  description?: string | null;
+  origin?: TaskOrigin;
+  dueDate?: string | null;
+  assignedTo?: number | null;
+  status?: TaskStatus;
+}
+
+export async function fetchTasks(
+  page = 1,
+  limit = 20,
+  filters?: { assignedTo?: number | 'me'; unassigned?: boolean; status?: TaskStatus | 'active'; origin?: TaskOrigin; memberId?: string }
+): Promise<{ data: FollowUpTask[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (filters?.assignedTo !== undefined) params.append("assignedTo", String(filters.assignedTo));
+  if (filters?.unassigned) params.append("unassigned", "true");
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.origin) params.append("origin", filters.origin);
+  if (filters?.memberId) params.append("memberId", filters.memberId);
+
+  const response = await fetch(`${API_URL}/api/tasks?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function getTask(id: string): Promise<FollowUpTask> {
+  const response = await fetch(`${API_URL}/api/tasks/${id}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createTask(task: TaskInput): Promise<FollowUpTask> {
+  const response = await fetch(`${API_URL}/api/tasks`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(task),
+  });
+  return handleResponse(response);
+}
+
+export async function updateTask(id: string, task: TaskInput): Promise<FollowUpTask> {
+  const response = await fetch(`${API_URL}/api/tasks/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(task),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteTask(id: string) {
+  const response = await fetch(`${API_URL}/api/tasks/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function addTaskNote(id: string, body: string): Promise<TaskNote> {
+  const response = await fetch(`${API_URL}/api/tasks/${id}/notes`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ body }),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchTaskAssignees(): Promise<TaskAssignee[]> {
+  const response = await fetch(`${API_URL}/api/tasks/assignees`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createMissingEmailTasks(assignedTo?: number | null): Promise<{ created: number }> {
+  const response = await fetch(`${API_URL}/api/tasks/missing-emails`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ assignedTo: assignedTo ?? null }),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// EMAIL DELIVERY API
+// ==========================================
+
+export async function fetchEmailTemplates(): Promise<EmailTemplate[]> {
+  const response = await fetch(`${API_URL}/api/email/templates`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function updateEmailTemplate(key: EmailTemplateKey, template: { subject: string; body: string }): Promise<EmailTemplate> {
+  const response = await fetch(`${API_URL}/api/email/templates/${key}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(template),
+  });
+  return handleResponse(response);
+}
+
+export async function resetEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate> {
+  const response = await fetch(`${API_URL}/api/email/templates/${key}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function emailBatchStatements(year: string): Promise<{ job: EmailJob | null; queued: number }> {
+  const response = await fetch(`${API_URL}/api/email/statements`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ year }),
+  });
+  return handleResponse(response);
+}
+
+export async function emailMemberStatement(memberId: string, year: string, combineHousehold = false, to?: string): Promise<EmailMessage> {
+  const response = await fetch(`${API_URL}/api/email/statements/${memberId}`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ year, combineHousehold, to }),
+  });
+  return handleResponse(response);
+}
+
+export async function emailReceipt(donationId: string, to?: string): Promise<EmailMessage> {
+  const response = await fetch(`${API_URL}/api/email/receipts/${donationId}`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ to }),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchEmailJobs(
+  page = 1,
+  limit = 20
+): Promise<{ data: EmailJob[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  const response = await fetch(`${API_URL}/api/email/jobs?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function retryEmailJob(id: string): Promise<{ requeued: number }> {
+  const response = await fetch(`${API_URL}/api/email/jobs/${id}/retry`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchEmailMessages(
+  page = 1,
+  limit = 20,
+  filters?: { jobId?: string; memberId?: string; donationId?: string; status?: EmailStatus; templateKey?: EmailTemplateKey }
+): Promise<{ data: EmailMessage[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (filters?.jobId) params.append("jobId", filters.jobId);
+  if (filters?.memberId) params.append("memberId", filters.memberId);
+  if (filters?.donationId) params.append("donationId", filters.donationId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.templateKey) params.append("templateKey", filters.templateKey);
+
+  const response = await fetch(`${API_URL}/api/email/messages?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function retryEmailMessage(id: string): Promise<EmailMessage> {
+  const response = await fetch(`${API_URL}/api/email/messages/${id}/retry`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// REPORT BUILDER API
+// ==========================================
+
+export async function runCustomReport(definition: ReportDefinition): Promise<ReportResult> {
+  const response = await fetch(`${API_URL}/api/reports/builder`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ definition }),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchSavedReports(): Promise<SavedReport[]> {
+  const response = await fetch(`${API_URL}/api/report-definitions`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function runSavedReport(id: string): Promise<ReportResult> {
+  const response = await fetch(`${API_URL}/api/report-definitions/${id}/run`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createSavedReport(report: { name: string; description?: string | null; definition: ReportDefinition; sharedRoles: string[] }): Promise<SavedReport> {
+  const response = await fetch(`${API_URL}/api/report-definitions`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(report),
+  });
+  return handleResponse(response);
+}
+
+export async function updateSavedReport(id: string, report: { name?: string; description?: string | null; definition?: ReportDefinition; sharedRoles?: string[] }): Promise<SavedReport> {
+  const response = await fetch(`${API_URL}/api/report-definitions/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(report),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteSavedReport(id: string) {
+  const response = await fetch(`${API_URL}/api/report-definitions/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// REPORT SUBSCRIPTIONS API
+// ==========================================
+
+export type ReportSubscriptionInput = Partial<Pick<
+  ReportSubscription,
+  'name' | 'reportType' | 'params' | 'format' | 'cadence' | 'channel' | 'recipientUserIds' | 'recipientEmails' | 'isActive'
+>>;
+
+export async function fetchReportSubscriptions(): Promise<ReportSubscription[]> {
+  const response = await fetch(`${API_URL}/api/report-subscriptions`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchReportRecipients(): Promise<ReportRecipient[]> {
+  const response = await fetch(`${API_URL}/api/report-subscriptions/recipients`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createReportSubscription(subscription: ReportSubscriptionInput): Promise<ReportSubscription> {
+  const response = await fetch(`${API_URL}/api/report-subscriptions`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(subscription),
+  });
+  return handleResponse(response);
+}
+
+export async function updateReportSubscription(id: string, subscription: ReportSubscriptionInput): Promise<ReportSubscription> {
+  const response = await fetch(`${API_URL}/api/report-subscriptions/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(subscription),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteReportSubscription(id: string) {
+  const response = await fetch(`${API_URL}/api/report-subscriptions/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function runReportSubscription(id: string): Promise<{ subscription: ReportSubscription; deliveryId: string; recipients: number }> {
+  const response = await fetch(`${API_URL}/api/report-subscriptions/${id}/run`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function fetchReportInbox(
+  page = 1,
+  limit = 20,
+  unread = false
+): Promise<{ data: ReportInboxItem[]; pagination: { total: number; page: number; limit: number; totalPages: number }; unread: number }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (unread) params.append("unread", "true");
+
+  const response = await fetch(`${API_URL}/api/report-inbox?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function downloadReportInboxItem(id: string) {
+  const response = await fetch(`${API_URL}/api/report-inbox/${id}/download`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to download report");
+  }
+
+  return response.blob();
+}
+
+export async function deleteReportInboxItem(id: string) {
+  const response = await fetch(`${API_URL}/api/report-inbox/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// HOUSEHOLDS API
+// ==========================================
+
+export interface HouseholdInput {
+  name?: string;
+  salutation?: string;
+  headMemberId?: string | null;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  jointStatements?: boolean;
+  memberIds?: string[];
+}
+
+export async function fetchHouseholds(
+  page = 1,
+  limit = 100,
+  search = ""
+): Promise<{ data: Household[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (search) params.append("search", search);
+
+  const response = await fetch(`${API_URL}/api/households?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function getHousehold(id: string): Promise<Household> {
+  const response = await fetch(`${API_URL}/api/households/${id}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createHousehold(household: HouseholdInput): Promise<Household> {
+  const response = await fetch(`${API_URL}/api/households`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(household),
+  });
+  return handleResponse(response);
+}
+
+export async function updateHousehold(id: string, household: HouseholdInput): Promise<Household> {
+  const response = await fetch(`${API_URL}/api/households/${id}`, {
+    method: "PUT",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(household),
+  });
+  return handleResponse(response);
+}
+
+export async function deleteHousehold(id: string) {
+  const response = await fetch(`${API_URL}/api/households/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// Member Duplicates & Merge
+// ==========================================
+
+export async function fetchMemberDuplicates(
+  minScore?: number,
+  memberId?: string
+): Promise<{ data: MemberDuplicateCandidate[] }> {
+  const params = new URLSearchParams();
+  if (minScore) params.append("minScore", minScore.toString());
+  if (memberId) params.append("memberId", memberId);
+
+  const response = await fetch(`${API_URL}/api/members/duplicates?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function mergeMembers(request: {
+  survivorId: string;
+  duplicateId: string;
+  fields: Record<string, MergeFieldChoice>;
+}): Promise<MemberMergeResult> {
+  const response = await fetch(`${API_URL}/api/members/merge`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(request),
+  });
+  return handleResponse(response);
+}
+
+// ==========================================
+// Data Import
+// ==========================================
+
+export type MemberImportField =
+  | "id"
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "telephone"
+  | "address"
+  | "city"
+  | "state"
+  | "zip"
+  | "joinedAt";
+
+export type ImportResolution = "skip" | "update" | "create";
+
+export interface ImportRequest {
+  csv: string;
+  mapping?: Partial<Record<MemberImportField, string>>;
+  resolutions?: Record<number, ImportResolution>;
+}
+
+// Import errors keep the server's details (and headers for mapping errors)
+async function handleImportResponse(response: Response) {
+  if (response.status === 400) {
+    const errorData = await response.json().catch(() => ({}));
+    throw Object.assign(new Error(errorData.error || "Import failed"), errorData);
+  }
+  return handleResponse(response);
+}
+
+export async function previewMemberImport(request: ImportRequest): Promise<MemberImportPreview> {
+  const response = await fetch(`${API_URL}/api/import/members`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...request, dryRun: true }),
+  });
+  return handleImportResponse(response);
+}
+
+export async function commitMemberImport(request: ImportRequest): Promise<MemberImportResult> {
+  const response = await fetch(`${API_URL}/api/import/members`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...request, dryRun: false }),
+  });
+  return handleImportResponse(response);
+}
+
+export interface DonationImportRequest {
+  csv: string;
+  provider: DonationImportProvider;
+  fileName?: string;
+  mapping?: Record<string, string>;
+}
+
+export async function previewDonationImport(request: DonationImportRequest): Promise<DonationImportPreview> {
+  const response = await fetch(`${API_URL}/api/import/donations`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...request, dryRun: true }),
+  });
+  return handleImportResponse(response);
+}
+
+export async function commitDonationImport(request: DonationImportRequest): Promise<DonationImport> {
+  const response = await fetch(`${API_URL}/api/import/donations`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ ...request, dryRun: false }),
+  });
+  return handleImportResponse(response);
+}
+
+export async function fetchDonationImports(
+  status?: "review" | "completed",
+  page = 1,
+  limit = 20
+): Promise<{ data: DonationImport[]; pagination: { total: number; page: number; limit: number; totalPages: number } }> {
+  const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+  if (status) params.append("status", status);
+
+  const response = await fetch(`${API_URL}/api/import/donations?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function getDonationImport(id: string, status?: string): Promise<DonationImport> {
+  const params = status ? `?status=${encodeURIComponent(status)}` : "";
+  const response = await fetch(`${API_URL}/api/import/donations/${id}${params}`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export interface ResolveImportRowInput {
+  action: "import" | "skip";
+  memberId?: string | null;
+  fund?: string;
+  saveFundRule?: boolean;
+}
+
+export async function resolveDonationImportRow(
+  importId: string,
+  rowId: string,
+  input: ResolveImportRowInput
+): Promise<DonationImport> {
+  const response = await fetch(`${API_URL}/api/import/donations/${importId}/rows/${rowId}/resolve`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleImportResponse(response);
+}
+
+export async function fetchFundRules(): Promise<FundMappingRule[]> {
+  const response = await fetch(`${API_URL}/api/import/fund-rules`, {
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
+
+export async function createFundRule(rule: {
+  provider: DonationImportProvider | null;
+  matchValue: string;
+  fund: string;
+}): Promise<FundMappingRule> {
+  const response = await fetch(`${API_URL}/api/import/fund-rules`, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify(rule),
+  });
+  return handleImportResponse(response);
+}
+
+export async function deleteFundRule(id: string) {
+  const response = await fetch(`${API_URL}/api/import/fund-rules/${id}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  return handleResponse(response);
+}
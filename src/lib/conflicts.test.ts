@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { diffFields, mergeFields } from './conflicts';
+
+const base = { firstName: 'Ruth', city: 'Jackson', zip: '39201', email: '' };
+const keys = ['firstName', 'city', 'zip', 'email'] as (keyof typeof base)[];
+
+describe('diffFields', () => {
+  it('lists only fields that differ, suggesting whoever changed them', () => {
+    const mine = { ...base, firstName: 'Ruthie', email: 'ruth@example.org' };
+    const theirs = { ...base, city: 'Clinton', email: 'r@example.org' };
+
+    expect(diffFields(base, mine, theirs, keys)).toEqual([
+      { key: 'firstName', mine: 'Ruthie', theirs: 'Ruth', conflict: false, choice: 'mine' },
+      { key: 'city', mine: 'Jackson', theirs: 'Clinton', conflict: false, choice: 'theirs' },
+      { key: 'email', mine: 'ruth@example.org', theirs: 'r@example.org', conflict: true, choice: 'mine' },
+    ]);
+  });
+
+  it('treats blank and missing values as the same', () => {
+    expect(diffFields(base, { ...base, email: undefined as any }, base, keys)).toEqual([]);
+  });
+});
+
+describe('mergeFields', () => {
+  it('takes the server value for fields resolved to theirs', () => {
+    const mine = { ...base, firstName: 'Ruthie' };
+    const theirs = { ...base, city: 'Clinton' };
+
+    expect(mergeFields(mine, theirs, { firstName: 'mine', city: 'theirs' })).toEqual({ ...base, firstName: 'Ruthie', city: 'Clinton' });
+  });
+});
@@ -0,0 +1,52 @@
+export type MergeChoice = 'mine' | 'theirs';
+
+/** A form field that differs between this editor's copy and the server's */
+export interface FieldDifference {
+  key: string;
+  mine: unknown;
+  theirs: unknown;
+  // Both sides changed it away from the loaded copy, so someone has to pick
+  conflict: boolean;
+  // Suggested side: whoever actually changed the field
+  choice: MergeChoice;
+}
+
+const same = (a: unknown, b: unknown) => String(a ?? '') === String(b ?? '');
+
+/**
+ * Three-way comparison of an edit form after a version conflict. `base` is
+ * the copy the form was loaded from, `mine` what this editor is saving and
+ * `theirs` the server's current copy, all as form values.
+ */
+export const diffFields = <T extends Record<string, unknown>>(
+  base: T,
+  mine: T,
+  theirs: T,
+  keys: (keyof T & string)[],
+): FieldDifference[] =>
+  keys
+    .filter(key => !same(mine[key], theirs[key]))
+    .map(key => {
+      const changedByMe = !same(base[key], mine[key]);
+      const changedByThem = !same(base[key], theirs[key]);
+      return {
+        key,
+        mine: mine[key],
+        theirs: theirs[key],
+        conflict: changedByMe && changedByThem,
+        choice: changedByMe ? 'mine' : 'theirs',
+      };
+    });
+
+/** Builds the values to save from the side chosen for each differing field */
+export const mergeFields = <T extends Record<string, unknown>>(
+  mine: T,
+  theirs: T,
+  choices: Record<string, MergeChoice>,
+): T => {
+  const merged = { ...mine };
+  Object.entries(choices).forEach(([key, choice]) => {
+    if (choice === 'theirs') (merged as Record<string, unknown>)[key] = theirs[key];
+  });
+  return merged;
+};
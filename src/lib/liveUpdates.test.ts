@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { mergeRecord, applyDonationChange, applyMemberChange } from './liveUpdates';
+import { Donation, DonationSummary } from '../../types';
+
+const donation = (id: string, amount: number, fund: string, date: string) =>
+  ({ id, memberId: 'm-1', amount, fund, date, timestamp: date, enteredBy: 'counter' }) as Donation;
+
+const summary: DonationSummary = {
+  totalDonations: 300,
+  donationCount: 3,
+  avgDonation: 100,
+  donorCount: 2,
+  totalMembers: 10,
+  newMembersThisWeek: 1,
+  currentMonthDonations: 100,
+  lastMonthDonations: 200,
+  currentYearDonations: 300,
+  avgRecent: 100,
+  avgPrevious: 100,
+  fundDistribution: [{ name: 'General', value: 200 }, { name: 'Missions', value: 100 }],
+};
+
+const now = new Date(2026, 4, 20);
+
+describe('mergeRecord', () => {
+  const list = [{ id: '1', name: 'a' }, { id: '2', name: 'b' }];
+
+  it('replaces updated records in place and removes deleted ones', () => {
+    expect(mergeRecord(list, 'UPDATE', '2', { id: '2', name: 'B' })).toEqual([{ id: '1', name: 'a' }, { id: '2', name: 'B' }]);
+    expect(mergeRecord(list, 'DELETE', '1', null)).toEqual([{ id: '2', name: 'b' }]);
+  });
+
+  it('inserts created records up to the page size and ignores updates to records off the page', () => {
+    expect(mergeRecord(list, 'CREATE', '3', { id: '3', name: 'c' }, { limit: 2 })).toEqual([{ id: '3', name: 'c' }, { id: '1', name: 'a' }]);
+    expect(mergeRecord(list, 'CREATE', '3', { id: '3', name: 'c' }, { insert: 'none' })).toBe(list);
+    expect(mergeRecord(list, 'UPDATE', '9', { id: '9', name: 'z' })).toBe(list);
+  });
+});
+
+describe('applyDonationChange', () => {
+  it('adds a new gift to the totals, period and fund', () => {
+    const result = applyDonationChange(summary, null, donation('4', 50, 'Building', '2026-05-10T12:00:00'), now);
+
+    expect(result.totalDonations).toBe(350);
+    expect(result.donationCount).toBe(4);
+    expect(result.avgDonation).toBe(87.5);
+    expect(result.currentMonthDonations).toBe(150);
+    expect(result.currentYearDonations).toBe(350);
+    expect(result.fundDistribution).toContainEqual({ name: 'Building', value: 50 });
+  });
+
+  it('moves an edited gift between funds and months', () => {
+    const before = donation('1', 100, 'Missions', '2026-04-02T12:00:00');
+    const after = donation('1', 120, 'General', '2026-05-02T12:00:00');
+    const result = applyDonationChange(summary, before, after, now);
+
+    expect(result.totalDonations).toBe(320);
+    expect(result.donationCount).toBe(3);
+    expect(result.lastMonthDonations).toBe(100);
+    expect(result.currentMonthDonations).toBe(220);
+    expect(result.fundDistribution).toEqual([{ name: 'General', value: 320 }]);
+  });
+
+  it('takes a deleted gift back out', () => {
+    const result = applyDonationChange(summary, donation('1', 100, 'Missions', '2026-05-02T12:00:00'), null, now);
+
+    expect(result.totalDonations).toBe(200);
+    expect(result.donationCount).toBe(2);
+    expect(result.currentMonthDonations).toBe(0);
+  });
+});
+
+describe('applyMemberChange', () => {
+  it('counts new and removed members', () => {
+    expect(applyMemberChange(summary, 'CREATE')).toMatchObject({ totalMembers: 11, newMembersThisWeek: 2 });
+    expect(applyMemberChange(summary, 'DELETE').totalMembers).toBe(9);
+    expect(applyMemberChange(summary, 'UPDATE')).toBe(summary);
+  });
+});
@@ -0,0 +1,120 @@
+import { Donation, DonationSummary } from '../../types';
+
+export type LiveEventType = 'CREATE' | 'UPDATE' | 'DELETE' | string;
+
+/** Payload of a `member:update` / `donation:update` socket event */
+export interface LiveEvent<T = any> {
+  type: LiveEventType;
+  id?: string;
+  memberId?: string | null;
+  data?: T;
+  previous?: T;
+  by?: string;
+}
+
+/** True for single-record changes that can be merged without a refetch */
+export const isRecordChange = (event: LiveEvent) => ['CREATE', 'UPDATE', 'DELETE'].includes(event.type);
+
+interface MergeOptions {
+  // Where a created record goes when it is not already listed
+  insert?: 'start' | 'end' | 'none';
+  // Page size to trim back to after inserting
+  limit?: number;
+}
+
+/**
+ * Applies a create/update/delete to a visible list. Updates only touch
+ * records already on screen; records on other pages are left to the next
+ * fetch.
+ */
+export const mergeRecord = <T extends { id: string }>(
+  list: T[],
+  type: LiveEventType,
+  id: string,
+  record: T | null,
+  { insert = 'start', limit }: MergeOptions = {},
+): T[] => {
+  const key = String(id);
+  const index = list.findIndex(item => String(item.id) === key);
+
+  if (type === 'DELETE') {
+    return index === -1 ? list : list.filter((_, i) => i !== index);
+  }
+  if (!record) return list;
+  if (index !== -1) {
+    return list.map((item, i) => (i === index ? record : item));
+  }
+  if (type !== 'CREATE' || insert === 'none') return list;
+
+  const next = insert === 'start' ? [record, ...list] : [...list, record];
+  return limit ? next.slice(0, limit) : next;
+};
+
+const addCents = (a: number, b: number) => Math.round((a + b) * 100) / 100;
+
+const periodDeltas = (donation: Donation, sign: number, now: Date) => {
+  const date = new Date(donation.date || donation.timestamp);
+  const amount = sign * (Number(donation.amount) || 0);
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const yearStart = new Date(now.getFullYear(), 0, 1);
+  return {
+    currentMonth: date >= monthStart ? amount : 0,
+    lastMonth: date >= lastMonthStart && date < monthStart ? amount : 0,
+    currentYear: date >= yearStart ? amount : 0,
+  };
+};
+
+/**
+ * Moves the dashboard totals by one donation change: `previous` is taken
+ * out (updates and deletes) and `next` is added in (creates and updates).
+ * Distinct donor counts and the 30-day averages cannot be derived from a
+ * single gift, so those wait for the next summary fetch.
+ */
+export const applyDonationChange = (
+  summary: DonationSummary,
+  previous: Donation | null,
+  next: Donation | null,
+  now = new Date(),
+): DonationSummary => {
+  const result = { ...summary, fundDistribution: [...summary.fundDistribution] };
+
+  const apply = (donation: Donation, sign: number) => {
+    const amount = sign * (Number(donation.amount) || 0);
+    const periods = periodDeltas(donation, sign, now);
+    result.totalDonations = addCents(result.totalDonations, amount);
+    result.donationCount += sign;
+    result.currentMonthDonations = addCents(result.currentMonthDonations, periods.currentMonth);
+    result.lastMonthDonations = addCents(result.lastMonthDonations, periods.lastMonth);
+    result.currentYearDonations = addCents(result.currentYearDonations, periods.currentYear);
+
+    const fund = result.fundDistribution.find(f => f.name === donation.fund);
+    if (fund) {
+      result.fundDistribution = result.fundDistribution.map(f =>
+        f === fund ? { ...f, value: addCents(f.value, amount) } : f,
+      );
+    } else if (sign > 0) {
+      result.fundDistribution.push({ name: donation.fund, value: amount });
+    }
+  };
+
+  if (previous) apply(previous, -1);
+  if (next) apply(next, 1);
+
+  result.fundDistribution = result.fundDistribution
+    .filter(f => f.value > 0)
+    .sort((a, b) => b.value - a.value);
+  result.avgDonation = result.donationCount > 0 ? result.totalDonations / result.donationCount : 0;
+  return result;
+};
+
+/** Keeps the member counts on the dashboard in step with member changes */
+export const applyMemberChange = (summary: DonationSummary, type: LiveEventType): DonationSummary => {
+  if (type === 'CREATE') {
+    return { ...summary, totalMembers: summary.totalMembers + 1, newMembersThisWeek: summary.newMembersThisWeek + 1 };
+  }
+  if (type === 'DELETE') {
+    return { ...summary, totalMembers: Math.max(0, summary.totalMembers - 1) };
+  }
+  return summary;
+};
@@ -0,0 +1,119 @@
+import { Member, QueuedDonation } from '../../types';
+import { fetchMembers } from './api';
+
+// IndexedDB keeps gifts entered without a connection, and a copy of the
+// member list so donors can still be looked up while offline
+const DB_NAME = 'gracegiver-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'donationQueue';
+const MEMBER_STORE = 'memberLookup';
+const LOOKUP_PAGE_SIZE = 500;
+
+/** Fired on window whenever the donation queue changes */
+export const QUEUE_CHANGED_EVENT = 'gracegiver:offline-queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'clientId' });
+        }
+        if (!db.objectStoreNames.contains(MEMBER_STORE)) {
+          db.createObjectStore(MEMBER_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves once it has committed
+const withStore = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  work: (objectStore: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = work(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** ID for a new gift, used as its Idempotency-Key. randomUUID needs HTTPS; plain HTTP on the LAN falls back. */
+export const newClientId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+/** Queued gifts for `username`, oldest first */
+export async function listQueuedDonations(username: string): Promise<QueuedDonation[]> {
+  const all = await withStore<QueuedDonation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return all
+    .filter(entry => entry.enteredBy === username)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function saveQueuedDonation(entry: QueuedDonation) {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(entry));
+  notifyQueueChanged();
+}
+
+export async function removeQueuedDonation(clientId: string) {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(clientId));
+  notifyQueueChanged();
+}
+
+// Only what the donor picker shows is kept on the device
+const toLookupEntry = (member: Member) => ({
+  id: member.id,
+  firstName: member.firstName,
+  lastName: member.lastName,
+  email: member.email,
+  city: member.city,
+  state: member.state,
+});
+
+/** Replaces the offline member list with a fresh copy from the server */
+export async function refreshMemberLookup() {
+  const members: Member[] = [];
+  for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+    const result = await fetchMembers(page, LOOKUP_PAGE_SIZE);
+    members.push(...result.data);
+    totalPages = result.pagination.totalPages;
+  }
+  await withStore(MEMBER_STORE, 'readwrite', store => {
+    store.clear();
+    members.forEach(member => store.put(toLookupEntry(member)));
+  });
+}
+
+/** Searches the offline member list by name or email, like the server does */
+export async function searchMemberLookup(term: string, limit = 10): Promise<Member[]> {
+  const needle = term.trim().toLowerCase();
+  const all = await withStore<Member[]>(MEMBER_STORE, 'readonly', store => store.getAll());
+  return all
+    .filter(member => [member.firstName, member.lastName, member.email].some(value => value?.toLowerCase().includes(needle)))
+    .sort((a, b) => (a.lastName || '').localeCompare(b.lastName || '') || (a.firstName || '').localeCompare(b.firstName || ''))
+    .slice(0, limit);
+}
+
+/** Drops the offline member list, e.g. on logout. Queued gifts are kept. */
+export async function clearMemberLookup() {
+  await withStore(MEMBER_STORE, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { syncQueuedDonations, DonationQueue, MAX_SERVER_ERRORS } from './offlineSync';
+import { QueuedDonation } from '../../types';
+
+const entry = (clientId: string, queuedAt: number, lastError: string | null = null): QueuedDonation => ({
+  clientId,
+  payload: { amount: 10 },
+  donorName: 'Guest',
+  enteredBy: 'counter',
+  queuedAt,
+  lastError,
+});
+
+const memoryQueue = (entries: QueuedDonation[]) => {
+  const store = new Map(entries.map(e => [e.clientId, e]));
+  const queue: DonationQueue = {
+    list: async () => [...store.values()].sort((a, b) => a.queuedAt - b.queuedAt),
+    save: async (e) => { store.set(e.clientId, e); },
+    remove: async (clientId) => { store.delete(clientId); },
+  };
+  return { queue, store };
+};
+
+const refused = (code: string) => Object.assign(new Error(code), { status: 409 });
+const serverError = () => Object.assign(new Error('Internal server error'), { status: 500 });
+
+describe('syncQueuedDonations', () => {
+  it('posts queued gifts oldest first and removes them', async () => {
+    const { queue, store } = memoryQueue([entry('b', 2), entry('a', 1)]);
+    const send = vi.fn().mockResolvedValue({});
+
+    expect(await syncQueuedDonations(queue, send)).toEqual({ synced: 2, failed: 0, interrupted: false });
+    expect(send.mock.calls.map(([e]) => e.clientId)).toEqual(['a', 'b']);
+    expect(store.size).toBe(0);
+  });
+
+  it('keeps refused gifts with their error and carries on', async () => {
+    const { queue, store } = memoryQueue([entry('a', 1), entry('b', 2), entry('c', 3, 'BATCH_LOCKED')]);
+    const send = vi.fn().mockRejectedValueOnce(refused('DUPLICATE_CHECK_NUMBER')).mockResolvedValue({});
+
+    expect(await syncQueuedDonations(queue, send)).toEqual({ synced: 1, failed: 1, interrupted: false });
+    expect(store.get('a')?.lastError).toBe('DUPLICATE_CHECK_NUMBER');
+    expect(store.has('b')).toBe(false);
+    // Gifts already waiting on someone are not resent
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the connection drops so the rest stay in order', async () => {
+    const { queue, store } = memoryQueue([entry('a', 1), entry('b', 2)]);
+    const send = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    expect(await syncQueuedDonations(queue, send)).toEqual({ synced: 0, failed: 0, interrupted: true });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(store.get('a')?.lastError).toBeNull();
+  });
+
+  it('stops on a server error and sets the gift aside once it keeps failing', async () => {
+    const { queue, store } = memoryQueue([entry('a', 1), entry('b', 2)]);
+    const send = vi.fn(async (e: QueuedDonation) => {
+      if (e.clientId === 'a') throw serverError();
+      return {};
+    });
+
+    for (let run = 1; run < MAX_SERVER_ERRORS; run++) {
+      expect(await syncQueuedDonations(queue, send)).toEqual({ synced: 0, failed: 0, interrupted: true });
+      expect(store.get('a')?.serverErrors).toBe(run);
+    }
+    expect(await syncQueuedDonations(queue, send)).toEqual({ synced: 1, failed: 1, interrupted: false });
+    expect(store.get('a')?.lastError).toBe('SERVER_ERROR');
+    expect(store.has('b')).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { QueuedDonation } from '../../types';
+
+/** True when a request failed for lack of a connection rather than being answered */
+export const isNetworkError = (error: any) => !navigator.onLine || error instanceof TypeError;
+
+const isServerError = (error: any) => typeof error?.status === 'number' && error.status >= 500;
+
+// Server errors in a row before a gift is set aside for someone to look at
+export const MAX_SERVER_ERRORS = 3;
+
+export interface DonationQueue {
+  list: () => Promise<QueuedDonation[]>;
+  save: (entry: QueuedDonation) => Promise<void>;
+  remove: (clientId: string) => Promise<void>;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  // The connection dropped again before the queue was through
+  interrupted: boolean;
+}
+
+/**
+ * Posts queued gifts oldest first. A gift the server refuses (closed batch,
+ * duplicate check, validation) keeps its error and is skipped until someone
+ * retries or discards it; losing the connection stops the run so the rest
+ * go later, still in order. A server error also stops the run, but after
+ * MAX_SERVER_ERRORS in a row the gift is set aside so it cannot hold up
+ * the rest for good.
+ */
+export async function syncQueuedDonations(
+  queue: DonationQueue,
+  send: (entry: QueuedDonation) => Promise<unknown>,
+): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, interrupted: false };
+
+  for (const entry of await queue.list()) {
+    if (entry.lastError) continue;
+    try {
+      await send(entry);
+      await queue.remove(entry.clientId);
+      result.synced++;
+    } catch (error: any) {
+      // Offline again, or the session expired: the rest wait for the next run
+      if (isNetworkError(error) || error.message === 'Unauthorized') {
+        result.interrupted = true;
+        break;
+      }
+      if (isServerError(error)) {
+        const serverErrors = (entry.serverErrors || 0) + 1;
+        if (serverErrors < MAX_SERVER_ERRORS) {
+          await queue.save({ ...entry, serverErrors });
+          result.interrupted = true;
+          break;
+        }
+        await queue.save({ ...entry, serverErrors, lastError: 'SERVER_ERROR' });
+        result.failed++;
+        continue;
+      }
+      await queue.save({ ...entry, lastError: error.message || 'SYNC_FAILED' });
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,18 @@
+import { SessionUser } from '../../types';
+
+/** The user stored at login, or null when signed out */
+export const readSessionUser = (): SessionUser | null => {
+  try {
+    return JSON.parse(localStorage.getItem('user') || 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the login response granted `permission`. The server expands
+ * `resource:*` to read/create/update/delete and sends `*` for super admins;
+ * anything else has its own flag on SessionUser.
+ */
+export const hasPermission = (user: SessionUser | null, permission: string) =>
+  !!user?.permissions && (user.permissions.includes('*') || user.permissions.includes(permission));
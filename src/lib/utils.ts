@@ -26,3 +26,20 @@ export const cleanInput = (field: string, value: string) => {
       return value;
   }
 };
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const downloadCsv = (filename: string, rows: unknown[][]) => {
+  const csv = rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+  const downloadUrl = window.URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = downloadUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(downloadUrl);
+  a.remove();
+};
@@ -13,31 +13,497 @@ export interface Member {
   createdAt: string;
   skills?: string[];
   interests?: string[];
+  acknowledgmentOptOut?: boolean;
+  // Row version, sent back in If-Match when saving an edit
+  version?: number;
 }
 
-export enum FundType {
-  BENEVOLENCE = "Benevolence",
-  CHURCH_SCHOOL = "Church School",
-  LAY = "Lay",
-  OFFERING = "Offering",
-  OTHER = "Other",
-  REVIVAL = "Revival",
-  TITHES = "Tithes",
-  UPKEEP = "Upkeep",
-  WMS = "WMS",
-  YPD = "YPD",
+export interface Fund {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  taxDeductible: boolean;
+  sortOrder: number;
+  parentId: string | null;
+  parentName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetDistribution = 'even' | 'seasonal' | 'custom';
+
+export interface FundBudget {
+  id: string;
+  fund: string;
+  year: number;
+  annualAmount: number;
+  distribution: BudgetDistribution;
+  monthlyAmounts: number[];
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetLineSummary {
+  fund: string;
+  annualBudget: number;
+  ytdBudget: number;
+  ytdActual: number;
+  variance: number;
+  pacePercent: number | null;
+  projected: number | null;
+  remaining: number;
+  months: { month: number; label: string; budget: number; actual: number; variance: number }[];
+}
+
+export interface BudgetVsActual {
+  year: number;
+  asOf: string;
+  funds: (BudgetLineSummary & { budgetId: string })[];
+  totals: BudgetLineSummary;
+}
+
+export type DisbursementStatus = 'pending' | 'approved' | 'rejected' | 'void';
+
+export type DisbursementDecision = 'approve' | 'reject' | 'void';
+
+export interface Disbursement {
+  id: string;
+  payee: string;
+  amount: number;
+  fund: string;
+  date: string;
+  memo: string | null;
+  status: DisbursementStatus;
+  requestedBy: string | null;
+  requestedById: number | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+  attachmentName: string | null;
+  attachmentType: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FundBalance {
+  fund: string;
+  isActive: boolean;
+  receipts: number;
+  disbursed: number;
+  pending: number;
+  balance: number;
+}
+
+export type GlExportFormat = 'iif' | 'csv' | 'ofx';
+
+export type GlGrouping = 'daily' | 'batch';
+
+export interface GlSettings {
+  depositAccount: string | null;
+  funds: { fund: string; code: string; isActive: boolean; account: string | null }[];
+}
+
+export interface GlJournalLine {
+  account: string | null;
+  fund: string | null;
+  debit: number;
+  credit: number;
+  memo: string;
+}
+
+export interface GlJournalEntry {
+  reference: string;
+  date: string;
+  memo: string;
+  batchId: string | null;
+  total: number;
+  lines: GlJournalLine[];
+}
+
+export interface GlExportLog {
+  id: string;
+  startDate: string;
+  endDate: string;
+  format: GlExportFormat | null;
+  grouping: GlGrouping | null;
+  exportedBy: string | null;
+  exportedAt: string;
+}
+
+export interface GlJournalPreview {
+  startDate: string;
+  endDate: string;
+  grouping: GlGrouping;
+  depositAccount: string | null;
+  entries: GlJournalEntry[];
+  unmappedFunds: string[];
+  totals: { debit: number; credit: number; gifts: number };
+  previousExports: GlExportLog[];
 }
 
 export interface Donation {
   id: string;
   memberId: string;
   amount: number;
-  fund: FundType;
+  fund: string;
   date: string;
   notes?: string;
   enteredBy: string;
   timestamp: string;
   donation_date?: string;
+  batchId?: string | null;
+  paymentMethod?: PaymentMethod | null;
+  checkNumber?: string | null;
+  paymentReference?: string | null;
+  goodsServicesProvided?: boolean;
+  goodsServicesValue?: number;
+  goodsServicesDescription?: string | null;
+  source?: DonationSource;
+  externalId?: string | null;
+  importId?: string | null;
+  version?: number;
+}
+
+// A gift entered offline, waiting on the device to be posted
+export interface QueuedDonation {
+  // Generated on the device; sent as the Idempotency-Key so retries post once
+  clientId: string;
+  // Body for POST /api/donations
+  payload: Record<string, any>;
+  donorName: string;
+  // Who entered it; only their session syncs it
+  enteredBy: string;
+  queuedAt: number;
+  // Error code from the last sync attempt the server refused
+  lastError?: string | null;
+  // Server errors (5xx) in a row; the gift is set aside after a few
+  serverErrors?: number;
+}
+
+export interface DonationSummary {
+  totalDonations: number;
+  donationCount: number;
+  avgDonation: number;
+  donorCount: number;
+  totalMembers: number;
+  newMembersThisWeek: number;
+  currentMonthDonations: number;
+  lastMonthDonations: number;
+  currentYearDonations: number;
+  avgRecent: number;
+  avgPrevious: number;
+  fundDistribution: { name: string; value: number }[];
+}
+
+export type PaymentMethod = 'cash' | 'check' | 'card' | 'ach' | 'online' | 'in_kind' | 'stock';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'check', label: 'Check' },
+  { value: 'card', label: 'Card' },
+  { value: 'ach', label: 'ACH' },
+  { value: 'online', label: 'Online' },
+  { value: 'in_kind', label: 'In-Kind' },
+  { value: 'stock', label: 'Stock' },
+];
+
+export interface DepositBatch {
+  id: string;
+  batchDate: string;
+  description?: string | null;
+  status: 'open' | 'closed';
+  expectedCashTotal: number;
+  expectedCashCount: number;
+  expectedCheckTotal: number;
+  expectedCheckCount: number;
+  expectedTotal: number;
+  expectedCount: number;
+  actualTotal: number;
+  actualCount: number;
+  actualCashTotal: number;
+  actualCashCount: number;
+  actualCheckTotal: number;
+  actualCheckCount: number;
+  cashVariance: number;
+  checkVariance: number;
+  variance: number;
+  countVariance: number;
+  isBalanced: boolean;
+  createdBy?: string | null;
+  closedBy?: string | null;
+  closedAt?: string | null;
+  createdAt: string;
+}
+
+export type PledgeFrequency = 'one_time' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
+
+export const PLEDGE_FREQUENCIES: { value: PledgeFrequency; label: string }[] = [
+  { value: 'one_time', label: 'One-Time' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annually' },
+];
+
+export interface Pledge {
+  id: string;
+  memberId: string;
+  memberName?: string;
+  fund: string;
+  campaignId?: string | null;
+  campaignTitle?: string | null;
+  amount: number;
+  frequency: PledgeFrequency;
+  startDate: string;
+  endDate?: string | null;
+  status: 'active' | 'cancelled';
+  notes?: string | null;
+  received: number;
+  receivedCount: number;
+  remaining: number;
+  percentFulfilled: number;
+  installmentCount: number;
+  installmentAmount: number;
+  installmentsDue: number;
+  expectedToDate: number;
+  nextDueDate?: string | null;
+  fulfillmentStatus: 'on_track' | 'behind' | 'fulfilled' | 'cancelled';
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'annually';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every Two Weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annually' },
+];
+
+export type RecurringGiftStatus = 'active' | 'paused' | 'cancelled';
+
+export interface RecurringGift {
+  id: string;
+  memberId: string;
+  memberName?: string;
+  fund: string;
+  amount: number;
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string | null;
+  paymentMethod?: string | null;
+  status: RecurringGiftStatus;
+  notes?: string | null;
+  nextDueDate?: string | null;
+  receivedCount: number;
+  missedCount: number;
+  receivedAmount: number;
+  lastReceivedDueDate?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export type RecurringInstallmentStatus = 'expected' | 'received' | 'missed' | 'skipped';
+
+export interface RecurringGiftInstallment {
+  id: string;
+  recurringGiftId: string;
+  memberId: string;
+  memberName?: string;
+  fund: string;
+  frequency: RecurringFrequency;
+  dueDate: string;
+  amount: number;
+  status: RecurringInstallmentStatus;
+  donationId?: string | null;
+  receivedAmount?: number | null;
+  receivedDate?: string | null;
+  matchedAt?: string | null;
+}
+
+export interface HouseholdMember {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string | null;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  salutation?: string | null;
+  headMemberId?: string | null;
+  headName?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  jointStatements: boolean;
+  memberCount?: number;
+  members?: HouseholdMember[];
+  createdAt: string;
+}
+
+export type DuplicateMatchReason = 'name' | 'email' | 'phone' | 'address';
+
+export interface DuplicateMember extends Member {
+  donationCount: number;
+  donationTotal: number;
+}
+
+export interface MemberDuplicateCandidate {
+  score: number;
+  reasons: DuplicateMatchReason[];
+  members: [DuplicateMember, DuplicateMember];
+}
+
+export type MergeFieldChoice = 'survivor' | 'duplicate';
+
+export interface MemberMergeResult {
+  member: Record<string, any>;
+  moved: {
+    donations: number;
+    pledges: number;
+    users: number;
+    households: number;
+    statementIssues: number;
+    importRows: number;
+    recurringGifts: number;
+    donorContacts: number;
+    followUpTasks: number;
+  };
+}
+
+export type ImportAction = 'create' | 'update' | 'duplicate' | 'error';
+
+export interface MemberImportRow {
+  line: number;
+  action: ImportAction;
+  member: {
+    id: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    telephone: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zip: string | null;
+    joinedAt: string | null;
+  };
+  errors: string[];
+  existingId?: string;
+  match?: { memberId?: string; name?: string; line?: number; matchedOn: 'email' | 'telephone' };
+  record?: Record<string, string>;
+}
+
+export interface MemberImportPreview {
+  dryRun: true;
+  headers: string[];
+  mapping: Record<string, string>;
+  summary: { total: number; create: number; update: number; duplicate: number; error: number };
+  rows: MemberImportRow[];
+}
+
+export interface MemberImportResult {
+  dryRun: false;
+  summary: { created: number; updated: number; skipped: number; rejected: number };
+  rejected: MemberImportRow[];
+}
+
+export type DonationImportProvider = 'generic' | 'tithely' | 'pushpay' | 'bank';
+
+// 'manual' for gifts entered by hand, otherwise the import provider
+export type DonationSource = 'manual' | DonationImportProvider;
+
+export const DONATION_IMPORT_PROVIDERS: { value: DonationImportProvider; label: string }[] = [
+  { value: 'generic', label: 'Generic CSV' },
+  { value: 'tithely', label: 'Tithe.ly' },
+  { value: 'pushpay', label: 'Pushpay' },
+  { value: 'bank', label: 'Bank Deposit (ACH)' },
+];
+
+export type DonationImportRowStatus = 'ready' | 'imported' | 'pending' | 'duplicate' | 'skipped' | 'error';
+
+export interface DonationImportPreviewRow {
+  line: number;
+  status: 'ready' | 'pending' | 'duplicate' | 'error';
+  externalId: string | null;
+  date: string | null;
+  amount: number | null;
+  payerName: string | null;
+  email: string | null;
+  sourceFund: string | null;
+  fund: string | null;
+  paymentMethod: PaymentMethod;
+  memberId: string | null;
+  matchType: 'email' | 'name' | null;
+  candidates: { id: string; name: string; email: string | null }[];
+  reviewReasons: ('member' | 'fund')[];
+  duplicateOf?: number | 'imported';
+  errors: string[];
+  record?: Record<string, string>;
+}
+
+export interface DonationImportPreview {
+  dryRun: true;
+  provider: DonationImportProvider;
+  headers: string[];
+  mapping: Record<string, string>;
+  summary: { total: number; ready: number; pending: number; duplicate: number; error: number };
+  rows: DonationImportPreviewRow[];
+}
+
+export interface DonationImportRow {
+  id: string;
+  importId: string;
+  line: number;
+  status: DonationImportRowStatus;
+  externalId: string | null;
+  payerName: string | null;
+  payerEmail: string | null;
+  amount: number | null;
+  date: string | null;
+  sourceFund: string | null;
+  fund: string | null;
+  paymentMethod: PaymentMethod | null;
+  notes: string | null;
+  memberId: string | null;
+  memberName: string | null;
+  matchType: 'email' | 'name' | 'manual' | 'guest' | null;
+  reviewReasons: ('member' | 'fund')[];
+  errors: string[];
+  donationId: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+}
+
+export interface DonationImport {
+  id: string;
+  provider: DonationImportProvider;
+  fileName: string | null;
+  status: 'review' | 'completed';
+  totalRows: number;
+  counts: { imported: number; pending: number; duplicate: number; skipped: number; error: number };
+  createdBy: string;
+  createdAt: string;
+  completedAt: string | null;
+  rows?: DonationImportRow[];
+}
+
+export interface FundMappingRule {
+  id: string;
+  provider: DonationImportProvider | null;
+  matchValue: string;
+  fund: string;
+  createdBy: string;
+  createdAt: string;
 }
 
 export interface ChurchSettings {
@@ -46,16 +512,302 @@ export interface ChurchSettings {
   phone: string;
   email: string;
   taxId: string;
+  statementIntro?: string | null;
+  statementDisclosure?: string | null;
+  statementSignerName?: string | null;
+  statementSignerTitle?: string | null;
+  riskWatchScore?: number;
+  riskAlertScore?: number;
+  riskMinGifts?: number;
+  riskLookbackMonths?: number;
+  riskDropPercent?: number;
+  riskContactSnoozeDays?: number;
+  followUpAssigneeId?: number | null;
+  acknowledgmentMode?: AcknowledgmentMode;
+  acknowledgmentThreshold?: number;
+}
+
+export type AcknowledgmentMode = 'off' | 'immediate' | 'weekly';
+
+export interface DonorContact {
+  id: string;
+  memberId: string;
+  note: string | null;
+  contactedBy: string | null;
+  contactedAt: string;
+}
+
+export type DonorRiskLevel = 'watch' | 'at_risk';
+
+export interface AtRiskDonor {
+  memberId: string;
+  name: string;
+  email: string | null;
+  cadence: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'seasonal' | 'annually' | 'scheduled';
+  basis: 'history' | 'schedule';
+  score: number;
+  level: DonorRiskLevel;
+  explanation: string;
+  missedPeriods: number;
+  windowPeriods: number;
+  lapseStreak: number;
+  dropPercent: number;
+  lastGiftDate: string | null;
+  lastGiftAmount: number | null;
+  typicalAmount: number | null;
+  lastContact: DonorContact | null;
+  contacted: boolean;
+}
+
+export type TaskStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+
+export const TASK_STATUSES: { value: TaskStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'done', label: 'Done' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+export type TaskOrigin = 'manual' | 'at_risk' | 'new_member' | 'new_donor' | 'missing_email';
+
+export const TASK_ORIGINS: { value: TaskOrigin; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'at_risk', label: 'At-Risk Alert' },
+  { value: 'new_member', label: 'New Member' },
+  { value: 'new_donor', label: 'New Donor' },
+  { value: 'missing_email', label: 'Missing Email' },
+];
+
+export interface FollowUpTask {
+  id: string;
+  memberId: string;
+  memberName?: string;
+  assignedTo: number | null;
+  assignedToName: string | null;
+  title: string;
+  description: string | null;
+  origin: TaskOrigin;
+  status: TaskStatus;
+  dueDate: string | null;
+  overdue: boolean;
+  noteCount: number;
+  createdBy: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  notes?: TaskNote[];
+}
+
+export interface TaskNote {
+  id: string;
+  taskId: string;
+  body: string;
+  author: string | null;
+  createdAt: string;
+}
+
+export interface TaskAssignee {
+  id: number;
+  username: string;
+  role: string;
+}
+
+export type EmailTemplateKey = 'statement' | 'receipt' | 'acknowledgment' | 'acknowledgment_digest' | 'report';
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  subject: string;
+  body: string;
+  mergeFields: string[];
+  isDefault: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface EmailMessage {
+  id: string;
+  jobId: string | null;
+  templateKey: EmailTemplateKey;
+  memberId: string | null;
+  memberName: string | null;
+  donationId: string | null;
+  recipientEmail: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailJob {
+  id: string;
+  templateKey: EmailTemplateKey;
+  taxYear: number | null;
+  createdBy: string | null;
+  createdAt: string;
+  counts: { total: number; queued: number; sending: number; sent: number; failed: number };
+  complete: boolean;
+}
+
+export type ReportType = 'fund_distribution' | 'quarterly_progress' | 'trend_analysis' | 'new_donors';
+export type ReportFormat = 'pdf' | 'csv';
+export type ReportCadence = 'weekly' | 'monthly' | 'quarterly';
+export type ReportChannel = 'inbox' | 'email';
+
+export interface ReportSubscription {
+  id: string;
+  name: string;
+  reportType: ReportType;
+  reportName: string;
+  params: { year?: number; fund?: string };
+  format: ReportFormat;
+  cadence: ReportCadence;
+  channel: ReportChannel;
+  recipientUserIds: number[];
+  recipientEmails: string[];
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastError: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportRecipient {
+  id: number;
+  username: string;
+  role: string;
+  email: string | null;
+}
+
+export interface ReportInboxItem {
+  id: string;
+  deliveryId: string;
+  subscriptionId: string | null;
+  reportType: ReportType;
+  title: string;
+  period: string | null;
+  format: ReportFormat;
+  filename: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type ReportDimension = 'fund' | 'month' | 'quarter' | 'member' | 'household' | 'campaign' | 'payment_method';
+export type ReportMeasure = 'sum' | 'count' | 'average' | 'distinct_donors';
+export type ReportChart = 'bar' | 'line' | 'pie' | 'table';
+
+export const REPORT_DIMENSIONS: { value: ReportDimension; label: string }[] = [
+  { value: 'fund', label: 'Fund' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'member', label: 'Member' },
+  { value: 'household', label: 'Household' },
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'payment_method', label: 'Payment Method' },
+];
+
+export const REPORT_MEASURES: { value: ReportMeasure; label: string }[] = [
+  { value: 'sum', label: 'Total' },
+  { value: 'count', label: 'Gifts' },
+  { value: 'average', label: 'Average Gift' },
+  { value: 'distinct_donors', label: 'Donors' },
+];
+
+export interface ReportDefinition {
+  dimensions: ReportDimension[];
+  measures: ReportMeasure[];
+  filters: {
+    funds?: string[];
+    paymentMethods?: PaymentMethod[];
+    memberIds?: string[];
+    householdIds?: string[];
+    campaignIds?: number[];
+    minAmount?: number;
+    maxAmount?: number;
+  };
+  startDate?: string | null;
+  endDate?: string | null;
+  sort?: { by: ReportDimension | ReportMeasure; direction: 'asc' | 'desc' } | null;
+  limit?: number;
+  chart?: ReportChart;
+}
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: ReportDefinition;
+  sharedRoles: string[];
+  ownerId: number | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportResult {
+  columns: { key: ReportDimension | ReportMeasure; label: string; type: 'text' | 'currency' | 'number' }[];
+  rows: Record<string, string | number>[];
+  truncated: boolean;
+}
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
 }
 
-// Added AuditLog interface to resolve import error in mockData.ts and support security tracking
 export interface AuditLog {
   id: string;
   action: string;
-  entity: string;
-  description: string;
-  user: string;
-  timestamp: string;
+  entityType: string;
+  entityId?: string | null;
+  actorUserId?: number | null;
+  actorUsername?: string | null;
+  actorRole?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  changes: Record<string, AuditChange>;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type LockResourceType = 'member' | 'donation' | 'settings' | 'user';
+
+export interface RecordLock {
+  resourceType: LockResourceType;
+  resourceId: string;
+  lockedBy: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+/** The signed-in user as returned at login; flags come from server/rbac.js getRoleInfo */
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: string;
+  memberId?: string | null;
+  permissions?: string[];
+  canManageUsers?: boolean;
+  canExportData?: boolean;
+  canDeleteMembers?: boolean;
+  canDeleteDonations?: boolean;
+  canViewAudit?: boolean;
+  canApproveBatches?: boolean;
+  canApproveDisbursements?: boolean;
+  canManageSettings?: boolean;
+  canEmailStatements?: boolean;
+  canManageEmail?: boolean;
+  canScheduleReports?: boolean;
+  canManageReports?: boolean;
+  canManageBudgets?: boolean;
+  canReleaseLocks?: boolean;
 }
 
 export type ViewState =
@@ -69,4 +821,7 @@ export type ViewState =
   | "VOLUNTEER"
   | "STEWARDSHIP"
   | "MEMBER_DASHBOARD"
+  | "TASKS"
+  | "REPORT_INBOX"
+  | "DISBURSEMENTS"
   | "REGISTER";
@@ -35,7 +35,6 @@ export default defineConfig(({ mode }) => {
           },
         }),
         VitePWA({
-          selfDestroying: true,
           registerType: 'autoUpdate',
           includeAssets: ['favicon.ico', 'robots.txt', 'apple-touch-icon.png'],
           manifest: {
@@ -58,8 +57,35 @@ export default defineConfig(({ mode }) => {
           },
           workbox: {
             maximumFileSizeToCacheInBytes: 10 * 1024 * 1024,
+            // App shell: the built bundle is precached so the app opens without a connection
+            globPatterns: ['**/*.{js,css,html,ico,png,svg,webmanifest}'],
+            navigateFallback: '/index.html',
+            navigateFallbackDenylist: [/^\/api\//, /^\/socket\.io\//],
             // Cache Google Fonts, external libraries, etc.
             runtimeCaching: [
+              {
+                // Styles come from the Tailwind CDN script
+                urlPattern: /^https:\/\/cdn\.tailwindcss\.com\/.*/i,
+                handler: 'StaleWhileRevalidate',
+                options: {
+                  cacheName: 'tailwind-cdn-cache',
+                  cacheableResponse: {
+                    statuses: [0, 200]
+                  }
+                }
+              },
+              {
+                // Fund list for the donation form; the live copy wins when online
+                urlPattern: ({ url }) => url.pathname === '/api/funds',
+                handler: 'NetworkFirst',
+                options: {
+                  cacheName: 'funds-cache',
+                  networkTimeoutSeconds: 5,
+                  cacheableResponse: {
+                    statuses: [200]
+                  }
+                }
+              },
               {
                 urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
                 handler: 'CacheFirst',